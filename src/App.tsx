@@ -4,9 +4,14 @@ import { FolderIcon } from '@heroicons/react/24/outline';
 import { api } from './renderer/api';
 import type { FileEntry } from './global';
 import AlertDialog from './components/dialogs/AlertDialog';
+import LinkRewriteDialog from './components/dialogs/LinkRewriteDialog';
+import SaveConflictDialog from './components/dialogs/SaveConflictDialog';
+import ToolApprovalDialog from './components/dialogs/ToolApprovalDialog';
 import SearchResultsView from './components/views/SearchResultsView';
 import SettingsView from './components/views/SettingsView';
 import FolderAnalysisView from './components/views/FolderAnalysisView';
+import BrokenLinksView from './components/views/BrokenLinksView';
+import TasksView from './components/views/TasksView';
 import FolderGraphView from './components/views/FolderGraphView';
 import CalendarView from './components/views/CalendarView';
 import AISettingsView from './components/views/AISettingsView';
@@ -30,6 +35,7 @@ import {
   updateCalendarEvent,
   deleteCalendarEventsUnderPath,
   setCalendarWatcherWarning,
+  setHighlightItem,
   // Aliased at the import (rather than bound inside App) so it stays a module-scope
   // reference: a local `const setError = setAppError` would read as component state
   // to react-hooks/exhaustive-deps and be demanded in every effect's dep array.
@@ -41,8 +47,10 @@ import { toCalendarEvents } from './shared/calendarUtil';
 import type { FileNode } from './store';
 import { loadConfig } from './renderer/config';
 import { executeSearch } from './renderer/searchUtil';
-import { isPathInside } from './renderer/pathUtil';
+import { getParentPath, isPathInside } from './renderer/pathUtil';
 import { applyGlobalHighlight, getGlobalHighlightText } from './renderer/globalHighlight';
+import { refreshGitStatus } from './renderer/gitStatus';
+import { watchToolApprovals } from './renderer/toolApproval';
 import { logger } from './shared/logUtil';
 import { BUTTON_CLASS_LG_BLUE } from './renderer/styles';
 
@@ -241,6 +249,21 @@ function App() {
     });
   }, []);
 
+  // A clicked reminder notification opens its item the way the calendar's own events do.
+  useEffect(() => {
+    // Returns the useEffect cleanup: the unsubscribe fn that removes the 'reminder-open-file' IPC listener on unmount.
+    return api.onReminderOpenFile((filePath: string) => {
+      setHighlightItem(filePath);
+      navigateToBrowserPath(getParentPath(filePath), filePath);
+    });
+  }, []);
+
+  // Agentic Mode writes and deletes wait in the ToolApprovalDialog for the user.
+  useEffect(() => {
+    // Returns the useEffect cleanup: the unsubscribe fn that removes the tool-approval IPC listeners on unmount.
+    return watchToolApprovals();
+  }, []);
+
   // Apply font size globally via data attribute on html element
   useEffect(() => {
     document.documentElement.setAttribute('data-font-size', settings.fontSize);
@@ -318,6 +341,19 @@ function App() {
     void loadDirectoryContents(currentPath, true, setEntries, setLoading, setError);
   }, [currentPath, directoryRefreshNonce]);
 
+  // Git status badges follow the same reloads, and the window regaining focus
+  // (the user may have committed or pulled in a terminal meanwhile).
+  useEffect(() => {
+    void refreshGitStatus();
+  }, [rootPath, currentPath, directoryRefreshNonce]);
+
+  useEffect(() => {
+    const handleFocus = () => void refreshGitStatus();
+    window.addEventListener('focus', handleFocus);
+    // Returns the useEffect cleanup (an unsubscribe): removes the window 'focus' listener on unmount.
+    return () => window.removeEventListener('focus', handleFocus);
+  }, []);
+
   // Remove entries that were deleted from the store (e.g. via SearchResultsView).
   // Pruning during render (rather than in an effect) avoids a cascading re-render;
   // the length guard keeps this from looping when nothing was removed.
@@ -533,6 +569,18 @@ function App() {
           </div>
         )}
 
+        {visitedViews.has('broken-links') && (
+          <div {...viewProps('broken-links')}>
+            <BrokenLinksView />
+          </div>
+        )}
+
+        {visitedViews.has('tasks') && (
+          <div {...viewProps('tasks')}>
+            <TasksView />
+          </div>
+        )}
+
         {visitedViews.has('thread') && (
           <div {...viewProps('thread')}>
             <ThreadView onSaveSettings={handleSaveSettings} />
@@ -575,6 +623,9 @@ function App() {
         )}
       </div>
 
+      <LinkRewriteDialog />
+      <SaveConflictDialog />
+      <ToolApprovalDialog />
       {error && <AlertDialog scrollable title="Error" message={error} onClose={() => setError(null)} />}
     </>
   );
@@ -1,6 +1,6 @@
 import { useRef, useState } from 'react';
 import { Bars3Icon } from '@heroicons/react/24/outline';
-import { showTab, hideTab, setCurrentView, useAS, setCurrentPath, setHighlightItem, setPendingScrollToFile, setFolderGraph, setFolderAnalysis, clearSearchResults, type AppView } from '../store';
+import { showTab, hideTab, setCurrentView, useAS, setCurrentPath, setHighlightItem, setPendingScrollToFile, setFolderGraph, setFolderAnalysis, setBrokenLinkReport, setTaskReport, clearSearchResults, type AppView } from '../store';
 import { isAiThreadByEntries } from '../shared/ai/aiPatterns';
 import { getParentPath, isPathInside } from '../renderer/pathUtil';
 import type { FileEntry } from '../global';
@@ -23,12 +23,14 @@ interface AppTabButtonsProps {
   onOpenRecentFolder: (folder: string) => void;
 }
 
-// Canonical tab order: Browse, Thread, Search, Analysis, Graph, Settings
+// Canonical tab order: Browse, Thread, Search, Analysis, Links, Tasks, Graph, Settings
 const allTabs: TabConfig[] = [
   { id: 'browser', label: 'Browse', hasCloseButton: false },
   { id: 'thread', label: 'AI Chat', hasCloseButton: false },
   { id: 'search-results', label: 'Search' },
   { id: 'folder-analysis', label: 'Analysis' },
+  { id: 'broken-links', label: 'Links' },
+  { id: 'tasks', label: 'Tasks' },
   { id: 'folder-graph', label: 'Graph' },
   { id: 'settings', label: 'Settings' },
   { id: 'ai-settings', label: 'AI Settings' },
@@ -40,12 +42,14 @@ const allTabs: TabConfig[] = [
  * and an "Up Level" button when browsing below the root folder.
  *
  * Tab visibility is driven by store state: tabs appear when their corresponding
- * data is available (search results, analysis, graph, AI thread) and disappear
+ * data is available (search results, analysis, link check, tasks, graph, AI thread) and disappear
  * when closed — clearing the underlying data.
  */
 function AppTabButtons({ entries, onSelectFolder, onQuit, recentFolders, onOpenRecentFolder }: AppTabButtonsProps) {
   const currentView = useAS(s => s.currentView);
   const folderAnalysis = useAS(s => s.folderAnalysis);
+  const brokenLinkReport = useAS(s => s.brokenLinkReport);
+  const taskReport = useAS(s => s.taskReport);
   const folderGraph = useAS(s => s.folderGraph);
   const searchResults = useAS(s => s.searchResults);
   const currentPath = useAS(s => s.currentPath);
@@ -78,6 +82,8 @@ function AppTabButtons({ entries, onSelectFolder, onQuit, recentFolders, onOpenR
     'thread': makeCloseHandler('thread', () => hideTab('thread')),
     'search-results': makeCloseHandler('search-results', () => clearSearchResults()),
     'folder-analysis': makeCloseHandler('folder-analysis', () => setFolderAnalysis(null)),
+    'broken-links': makeCloseHandler('broken-links', () => setBrokenLinkReport(null)),
+    'tasks': makeCloseHandler('tasks', () => setTaskReport(null)),
     'folder-graph': makeCloseHandler('folder-graph', () => setFolderGraph(null)),
     'settings': makeCloseHandler('settings', () => hideTab('settings')),
     'ai-settings': makeCloseHandler('ai-settings', () => hideTab('ai-settings')),
@@ -91,6 +97,8 @@ function AppTabButtons({ entries, onSelectFolder, onQuit, recentFolders, onOpenR
     ...visibleTabs,
     ...(searchResults.length > 0 ? ['search-results' as AppView] : []),
     ...(folderAnalysis ? ['folder-analysis' as AppView] : []),
+    ...(brokenLinkReport ? ['broken-links' as AppView] : []),
+    ...(taskReport ? ['tasks' as AppView] : []),
     ...(folderGraph ? ['folder-graph' as AppView] : []),
     ...(isInAiThread ? ['thread' as AppView] : []),
   ]);
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import type { Backlink } from '../shared/shared';
+import { api } from '../renderer/api';
+import { useAS, setHighlightItem, navigateToBrowserPath } from '../store';
+import { getParentPath, isPathInside } from '../renderer/pathUtil';
+import { logger } from '../shared/logUtil';
+
+interface BacklinksPanelProps {
+  /** Full path of the file whose inbound links are listed. */
+  filePath: string;
+  /** Re-fetches the list whenever it changes (the entry passes the file's mtime, so
+   *  the list is refreshed along with the content it sits under). */
+  refreshKey: string;
+}
+
+/**
+ * The "Backlinks" section under an expanded markdown entry: every file in the
+ * vault that links to this one (wikilinks and relative markdown links), each
+ * with the line the link sits on. Clicking an entry navigates to the linking
+ * file. Answered by the main process from the search index's link map (falling
+ * back to a scan while the index is building).
+ *
+ * Renders nothing when there are no backlinks, so ordinary notes don't grow an
+ * empty section.
+ */
+export default function BacklinksPanel({ filePath, refreshKey }: BacklinksPanelProps) {
+  const rootPath = useAS(s => s.rootPath);
+  // Keyed by the request that produced it, so a result for a previous file (or a
+  // previous save) is never shown for the current one.
+  const [loaded, setLoaded] = useState<{ key: string; backlinks: Backlink[] } | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const requestKey = `${filePath}\n${refreshKey}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getBacklinks(filePath)
+      .then((backlinks) => {
+        if (!cancelled) setLoaded({ key: requestKey, backlinks });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to load backlinks:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded getBacklinks() can't set state.
+    return () => { cancelled = true; };
+  }, [filePath, requestKey]);
+
+  const backlinks = loaded?.key === requestKey ? loaded.backlinks : [];
+  if (backlinks.length === 0) return null;
+
+  const displayPath = (p: string) =>
+    rootPath && isPathInside(rootPath, p) ? p.slice(rootPath.length).replace(/^[/\\]+/, '') : p;
+
+  const handleOpen = (sourcePath: string) => {
+    setHighlightItem(sourcePath);
+    navigateToBrowserPath(getParentPath(sourcePath), sourcePath);
+  };
+
+  return (
+    <div
+      className="mt-4 pt-2 border-t border-slate-700 text-sm"
+      data-testid="backlinks-panel"
+      // The entry's content area opens the editor on mouseup; clicks in here are navigation.
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex items-center gap-1.5 text-slate-400 hover:text-slate-200 mb-1"
+        title={collapsed ? 'Show backlinks' : 'Hide backlinks'}
+      >
+        <ArrowUturnLeftIcon className="w-4 h-4" />
+        Backlinks ({backlinks.length})
+      </button>
+      {!collapsed && (
+        <ul className="space-y-1">
+          {backlinks.map((link) => (
+            <li key={`${link.sourcePath}:${link.line}:${link.anchor ?? ''}`}>
+              <button
+                type="button"
+                onClick={() => handleOpen(link.sourcePath)}
+                className="text-left w-full rounded px-1 hover:bg-slate-700/60"
+                title={`${link.sourcePath}, line ${link.line}`}
+              >
+                <span className="text-blue-400 break-all">{displayPath(link.sourcePath)}</span>
+                {link.anchor && <span className="text-slate-500 ml-1">#{link.anchor}</span>}
+                <span className="block text-slate-400 truncate">{link.context}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,18 @@ import type { ExtraProps } from 'react-markdown';
 import { api } from '../renderer/api';
 import { setHighlightItem, navigateToBrowserPath } from '../store';
 import { decodeMarkdownUrl } from '../renderer/linkUtil';
+import { parseWikiLinkHref } from '../shared/mkUtil';
 import { getParentPath, isAbsolutePath, pathSep, splitPath } from '../renderer/pathUtil';
+import WikiLink from './WikiLink';
 
 interface CustomAnchorProps extends React.AnchorHTMLAttributes<HTMLAnchorElement>, ExtraProps {
   entryPath: string;
 }
 
 /**
- * Custom <a> renderer for react-markdown that intercepts three link types:
+ * Custom <a> renderer for react-markdown. Wikilinks (hrefs made by
+ * preprocessWikiLinks) are handed to WikiLink, which resolves them by name.
+ * Otherwise it intercepts three link types:
  *   - External URLs (http/https, file://) — opened via the system default handler.
  *   - In-page anchor links (#section) — scrolled inside the container since Electron
  *     SPAs don't use window-level scrolling.
@@ -22,6 +26,11 @@ interface CustomAnchorProps extends React.AnchorHTMLAttributes<HTMLAnchorElement
 // `node` is react-markdown's internal hast node; destructure it out so it isn't
 // spread onto the DOM <a> element (React warns on unknown DOM props).
 export default function CustomAnchor({ href, children, entryPath, node, ...props }: CustomAnchorProps) {
+  const wiki = href ? parseWikiLinkHref(href) : null;
+  if (wiki) {
+    return <WikiLink entryPath={entryPath} target={wiki.target} anchor={wiki.anchor}>{children}</WikiLink>;
+  }
+
   const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
     e.stopPropagation();
     if (!href) return;
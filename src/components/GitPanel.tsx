@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { CodeBracketIcon } from '@heroicons/react/24/outline';
+import type { GitLogEntry } from '../shared/shared';
+import { api } from '../renderer/api';
+import { useAS } from '../store';
+import { logger } from '../shared/logUtil';
+import AlertDialog from './dialogs/AlertDialog';
+
+interface GitPanelProps {
+  /** Full path of the file whose git log is listed. */
+  filePath: string;
+  /** Re-fetches the log whenever it changes (the entry passes the file's mtime). */
+  refreshKey: string;
+  /** Opens a revision's content in the editor's diff review against the file. */
+  onReview: (content: string) => void;
+}
+
+/**
+ * The "Git" section under an expanded file in a git repository: "Diff with
+ * HEAD" while the file has uncommitted changes, and the commits that touched it,
+ * newest first (see main/gitUtil.ts). Both open the revision in the editor's
+ * diff review — the merge view the History panel uses — so the differences can
+ * be read there, and any of them taken back and saved to revert.
+ *
+ * Starts collapsed, and renders nothing for a file git has no commits of.
+ */
+export default function GitPanel({ filePath, refreshKey, onReview }: GitPanelProps) {
+  // A commit made in the app changes the file's status, so the log follows it.
+  const gitState = useAS(s => s.gitStatus?.badges[filePath]);
+  // Keyed by the request that produced it, so a log for a previous file (or a
+  // previous save) is never shown for the current one.
+  const [loaded, setLoaded] = useState<{ key: string; log: GitLogEntry[] } | null>(null);
+  const [collapsed, setCollapsed] = useState(true);
+  const [missing, setMissing] = useState(false);
+  const requestKey = `${filePath}\n${refreshKey}\n${gitState ?? ''}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getGitLog(filePath)
+      .then((log) => {
+        if (!cancelled) setLoaded({ key: requestKey, log });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to load git log:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded getGitLog() can't set state.
+    return () => { cancelled = true; };
+  }, [filePath, requestKey]);
+
+  const log = loaded?.key === requestKey ? loaded.log : [];
+  if (log.length === 0) return null;
+
+  const handleReview = (rev: string, repoPath?: string) => {
+    api.readGitRevision(filePath, rev, repoPath)
+      .then((content) => {
+        // A file renamed since HEAD has no HEAD version under its new name.
+        if (content === null) setMissing(true);
+        else onReview(content);
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to read git revision:', err);
+      });
+  };
+
+  return (
+    <div
+      className="mt-4 pt-2 border-t border-slate-700 text-sm"
+      data-testid="git-panel"
+      // The entry's content area opens the editor on mouseup; clicks in here have their own actions.
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex items-center gap-1.5 text-slate-400 hover:text-slate-200 mb-1"
+        title={collapsed ? 'Show git log' : 'Hide git log'}
+      >
+        <CodeBracketIcon className="w-4 h-4" />
+        Git ({log.length})
+      </button>
+      {!collapsed && (
+        <ul className="space-y-1">
+          {gitState && gitState !== 'untracked' && (
+            <li>
+              <button
+                type="button"
+                onClick={() => handleReview('HEAD')}
+                className="text-left w-full rounded px-1 hover:bg-slate-700/60 text-amber-400"
+                title="Compare the last committed version with the current file"
+                data-testid="git-diff-head"
+              >
+                Diff with HEAD
+              </button>
+            </li>
+          )}
+          {log.map((entry) => (
+            <li key={entry.hash}>
+              <button
+                type="button"
+                onClick={() => handleReview(entry.hash, entry.repoPath)}
+                className="text-left w-full rounded px-1 hover:bg-slate-700/60"
+                title={`${entry.hash}\n${entry.author}\n\nCompare with the current file, to restore all or part of this version`}
+                data-testid="git-log-entry"
+              >
+                <span className="text-blue-400">{new Date(entry.date).toLocaleString()}</span>
+                <span className="text-slate-500 font-mono ml-2">{entry.hash.slice(0, 7)}</span>
+                <span className="text-slate-300 ml-2">{entry.subject}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {missing && (
+        <AlertDialog
+          title="Not in Git"
+          message="This file is not in that commit under its current name."
+          onClose={() => setMissing(false)}
+        />
+      )}
+    </div>
+  );
+}
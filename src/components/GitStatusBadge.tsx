@@ -0,0 +1,34 @@
+import { useAS } from '../store';
+import type { GitFileState } from '../shared/shared';
+
+/** Letter, color and flyover for each badge. */
+const BADGES: Record<GitFileState | 'folder', { label: string; className: string; title: string }> = {
+  modified: { label: 'M', className: 'text-amber-400', title: 'Modified' },
+  staged: { label: 'S', className: 'text-green-400', title: 'Staged' },
+  added: { label: 'A', className: 'text-green-400', title: 'Added' },
+  deleted: { label: 'D', className: 'text-red-400', title: 'Deleted' },
+  renamed: { label: 'R', className: 'text-sky-400', title: 'Renamed' },
+  untracked: { label: 'U', className: 'text-emerald-300', title: 'Untracked' },
+  conflicted: { label: '!', className: 'text-red-400', title: 'Conflicted' },
+  folder: { label: '•', className: 'text-amber-400', title: 'Contains changes' },
+};
+
+/**
+ * The git status badge for `path` in the browser and the Index Tree: a letter
+ * for a changed file, a dot for a folder containing changes, and nothing for an
+ * unchanged path or outside a git repository (see renderer/gitStatus.ts).
+ */
+export default function GitStatusBadge({ path }: { path: string }) {
+  const state = useAS(s => s.gitStatus?.badges[path]);
+  if (!state) return null;
+  const badge = BADGES[state];
+  return (
+    <span
+      className={`flex-shrink-0 text-xs font-bold font-mono ${badge.className}`}
+      title={`Git: ${badge.title}`}
+      data-testid="git-status-badge"
+    >
+      {badge.label}
+    </span>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import type { FileVersion } from '../shared/shared';
+import { api } from '../renderer/api';
+import { logger } from '../shared/logUtil';
+import AlertDialog from './dialogs/AlertDialog';
+
+interface HistoryPanelProps {
+  /** Full path of the file whose kept versions are listed. */
+  filePath: string;
+  /** Re-fetches the list whenever it changes (the entry passes the file's mtime, so
+   *  a save's new version shows up along with the saved content). */
+  refreshKey: string;
+  /** Opens a version's content in the editor's diff review against the file. */
+  onReview: (content: string) => void;
+}
+
+/** "2.4 KB": a compressed snapshot's size, for the version list. */
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * The "History" section under an expanded file: the versions File History kept
+ * of it (see main/fileHistory.ts), newest first. Picking one opens it in the
+ * editor's diff review — the merge view AI Rewrite uses — with the file as it
+ * is now on one side and the version on the other, so the user can take all of
+ * it (Accept All), or only some changes, and save to restore it.
+ *
+ * Starts collapsed, and renders nothing while the file has no versions, so files
+ * saved before the setting was on (or with it off) don't grow an empty section.
+ */
+export default function HistoryPanel({ filePath, refreshKey, onReview }: HistoryPanelProps) {
+  // Keyed by the request that produced it, so a list for a previous file (or a
+  // previous save) is never shown for the current one.
+  const [loaded, setLoaded] = useState<{ key: string; versions: FileVersion[] } | null>(null);
+  const [collapsed, setCollapsed] = useState(true);
+  const [missing, setMissing] = useState(false);
+  const requestKey = `${filePath}\n${refreshKey}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    api.listFileVersions(filePath)
+      .then((versions) => {
+        if (!cancelled) setLoaded({ key: requestKey, versions });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to load file history:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded listFileVersions() can't set state.
+    return () => { cancelled = true; };
+  }, [filePath, requestKey]);
+
+  const versions = loaded?.key === requestKey ? loaded.versions : [];
+  if (versions.length === 0) return null;
+
+  const handleReview = (version: FileVersion) => {
+    api.readFileVersion(filePath, version.id)
+      .then((content) => {
+        // Retention can remove a version between listing and picking it.
+        if (content === null) setMissing(true);
+        else onReview(content);
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to read file version:', err);
+      });
+  };
+
+  return (
+    <div
+      className="mt-4 pt-2 border-t border-slate-700 text-sm"
+      data-testid="history-panel"
+      // The entry's content area opens the editor on mouseup; clicks in here have their own actions.
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex items-center gap-1.5 text-slate-400 hover:text-slate-200 mb-1"
+        title={collapsed ? 'Show history' : 'Hide history'}
+      >
+        <ClockIcon className="w-4 h-4" />
+        History ({versions.length})
+      </button>
+      {!collapsed && (
+        <ul className="space-y-1">
+          {versions.map((version) => (
+            <li key={version.id}>
+              <button
+                type="button"
+                onClick={() => handleReview(version)}
+                className="text-left w-full rounded px-1 hover:bg-slate-700/60"
+                title="Compare with the current file, to restore all or part of this version"
+                data-testid="history-version"
+              >
+                <span className="text-blue-400">{new Date(version.savedAt).toLocaleString()}</span>
+                <span className="text-slate-500 ml-2">{formatSize(version.compressedSize)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {missing && (
+        <AlertDialog
+          title="Version Not Found"
+          message="This version is no longer kept. It may have been removed by the File History limits in Settings."
+          onClose={() => setMissing(false)}
+        />
+      )}
+    </div>
+  );
+}
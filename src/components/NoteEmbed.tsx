@@ -0,0 +1,151 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { WikiLinkResolution } from '../shared/shared';
+import { api } from '../renderer/api';
+import { watchEmbeddedFile } from '../renderer/embedWatch';
+import { getFileName, getParentPath } from '../renderer/pathUtil';
+import { extractBlock, extractHeadingSection } from '../shared/tocUtil';
+import { logger } from '../shared/logUtil';
+import { useAS, setHighlightItem, navigateToBrowserPath, setPendingEditFile } from '../store';
+import MarkdownView from './entries/MarkdownView';
+import WikiLink from './WikiLink';
+
+/** Embeds nested inside embeds are followed this many levels deep; deeper ones render as links. */
+const MAX_EMBED_DEPTH = 3;
+
+/**
+ * The files whose content encloses the embed being rendered, outermost (the
+ * document itself) first. Empty outside any embed.
+ */
+const EmbedChainContext = createContext<string[]>([]);
+
+interface NoteEmbedProps {
+  /** The markdown file the embed is written in. */
+  entryPath: string;
+  /** The note as written in `![[note]]`, without the section. */
+  target: string;
+  /** The `#section` or `#^block-id` to embed, if any (without the `#`). */
+  anchor: string | null;
+  /** The embed's `|alias`, or the target as written; labels the embed. */
+  label: string;
+}
+
+function EmbedNotice({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center gap-1 text-sm text-amber-400" data-testid="note-embed-notice">
+      <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+      {children}
+    </span>
+  );
+}
+
+/**
+ * Renders `![[note]]`, `![[note#section]]` or `![[note#^block-id]]` (see
+ * preprocessWikiLinks and rehypeNoteEmbeds) as the live content of that note,
+ * section or block, framed and titled with a link to the note. The note is
+ * resolved by name like any wikilink, re-read whenever it changes on disk,
+ * and rendered through MarkdownView, so it may embed further notes: a note
+ * that would end up inside itself, or an embed nested deeper than
+ * MAX_EMBED_DEPTH, shows a notice instead of its content. Clicking the embedded text opens the note
+ * in the editor at that line.
+ */
+export default function NoteEmbed({ entryPath, target, anchor, label }: NoteEmbedProps) {
+  const parentChain = useContext(EmbedChainContext);
+  const chain = parentChain.length > 0 ? parentChain : [entryPath];
+  const tooDeep = chain.length > MAX_EMBED_DEPTH;
+  const refreshNonce = useAS(s => s.directoryRefreshNonce);
+
+  const [resolved, setResolved] = useState<{ key: string; resolution: WikiLinkResolution } | null>(null);
+  const resolveKey = `${entryPath}\n${target}\n${refreshNonce}`;
+  const [changeNonce, setChangeNonce] = useState(0);
+  const [loaded, setLoaded] = useState<{ key: string; content: string | null } | null>(null);
+
+  useEffect(() => {
+    if (tooDeep) return;
+    let cancelled = false;
+    api.resolveWikiLink(entryPath, target)
+      .then((resolution) => {
+        if (!cancelled) setResolved({ key: resolveKey, resolution });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to resolve embed:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded resolveWikiLink() can't set state.
+    return () => { cancelled = true; };
+  }, [entryPath, target, resolveKey, tooDeep]);
+
+  const filePath = resolved?.key === resolveKey ? resolved.resolution.path : null;
+  const circular = filePath !== null && chain.includes(filePath);
+  const loadKey = `${filePath}\n${changeNonce}`;
+
+  useEffect(() => {
+    if (!filePath || circular) return;
+    let cancelled = false;
+    api.readFile(filePath)
+      .then((result) => {
+        if (!cancelled) setLoaded({ key: loadKey, content: result.ok ? result.content : null });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to read embedded note:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded readFile() can't set state.
+    return () => { cancelled = true; };
+  }, [filePath, circular, loadKey]);
+
+  useEffect(() => {
+    if (!filePath || circular) return;
+    // Returns the useEffect cleanup: the unsubscribe fn from watchEmbeddedFile, which stops following the note on unmount.
+    return watchEmbeddedFile(filePath, () => setChangeNonce(n => n + 1));
+  }, [filePath, circular]);
+
+  const link = <WikiLink entryPath={entryPath} target={target} anchor={anchor}>{label}</WikiLink>;
+
+  if (tooDeep) {
+    return <div className="my-2">{link} <EmbedNotice>Embeds nested too deeply to show</EmbedNotice></div>;
+  }
+  if (resolved?.key === resolveKey && !filePath) {
+    return <div className="my-2">{link}</div>;
+  }
+  if (circular) {
+    return (
+      <div className="my-2">
+        <EmbedNotice>Circular embed: {getFileName(filePath)} ends up embedding itself</EmbedNotice>
+      </div>
+    );
+  }
+
+  const content = loaded?.key === loadKey ? loaded.content : undefined;
+  const isBlock = !!anchor?.startsWith('^');
+  const section = content && anchor
+    ? (isBlock ? extractBlock(content, anchor.slice(1)) : extractHeadingSection(content, anchor))
+    : null;
+  const body = content && anchor ? section?.text : content;
+  const lineOffset = section ? section.startLine - 1 : 0;
+
+  const openAtLine = (goToLine?: number) => {
+    if (!filePath) return;
+    setHighlightItem(filePath);
+    navigateToBrowserPath(getParentPath(filePath), filePath);
+    setPendingEditFile(filePath, 'browser', goToLine === undefined ? undefined : goToLine + lineOffset);
+  };
+
+  return (
+    <div
+      className="my-3 border-l-2 border-slate-500 pl-4"
+      data-testid="note-embed"
+      // The enclosing document opens its editor on mouseup; inside the embed, clicks belong to the note.
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="text-xs text-slate-400 not-prose">{link}</div>
+      {content === null && <EmbedNotice>Could not read {getFileName(filePath ?? target)}</EmbedNotice>}
+      {content && anchor && !section && (
+        <EmbedNotice>No {isBlock ? 'block' : 'section'} &ldquo;{anchor}&rdquo; in {getFileName(filePath ?? target)}</EmbedNotice>
+      )}
+      {body && filePath && (
+        <EmbedChainContext.Provider value={[...chain, filePath]}>
+          <MarkdownView content={body} showToc={false} entryPath={filePath} onEditClick={openAtLine} />
+        </EmbedChainContext.Provider>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { slug } from 'github-slugger';
+import { ExclamationTriangleIcon, PlusIcon } from '@heroicons/react/24/outline';
+import type { WikiLinkResolution } from '../shared/shared';
+import { api } from '../renderer/api';
+import { createFileOp } from '../renderer/fileOpsUtil';
+import { getFileName, getParentPath, isPathInside, pathSep, splitPath } from '../renderer/pathUtil';
+import {
+  useAS,
+  setHighlightItem,
+  navigateToBrowserPath,
+  setPendingScrollToHeadingSlug,
+  requestDirectoryRefresh,
+  setAppError,
+} from '../store';
+import { logger } from '../shared/logUtil';
+
+interface WikiLinkProps {
+  /** The markdown file the link is written in. */
+  entryPath: string;
+  /** The link target as written (`note`, `folder/note`, `image.png`), without the section. */
+  target: string;
+  /** The `#section` the link points at, if any (without the `#`). */
+  anchor: string | null;
+  children?: React.ReactNode;
+}
+
+/**
+ * Where "create this note" puts the file for `target`: relative to the linking
+ * file's folder, with `.md` added when the target has no extension.
+ */
+function newNotePath(entryPath: string, target: string): string {
+  const parts = splitPath(getParentPath(entryPath));
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  const filePath = parts.join(pathSep());
+  return /\.[^./\\]+$/.test(getFileName(filePath)) ? filePath : `${filePath}.md`;
+}
+
+/**
+ * Renders a `[[wikilink]]` (see preprocessWikiLinks), resolved Obsidian-style by
+ * the main process: relative to the linking file when that file exists, else by
+ * name anywhere under the root folder, taking the closest match when several
+ * files share the name — flagged with a warning icon listing the others. A
+ * link that matches nothing is drawn dashed, with a button that creates the
+ * note. Resolution is repeated whenever the browsed directory refreshes, so a
+ * link turns live as soon as its note is created.
+ */
+export default function WikiLink({ entryPath, target, anchor, children }: WikiLinkProps) {
+  const rootPath = useAS(s => s.rootPath);
+  const refreshNonce = useAS(s => s.directoryRefreshNonce);
+  const [resolved, setResolved] = useState<{ key: string; resolution: WikiLinkResolution } | null>(null);
+  const requestKey = `${entryPath}\n${target}\n${refreshNonce}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    api.resolveWikiLink(entryPath, target)
+      .then((resolution) => {
+        if (!cancelled) setResolved({ key: requestKey, resolution });
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to resolve wikilink:', err);
+      });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the cancelled flag so a superseded resolveWikiLink() can't set state.
+    return () => { cancelled = true; };
+  }, [entryPath, target, requestKey]);
+
+  const resolution = resolved?.key === requestKey ? resolved.resolution : null;
+  const displayPath = (p: string) =>
+    rootPath && isPathInside(rootPath, p) ? p.slice(rootPath.length).replace(/^[/\\]+/, '') : p;
+
+  // The markdown container opens the editor on mouseup, so every control here stops it.
+  const stopMouseUp = (e: React.MouseEvent) => e.stopPropagation();
+
+  const handleOpen = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const filePath = resolution?.path;
+    if (!filePath) return;
+    setHighlightItem(filePath);
+    // A `#^block-id` is the block's element id as written (see rehypeBlockIds); a heading goes by its slug.
+    if (anchor) setPendingScrollToHeadingSlug(anchor.startsWith('^') ? anchor : slug(anchor));
+    navigateToBrowserPath(getParentPath(filePath), filePath);
+  };
+
+  const handleCreate = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    const notePath = newNotePath(entryPath, target);
+    const folder = getParentPath(notePath);
+    void createFileOp(getFileName(notePath), folder, null, [], requestDirectoryRefresh, setAppError, () => {})
+      .then(() => navigateToBrowserPath(folder, notePath))
+      .catch((err: unknown) => {
+        logger.error('Failed to create note:', err);
+      });
+  };
+
+  if (resolution && !resolution.path) {
+    return (
+      <span className="wikilink-unresolved" data-testid="wikilink-unresolved">
+        <span
+          className="text-slate-400 underline decoration-dashed decoration-slate-500 cursor-help"
+          title={`No note named "${target}" was found`}
+          onMouseUp={stopMouseUp}
+        >
+          {children}
+        </span>
+        <button
+          type="button"
+          onClick={handleCreate}
+          onMouseUp={stopMouseUp}
+          className="inline-flex align-middle ml-0.5 p-0.5 rounded text-slate-500 hover:text-blue-400 hover:bg-slate-700"
+          title={`Create ${displayPath(newNotePath(entryPath, target))}`}
+          aria-label={`Create note ${target}`}
+          data-testid="wikilink-create-button"
+        >
+          <PlusIcon className="w-3.5 h-3.5" />
+        </button>
+      </span>
+    );
+  }
+
+  const others = resolution ? resolution.candidates.slice(1) : [];
+  return (
+    <>
+      <a
+        href={`#${target}`}
+        onClick={handleOpen}
+        onMouseUp={stopMouseUp}
+        title={resolution?.path ? displayPath(resolution.path) : undefined}
+      >
+        {children}
+      </a>
+      {others.length > 0 && (
+        <span
+          className="inline-flex align-middle ml-0.5 text-amber-400 cursor-help"
+          title={`Ambiguous link: "${target}" also matches ${others.map(displayPath).join(', ')}`}
+          data-testid="wikilink-ambiguous"
+          onMouseUp={stopMouseUp}
+        >
+          <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+        </span>
+      )}
+    </>
+  );
+}
@@ -1,8 +1,10 @@
 import { useState } from 'react';
-import { AI_PROVIDERS } from '../../shared/shared';
+import { AI_PROVIDERS, DEFAULT_OLLAMA_BASE_URL } from '../../shared/shared';
 import type { AIModelConfig, AIProvider } from '../../shared/shared';
+import { providerHasBaseUrl, parseHeaderLines, formatHeaderLines, isEnvVarName } from '../../shared/ai/aiProviders';
+import { api } from '../../renderer/api';
 import Dialog from './common/Dialog';
-import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, DLG_FOOTER_CLASS, DLG_INPUT_CLASS_ALT } from '../../renderer/styles';
+import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_OUTLINED, DLG_FOOTER_CLASS, DLG_INPUT_CLASS_ALT } from '../../renderer/styles';
 
 const isAIProvider = (value: string): value is AIProvider =>
   (AI_PROVIDERS as readonly string[]).includes(value);
@@ -21,6 +23,11 @@ interface EditAIModelDialogProps {
  * reference but every control is disabled and Save is blocked. The price fields
  * are held as raw strings and validated via `parseNonNegative`, so Save stays
  * disabled until the name, model id, and both prices are valid.
+ *
+ * OPENAI_COMPATIBLE models also take the server's base URL (required), the
+ * environment variable their API key is read from, and extra request headers,
+ * which are saved unencrypted in config.yaml; OLLAMA models take the daemon's
+ * URL, and can pick their model id from the ones installed there.
  */
 function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialogProps) {
   const [name, setName] = useState(initialModel?.name ?? '');
@@ -32,6 +39,12 @@ function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialog
   const [outputPer1MText, setOutputPer1MText] = useState(
     initialModel ? String(initialModel.outputPer1M) : '0'
   );
+  const [baseUrl, setBaseUrl] = useState(initialModel?.baseUrl ?? '');
+  const [headersText, setHeadersText] = useState(() => formatHeaderLines(initialModel?.headers));
+  const [apiKeyEnv, setApiKeyEnv] = useState(initialModel?.apiKeyEnv ?? '');
+  // Models installed on the Ollama daemon, once listed, and why listing failed.
+  const [ollamaModels, setOllamaModels] = useState<string[]>([]);
+  const [ollamaError, setOllamaError] = useState<string | null>(null);
   const isReadonly = Boolean(initialModel?.readonly);
 
   const parseNonNegative = (value: string): number | null => {
@@ -44,12 +57,26 @@ function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialog
 
   const inputPer1M = parseNonNegative(inputPer1MText);
   const outputPer1M = parseNonNegative(outputPer1MText);
+  const headers = provider === 'OPENAI_COMPATIBLE' ? parseHeaderLines(headersText) : {};
+  const keyVar = provider === 'OPENAI_COMPATIBLE' ? apiKeyEnv.trim() : '';
 
   const isValid =
     name.trim().length > 0 &&
     model.trim().length > 0 &&
     inputPer1M !== null &&
-    outputPer1M !== null;
+    outputPer1M !== null &&
+    (provider !== 'OPENAI_COMPATIBLE' || baseUrl.trim().length > 0) &&
+    headers !== null &&
+    (keyVar === '' || isEnvVarName(keyVar));
+
+  const handleListOllamaModels = () => {
+    setOllamaError(null);
+    void api.listOllamaModels(baseUrl.trim() || DEFAULT_OLLAMA_BASE_URL).then((result) => {
+      setOllamaModels(result.models);
+      if (result.error) setOllamaError(`Could not reach Ollama: ${result.error}`);
+      else if (result.models.length === 0) setOllamaError('No models are installed on this Ollama daemon.');
+    });
+  };
 
   const handleSave = () => {
     if (isReadonly) return;
@@ -59,9 +86,11 @@ function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialog
     // asserted; bail if anything is still invalid.
     const input = parseNonNegative(inputPer1MText);
     const output = parseNonNegative(outputPer1MText);
-    if (trimmedName.length === 0 || trimmedModel.length === 0 || input === null || output === null) {
+    if (trimmedName.length === 0 || trimmedModel.length === 0 || input === null || output === null || headers === null ||
+      (keyVar !== '' && !isEnvVarName(keyVar))) {
       return;
     }
+    const trimmedBaseUrl = baseUrl.trim();
     onSave({
       name: trimmedName,
       provider,
@@ -70,6 +99,10 @@ function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialog
       outputPer1M: output,
       vision: initialModel?.vision ?? false,
       readonly: false,
+      // Server settings are kept only for the providers that use them.
+      ...(providerHasBaseUrl(provider) && trimmedBaseUrl ? { baseUrl: trimmedBaseUrl } : {}),
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(keyVar ? { apiKeyEnv: keyVar } : {}),
     });
   };
 
@@ -120,20 +153,101 @@ function EditAIModelDialog({ initialModel, onSave, onCancel }: EditAIModelDialog
             </select>
           </div>
 
+          {/* Server URL, for the providers that talk to a server of the user's choosing */}
+          {providerHasBaseUrl(provider) && (
+            <div>
+              <label className="block text-slate-300 text-sm mb-1">Base URL</label>
+              <input
+                type="text"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={provider === 'OLLAMA' ? DEFAULT_OLLAMA_BASE_URL : 'e.g. http://localhost:8000/v1'}
+                disabled={isReadonly}
+                className={`${DLG_INPUT_CLASS_ALT} font-mono`}
+                data-testid="ai-model-base-url-input"
+              />
+            </div>
+          )}
+
           {/* Model name field */}
           <div>
             <label className="block text-slate-300 text-sm mb-1">Model</label>
-            <input
-              type="text"
-              value={model}
-              onChange={(e) => setModel(e.target.value)}
-              placeholder="e.g. claude-3-haiku-20240307"
-              disabled={isReadonly}
-              className={`${DLG_INPUT_CLASS_ALT} font-mono`}
-              data-testid="ai-model-model-input"
-            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={provider === 'OLLAMA' ? 'e.g. llama3.2:latest' : 'e.g. claude-3-haiku-20240307'}
+                disabled={isReadonly}
+                list={provider === 'OLLAMA' ? 'ai-model-ollama-models' : undefined}
+                className={`${DLG_INPUT_CLASS_ALT} font-mono`}
+                data-testid="ai-model-model-input"
+              />
+              {provider === 'OLLAMA' && (
+                <button
+                  type="button"
+                  onClick={handleListOllamaModels}
+                  disabled={isReadonly}
+                  className={`${BUTTON_CLASS_DLG_OUTLINED} whitespace-nowrap`}
+                  data-testid="ai-model-list-ollama-button"
+                >
+                  List Installed
+                </button>
+              )}
+            </div>
+            {provider === 'OLLAMA' && (
+              <datalist id="ai-model-ollama-models">
+                {ollamaModels.map((m) => <option key={m} value={m} />)}
+              </datalist>
+            )}
+            {provider === 'OLLAMA' && ollamaError && (
+              <p className="text-xs text-red-400 mt-1">{ollamaError}</p>
+            )}
+            {provider === 'OLLAMA' && !ollamaError && ollamaModels.length > 0 && (
+              <p className="text-xs text-slate-400 mt-1">
+                {ollamaModels.length} installed model{ollamaModels.length === 1 ? '' : 's'} — pick one from the Model field.
+              </p>
+            )}
           </div>
 
+          {/* The API key's environment variable, so the key itself never lands in config.yaml */}
+          {provider === 'OPENAI_COMPATIBLE' && (
+            <div>
+              <label className="block text-slate-300 text-sm mb-1">API Key Variable</label>
+              <input
+                type="text"
+                value={apiKeyEnv}
+                onChange={(e) => setApiKeyEnv(e.target.value)}
+                placeholder="e.g. OPENROUTER_API_KEY"
+                disabled={isReadonly}
+                className={`${DLG_INPUT_CLASS_ALT} font-mono`}
+                data-testid="ai-model-api-key-env-input"
+              />
+              <p className={`text-xs mt-1 ${keyVar !== '' && !isEnvVarName(keyVar) ? 'text-red-400' : 'text-slate-400'}`}>
+                The environment variable holding the server’s API key, sent as <span className="font-mono">Authorization: Bearer</span>. Leave empty if the server needs none.
+              </p>
+            </div>
+          )}
+
+          {/* Extra request headers the server wants, other than its key */}
+          {provider === 'OPENAI_COMPATIBLE' && (
+            <div>
+              <label className="block text-slate-300 text-sm mb-1">Headers</label>
+              <textarea
+                value={headersText}
+                onChange={(e) => setHeadersText(e.target.value)}
+                placeholder="X-Title: MkBrowser"
+                rows={3}
+                disabled={isReadonly}
+                className={`${DLG_INPUT_CLASS_ALT} font-mono resize-y`}
+                data-testid="ai-model-headers-input"
+              />
+              <p className={`text-xs mt-1 ${headers === null ? 'text-red-400' : 'text-slate-400'}`}>
+                One <span className="font-mono">Name: value</span> per line. Saved unencrypted in config.yaml, so put API keys in the variable above.
+              </p>
+            </div>
+          )}
+
           {/* Pricing fields */}
           <div>
             <label className="block text-slate-300 text-sm mb-1">Input $/1M tokens</label>
@@ -2,9 +2,9 @@ import { useState } from 'react';
 import { clsx } from 'clsx';
 import { DayPicker } from 'react-day-picker';
 import Dialog from './common/Dialog';
-import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_TOGGLE_OFF, BUTTON_CLASS_TOGGLE_ON, DLG_INPUT_CLASS_ALT_COMPACT } from '../../renderer/styles';
+import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_LINK_RED, BUTTON_CLASS_SM_NEUTRAL, BUTTON_CLASS_TOGGLE_OFF, BUTTON_CLASS_TOGGLE_ON, DLG_INPUT_CLASS_ALT_COMPACT } from '../../renderer/styles';
 import 'react-day-picker/style.css';
-import { getDueProperty, setDueProperty, getStartProperty, getDurationProperty, setStartProperty, setDurationProperty, getRRuleProperty, setRRuleProperty, parseDueStr, formatDueDate, RRuleProps } from '../../shared/calendarUtil';
+import { getDueProperty, setDueProperty, getStartProperty, getDurationProperty, setStartProperty, setDurationProperty, getRRuleProperty, setRRuleProperty, parseDueStr, formatDueDate, RRuleProps, OccurrenceOverride } from '../../shared/calendarUtil';
 
 interface EditCalendarDialogProps {
   content: string;
@@ -21,6 +21,11 @@ type DayCode = typeof DAY_CODES[number];
 const END_OPTIONS = ['never', 'until', 'count'] as const;
 type EndType = typeof END_OPTIONS[number];
 const END_LABELS: Record<EndType, string> = { never: 'Never', until: 'On date', count: 'After N' };
+/** `bysetpos` choices: which of the picked weekdays in each month (or year) to keep. */
+const SETPOS_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Every' }, { value: '1', label: 'First' }, { value: '2', label: 'Second' },
+  { value: '3', label: 'Third' }, { value: '4', label: 'Fourth' }, { value: '-1', label: 'Last' },
+];
 
 // Narrow free-form strings parsed from front matter back into their finite domains.
 const asFreq = (value: string | undefined): Freq =>
@@ -29,13 +34,147 @@ const isDayCode = (value: string): value is DayCode => (DAY_CODES as readonly st
 const asEndType = (value: string): EndType =>
   (END_OPTIONS as readonly string[]).includes(value) ? (value as EndType) : 'never';
 
+/** Text fields of an override row, in column order. */
+const OVERRIDE_FIELDS: Array<{ key: 'date' | 'due' | 'start' | 'duration' | 'title'; label: string; placeholder: string; width: string }> = [
+  { key: 'date', label: 'Occurrence', placeholder: 'MM/DD/YYYY', width: 'w-24' },
+  { key: 'due', label: 'Moved to', placeholder: 'same day', width: 'w-24' },
+  { key: 'start', label: 'Start', placeholder: 'same', width: 'w-20' },
+  { key: 'duration', label: 'Hrs', placeholder: 'same', width: 'w-12' },
+  { key: 'title', label: 'Title', placeholder: 'same', width: 'flex-1 min-w-0' },
+];
+
+/** An override as edited: the front-matter fields plus a stable row key (as in TagsEditorDialog). */
+type OverrideRow = OccurrenceOverride & { id: string };
+
+interface OccurrenceExceptionsProps {
+  exdates: string[];
+  onExdatesChange: (exdates: string[]) => void;
+  overrides: OverrideRow[];
+  onOverridesChange: (overrides: OverrideRow[]) => void;
+}
+
+/**
+ * The exceptions to a repeat rule: skipped days (`exdate`) as removable chips
+ * with a field to add one, and changed occurrences (`overrides`) as rows naming
+ * the occurrence's day and whatever it does differently.
+ */
+function OccurrenceExceptions({ exdates, onExdatesChange, overrides, onOverridesChange }: OccurrenceExceptionsProps) {
+  const [skipStr, setSkipStr] = useState('');
+
+  const addSkip = () => {
+    const day = parseDueStr(skipStr);
+    if (!day) return;
+    const formatted = formatDueDate(day);
+    if (!exdates.some(d => parseDueStr(d)?.getTime() === day.getTime())) onExdatesChange([...exdates, formatted]);
+    setSkipStr('');
+  };
+
+  const updateOverride = (index: number, key: typeof OVERRIDE_FIELDS[number]['key'], value: string) => {
+    onOverridesChange(overrides.map((o, i) => (i === index ? { ...o, [key]: value } : o)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="calendar-exceptions">
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">Skipped dates</label>
+        <div className="flex flex-wrap items-center gap-1">
+          {exdates.map(d => (
+            <span key={d} className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-700 text-xs text-slate-200">
+              {d}
+              <button
+                type="button"
+                onClick={() => onExdatesChange(exdates.filter(x => x !== d))}
+                className={BUTTON_CLASS_LINK_RED}
+                title="Don't skip this date"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={skipStr}
+            onChange={(e) => setSkipStr(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addSkip(); } }}
+            placeholder="MM/DD/YYYY"
+            className={clsx(DLG_INPUT_CLASS_ALT_COMPACT, 'w-28')}
+            data-testid="calendar-skip-date-input"
+          />
+          <button type="button" onClick={addSkip} disabled={!parseDueStr(skipStr)} className={BUTTON_CLASS_SM_NEUTRAL}>
+            Skip
+          </button>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">Changed occurrences</label>
+        {overrides.map((o, index) => (
+          <div key={o.id} className="flex items-center gap-1 mb-1" data-testid="calendar-override-row">
+            {OVERRIDE_FIELDS.map(f => (
+              <input
+                key={f.key}
+                type="text"
+                value={o[f.key] ?? ''}
+                onChange={(e) => updateOverride(index, f.key, e.target.value)}
+                placeholder={f.placeholder}
+                title={f.label}
+                className={clsx(DLG_INPUT_CLASS_ALT_COMPACT, f.width)}
+              />
+            ))}
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="This occurrence is all-day">
+              <input
+                type="checkbox"
+                checked={!!o.allday}
+                onChange={(e) => onOverridesChange(overrides.map((x, i) => (i === index ? { ...x, allday: e.target.checked } : x)))}
+              />
+              All day
+            </label>
+            <button
+              type="button"
+              onClick={() => onOverridesChange(overrides.filter((_, i) => i !== index))}
+              className={BUTTON_CLASS_LINK_RED}
+              title="Remove this change"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onOverridesChange([...overrides, { id: crypto.randomUUID(), date: '' }])}
+          className={BUTTON_CLASS_SM_NEUTRAL}
+          data-testid="calendar-add-override-button"
+        >
+          Change an occurrence
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Override rows worth saving: those naming a real occurrence day, with blank fields dropped. */
+function cleanOverrides(overrides: OverrideRow[]): OccurrenceOverride[] {
+  return overrides.flatMap((o) => {
+    const date = o.date.trim();
+    if (!parseDueStr(date)) return [];
+    const cleaned: OccurrenceOverride = { date };
+    for (const key of ['due', 'start', 'duration', 'title'] as const) {
+      const value = o[key]?.trim();
+      if (value) cleaned[key] = value;
+    }
+    if (o.allday) cleaned.allday = true;
+    return [cleaned];
+  });
+}
+
 /**
  * Editor for a calendar item's scheduling front matter. Reads the existing due
  * date, start time, duration, and recurrence (RRULE) out of `content`, lets the
  * user edit them — including a full recurrence builder (frequency, interval,
- * weekly by-day selection, and an end condition of never/until-date/after-N) —
- * and on Save writes the values back, returning the updated `content` string via
- * onSave. The body itself is untouched; only the scheduling properties change.
+ * by-day selection, the day of the month or the nth weekday for monthly and
+ * yearly rules, the week start, and an end condition of never/until-date/after-N)
+ * and the rule's exceptions (skipped dates and changed occurrences) — and on Save
+ * writes the values back, returning the updated `content` string via onSave. The
+ * body itself is untouched; only the scheduling properties change.
  */
 function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogProps) {
   const existingDue = getDueProperty(content);
@@ -48,8 +187,16 @@ function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogPro
   const existingRRule = getRRuleProperty(content);
   const [freq, setFreq] = useState<Freq>(asFreq(existingRRule?.freq));
   const [repeatInterval, setRepeatInterval] = useState<string>(existingRRule?.interval ?? '1');
-  const [byday, setByday] = useState<DayCode[]>(
-    existingRRule?.byday ? existingRRule.byday.split(',').map(d => d.trim()).filter(isDayCode) : []
+  const existingDays = existingRRule?.byday ? existingRRule.byday.split(',').map(d => d.trim().toUpperCase()) : [];
+  const [byday, setByday] = useState<DayCode[]>(existingDays.filter(isDayCode));
+  // Numbered codes (`2TU`, from an imported rule) have no buttons; they are kept as they are.
+  const numberedDays = existingDays.filter(d => d && !isDayCode(d));
+  const [bymonthday, setBymonthday] = useState<string>(existingRRule?.bymonthday ?? '');
+  const [bysetpos, setBysetpos] = useState<string>(existingRRule?.bysetpos ?? '');
+  const [wkst, setWkst] = useState<string>(existingRRule?.wkst?.toUpperCase() ?? '');
+  const [exdates, setExdates] = useState<string[]>(existingRRule?.exdate ?? []);
+  const [overrides, setOverrides] = useState<OverrideRow[]>(
+    (existingRRule?.overrides ?? []).map(o => ({ ...o, id: crypto.randomUUID() }))
   );
   const [endType, setEndType] = useState<EndType>(
     existingRRule?.until ? 'until' : existingRRule?.count ? 'count' : 'never'
@@ -75,9 +222,17 @@ function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogPro
       const rrule: RRuleProps = { freq };
       const iv = repeatInterval.trim();
       if (iv && iv !== '1') rrule.interval = iv;
-      if (freq === 'weekly' && byday.length > 0) rrule.byday = byday.join(',');
+      const days = freq === 'daily' ? [] : [...byday, ...numberedDays];
+      if (days.length > 0) rrule.byday = days.join(',');
+      const monthly = freq === 'monthly' || freq === 'yearly';
+      if (monthly && bymonthday.trim()) rrule.bymonthday = bymonthday.trim();
+      if (monthly && bysetpos && days.length > 0) rrule.bysetpos = bysetpos;
+      if (freq === 'weekly' && wkst) rrule.wkst = wkst;
       if (endType === 'until' && untilStr.trim()) rrule.until = untilStr.trim();
       if (endType === 'count' && count.trim()) rrule.count = count.trim();
+      if (exdates.length > 0) rrule.exdate = exdates;
+      const changed = cleanOverrides(overrides);
+      if (changed.length > 0) rrule.overrides = changed;
       newContent = setRRuleProperty(newContent, rrule);
     } else {
       newContent = setRRuleProperty(newContent, null);
@@ -139,7 +294,7 @@ function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogPro
               <select
                 data-testid="calendar-frequency-type-option"
                 value={freq}
-                onChange={(e) => { setFreq(asFreq(e.target.value)); setByday([]); setEndType('never'); }}
+                onChange={(e) => { setFreq(asFreq(e.target.value)); setByday([]); setBysetpos(''); setEndType('never'); }}
                 className={DLG_INPUT_CLASS_ALT_COMPACT}
               >
                 {FREQ_OPTIONS.map(f => (
@@ -165,27 +320,74 @@ function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogPro
             )}
           </div>
 
-          {freq !== 'none' && (
+          {freq !== 'none' && freq !== 'daily' && (
             <div className="flex gap-3 items-end">
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Days</label>
+                <div className="flex gap-1">
+                  {DAY_CODES.map(day => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleDay(day)}
+                      data-testid={`calendar-day-button-${day.toLowerCase()}`}
+                      className={clsx(
+                        'w-8 h-7 text-xs rounded transition-colors',
+                        byday.includes(day) ? BUTTON_CLASS_TOGGLE_ON : BUTTON_CLASS_TOGGLE_OFF,
+                      )}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {(freq === 'monthly' || freq === 'yearly') && byday.length > 0 && (
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Which</label>
+                  <select
+                    value={bysetpos}
+                    onChange={(e) => setBysetpos(e.target.value)}
+                    className={DLG_INPUT_CLASS_ALT_COMPACT}
+                    data-testid="calendar-setpos-select"
+                  >
+                    {SETPOS_OPTIONS.map(o => (
+                      <option key={o.value} value={o.value}>{o.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               {freq === 'weekly' && (
                 <div>
-                  <label className="block text-xs text-slate-400 mb-1">Days</label>
-                  <div className="flex gap-1">
+                  <label className="block text-xs text-slate-400 mb-1">Week starts</label>
+                  <select
+                    value={wkst}
+                    onChange={(e) => setWkst(e.target.value)}
+                    className={DLG_INPUT_CLASS_ALT_COMPACT}
+                    data-testid="calendar-wkst-select"
+                  >
+                    <option value="">Default</option>
                     {DAY_CODES.map(day => (
-                      <button
-                        key={day}
-                        type="button"
-                        onClick={() => toggleDay(day)}
-                        data-testid={`calendar-day-button-${day.toLowerCase()}`}
-                        className={clsx(
-                          'w-8 h-7 text-xs rounded transition-colors',
-                          byday.includes(day) ? BUTTON_CLASS_TOGGLE_ON : BUTTON_CLASS_TOGGLE_OFF,
-                        )}
-                      >
-                        {day}
-                      </button>
+                      <option key={day} value={day}>{day}</option>
                     ))}
-                  </div>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {freq !== 'none' && (
+            <div className="flex gap-3 items-end">
+              {(freq === 'monthly' || freq === 'yearly') && (
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Day of month</label>
+                  <input
+                    type="text"
+                    value={bymonthday}
+                    onChange={(e) => setBymonthday(e.target.value.replace(/[^\d,-]/g, ''))}
+                    placeholder="e.g. 15 or -1"
+                    className={clsx(DLG_INPUT_CLASS_ALT_COMPACT, 'w-28')}
+                    data-testid="calendar-monthday-input"
+                  />
                 </div>
               )}
               <div>
@@ -230,6 +432,15 @@ function EditCalendarDialog({ content, onSave, onCancel }: EditCalendarDialogPro
               )}
             </div>
           )}
+
+          {freq !== 'none' && (
+            <OccurrenceExceptions
+              exdates={exdates}
+              onExdatesChange={setExdates}
+              overrides={overrides}
+              onOverridesChange={setOverrides}
+            />
+          )}
         </div>
 
         <div className="flex justify-end gap-3 pt-4 mt-2 border-t border-slate-600">
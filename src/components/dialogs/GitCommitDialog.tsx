@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import Dialog from './common/Dialog';
+import CheckboxField from './common/CheckboxField';
+import GitStatusBadge from '../GitStatusBadge';
+import type { GitChange, GitStatus } from '../../shared/shared';
+import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, DLG_INPUT_CLASS, DLG_LABEL_CLASS, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+interface GitCommitDialogProps {
+  /** The browse root's git status; its changes are the files offered for the commit. */
+  status: GitStatus;
+  onCommit: (message: string, changes: GitChange[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Commit dialog for a browse root in a git repository: a commit message and the
+ * changed files under the root, all ticked to start with. Only the ticked files
+ * are committed (see gitCommit in main/gitUtil.ts), staged or not.
+ */
+function GitCommitDialog({ status, onCommit, onCancel }: GitCommitDialogProps) {
+  const [message, setMessage] = useState('');
+  // Paths left out of the commit; everything else is in it.
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  const selected = status.changes.filter(c => !excluded.has(c.path));
+  const canCommit = message.trim() !== '' && selected.length > 0;
+
+  const toggle = (path: string, checked: boolean) => {
+    const next = new Set(excluded);
+    if (checked) next.delete(path);
+    else next.add(path);
+    setExcluded(next);
+  };
+
+  const handleSubmit = (e: React.SubmitEvent) => {
+    e.preventDefault();
+    if (canCommit) onCommit(message.trim(), selected);
+  };
+
+  return (
+    <Dialog title={status.branch ? `Git Commit (${status.branch})` : 'Git Commit'} onClose={onCancel} className="w-full max-w-xl">
+      <form className="p-6" onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label className={DLG_LABEL_CLASS}>
+            Message
+          </label>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={3}
+            className={DLG_INPUT_CLASS}
+            placeholder="Describe the changes..."
+            data-testid="git-commit-message"
+          />
+        </div>
+
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-slate-400">Files ({selected.length} of {status.changes.length})</span>
+            <span className="flex gap-3 text-xs">
+              <button type="button" className="text-blue-400 hover:text-blue-300" onClick={() => setExcluded(new Set())}>
+                All
+              </button>
+              <button type="button" className="text-blue-400 hover:text-blue-300" onClick={() => setExcluded(new Set(status.changes.map(c => c.path)))}>
+                None
+              </button>
+            </span>
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-1" data-testid="git-commit-files">
+            {status.changes.map(change => (
+              <div key={change.path} className="flex items-center gap-2">
+                <GitStatusBadge path={change.path} />
+                <CheckboxField
+                  label={change.path.slice(status.folder.length + 1)}
+                  checked={!excluded.has(change.path)}
+                  onChange={(checked) => toggle(change.path, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={DLG_FOOTER_CLASS}>
+          <button
+            type="button"
+            onClick={onCancel}
+            className={BUTTON_CLASS_DLG_CANCEL}
+            data-testid="git-commit-cancel-button"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canCommit}
+            className={BUTTON_CLASS_DLG_BLUE}
+            data-testid="git-commit-submit-button"
+          >
+            Commit
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
+
+export default GitCommitDialog;
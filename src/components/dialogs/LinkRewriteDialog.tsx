@@ -0,0 +1,93 @@
+import { useRef } from 'react';
+import Dialog from './common/Dialog';
+import { useAS } from '../../store';
+import { resolveLinkRewritePreview } from '../../renderer/linkRewrite';
+import { isPathInside } from '../../renderer/pathUtil';
+import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_OUTLINED, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+/**
+ * Preview shown before a rename or move that would break links elsewhere: lists
+ * every file whose links will be rewritten, with each link's old and new target,
+ * and lets the user update them, move without updating, or cancel the move.
+ * Driven by `linkRewritePreview` in the store (see renderer/linkRewrite.ts), so
+ * any move path can raise it without owning dialog state. "Update Links" gets
+ * initial focus: keeping links working is the expected outcome.
+ */
+function LinkRewriteDialog() {
+  const plan = useAS(s => s.linkRewritePreview);
+  const rootPath = useAS(s => s.rootPath);
+  const updateButtonRef = useRef<HTMLButtonElement>(null);
+
+  if (!plan) return null;
+
+  const displayPath = (p: string) =>
+    rootPath && isPathInside(rootPath, p) ? p.slice(rootPath.length).replace(/^[/\\]+/, '') : p;
+  const linkCount = plan.files.reduce((sum, f) => sum + f.changes.length, 0);
+
+  return (
+    <Dialog
+      title="Update Links"
+      onClose={() => resolveLinkRewritePreview('cancel')}
+      className="w-full max-w-2xl max-h-[80vh] flex flex-col"
+      initialFocusRef={updateButtonRef}
+      testId="link-rewrite-dialog"
+    >
+      <div className="p-6 flex flex-col flex-1 overflow-hidden">
+        <p className="text-slate-200 mb-4">
+          This move affects {linkCount} {linkCount === 1 ? 'link' : 'links'} in {plan.files.length}{' '}
+          {plan.files.length === 1 ? 'file' : 'files'}. Update them so they keep pointing at the right place?
+        </p>
+        <ul className="overflow-y-auto flex-1 space-y-3 mb-6 text-sm" data-testid="link-rewrite-files">
+          {plan.files.map(file => (
+            <li key={file.filePath}>
+              <div className="text-blue-400 break-all">
+                {displayPath(file.filePath)}
+                {file.newFilePath !== file.filePath && (
+                  <span className="text-slate-400"> → {displayPath(file.newFilePath)}</span>
+                )}
+              </div>
+              <ul className="ml-4 text-slate-400">
+                {file.changes.map(change => (
+                  <li key={`${change.line}:${change.column}`} className="break-all">
+                    <span className="text-slate-500">line {change.line}:</span>{' '}
+                    <span className="line-through">{change.before}</span> → <span className="text-slate-200">{change.after}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+        <div className={`${DLG_FOOTER_CLASS} flex-shrink-0`}>
+          <button
+            type="button"
+            onClick={() => resolveLinkRewritePreview('cancel')}
+            className={BUTTON_CLASS_DLG_CANCEL}
+            data-testid="link-rewrite-cancel-button"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => resolveLinkRewritePreview('skip')}
+            className={BUTTON_CLASS_DLG_OUTLINED}
+            title="Move without changing any links"
+            data-testid="link-rewrite-skip-button"
+          >
+            Don&apos;t Update
+          </button>
+          <button
+            ref={updateButtonRef}
+            type="button"
+            onClick={() => resolveLinkRewritePreview('update')}
+            className={BUTTON_CLASS_DLG_BLUE}
+            data-testid="link-rewrite-update-button"
+          >
+            Update Links
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+export default LinkRewriteDialog;
@@ -0,0 +1,64 @@
+import { useRef } from 'react';
+import Dialog from './common/Dialog';
+import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_OUTLINED, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+/** Which part of a recurring item a calendar change applies to. */
+export type RecurringChangeScope = 'series' | 'occurrence';
+
+interface RecurringChangeDialogProps {
+  /** The item's title, as shown on the calendar. */
+  title: string;
+  /** The occurrence being changed, already phrased for display (e.g. "3/9/2026"). */
+  occurrenceLabel: string;
+  onChoose: (scope: RecurringChangeScope) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asked when an occurrence of a recurring item is dragged or resized on the
+ * calendar: move the whole series, or only this occurrence. Cancel leaves the
+ * file alone and the event snaps back.
+ */
+function RecurringChangeDialog({ title, occurrenceLabel, onChoose, onCancel }: RecurringChangeDialogProps) {
+  // Focus the least surprising choice, so Enter changes just the one occurrence that was moved.
+  const occurrenceButtonRef = useRef<HTMLButtonElement>(null);
+
+  return (
+    <Dialog title="Change Recurring Item" onClose={onCancel} className="max-w-md" initialFocusRef={occurrenceButtonRef} testId="recurring-change-dlg">
+      <div className="p-6">
+        <p className="text-slate-200 mb-6">
+          &ldquo;{title}&rdquo; repeats. Change every occurrence, or only the one on {occurrenceLabel}?
+        </p>
+        <div className={DLG_FOOTER_CLASS}>
+          <button
+            type="button"
+            onClick={onCancel}
+            className={BUTTON_CLASS_DLG_CANCEL}
+            data-testid="recurring-change-cancel-button"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onChoose('series')}
+            className={BUTTON_CLASS_DLG_OUTLINED}
+            data-testid="recurring-change-series-button"
+          >
+            Whole Series
+          </button>
+          <button
+            ref={occurrenceButtonRef}
+            type="button"
+            onClick={() => onChoose('occurrence')}
+            className={BUTTON_CLASS_DLG_BLUE}
+            data-testid="recurring-change-occurrence-button"
+          >
+            Only This One
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+export default RecurringChangeDialog;
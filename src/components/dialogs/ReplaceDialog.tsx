@@ -1,49 +1,206 @@
 import { useState } from 'react';
 import Dialog from './common/Dialog';
-import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, DLG_INPUT_CLASS, DLG_LABEL_CLASS, DLG_FOOTER_CLASS } from '../../renderer/styles';
+import CheckboxField from './common/CheckboxField';
+import RadioGroup from './common/RadioGroup';
+import type { ReplaceFilePreview, ReplaceOptions, ReplacePreview, ReplaceSelection } from '../../shared/shared';
+import { buildReplaceRegex } from '../../shared/searchHelpers';
+import { logger } from '../../shared/logUtil';
+import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_OUTLINED, CHECKBOX_FIELD_CLASS, DLG_INPUT_CLASS, DLG_LABEL_CLASS, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+type ScopeType = NonNullable<ReplaceOptions['scopeType']>;
 
 interface ReplaceDialogProps {
-  onReplace: (searchText: string, replaceText: string) => void;
+  /** Lists every match the options would replace, writing nothing. */
+  onPreview: (options: ReplaceOptions) => Promise<ReplacePreview>;
+  /** Replaces the selected matches, found with the same options as the preview. */
+  onReplace: (options: ReplaceOptions, selections: ReplaceSelection[]) => void;
   onCancel: () => void;
 }
 
+/** Selected match offsets (ReplaceMatch.start) by file path. */
+type Selected = Map<string, Set<number>>;
+
+function selectAll(preview: ReplacePreview): Selected {
+  return new Map(preview.files.map(f => [f.path, new Set(f.matches.map(m => m.start))]));
+}
+
 /**
- * Find-and-replace dialog that collects a search string and its replacement, then
- * hands them to `onReplace` for a recursive replace across .md and .txt files.
- * The search field is required; an empty replacement (delete the matches) is allowed.
+ * Find-and-replace across the .md and .txt files under the current folder, in two
+ * steps. The first collects the search (literal or a regular expression, with
+ * `$1`-style substitutions), case and whole-word options, and an optional scope —
+ * a Search-dialog query the files must match. "Preview" then lists every match in
+ * the context of its line, each file and match with a checkbox, and only the
+ * checked ones are replaced. Nothing is written before that second step. The search
+ * field is required; an empty replacement (delete the matches) is allowed.
  */
-function ReplaceDialog({ onReplace, onCancel }: ReplaceDialogProps) {
+function ReplaceDialog({ onPreview, onReplace, onCancel }: ReplaceDialogProps) {
   const [searchText, setSearchText] = useState('');
   const [replaceText, setReplaceText] = useState('');
+  const [regex, setRegex] = useState(false);
+  // Replace in Files has always been case-sensitive; that stays the default.
+  const [matchCase, setMatchCase] = useState(true);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [scopeQuery, setScopeQuery] = useState('');
+  const [scopeType, setScopeType] = useState<ScopeType>('literal');
+  const [previewing, setPreviewing] = useState(false);
+  // The preview on screen and the options it was made with, which the replace reuses.
+  const [preview, setPreview] = useState<{ options: ReplaceOptions; result: ReplacePreview } | null>(null);
+  const [selected, setSelected] = useState<Selected>(new Map());
 
-  const handleReplace = () => {
-    if (!searchText.trim()) return;
-    onReplace(searchText, replaceText);
+  const options: ReplaceOptions = {
+    searchText,
+    replaceText,
+    regex,
+    ignoreCase: !matchCase,
+    wholeWord,
+    scopeQuery: scopeQuery.trim() ? scopeQuery : undefined,
+    scopeType,
+  };
+
+  let regexError: string | null = null;
+  if (regex && searchText) {
+    try {
+      buildReplaceRegex(options);
+    } catch (err) {
+      regexError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  const canPreview = !!searchText.trim() && !regexError && !previewing;
+
+  const handlePreview = () => {
+    if (!canPreview) return;
+    setPreviewing(true);
+    onPreview(options)
+      .then((result) => {
+        setPreview({ options, result });
+        setSelected(selectAll(result));
+      })
+      .catch((err: unknown) => logger.error('Replace preview failed:', err))
+      .finally(() => setPreviewing(false));
   };
 
   const handleSubmit = (e: React.SubmitEvent) => {
     e.preventDefault();
-    handleReplace();
+    handlePreview();
+  };
+
+  const toggleFile = (file: ReplaceFilePreview, checked: boolean) => {
+    const next = new Map(selected);
+    next.set(file.path, new Set(checked ? file.matches.map(m => m.start) : []));
+    setSelected(next);
+  };
+
+  const toggleMatch = (file: ReplaceFilePreview, start: number, checked: boolean) => {
+    const starts = new Set(selected.get(file.path));
+    if (checked) starts.add(start);
+    else starts.delete(start);
+    setSelected(new Map(selected).set(file.path, starts));
+  };
+
+  const selectedCount = [...selected.values()].reduce((sum, starts) => sum + starts.size, 0);
+
+  const handleReplace = () => {
+    if (!preview || selectedCount === 0) return;
+    const selections = [...selected]
+      .filter(([, starts]) => starts.size > 0)
+      .map(([path, starts]) => ({ path, starts: [...starts] }));
+    onReplace(preview.options, selections);
   };
 
+  if (preview) {
+    const { result } = preview;
+    const fileCount = result.files.filter(f => f.matches.length > 0).length;
+    return (
+      <Dialog title="Replace in Files" onClose={onCancel} className="w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="p-6 flex flex-col min-h-0">
+          <p className="text-sm text-slate-300 mb-3" data-testid="replace-preview-summary">
+            {result.totalMatches === 0
+              ? 'No matches found.'
+              : `${result.totalMatches} match${result.totalMatches === 1 ? '' : 'es'} in ${fileCount} file${fileCount === 1 ? '' : 's'}. Uncheck any you want to keep.`}
+            {result.truncated && ' Only the first matches are listed; run Replace in Files again afterwards for the rest.'}
+          </p>
+          <div className="flex-1 min-h-0 overflow-y-auto border border-slate-700 rounded" data-testid="replace-preview-list">
+            {result.files.map((file) => {
+              const starts = selected.get(file.path) ?? new Set<number>();
+              const all = file.matches.length > 0 && starts.size === file.matches.length;
+              return (
+                <div key={file.path} className="border-b border-slate-700 last:border-b-0">
+                  <label className="flex items-center gap-2 px-3 py-2 bg-slate-900 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={all}
+                      ref={(el) => { if (el) el.indeterminate = starts.size > 0 && !all; }}
+                      onChange={(e) => toggleFile(file, e.target.checked)}
+                      disabled={file.matches.length === 0}
+                      className={CHECKBOX_FIELD_CLASS}
+                    />
+                    <span className="text-sm text-slate-200 font-medium truncate">{file.relativePath}</span>
+                    {file.error
+                      ? <span className="text-xs text-red-400 ml-auto">{file.error}</span>
+                      : <span className="text-xs text-slate-500 ml-auto">{starts.size}/{file.matches.length}</span>}
+                  </label>
+                  {file.matches.map((match) => (
+                    <label key={match.start} className="flex items-start gap-2 pl-8 pr-3 py-1 cursor-pointer hover:bg-slate-700/40">
+                      <input
+                        type="checkbox"
+                        checked={starts.has(match.start)}
+                        onChange={(e) => toggleMatch(file, match.start, e.target.checked)}
+                        className={`${CHECKBOX_FIELD_CLASS} mt-0.5`}
+                      />
+                      <span className="text-xs text-slate-500 w-10 flex-shrink-0 text-right font-mono">{match.line}</span>
+                      <span className="text-sm text-slate-300 font-mono whitespace-pre-wrap break-all">
+                        {match.before}
+                        <del className="bg-red-900/60 text-red-200">{match.text}</del>
+                        <ins className="bg-green-900/60 text-green-200 no-underline">{match.replacement}</ins>
+                        {match.after}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <div className={`${DLG_FOOTER_CLASS} mt-4`}>
+            <button type="button" onClick={() => setPreview(null)} className={BUTTON_CLASS_DLG_OUTLINED} data-testid="replace-dialog-back-button">
+              Back
+            </button>
+            <button type="button" onClick={onCancel} className={BUTTON_CLASS_DLG_CANCEL} data-testid="replace-dialog-cancel-button">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleReplace}
+              disabled={selectedCount === 0}
+              className={BUTTON_CLASS_DLG_BLUE}
+              data-testid="replace-dialog-apply-button"
+            >
+              Replace {selectedCount}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+    );
+  }
+
   return (
-    <Dialog title="Replace in Files" onClose={onCancel} className="w-full max-w-md">
+    <Dialog title="Replace in Files" onClose={onCancel} className="w-full max-w-lg">
       <form className="p-6" onSubmit={handleSubmit}>
         <div className="mb-4">
           <label className={DLG_LABEL_CLASS}>
-            Search for
+            {regex ? 'Search for (regular expression)' : 'Search for'}
           </label>
           <input
             type="text"
             value={searchText}
             onChange={(e) => setSearchText(e.target.value)}
-            className={DLG_INPUT_CLASS}
-            placeholder="Text to find..."
+            className={`${DLG_INPUT_CLASS}${regex ? ' font-mono' : ''}`}
+            placeholder={regex ? 'e.g. (\\w+)@example\\.com' : 'Text to find...'}
             data-testid="replace-search-input"
           />
+          {regexError && <p className="text-xs text-red-400 mt-1" data-testid="replace-regex-error">{regexError}</p>}
         </div>
 
-        <div className="mb-6">
+        <div className="mb-4">
           <label className={DLG_LABEL_CLASS}>
             Replace with
           </label>
@@ -51,14 +208,47 @@ function ReplaceDialog({ onReplace, onCancel }: ReplaceDialogProps) {
             type="text"
             value={replaceText}
             onChange={(e) => setReplaceText(e.target.value)}
-            className={DLG_INPUT_CLASS}
-            placeholder="Replacement text..."
+            className={`${DLG_INPUT_CLASS}${regex ? ' font-mono' : ''}`}
+            placeholder={regex ? 'e.g. $1@example.org' : 'Replacement text...'}
             data-testid="replace-text-input"
           />
         </div>
 
+        <div className="flex items-center gap-6 mb-4">
+          <CheckboxField label="Regular Expression" checked={regex} onChange={setRegex} testId="replace-regex" />
+          <CheckboxField label="Match Case" checked={matchCase} onChange={setMatchCase} testId="replace-match-case" />
+          <CheckboxField label="Whole Word" checked={wholeWord} onChange={setWholeWord} testId="replace-whole-word" />
+        </div>
+
+        <div className="mb-4">
+          <label className={DLG_LABEL_CLASS}>
+            Only in files matching (optional)
+          </label>
+          <input
+            type="text"
+            value={scopeQuery}
+            onChange={(e) => setScopeQuery(e.target.value)}
+            className={`${DLG_INPUT_CLASS} font-mono`}
+            placeholder={scopeType === 'advanced' ? 'Functions: $, prop, past, future, today' : scopeType === 'wildcard' ? 'intro*duction' : 'All files'}
+            data-testid="replace-scope-input"
+          />
+        </div>
+
+        <RadioGroup
+          legend="Scope Mode"
+          name="replaceScopeType"
+          value={scopeType}
+          onChange={setScopeType}
+          className="mb-4"
+          options={[
+            { value: 'literal', label: 'Literal', testId: 'replace-scope-literal' },
+            { value: 'wildcard', label: 'Wild Card', testId: 'replace-scope-wildcard' },
+            { value: 'advanced', label: 'Advanced', testId: 'replace-scope-advanced' },
+          ]}
+        />
+
         <p className="text-xs text-slate-500 mb-4">
-          Replaces all occurrences in .md and .txt files recursively.
+          Searches .md and .txt files recursively. Preview lists every match before anything is changed.
         </p>
 
         <div className={DLG_FOOTER_CLASS}>
@@ -72,11 +262,11 @@ function ReplaceDialog({ onReplace, onCancel }: ReplaceDialogProps) {
           </button>
           <button
             type="submit"
-            disabled={!searchText.trim()}
+            disabled={!canPreview}
             className={BUTTON_CLASS_DLG_BLUE}
             data-testid="replace-dialog-submit-button"
           >
-            Replace
+            {previewing ? 'Searching…' : 'Preview'}
           </button>
         </div>
       </form>
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { EditorState } from '@codemirror/state';
+import { MergeView } from '@codemirror/merge';
+import { oneDarkTheme } from '@codemirror/theme-one-dark';
+import Dialog from './common/Dialog';
+import { useAS, getSettings } from '../../store';
+import type { SaveConflict } from '../../shared/types';
+import { resolveSaveConflict } from '../../renderer/saveConflict';
+import { threeWayMerge, hasConflictMarkers } from '../../renderer/editor/editorMergeUtil';
+import { createFontSizeTheme } from '../editor/editorTheme';
+import { getFileName } from '../../renderer/pathUtil';
+import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_OUTLINED, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+/**
+ * Shown when a save finds the file changed on disk and both the edits and the
+ * disk changes touch the same lines (see renderer/saveConflict.ts). The left
+ * pane is the file on disk, read-only; the right pane is the merge, editable,
+ * with each conflict between `<<<<<<<` / `>>>>>>>` markers. Chunks can be copied
+ * across with the arrows between the panes, or every conflict resolved to one
+ * side with "Use Mine" / "Use Theirs". Saving is disabled while any marker is
+ * left. Driven by `saveConflict` in the store, so App renders it once for all
+ * editors.
+ */
+function SaveConflictDialog() {
+  const conflict = useAS(s => s.saveConflict);
+  if (!conflict) return null;
+  // Keyed by the conflict so a new one starts from a fresh merge.
+  return <SaveConflictMerge key={`${conflict.path}\n${conflict.mine}\n${conflict.theirs}`} conflict={conflict} />;
+}
+
+function SaveConflictMerge({ conflict }: { conflict: SaveConflict }) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<MergeView | null>(null);
+  const [initial] = useState(() => threeWayMerge(conflict.base, conflict.mine, conflict.theirs));
+  const [merged, setMerged] = useState(initial.text);
+
+  useEffect(() => {
+    if (!hostRef.current) return;
+    const common = [lineNumbers(), EditorView.lineWrapping, oneDarkTheme, createFontSizeTheme(getSettings().fontSize)];
+    const view = new MergeView({
+      a: {
+        doc: conflict.theirs,
+        extensions: [...common, EditorState.readOnly.of(true), EditorView.editable.of(false)],
+      },
+      b: {
+        doc: initial.text,
+        extensions: [...common, EditorView.updateListener.of((update) => {
+          if (update.docChanged) setMerged(update.state.doc.toString());
+        })],
+      },
+      parent: hostRef.current,
+      revertControls: 'a-to-b',
+      collapseUnchanged: { margin: 3 },
+    });
+    view.dom.style.height = '100%';
+    viewRef.current = view;
+    // Returns the useEffect cleanup: destroys the MergeView's two editors.
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [conflict, initial]);
+
+  // Replace the merge with every conflict resolved to one side.
+  const resolveAll = (prefer: 'mine' | 'theirs') => {
+    const b = viewRef.current?.b;
+    if (!b) return;
+    const text = threeWayMerge(conflict.base, conflict.mine, conflict.theirs, prefer).text;
+    b.dispatch({ changes: { from: 0, to: b.state.doc.length, insert: text } });
+  };
+
+  const unresolved = hasConflictMarkers(merged);
+
+  return (
+    <Dialog
+      title={`Save Conflict: ${getFileName(conflict.path)}`}
+      onClose={() => resolveSaveConflict(null)}
+      className="w-[90vw] max-w-6xl h-[85vh] flex flex-col"
+      testId="save-conflict-dialog"
+    >
+      <div className="p-6 flex flex-col flex-1 min-h-0">
+        <p className="text-slate-200 mb-2">
+          This file changed on disk while you were editing it, and {initial.conflicts}{' '}
+          {initial.conflicts === 1 ? 'change overlaps' : 'changes overlap'} with your edits. Resolve the marked
+          {initial.conflicts === 1 ? ' conflict' : ' conflicts'} on the right, then save.
+        </p>
+        <div className="flex text-sm text-slate-400 mb-1">
+          <span className="flex-1">Theirs (on disk)</span>
+          <span className="flex-1">Merged (saved)</span>
+        </div>
+        <div ref={hostRef} className="flex-1 min-h-0 border border-slate-700 rounded" data-testid="save-conflict-merge" />
+        <div className={`${DLG_FOOTER_CLASS} flex-shrink-0 mt-4`}>
+          <button type="button" onClick={() => resolveAll('mine')} className={BUTTON_CLASS_DLG_OUTLINED} title="Resolve every conflict with your edits">
+            Use Mine
+          </button>
+          <button type="button" onClick={() => resolveAll('theirs')} className={BUTTON_CLASS_DLG_OUTLINED} title="Resolve every conflict with the file on disk">
+            Use Theirs
+          </button>
+          <button type="button" onClick={() => resolveSaveConflict(null)} className={BUTTON_CLASS_DLG_CANCEL} data-testid="save-conflict-cancel-button">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => resolveSaveConflict(merged)}
+            disabled={unresolved}
+            className={BUTTON_CLASS_DLG_BLUE}
+            title={unresolved ? 'Resolve the remaining conflict markers first' : undefined}
+            data-testid="save-conflict-save-button"
+          >
+            Save Merged
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+export default SaveConflictDialog;
@@ -15,7 +15,7 @@ const SEARCH_RADIO_CLASS = `${DLG_CHECK_RADIO_BASE} text-blue-500`;
 
 export type SearchMode = 'content' | 'filenames';
 export type SearchType = 'literal' | 'wildcard' | 'advanced';
-export type SearchSortBy = 'modified-time' | 'created-time' | 'file-name';
+export type SearchSortBy = 'modified-time' | 'created-time' | 'file-name' | 'relevance';
 export type SearchSortDirection = 'asc' | 'desc';
 
 export interface SearchOptions {
@@ -246,6 +246,7 @@ function SearchDialog({ onSearch, onSave, onCancel, onDeleteSearchDefinition, in
                   <option value="modified-time">File Modification Time</option>
                   <option value="created-time">File Creation Time</option>
                   <option value="file-name">File Name</option>
+                  <option value="relevance">Relevance</option>
                 </select>
               </div>
               <div>
@@ -256,8 +257,8 @@ function SearchDialog({ onSearch, onSave, onCancel, onDeleteSearchDefinition, in
                   data-testid="sort-direction-select"
                   className={`${DLG_INPUT_CLASS_BASE} border-slate-600 focus:border-blue-500`}
                 >
-                  <option value="desc">DESC (newest first)</option>
-                  <option value="asc">ASC (oldest first)</option>
+                  <option value="desc">{sortBy === 'relevance' ? 'DESC (best first)' : 'DESC (newest first)'}</option>
+                  <option value="asc">{sortBy === 'relevance' ? 'ASC (best last)' : 'ASC (oldest first)'}</option>
                 </select>
               </div>
             </div>
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { EditorState } from '@codemirror/state';
+import { MergeView } from '@codemirror/merge';
+import { oneDarkTheme } from '@codemirror/theme-one-dark';
+import Dialog from './common/Dialog';
+import { useAS, getSettings } from '../../store';
+import type { ToolApprovalRequest } from '../../shared/shared';
+import { answerToolApproval } from '../../renderer/toolApproval';
+import { createFontSizeTheme } from '../editor/editorTheme';
+import { getFileName } from '../../renderer/pathUtil';
+import { BUTTON_CLASS_DLG_BLUE, BUTTON_CLASS_DLG_RED, DLG_FOOTER_CLASS, DLG_INPUT_CLASS_ALT } from '../../renderer/styles';
+
+const TITLES: Record<ToolApprovalRequest['kind'], string> = {
+  'write': 'AI Wants to Write',
+  'create': 'AI Wants to Create',
+  'delete-file': 'AI Wants to Delete',
+  'delete-folder': 'AI Wants to Delete Folder',
+};
+
+/**
+ * Shown when an Agentic Mode tool call would write, create or delete something
+ * (see renderer/toolApproval.ts). A write or create shows the file as it is
+ * (empty for a new file) beside the proposed content, which can be edited before
+ * approving; a delete lists what it would remove. Rejecting, or closing the
+ * dialog, tells the AI the change was refused, with the reason if one is given.
+ * "Always allow" approves this and every later change in the same folder (and
+ * below) for the rest of the session. Driven by the store's `toolApprovals`
+ * queue, so App renders it once and it works through calls one at a time.
+ */
+function ToolApprovalDialog() {
+  const queue = useAS(s => s.toolApprovals);
+  const request = queue[0];
+  if (!request) return null;
+  // Keyed by the request so each call starts from its own proposal.
+  return <ToolApprovalPrompt key={request.id} request={request} waiting={queue.length - 1} />;
+}
+
+function ToolApprovalPrompt({ request, waiting }: { request: ToolApprovalRequest; waiting: number }) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const isWrite = request.kind === 'write' || request.kind === 'create';
+  const proposed = request.content ?? '';
+  const [content, setContent] = useState(proposed);
+  const [reason, setReason] = useState('');
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+  const edited = content !== proposed;
+
+  useEffect(() => {
+    if (!isWrite || !hostRef.current) return;
+    const common = [lineNumbers(), EditorView.lineWrapping, oneDarkTheme, createFontSizeTheme(getSettings().fontSize)];
+    const view = new MergeView({
+      a: {
+        doc: request.before ?? '',
+        extensions: [...common, EditorState.readOnly.of(true), EditorView.editable.of(false)],
+      },
+      b: {
+        doc: proposed,
+        extensions: [...common, EditorView.updateListener.of((update) => {
+          if (update.docChanged) setContent(update.state.doc.toString());
+        })],
+      },
+      parent: hostRef.current,
+      collapseUnchanged: { margin: 3 },
+    });
+    view.dom.style.height = '100%';
+    // Returns the useEffect cleanup: destroys the MergeView's two editors.
+    return () => view.destroy();
+  }, [isWrite, request, proposed]);
+
+  const reject = () => answerToolApproval(request.id, { action: 'reject', reason: reason.trim() || undefined });
+  const approve = () => answerToolApproval(request.id, edited
+    ? { action: 'edit', content }
+    : { action: 'approve', alwaysAllowFolder: alwaysAllow });
+
+  return (
+    <Dialog
+      title={`${TITLES[request.kind]}: ${getFileName(request.path)}`}
+      onClose={reject}
+      closeOnBackdrop={false}
+      className={isWrite ? 'w-[90vw] max-w-6xl h-[85vh] flex flex-col' : 'w-full max-w-xl'}
+      testId="tool-approval-dialog"
+    >
+      <div className={`p-6 flex flex-col ${isWrite ? 'flex-1 min-h-0' : ''}`}>
+        <p className="text-sm text-slate-400 mb-2 break-all">
+          <span className="font-mono">{request.tool}</span> · {request.path}
+          {waiting > 0 && <span className="ml-2 text-slate-500">({waiting} more waiting)</span>}
+        </p>
+
+        {isWrite && (
+          <>
+            <div className="flex text-sm text-slate-400 mb-1">
+              <span className="flex-1">{request.kind === 'create' ? 'New file' : 'Current file'}</span>
+              <span className="flex-1">Proposed (you can edit it)</span>
+            </div>
+            <div ref={hostRef} className="flex-1 min-h-0 border border-slate-700 rounded" data-testid="tool-approval-diff" />
+          </>
+        )}
+
+        {request.kind === 'delete-file' && (
+          <div className="mb-2">
+            <p className="text-slate-200 mb-2">
+              Delete {request.targets?.length ?? 0} file{request.targets?.length === 1 ? '' : 's'}:
+            </p>
+            <ul className="max-h-60 overflow-y-auto border border-slate-700 rounded p-2 text-sm font-mono text-slate-300" data-testid="tool-approval-targets">
+              {request.targets?.map(t => <li key={t} className="break-all">{t}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {request.kind === 'delete-folder' && (
+          <p className="text-slate-200 mb-2">
+            Delete this folder and the {request.entryCount ?? 0} file{request.entryCount === 1 ? '' : 's'} and
+            folders inside it.
+          </p>
+        )}
+
+        <div className="flex-shrink-0 mt-4 space-y-3">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for rejecting (optional, sent to the AI)"
+            className={DLG_INPUT_CLASS_ALT}
+            data-testid="tool-approval-reason-input"
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-300" title={edited ? 'Not available when approving an edited version' : undefined}>
+            <input
+              type="checkbox"
+              checked={alwaysAllow && !edited}
+              disabled={edited}
+              onChange={(e) => setAlwaysAllow(e.target.checked)}
+              className="w-4 h-4 accent-blue-500"
+              data-testid="tool-approval-always-allow"
+            />
+            <span className="break-all">Always allow AI changes in {request.folder} this session</span>
+          </label>
+        </div>
+
+        <div className={`${DLG_FOOTER_CLASS} flex-shrink-0 mt-4`}>
+          <button type="button" onClick={reject} className={BUTTON_CLASS_DLG_RED} data-testid="tool-approval-reject-button">
+            Reject
+          </button>
+          <button type="button" onClick={approve} className={BUTTON_CLASS_DLG_BLUE} data-testid="tool-approval-approve-button">
+            {edited ? 'Approve Edited' : 'Approve'}
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+export default ToolApprovalDialog;
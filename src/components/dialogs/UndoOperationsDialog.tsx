@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import Dialog from './common/Dialog';
+import type { JournalOperation } from '../../shared/shared';
+import { BUTTON_CLASS_DLG_CANCEL, BUTTON_CLASS_DLG_BLUE, DLG_FOOTER_CLASS } from '../../renderer/styles';
+
+interface UndoOperationsDialogProps {
+  /** The undo journal, newest first. */
+  operations: JournalOperation[];
+  /** Revert the newest `count` operations. */
+  onUndo: (count: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists the bulk file operations of this session (Replace in Files, Split, Join,
+ * paste-moves and multi-delete), newest first. Clicking one marks it and every
+ * newer one for undo: operations are only ever undone newest first, as a batch
+ * that is refused whole if any of their files changed since (see
+ * main/opJournal.ts).
+ */
+function UndoOperationsDialog({ operations, onUndo, onCancel }: UndoOperationsDialogProps) {
+  const [count, setCount] = useState(operations.length > 0 && !operations[0]!.unavailable ? 1 : 0);
+  // Nothing at or past an operation that can't be undone can be picked.
+  const firstUnavailable = operations.findIndex(op => op.unavailable);
+  const selectable = firstUnavailable === -1 ? operations.length : firstUnavailable;
+
+  const handleSubmit = (e: React.SubmitEvent) => {
+    e.preventDefault();
+    if (count > 0) onUndo(count);
+  };
+
+  return (
+    <Dialog title="Undo Operations" onClose={onCancel} className="w-full max-w-xl">
+      <form className="p-6" onSubmit={handleSubmit}>
+        {operations.length === 0 ? (
+          <p className="text-sm text-slate-400 mb-6">No bulk operations to undo in this session.</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-400 mb-3">
+              Click the oldest operation to undo; it and everything after it are reverted together.
+            </p>
+            <div className="max-h-72 overflow-y-auto border border-slate-700 rounded mb-6" data-testid="undo-operations-list">
+              {operations.map((op, i) => (
+                <button
+                  key={op.id}
+                  type="button"
+                  disabled={i >= selectable}
+                  onClick={() => setCount(i + 1)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left border-b border-slate-700 last:border-b-0 disabled:opacity-50 ${
+                    i < count ? 'bg-blue-900/50' : 'hover:bg-slate-700/40'
+                  }`}
+                  data-testid="undo-operation-row"
+                >
+                  <span className="text-xs text-slate-500 w-20 flex-shrink-0">{new Date(op.time).toLocaleTimeString()}</span>
+                  <span className="text-sm text-slate-200 truncate">{op.label}</span>
+                  <span className="text-xs text-slate-500 ml-auto flex-shrink-0">
+                    {op.unavailable ?? `${op.pathCount} item${op.pathCount === 1 ? '' : 's'}`}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className={DLG_FOOTER_CLASS}>
+          <button
+            type="button"
+            onClick={onCancel}
+            className={BUTTON_CLASS_DLG_CANCEL}
+            data-testid="undo-operations-cancel-button"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={count === 0}
+            className={BUTTON_CLASS_DLG_BLUE}
+            data-testid="undo-operations-submit-button"
+          >
+            Undo {count} Operation{count === 1 ? '' : 's'}
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
+
+export default UndoOperationsDialog;
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useImperativeHandle, type Ref, type RefObject, type CSSProperties } from 'react';
 import { EditorView, placeholder as placeholderExt, keymap, highlightActiveLineGutter, highlightSpecialChars, drawSelection, dropCursor, rectangularSelection, crosshairCursor, highlightActiveLine } from '@codemirror/view';
-import { EditorState, Compartment, type Text } from '@codemirror/state';
+import { EditorState, Compartment, type Extension, type Text } from '@codemirror/state';
 import { history, defaultKeymap, historyKeymap } from '@codemirror/commands';
 import { highlightSelectionMatches, search, searchKeymap, openSearchPanel, setSearchQuery, SearchQuery } from '@codemirror/search';
 import { indentOnInput, syntaxHighlighting, defaultHighlightStyle, bracketMatching, StreamLanguage } from '@codemirror/language';
@@ -23,6 +23,10 @@ import { headingSizeExtensions } from '../../renderer/editor/editorHeadingUtil';
 import { markdownHighlightStyle } from '../../renderer/editor/editorMarkdownHighlight';
 import { minimalDiff } from '../../renderer/editor/editorDiffUtil';
 import { createThesaurusPlugin } from '../../renderer/editor/editorThesaurusUtil';
+import { wikiLinkCompletion } from '../../renderer/editor/editorWikiLinkUtil';
+import { editorKeymapExtension, APP_KEY_BINDING_SCOPE, type EditorExCommands } from '../../renderer/editor/editorKeymapUtil';
+import { livePreview } from '../../renderer/editor/editorLivePreviewUtil';
+import { resolveImagePath } from '../markdownImgResolver';
 import { loadSpellChecker, createSpellCheckPlugin, spellCheckTheme } from './spellChecker';
 import { useEditorContextMenu } from './useEditorContextMenu';
 import { EditorContextMenu } from './EditorContextMenu';
@@ -30,6 +34,15 @@ import { createFontSizeTheme } from './editorTheme';
 import { logger } from '../../shared/logUtil';
 import { BUTTON_CLASS_SM_BLUE, BUTTON_CLASS_SM_GREEN, BUTTON_CLASS_SM_NEUTRAL } from '../../renderer/styles';
 
+// Live preview (settings.livePreview) for an editable Markdown editor. Relative image paths
+// resolve against the file, the same way MarkdownView resolves them.
+function livePreviewExtension(enabled: boolean, filePath: string | undefined): Extension {
+  if (!enabled) return [];
+  return livePreview(filePath
+    ? (src) => resolveImagePath(filePath, src).then(image => image && `local-file://${image.path}`)
+    : undefined);
+}
+
 // Delay before auto-focusing / scrolling to a line after mount. Lets CodeMirror finish its
 // initial layout so focus and scrollIntoView land on correctly measured content.
 const FOCUS_DELAY_MS = 100;
@@ -236,6 +249,8 @@ interface CodeMirrorEditorProps {
   onReviewComplete?: (finalText: string) => void;
   /** Called when the user cancels the review; the editor restores the pre-review document. */
   onReviewCancel?: () => void;
+  /** Label of the review bar's cancel button, for reviews that aren't AI rewrites. */
+  reviewCancelLabel?: string;
 }
 
 export interface CodeMirrorEditorHandle {
@@ -341,7 +356,7 @@ function applyPostMountFocus(
  * (value, fontSize, showPropsInEditor, reviewText) are applied through separate effects or
  * compartments so that undo history, cursor position, and the async spell checker are preserved.
  */
-function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text', autoFocus = false, goToLine, onGoToLineComplete, goToPosition, onGoToPositionComplete, onEscape, onForceCancel, onSave, onSaveKeepEditing, onSelectionChange, showPropsInEditor = true, readOnly = false, fileName, filePath, onMakeCalendarItem, onMakeRepeatingCalendarItem, onReady, fillHeight = false, onViewModeClick, reviewText = null, onReviewComplete, onReviewCancel }: CodeMirrorEditorProps) {
+function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text', autoFocus = false, goToLine, onGoToLineComplete, goToPosition, onGoToPositionComplete, onEscape, onForceCancel, onSave, onSaveKeepEditing, onSelectionChange, showPropsInEditor = true, readOnly = false, fileName, filePath, onMakeCalendarItem, onMakeRepeatingCalendarItem, onReady, fillHeight = false, onViewModeClick, reviewText = null, onReviewComplete, onReviewCancel, reviewCancelLabel = 'Cancel Rewrite' }: CodeMirrorEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
@@ -350,6 +365,14 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
   const prevShowPropsRef = useRef(showPropsInEditor);
   const spellCheckCompartment = useRef(new Compartment());
   const mergeCompartment = useRef(new Compartment());
+  // Vim/Emacs emulation (settings.editorKeymap), swapped by the keymap effect below.
+  const keymapCompartment = useRef(new Compartment());
+  // Markdown live preview (settings.livePreview), swapped by the live-preview effect below.
+  const livePreviewCompartment = useRef(new Compartment());
+  // Vim's ex commands for this editor, created with the view (they only read refs).
+  const exCommandsRef = useRef<EditorExCommands | null>(null);
+  // The context-menu save when it is available, for Vim's `:w`; see handleContextMenuSave.
+  const saveKeepEditingRef = useRef<(() => void) | undefined>(undefined);
   // True while the merge view is active in the editor. A ref (not state) because the once-created
   // updateListener and keymap handlers need the live value; the buttons and border render from
   // the `reviewing` prop-derived flag below instead.
@@ -399,6 +422,9 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     readOnly,
     showPropsInEditor,
     fontSize: settings.fontSize,
+    editorKeymap: settings.editorKeymap,
+    livePreview: settings.livePreview,
+    filePath,
   });
 
   // Keep the "latest callback" refs in sync so handlers inside the once-created EditorView
@@ -443,6 +469,11 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
       .catch((err: unknown) => logger.error('Failed to save file:', err));
   };
 
+  // Same availability as the context menu's Save item (hidden during review).
+  useEffect(() => {
+    saveKeepEditingRef.current = onSaveKeepEditing !== undefined && !reviewing ? handleContextMenuSave : undefined;
+  });
+
   const {
     contextMenu,
     handleSave,
@@ -453,6 +484,7 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     handlePaste,
     handlePasteLink,
     canPasteLink,
+    handleCopyBlockLink,
     handleSelectAll,
     handleSpellingSuggestion,
     handleInsertTimestamp,
@@ -460,6 +492,9 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     handleToggleThesaurus,
     canToggleThesaurus,
     thesaurusEnabled,
+    handleToggleLivePreview,
+    canToggleLivePreview,
+    livePreviewEnabled,
     handleMakeCalendarItem,
     handleMakeRepeatingCalendarItem,
     isMarkdown,
@@ -476,6 +511,8 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     // The same gate the extension list below applies: the menu offers the thesaurus switch
     // only on editors that actually have the plugin installed.
     thesaurusCapable: !readOnly && !isCodeLanguage(language),
+    // Likewise for live preview, which only editable Markdown editors install.
+    livePreviewCapable: !readOnly && language === 'markdown',
   });
 
   // Build the EditorView exactly once, on mount, from the mountConfigRef snapshot (see its
@@ -486,7 +523,41 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     if (!editorRef.current) return;
     const cfg = mountConfigRef.current;
 
+    const forceCancel = () => {
+      if (onForceCancelRef.current) {
+        // Force-cancel discards the edit; drop (don't deliver) the pending onChange so
+        // the abandoned keystrokes can't be written back into the store on teardown.
+        cancelPendingOnChange(onChangeDebounceRef.current);
+        onForceCancelRef.current();
+        return true;
+      }
+      return false;
+    };
+    const save = () => {
+      // Saving mid-review would write the pre-review edit buffer while the user is looking
+      // at the proposal — resolve the review first (the Save button is hidden too).
+      if (reviewingRef.current) return false;
+      if (onSaveRef.current) {
+        // Deliver any pending onChange before saving, or keystrokes from the last
+        // ONCHANGE_DEBOUNCE_MS would be missing from the content the save reads.
+        flushPendingOnChange(onChangeDebounceRef.current, onChangeRef.current);
+        onSaveRef.current();
+        return true;
+      }
+      return false;
+    };
+    exCommandsRef.current = {
+      write: () => {
+        if (saveKeepEditingRef.current) saveKeepEditingRef.current();
+        else save();
+      },
+      writeQuit: () => { save(); },
+      quit: () => { forceCancel(); },
+    };
+
     const extensions = [
+      // First, so a Vim/Emacs emulation sees keys before any keymap below.
+      keymapCompartment.current.of(cfg.readOnly ? [] : editorKeymapExtension(cfg.editorKeymap, exCommandsRef.current)),
 
       // NOTE: In order to remove 'Code Folding' we replaced the line
       // 'basicSetup' which used to be passed here without the parenthesis to call it
@@ -570,37 +641,13 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
             return false;
           },
         },
-        {
-          key: 'Ctrl-q',
-          run: () => {
-            if (onForceCancelRef.current) {
-              // Force-cancel discards the edit; drop (don't deliver) the pending onChange so
-              // the abandoned keystrokes can't be written back into the store on teardown.
-              cancelPendingOnChange(onChangeDebounceRef.current);
-              onForceCancelRef.current();
-              return true;
-            }
-            return false;
-          },
-        },
-        {
-          key: 'Ctrl-s',
-          run: () => {
-            // Saving mid-review would write the pre-review edit buffer while the user is looking
-            // at the proposal — resolve the review first (the Save button is hidden too).
-            if (reviewingRef.current) return false;
-            if (onSaveRef.current) {
-              // Deliver any pending onChange before saving, or keystrokes from the last
-              // ONCHANGE_DEBOUNCE_MS would be missing from the content the save reads.
-              flushPendingOnChange(onChangeDebounceRef.current, onChangeRef.current);
-              onSaveRef.current();
-              return true;
-            }
-            return false;
-          },
-        },
+        // The Ctrl bindings are also in APP_KEY_SCOPE, which a Vim/Emacs emulation runs
+        // ahead of its own bindings (see editorKeymapUtil).
+        { key: 'Ctrl-q', scope: APP_KEY_BINDING_SCOPE, run: forceCancel },
+        { key: 'Ctrl-s', scope: APP_KEY_BINDING_SCOPE, run: save },
         {
           key: 'Ctrl-t',
+          scope: APP_KEY_BINDING_SCOPE,
           run: (view) => {
             const timestamp = formatTimestamp();
             const { from, to } = view.state.selection.main;
@@ -613,6 +660,7 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
         },
         {
           key: 'Ctrl-d',
+          scope: APP_KEY_BINDING_SCOPE,
           run: (view) => {
             const date = formatDate();
             const { from, to } = view.state.selection.main;
@@ -678,6 +726,14 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
       // be coloured, while MarkdownView renders them via remark-gfm. This keeps what the editor
       // highlights honest about what the app actually renders.
       extensions.push(markdown({ base: markdownLanguage }), ...headingSizeExtensions);
+      // `[[` completes file names, `#` headings and `|` aliases; only a live editor with a
+      // file to resolve links from has anything to complete.
+      if (!cfg.readOnly && cfg.filePath) {
+        extensions.push(wikiLinkCompletion(cfg.filePath, () => useAS.getState().rootPath));
+      }
+      if (!cfg.readOnly) {
+        extensions.push(livePreviewCompartment.current.of(livePreviewExtension(cfg.livePreview, cfg.filePath)));
+      }
     } else if (cfg.language === 'javascript') {
       extensions.push(javascript());
     } else if (cfg.language === 'typescript') {
@@ -858,6 +914,30 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
     });
   }, [settings.fontSize]);
 
+  // Switch key bindings when settings.editorKeymap changes. The emulation's own state (Vim's
+  // mode, registers) starts over; the document, selection and undo history are kept.
+  useEffect(() => {
+    const view = viewRef.current;
+    const exCommands = exCommandsRef.current;
+    if (!view || !exCommands || mountConfigRef.current.readOnly) return;
+
+    view.dispatch({
+      effects: keymapCompartment.current.reconfigure(editorKeymapExtension(settings.editorKeymap, exCommands)),
+    });
+  }, [settings.editorKeymap]);
+
+  // Turn live preview on or off when settings.livePreview changes (editable Markdown only,
+  // the editors that installed the compartment).
+  useEffect(() => {
+    const view = viewRef.current;
+    const cfg = mountConfigRef.current;
+    if (!view || cfg.readOnly || cfg.language !== 'markdown') return;
+
+    view.dispatch({
+      effects: livePreviewCompartment.current.reconfigure(livePreviewExtension(settings.livePreview, cfg.filePath)),
+    });
+  }, [settings.livePreview]);
+
   // Toggle front matter visibility when showPropsInEditor changes
   useEffect(() => {
     const view = viewRef.current;
@@ -954,7 +1034,7 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
             className={BUTTON_CLASS_SM_NEUTRAL}
             data-testid="diff-cancel-button"
           >
-            Cancel Rewrite
+            {reviewCancelLabel}
           </button>
         </div>
       )}
@@ -980,6 +1060,7 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
         onPaste={handlePaste}
         onPasteLink={handlePasteLink}
         canPasteLink={canPasteLink}
+        onCopyBlockLink={handleCopyBlockLink}
         onSelectAll={handleSelectAll}
         onSpellingSuggestion={handleSpellingSuggestion}
         onInsertTimestamp={handleInsertTimestamp}
@@ -987,6 +1068,9 @@ function CodeMirrorEditor({ ref, value, onChange, placeholder, language = 'text'
         onToggleThesaurus={handleToggleThesaurus}
         canToggleThesaurus={canToggleThesaurus}
         thesaurusEnabled={thesaurusEnabled}
+        onToggleLivePreview={handleToggleLivePreview}
+        canToggleLivePreview={canToggleLivePreview}
+        livePreviewEnabled={livePreviewEnabled}
         onMakeCalendarItem={handleMakeCalendarItem}
         onMakeRepeatingCalendarItem={handleMakeRepeatingCalendarItem}
         isMarkdown={isMarkdown}
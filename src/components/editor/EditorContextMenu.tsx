@@ -13,6 +13,7 @@ interface EditorContextMenuProps {
   onPaste: () => void;
   onPasteLink: () => void;
   canPasteLink: boolean;
+  onCopyBlockLink: () => void;
   onSelectAll: () => void;
   onSpellingSuggestion: (suggestion: string) => void;
   onInsertTimestamp: () => void;
@@ -22,6 +23,11 @@ interface EditorContextMenuProps {
   canToggleThesaurus: boolean;
   /** Current state of `settings.enableThesaurus`, which is what the item's wording flips on. */
   thesaurusEnabled: boolean;
+  onToggleLivePreview: () => void;
+  /** Whether the live-preview item is shown — editable Markdown editors only. */
+  canToggleLivePreview: boolean;
+  /** Current state of `settings.livePreview`. */
+  livePreviewEnabled: boolean;
   onMakeCalendarItem?: () => void;
   onMakeRepeatingCalendarItem?: () => void;
   isMarkdown?: boolean;
@@ -34,8 +40,8 @@ const VIEWPORT_MARGIN = 8;
  * Floating context menu for the CodeMirror editor. Renders at the right-click coordinates,
  * clamped so it stays fully within the viewport. Includes Save (writes the file without
  * leaving edit mode), standard edit actions (cut/copy/paste, select all), timestamp/date
- * insertion, optional spell-check suggestions, the thesaurus on/off switch, and
- * Markdown-only items (Paste Link, calendar item creation). Closes on outside click,
+ * insertion, optional spell-check suggestions, the thesaurus and live-preview switches, and
+ * Markdown-only items (Paste Link, Copy Block Link, calendar item creation). Closes on outside click,
  * scroll, or Escape.
  */
 export function EditorContextMenu({
@@ -47,6 +53,7 @@ export function EditorContextMenu({
   onPaste,
   onPasteLink,
   canPasteLink,
+  onCopyBlockLink,
   onSelectAll,
   onSpellingSuggestion,
   onInsertTimestamp,
@@ -54,6 +61,9 @@ export function EditorContextMenu({
   onToggleThesaurus,
   canToggleThesaurus,
   thesaurusEnabled,
+  onToggleLivePreview,
+  canToggleLivePreview,
+  livePreviewEnabled,
   onMakeCalendarItem,
   onMakeRepeatingCalendarItem,
   isMarkdown,
@@ -207,6 +217,18 @@ export function EditorContextMenu({
           <span>Paste Link</span>
         </button>
       )}
+      {isMarkdown && (
+        <button
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          onClick={onCopyBlockLink}
+          className={EDITOR_MENU_ITEM}
+          data-testid="editor-copy-block-link"
+        >
+          Copy Block Link
+        </button>
+      )}
       <div className="border-t border-slate-600 my-1" />
       <button
         type="button"
@@ -239,22 +261,35 @@ export function EditorContextMenu({
         <span>Insert Date</span>
         <span className="text-slate-500 text-xs ml-4">Ctrl+D</span>
       </button>
-      {/* The synonym strip's only control. Its own group: it changes a persisted setting
-          rather than touching the document, unlike everything above it. */}
+      {/* The synonym strip's only control, and the live-preview switch. Their own group:
+          they change persisted settings rather than touching the document, unlike
+          everything above them. */}
+      {(canToggleThesaurus || canToggleLivePreview) && (
+        <div className="border-t border-slate-600 my-1" />
+      )}
       {canToggleThesaurus && (
-        <>
-          <div className="border-t border-slate-600 my-1" />
-          <button
-            type="button"
-            role="menuitem"
-            tabIndex={-1}
-            onClick={onToggleThesaurus}
-            className={EDITOR_MENU_ITEM}
-            data-testid="editor-toggle-thesaurus"
-          >
-            {thesaurusEnabled ? 'Hide Thesaurus' : 'Show Thesaurus'}
-          </button>
-        </>
+        <button
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          onClick={onToggleThesaurus}
+          className={EDITOR_MENU_ITEM}
+          data-testid="editor-toggle-thesaurus"
+        >
+          {thesaurusEnabled ? 'Hide Thesaurus' : 'Show Thesaurus'}
+        </button>
+      )}
+      {canToggleLivePreview && (
+        <button
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          onClick={onToggleLivePreview}
+          className={EDITOR_MENU_ITEM}
+          data-testid="editor-toggle-live-preview"
+        >
+          {livePreviewEnabled ? 'Show Markdown Source' : 'Live Preview'}
+        </button>
       )}
       {isMarkdown && (
         <>
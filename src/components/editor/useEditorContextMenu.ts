@@ -4,10 +4,11 @@ import Typo from 'typo-js';
 import { logger } from '../../shared/logUtil';
 import { formatDate, formatTimestamp } from '../../shared/timeUtil';
 import { hasDueProperty, injectCalendarFrontMatter } from '../../shared/calendarUtil';
+import { blockAtLine, newBlockId } from '../../shared/tocUtil';
 import { isMarkdownFile } from '../../shared/fileTypes';
 import { buildMarkdownLinks } from '../../renderer/linkUtil';
 import { api } from '../../renderer/api';
-import { useAS, getSettings, setEnableThesaurus } from '../../store';
+import { useAS, getSettings, setEnableThesaurus, setLivePreview } from '../../store';
 import { wordAt, type SpellingSuggestion } from './spellChecker';
 
 export interface ContextMenuState {
@@ -32,6 +33,8 @@ interface UseEditorContextMenuProps {
    * would do nothing.
    */
   thesaurusCapable?: boolean;
+  /** Whether this editor installed the live-preview compartment (editable Markdown); false hides its switch. */
+  livePreviewCapable?: boolean;
 }
 
 /**
@@ -40,19 +43,20 @@ interface UseEditorContextMenuProps {
  * On right-click, checks whether the cursor lands on a misspelled word (using the same
  * tokenisation as the spell-check decorations) and surfaces spelling suggestions at the
  * top of the menu. Also exposes save-in-place, cut/copy/paste, select-all, timestamp/date
- * insertion, the thesaurus on/off switch, and — for Markdown files — "Paste Link" and
- * calendar-item creation actions.
+ * insertion, the thesaurus and live-preview on/off switches, and — for Markdown files —
+ * "Paste Link", "Copy Block Link" and calendar-item creation actions.
  *
  * Returns everything `EditorContextMenu` and `CodeMirrorEditor` need: the menu's
  * visibility/position state, all action handlers, and derived flags (`isMarkdown`,
  * `canPasteLink`, `canSave`, `canToggleThesaurus`, `thesaurusEnabled`,
- * `calendarAlreadyExists`).
+ * `canToggleLivePreview`, `livePreviewEnabled`, `calendarAlreadyExists`).
  */
-export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onSave, onMakeCalendarItem, onMakeRepeatingCalendarItem, thesaurusCapable = false }: UseEditorContextMenuProps) {
+export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onSave, onMakeCalendarItem, onMakeRepeatingCalendarItem, thesaurusCapable = false, livePreviewCapable = false }: UseEditorContextMenuProps) {
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({ visible: false, x: 0, y: 0 });
   const [calendarAlreadyExists, setCalendarAlreadyExists] = useState(false);
   const selectedLinkItems = useAS(s => s.selectedLinkItems);
   const thesaurusEnabled = useAS(s => s.settings.enableThesaurus);
+  const livePreviewEnabled = useAS(s => s.settings.livePreview);
   // Only `BrowseFile` (single-file mode) mounts the synonym strip, and that is what
   // `browseFileName` being set means. Offering the switch in a folder-listing inline editor
   // would turn the feature on with nowhere for the synonyms to appear.
@@ -204,6 +208,44 @@ export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onS
     view.focus();
   };
 
+  // "Copy Block Link" — copies a `[[note#^id]]` link to the paragraph or list item under the
+  // cursor, first giving the block an id (` ^id` at the end of its last line) when it has none
+  // yet. The new id is an ordinary edit, saved with the rest of the file. On a heading, the
+  // link is the plain `[[note#Heading]]` one; headings need no id.
+  const handleCopyBlockLink = () => {
+    void (async () => {
+      const view = viewRef.current;
+      if (!view || !fileName) return;
+
+      const content = view.state.doc.toString();
+      const block = blockAtLine(content, view.state.doc.lineAt(view.state.selection.main.head).number);
+      const note = fileName.replace(/\.md$/i, '');
+      let link: string | null = null;
+      if (block?.kind === 'heading') {
+        link = `[[${note}#${block.heading}]]`;
+      } else if (block) {
+        let id = block.id;
+        if (id === null) {
+          id = newBlockId(content);
+          const line = view.state.doc.line(block.endLine);
+          const spacer = /\s$/.test(line.text) ? '' : ' ';
+          view.dispatch({ changes: { from: line.to, insert: `${spacer}^${id}` } });
+        }
+        link = `[[${note}#^${id}]]`;
+      }
+
+      if (link) {
+        try {
+          await navigator.clipboard.writeText(link);
+        } catch (err) {
+          logger.error('Failed to copy to clipboard:', err);
+        }
+      }
+      closeContextMenu();
+      view.focus();
+    })();
+  };
+
   // "Save" — unlike Ctrl+S (save and exit), this writes the file and leaves the user in the
   // editor. The menu is closed and focus handed back to the editor first, so the caller's save
   // (and its green saved-flash) runs against an already-focused editor the user can keep typing in.
@@ -286,6 +328,17 @@ export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onS
       .catch((err: unknown) => logger.error('Failed to save thesaurus setting:', err));
   };
 
+  // Live preview (`settings.livePreview`), persisted the same way as the thesaurus switch.
+  // Every open Markdown editor follows the setting, not just this one.
+  const handleToggleLivePreview = () => {
+    const view = viewRef.current;
+    setLivePreview(!livePreviewEnabled);
+    closeContextMenu();
+    view?.focus();
+    void api.updateConfig({ settings: getSettings() })
+      .catch((err: unknown) => logger.error('Failed to save live preview setting:', err));
+  };
+
   // Shared implementation for both calendar-item variants. Aborts with an alert if a
   // 'due' property already exists in the front matter; otherwise injects the calendar
   // front matter and invokes the parent callback (used to trigger a save).
@@ -357,6 +410,7 @@ export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onS
     handlePaste,
     handlePasteLink,
     canPasteLink: !!filePath && selectedLinkItems.length > 0,
+    handleCopyBlockLink,
     handleSelectAll,
     handleSpellingSuggestion,
     handleInsertTimestamp,
@@ -364,6 +418,9 @@ export function useEditorContextMenu({ viewRef, typoRef, fileName, filePath, onS
     handleToggleThesaurus,
     canToggleThesaurus: thesaurusCapable && singleFileMode,
     thesaurusEnabled,
+    handleToggleLivePreview,
+    canToggleLivePreview: livePreviewCapable,
+    livePreviewEnabled,
     handleMakeCalendarItem,
     handleMakeRepeatingCalendarItem,
     isMarkdown,
@@ -10,6 +10,7 @@ import {
 } from '../../renderer/dragAndDrop';
 import { BUTTON_CLASS_ICON_SOLID_BLUE, ENTRY_HIGHLIGHTED, ENTRY_DROP_TARGET } from '../../renderer/styles';
 import ConfirmDialog from '../dialogs/ConfirmDialog';
+import GitStatusBadge from '../GitStatusBadge';
 import {
   useEntry,
   useDropTarget,
@@ -101,6 +102,7 @@ function FolderEntry(props: FolderEntryProps) {
         ) : (
           <>
             <span id={buildEntryHeaderId(entry.path)} className={clsx('font-medium truncate flex-shrink-0', indentFolder ? 'text-slate-400 italic' : 'text-slate-200')}>{indentFolder ? `*${ATTACH_SUFFIX}` : entry.name}</span>
+            <GitStatusBadge path={entry.path} />
             {aiHint && (
               <span className="text-slate-400 italic text-sm truncate min-w-0" title={aiHint}>{aiHint}</span>
             )}
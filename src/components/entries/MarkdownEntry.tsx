@@ -29,6 +29,9 @@ import CodeMirrorEditor from '../editor/CodeMirrorEditor';
 import type { CodeMirrorEditorHandle } from '../editor/CodeMirrorEditor';
 import TagsPicker from '../TagsPicker';
 import PropsDisplay from '../PropsDisplay';
+import BacklinksPanel from '../BacklinksPanel';
+import HistoryPanel from '../HistoryPanel';
+import GitPanel from '../GitPanel';
 import MarkdownView from './MarkdownView';
 import { logger } from '../../shared/logUtil';
 import { getParentPath } from '../../renderer/pathUtil';
@@ -542,6 +545,15 @@ function MarkdownEntry(props: MarkdownEntryProps) {
   // chunk in a hidden front-matter region can't be invisible.
   const reviewing = !!item?.reviewing;
 
+  // A version picked in the History or Git panel is reviewed the same way, against the file as saved;
+  // its TOC is stripped like the edit buffer's so the diff shows only real changes.
+  const reviewVersion = (versionContent: string) => {
+    void (async () => {
+      await edit.handleEditClick();
+      setItemReviewing(entry.path, true, removeTOC(versionContent), 'history');
+    })();
+  };
+
   return (
     <>
       <EntryShell
@@ -609,6 +621,7 @@ function MarkdownEntry(props: MarkdownEntryProps) {
                   setItemReviewing(entry.path, false);
                 }}
                 onReviewCancel={() => setItemReviewing(entry.path, false)}
+                reviewCancelLabel={item?.reviewSource === 'history' ? 'Cancel Restore' : undefined}
               />
             </>
           ) : (
@@ -634,6 +647,9 @@ function MarkdownEntry(props: MarkdownEntryProps) {
                 entryPath={entry.path}
                 onEditClick={edit.handleEditClick}
               />
+              <BacklinksPanel filePath={entry.path} refreshKey={String(item?.modifiedTime ?? 0)} />
+              <HistoryPanel filePath={entry.path} refreshKey={String(item?.modifiedTime ?? 0)} onReview={reviewVersion} />
+              <GitPanel filePath={entry.path} refreshKey={String(item?.modifiedTime ?? 0)} onReview={reviewVersion} />
             </>
           )}
         </div>
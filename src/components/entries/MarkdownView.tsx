@@ -1,7 +1,7 @@
-import { memo } from 'react';
+import { memo, type ImgHTMLAttributes } from 'react';
 import { clsx } from 'clsx';
 import Markdown from 'react-markdown';
-import type { Components } from 'react-markdown';
+import type { Components, ExtraProps } from 'react-markdown';
 import type { PluggableList } from 'unified';
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkGfm from 'remark-gfm';
@@ -10,16 +10,23 @@ import rehypeKatex from 'rehype-katex';
 import rehypeSlug from 'rehype-slug';
 import 'katex/dist/katex.min.css';
 import { rehypeCallouts } from '../../shared/rehypeCallouts';
+import { rehypeNoteEmbeds } from '../../shared/rehypeNoteEmbeds';
+import { rehypeBlockIds } from '../../shared/rehypeBlockIds';
 import { removeTOC } from '../../shared/tocUtil';
-import { preprocessMathEscapes, stripHtmlComments, preprocessWikiLinks, splitOnColumnBreaks, safeUrlTransform } from '../../shared/mkUtil';
+import { preprocessMathEscapes, stripHtmlComments, preprocessWikiLinks, splitOnColumnBreaks, safeUrlTransform, parseWikiEmbedSrc } from '../../shared/mkUtil';
 import { BlockClickContext, blockClickComponents } from '../blockClickComponents';
 import { createCustomImage } from '../markdownImgResolver';
 import CustomAnchor from '../CustomAnchor';
 import CustomCode from '../CustomCode';
 import CustomPre from '../CustomPre';
+import NoteEmbed from '../NoteEmbed';
+import WikiLink from '../WikiLink';
 
 const REMARK_PLUGINS: PluggableList = [remarkFrontmatter, remarkGfm, [remarkMath, { singleDollarTextMath: true }]];
-const REHYPE_PLUGINS: PluggableList = [rehypeKatex, rehypeSlug, rehypeCallouts];
+const REHYPE_PLUGINS: PluggableList = [rehypeKatex, rehypeSlug, rehypeCallouts, rehypeNoteEmbeds, rehypeBlockIds];
+
+/** Image props as react-markdown passes them, plus the marker rehypeNoteEmbeds sets on block embeds. */
+type ImgProps = ImgHTMLAttributes<HTMLImageElement> & ExtraProps & { 'data-note-embed'?: string };
 
 const ARTICLE_CLASS = 'prose prose-invert prose-base max-w-none prose-hr:border-slate-400 prose-hr:my-2';
 
@@ -47,10 +54,20 @@ function MarkdownView({ content, showToc, entryPath, onEditClick }: MarkdownView
   // reconciles in place instead of remounting the whole block tree each render. The block-click
   // components are module-stable and get onEditClick and the column line offset via
   // BlockClickContext; only the path-dependent overrides (links, images) depend on entryPath.
+  // Note embeds arrive as images (see preprocessWikiLinks): one standing alone in its paragraph
+  // is marked as a block by rehypeNoteEmbeds and shows the note; one inside text is a link.
+  const CustomImage = createCustomImage(entryPath);
   const markdownComponents: Components = {
     ...blockClickComponents,
     a: (props) => <CustomAnchor entryPath={entryPath} {...props} />,
-    img: createCustomImage(entryPath),
+    img: (props: ImgProps) => {
+      const embed = props.src ? parseWikiEmbedSrc(props.src) : null;
+      if (!embed) return <CustomImage {...props} />;
+      const label = props.alt ?? embed.target;
+      return props['data-note-embed'] === 'block'
+        ? <NoteEmbed entryPath={entryPath} target={embed.target} anchor={embed.anchor} label={label} />
+        : <WikiLink entryPath={entryPath} target={embed.target} anchor={embed.anchor}>{label}</WikiLink>;
+    },
     code: CustomCode,
     pre: CustomPre,
   };
@@ -10,6 +10,8 @@ import {
 import CodeMirrorEditor from '../editor/CodeMirrorEditor';
 import type { CodeMirrorEditorHandle } from '../editor/CodeMirrorEditor';
 import AlertDialog from '../dialogs/AlertDialog';
+import HistoryPanel from '../HistoryPanel';
+import GitPanel from '../GitPanel';
 import {
   useEditableEntry,
   useToggleExpanded,
@@ -88,6 +90,14 @@ function TextEntry(props: TextEntryProps) {
     onError: setAiErrorMessage,
   });
 
+  // A version picked in the History or Git panel opens in the same diff review as a rewrite.
+  const reviewVersion = (versionContent: string) => {
+    void (async () => {
+      await edit.handleEditClick();
+      setItemReviewing(entry.path, true, versionContent, 'history');
+    })();
+  };
+
   const headerRight = edit.isEditing ? (
     <EntryEditToolbar
       expandedEditor={editorExpanded}
@@ -167,17 +177,22 @@ function TextEntry(props: TextEntryProps) {
                 setItemReviewing(entry.path, false);
               }}
               onReviewCancel={() => setItemReviewing(entry.path, false)}
+              reviewCancelLabel={item?.reviewSource === 'history' ? 'Cancel Restore' : undefined}
             />
           ) : (
-            <CodeMirrorEditor
-              key="view"
-              value={content || ''}
-              onChange={() => {}}
-              language={fileLanguage}
-              readOnly
-              fillHeight={maximized}
-              onViewModeClick={(line) => void edit.handleEditClick(line)}
-            />
+            <>
+              <CodeMirrorEditor
+                key="view"
+                value={content || ''}
+                onChange={() => {}}
+                language={fileLanguage}
+                readOnly
+                fillHeight={maximized}
+                onViewModeClick={(line) => void edit.handleEditClick(line)}
+              />
+              <HistoryPanel filePath={entry.path} refreshKey={String(item?.modifiedTime ?? 0)} onReview={reviewVersion} />
+              <GitPanel filePath={entry.path} refreshKey={String(item?.modifiedTime ?? 0)} onReview={reviewVersion} />
+            </>
           )}
         </div>
       </EntryShell>
@@ -5,6 +5,7 @@ import { buildEntryHeaderId } from '../../../renderer/entryDom';
 import { formatFlyoverInfo } from '../../../shared/fileTypes';
 import { makeEntryDragStartHandler, canDropAsAttachment, dropAsAttachment } from '../../../renderer/dragAndDrop';
 import ConfirmDialog from '../../dialogs/ConfirmDialog';
+import GitStatusBadge from '../../GitStatusBadge';
 import { RenameInput } from './RenameInput';
 import { SelectionCheckbox } from './SelectionCheckbox';
 import { useDropTarget } from './useDropTarget';
@@ -165,6 +166,7 @@ export function EntryShell({
             {entry.name}
           </span>
         )}
+        {!isAttachment && <GitStatusBadge path={entry.path} />}
         {!isRenaming && headerRight}
       </div>
       {isExpanded && children}
@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { api } from '../../../renderer/api';
-import { useAS, setItemContent, setItemEditing, setItemExpanded, setItemEditContent, setItemReviewing } from '../../../store';
+import { useAS, setItemContent, setItemEditing, setItemExpanded, setItemEditContent, setItemEditBase, setItemReviewing } from '../../../store';
 import { applyGlobalHighlight, getGlobalHighlightText } from '../../../renderer/globalHighlight';
+import { refreshGitStatus } from '../../../renderer/gitStatus';
+import { writeEditedFile } from '../../../renderer/saveConflict';
 import { removeTOC } from '../../../shared/tocUtil';
 import { logger } from '../../../shared/logUtil';
 import type { EditModeState } from './types';
@@ -14,8 +16,9 @@ interface UseEditModeOptions {
 }
 
 /**
- * Writes the file via IPC and, on success, commits the saved content to the
- * store and exits edit mode. Module-level (not in the hook) so its
+ * Writes the file via IPC — merged first with any change made to it on disk
+ * since editing started, see renderer/saveConflict.ts — and, on success,
+ * commits the saved content to the store and exits edit mode. Module-level (not in the hook) so its
  * try/catch/finally doesn't make the React Compiler bail out on useEditMode.
  * The catch keeps a failed IPC write from becoming an unhandled rejection at
  * the fire-and-forget bindings (Ctrl+S, Save button, onBlur); callers that
@@ -24,8 +27,9 @@ interface UseEditModeOptions {
  */
 async function writeFileAndExitEditMode(path: string, editContent: string): Promise<void> {
   try {
-    const result = await api.writeFile(path, editContent);
-    if (result.ok) {
+    // Null when the file changed on disk and the user cancelled the merge: stay in edit mode.
+    const result = await writeEditedFile(path, editContent);
+    if (result?.ok) {
       // Stamp the cache with the file's real post-write mtime from the main
       // process — a renderer Date.now() is generally at or ahead of the disk
       // mtime, which would blind the pre-edit external-modification check to
@@ -35,6 +39,7 @@ async function writeFileAndExitEditMode(path: string, editContent: string): Prom
       // refresh wipe the item as "replaced" (isReplacedFile).
       setItemContent(path, result.content, result.mtime, result.size, result.createdTime);
       setItemEditing(path, false);
+      void refreshGitStatus();
       if (getGlobalHighlightText()) {
         requestAnimationFrame(() => applyGlobalHighlight(getGlobalHighlightText()));
       }
@@ -63,9 +68,12 @@ async function writeFileAndExitEditMode(path: string, editContent: string): Prom
  */
 async function writeFileKeepEditing(path: string, editContent: string): Promise<boolean> {
   try {
-    const result = await api.writeFile(path, editContent);
-    if (!result.ok) return false;
+    const result = await writeEditedFile(path, editContent);
+    if (!result?.ok) return false;
     setItemContent(path, result.content, result.mtime, result.size, result.createdTime);
+    // Later saves check the file against this save, not against where editing started.
+    setItemEditBase(path, { content: result.content, mtime: result.mtime, size: result.size });
+    void refreshGitStatus();
     const savedBuffer = removeTOC(result.content);
     if (savedBuffer !== editContent) {
       setItemEditContent(path, savedBuffer);
@@ -77,6 +85,18 @@ async function writeFileKeepEditing(path: string, editContent: string): Promise<
   }
 }
 
+/**
+ * Records the item's cached content as its edit base, stamped with the mtime/size
+ * it was cached at. Without a cached stamp there is nothing to check a save
+ * against, and the save writes unconditionally, as it always used to.
+ */
+function setCachedEditBase(path: string): void {
+  const item = useAS.getState().items.get(path);
+  setItemEditBase(path, item?.content === undefined || item.contentCachedAt === undefined
+    ? undefined
+    : { content: item.content, mtime: item.contentCachedAt, size: item.contentCachedSize });
+}
+
 /**
  * Hook that handles edit mode logic for file Entry components.
  * Provides state and handlers for the code editor.
@@ -107,9 +127,11 @@ export function useEditMode({ path, content }: UseEditModeOptions): EditModeStat
     if (isEditing && !editInitialized.current && item?.content !== undefined) {
       // An already-populated editContent is live edit state (setItemEditing(false)
       // clears it), e.g. unsaved edits migrated by renameItem to the new path.
-      // Adopt it instead of re-seeding from the last-saved content.
+      // Adopt it (and the edit base that came with it) instead of re-seeding
+      // from the last-saved content.
       if (item.editContent === undefined) {
         setItemEditContent(path, removeTOC(item.content));
+        setCachedEditBase(path);
       }
       editInitialized.current = true;
     }
@@ -127,12 +149,15 @@ export function useEditMode({ path, content }: UseEditModeOptions): EditModeStat
         // Cache the fresh content stamped with the mtime it was read at
         setItemContent(path, fresh.content, fresh.mtime, fresh.size);
         setItemEditContent(path, removeTOC(fresh.content));
+        setItemEditBase(path, { content: fresh.content, mtime: fresh.mtime, size: fresh.size });
       } catch {
         // If re-read fails, fall back to cached content
         setItemEditContent(path, removeTOC(content));
+        setCachedEditBase(path);
       }
     } else {
       setItemEditContent(path, removeTOC(content));
+      setCachedEditBase(path);
     }
     editInitialized.current = true;
     setItemExpanded(path, true);
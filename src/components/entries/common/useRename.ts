@@ -2,7 +2,8 @@ import { useState, useRef, useEffect } from 'react';
 import { api } from '../../../renderer/api';
 import { setHighlightItem, setItemRenaming, renameItem } from '../../../store';
 import type { RenameState } from './types';
-import { getParentPath, joinPath } from '../../../renderer/pathUtil';
+import { getFileName, getParentPath, joinPath } from '../../../renderer/pathUtil';
+import { createLinkRewriteSession } from '../../../renderer/linkRewrite';
 import { logger } from '../../../shared/logUtil';
 
 interface UseRenameOptions {
@@ -36,8 +37,11 @@ async function performRename(
   try {
     const dirPath = getParentPath(path);
     const newPath = joinPath(dirPath, trimmedName);
+    const links = createLinkRewriteSession(`Rename ${getFileName(path)} to ${trimmedName}`);
+    if (!await links.confirmMoves([{ oldPath: path, newPath }])) return;
     const success = await api.renameFile(path, newPath);
     if (success) {
+      await links.finish([path]);
       // Move the item entry from old path to new path in the store, preserving
       // selection and other state (prevents phantom selections). This also
       // remaps every other slice holding paths (bookmarks, calendar events,
@@ -83,7 +83,7 @@ async function finishResolve(cacheKey: string, resolvedPath: string): Promise<Re
  * @param imageSrc - The image src attribute (relative path)
  * @returns The resolved path with intrinsic dimensions, or null if not found
  */
-async function resolveImagePath(entryPath: string, imageSrc: string): Promise<ResolvedImage | null> {
+export async function resolveImagePath(entryPath: string, imageSrc: string): Promise<ResolvedImage | null> {
   const cacheKey = `${entryPath}|${imageSrc}`;
 
   // Check cache first (only successful resolutions are ever cached)
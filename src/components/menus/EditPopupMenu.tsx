@@ -23,7 +23,8 @@ import PopupMenu, { PopupMenuItem, PopupMenuDivider } from './base/PopupMenu';
 
 /**
  * Popup menu for the Edit toolbar button. Exposes file-level editing operations:
- * selection management, split/join, find-and-replace, and copy link.
+ * selection management, split/join, find-and-replace, undo of those bulk
+ * operations, and copy link.
  * Each action callback is responsible for the actual operation; the menu only
  * wires up the items and closes itself after a selection.
  */
@@ -35,6 +36,8 @@ interface EditPopupMenuProps {
   onSplit: () => void;
   onJoin: () => void;
   onReplaceInFiles: () => void;
+  /** Opens the Undo Operations dialog (the undo journal of bulk file operations). */
+  onUndoOperations: () => void;
   onCopyLink: () => void;
   // /** Current global inline image size, shown as the combo box's selection. */
   // imageSize: ImageSize;
@@ -56,6 +59,7 @@ export default function EditPopupMenu({
   onSplit,
   onJoin,
   onReplaceInFiles,
+  onUndoOperations,
   onCopyLink,
   // imageSize,
   // onChangeImageSize,
@@ -92,6 +96,11 @@ export default function EditPopupMenu({
         label="Replace in Files"
         onClick={() => { onReplaceInFiles(); onClose(); }}
       />
+      <PopupMenuItem
+        label="Undo Operations..."
+        data-testid="menu-undo-operations"
+        onClick={() => { onUndoOperations(); onClose(); }}
+      />
       <PopupMenuItem
         label="Copy Link"
         data-testid="menu-copy-link"
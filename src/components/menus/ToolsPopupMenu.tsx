@@ -11,11 +11,16 @@ interface ToolsPopupMenuProps {
   onExport: () => void;
   onNewAiChat: () => void;
   onRunOcr: () => void;
+  onCheckLinks: () => void;
+  onFindTasks: () => void;
+  /** When omitted (the browse root isn't in a git repository), the "Git Commit..." item is hidden. */
+  onGitCommit?: () => void;
 }
 
 /**
  * Popup menu for the Tools toolbar button. Exposes advanced folder operations:
- * AI chat (when AI is enabled), folder analysis, folder graph, export, and OCR.
+ * AI chat (when AI is enabled), folder analysis, folder graph, export, OCR, the
+ * broken-link check, the task list, and (in a git repository) the Commit dialog.
  */
 export default function ToolsPopupMenu({
   anchorRef,
@@ -26,6 +31,9 @@ export default function ToolsPopupMenu({
   onExport,
   onNewAiChat,
   onRunOcr,
+  onCheckLinks,
+  onFindTasks,
+  onGitCommit,
 }: ToolsPopupMenuProps) {
   return (
     <PopupMenu anchorRef={anchorRef} onClose={onClose}>
@@ -56,6 +64,23 @@ export default function ToolsPopupMenu({
         data-testid="menu-run-ocr"
         onClick={() => { onRunOcr(); onClose(); }}
       />
+      <PopupMenuItem
+        label="Check Links"
+        data-testid="menu-check-links"
+        onClick={() => { onCheckLinks(); onClose(); }}
+      />
+      <PopupMenuItem
+        label="Find Tasks"
+        data-testid="menu-find-tasks"
+        onClick={() => { onFindTasks(); onClose(); }}
+      />
+      {onGitCommit && (
+        <PopupMenuItem
+          label="Git Commit..."
+          data-testid="menu-git-commit"
+          onClick={() => { onGitCommit(); onClose(); }}
+        />
+      )}
     </PopupMenu>
   );
 }
@@ -84,6 +84,9 @@ function AISettingsView() {
   const [usageData, setUsageData] = useState<AIUsageWithCosts | null>(null);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
 
+  // Folders the user chose to "always allow" when approving agentic changes (this session only)
+  const [alwaysAllowedFolders, setAlwaysAllowedFolders] = useState<string[]>([]);
+
   // Model table expand/collapse
   const [modelTableExpanded, setModelTableExpanded] = useState(false);
 
@@ -98,7 +101,10 @@ function AISettingsView() {
     void api.getAiUsage().then((data) => {
       if (!ignore) setUsageData(data);
     });
-    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the ignore flag so the pending getAiUsage() promise can't set state after unmount/re-run.
+    void api.listAiAlwaysAllowedFolders().then((folders) => {
+      if (!ignore) setAlwaysAllowedFolders(folders);
+    });
+    // Returns the useEffect cleanup (an unsubscribe-style teardown): sets the ignore flag so the pending getAiUsage()/listAiAlwaysAllowedFolders() promises can't set state after unmount/re-run.
     return () => { ignore = true; };
   }, [currentView]);
 
@@ -273,6 +279,18 @@ function AISettingsView() {
     })();
   };
 
+  // Fire-and-forget, same convention as handleResetUsage.
+  const handleForgetAlwaysAllowed = () => {
+    void (async () => {
+      try {
+        await api.clearAiAlwaysAllowedFolders();
+        setAlwaysAllowedFolders([]);
+      } catch (err) {
+        alert('Failed to forget always-allowed folders: ' + errorMessage(err));
+      }
+    })();
+  };
+
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-slate-900">
 
@@ -385,6 +403,24 @@ function AISettingsView() {
                         className="w-full bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-y font-mono text-sm"
                         data-testid="ai-agentic-allowed-folders-textarea"
                       />
+                      {alwaysAllowedFolders.length > 0 && (
+                        <div className="mt-2 text-sm text-slate-400" data-testid="ai-always-allowed-folders">
+                          <div className="flex items-center justify-between">
+                            <span>Changes approved without asking this session:</span>
+                            <button
+                              type="button"
+                              onClick={handleForgetAlwaysAllowed}
+                              className={BUTTON_CLASS_LINK_RED}
+                              data-testid="ai-always-allowed-forget-button"
+                            >
+                              Forget
+                            </button>
+                          </div>
+                          <ul className="font-mono text-xs">
+                            {alwaysAllowedFolders.map((folder) => <li key={folder} className="break-all">{folder}</li>)}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -0,0 +1,125 @@
+import { LinkSlashIcon } from '@heroicons/react/24/outline';
+import {
+  useAS,
+  navigateToBrowserPath,
+  setHighlightItem,
+  setPendingEditFile,
+} from '../../store';
+import type { BrokenLink, BrokenLinkReason } from '../../shared/shared';
+import { getParentPath, isPathInside } from '../../renderer/pathUtil';
+import { BUTTON_CLASS_ROW } from '../../renderer/styles';
+
+const REASON_LABELS: Record<BrokenLinkReason, string> = {
+  'missing-file': 'File not found',
+  'missing-image': 'Image not found',
+  'missing-heading': 'Heading not found',
+  'missing-block': 'Block not found',
+};
+
+/** Groups the (already sorted) broken links by the file they sit in. */
+function groupBySource(brokenLinks: BrokenLink[]): Array<{ sourcePath: string; links: BrokenLink[] }> {
+  const groups: Array<{ sourcePath: string; links: BrokenLink[] }> = [];
+  for (const link of brokenLinks) {
+    const last = groups[groups.length - 1];
+    if (last?.sourcePath === link.sourcePath) last.links.push(link);
+    else groups.push({ sourcePath: link.sourcePath, links: [link] });
+  }
+  return groups;
+}
+
+/**
+ * Displays the results of a broken-link check (Tools > Check Links): every link
+ * under the checked folder whose file, image, heading or block doesn't exist, grouped
+ * by file, with "did you mean" suggestions for targets that look moved or
+ * renamed. Clicking a row opens that file in the editor at the link's line.
+ */
+function BrokenLinksView() {
+  const report = useAS(s => s.brokenLinkReport);
+
+  if (!report) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-slate-900">
+        <p className="text-slate-400">No link check results available. Run a check from Tools &gt; Check Links.</p>
+      </div>
+    );
+  }
+
+  const { brokenLinks, folderPath, totalFiles, totalLinks } = report;
+  const displayPath = (p: string) =>
+    isPathInside(folderPath, p) ? p.slice(folderPath.length).replace(/^[/\\]+/, '') : p;
+
+  const openAtLine = (link: BrokenLink) => {
+    setHighlightItem(link.sourcePath);
+    navigateToBrowserPath(getParentPath(link.sourcePath), link.sourcePath);
+    setPendingEditFile(link.sourcePath, 'browser', link.line);
+  };
+
+  return (
+    <main className="flex-1 min-h-0 overflow-y-auto pb-4">
+      <div className="max-w-4xl mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="mb-6">
+          <p className="text-sm text-slate-400">
+            Checked <span className="text-slate-300 font-medium">{totalLinks}</span> link{totalLinks !== 1 ? 's' : ''} in{' '}
+            <span className="text-slate-300 font-medium">{totalFiles}</span> file{totalFiles !== 1 ? 's' : ''} under{' '}
+            <span className="text-slate-300 font-mono text-xs">{folderPath}</span>
+          </p>
+          <p className="text-xs text-slate-500 mt-1">Click a link to edit the file at that line.</p>
+        </div>
+
+        <h2 className="text-lg font-medium text-slate-200 mb-3 flex items-center gap-2">
+          <LinkSlashIcon className="w-5 h-5 text-red-400" />
+          Broken Links
+          <span className="text-sm text-slate-400 font-normal">({brokenLinks.length})</span>
+        </h2>
+
+        {brokenLinks.length === 0 ? (
+          <p className="text-slate-400 py-4" data-testid="broken-links-none">No broken links found.</p>
+        ) : (
+          <div className="space-y-4" data-testid="broken-links-list">
+            {groupBySource(brokenLinks).map(group => (
+              <div key={group.sourcePath}>
+                <div className="text-blue-400 text-sm font-mono break-all mb-1">{displayPath(group.sourcePath)}</div>
+                <div className="space-y-1">
+                  {group.links.map(link => (
+                    <button
+                      key={`${link.line}:${link.link}`}
+                      type="button"
+                      onClick={() => openAtLine(link)}
+                      className={`${BUTTON_CLASS_ROW} gap-4`}
+                      title={`Edit ${displayPath(link.sourcePath)} at line ${link.line}`}
+                      data-testid="broken-link-row"
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block text-sm">
+                          <span className="text-slate-500 tabular-nums">line {link.line}:</span>{' '}
+                          <span className="text-red-300 font-mono break-all">{link.link || '#'}</span>
+                        </span>
+                        <span className="block text-xs text-slate-500 truncate">{link.context}</span>
+                        {link.suggestions.length > 0 && (
+                          <span className="block text-xs text-slate-400 break-all">
+                            Did you mean{' '}
+                            {link.suggestions.map((s, i) => (
+                              <span key={s}>
+                                {i > 0 && ', '}
+                                <span className="text-green-400 font-mono">{s}</span>
+                              </span>
+                            ))}
+                            ?
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-xs text-slate-400 whitespace-nowrap">{REASON_LABELS[link.reason]}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default BrokenLinksView;
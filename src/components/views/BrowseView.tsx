@@ -23,7 +23,10 @@ import ConfirmDialog from '../dialogs/ConfirmDialog';
 import SearchDialog, { type SearchOptions, type SearchDialogInitialValues } from '../dialogs/SearchDialog';
 import ReplaceDialog from '../dialogs/ReplaceDialog';
 import ExportDialog from '../dialogs/ExportDialog';
+import GitCommitDialog from '../dialogs/GitCommitDialog';
+import UndoOperationsDialog from '../dialogs/UndoOperationsDialog';
 import type { ExportOptions } from '../dialogs/ExportDialog';
+import type { GitChange, JournalOperation, ReplaceOptions, ReplacePreview, ReplaceSelection } from '../../shared/shared';
 import AlertDialog from '../dialogs/AlertDialog';
 import PathBreadcrumb from '../PathBreadcrumb';
 import {
@@ -49,6 +52,8 @@ import {
   setBrowserScrollPosition,
   getBrowserScrollPosition,
   setFolderAnalysis,
+  setBrokenLinkReport,
+  setTaskReport,
   setFolderGraph,
   setHasIndexFile,
   clearPendingScrollToHeadingSlug,
@@ -69,6 +74,9 @@ import { saveSearchDefinitionToConfig, deleteSearchDefinitionFromConfig, execute
 import { buildReplaceResultMessage } from '../../shared/searchHelpers';
 import { pasteIntoFolder, ensureAttachFolder, deleteSelected, splitSelectedFile, joinSelectedFiles, createFileOp, createFolderOp, pasteFromClipboardOp, runOcr } from '../../renderer/fileOpsUtil';
 import { getFileName, getParentPath, isSamePath } from '../../renderer/pathUtil';
+import { undoLastMove } from '../../renderer/linkRewrite';
+import { undoOperations } from '../../renderer/opJournal';
+import { refreshGitStatus } from '../../renderer/gitStatus';
 import { toCalendarEvents } from '../../shared/calendarUtil';
 import { ATTACH_SUFFIX } from '../../shared/specialFiles';
 
@@ -211,6 +219,9 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
   const [replaceResultMessage, setReplaceResultMessage] = useState<string | null>(null);
   const [searchDialogInitialValues, setSearchDialogInitialValues] = useState<SearchDialogInitialValues | undefined>(undefined);
   const [showExportDialog, setShowExportDialog] = useState<boolean>(false);
+  const [showGitCommitDialog, setShowGitCommitDialog] = useState<boolean>(false);
+  // The undo journal while the Undo Operations dialog is open.
+  const [journalOperations, setJournalOperations] = useState<JournalOperation[] | null>(null);
   const [showToolsMenu, setShowToolsMenu] = useState<boolean>(false);
   const [showEditMenu, setShowEditMenu] = useState<boolean>(false);
   const [showSearchMenu, setShowSearchMenu] = useState<boolean>(false);
@@ -221,6 +232,8 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
   const [showCutOrphanAttachConfirm, setShowCutOrphanAttachConfirm] = useState<boolean>(false);
 
   const hasIndexFile = useAS(s => s.hasIndexFile);
+  const undoableMove = useAS(s => s.undoableMove);
+  const gitStatus = useAS(s => s.gitStatus);
 
   const items = useAS(s => s.items);
   const currentView = useAS(s => s.currentView);
@@ -401,9 +414,10 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
       if (pendingEditFile && pendingEditView === 'browser') {
         const editFile = pendingEditFile;
         if (useAS.getState().items.has(editFile)) {
+          const editLine = useAS.getState().pendingEditLine ?? undefined;
           editTimer = setTimeout(() => {
             setItemExpanded(editFile, true);
-            setItemEditing(editFile, true);
+            setItemEditing(editFile, true, editLine);
             clearPendingEditFile();
           }, 100);
         } else if (!isSamePath(getParentPath(editFile), currentPath)) {
@@ -703,13 +717,18 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
     setSearchDialogInitialValues(undefined);
   };
 
-  const handleReplace = (searchText: string, replaceText: string) => {
+  const handlePreviewReplace = (options: ReplaceOptions): Promise<ReplacePreview> => {
+    if (!currentPath) return Promise.resolve({ files: [], totalMatches: 0, truncated: false });
+    return api.previewReplace(currentPath, options);
+  };
+
+  const handleReplace = (options: ReplaceOptions, selections: ReplaceSelection[]) => {
     if (!currentPath) return;
 
     setShowReplaceDialog(false);
 
     runOp(async () => {
-      const results = await api.searchAndReplace(currentPath, searchText, replaceText);
+      const results = await api.searchAndReplace(currentPath, options, selections);
       setReplaceResultMessage(buildReplaceResultMessage(results));
       const totalReplacements = results.filter((r) => r.success).reduce((sum, r) => sum + r.replacementCount, 0);
       if (totalReplacements > 0) {
@@ -722,6 +741,17 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
     setShowReplaceDialog(false);
   };
 
+  const handleOpenUndoOperations = () => {
+    runOp(async () => {
+      setJournalOperations(await api.listJournalOperations());
+    }, 'Failed to list operations: ', onSetError);
+  };
+
+  const handleUndoOperations = (count: number) => {
+    setJournalOperations(null);
+    runOp(() => undoOperations(count), 'Failed to undo operations: ', onSetError);
+  };
+
   const handleSaveSearchDefinition = (options: SearchOptions) => {
     if (!options.searchName) return;
     const definition: SearchDefinition = {
@@ -826,6 +856,35 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
     }, 'Failed to analyze folder: ', onSetError);
   };
 
+  const handleCheckLinks = () => {
+    if (!currentPath) return;
+    runOp(async () => {
+      const report = await api.findBrokenLinks(currentPath);
+      setBrokenLinkReport({ ...report, folderPath: currentPath });
+      setCurrentView('broken-links');
+    }, 'Failed to check links: ', onSetError);
+  };
+
+  const handleFindTasks = () => {
+    if (!currentPath) return;
+    runOp(async () => {
+      const report = await api.findTasks(currentPath);
+      setTaskReport({ ...report, folderPath: currentPath });
+      setCurrentView('tasks');
+    }, 'Failed to find tasks: ', onSetError);
+  };
+
+  const handleGitCommit = (message: string, changes: GitChange[]) => {
+    if (!gitStatus) return;
+    const folder = gitStatus.folder;
+    setShowGitCommitDialog(false);
+    runOp(async () => {
+      const result = await api.gitCommit(folder, message, changes);
+      await refreshGitStatus();
+      if (!result.success) throw new Error(result.error ?? 'unknown error');
+    }, 'Git commit failed: ', onSetError);
+  };
+
   const handleFolderGraph = () => {
     if (!currentPath) return;
     runOp(async () => {
@@ -940,6 +999,19 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
             </button>
           )}
 
+          {/* Undo Move button - shown after a rename/move that rewrote links */}
+          {undoableMove && (
+            <button
+              type="button"
+              onClick={() => runOp(undoLastMove, 'Failed to undo move: ', onSetError)}
+              className={BUTTON_CLASS_BAR_BLUE}
+              title={`Undo: ${undoableMove} (moves it back and restores the links it updated)`}
+              data-testid="undo-move-button"
+            >
+              Undo Move
+            </button>
+          )}
+
           {/* Create file/folder buttons — hidden in index-ordered mode (inline insert bars replace them) */}
           {!hasIndexFile && (
             <>
@@ -1186,11 +1258,20 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
 
       {showReplaceDialog && (
         <ReplaceDialog
+          onPreview={handlePreviewReplace}
           onReplace={handleReplace}
           onCancel={handleCancelReplace}
         />
       )}
 
+      {journalOperations && (
+        <UndoOperationsDialog
+          operations={journalOperations}
+          onUndo={handleUndoOperations}
+          onCancel={() => setJournalOperations(null)}
+        />
+      )}
+
       {showExportDialog && currentPath && (
         <ExportDialog
           defaultFolder={lastExportFolder}
@@ -1200,6 +1281,14 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
         />
       )}
 
+      {showGitCommitDialog && gitStatus && (
+        <GitCommitDialog
+          status={gitStatus}
+          onCommit={handleGitCommit}
+          onCancel={() => setShowGitCommitDialog(false)}
+        />
+      )}
+
       {showSortMenu && !hasIndexFile && (
         <SortPopupMenu
           anchorRef={sortButtonRef}
@@ -1229,6 +1318,7 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
           onSplit={handleSplitFile}
           onJoin={handleJoinFiles}
           onReplaceInFiles={() => setShowReplaceDialog(true)}
+          onUndoOperations={handleOpenUndoOperations}
           onCopyLink={handleCopyLink}
           unselectAllDisabled={selectedFileCount === 0 && !hasSelectedFolders}
           splitDisabled={selectedFileCount !== 1 || hasSelectedFolders}
@@ -1247,6 +1337,9 @@ function BrowseView({ entries, loading, aiEnabled, lastExportFolder, onSetLastEx
           onFolderGraph={handleFolderGraph}
           onExport={() => setShowExportDialog(true)}
           onRunOcr={handleRunOcr}
+          onCheckLinks={handleCheckLinks}
+          onFindTasks={handleFindTasks}
+          onGitCommit={gitStatus ? () => setShowGitCommitDialog(true) : undefined}
           onNewAiChat={newAiChat}
         />
       )}
@@ -1,16 +1,25 @@
 import { useState } from 'react';
 import { Calendar, dateFnsLocalizer, Views } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
+import type { EventInteractionArgs } from 'react-big-calendar/lib/addons/dragAndDrop';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
 import type { View } from 'react-big-calendar';
 import { format, parse, startOfWeek, getDay } from 'date-fns';
 import { enUS } from 'date-fns/locale/en-US';
 import { api } from '../../renderer/api';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
-import { setCalendarViewType, setCalendarViewTime, setCalendarWatcherWarning, setHighlightItem, navigateToBrowserPath, setPendingEditFile, requestDirectoryRefresh, setCurrentView, useAS } from '../../store';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
+import { setCalendarViewType, setCalendarViewTime, setCalendarDisplayZone, setCalendarWatcherWarning, setHighlightItem, navigateToBrowserPath, setPendingEditFile, requestDirectoryRefresh, setCurrentView, useAS } from '../../store';
 import type { CalendarEvent, CalendarSource, CalendarViewType } from '../../shared/types';
 import { logger } from '../../shared/logUtil';
+import { rescheduleCalendarItem, rescheduleOccurrence, shiftCalendarSeries } from '../../shared/calendarUtil';
+import { fromZonedDate, isValidTimeZone, listTimeZones, localTimeZone, toZonedDate } from '../../shared/timeZoneUtil';
 import { getFileName, getParentPath, joinPath } from '../../renderer/pathUtil';
 import NewCalendarFileDialog from '../dialogs/NewCalendarFileDialog';
-import { BUTTON_CLASS_LINK_AMBER } from '../../renderer/styles';
+import AlertDialog from '../dialogs/AlertDialog';
+import RecurringChangeDialog from '../dialogs/RecurringChangeDialog';
+import type { RecurringChangeScope } from '../dialogs/RecurringChangeDialog';
+import { BUTTON_CLASS_LINK_AMBER, BUTTON_CLASS_SM_NEUTRAL } from '../../renderer/styles';
 
 /** Formats a Date as MM/DD/YYYY for use in the `due:` front-matter field. */
 function formatDueDate(d: Date): string {
@@ -34,6 +43,25 @@ const localizer = dateFnsLocalizer({
   locales: { 'en-US': enUS },
 });
 
+const DnDCalendar = withDragAndDrop<CalendarEvent>(Calendar);
+
+/** All-day items come from the loader with `end` equal to `start` (see CalendarEventResult). */
+function isAllDayEvent(event: CalendarEvent): boolean {
+  return event.start.getTime() === event.end.getTime();
+}
+
+/** The zones the display-zone menu offers, listed once. */
+const TIME_ZONES = listTimeZones();
+
+/**
+ * `event` as drawn in `zone`: a timed event's start and end read that zone's
+ * clocks (see toZonedDate). All-day events are days, not instants, and stay put.
+ */
+function toDisplayZone(event: CalendarEvent, zone: string | null): CalendarEvent {
+  if (!zone || isAllDayEvent(event)) return event;
+  return { ...event, start: toZonedDate(event.start.getTime(), zone), end: toZonedDate(event.end.getTime(), zone) };
+}
+
 const viewTypeToRbc: Record<string, View> = {
   month: Views.MONTH,
   week: Views.WEEK,
@@ -47,6 +75,20 @@ interface PendingSlot {
   defaultFileName: string;
 }
 
+/** An event dragged or resized to a new slot, waiting to be written to its file. */
+interface PendingMove {
+  event: CalendarEvent;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+/** The suggested `.ics` name for exporting `source`: the folder's name, or the search's. */
+function exportFileName(source: CalendarSource | null): string {
+  const name = !source ? '' : source.kind === 'folder' ? getFileName(source.folder) : source.name || 'search';
+  return `${name.replace(/[\\/:*?"<>|]/g, '-').trim() || 'calendar'}.ics`;
+}
+
 /**
  * The clickable banner above the calendar describing where its events came
  * from. A folder-sourced calendar names the scanned folder and navigates to it;
@@ -96,12 +138,28 @@ function CalendarSourceHeader({ source, eventCount }: { source: CalendarSource;
  * dialog to create a new Markdown file pre-filled with `due:`, `start:`, and
  * `duration:` fields derived from the selection. Clicking an event navigates the
  * browser to the corresponding file. The selected view type and current date are
- * persisted to config so they survive app restarts.
+ * persisted to config so they survive app restarts. Export writes the calendar's
+ * items (folder or search alike) to an iCalendar file; Import turns the events of
+ * one into calendar files in the calendar items folder (see main/calendarIcs.ts).
+ *
+ * Events can be dragged to another slot and resized by their edges; the new
+ * time is written into the file's `due`/`start`/`duration`, and the calendar
+ * watcher then redraws the event from the file. Moving an occurrence of a
+ * recurring item asks whether to move the whole series, or only that one,
+ * which is written as an override of that occurrence (see rescheduleOccurrence).
+ *
+ * Timed events are shown on the clocks of the display zone chosen above the
+ * calendar (the system's by default). A drop is converted back from that zone
+ * to the clock of the item's own `tz:` (or local time) before it is written,
+ * and a slot picked in another zone creates an item with that zone as its `tz:`.
  */
 export default function CalendarView() {
   const events = useAS(s => s.calendarEvents);
   const loading = useAS(s => s.calendarLoading);
   const calendarViewType = useAS(s => s.calendarViewType);
+  const displayZoneSetting = useAS(s => s.calendarDisplayZone);
+  const displayZone = displayZoneSetting && isValidTimeZone(displayZoneSetting) ? displayZoneSetting : null;
+  const systemZone = localTimeZone();
   const view = viewTypeToRbc[calendarViewType] ?? Views.MONTH;
   const date = useAS(s => s.calendarViewTime);
   const settings = useAS(s => s.settings);
@@ -109,6 +167,8 @@ export default function CalendarView() {
   const watcherWarning = useAS(s => s.calendarWatcherWarning);
   const highlightItem = useAS(s => s.highlightItem);
   const [pendingSlot, setPendingSlot] = useState<PendingSlot | null>(null);
+  const [notice, setNotice] = useState<{ title: string; message: string } | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
 
   const handleViewChange = (v: View) => {
     const vt = v as CalendarViewType;
@@ -116,6 +176,11 @@ export default function CalendarView() {
     void api.updateConfig({ calendarViewType: vt });
   };
 
+  const handleDisplayZoneChange = (zone: string) => {
+    setCalendarDisplayZone(zone);
+    void api.updateConfig({ calendarDisplayZone: zone });
+  };
+
   /**
    * Handles a drag-select or click on an empty calendar slot. Builds the initial
    * front-matter block (`due:`, and optionally `start:` + `duration:` for timed
@@ -133,6 +198,8 @@ export default function CalendarView() {
       const durationStr = Number.isInteger(durationHours) ? String(durationHours) : String(durationHours);
       lines.push(`start: ${formatStartTime(start)}`);
       lines.push(`duration: ${durationStr}`);
+      // The slot was picked on the display zone's clocks, so the item keeps that zone.
+      if (displayZone && displayZone !== systemZone) lines.push(`tz: ${displayZone}`);
     }
     lines.push('---', '');
     const content = lines.join('\n');
@@ -178,6 +245,94 @@ export default function CalendarView() {
     })();
   };
 
+  /** Exports every file behind the shown events; recurring items go out once, with their rule. */
+  const handleExport = () => {
+    const filePaths = [...new Set((events ?? []).flatMap(e => (e.filePath ? [e.filePath] : [])))];
+    void (async () => {
+      try {
+        const result = await api.exportCalendarIcs(filePaths, exportFileName(calendarSource));
+        if (!result) return;
+        setNotice(result.success
+          ? { title: 'Calendar Exported', message: `Exported ${result.eventCount} calendar ${result.eventCount === 1 ? 'item' : 'items'} to ${result.outputPath}.` }
+          : { title: 'Export Failed', message: result.error ?? 'The calendar could not be exported.' });
+      } catch (err) {
+        logger.error('Failed to export calendar:', err);
+      }
+    })();
+  };
+
+  const handleImport = () => {
+    const folder = settings.calendarItemsFolder;
+    if (!folder) {
+      setNotice({ title: 'Import Calendar', message: 'Set the calendar items folder in Settings first: imported events are created there.' });
+      return;
+    }
+    void (async () => {
+      try {
+        const result = await api.importCalendarIcs(folder);
+        if (!result) return;
+        if (!result.success) {
+          setNotice({ title: 'Import Failed', message: result.error ?? 'The calendar could not be imported.' });
+          return;
+        }
+        const lines = [`Created ${result.created.length} calendar ${result.created.length === 1 ? 'file' : 'files'} in ${folder}.`];
+        if (result.skipped > 0) {
+          lines.push(`Skipped ${result.skipped} ${result.skipped === 1 ? 'event' : 'events'} without a start date or changing a single occurrence.`);
+        }
+        if (result.warnings.length > 0) lines.push('', 'Not imported:', ...result.warnings);
+        setNotice({ title: 'Calendar Imported', message: lines.join('\n') });
+        requestDirectoryRefresh();
+      } catch (err) {
+        logger.error('Failed to import calendar:', err);
+      }
+    })();
+  };
+
+  /**
+   * Handles a drop or an edge resize. react-big-calendar reports `isAllDay` only
+   * for drops into the week/day all-day row; elsewhere the time grid means a
+   * timed slot, and the month grid keeps the event's own kind (and its time of day).
+   * A timed slot is read on the display zone's clocks and moved to the item's.
+   */
+  const handleEventChange = ({ event, start, end, isAllDay }: EventInteractionArgs<CalendarEvent>) => {
+    if (!event.filePath) return;
+    const allDay = isAllDay ?? (view === Views.MONTH ? isAllDayEvent(event) : false);
+    const [newStart, newEnd] = [new Date(start), new Date(end)];
+    if (newStart.getTime() === event.start.getTime() && newEnd.getTime() === event.end.getTime() && allDay === isAllDayEvent(event)) return;
+    const toItemClock = (d: Date) => (allDay ? d : toZonedDate(fromZonedDate(d, displayZone), event.timeZone ?? null));
+    const move = { event, start: toItemClock(newStart), end: toItemClock(newEnd), allDay };
+    if (event.recurring) {
+      setPendingMove(move);
+      return;
+    }
+    void applyMove(move, 'series');
+  };
+
+  /**
+   * Writes a move into the event's file: its own schedule for a one-off item or
+   * the whole of a series, or an entry of `rrule.overrides` for one occurrence.
+   */
+  const applyMove = async ({ event, start, end, allDay }: PendingMove, scope: RecurringChangeScope) => {
+    const filePath = event.filePath;
+    if (!filePath) return;
+    try {
+      const read = await api.readFile(filePath);
+      if (!read.ok) {
+        setNotice({ title: 'Reschedule Failed', message: `Could not read ${filePath}.` });
+        return;
+      }
+      const occurrence = new Date(event.occurrence ?? event.start);
+      const content = !event.recurring
+        ? rescheduleCalendarItem(read.content, start, end, allDay)
+        : scope === 'series'
+          ? shiftCalendarSeries(read.content, occurrence, start, end, allDay)
+          : rescheduleOccurrence(read.content, occurrence, start, end, allDay);
+      await api.writeFile(filePath, content);
+    } catch (err) {
+      logger.error('Failed to reschedule calendar item:', err);
+    }
+  };
+
   const handleSelectEvent = (event: CalendarEvent) => {
     if (!event.filePath) return;
     const folderPath = getParentPath(event.filePath);
@@ -219,6 +374,44 @@ export default function CalendarView() {
           None of the search results are calendar items — a file needs a <code className="text-slate-300">due:</code> property in its front matter to appear here.
         </div>
       )}
+      {!loading && events && (
+        <div className="flex items-center justify-end gap-2 px-4 pt-3">
+          <label className="mr-auto flex items-center gap-2 text-sm text-slate-400">
+            Time zone
+            <select
+              value={displayZone ?? ''}
+              onChange={(e) => handleDisplayZoneChange(e.target.value)}
+              className="bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-2 py-1 text-sm cursor-pointer max-w-xs"
+              title="Show timed events on the clocks of this zone"
+              data-testid="calendar-display-zone"
+            >
+              <option value="">System ({systemZone})</option>
+              {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={events.length === 0}
+            className={`${BUTTON_CLASS_SM_NEUTRAL} flex items-center gap-1.5`}
+            title="Save this calendar's items as an iCalendar (.ics) file"
+            data-testid="calendar-export-ics-button"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            Export .ics
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            className={`${BUTTON_CLASS_SM_NEUTRAL} flex items-center gap-1.5`}
+            title="Create calendar items from the events in an iCalendar (.ics) file"
+            data-testid="calendar-import-ics-button"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Import .ics
+          </button>
+        </div>
+      )}
       {!loading && events && (
         <div className="flex-1 min-h-0 p-4" style={{ '--rbc-bg': '#1e293b' } as React.CSSProperties}>
           <style>{`
@@ -268,9 +461,10 @@ export default function CalendarView() {
             .rbc-agenda-date-cell, .rbc-agenda-time-cell { color: #94a3b8; }
             .rbc-show-more { color: #60a5fa; background: transparent; }
           `}</style>
-          <Calendar
+          <DnDCalendar
             localizer={localizer}
-            events={events}
+            events={events.map(e => toDisplayZone(e, displayZone))}
+            getNow={() => toZonedDate(Date.now(), displayZone)}
             views={[Views.MONTH, Views.WEEK, Views.WORK_WEEK, Views.DAY, Views.AGENDA]}
             view={view}
             date={date}
@@ -284,12 +478,19 @@ export default function CalendarView() {
             }
             selectable
             onSelectSlot={handleSelectSlot}
+            onEventDrop={handleEventChange}
+            onEventResize={handleEventChange}
+            draggableAccessor={(event: CalendarEvent) => !!event.filePath}
+            // An all-day item has no length to stretch: `due` is its only day.
+            resizableAccessor={(event: CalendarEvent) => !!event.filePath && !isAllDayEvent(event)}
             tooltipAccessor={(event: CalendarEvent) => {
               const pad = '  •  ';
               const divider = '________________________________';
+              // Say so when the item keeps a different clock from the one it is drawn on.
+              const zone = event.timeZone && event.timeZone !== (displayZone ?? systemZone) ? ` (${event.timeZone})` : '';
               return event.snippet
-                ? `${pad}${event.title}\n${divider}\n${event.snippet}`
-                : `${pad}${event.title}`;
+                ? `${pad}${event.title}${zone}\n${divider}\n${event.snippet}`
+                : `${pad}${event.title}${zone}`;
             }}
             style={{ height: '100%' }}
             popup
@@ -304,6 +505,27 @@ export default function CalendarView() {
         onCancel={() => setPendingSlot(null)}
       />
     )}
+    {pendingMove && (
+      <RecurringChangeDialog
+        title={pendingMove.event.title}
+        occurrenceLabel={formatDueDate(new Date(pendingMove.event.occurrence ?? pendingMove.event.start))}
+        onChoose={(scope) => {
+          const move = pendingMove;
+          setPendingMove(null);
+          void applyMove(move, scope);
+        }}
+        onCancel={() => setPendingMove(null)}
+      />
+    )}
+    {notice && (
+      <AlertDialog
+        preserveWhitespace
+        scrollable
+        title={notice.title}
+        message={notice.message}
+        onClose={() => setNotice(null)}
+      />
+    )}
     </>
   );
 }
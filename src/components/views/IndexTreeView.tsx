@@ -12,6 +12,7 @@ import CreateFileDialog from '../dialogs/CreateFileDialog';
 import CreateFolderDialog from '../dialogs/CreateFolderDialog';
 import RenameDialog from '../dialogs/RenameDialog';
 import ConfirmDialog from '../dialogs/ConfirmDialog';
+import GitStatusBadge from '../GitStatusBadge';
 import {
   useAS,
   hasAnyCutItems,
@@ -36,6 +37,7 @@ import {
 } from '../../store';
 import type { TreeNode, FileNode, MarkdownFileNode, MarkdownHeadingNode } from '../../store';
 import { pasteCutItems } from '../../renderer/edit';
+import { createLinkRewriteSession } from '../../renderer/linkRewrite';
 import {
   ENTRY_DND_MIME,
   parseDragPayload,
@@ -412,12 +414,17 @@ function IndexTreeView({ onRefreshDirectory }: { onRefreshDirectory?: () => void
     if (cutItems.length === 0) return;
 
     runAndLogFailure('Failed to paste items into folder:', async () => {
+      const links = createLinkRewriteSession(
+        cutItems.length === 1 ? `Move ${cutItems[0]!.name}` : `Move ${cutItems.length} items`
+      );
       const result = await pasteCutItems(
         cutItems,
         node.path,
         api.pathExists,
-        api.renameFile
+        api.renameFile,
+        links.confirmMoves
       );
+      await links.finish(result.movedPaths);
 
       // The move is not atomic: reconcile the store/index with whatever
       // actually moved on disk (movedPaths), even on partial failure, so the
@@ -541,8 +548,11 @@ function IndexTreeView({ onRefreshDirectory }: { onRefreshDirectory?: () => void
     runAndLogFailure('Failed to rename item:', async () => {
       const parentPath = getParentPath(target.path);
       const newPath = joinPath(parentPath, newName);
+      const links = createLinkRewriteSession(`Rename ${target.name} to ${newName}`);
+      if (!await links.confirmMoves([{ oldPath: target.path, newPath }])) return;
       const success = await api.renameFile(target.path, newPath);
       if (!success) return;
+      await links.finish([target.path]);
 
       // Re-key the cached item (and descendants) and remap the other slices
       // holding paths (bookmarks, calendar events, copied links); persist the
@@ -979,6 +989,7 @@ function IndexTreeView({ onRefreshDirectory }: { onRefreshDirectory?: () => void
                 }
               </span>
               <span>{node.name}</span>
+              <GitStatusBadge path={node.path} />
             </div>
           );
         })}
@@ -16,7 +16,10 @@ import {
   setCalendarEvents,
   setCalendarLoading,
   useAS,
+  type SearchSortBy,
+  type SearchSortDirection,
 } from '../../store';
+import type { SearchSnippet } from '../../shared/shared';
 import { getFileName, getParentPath } from '../../renderer/pathUtil';
 import { executeSearch } from '../../renderer/searchUtil';
 import { buildFolderGraphFromSearchResults } from '../../shared/searchTreeBuilder';
@@ -24,6 +27,36 @@ import { toCalendarEvents } from '../../shared/calendarUtil';
 import { BUTTON_CLASS_BLUE, BUTTON_CLASS_ICON_NEUTRAL, BUTTON_CLASS_RED, BUTTON_CLASS_SM_NEUTRAL, getContentWidthClasses } from '../../renderer/styles';
 import ConfirmDialog from '../dialogs/ConfirmDialog';
 
+/** Human-readable form of the active sort, e.g. "modification time (newest first)". */
+function describeSort(sortBy: SearchSortBy, direction: SearchSortDirection): string {
+  switch (sortBy) {
+    case 'file-name':
+      return `file name (${direction === 'asc' ? 'A–Z' : 'Z–A'})`;
+    case 'relevance':
+      return `relevance (${direction === 'asc' ? 'best last' : 'best first'})`;
+    case 'created-time':
+    case 'modified-time':
+      return `${sortBy === 'created-time' ? 'creation time' : 'modification time'} (${direction === 'asc' ? 'oldest first' : 'newest first'})`;
+  }
+}
+
+/** A snippet's text with each highlighted range wrapped in a <mark>. */
+function renderSnippetText(snippet: SearchSnippet): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const [start, end] of snippet.highlights) {
+    if (start > pos) parts.push(<span key={`t${pos}`}>{snippet.text.slice(pos, start)}</span>);
+    parts.push(
+      <mark key={`m${start}`} className="bg-yellow-300 text-black rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    pos = end;
+  }
+  if (pos < snippet.text.length) parts.push(<span key={`t${pos}`}>{snippet.text.slice(pos)}</span>);
+  return parts;
+}
+
 interface SearchResultsViewProps {
   onNavigateToResult: (folderPath: string, resultPath: string) => void;
 }
@@ -36,8 +69,9 @@ interface SearchResultsViewProps {
  * "Graph" button, and — for the subset of results that are calendar files —
  * on the Calendar tab via the "Calendar" button. The refresh button re-runs the
  * search that produced the list, discarding the current results entirely. The active sort order (file
- * name, created time, or modified time) and direction are read from the store and
- * applied client-side on each render.
+ * name, created time, modified time, or relevance) and direction are read from the store and
+ * applied client-side on each render. Content matches show their best-matching
+ * lines beneath the path, with the hits highlighted.
  */
 function SearchResultsView({ onNavigateToResult }: SearchResultsViewProps) {
   const searchResults = useAS(s => s.searchResults);
@@ -55,6 +89,15 @@ function SearchResultsView({ onNavigateToResult }: SearchResultsViewProps) {
 
   // Sort results based on the selected sort option and direction
   const sortedResults = [...searchResults].sort((a, b) => {
+    if (searchSortBy === 'relevance') {
+      // Name matches were never read, so they carry no score; they lead for the
+      // same reason they lead the main-process ordering (a filename hit is the
+      // strongest signal). Unscored content matches fall back to match count.
+      const cmp = (a.nameMatch ? 1 : 0) - (b.nameMatch ? 1 : 0)
+        || (a.score ?? -1) - (b.score ?? -1)
+        || a.matchCount - b.matchCount;
+      return searchSortDirection === 'asc' ? cmp : -cmp;
+    }
     if (searchSortBy === 'file-name') {
       const nameA = getFileName(a.relativePath) || a.relativePath;
       const nameB = getFileName(b.relativePath) || b.relativePath;
@@ -286,7 +329,7 @@ function SearchResultsView({ onNavigateToResult }: SearchResultsViewProps) {
             <div className="text-sm text-slate-300 mb-4">
               {searchResults.length} file{searchResults.length !== 1 ? 's' : ''} found
               <span className="ml-2 text-slate-300">
-                • Sorted by {searchSortBy === 'file-name' ? 'file name' : searchSortBy === 'created-time' ? 'creation time' : 'modification time'} ({searchSortBy === 'file-name' ? (searchSortDirection === 'asc' ? 'A–Z' : 'Z–A') : (searchSortDirection === 'asc' ? 'oldest first' : 'newest first')})
+                • Sorted by {describeSort(searchSortBy, searchSortDirection)}
               </span>
             </div>
 
@@ -344,6 +387,18 @@ function SearchResultsView({ onNavigateToResult }: SearchResultsViewProps) {
                     <TrashIcon className="w-5 h-5" />
                   </button>
                 </div>
+
+                {/* Best-matching lines, with the hits highlighted */}
+                {result.snippets && result.snippets.length > 0 && (
+                  <div className="mt-1 ml-7 space-y-0.5" data-testid="search-result-snippets">
+                    {result.snippets.map((snippet) => (
+                      <div key={snippet.line} className="text-sm text-slate-400 truncate" title={`Line ${snippet.line}`}>
+                        <span className="text-slate-500 mr-2">{snippet.line}:</span>
+                        {renderSnippetText(snippet)}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
               );
             })}
@@ -2,7 +2,8 @@ import { useState } from 'react';
 import TagsEditorDialog from '../dialogs/TagsEditorDialog';
 import CheckboxField from '../dialogs/common/CheckboxField';
 import { BUTTON_CLASS_DLG_OUTLINED, SETTINGS_CHECKBOX_CLASS } from '../../renderer/styles';
-import type { ImageSize } from '../../shared/shared';
+import type { EditorKeymap, ImageSize } from '../../shared/shared';
+import { parseReminderLead } from '../../shared/calendarUtil';
 import {
   setFontSize,
   setFoldersOnTop,
@@ -11,8 +12,13 @@ import {
   setContentWidth,
   setOcrToolsFolder,
   setCalendarItemsFolder,
+  setDefaultReminder,
+  setFileHistory,
+  setFileHistoryMaxVersions,
+  setFileHistoryMaxDays,
   setIndexTreeWidth,
   setImageSize,
+  setEditorKeymap,
   useAS,
   type FontSize,
   type ContentWidth,
@@ -65,6 +71,17 @@ const imageSizeOptions: ImageSizeOption[] = [
   { value: 'large', label: 'Large' },
 ];
 
+interface EditorKeymapOption {
+  value: EditorKeymap;
+  label: string;
+}
+
+const editorKeymapOptions: EditorKeymapOption[] = [
+  { value: 'default', label: 'Standard' },
+  { value: 'vim', label: 'Vim' },
+  { value: 'emacs', label: 'Emacs' },
+];
+
 interface SettingsViewProps {
   onSaveSettings: () => void;
 }
@@ -72,7 +89,7 @@ interface SettingsViewProps {
 /**
  * General application settings page. Covers appearance (font size, content
  * width, folder tree width, image size, folders-on-top, table of contents),
- * files to ignore in searches, OCR tools folder path, calendar items folder
+ * editor key bindings, files to ignore in searches, OCR tools folder path, calendar items folder
  * path, and hashtag management. Each field writes to the store immediately and
  * triggers `onSaveSettings` to persist to disk.
  */
@@ -121,6 +138,11 @@ function SettingsView({ onSaveSettings }: SettingsViewProps) {
     onSaveSettings();
   };
 
+  const handleEditorKeymapChange = (editorKeymap: EditorKeymap) => {
+    setEditorKeymap(editorKeymap);
+    onSaveSettings();
+  };
+
   const handleOcrToolsFolderChange = (ocrToolsFolder: string) => {
     setOcrToolsFolder(ocrToolsFolder);
     // Trigger save to persist the setting
@@ -132,6 +154,31 @@ function SettingsView({ onSaveSettings }: SettingsViewProps) {
     onSaveSettings();
   };
 
+  const handleDefaultReminderChange = (defaultReminder: string) => {
+    setDefaultReminder(defaultReminder);
+    onSaveSettings();
+  };
+
+  const handleFileHistoryChange = (fileHistory: boolean) => {
+    setFileHistory(fileHistory);
+    onSaveSettings();
+  };
+
+  // An empty or partial number is held as 0 (no limit) rather than rejected mid-typing.
+  const handleFileHistoryMaxVersionsChange = (value: string) => {
+    setFileHistoryMaxVersions(Math.max(0, Math.floor(Number(value) || 0)));
+    onSaveSettings();
+  };
+
+  const handleFileHistoryMaxDaysChange = (value: string) => {
+    setFileHistoryMaxDays(Math.max(0, Math.floor(Number(value) || 0)));
+    onSaveSettings();
+  };
+
+  // Only a value the reminder scheduler can't read gets a hint; empty means no default.
+  const defaultReminderInvalid = settings.defaultReminder.trim() !== ''
+    && parseReminderLead(settings.defaultReminder) === undefined;
+
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-slate-900">
 
@@ -226,6 +273,30 @@ function SettingsView({ onSaveSettings }: SettingsViewProps) {
             </div>
           </section>
 
+          {/* Editor Setting */}
+          <section className="bg-slate-800 rounded-lg border border-slate-700 p-6">
+            <h2 className="text-lg font-semibold text-slate-100 mb-2">Editor</h2>
+            <p className="text-sm text-slate-400 mb-4">
+              Key bindings of the file editor. Ctrl+S, Ctrl+Q, Ctrl+T and Ctrl+D keep their usual meaning in every mode; in Vim mode, <code>:w</code> saves, <code>:wq</code> saves and closes, and <code>:q</code> abandons the edit.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <label className="text-slate-300 text-sm">Key Bindings:</label>
+              <select
+                data-testid="settings-editor-keymap"
+                value={settings.editorKeymap}
+                onChange={(e) => handleEditorKeymapChange(e.target.value as EditorKeymap)}
+                className="bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 cursor-pointer"
+              >
+                {editorKeymapOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </section>
+
           {/* Ignored Paths Setting */}
           <section className="bg-slate-800 rounded-lg border border-slate-700 p-6">
             <h2 className="text-lg font-semibold text-slate-100 mb-2">Files to Ignore</h2>
@@ -272,6 +343,66 @@ function SettingsView({ onSaveSettings }: SettingsViewProps) {
               placeholder="/path/to/calendar"
               className="w-full bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
             />
+
+            <p className="text-sm text-slate-400 mt-4 mb-2">
+              Default reminder: how long before an item a desktop notification is shown, such as 15m, 2h or 1d.
+              An item&rsquo;s own <code>remind:</code> property overrides it. Leave empty for no reminder.
+            </p>
+
+            <input
+              type="text"
+              value={settings.defaultReminder}
+              onChange={(e) => handleDefaultReminderChange(e.target.value)}
+              placeholder="15m"
+              className="w-40 bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              data-testid="settings-default-reminder-input"
+            />
+            {defaultReminderInvalid && (
+              <p className="text-sm text-amber-400 mt-2">Not a lead time; use a number with m, h, d or w.</p>
+            )}
+          </section>
+
+          {/* File History Setting */}
+          <section className="bg-slate-800 rounded-lg border border-slate-700 p-6">
+            <h2 className="text-lg font-semibold text-slate-100 mb-2">File History</h2>
+            <p className="text-sm text-slate-400 mb-4">
+              Keep the previous version of a file each time you save it, to compare and restore from its History panel.
+              Versions are stored compressed next to the app&rsquo;s settings, not in your folders.
+            </p>
+
+            <CheckboxField
+              label="Keep File History"
+              checked={settings.fileHistory}
+              onChange={handleFileHistoryChange}
+              inputClassName={SETTINGS_CHECKBOX_CLASS}
+              spanClassName="text-slate-200"
+            />
+
+            <div className="flex flex-wrap gap-6 mt-4">
+              <div className="flex items-center gap-2">
+                <label className="text-slate-300 text-sm">Versions per file:</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.fileHistoryMaxVersions}
+                  onChange={(e) => handleFileHistoryMaxVersionsChange(e.target.value)}
+                  className="w-24 bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  data-testid="settings-file-history-max-versions"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-slate-300 text-sm">Days to keep:</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.fileHistoryMaxDays}
+                  onChange={(e) => handleFileHistoryMaxDaysChange(e.target.value)}
+                  className="w-24 bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  data-testid="settings-file-history-max-days"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-slate-500 mt-2">0 means no limit.</p>
           </section>
 
           <button
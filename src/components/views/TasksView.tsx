@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { ArrowPathIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import {
+  useAS,
+  navigateToBrowserPath,
+  requestDirectoryRefresh,
+  setHighlightItem,
+  setPendingEditFile,
+  setTaskReport,
+} from '../../store';
+import type { TaskItem } from '../../shared/shared';
+import { toggleTaskLine } from '../../shared/taskUtil';
+import { formatDaysDisplay, getDaysFromToday } from '../../shared/timeUtil';
+import { logger } from '../../shared/logUtil';
+import { api } from '../../renderer/api';
+import { getParentPath, isPathInside } from '../../renderer/pathUtil';
+import { DEFAULT_TASK_FILTER, filterTasks, taskFolders, taskTags, type TaskDueFilter, type TaskFilter, type TaskStatusFilter } from '../../renderer/taskFilter';
+import { BUTTON_CLASS_LINK_AMBER, BUTTON_CLASS_NORMAL, CHECKBOX_CLASS } from '../../renderer/styles';
+
+const SELECT_CLASS = 'bg-slate-700 border border-slate-600 text-slate-200 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 cursor-pointer';
+
+const STATUS_OPTIONS: Array<{ value: TaskStatusFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+  { value: 'all', label: 'All' },
+];
+
+const DUE_OPTIONS: Array<{ value: TaskDueFilter; label: string }> = [
+  { value: 'any', label: 'Any date' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'dated', label: 'Has a date' },
+  { value: 'undated', label: 'No date' },
+];
+
+/** Groups the (already sorted) tasks by the file they are in. */
+function groupByFile(tasks: TaskItem[]): Array<{ filePath: string; tasks: TaskItem[] }> {
+  const groups: Array<{ filePath: string; tasks: TaskItem[] }> = [];
+  for (const task of tasks) {
+    const last = groups[groups.length - 1];
+    if (last?.filePath === task.filePath) last.tasks.push(task);
+    else groups.push({ filePath: task.filePath, tasks: [task] });
+  }
+  return groups;
+}
+
+/**
+ * Lists the task-list items (`- [ ]` / `- [x]`) of every markdown file under a
+ * folder (Tools > Find Tasks), grouped by file, each with the heading it sits
+ * under, its hashtags and its due date — the first date in its text. Filters
+ * narrow the list by status, hashtag, due date and folder. Ticking a checkbox
+ * writes it back to the file; clicking a task opens the file at that line.
+ */
+function TasksView() {
+  const report = useAS(s => s.taskReport);
+  const [filter, setFilter] = useState<TaskFilter>(DEFAULT_TASK_FILTER);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  if (!report) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-slate-900">
+        <p className="text-slate-400">No tasks collected yet. Run Tools &gt; Find Tasks.</p>
+      </div>
+    );
+  }
+
+  const { tasks, folderPath, totalFiles } = report;
+  const displayPath = (p: string) =>
+    isPathInside(folderPath, p) ? p.slice(folderPath.length).replace(/^[/\\]+/, '') : p;
+  const shown = filterTasks(tasks, filter);
+  const openCount = tasks.filter(t => !t.done).length;
+  const update = (change: Partial<TaskFilter>) => setFilter(prev => ({ ...prev, ...change }));
+
+  const refresh = () => {
+    setRefreshing(true);
+    setNotice(null);
+    api.findTasks(folderPath)
+      .then((result) => {
+        setTaskReport({ ...result, folderPath });
+        setRefreshing(false);
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to refresh tasks:', err);
+        setNotice('Could not scan the folder for tasks.');
+        setRefreshing(false);
+      });
+  };
+
+  const toggle = (task: TaskItem) => {
+    const done = !task.done;
+    api.toggleTask(task.filePath, task.line, task.source, done)
+      .then((result) => {
+        if (!result.success) {
+          setNotice(result.error ?? 'Could not update the task.');
+          return;
+        }
+        // The line now reads as toggleTaskLine rewrote it; keep that as its source for the next toggle.
+        const source = toggleTaskLine(task.source, 1, task.source, done) ?? task.source;
+        const current = useAS.getState().taskReport;
+        if (current) {
+          setTaskReport({ ...current, tasks: current.tasks.map(t => (t.filePath === task.filePath && t.line === task.line ? { ...t, done, source } : t)) });
+        }
+        requestDirectoryRefresh();
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to toggle task:', err);
+        setNotice('Could not update the task.');
+      });
+  };
+
+  const openAtLine = (task: TaskItem) => {
+    setHighlightItem(task.filePath);
+    navigateToBrowserPath(getParentPath(task.filePath), task.filePath);
+    setPendingEditFile(task.filePath, 'browser', task.line);
+  };
+
+  return (
+    <main className="flex-1 min-h-0 overflow-y-auto pb-4">
+      <div className="max-w-4xl mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="mb-4 flex items-start gap-3">
+          <div className="flex-1">
+            <p className="text-sm text-slate-400">
+              <span className="text-slate-300 font-medium">{openCount}</span> open of{' '}
+              <span className="text-slate-300 font-medium">{tasks.length}</span> task{tasks.length !== 1 ? 's' : ''} in{' '}
+              <span className="text-slate-300 font-medium">{totalFiles}</span> file{totalFiles !== 1 ? 's' : ''} under{' '}
+              <span className="text-slate-300 font-mono text-xs">{folderPath}</span>
+            </p>
+            <p className="text-xs text-slate-500 mt-1">Tick a box to update the file. Click a task to edit the file at that line.</p>
+          </div>
+          <button
+            type="button"
+            onClick={refresh}
+            disabled={refreshing}
+            className={BUTTON_CLASS_NORMAL}
+            title="Scan the folder again"
+            data-testid="tasks-refresh-button"
+          >
+            <ArrowPathIcon className={`w-5 h-5 ${refreshing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {notice && (
+          <div className="mb-4 px-3 py-2 bg-amber-900/40 border border-amber-700 rounded-lg text-amber-200 text-sm flex items-start gap-3">
+            <span className="flex-1">{notice}</span>
+            <button className={`${BUTTON_CLASS_LINK_AMBER} flex-shrink-0`} onClick={() => setNotice(null)} title="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="mb-4 flex flex-wrap gap-3" data-testid="tasks-filters">
+          <select value={filter.status} onChange={(e) => update({ status: e.target.value as TaskStatusFilter })} className={SELECT_CLASS} title="Status">
+            {STATUS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <select value={filter.tag} onChange={(e) => update({ tag: e.target.value })} className={SELECT_CLASS} title="Hashtag">
+            <option value="">Any tag</option>
+            {taskTags(tasks).map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+          <select value={filter.due} onChange={(e) => update({ due: e.target.value as TaskDueFilter })} className={SELECT_CLASS} title="Due date">
+            {DUE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <select value={filter.folder} onChange={(e) => update({ folder: e.target.value })} className={`${SELECT_CLASS} max-w-xs`} title="Folder">
+            <option value="">All folders</option>
+            {taskFolders(tasks).map(folder => (
+              <option key={folder} value={folder}>{displayPath(folder) || '(top folder)'}</option>
+            ))}
+          </select>
+        </div>
+
+        <h2 className="text-lg font-medium text-slate-200 mb-3 flex items-center gap-2">
+          <CheckCircleIcon className="w-5 h-5 text-green-400" />
+          Tasks
+          <span className="text-sm text-slate-400 font-normal">({shown.length})</span>
+        </h2>
+
+        {shown.length === 0 ? (
+          <p className="text-slate-400 py-4" data-testid="tasks-none">
+            {tasks.length === 0 ? 'No tasks found.' : 'No tasks match the filters.'}
+          </p>
+        ) : (
+          <div className="space-y-4" data-testid="tasks-list">
+            {groupByFile(shown).map(group => (
+              <div key={group.filePath}>
+                <div className="text-blue-400 text-sm font-mono break-all mb-1">{displayPath(group.filePath)}</div>
+                <div className="space-y-1">
+                  {group.tasks.map(task => {
+                    const days = task.due === null ? null : getDaysFromToday(task.due);
+                    return (
+                      <div key={task.line} className="flex items-start gap-3 py-1.5 px-3 rounded-lg hover:bg-slate-800" data-testid="task-row">
+                        <input
+                          type="checkbox"
+                          checked={task.done}
+                          onChange={() => toggle(task)}
+                          className={`${CHECKBOX_CLASS} mt-0.5`}
+                          aria-label={task.done ? 'Mark as not done' : 'Mark as done'}
+                          data-testid="task-checkbox"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => openAtLine(task)}
+                          className="min-w-0 flex-1 text-left cursor-pointer"
+                          title={`Edit ${displayPath(task.filePath)} at line ${task.line}`}
+                        >
+                          <span className={`block text-sm ${task.done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>
+                            {task.text || <span className="italic text-slate-500">(empty)</span>}
+                          </span>
+                          {(task.heading || task.tags.length > 0) && (
+                            <span className="block text-xs text-slate-500 truncate">
+                              {task.heading && <span>{task.heading}</span>}
+                              {task.tags.map(tag => <span key={tag} className="ml-2 text-blue-400">{tag}</span>)}
+                            </span>
+                          )}
+                        </button>
+                        {task.due !== null && days !== null && (
+                          <span
+                            className={`text-xs whitespace-nowrap ${!task.done && days < 0 ? 'text-red-400' : 'text-slate-400'}`}
+                            title={new Date(task.due).toLocaleString()}
+                          >
+                            {new Date(task.due).toLocaleDateString()} {formatDaysDisplay(days)}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default TasksView;
@@ -3,20 +3,32 @@ import path from 'node:path';
 import fs from 'node:fs';
 import started from 'electron-squirrel-startup';
 import { initConfig, getConfig, updateConfig, flushConfig } from './main/configMgr';
-import type { AppConfig, OcrTarget, ReadFileResult, FileReadResult, FileWriteResult, ExifWriteResult, ThesaurusLookup } from './shared/shared';
+import type { AppConfig, Backlink, BrokenLinkReport, FileVersion, GitChange, GitLogEntry, GitStatus, TaskReport, CalendarExportResult, CalendarImportResult, EntryMove, WikiLinkResolution, WikiLinkTarget, LinkRewriteApplyResult, LinkRewritePlan, LinkRewriteUndoResult, JournalOperation, JournalUndoResult, OcrTarget, ReadFileResult, FileReadResult, FileStamp, FileWriteResult, ExifWriteResult, ThesaurusLookup, ReplaceOptions, ReplacePreview, ReplaceSelection, ToolApprovalDecision } from './shared/shared';
 
-import { readDirectory } from './main/fileUtil';
+import { readDirectory, readIfChangedSince, renameEntry } from './main/fileUtil';
 import { parseFrontMatter } from './shared/frontMatterUtil';
-import { reconcileIndexedFiles, insertIntoIndexYaml, moveInIndexYaml, moveToEdgeInIndexYaml, readIndexYaml, writeIndexOptions, ensureFrontMatterIdIfIndexed, recordFrontMatterIdInIndex, renameInIndexYaml, withIndexLock, type IndexMutationResult } from './main/indexUtil';
+import { reconcileIndexedFiles, insertIntoIndexYaml, moveInIndexYaml, moveToEdgeInIndexYaml, readIndexYaml, writeIndexOptions, ensureFrontMatterIdIfIndexed, recordFrontMatterIdInIndex, withIndexLock, type IndexMutationResult } from './main/indexUtil';
 import { frontMatterFileSaved } from './main/frontMatterHandler';
 import { writeFileAtomic } from './main/atomicWrite';
+import { snapshotBeforeWrite, listFileVersions, readFileVersion } from './main/fileHistory';
+import { getGitStatus, getGitLog, readGitRevision, gitCommit } from './main/gitUtil';
 import { processTOC } from './shared/tocUtil';
-import { searchAndReplace, type ReplaceResult } from './main/searchAndReplace';
+import { searchAndReplace, previewReplace, type ReplaceResult } from './main/searchAndReplace';
 import { parseIgnoredPaths } from './shared/searchHelpers';
 import { searchFolder, type SearchResult } from './main/search';
 import { analyzeFolderHashtags, type FolderAnalysisResult } from './main/folderAnalysis';
-import { loadCalendarEvents, loadCalendarEventsForFiles, type CalendarEventResult } from './main/calendarLoader';
+import { findBrokenLinks } from './main/brokenLinks';
+import { findTasks, toggleTask } from './main/taskScanner';
+import { loadCalendarEvents, loadCalendarEventsForFiles, loadCalendarEntryForFile, type CalendarEventResult } from './main/calendarLoader';
+import { startReminderScheduler, stopReminderScheduler, setReminderFolder, setReminderFile, removeReminderPath } from './main/reminderScheduler';
+import { parseReminderLead } from './shared/calendarUtil';
 import { startCalendarWatcher, stopCalendarWatcher } from './main/calendarWatcher';
+import { exportCalendarToIcs, importIcsFile } from './main/calendarIcs';
+import { setWatchedEmbeds, stopEmbedWatcher } from './main/embedWatcher';
+import { startSearchIndex, stopSearchIndex, getIndexedBacklinks, getSearchIndexSnapshot } from './main/searchIndex';
+import { scanBacklinks, resolveWikiLink, listVaultFiles, listWikiLinkTargets } from './main/linkIndex';
+import { planLinkRewrites, applyLinkRewrites, undoLinkRewrites } from './main/linkRewrite';
+import { openOpJournal, beginOperation, endOperation, recordBeforeChange, recordMove, listOperations, undoOperations } from './main/opJournal';
 import { scanFolderTree, type FolderGraphResult } from './main/folderGraph';
 import { loadTags } from './main/tagLoader';
 import { lookupThesaurus } from './main/thesaurusUtil';
@@ -25,8 +37,10 @@ import { handleAskAI, handleRewriteContent, handleRewriteContentSection, handleR
 import { hasScriptedAnswer, queueScriptedAnswer } from './main/ai/langGraph';
 import type { StreamCallbacks } from './main/ai/langGraph';
 import { getUsageWithCosts, resetUsage } from './main/ai/usageTracker';
+import { listOllamaModels } from './main/ai/aiModel';
+import { setToolApprovalPrompter, resolveToolApproval, cancelToolApprovals, listAlwaysAllowedFolders, clearAlwaysAllowedFolders } from './main/ai/toolApproval';
 import { readExifMetadata, readImageDimensions, writeExifMetadata } from './main/exifUtil';
-import { logger } from './shared/logUtil';
+import { logger, toErrorMessage } from './shared/logUtil';
 import { exportFolderContents, exportToPdf } from './main/exportUtil';
 import { runShellScript, runOcrInTerminal } from './main/launcherUtil';
 
@@ -44,7 +58,7 @@ protocol.registerSchemesAsPrivileged([
 ]);
 
 import type { FileEntry } from './global';
-import { ATTACH_SUFFIX, INDEX_FILENAME } from './shared/specialFiles';
+import { INDEX_FILENAME } from './shared/specialFiles';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -181,6 +195,91 @@ function folderPickerDefaultPath(): string | undefined {
   return browseFolder && fs.existsSync(browseFolder) ? browseFolder : undefined;
 }
 
+/** Where the persistent search index lives: a cache next to config.yaml, one file per vault root. */
+const SEARCH_INDEX_DIR = path.join(app.getPath('userData'), 'search-index');
+
+/**
+ * Start (or keep) the persistent search index for the folder being browsed. Not
+ * awaited by callers: building it from scratch on a large vault takes a while, and
+ * until it is ready searchFolder simply crawls as it always has. startSearchIndex
+ * no-ops when the root and ignore list are unchanged, so calling this on every
+ * search is cheap and is also how an edited ignoredPaths setting gets picked up.
+ */
+function warmSearchIndex(ignoredPaths: string[]): void {
+  const { browseFolder } = getConfig();
+  if (!browseFolder) return;
+  startSearchIndex(browseFolder, ignoredPaths, SEARCH_INDEX_DIR).catch((err: unknown) => {
+    logger.error('Failed to start search index:', err);
+  });
+}
+
+/** Previous versions of saved files (see main/fileHistory.ts), kept next to config.yaml. */
+const FILE_HISTORY_DIR = path.join(app.getPath('userData'), 'file-history');
+
+/**
+ * Keep `filePath`'s current content as a version before a save replaces it,
+ * when File History is on. A snapshot that fails is logged and the save goes
+ * ahead: losing one version is better than losing the edit.
+ */
+async function keepFileVersion(filePath: string, newContent: string): Promise<void> {
+  const settings = getConfig().settings;
+  if (!settings?.fileHistory) return;
+  try {
+    await snapshotBeforeWrite(FILE_HISTORY_DIR, filePath, newContent, {
+      maxVersions: settings.fileHistoryMaxVersions,
+      maxDays: settings.fileHistoryMaxDays,
+    });
+  } catch (err) {
+    logger.error(`Failed to keep the previous version of ${filePath}:`, err);
+  }
+}
+
+/** Copies kept for undoing bulk file operations (see main/opJournal.ts), next to config.yaml. */
+const OP_JOURNAL_DIR = path.join(app.getPath('userData'), 'op-journal');
+
+/**
+ * Record `filePath`'s current state under journal operation `journalId` before
+ * it is changed. A recording that fails is logged and the change goes ahead; the
+ * operation's undo then restores what it can.
+ */
+async function journalBeforeChange(journalId: number | undefined, filePath: string, content?: string): Promise<void> {
+  if (journalId === undefined) return;
+  try {
+    await recordBeforeChange(journalId, filePath, content);
+  } catch (err) {
+    logger.error(`Failed to record ${filePath} in the undo journal:`, err);
+  }
+}
+
+/** Dismissed and snoozed calendar reminders, kept next to config.yaml. */
+const REMINDERS_FILE = path.join(app.getPath('userData'), 'reminders.json');
+
+/** Bring the window forward and show the item the clicked reminder is for. */
+function openReminderFile(filePath: string): void {
+  if (!mainWindow || mainWindow.isDestroyed()) return;
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+  mainWindow.webContents.send('reminder-open-file', filePath);
+}
+
+/**
+ * Scan the folder being browsed for calendar items to remind about. After
+ * this, the calendar's own scans and watcher keep the reminders current (see
+ * load-calendar-events), as do saves made in the app (see write-file). Not
+ * awaited by callers, like warmSearchIndex: reminders start as soon as the
+ * scan is done.
+ */
+function scanReminders(ignoredPaths: string[]): void {
+  const { browseFolder } = getConfig();
+  if (!browseFolder) return;
+  loadCalendarEvents(browseFolder, ignoredPaths)
+    .then(results => setReminderFolder(browseFolder, results))
+    .catch((err: unknown) => {
+      logger.error('Failed to scan for calendar reminders:', err);
+    });
+}
+
 function setupIpcHandlers(): void {
   // Quit the application
   ipcMain.handle('quit', () => {
@@ -232,7 +331,10 @@ function setupIpcHandlers(): void {
     // that resolves once the change is flushed to disk. Returning it lets the
     // renderer's `await api.updateConfig(...)` resolve after persist (and surface
     // write errors) without blocking the main-process event loop.
-    return updateConfig(updates);
+    const browseFolderChanged = updates.browseFolder !== undefined && updates.browseFolder !== getConfig().browseFolder;
+    const result = updateConfig(updates);
+    if (browseFolderChanged) scanReminders(parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? ''));
+    return result;
   });
 
   // Set window title
@@ -338,8 +440,17 @@ function setupIpcHandlers(): void {
   // a renderer-side Date.now() is generally at or ahead of the disk mtime,
   // which would blind the external-modification checks to any later edit
   // landing in the same mtime window.
-  ipcMain.handle('write-file', async (_event, filePath: string, content: string): Promise<FileWriteResult> => {
+  ipcMain.handle('write-file', async (_event, filePath: string, content: string, expected?: FileStamp, journalId?: number): Promise<FileWriteResult> => {
     try {
+      // An editor save passes the stamp it loaded the file at: a file changed on
+      // disk since then is not overwritten, and the renderer gets its current
+      // content to merge with instead (see renderer/saveConflict.ts).
+      if (expected) {
+        const conflict = await readIfChangedSince(filePath, expected);
+        if (conflict) return { ok: false, content, mtime: 0, conflict };
+      }
+      await journalBeforeChange(journalId, filePath);
+
       let finalContent = content;
       let addedIndexId: string | null = null;
       let savedStats: fs.Stats | null;
@@ -358,11 +469,13 @@ function setupIpcHandlers(): void {
         // the lock — recordFrontMatterIdInIndex below takes the (non-reentrant)
         // lock itself.
         const contentToWrite = finalContent;
+        await keepFileVersion(filePath, contentToWrite);
         savedStats = await withIndexLock(path.dirname(filePath), async () => {
           await writeFileAtomic(filePath, contentToWrite);
           return fs.promises.stat(filePath).catch(() => null);
         });
       } else {
+        await keepFileVersion(filePath, finalContent);
         await writeFileAtomic(filePath, finalContent);
         savedStats = await fs.promises.stat(filePath).catch(() => null);
       }
@@ -382,6 +495,12 @@ function setupIpcHandlers(): void {
             logger.error(`Front-matter post-save processing failed for ${filePath}:`, err);
           });
         }
+        // Keep reminders in step with the edit even when no calendar is open to watch the file.
+        loadCalendarEntryForFile(filePath)
+          .then(results => setReminderFile(filePath, results))
+          .catch((err: unknown) => {
+            logger.error(`Failed to update reminders for ${filePath}:`, err);
+          });
       }
 
       // If the post-write stat somehow failed (file deleted in between), fall
@@ -431,7 +550,7 @@ function setupIpcHandlers(): void {
   });
 
   // Create a new file (checks if it already exists first)
-  ipcMain.handle('create-file', async (_event, filePath: string, content: string): Promise<{ success: boolean; error?: string }> => {
+  ipcMain.handle('create-file', async (_event, filePath: string, content: string, journalId?: number): Promise<{ success: boolean; error?: string }> => {
     try {
       // Check if file already exists
       try {
@@ -441,6 +560,7 @@ function setupIpcHandlers(): void {
       } catch {
         // File doesn't exist, we can create it
       }
+      await journalBeforeChange(journalId, filePath);
       await fs.promises.writeFile(filePath, content, 'utf-8');
       return { success: true };
     } catch (error) {
@@ -457,62 +577,16 @@ function setupIpcHandlers(): void {
   });
 
   // Rename a file or folder
-  ipcMain.handle('rename-file', async (_event, oldPath: string, newPath: string): Promise<boolean> => {
-    try {
-      // Refuse to clobber a *different* existing entry at the destination.
-      // fs.rename silently overwrites the target on POSIX, and on Windows
-      // (libuv uses MoveFileEx with MOVEFILE_REPLACE_EXISTING), so without this
-      // guard a move/paste onto an occupied path would destroy the existing
-      // file. On case-insensitive filesystems (NTFS/APFS) this is also how a
-      // paste of two items differing only in case would silently lose data.
-      //
-      // The "different" qualifier matters: a pure case-only rename of a single
-      // file (Readme.md -> README.md) targets the SAME on-disk entry on a
-      // case-insensitive FS, where stat(newPath) resolves back to the source.
-      // That must still succeed, so we only block when the target is a distinct
-      // entry (different dev/ino).
-      if (oldPath !== newPath) {
-        let targetStat: import('fs').Stats | null = null;
-        try {
-          targetStat = await fs.promises.stat(newPath);
-        } catch {
-          targetStat = null; // nothing at the destination — safe to rename
-        }
-        if (targetStat) {
-          const sourceStat = await fs.promises.stat(oldPath);
-          const sameEntry = targetStat.dev === sourceStat.dev && targetStat.ino === sourceStat.ino;
-          if (!sameEntry) {
-            logger.warn(`Refusing to rename ${oldPath} -> ${newPath}: a different entry already exists at the destination`);
-            return false;
-          }
-        }
-      }
-      await fs.promises.rename(oldPath, newPath);
-      const dirPath = path.dirname(oldPath);
-      const oldName = path.basename(oldPath);
-      const newName = path.basename(newPath);
-      // Update the file's entry in .INDEX.yaml if present
-      await renameInIndexYaml(dirPath, oldName, newName);
-      // Rename the associated attach folder if it exists, and update its index entry
-      const oldAttachName = `${oldName}${ATTACH_SUFFIX}`;
-      const newAttachName = `${newName}${ATTACH_SUFFIX}`;
-      try {
-        await fs.promises.access(path.join(dirPath, oldAttachName));
-        await fs.promises.rename(path.join(dirPath, oldAttachName), path.join(dirPath, newAttachName));
-        await renameInIndexYaml(dirPath, oldAttachName, newAttachName);
-      } catch {
-        // No attach folder exists, nothing to do
-      }
-      return true;
-    } catch (error) {
-      logger.error('Error renaming file:', error);
-      return false;
-    }
+  ipcMain.handle('rename-file', async (_event, oldPath: string, newPath: string, journalId?: number): Promise<boolean> => {
+    const renamed = await renameEntry(oldPath, newPath);
+    if (renamed && journalId !== undefined) recordMove(journalId, oldPath, newPath);
+    return renamed;
   });
 
   // Delete a file or folder (moves to OS trash)
-  ipcMain.handle('delete-file', async (_event, filePath: string): Promise<boolean> => {
+  ipcMain.handle('delete-file', async (_event, filePath: string, journalId?: number): Promise<boolean> => {
     try {
+      await journalBeforeChange(journalId, filePath);
       await shell.trashItem(filePath);
       return true;
     } catch (error) {
@@ -572,11 +646,28 @@ function setupIpcHandlers(): void {
     return alertIfCorruptIndex(dirPath, await writeIndexOptions(dirPath, options));
   });
 
+  // List what a search and replace would change, writing nothing
+  ipcMain.handle('preview-replace', async (_event, folderPath: string, options: ReplaceOptions): Promise<ReplacePreview> => {
+    try {
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      return await previewReplace(folderPath, options, ignoredPaths);
+    } catch (error) {
+      logger.error('Error previewing search and replace:', error);
+      return { files: [], totalMatches: 0, truncated: false };
+    }
+  });
+
   // Search and replace in files recursively
-  ipcMain.handle('search-and-replace', async (_event, folderPath: string, searchText: string, replaceText: string): Promise<ReplaceResult[]> => {
+  ipcMain.handle('search-and-replace', async (_event, folderPath: string, options: ReplaceOptions, selections?: ReplaceSelection[]): Promise<ReplaceResult[]> => {
     try {
       const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
-      return await searchAndReplace(folderPath, searchText, replaceText, ignoredPaths);
+      const journalId = beginOperation(`Replace "${options.searchText}" with "${options.replaceText}"`);
+      try {
+        return await searchAndReplace(folderPath, options, ignoredPaths, selections,
+          (filePath, content) => journalBeforeChange(journalId, filePath, content));
+      } finally {
+        await endOperation(journalId);
+      }
     } catch (error) {
       logger.error('Error in search and replace:', error);
       return [];
@@ -611,6 +702,7 @@ function setupIpcHandlers(): void {
   ipcMain.handle('search-folder', async (_event, folderPath: string, query: string, searchType: 'literal' | 'wildcard' | 'advanced' = 'literal', searchMode: 'content' | 'filenames' = 'content', searchImageExif = false, mostRecent = false, calendarItemsOnly = false): Promise<SearchResult[]> => {
     try {
       const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      warmSearchIndex(ignoredPaths);
       return await searchFolder(folderPath, query, searchType, searchMode, ignoredPaths, searchImageExif, mostRecent, calendarItemsOnly);
     } catch (error) {
       logger.error('Error searching folder:', error);
@@ -618,6 +710,169 @@ function setupIpcHandlers(): void {
     }
   });
 
+  // The kept versions of a file, newest first, for its History panel
+  ipcMain.handle('list-file-versions', async (_event, filePath: string): Promise<FileVersion[]> => {
+    try {
+      return await listFileVersions(FILE_HISTORY_DIR, filePath);
+    } catch (error) {
+      logger.error('Error listing file versions:', error);
+      return [];
+    }
+  });
+
+  // One kept version's content, which the History panel opens for review against the file
+  ipcMain.handle('read-file-version', async (_event, filePath: string, versionId: string): Promise<string | null> => {
+    try {
+      return await readFileVersion(FILE_HISTORY_DIR, filePath, versionId);
+    } catch (error) {
+      logger.error('Error reading file version:', error);
+      return null;
+    }
+  });
+
+  // Git status of the browse root, for the status badges and the Commit dialog
+  ipcMain.handle('get-git-status', async (_event, folder: string): Promise<GitStatus | null> => {
+    try {
+      return await getGitStatus(folder);
+    } catch (error) {
+      logger.error('Error reading git status:', error);
+      return null;
+    }
+  });
+
+  // A file's commits, for its Git panel
+  ipcMain.handle('get-git-log', async (_event, filePath: string): Promise<GitLogEntry[]> => {
+    try {
+      return await getGitLog(filePath);
+    } catch (error) {
+      logger.error('Error reading git log:', error);
+      return [];
+    }
+  });
+
+  // A file's content in one commit, which the Git panel opens for review against the file
+  ipcMain.handle('read-git-revision', async (_event, filePath: string, rev: string, repoPath?: string): Promise<string | null> => {
+    try {
+      return await readGitRevision(filePath, rev, repoPath);
+    } catch (error) {
+      logger.error('Error reading git revision:', error);
+      return null;
+    }
+  });
+
+  ipcMain.handle('git-commit', async (_event, folder: string, message: string, changes: GitChange[]): Promise<{ success: boolean; error?: string }> => {
+    try {
+      return await gitCommit(folder, message, changes);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+
+  // Files linking to filePath, for the Backlinks panel. Answered from the search
+  // index's link map when it is ready, otherwise by scanning the browse root.
+  ipcMain.handle('get-backlinks', async (_event, filePath: string): Promise<Backlink[]> => {
+    try {
+      const { browseFolder } = getConfig();
+      if (!browseFolder) return [];
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      warmSearchIndex(ignoredPaths);
+      return getIndexedBacklinks(filePath, ignoredPaths) ?? await scanBacklinks(browseFolder, filePath, ignoredPaths);
+    } catch (error) {
+      logger.error('Error loading backlinks:', error);
+      return [];
+    }
+  });
+
+  // Obsidian-style wikilink resolution: relative to the file first, then by name
+  // anywhere in the vault. The index only holds .md/.txt files, so a link to any
+  // other kind of file (or any link while the index isn't ready) crawls instead.
+  ipcMain.handle('resolve-wikilink', async (_event, sourcePath: string, target: string): Promise<WikiLinkResolution> => {
+    try {
+      const { browseFolder } = getConfig();
+      if (!browseFolder) return { path: null, candidates: [] };
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      const ext = path.extname(target).toLowerCase();
+      const snapshot = ext === '' || ext === '.md' || ext === '.txt'
+        ? getSearchIndexSnapshot(browseFolder, ignoredPaths)
+        : null;
+      return await resolveWikiLink(browseFolder, sourcePath, target,
+        async () => snapshot?.listFiles() ?? listVaultFiles(browseFolder, ignoredPaths));
+    } catch (error) {
+      logger.error('Error resolving wikilink:', error);
+      return { path: null, candidates: [] };
+    }
+  });
+
+  ipcMain.handle('list-wikilink-targets', async (): Promise<WikiLinkTarget[]> => {
+    try {
+      const { browseFolder } = getConfig();
+      if (!browseFolder) return [];
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      return await listWikiLinkTargets(browseFolder, ignoredPaths, getSearchIndexSnapshot(browseFolder, ignoredPaths));
+    } catch (error) {
+      logger.error('Error listing wikilink targets:', error);
+      return [];
+    }
+  });
+
+  // Link rewriting for moves: plan (before the move, for the preview), apply
+  // (after it), and undo the last applied batch. See main/linkRewrite.ts.
+  ipcMain.handle('plan-link-rewrites', async (_event, moves: EntryMove[]): Promise<LinkRewritePlan> => {
+    try {
+      const { browseFolder } = getConfig();
+      if (!browseFolder) return { id: 0, files: [] };
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      return await planLinkRewrites(browseFolder, moves, ignoredPaths);
+    } catch (error) {
+      logger.error('Error planning link rewrites:', error);
+      return { id: 0, files: [] };
+    }
+  });
+
+  ipcMain.handle('apply-link-rewrites', async (_event, planId: number, movedOldPaths: string[], journalId?: number): Promise<LinkRewriteApplyResult> => {
+    try {
+      return await applyLinkRewrites(planId, movedOldPaths,
+        (filePath, content) => journalBeforeChange(journalId, filePath, content));
+    } catch (error) {
+      logger.error('Error applying link rewrites:', error);
+      return { success: false, error: toErrorMessage(error), updatedFiles: [], skippedFiles: [], undoable: false };
+    }
+  });
+
+  ipcMain.handle('undo-link-rewrites', async (): Promise<LinkRewriteUndoResult> => {
+    try {
+      return await undoLinkRewrites();
+    } catch (error) {
+      logger.error('Error undoing link rewrites:', error);
+      return { success: false, error: toErrorMessage(error), moves: [], conflicts: [] };
+    }
+  });
+
+  ipcMain.handle('begin-journal-operation', (_event, label: string): number => {
+    return beginOperation(label);
+  });
+
+  ipcMain.handle('end-journal-operation', async (_event, journalId: number): Promise<void> => {
+    try {
+      await endOperation(journalId);
+    } catch (error) {
+      logger.error('Error ending journal operation:', error);
+    }
+  });
+
+  ipcMain.handle('list-journal-operations', (): JournalOperation[] => {
+    return listOperations();
+  });
+
+  ipcMain.handle('undo-journal-operations', async (_event, count: number): Promise<JournalUndoResult> => {
+    try {
+      return await undoOperations(count);
+    } catch (error) {
+      logger.error('Error undoing journal operations:', error);
+      return { success: false, error: toErrorMessage(error), undone: 0, conflicts: [], moves: [], paths: [] };
+    }
+  });
+
   // Analyze folder for hashtags in .md and .txt files
   ipcMain.handle('analyze-folder-hashtags', async (_event, folderPath: string): Promise<FolderAnalysisResult> => {
     try {
@@ -629,11 +884,50 @@ function setupIpcHandlers(): void {
     }
   });
 
+  // Check every link in the folder's markdown files; suggestions come from the whole vault
+  ipcMain.handle('find-broken-links', async (_event, folderPath: string): Promise<BrokenLinkReport> => {
+    try {
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      return await findBrokenLinks(folderPath, getConfig().browseFolder || folderPath, ignoredPaths);
+    } catch (error) {
+      logger.error('Error checking links:', error);
+      // Propagate, as scan-folder-tree does: an empty report would read as
+      // "no broken links".
+      throw error;
+    }
+  });
+
+  // Collect the task-list items of the folder's markdown files
+  ipcMain.handle('find-tasks', async (_event, folderPath: string): Promise<TaskReport> => {
+    try {
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      return await findTasks(folderPath, ignoredPaths);
+    } catch (error) {
+      logger.error('Error finding tasks:', error);
+      // Propagate, as find-broken-links does: an empty report would read as "no tasks".
+      throw error;
+    }
+  });
+
+  // Tick or clear one task in its file (toggleTask reports its own failures)
+  ipcMain.handle('toggle-task', (_event, filePath: string, line: number, source: string, done: boolean) =>
+    toggleTask(filePath, line, source, done));
+
+  // Follow the notes embedded in rendered markdown, so embeds show their current content.
+  ipcMain.handle('set-watched-embeds', (_event, filePaths: string[]): void => {
+    setWatchedEmbeds(filePaths, (filePath) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('embed-file-changed', filePath);
+      }
+    });
+  });
+
   // Scan folder for markdown files with a 'due' front matter property, then start watching it
   ipcMain.handle('load-calendar-events', async (_event, folderPath: string): Promise<CalendarEventResult[]> => {
     try {
       const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
       const results = await loadCalendarEvents(folderPath, ignoredPaths);
+      setReminderFolder(folderPath, results);
 
       // Start (or keep) the file watcher for this folder. startCalendarWatcher is
       // the single authority on whether a restart is needed: it no-ops when the
@@ -641,11 +935,13 @@ function setupIpcHandlers(): void {
       // so an edited ignoredPaths setting propagates to live updates here too.
       await startCalendarWatcher(folderPath, (results, filePath) => {
         logger.info(`[main] calendar-file-changed: sending to renderer filePath=${filePath} count=${results.length}`);
+        setReminderFile(filePath, results);
         if (mainWindow && !mainWindow.isDestroyed()) {
           mainWindow.webContents.send('calendar-file-changed', results, filePath);
         }
       }, (deletedPath, isFolder) => {
         logger.info(`[main] calendar-file-deleted: deletedPath=${deletedPath} isFolder=${isFolder}`);
+        removeReminderPath(deletedPath, isFolder);
         if (mainWindow && !mainWindow.isDestroyed()) {
           mainWindow.webContents.send('calendar-file-deleted', deletedPath, isFolder);
         }
@@ -679,6 +975,40 @@ function setupIpcHandlers(): void {
     }
   });
 
+  // Export the calendar items among the given files (the calendar currently shown) to an .ics file.
+  ipcMain.handle('export-calendar-ics', async (_event, filePaths: string[], defaultFileName: string): Promise<CalendarExportResult | null> => {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Calendar',
+      defaultPath: path.join(folderPickerDefaultPath() ?? app.getPath('documents'), defaultFileName),
+      filters: [{ name: 'iCalendar', extensions: ['ics'] }],
+    });
+    if (result.canceled || !result.filePath) return null;
+    try {
+      return await exportCalendarToIcs(filePaths, result.filePath);
+    } catch (error) {
+      logger.error('Error exporting calendar:', error);
+      return { success: false, eventCount: 0, error: toErrorMessage(error) };
+    }
+  });
+
+  // Import the events of a chosen .ics file as calendar markdown files in `folder`.
+  ipcMain.handle('import-calendar-ics', async (_event, folder: string): Promise<CalendarImportResult | null> => {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Calendar',
+      properties: ['openFile'],
+      defaultPath: folderPickerDefaultPath(),
+      filters: [{ name: 'iCalendar', extensions: ['ics'] }],
+    });
+    const icsPath = result.filePaths[0];
+    if (result.canceled || !icsPath) return null;
+    try {
+      return await importIcsFile(icsPath, folder);
+    } catch (error) {
+      logger.error('Error importing calendar:', error);
+      return { success: false, created: [], skipped: 0, warnings: [], error: toErrorMessage(error) };
+    }
+  });
+
   // Recursively scan folder structure for the FolderGraphView (D3 graph).
   ipcMain.handle('scan-folder-tree', async (_event, folderPath: string): Promise<FolderGraphResult> => {
     try {
@@ -774,6 +1104,30 @@ function setupIpcHandlers(): void {
     }
   });
 
+  // Agentic Mode writes and deletes wait for the user's approval in the window (see main/ai/toolApproval.ts)
+  setToolApprovalPrompter({
+    ask: (request) => {
+      if (!mainWindow || mainWindow.isDestroyed()) return false;
+      mainWindow.webContents.send('ai-tool-approval', request);
+      return true;
+    },
+    dismiss: (ids) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('ai-tool-approval-dismissed', ids);
+      }
+    },
+  });
+
+  ipcMain.on('ai-tool-approval-resolve', (_event, id: number, decision: ToolApprovalDecision) => {
+    resolveToolApproval(id, decision);
+  });
+
+  ipcMain.handle('list-ai-always-allowed-folders', () => listAlwaysAllowedFolders());
+
+  ipcMain.handle('clear-ai-always-allowed-folders', () => {
+    clearAlwaysAllowedFolders();
+  });
+
   // Ask AI: submit a prompt and write the response to A/AI.md (or AI1.md, etc.)
   ipcMain.handle('ask-ai', async (
     _event,
@@ -813,8 +1167,12 @@ function setupIpcHandlers(): void {
       };
     }
 
-    // Listen for cancel request from the renderer
-    const cancelHandler = () => { abortController.abort(); };
+    // Listen for cancel request from the renderer. A tool call waiting for
+    // approval holds the run, so it is answered (rejected) too.
+    const cancelHandler = () => {
+      abortController.abort();
+      cancelToolApprovals();
+    };
     ipcMain.once('ai-stream-cancel', cancelHandler);
 
     try {
@@ -839,6 +1197,8 @@ function setupIpcHandlers(): void {
       return { error: friendlyAIError(error) };
     } finally {
       ipcMain.removeListener('ai-stream-cancel', cancelHandler);
+      // A run that ended (e.g. timed out) with a tool call still waiting leaves nothing to approve.
+      cancelToolApprovals();
     }
   });
 
@@ -934,6 +1294,16 @@ function setupIpcHandlers(): void {
     await resetUsage();
   });
 
+  // List the models installed on an Ollama daemon, for the model editor
+  ipcMain.handle('list-ollama-models', async (_event, baseUrl: string) => {
+    try {
+      return { models: await listOllamaModels(baseUrl) };
+    } catch (error) {
+      logger.error('Error listing Ollama models:', error);
+      return { models: [], error: toErrorMessage(error) };
+    }
+  });
+
   // Reply to AI: create an H subfolder with an empty HUMAN.md for the user to write in
   ipcMain.handle('reply-to-ai', async (_event, parentFolderPath: string, createSubFolder: boolean) => {
     try {
@@ -1006,9 +1376,20 @@ app.on('ready', () => {
     try {
       setupLocalFileProtocol();
       await initConfig();    // Read config file once — all later access is in-memory
+      await openOpJournal(OP_JOURNAL_DIR).catch((err: unknown) => {
+        logger.error('Failed to clear the undo journal:', err);
+      });
       setupIpcHandlers();
       await handleCommandLineArgs();
       createWindow();
+      const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+      warmSearchIndex(ignoredPaths);
+      await startReminderScheduler({
+        statePath: REMINDERS_FILE,
+        defaultLead: () => parseReminderLead(getConfig().settings?.defaultReminder ?? ''),
+        onOpen: openReminderFile,
+      });
+      scanReminders(ignoredPaths);
       // Remove the default Electron menu bar entirely — all menus are now HTML popup menus
       Menu.setApplicationMenu(null);
     } catch (err) {
@@ -1039,6 +1420,21 @@ app.on('window-all-closed', () => {
     } catch (err) {
       logger.error('Failed to stop calendar watcher:', err);
     }
+    try {
+      await stopReminderScheduler();
+    } catch (err) {
+      logger.error('Failed to stop reminder scheduler:', err);
+    }
+    try {
+      await stopSearchIndex();
+    } catch (err) {
+      logger.error('Failed to stop search index:', err);
+    }
+    try {
+      await stopEmbedWatcher();
+    } catch (err) {
+      logger.error('Failed to stop embed watcher:', err);
+    }
     if (process.platform !== 'darwin') {
       app.quit();
     }
@@ -2,19 +2,22 @@ import { ChatOpenAI } from "@langchain/openai";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { ChatAnthropic } from "@langchain/anthropic";
 import { getConfig } from '../configMgr';
-import type { AIModelConfig } from '../../shared/shared';
+import { DEFAULT_OLLAMA_BASE_URL, type AIModelConfig } from '../../shared/shared';
 import { createDebugLog } from "./aiLog";
 import { aiFileLogCallbacks } from "./aiFileLog";
 
 const debugLog = createDebugLog('aiModel');
 
-export type AIProvider = 'ANTHROPIC' | 'OPENAI' | 'GOOGLE' | 'LLAMACPP';
+export type AIProvider = 'ANTHROPIC' | 'OPENAI' | 'GOOGLE' | 'LLAMACPP' | 'OPENAI_COMPATIBLE' | 'OLLAMA';
 
 export interface AIModelConfigLike {
   name: string;
   provider: AIProvider;
   model: string;
   readonly?: boolean;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  apiKeyEnv?: string;
 }
 
 interface EnforceDefaultModelsResult<T extends AIModelConfigLike> {
@@ -38,13 +41,16 @@ function normalizeModel<T extends AIModelConfigLike>(model: T, readonly: boolean
   };
 }
 
-/** Deep-equal check for model config entries (name, provider, model string, and readonly flag). */
+/** Deep-equal check for model config entries (name, provider, model string, readonly flag, and server settings). */
 function modelsEqual(a: AIModelConfigLike, b: AIModelConfigLike): boolean {
   return (
     a.name === b.name &&
     a.provider === b.provider &&
     a.model === b.model &&
-    Boolean(a.readonly) === Boolean(b.readonly)
+    Boolean(a.readonly) === Boolean(b.readonly) &&
+    (a.baseUrl ?? '') === (b.baseUrl ?? '') &&
+    JSON.stringify(a.headers ?? {}) === JSON.stringify(b.headers ?? {}) &&
+    (a.apiKeyEnv ?? '') === (b.apiKeyEnv ?? '')
   );
 }
 
@@ -141,16 +147,29 @@ export function enforceDefaultAIModels<T extends AIModelConfigLike>(args: {
   return { models: enforcedModels, selectedModel, changed };
 }
 
-// NOTE: Local inference is served by a llama.cpp `llama-server` the user runs
-// themselves. MkBrowser never starts, stops, or otherwise manages that process —
-// it only talks to whatever is listening at the configured base URL.
+// NOTE: Local inference is served by a llama.cpp `llama-server`, an Ollama
+// daemon, or any OpenAI-compatible server (vLLM, LM Studio, LocalAI) the user
+// runs themselves. MkBrowser never starts, stops, or otherwise manages those
+// processes — it only talks to whatever is listening at the configured base URL.
+
+/** The active model's provider, model id, and the server settings its provider uses. */
+export interface ActiveModelConfig {
+  provider: AIProvider;
+  model: string;
+  llamacppBaseUrl: string;
+  /** The model's own server URL (OPENAI_COMPATIBLE and OLLAMA). */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** The environment variable holding an OPENAI_COMPATIBLE server's API key. */
+  apiKeyEnv?: string;
+}
 
 /**
  * Resolve the active AI provider and model name from the config.
  * Falls back to Anthropic Claude Haiku if nothing is configured.
  */
 
-export function getActiveModelConfig(): { provider: AIProvider; model: string; llamacppBaseUrl: string; } {
+export function getActiveModelConfig(): ActiveModelConfig {
     const config = getConfig();
     const llamacppBaseUrl = config.llamacppBaseUrl || 'http://localhost:8080/v1';
 
@@ -159,7 +178,7 @@ export function getActiveModelConfig(): { provider: AIProvider; model: string; l
         const entry = config.aiModels.find((m) => normalizeKey(m.name) === selectedKey);
         if (entry) {
             debugLog('getActiveModelConfig → provider:', entry.provider, 'model:', entry.model);
-            return { provider: entry.provider, model: entry.model, llamacppBaseUrl };
+            return { provider: entry.provider, model: entry.model, llamacppBaseUrl, baseUrl: entry.baseUrl, headers: entry.headers, apiKeyEnv: entry.apiKeyEnv };
         }
     }
 
@@ -168,6 +187,26 @@ export function getActiveModelConfig(): { provider: AIProvider; model: string; l
     return { provider: 'ANTHROPIC', model: 'claude-haiku-4-5-20251001', llamacppBaseUrl };
 }
 
+/** An Ollama base URL without a trailing slash or `/v1`, whichever form the user typed. */
+export function ollamaRootUrl(baseUrl: string | undefined): string {
+  return (baseUrl?.trim() || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * The names of the models installed on the Ollama daemon at `baseUrl`, sorted,
+ * from its native `/api/tags` endpoint. Throws when the daemon can't be reached
+ * or answers with an error.
+ */
+export async function listOllamaModels(baseUrl: string | undefined): Promise<string[]> {
+  const response = await fetch(`${ollamaRootUrl(baseUrl)}/api/tags`, { signal: AbortSignal.timeout(10_000) });
+  if (!response.ok) throw new Error(`Ollama answered ${response.status} ${response.statusText}`);
+  const body = await response.json() as { models?: Array<{ name?: unknown }> };
+  return (body.models ?? [])
+    .map((m) => m.name)
+    .filter((name): name is string => typeof name === 'string')
+    .sort((a, b) => a.localeCompare(b));
+}
+
 /**
  * Create the appropriate LangChain chat model based on the active config.
  *
@@ -179,12 +218,33 @@ export function getActiveModelConfig(): { provider: AIProvider; model: string; l
  * prompt/response log. See aiFileLog.ts.
  */
 export function createChatModel() {
-  const { provider, model, llamacppBaseUrl } = getActiveModelConfig();
+  const { provider, model, llamacppBaseUrl, baseUrl, headers, apiKeyEnv } = getActiveModelConfig();
   debugLog('createChatModel → provider:', provider, 'model:', model);
   if (provider === 'LLAMACPP') {
     // Local server — no API key required.
     return new ChatOpenAI({ model, configuration: { baseURL: llamacppBaseUrl }, callbacks: aiFileLogCallbacks });
   }
+  if (provider === 'OPENAI_COMPATIBLE') {
+    // The OpenAI client insists on a key, so a server without one gets a placeholder.
+    // A key named by `apiKeyEnv` is read from the environment, never from config.yaml.
+    const keyVar = apiKeyEnv?.trim();
+    if (keyVar) warnIfApiKeyMissing(keyVar);
+    return new ChatOpenAI({
+      model,
+      apiKey: (keyVar && process.env[keyVar]) || 'not-needed',
+      configuration: { baseURL: baseUrl?.trim() || undefined, defaultHeaders: headers },
+      callbacks: aiFileLogCallbacks,
+    });
+  }
+  if (provider === 'OLLAMA') {
+    // Chat goes through the daemon's OpenAI-compatible endpoint; it needs no key.
+    return new ChatOpenAI({
+      model,
+      apiKey: 'ollama',
+      configuration: { baseURL: `${ollamaRootUrl(baseUrl)}/v1` },
+      callbacks: aiFileLogCallbacks,
+    });
+  }
   if (provider === 'OPENAI') {
     warnIfApiKeyMissing('OPENAI_API_KEY');
     return new ChatOpenAI({ model, callbacks: aiFileLogCallbacks });
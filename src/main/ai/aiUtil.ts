@@ -12,7 +12,9 @@ import { getConfig } from '../configMgr';
 import { recordUsage } from './usageTracker';
 import { getActiveModel, getActiveProvider } from './aiModel';
 import { DEFAULT_AI_REWRITE_PERSONA, AI_REWRITE_PROMPT, AI_REWRITE_SELECTION_PROMPT, AI_REWRITE_CONTEXT_NOTE } from '../../shared/ai/aiPrompts';
-import { preprocessPrompt, type PreprocessResult } from './promptPreprocess';
+import { preprocessPrompt, FILE_DIRECTIVE_REGEX, type PreprocessResult } from './promptPreprocess';
+import { extractNotesDirective, resolveNotesFolder, retrieveNotes, formatRetrievedNotes, formatSources, type NoteChunk } from './noteRetrieval';
+import { parseIgnoredPaths } from '../../shared/searchHelpers';
 import { ALLOW_DEEP_AGENTS, invokeDeepAgent, streamDeepAgent } from './deepAgent';
 import { readIndexYaml } from '../indexUtil';
 import { splitFrontMatter, assembleFrontMatter } from '../../shared/frontMatterUtil';
@@ -157,8 +159,9 @@ export async function gatherConversationHistory(
       const humanFile = path.join(walker, HUMAN_FILENAME);
       try {
         const rawContent = await fs.readFile(humanFile, 'utf-8');
-        // Historical turns: includeImages=false to avoid re-sending costly images
-        const processed = await preprocessPrompt(rawContent, walker, false);
+        // Historical turns: includeImages=false to avoid re-sending costly images.
+        // Notes retrieved for a past turn are not retrieved again; its answer cites them.
+        const processed = await preprocessPrompt(extractNotesDirective(rawContent).text, walker, false);
         history.unshift(new HumanMessage(processed.text));
       } catch {
         // HUMAN.md missing or unreadable — stop here
@@ -206,7 +209,18 @@ export async function handleAskAI(
   logger.log("running handleAskAI()");
   // Preprocess the prompt first (before creating folders) so we can
   // detect images and validate vision support before any side effects.
-  const processedPrompt = await preprocessPrompt(prompt, parentFolderPath);
+  const notes = extractNotesDirective(prompt);
+  const processedPrompt = await preprocessPrompt(notes.text, parentFolderPath);
+
+  // "Ask my notes": a #notes: line appends the best-matching note chunks for the model to cite.
+  let retrieved: NoteChunk[] = [];
+  const rootPath = getConfig().browseFolder || parentFolderPath;
+  if (notes.folder !== null) {
+    const question = notes.text.split('\n').filter(line => !FILE_DIRECTIVE_REGEX.test(line)).join('\n');
+    const ignoredPaths = parseIgnoredPaths(getConfig().settings?.ignoredPaths ?? '');
+    retrieved = await retrieveNotes(question, resolveNotesFolder(notes.folder, rootPath), ignoredPaths);
+    processedPrompt.text += `\n\n${formatRetrievedNotes(retrieved, rootPath)}`;
+  }
 
   // If the prompt contains images, verify the selected model supports vision.
   // Skip this check when a scripted answer is queued (Playwright tests): we
@@ -284,7 +298,8 @@ export async function handleAskAI(
     await recordUsage(getActiveProvider(), usage.input_tokens, usage.output_tokens);
   }
 
-  // Write the response
+  // Write the response, with links to the notes it cites
+  content += formatSources(retrieved, content, responseFolder, rootPath);
   await fs.writeFile(outputPath, content, 'utf-8');
 
   // Write thinking content (if any) to THINK.md alongside AI.md
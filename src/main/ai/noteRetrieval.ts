@@ -0,0 +1,264 @@
+/**
+ * "Ask my notes" — retrieval for AI Chat.
+ *
+ * A `#notes:<folder>` line in HUMAN.md asks for the prompt to be answered from
+ * the notes under that folder: relative to the browse root, or absolute, with a
+ * bare `#notes:` meaning the whole browse root. The .md and .txt files there are
+ * split into chunks at their headings, the chunks are ranked against the prompt
+ * with the BM25 scoring content search uses (searchRanking.ts), and the best few
+ * are appended to the prompt in a numbered `<retrieved_notes>` block the model is
+ * asked to cite as [1], [2], ….
+ *
+ * Citations are not left to the model to turn into links: once the answer is in,
+ * {@link formatSources} appends a Sources list of the chunks it cited, each linked
+ * to its file and heading relative to the AI.md it is written into, so every
+ * source is one click away in the rendered answer.
+ *
+ * Like promptPreprocess.ts, this module is free of Electron and LangChain imports
+ * so it can be unit-tested in a plain Node environment.
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { scanLines, extractHeadingTree } from '../../shared/tocUtil';
+import { mapWithConcurrency } from '../../shared/asyncUtil';
+import { HUMAN_FILENAME, AI_FILENAME, THINK_FILENAME } from '../../shared/specialFiles';
+import { analyzeDocument, bm25Scores } from '../searchRanking';
+import { getSearchIndexSnapshot } from '../searchIndex';
+import { listVaultFiles } from '../linkIndex';
+import { encodeLinkPath } from '../linkRewrite';
+import type { MarkdownHeadingNode } from '../../shared/types';
+
+/** Matches a #notes: directive on its own line. Captures the folder after the colon (may be empty). */
+export const NOTES_DIRECTIVE_REGEX = /^\s*#notes:\s*(.*?)\s*$/;
+
+/** Chunks given to the model. */
+const MAX_RETRIEVED_CHUNKS = 8;
+
+/** Chunks taken from any one file, so one long note can't crowd out the rest. */
+const MAX_CHUNKS_PER_FILE = 3;
+
+/** A section longer than this is split at blank lines into several chunks. */
+const MAX_CHUNK_CHARS = 2000;
+
+/** Notes larger than this are skipped rather than read whole. */
+const MAX_NOTE_BYTES = 1024 * 1024;
+
+/** Files read concurrently (see SEARCH_FILE_CONCURRENCY in search.ts). */
+const RETRIEVAL_FILE_CONCURRENCY = 32;
+
+/** Question words that say nothing about which note answers it. */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me',
+  'my', 'no', 'not', 'of', 'on', 'or', 'our', 'please', 'so', 'than', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'us', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/** Same tokenizer as searchRanking.ts and the search index. */
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+/** A piece of a note: the text under one heading (or part of it, for a long section). */
+export interface NoteChunk {
+  filePath: string;
+  /** The heading the chunk sits under, or null for text before the first heading. */
+  heading: string | null;
+  /** The heading's anchor, as the renderer's heading ids are made. */
+  slug: string | null;
+  /** 1-based line the chunk starts on. */
+  line: number;
+  text: string;
+}
+
+/**
+ * Split `text` into its `#notes:` directive and the rest. `folder` is the first
+ * directive's argument ('' for a bare `#notes:`), or null without one. Every
+ * directive line is removed from the returned text.
+ */
+export function extractNotesDirective(text: string): { text: string; folder: string | null } {
+  let folder: string | null = null;
+  const kept: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = NOTES_DIRECTIVE_REGEX.exec(line);
+    if (match) folder ??= match[1] ?? '';
+    else kept.push(line);
+  }
+  return folder === null ? { text, folder } : { text: kept.join('\n'), folder };
+}
+
+/** The folder a `#notes:` argument names: absolute as written, otherwise under `rootPath`. */
+export function resolveNotesFolder(folder: string, rootPath: string): string {
+  return path.isAbsolute(folder) ? folder : path.resolve(rootPath, folder);
+}
+
+/** The headings of an extractHeadingTree result, in document order. */
+function flattenHeadings(nodes: MarkdownHeadingNode[]): MarkdownHeadingNode[] {
+  return nodes.flatMap(node => [node, ...flattenHeadings(node.children ?? [])]);
+}
+
+/**
+ * Adds the section `lines` (starting at 1-based `startLine`) to `chunks`, split
+ * at blank lines once a piece grows past {@link MAX_CHUNK_CHARS}. Blank pieces
+ * are dropped.
+ */
+function pushSection(chunks: NoteChunk[], base: Omit<NoteChunk, 'line' | 'text'>, lines: string[], startLine: number): void {
+  let pieceStart = startLine;
+  let piece: string[] = [];
+  const emit = () => {
+    const text = piece.join('\n').trim();
+    if (text) chunks.push({ ...base, line: pieceStart, text });
+  };
+  lines.forEach((line, i) => {
+    if (line.trim() === '' && piece.join('\n').length > MAX_CHUNK_CHARS) {
+      emit();
+      piece = [];
+      pieceStart = startLine + i + 1;
+    } else {
+      piece.push(line);
+    }
+  });
+  emit();
+}
+
+/**
+ * `content` split at the headings tocUtil's extractHeadingTree finds (ATX and
+ * setext, outside front matter and code), each chunk carrying that heading's
+ * text and slug, with sections over {@link MAX_CHUNK_CHARS} split again at blank
+ * lines. Blank chunks are dropped.
+ */
+export function chunkNote(filePath: string, content: string): NoteChunk[] {
+  const scanned = scanLines(content);
+  const lines = scanned.map(info => info.text);
+  const bodyStart = scanned.filter(info => info.frontMatter).length + 1;
+  const sections = [
+    { heading: null, slug: null, line: bodyStart },
+    ...flattenHeadings(extractHeadingTree(filePath, content)),
+  ];
+  const chunks: NoteChunk[] = [];
+  sections.forEach((section, i) => {
+    const endLine = sections[i + 1]?.line ?? lines.length + 1;
+    pushSection(chunks, { filePath, heading: section.heading, slug: section.slug }, lines.slice(section.line - 1, endLine - 1), section.line);
+  });
+  return chunks;
+}
+
+/** The distinct words of `question` worth ranking by. */
+export function questionTerms(question: string): string[] {
+  const tokens = (question.toLowerCase().match(TOKEN_RE) ?? []).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+  return [...new Set(tokens)];
+}
+
+/**
+ * The chunks most relevant to `question`, best first: BM25 over the chunks (a
+ * heading hit counts extra), at most {@link MAX_CHUNKS_PER_FILE} per file. Chunks
+ * sharing no word with the question are never returned.
+ */
+export function rankChunks(question: string, chunks: NoteChunk[], limit = MAX_RETRIEVED_CHUNKS): NoteChunk[] {
+  const terms = questionTerms(question);
+  if (terms.length === 0 || chunks.length === 0) return [];
+  const scores = bm25Scores(chunks.map(c => analyzeDocument(c.text, terms)), chunks.length);
+  const ranked = chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] ?? 0 }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const perFile = new Map<string, number>();
+  const picked: NoteChunk[] = [];
+  for (const { chunk } of ranked) {
+    const count = perFile.get(chunk.filePath) ?? 0;
+    if (count >= MAX_CHUNKS_PER_FILE) continue;
+    perFile.set(chunk.filePath, count + 1);
+    picked.push(chunk);
+    if (picked.length >= limit) break;
+  }
+  return picked;
+}
+
+/** Whether `filePath` is a note retrieval reads: .md or .txt, and not a chat turn file. */
+function isNoteFile(filePath: string): boolean {
+  const name = path.basename(filePath);
+  if (name === HUMAN_FILENAME || name === AI_FILENAME || name === THINK_FILENAME) return false;
+  const ext = path.extname(name).toLowerCase();
+  return ext === '.md' || ext === '.txt';
+}
+
+/**
+ * The notes under `folderPath` that could hold `terms`. The search index narrows
+ * them to the files containing at least one term when it can answer for the
+ * folder; otherwise the folder is crawled.
+ */
+async function listNoteFiles(folderPath: string, ignoredPaths: string[], terms: string[]): Promise<string[]> {
+  const snapshot = getSearchIndexSnapshot(folderPath, ignoredPaths);
+  if (snapshot) {
+    const files = new Set<string>();
+    for (const term of terms) {
+      const candidates = snapshot.candidates(term, 'literal');
+      if (candidates === null) return snapshot.listFiles().filter(isNoteFile);
+      for (const f of candidates) files.add(f);
+    }
+    return [...files].filter(isNoteFile);
+  }
+  return (await listVaultFiles(folderPath, ignoredPaths)).filter(isNoteFile);
+}
+
+/** The chunks of the notes under `folderPath` most relevant to `question`, best first. */
+export async function retrieveNotes(question: string, folderPath: string, ignoredPaths: string[]): Promise<NoteChunk[]> {
+  const terms = questionTerms(question);
+  if (terms.length === 0) return [];
+  const files = await listNoteFiles(folderPath, ignoredPaths, terms);
+  const perFile = await mapWithConcurrency(files, RETRIEVAL_FILE_CONCURRENCY, async (filePath) => {
+    try {
+      const { size } = await fs.stat(filePath);
+      if (size > MAX_NOTE_BYTES) return [];
+      return chunkNote(filePath, await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return []; // Unreadable or gone since the listing — nothing to retrieve from it.
+    }
+  });
+  return rankChunks(question, perFile.flat());
+}
+
+/** Where `chunk` is, for the model and the Sources list: its path from `rootPath` and its heading. */
+function chunkLabel(chunk: NoteChunk, rootPath: string): string {
+  const rel = path.relative(rootPath, chunk.filePath).split(path.sep).join('/');
+  return chunk.heading ? `${rel} › ${chunk.heading}` : rel;
+}
+
+/**
+ * The `<retrieved_notes>` block for `chunks`, numbered from 1 with their source,
+ * and the instruction to answer from them with [n] citations. Empty when nothing
+ * was retrieved, in which case the model is told so instead.
+ */
+export function formatRetrievedNotes(chunks: NoteChunk[], rootPath: string): string {
+  if (chunks.length === 0) {
+    return '<retrieved_notes>\nNo notes matched this question.\n</retrieved_notes>\n\n'
+      + 'Say that the notes contain nothing on this, then answer as best you can.';
+  }
+  const notes = chunks.map((chunk, i) =>
+    `<note id="${i + 1}" source="${chunkLabel(chunk, rootPath)}">\n${chunk.text}\n</note>`);
+  return `<retrieved_notes>\n${notes.join('\n')}\n</retrieved_notes>\n\n`
+    + 'Answer from the notes above. Cite the notes you use by number in square brackets, '
+    + 'like [1] or [2][3], right after the statement they support. If the notes do not cover '
+    + 'the question, say so.';
+}
+
+/**
+ * A Sources section for `answer`: each of `chunks` the answer cites as [n],
+ * linked to its file and heading relative to `aiFolder` (the folder of the AI.md
+ * it goes into). When the answer cites none of them, every chunk is listed, since
+ * they were what it was given. Empty without chunks.
+ */
+export function formatSources(chunks: NoteChunk[], answer: string, aiFolder: string, rootPath: string): string {
+  if (chunks.length === 0) return '';
+  const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1])));
+  const listed = chunks
+    .map((chunk, i) => ({ chunk, n: i + 1 }))
+    .filter(({ n }) => cited.size === 0 || cited.has(n));
+  if (listed.length === 0) return '';
+  const lines = listed.map(({ chunk, n }) => {
+    const rel = path.relative(aiFolder, chunk.filePath).split(path.sep).join('/');
+    const target = encodeLinkPath(rel) + (chunk.slug ? `#${chunk.slug}` : '');
+    return `${n}. [${chunkLabel(chunk, rootPath)}](${target})`;
+  });
+  return `\n\n---\n\n**Sources**\n\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Approval gate for the mutating Agentic Mode tools (mk_write_file,
+ * mk_create_file, mk_delete_file and mk_delete_folder in tools.ts).
+ *
+ * Once a call passes `validatePath`, the tool describes what it is about to do
+ * and awaits {@link requestToolApproval} before touching the disk. That parks
+ * the LangGraph run on the tool call while the renderer shows the change — the
+ * proposed write as a diff against the file, or what a delete would remove —
+ * and the user approves it, approves an edited version of the content, or
+ * rejects it. The decision comes back through {@link resolveToolApproval}, and
+ * the tool reports what happened as its result, so the model sees the outcome.
+ *
+ * Approving with "always allow in this folder" adds a session rule: later calls
+ * on paths in that folder or below go ahead without asking, until the app quits.
+ *
+ * main.ts supplies the prompter that forwards requests to the window. Without
+ * one, calls are rejected rather than let through unseen.
+ */
+import path from 'node:path';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../../shared/shared';
+import { logger } from '../../shared/logUtil';
+
+/**
+ * Shows requests to the user (false when there is nowhere to show them), and
+ * takes back ones no longer waiting.
+ */
+export interface ToolApprovalPrompter {
+  ask: (request: ToolApprovalRequest) => boolean;
+  dismiss: (ids: number[]) => void;
+}
+
+let prompter: ToolApprovalPrompter | null = null;
+let nextId = 1;
+/** Requests waiting for an answer, with the folder an "always allow" answer would cover. */
+const pending = new Map<number, { folder: string; resolve: (decision: ToolApprovalDecision) => void }>();
+/** Folders the user chose to always allow this session. */
+const allowedFolders = new Set<string>();
+
+/** Route approval requests to `p` (null: reject them all). */
+export function setToolApprovalPrompter(p: ToolApprovalPrompter | null): void {
+  prompter = p;
+}
+
+/** Whether `folder` is covered by an "always allow" rule: one of them, or under one. */
+function isAlwaysAllowed(folder: string): boolean {
+  for (const allowed of allowedFolders) {
+    if (folder === allowed || folder.startsWith(allowed + path.sep)) return true;
+  }
+  return false;
+}
+
+/**
+ * Ask the user about a proposed change and wait for the answer. Calls on paths
+ * under an "always allow" folder are approved without asking.
+ */
+export function requestToolApproval(proposal: Omit<ToolApprovalRequest, 'id'>): Promise<ToolApprovalDecision> {
+  if (isAlwaysAllowed(proposal.folder)) return Promise.resolve({ action: 'approve' });
+  const request: ToolApprovalRequest = { ...proposal, id: nextId++ };
+  return new Promise((resolve) => {
+    pending.set(request.id, { folder: request.folder, resolve });
+    if (!prompter?.ask(request)) {
+      pending.delete(request.id);
+      resolve({ action: 'reject', reason: 'There is no window to ask the user for approval.' });
+    }
+  });
+}
+
+/** The user's answer to request `id`. Answers to requests no longer waiting are ignored. */
+export function resolveToolApproval(id: number, decision: ToolApprovalDecision): void {
+  const entry = pending.get(id);
+  if (!entry) {
+    logger.warn(`toolApproval: no pending request ${id}`);
+    return;
+  }
+  pending.delete(id);
+  if (decision.action === 'approve' && decision.alwaysAllowFolder) allowedFolders.add(path.resolve(entry.folder));
+  entry.resolve(decision);
+}
+
+/**
+ * Reject every request still waiting, e.g. when the AI request they belong to is
+ * cancelled or has ended, and take them off the screen.
+ */
+export function cancelToolApprovals(): void {
+  if (pending.size === 0) return;
+  const ids = [...pending.keys()];
+  for (const { resolve } of pending.values()) resolve({ action: 'reject', reason: 'The request was cancelled.' });
+  pending.clear();
+  prompter?.dismiss(ids);
+}
+
+/** The session's "always allow" folders, sorted. */
+export function listAlwaysAllowedFolders(): string[] {
+  return [...allowedFolders].sort();
+}
+
+/** Forget every "always allow" rule. */
+export function clearAlwaysAllowedFolders(): void {
+  allowedFolders.clear();
+}
+
+/**
+ * The tool result for a rejected call: the model is told nothing was changed,
+ * and why, when the user said.
+ */
+export function rejectionResult(decision: Extract<ToolApprovalDecision, { action: 'reject' }>, what: string): string {
+  const reason = decision.reason?.trim();
+  return `The user rejected ${what}, so nothing was changed.${reason ? ` Their reason: ${reason}` : ''}`;
+}
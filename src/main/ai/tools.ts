@@ -1,6 +1,8 @@
 /**
  * LangChain tools for the AI agent.
- * Provides read-only file system access scoped to the user's home directory.
+ * Provides file system access scoped to the user-configured allowed folders.
+ * Every write, create and delete waits for the user's approval first (see
+ * toolApproval.ts).
  *
  * This module runs in the main process only — never import from the renderer.
  */
@@ -10,6 +12,7 @@ import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { getConfig } from '../configMgr';
 import { logger } from '../../shared/logUtil';
+import { requestToolApproval, rejectionResult } from './toolApproval';
 
 /** When true, log file-access tool invocations (file names read / listed) to the console. */
 const DEBUG = true as boolean;
@@ -118,21 +121,20 @@ export async function validatePath(rawPath: string): Promise<string> {
 // ---------------------------------------------------------------------------
 
 /**
- * Delete one or more files matching a (possibly wildcard) path.
+ * The files a (possibly wildcard) path names.
  * The path must already be validated via `validatePath`.
- * Returns the number of files deleted.  Throws if zero files match.
+ * Throws if zero files match.
  */
-async function globDelete(validatedPath: string): Promise<number> {
+async function globMatches(validatedPath: string): Promise<string[]> {
   const starIdx = validatedPath.indexOf('*');
 
   if (starIdx === -1) {
-    // No wildcard — single-file delete.
+    // No wildcard — a single file.
     const stat = await fs.stat(validatedPath);
     if (!stat.isFile()) {
       throw new Error(`"${validatedPath}" is not a regular file.`);
     }
-    await fs.unlink(validatedPath);
-    return 1;
+    return [validatedPath];
   }
 
   // Wildcard — split into directory + filename pattern.
@@ -151,10 +153,12 @@ async function globDelete(validatedPath: string): Promise<number> {
     throw new Error(`No files matched the pattern "${pattern}" in "${dir}".`);
   }
 
-  await Promise.all(matches.map((e) => fs.unlink(path.join(dir, e.name))));
-  return matches.length;
+  return matches.map((e) => path.join(dir, e.name)).sort();
 }
 
+/** The tool result's note on content the user edited before approving it. */
+const EDITED_NOTE = ' The user edited your content before approving it; read the file to see what it now holds.';
+
 // ---------------------------------------------------------------------------
 // Tools
 // ---------------------------------------------------------------------------
@@ -280,8 +284,27 @@ export const writeFileTool = tool(
       return `Error: "${filePath}" is not a regular file.`;
     }
 
-    await fs.writeFile(safe, content, 'utf-8');
-    return `Successfully wrote ${content.length} characters to ${filePath}`;
+    const before = await fs.readFile(safe, 'utf-8');
+    const decision = await requestToolApproval({
+      tool: 'mk_write_file',
+      kind: 'write',
+      path: safe,
+      before,
+      content,
+      folder: path.dirname(safe),
+    });
+    if (decision.action === 'reject') return rejectionResult(decision, `the write to ${filePath}`);
+    const written = decision.action === 'edit' ? decision.content : content;
+
+    // The user approved a diff against `before`; a save made while they were
+    // deciding must not be silently overwritten.
+    const current = await fs.readFile(safe, 'utf-8').catch(() => null);
+    if (current !== before) {
+      return `Error: "${filePath}" changed while the user was reviewing the write, so nothing was written. Read the file again before retrying.`;
+    }
+
+    await fs.writeFile(safe, written, 'utf-8');
+    return `Successfully wrote ${written.length} characters to ${filePath}.${decision.action === 'edit' ? EDITED_NOTE : ''}`;
   },
   {
     name: 'mk_write_file',
@@ -342,8 +365,19 @@ export const createFileTool = tool(
       throw new Error(`Parent path "${parentDir}" is not a directory.`);
     }
 
-    await fs.writeFile(resolved, content, 'utf-8');
-    return `Successfully created ${filePath} (${content.length} characters)`;
+    const decision = await requestToolApproval({
+      tool: 'mk_create_file',
+      kind: 'create',
+      path: resolved,
+      content,
+      folder: parentDir,
+    });
+    if (decision.action === 'reject') return rejectionResult(decision, `creating ${filePath}`);
+    const written = decision.action === 'edit' ? decision.content : content;
+
+    // 'wx': the file may have appeared while the user was deciding.
+    await fs.writeFile(resolved, written, { encoding: 'utf-8', flag: 'wx' });
+    return `Successfully created ${filePath} (${written.length} characters).${decision.action === 'edit' ? EDITED_NOTE : ''}`;
   },
   {
     name: 'mk_create_file',
@@ -379,8 +413,19 @@ export const deleteFileTool = tool(
     const validated = await validatePath(filePath);
     if (DEBUG) logger.log(`[ai/tools] mk_delete_file: ${filePath}  (validated: ${validated})`);
 
-    const count = await globDelete(validated);
+    const targets = await globMatches(validated);
     const dir = path.dirname(validated);
+    const decision = await requestToolApproval({
+      tool: 'mk_delete_file',
+      kind: 'delete-file',
+      path: validated,
+      targets,
+      folder: dir,
+    });
+    if (decision.action === 'reject') return rejectionResult(decision, `deleting ${filePath}`);
+
+    await Promise.all(targets.map((target) => fs.unlink(target)));
+    const count = targets.length;
     return `Deleted ${count} file${count === 1 ? '' : 's'} from ${dir}`;
   },
   {
@@ -421,6 +466,15 @@ export const deleteFolderTool = tool(
       throw new Error(`"${folderPath}" is not a directory. Use mk_delete_file to remove regular files.`);
     }
 
+    const decision = await requestToolApproval({
+      tool: 'mk_delete_folder',
+      kind: 'delete-folder',
+      path: safe,
+      entryCount: (await fs.readdir(safe, { recursive: true })).length,
+      folder: path.dirname(safe),
+    });
+    if (decision.action === 'reject') return rejectionResult(decision, `deleting the folder ${folderPath}`);
+
     await fs.rm(safe, { recursive: true, force: true });
     return `Successfully deleted folder ${folderPath} and all of its contents.`;
   },
@@ -49,7 +49,7 @@ interface PricingEntry {
  * per-model, so each provider's cheapest tier is applied as a conservative
  * default.
  */
-/** Fallback pricing for unknown providers (also used for local llama.cpp). */
+/** Fallback pricing for unknown providers (also used for local servers). */
 const DEFAULT_PRICING: PricingEntry = { inputPer1M: 0, outputPer1M: 0 };
 
 const PROVIDER_DEFAULT_PRICING: Record<string, PricingEntry> = {
@@ -57,6 +57,8 @@ const PROVIDER_DEFAULT_PRICING: Record<string, PricingEntry> = {
   OPENAI:    { inputPer1M: 0.10,  outputPer1M: 0.40 },
   GOOGLE:    { inputPer1M: 0.075, outputPer1M: 0.30 },
   LLAMACPP:  DEFAULT_PRICING,
+  OPENAI_COMPATIBLE: DEFAULT_PRICING,
+  OLLAMA:    DEFAULT_PRICING,
 };
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,212 @@
+/**
+ * Broken-link report: checks every link in the markdown files under a folder
+ * and lists the ones that lead nowhere, with "did you mean" suggestions.
+ *
+ * A link counts as working when it would work where it is rendered: file links
+ * resolve as {@link resolveLinkTargets} resolves them (the same rules
+ * CustomAnchor navigates by), wikilinks also by name anywhere in the vault (as
+ * WikiLink resolves them), markdown image embeds resolve the way
+ * markdownImgResolver finds images (relative to the file, then walking up its
+ * parent folders), a `#section` must match a heading of the target file by
+ * the slug extractHeadingTree gives it, and a `#^block-id` one of its block
+ * ids. Suggestions come from the whole vault, so a target that was moved or
+ * renamed is found wherever it now lives.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import { slug } from 'github-slugger';
+import type { BrokenLink, BrokenLinkReport } from '../shared/shared';
+import type { MarkdownHeadingNode } from '../shared/types';
+import { parseLinks, type ParsedLink } from '../shared/linkParser';
+import { extractHeadingTree, listBlockIds } from '../shared/tocUtil';
+import { closestMatches } from '../shared/fuzzyMatch';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger } from '../shared/logUtil';
+import { crawlMarkdownFiles, findWikiCandidates, listVaultFiles, rankByProximity, resolveLinkTargets } from './linkIndex';
+
+/** Files read concurrently (see SEARCH_FILE_CONCURRENCY in search.ts). */
+const LINK_CHECK_CONCURRENCY = 32;
+
+/** Parent folders searched for an image (MAX_IMAGE_SEARCH_DEPTH in markdownImgResolver.tsx). */
+const MAX_IMAGE_SEARCH_DEPTH = 10;
+
+/** Longest context line kept per broken link. */
+const MAX_CONTEXT_CHARS = 200;
+
+interface Heading {
+  text: string;
+  slug: string;
+}
+
+/** What a `#` in a link to a markdown file can point at. */
+interface Anchors {
+  headings: Heading[];
+  blockIds: string[];
+}
+
+function flattenHeadings(nodes: MarkdownHeadingNode[], out: Heading[] = []): Heading[] {
+  for (const node of nodes) {
+    out.push({ text: node.heading, slug: node.slug });
+    if (node.children) flattenHeadings(node.children, out);
+  }
+  return out;
+}
+
+/**
+ * The paths markdownImgResolver tries for image `src` in the file at
+ * `sourcePath`, in order: the file's own folder, then each parent folder.
+ */
+export function imageCandidates(sourcePath: string, src: string): string[] {
+  const candidates: string[] = [];
+  let dir = path.dirname(sourcePath);
+  for (let depth = 0; depth <= MAX_IMAGE_SEARCH_DEPTH; depth++) {
+    candidates.push(path.join(dir, src));
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return candidates;
+}
+
+/** Whether `anchor` names one of `headings` — by slug, or by heading text as wikilinks write it. */
+export function matchesHeading(anchor: string, headings: Heading[]): boolean {
+  const anchorSlug = slug(anchor);
+  return headings.some(h => h.slug === anchor || h.slug === anchorSlug);
+}
+
+/** `target` relative to the folder of `sourcePath`, with '/' separators as links use. */
+function linkPathTo(sourcePath: string, target: string, extensionless: boolean): string {
+  const rel = path.relative(path.dirname(sourcePath), target).split(path.sep).join('/');
+  return extensionless ? stripMd(rel) : rel;
+}
+
+/** The name a candidate file is compared by: its file name, without `.md` for extensionless wikilinks. */
+function matchKey(filePath: string, extensionless: boolean): string {
+  const name = path.basename(filePath);
+  return extensionless ? stripMd(name) : name;
+}
+
+function stripMd(name: string): string {
+  return name.toLowerCase().endsWith('.md') ? name.slice(0, -3) : name;
+}
+
+/**
+ * Check the links of every markdown file under `folderPath`. `vaultRoot` is
+ * where wikilinks are resolved by name and suggestions are looked for; ignored
+ * paths are skipped throughout.
+ */
+export async function findBrokenLinks(folderPath: string, vaultRoot: string, ignoredPaths: string[]): Promise<BrokenLinkReport> {
+  const files = await crawlMarkdownFiles(folderPath, ignoredPaths);
+
+  // Many links share targets, so lookups are cached by path for the whole scan.
+  const existence = new Map<string, Promise<boolean>>();
+  const exists = (p: string): Promise<boolean> => {
+    let cached = existence.get(p);
+    if (!cached) {
+      cached = fs.promises.access(p).then(() => true, () => false);
+      existence.set(p, cached);
+    }
+    return cached;
+  };
+  const firstExisting = async (candidates: string[]): Promise<string | null> => {
+    for (const candidate of candidates) {
+      if (await exists(candidate)) return candidate;
+    }
+    return null;
+  };
+
+  const anchorsIn = (filePath: string, content: string): Anchors => ({
+    headings: flattenHeadings(extractHeadingTree(filePath, content)),
+    blockIds: listBlockIds(content),
+  });
+  const anchorCache = new Map<string, Promise<Anchors | null>>();
+  const anchorsOf = (filePath: string): Promise<Anchors | null> => {
+    let cached = anchorCache.get(filePath);
+    if (!cached) {
+      cached = fs.promises.readFile(filePath, 'utf-8').then(content => anchorsIn(filePath, content), () => null);
+      anchorCache.set(filePath, cached);
+    }
+    return cached;
+  };
+
+  // Crawled only when some link doesn't resolve relative to its own file.
+  const allFiles = () => listVaultFiles(vaultRoot, ignoredPaths);
+
+  const suggestFiles = async (sourcePath: string, link: ParsedLink, imageOnly: boolean): Promise<string[]> => {
+    // `[[note]]` means note.md, so it is matched and suggested without the extension.
+    const extensionless = link.kind === 'wiki' && path.extname(link.target) === '';
+    const candidates = (await allFiles()).filter(f => !imageOnly || path.extname(f).toLowerCase() !== '.md');
+    const anchor = link.anchor === null ? '' : `#${link.anchor}`;
+    return closestMatches(path.basename(link.target), candidates, f => matchKey(f, extensionless))
+      .map(f => linkPathTo(sourcePath, f, extensionless) + anchor);
+  };
+
+  const checkLink = async (sourcePath: string, content: string, link: ParsedLink): Promise<Omit<BrokenLink, 'sourcePath' | 'line' | 'context'> | null> => {
+    const written = link.anchor === null ? link.target : `${link.target}#${link.anchor}`;
+
+    if (link.kind === 'markdown' && link.embed) {
+      if (await firstExisting(imageCandidates(sourcePath, link.target))) return null;
+      return { link: written, reason: 'missing-image', suggestions: await suggestFiles(sourcePath, link, true) };
+    }
+
+    let target = await firstExisting(resolveLinkTargets(sourcePath, link));
+    if (!target && link.kind === 'wiki' && link.target !== '') {
+      target = rankByProximity(sourcePath, findWikiCandidates(vaultRoot, link.target, await allFiles()))[0] ?? null;
+    }
+    if (!target) {
+      return { link: written, reason: 'missing-file', suggestions: await suggestFiles(sourcePath, link, false) };
+    }
+
+    if (!link.anchor || path.extname(target).toLowerCase() !== '.md') return null;
+    const anchors = target === sourcePath ? anchorsIn(sourcePath, content) : await anchorsOf(target);
+    // A directory or unreadable file has no headings or blocks to check against.
+    if (!anchors) return null;
+    if (link.anchor.startsWith('^')) {
+      const id = link.anchor.slice(1);
+      if (anchors.blockIds.includes(id)) return null;
+      const suggestions = closestMatches(id, anchors.blockIds, b => b).map(b => `${link.target}#^${b}`);
+      return { link: written, reason: 'missing-block', suggestions };
+    }
+    const { headings } = anchors;
+    if (matchesHeading(link.anchor, headings)) return null;
+    const wiki = link.kind === 'wiki';
+    const suggestions = closestMatches(link.anchor, headings, h => (wiki ? h.text : h.slug))
+      .map(h => `${link.target}#${wiki ? h.text : h.slug}`);
+    // Repeated headings share a text, so they would suggest the same thing.
+    return { link: written, reason: 'missing-heading', suggestions: [...new Set(suggestions)] };
+  };
+
+  let totalLinks = 0;
+  const perFile = await mapWithConcurrency(files, LINK_CHECK_CONCURRENCY, async (sourcePath): Promise<BrokenLink[]> => {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(sourcePath, 'utf-8');
+    } catch (err) {
+      logger.debug('brokenLinks: skipping unreadable file', sourcePath, err);
+      return [];
+    }
+    const links = parseLinks(content);
+    totalLinks += links.length;
+    const lines = content.split('\n');
+    const broken: BrokenLink[] = [];
+    for (const link of links) {
+      const problem = await checkLink(sourcePath, content, link);
+      // A line that links the same missing place twice is one problem, not two.
+      if (!problem || broken.some(b => b.line === link.line && b.link === problem.link)) continue;
+      const lineText = (lines[link.line - 1] ?? '').trim();
+      broken.push({
+        sourcePath,
+        line: link.line,
+        context: lineText.length > MAX_CONTEXT_CHARS ? `${lineText.slice(0, MAX_CONTEXT_CHARS)}…` : lineText,
+        ...problem,
+      });
+    }
+    return broken;
+  });
+
+  return {
+    brokenLinks: perFile.flat().sort((a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line),
+    totalFiles: files.length,
+    totalLinks,
+  };
+}
@@ -0,0 +1,645 @@
+/**
+ * iCalendar (`.ics`, RFC 5545) export and import for calendar items.
+ *
+ * Export writes one VEVENT per calendar file, straight from its front matter
+ * (see parseCalendarItem): a recurring item keeps its `rrule:` as an RRULE, so
+ * the receiving calendar does the expansion, rather than getting the window of
+ * occurrences calendarLoader expands for display. Times are written "floating"
+ * (no time zone), which is what `due`/`start` mean: wall-clock time wherever
+ * the calendar is viewed — unless the item has a `tz:`, whose name then goes
+ * out as the times' TZID, with a VTIMEZONE describing the zone's offsets and
+ * daylight-saving rules. Importing reads a TZID that names an IANA zone back
+ * into `tz:`; other TZIDs are taken as local wall-clock time.
+ *
+ * Import reads the VEVENTs of a `.ics` file and writes each one as a calendar
+ * markdown file: the front matter {@link injectCalendarFrontMatter} creates,
+ * filled in with the event's date, time, duration and recurrence, and the
+ * event's description as the body. Excluded dates become `exdate:`, and an
+ * edited occurrence (a VEVENT with the series' UID and a RECURRENCE-ID) becomes
+ * an entry of `overrides:`; export writes them back the same way. What the
+ * front-matter format can't express (extra dates, rule parts such as BYMONTH or
+ * BYWEEKNO) is reported back rather than silently dropped.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import { createHash } from 'node:crypto';
+import type { CalendarExportResult, CalendarImportResult } from '../shared/shared';
+import {
+  formatDueDate,
+  formatStartTime,
+  injectCalendarFrontMatter,
+  setDueProperty,
+  setDurationProperty,
+  setRRuleProperty,
+  setStartProperty,
+  coerceDueDate,
+  type OccurrenceOverride,
+  type RRuleProps,
+} from '../shared/calendarUtil';
+import { removeFrontMatterProperty, setFrontMatterProperty } from '../shared/frontMatterUtil';
+import { isValidTimeZone, offsetAt, wallClockIn, zonedTimeToEpoch, zoneTransitionsIn, type ZoneTransition } from '../shared/timeZoneUtil';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger } from '../shared/logUtil';
+import { parseCalendarItem, type CalendarItem, type RRuleOverride } from './calendarLoader';
+
+/** Cap simultaneous file reads (CALENDAR_READ_CONCURRENCY in calendarLoader.ts). */
+const ICS_READ_CONCURRENCY = 50;
+
+/** Longest content line, in octets, before it is folded (RFC 5545 §3.1). */
+const MAX_LINE_OCTETS = 75;
+
+/** Longest file name (without `.md`) an imported event gets. */
+const MAX_IMPORT_NAME_CHARS = 100;
+
+const ICS_FREQS = new Set(['daily', 'weekly', 'monthly', 'yearly']);
+const ICS_WEEKDAYS = new Set(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+
+/** A BYDAY entry: a weekday code, optionally numbered within the month or year (`-1FR`). */
+const ICS_BYDAY_RE = /^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/;
+
+/** RRULE parts that the `rrule:` front matter has a field for. */
+const SUPPORTED_RULE_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'BYMONTHDAY', 'BYSETPOS', 'WKST']);
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+function icsDate(d: Date): string {
+  return `${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}`;
+}
+
+function icsUtcDateTime(d: Date): string {
+  return `${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}T${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}${pad2(d.getUTCSeconds())}Z`;
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Split a content line into 75-octet pieces, continued on lines starting with a space. */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to their leading space.
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+/** `hours` as an ICS DURATION, to the minute (e.g. `PT1H30M`). */
+function icsDuration(hours: number): string {
+  const totalMinutes = Math.max(1, Math.round(hours * 60));
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `PT${h ? `${h}H` : ''}${m ? `${m}M` : ''}`;
+}
+
+/** The RRULE value for an item's `rrule:` block, or null when its `freq` isn't one the app expands. */
+function icsRRule(item: CalendarItem): string | null {
+  const rrule = item.rrule;
+  const freq = rrule?.freq?.toLowerCase();
+  if (!rrule || !freq || !ICS_FREQS.has(freq)) return null;
+  const parts = [`FREQ=${freq.toUpperCase()}`];
+  if (rrule.interval && rrule.interval > 1) parts.push(`INTERVAL=${rrule.interval}`);
+  const byday = (rrule.byday ?? '').split(',').map(d => d.trim().toUpperCase()).filter(d => ICS_BYDAY_RE.test(d));
+  if (byday.length > 0) parts.push(`BYDAY=${byday.join(',')}`);
+  if (rrule.bymonthday) parts.push(`BYMONTHDAY=${rrule.bymonthday.join(',')}`);
+  if (rrule.bysetpos) parts.push(`BYSETPOS=${rrule.bysetpos.join(',')}`);
+  const until = rrule.until ? coerceDueDate(rrule.until) : null;
+  // UNTIL must be the same kind of value as DTSTART: a date for all-day items, and a
+  // floating date-time for timed ones — the end of the until day, as calendarLoader reads it.
+  // A zoned DTSTART needs it in UTC (RFC 5545 §3.3.10): the end of that day in the zone.
+  if (until && item.startTime && item.timeZone) {
+    const end = zonedTimeToEpoch({ year: until.getFullYear(), month: until.getMonth() + 1, day: until.getDate(), hours: 23, minutes: 59, seconds: 59 }, item.timeZone);
+    parts.push(`UNTIL=${icsUtcDateTime(new Date(end))}`);
+  } else if (until) {
+    parts.push(`UNTIL=${icsDate(until)}${item.startTime ? 'T235959' : ''}`);
+  }
+  if (rrule.count) parts.push(`COUNT=${rrule.count}`);
+  if (rrule.wkst) parts.push(`WKST=${rrule.wkst}`);
+  return parts.join(';');
+}
+
+/** A stable UID per file, so re-exporting updates the events a calendar already imported. */
+function icsUid(filePath: string): string {
+  return `${createHash('sha1').update(filePath).digest('hex').slice(0, 20)}@mkbrowser`;
+}
+
+/** A DATE-TIME on `day` at `time`, as the wall-clock the item's times are written in. */
+function icsDateTime(day: Date, time: { hours: number; minutes: number }): string {
+  return `${icsDate(day)}T${pad2(time.hours)}${pad2(time.minutes)}00`;
+}
+
+/** The TZID parameter of an item's timed values: its `tz:`, or none for floating time. */
+function tzParam(item: CalendarItem): string {
+  return item.timeZone ? `;TZID=${item.timeZone}` : '';
+}
+
+/** A UTC offset as `±HHMM` (`±HHMMSS` when it has seconds), as TZOFFSETFROM/TZOFFSETTO take it. */
+function icsUtcOffset(ms: number): string {
+  const total = Math.round(Math.abs(ms) / 1000);
+  const seconds = total % 60;
+  return `${ms < 0 ? '-' : '+'}${pad2(Math.floor(total / 3600))}${pad2(Math.floor(total / 60) % 60)}${seconds ? pad2(seconds) : ''}`;
+}
+
+const ICS_WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * The BYMONTH and BYDAY that repeat a clock change at `at` every year: the same
+ * weekday of the month — the last one when it falls in the month's final week,
+ * since DST rules are written that way ("last Sunday in October"), otherwise the
+ * first, second, … ("second Sunday").
+ */
+function yearlyRule(at: ZoneTransition['at']): string {
+  const weekday = ICS_WEEKDAY_CODES[new Date(Date.UTC(at.year, at.month - 1, at.day)).getUTCDay()];
+  const daysInMonth = new Date(Date.UTC(at.year, at.month, 0)).getUTCDate();
+  const nth = at.day + 7 > daysInMonth ? -1 : Math.ceil(at.day / 7);
+  return `BYMONTH=${at.month};BYDAY=${nth}${weekday}`;
+}
+
+/** The rule `transition` follows, equal across the years a zone keeps the same rules. */
+function observanceKey(transition: ZoneTransition): string {
+  const { at } = transition;
+  return `${yearlyRule(at)}@${at.hours}:${at.minutes}:${at.seconds ?? 0} ${transition.offsetFrom}>${transition.offsetTo}`;
+}
+
+/**
+ * The STANDARD or DAYLIGHT observance for a clock change: starting at `first`
+ * and repeating every year (see {@link yearlyRule}) through `last` — for good
+ * when `last` is null, and not at all when it is `first`.
+ */
+function icsObservanceLines(first: ZoneTransition, last: ZoneTransition | null, daylight: boolean): string[] {
+  const { at } = first;
+  const kind = daylight ? 'DAYLIGHT' : 'STANDARD';
+  const lines = [
+    `BEGIN:${kind}`,
+    `DTSTART:${at.year}${pad2(at.month)}${pad2(at.day)}T${pad2(at.hours)}${pad2(at.minutes)}${pad2(at.seconds ?? 0)}`,
+    `TZOFFSETFROM:${icsUtcOffset(first.offsetFrom)}`,
+    `TZOFFSETTO:${icsUtcOffset(first.offsetTo)}`,
+  ];
+  if (last === null) {
+    lines.push(`RRULE:FREQ=YEARLY;${yearlyRule(at)}`);
+  } else if (last !== first) {
+    const { at: end } = last;
+    const until = Date.UTC(end.year, end.month - 1, end.day, end.hours, end.minutes, end.seconds ?? 0) - last.offsetFrom;
+    lines.push(`RRULE:FREQ=YEARLY;${yearlyRule(at)};UNTIL=${icsUtcDateTime(new Date(until))}`);
+  }
+  lines.push(`END:${kind}`);
+  return lines;
+}
+
+/**
+ * The VTIMEZONE that every TZID needs (RFC 5545 §3.2.19, §3.6.5), for `zone`
+ * as Intl knows it from `fromYear` through `toYear`. Each run of years with the
+ * same clock changes becomes one yearly rule per change, ending where the zone's
+ * rules changed (America/New_York's 2007 move to March and November); the last
+ * run repeats for good when it reaches `toYear`. A zone without changes in the
+ * whole range gets a single fixed-offset STANDARD.
+ */
+function icsTimeZoneLines(zone: string, fromYear: number, toYear: number): string[] {
+  const years: ZoneTransition[][] = [];
+  for (let year = fromYear; year <= toYear; year++) years.push(zoneTransitionsIn(year, zone));
+  if (years.every(changes => changes.length === 0)) {
+    const offset = icsUtcOffset(offsetAt(Date.UTC(fromYear, 0, 1), zone));
+    return [
+      'BEGIN:VTIMEZONE', `TZID:${zone}`,
+      'BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD',
+      'END:VTIMEZONE',
+    ];
+  }
+  const keyOf = (changes: ZoneTransition[]) => changes.map(observanceKey).join('|');
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+  for (let i = 0; i < years.length;) {
+    const changes = years[i]!;
+    let next = i + 1;
+    while (next < years.length && keyOf(years[next]!) === keyOf(changes)) next++;
+    const lastChanges = next === years.length ? null : years[next - 1]!;
+    const largest = Math.max(...changes.map(t => t.offsetTo));
+    changes.forEach((t, k) => {
+      lines.push(...icsObservanceLines(t, lastChanges ? lastChanges[k]! : null, changes.length > 1 && t.offsetTo === largest));
+    });
+    i = next;
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** DTSTART and DURATION for a timed slot, or a one-day DTSTART/DTEND for an all-day one. */
+function icsTimeLines(day: Date, time: { hours: number; minutes: number } | null, durationHours: number, tzid = ''): string[] {
+  if (time) return [`DTSTART${tzid}:${icsDateTime(day, time)}`, `DURATION:${icsDuration(durationHours)}`];
+  const next = new Date(day);
+  next.setDate(next.getDate() + 1);
+  return [`DTSTART;VALUE=DATE:${icsDate(day)}`, `DTEND;VALUE=DATE:${icsDate(next)}`];
+}
+
+/**
+ * The VEVENT for one changed occurrence: the series' UID, a RECURRENCE-ID
+ * naming the occurrence as the rule generates it, and the override's day, time,
+ * length and title over the series' own.
+ */
+function icsOverrideLines(uid: string, stamp: string, item: CalendarItem, override: RRuleOverride): string[] {
+  const recurrenceId = item.startTime
+    ? `RECURRENCE-ID${tzParam(item)}:${icsDateTime(override.date, item.startTime)}`
+    : `RECURRENCE-ID;VALUE=DATE:${icsDate(override.date)}`;
+  const time = override.allDay ? null : override.startTime ?? item.startTime;
+  const duration = override.durationHours ?? (item.startTime ? item.durationHours : 1);
+  return [
+    'BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${stamp}`, recurrenceId,
+    `SUMMARY:${escapeText(override.title ?? item.title)}`,
+    ...icsTimeLines(override.due ?? override.date, time, duration, tzParam(item)),
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build an iCalendar document with one VEVENT per item, plus one per changed
+ * occurrence of a recurring item. `now` stamps the events (DTSTAMP).
+ */
+export function buildIcs(items: Array<{ filePath: string; item: CalendarItem }>, now: Date = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//MkBrowser//Calendar//EN', 'CALSCALE:GREGORIAN'];
+  // One VTIMEZONE per zone used, with rules from the year before its earliest
+  // item through this year or its latest one, so they cover every time written
+  // in it and every occurrence a calendar shows today.
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  for (const { item } of items) {
+    if (!item.timeZone) continue;
+    const until = item.rrule?.until ? coerceDueDate(item.rrule.until) : null;
+    const from = item.dueDate.getFullYear() - 1;
+    const to = Math.max(now.getFullYear(), item.dueDate.getFullYear(), until?.getFullYear() ?? 0);
+    const known = zoneYears.get(item.timeZone);
+    zoneYears.set(item.timeZone, { from: Math.min(from, known?.from ?? from), to: Math.max(to, known?.to ?? to) });
+  }
+  for (const [zone, { from, to }] of [...zoneYears].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(...icsTimeZoneLines(zone, from, to));
+  }
+  const stamp = icsUtcDateTime(now);
+  for (const { filePath, item } of items) {
+    const uid = icsUid(filePath);
+    lines.push('BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${stamp}`, `SUMMARY:${escapeText(item.title)}`);
+    lines.push(...icsTimeLines(item.dueDate, item.startTime, item.durationHours, tzParam(item)));
+    const rrule = icsRRule(item);
+    if (rrule) {
+      lines.push(`RRULE:${rrule}`);
+      for (const day of item.rrule?.exdate ?? []) {
+        lines.push(item.startTime ? `EXDATE${tzParam(item)}:${icsDateTime(day, item.startTime)}` : `EXDATE;VALUE=DATE:${icsDate(day)}`);
+      }
+    }
+    const description = item.body.trim();
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    lines.push('END:VEVENT');
+    if (rrule) {
+      for (const override of item.rrule?.overrides ?? []) lines.push(...icsOverrideLines(uid, stamp, item, override));
+    }
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export the calendar items among `filePaths` to `outputPath`. Files that
+ * aren't calendar items (or can't be read) are left out.
+ */
+export async function exportCalendarToIcs(filePaths: string[], outputPath: string): Promise<CalendarExportResult> {
+  const mdFiles = [...new Set(filePaths)].filter(f => f.toLowerCase().endsWith('.md')).sort();
+  const items = await mapWithConcurrency(mdFiles, ICS_READ_CONCURRENCY, async (filePath) => {
+    try {
+      const item = parseCalendarItem(filePath, await fs.promises.readFile(filePath, 'utf-8'));
+      return item ? { filePath, item } : null;
+    } catch (err) {
+      logger.error(`Failed to read calendar item ${filePath} for export:`, err);
+      return null;
+    }
+  });
+  const exported = items.filter((i): i is { filePath: string; item: CalendarItem } => i !== null);
+  await fs.promises.writeFile(outputPath, buildIcs(exported), 'utf-8');
+  return { success: true, outputPath, eventCount: exported.length };
+}
+
+/** A VEVENT read from a `.ics` file, in front-matter terms. */
+export interface IcsEvent {
+  /** The event's UID, which its edited occurrences share; empty if it has none. */
+  uid: string;
+  summary: string;
+  description: string;
+  /** Local midnight of the day the event starts. */
+  due: Date;
+  /** Local start time, or null for an all-day event. */
+  startTime: { hours: number; minutes: number } | null;
+  /** The IANA zone `startTime` is on the clocks of (from DTSTART's TZID), or null for local time. */
+  timeZone: string | null;
+  /** Hours a timed event lasts, when the file says. */
+  durationHours: number | null;
+  rrule: RRuleProps | null;
+  /** What the event had that its calendar file can't keep. */
+  dropped: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Split `NAME;PARAM=x;PARAM="a:b":value` into its parts. Colons inside quoted parameters don't end the name. */
+function parseContentLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name = '', ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/**
+ * A DATE or DATE-TIME value as a local Date, and whether it was a plain date.
+ * UTC times (`…Z`) are converted to local time; floating times and times with
+ * a TZID are taken as local wall-clock time.
+ */
+function parseIcsDate(value: string, params: Record<string, string>): { date: Date; allDay: boolean } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, sec, z] = m;
+  if (h === undefined || params.VALUE === 'DATE') {
+    return { date: new Date(Number(y), Number(mo) - 1, Number(d)), allDay: true };
+  }
+  const [year, month, day, hours, minutes, seconds] = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(sec ?? 0)];
+  const date = z
+    ? new Date(Date.UTC(year, month, day, hours, minutes, seconds))
+    : new Date(year, month, day, hours, minutes, seconds);
+  return { date, allDay: false };
+}
+
+/** An ICS DURATION (`PT1H30M`, `P1D`, …) in hours, or null. */
+function parseIcsDuration(value: string): number | null {
+  const m = /^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, w, d, h, mi, s] = m.map(v => Number(v ?? 0));
+  return (w ?? 0) * 168 + (d ?? 0) * 24 + (h ?? 0) + (mi ?? 0) / 60 + (s ?? 0) / 3600;
+}
+
+/**
+ * An RRULE as `rrule:` fields, noting the parts that have no field. A UTC
+ * UNTIL of a series in `timeZone` is read as the day it falls on there.
+ */
+function parseIcsRRule(value: string, dropped: string[], timeZone: string | null): RRuleProps | null {
+  const parts = new Map<string, string>();
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0) parts.set(part.slice(0, eq).toUpperCase(), part.slice(eq + 1));
+  }
+  const freq = parts.get('FREQ')?.toLowerCase();
+  if (!freq || !ICS_FREQS.has(freq)) {
+    dropped.push(`repeat rule ${value}`);
+    return null;
+  }
+
+  const rrule: RRuleProps = { freq };
+  const interval = parts.get('INTERVAL');
+  if (interval && interval !== '1') rrule.interval = interval;
+  const byday = parts.get('BYDAY');
+  if (byday) {
+    const days = byday.split(',').map(d => d.trim().toUpperCase());
+    const kept = days.filter(d => ICS_BYDAY_RE.test(d));
+    if (kept.length > 0) rrule.byday = kept.join(',');
+    if (kept.length < days.length) dropped.push(`BYDAY=${byday}`);
+  }
+  const bymonthday = parts.get('BYMONTHDAY');
+  if (bymonthday) rrule.bymonthday = bymonthday;
+  const bysetpos = parts.get('BYSETPOS');
+  if (bysetpos) rrule.bysetpos = bysetpos;
+  const wkst = parts.get('WKST')?.toUpperCase();
+  if (wkst && ICS_WEEKDAYS.has(wkst)) rrule.wkst = wkst;
+  const until = parts.get('UNTIL');
+  const untilDate = until ? parseIcsDate(until, {}) : null;
+  if (until && untilDate && timeZone && until.trim().endsWith('Z')) {
+    const w = wallClockIn(untilDate.date.getTime(), timeZone);
+    rrule.until = formatDueDate(new Date(w.year, w.month - 1, w.day));
+  } else if (untilDate) {
+    rrule.until = formatDueDate(untilDate.date);
+  }
+  const count = parts.get('COUNT');
+  if (count) rrule.count = count;
+  for (const [key, v] of parts) {
+    if (!SUPPORTED_RULE_PARTS.has(key)) dropped.push(`${key}=${v}`);
+  }
+  return rrule;
+}
+
+/**
+ * The events in an iCalendar document. An edit to a single occurrence of a
+ * recurring event (a RECURRENCE-ID with the series' UID) becomes an entry of
+ * its series' `overrides` — or of its `exdate`, if the occurrence was
+ * cancelled. Events without a start, and occurrence edits whose series isn't
+ * in the file, are skipped and counted in `skipped`.
+ */
+export function parseIcs(text: string): { events: IcsEvent[]; skipped: number } {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const components: IcsProperty[][] = [];
+
+  let props: IcsProperty[] | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+    if (prop.name === 'BEGIN') {
+      if (props) depth++;
+      else if (prop.value.toUpperCase() === 'VEVENT') props = [];
+      continue;
+    }
+    if (prop.name === 'END' && props) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      components.push(props);
+      props = null;
+      continue;
+    }
+    // Properties of a nested component (an alarm) don't describe the event.
+    if (props && depth === 0) props.push(prop);
+  }
+
+  const events: IcsEvent[] = [];
+  let skipped = 0;
+  const isOccurrenceEdit = (c: IcsProperty[]) => c.some(p => p.name === 'RECURRENCE-ID');
+  for (const component of components.filter(c => !isOccurrenceEdit(c))) {
+    const event = toIcsEvent(component);
+    if (event) events.push(event);
+    else skipped++;
+  }
+  for (const component of components.filter(isOccurrenceEdit)) {
+    if (!applyOccurrenceEdit(component, events)) skipped++;
+  }
+  return { events, skipped };
+}
+
+/** The first `name` property of a component. */
+function findProp(props: IcsProperty[], name: string): IcsProperty | undefined {
+  return props.find(p => p.name === name);
+}
+
+/** Every date of every EXDATE property (each may list several), as `M/D/YYYY`. */
+function exdates(props: IcsProperty[]): string[] {
+  return props
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(v => parseIcsDate(v, p.params)))
+    .flatMap(d => (d ? [formatDueDate(d.date)] : []));
+}
+
+/** A slot's length in hours, from DTEND or DURATION, or null if it has neither. */
+function icsDurationHours(props: IcsProperty[], start: { date: Date }): number | null {
+  const dtend = findProp(props, 'DTEND');
+  const end = dtend ? parseIcsDate(dtend.value, dtend.params) : null;
+  if (end) return (end.date.getTime() - start.date.getTime()) / (60 * 60 * 1000);
+  const duration = findProp(props, 'DURATION');
+  return duration ? parseIcsDuration(duration.value) : null;
+}
+
+function toIcsEvent(props: IcsProperty[]): IcsEvent | null {
+  const dtstart = findProp(props, 'DTSTART');
+  const start = dtstart ? parseIcsDate(dtstart.value, dtstart.params) : null;
+  if (!start) return null;
+
+  const dropped: string[] = [];
+  const durationHours = icsDurationHours(props, start);
+  if (start.allDay && durationHours !== null && durationHours > 24) dropped.push('days after the first');
+
+  const timeZone = !start.allDay && dtstart?.params.TZID && isValidTimeZone(dtstart.params.TZID) ? dtstart.params.TZID : null;
+  const rruleProp = findProp(props, 'RRULE');
+  const rrule = rruleProp ? parseIcsRRule(rruleProp.value, dropped, timeZone) : null;
+  const excluded = exdates(props);
+  if (rrule && excluded.length > 0) rrule.exdate = excluded;
+  if (findProp(props, 'RDATE')) dropped.push('extra dates');
+
+  const due = new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate());
+  return {
+    uid: findProp(props, 'UID')?.value.trim() ?? '',
+    summary: unescapeText(findProp(props, 'SUMMARY')?.value ?? '').trim(),
+    description: unescapeText(findProp(props, 'DESCRIPTION')?.value ?? '').trim(),
+    due,
+    startTime: start.allDay ? null : { hours: start.date.getHours(), minutes: start.date.getMinutes() },
+    timeZone,
+    durationHours: start.allDay || durationHours === null || durationHours <= 0 ? null : durationHours,
+    rrule,
+    dropped,
+  };
+}
+
+/**
+ * Record an edited occurrence (`props`, a VEVENT with a RECURRENCE-ID) on its
+ * recurring event among `events`. Returns false when there is no such event.
+ */
+function applyOccurrenceEdit(props: IcsProperty[], events: IcsEvent[]): boolean {
+  const uid = findProp(props, 'UID')?.value.trim();
+  const series = uid ? events.find(e => e.uid === uid && e.rrule) : undefined;
+  const ridProp = findProp(props, 'RECURRENCE-ID');
+  const rid = ridProp ? parseIcsDate(ridProp.value, ridProp.params) : null;
+  if (!series?.rrule || !rid) return false;
+
+  const date = formatDueDate(rid.date);
+  if (findProp(props, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+    series.rrule.exdate = [...(series.rrule.exdate ?? []), date];
+    return true;
+  }
+  const dtstart = findProp(props, 'DTSTART');
+  const start = dtstart ? parseIcsDate(dtstart.value, dtstart.params) : null;
+  if (!start) return false;
+
+  const override: OccurrenceOverride = { date };
+  const due = formatDueDate(start.date);
+  if (due !== date) override.due = due;
+  if (start.allDay) {
+    if (series.startTime) override.allday = true;
+  } else {
+    override.start = formatStartTime(start.date.getHours(), start.date.getMinutes());
+    const hours = icsDurationHours(props, start);
+    if (hours !== null && hours > 0) override.duration = String(Math.round(hours * 100) / 100);
+  }
+  const summary = unescapeText(findProp(props, 'SUMMARY')?.value ?? '').trim();
+  if (summary && summary !== series.summary) override.title = summary;
+  series.rrule.overrides = [...(series.rrule.overrides ?? []), override];
+  return true;
+}
+
+/**
+ * The calendar markdown file for `event`: the front matter
+ * injectCalendarFrontMatter creates, set to the event's values, over its
+ * description.
+ */
+export function icsEventToMarkdown(event: IcsEvent): string {
+  const body = event.description ? `${event.description}\n` : '';
+  let content = injectCalendarFrontMatter(body, event.rrule !== null);
+  content = setDueProperty(content, formatDueDate(event.due));
+  if (event.startTime) {
+    content = setStartProperty(content, formatStartTime(event.startTime.hours, event.startTime.minutes));
+    const hours = event.durationHours ?? 1;
+    content = setDurationProperty(content, String(Math.round(hours * 100) / 100));
+    if (event.timeZone) content = setFrontMatterProperty(content, 'tz', event.timeZone);
+  } else {
+    content = removeFrontMatterProperty(content, 'start');
+    content = removeFrontMatterProperty(content, 'duration');
+  }
+  return setRRuleProperty(content, event.rrule);
+}
+
+/** A file name for an event: its summary without the characters file systems reject. */
+function importFileName(summary: string): string {
+  const name = summary.replace(/[\\/:*?"<>|\p{Cc}]/gu, '-').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+  return name.slice(0, MAX_IMPORT_NAME_CHARS).trim() || 'Event';
+}
+
+/**
+ * Import every event in the `.ics` file at `icsPath` as a calendar markdown
+ * file in `folder`, named after the event. Existing files are never
+ * overwritten: a taken name gets a ` (2)`, ` (3)`, … suffix.
+ */
+export async function importIcsFile(icsPath: string, folder: string): Promise<CalendarImportResult> {
+  const { events, skipped } = parseIcs(await fs.promises.readFile(icsPath, 'utf-8'));
+  await fs.promises.mkdir(folder, { recursive: true });
+
+  const created: string[] = [];
+  const warnings: string[] = [];
+  for (const event of events) {
+    const base = importFileName(event.summary);
+    for (let n = 1; ; n++) {
+      const filePath = path.join(folder, `${base}${n > 1 ? ` (${n})` : ''}.md`);
+      try {
+        await fs.promises.writeFile(filePath, icsEventToMarkdown(event), { encoding: 'utf-8', flag: 'wx' });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'EEXIST') continue;
+        throw err;
+      }
+      created.push(filePath);
+      if (event.dropped.length > 0) warnings.push(`${path.basename(filePath)}: ignored ${event.dropped.join(', ')}`);
+      break;
+    }
+  }
+  return { success: true, created, skipped, warnings };
+}
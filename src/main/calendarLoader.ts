@@ -6,8 +6,9 @@ import { loadYaml } from '../shared/yamlUtil';
 import { logger } from '../shared/logUtil';
 import { buildCalendarFilter } from '../shared/pathPattern';
 import { mapWithConcurrency } from '../shared/asyncUtil';
-import { coerceDueDate } from '../shared/calendarUtil';
+import { coerceDueDate, parseReminderLead } from '../shared/calendarUtil';
 import { splitFrontMatter } from '../shared/frontMatterUtil';
+import { isValidTimeZone, toZonedDate, zonedTimeToEpoch } from '../shared/timeZoneUtil';
 
 export interface CalendarEventResult {
   id: string;
@@ -21,6 +22,23 @@ export interface CalendarEventResult {
   filePath: string;
   /** First 5 lines (up to 400 chars) of body content after front matter */
   snippet: string;
+  /** True for an occurrence of an `rrule:` item, as opposed to a one-off event. */
+  recurring?: boolean;
+  /** For an occurrence: local midnight of the day the rule put it on, before any override moved it. */
+  occurrence?: number;
+  /** Minutes before `start` to remind at (`remind:`); null when the item turns reminders off, absent for the default. */
+  remind?: number | null;
+  /** The item's `tz:` zone, whose clock its `start` reads; absent for local time. */
+  timeZone?: string;
+}
+
+/**
+ * The instant of `hours:minutes` on `day` (whose local fields name the date):
+ * on the clocks of `timeZone`, or on the system's when it is null.
+ */
+function placeTime(day: Date, hours: number, minutes: number, timeZone: string | null): number {
+  if (!timeZone) return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime();
+  return zonedTimeToEpoch({ year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), hours, minutes }, timeZone);
 }
 
 /**
@@ -109,12 +127,31 @@ const MAX_OCCURRENCES = 5000;
 /** Cap simultaneous file reads to avoid EMFILE on large vaults. */
 const CALENDAR_READ_CONCURRENCY = 50;
 
-interface RRuleYaml {
+export interface RRuleYaml {
   freq?: string;
   interval?: number;
   byday?: string;
   until?: string | Date;
   count?: number;
+  bymonthday?: number[];
+  bysetpos?: number[];
+  /** Weekday code (`MO`…`SU`) weeks start on. */
+  wkst?: string;
+  /** Local midnights of the days the rule skips (`exdate:`). */
+  exdate?: Date[];
+  overrides?: RRuleOverride[];
+}
+
+/** A validated entry of `rrule.overrides`: one occurrence with its own day, time, length or title. */
+export interface RRuleOverride {
+  /** Local midnight of the day the rule puts the occurrence on. */
+  date: Date;
+  /** Local midnight of the day it moved to. */
+  due?: Date;
+  startTime?: { hours: number; minutes: number };
+  durationHours?: number;
+  title?: string;
+  allDay?: boolean;
 }
 
 /**
@@ -139,9 +176,59 @@ function normalizeRRule(raw: Record<string, unknown>): RRuleYaml {
     byday: typeof raw.byday === 'string' ? raw.byday : undefined,
     until: typeof raw.until === 'string' || raw.until instanceof Date ? raw.until : undefined,
     count: toPositiveInt(raw.count),
+    bymonthday: toIntList(raw.bymonthday, 31),
+    bysetpos: toIntList(raw.bysetpos, 366),
+    wkst: typeof raw.wkst === 'string' && BYDAY_MAP[raw.wkst.trim().toUpperCase()] ? raw.wkst.trim().toUpperCase() : undefined,
+    exdate: normalizeExdate(raw.exdate),
+    overrides: normalizeOverrides(raw.overrides),
   };
 }
 
+/**
+ * A `bymonthday`/`bysetpos` value — one number, or a comma-separated list — as
+ * the non-zero integers within ±`max` it holds. Others are dropped.
+ */
+function toIntList(raw: unknown, max: number): number[] | undefined {
+  const items = typeof raw === 'number' ? [raw] : typeof raw === 'string' ? raw.split(',') : [];
+  const values = items.map(Number).filter(n => Number.isInteger(n) && n !== 0 && Math.abs(n) <= max);
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * The `overrides:` entries that name a valid occurrence `date`. An unusable
+ * field (a `start` that isn't a time, say) is dropped, so the occurrence keeps
+ * the series' value for it.
+ */
+function normalizeOverrides(raw: unknown): RRuleOverride[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const overrides: RRuleOverride[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const e = entry as Record<string, unknown>;
+    const date = coerceDueDate(e.date);
+    if (!date) continue;
+    overrides.push({
+      date,
+      due: coerceDueDate(e.due) ?? undefined,
+      startTime: typeof e.start === 'string' ? parseStartTime(e.start) ?? undefined : undefined,
+      durationHours: coerceDuration(e.duration) ?? undefined,
+      title: typeof e.title === 'string' && e.title.trim() ? e.title.trim() : undefined,
+      allDay: e.allday === true,
+    });
+  }
+  return overrides.length > 0 ? overrides : undefined;
+}
+
+/**
+ * The `exdate:` days as local midnights: a YAML list of dates, or one
+ * comma-separated string. Entries that aren't dates are dropped.
+ */
+function normalizeExdate(raw: unknown): Date[] | undefined {
+  const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  const dates = items.map(coerceDueDate).filter((d): d is Date => d !== null);
+  return dates.length > 0 ? dates : undefined;
+}
+
 /**
  * Expand a parsed `rrule:` YAML block into individual {@link CalendarEventResult}
  * occurrences. Each occurrence inherits the event's title, snippet, and filePath,
@@ -153,6 +240,15 @@ function normalizeRRule(raw: Record<string, unknown>): RRuleYaml {
  * timed events; each occurrence's UTC components are decoded back to local time
  * before being returned. See the inline comment for the full rationale.
  *
+ * Occurrences falling on an `exdate` day are left out, and those named by an
+ * entry of `overrides` take its day, time, duration and title (see applyOverride);
+ * ids keep their index either way.
+ *
+ * With a `timeZone`, the rule's wall-clock is that zone's: each occurrence is
+ * placed at its time on that zone's clocks, so a 9:00 New York meeting stays at
+ * 9:00 New York across both zones' DST changes (and moves for viewers elsewhere
+ * on the weeks when their DST and New York's disagree).
+ *
  * Returns `[]` when `rruleYaml.freq` is absent or unrecognized.
  */
 function expandRRule(
@@ -164,14 +260,20 @@ function expandRRule(
   filePath: string,
   title: string,
   snippet: string,
+  timeZone: string | null = null,
 ): CalendarEventResult[] {
   const freq = FREQ_MAP[(rruleYaml.freq ?? '').toLowerCase()];
   if (freq === undefined) return [];
 
+  // A code may be numbered within the month or year: `2TU` is the second Tuesday, `-1FR` the last Friday.
   const byweekday = rruleYaml.byday
     ? rruleYaml.byday
         .split(',')
-        .map(s => BYDAY_MAP[s.trim().toUpperCase()])
+        .map((code) => {
+          const m = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(code.trim().toUpperCase());
+          const day = m ? BYDAY_MAP[m[2]!] : undefined;
+          return day && m?.[1] ? day.nth(Number(m[1])) : day;
+        })
         .filter((w): w is Weekday => w !== undefined)
     : undefined;
 
@@ -185,8 +287,9 @@ function expandRRule(
   // of UTC, and a timed event drifts an hour across DST. We therefore encode the intended
   // wall-clock into UTC via Date.UTC(...) when building the rule, and decode each
   // occurrence's UTC components back into a *local* timestamp for the calendar to render.
-  // The dtstart wall-clock is read from the local Date the loader already built.
-  const wall = new Date(isAllDay ? dueDate.getTime() : startMs);
+  // The dtstart wall-clock is read from the Date the loader already built — in the
+  // item's zone when it has one, since that is the clock the rule runs on.
+  const wall = isAllDay ? new Date(dueDate.getTime()) : toZonedDate(startMs, timeZone);
   const dtstart = isAllDay
     ? new Date(Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate()))
     : new Date(Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes()));
@@ -208,6 +311,9 @@ function expandRRule(
     byweekday: byweekday && byweekday.length > 0 ? byweekday : undefined,
     until: until ?? undefined,
     count: rruleYaml.count,
+    bymonthday: rruleYaml.bymonthday,
+    bysetpos: rruleYaml.bysetpos,
+    wkst: rruleYaml.wkst ? BYDAY_MAP[rruleYaml.wkst] : undefined,
     dtstart,
   });
 
@@ -219,25 +325,51 @@ function expandRRule(
   // The iterator's `len` counts only in-window occurrences, so MAX_OCCURRENCES
   // acts purely as a backstop on what this window can return.
   const now = new Date();
+  const excluded = new Set((rruleYaml.exdate ?? []).map(d => d.getTime()));
+  const overrides = new Map((rruleYaml.overrides ?? []).map(o => [o.date.getTime(), o]));
   const windowStart = new Date(Date.UTC(now.getFullYear() - MAX_PAST_YEARS, now.getMonth(), now.getDate()));
   const windowEnd = new Date(Date.UTC(now.getFullYear() + MAX_FUTURE_YEARS, now.getMonth(), now.getDate()));
 
   return rule
     .between(windowStart, windowEnd, true, (_date, len) => len < MAX_OCCURRENCES)
-    .map((occurrenceDate, i) => {
-    // Decode the UTC components rrule produced back into a local wall-clock timestamp.
-    let occStart: number;
-    let occEnd: number;
-    if (isAllDay) {
-      occStart = new Date(occurrenceDate.getUTCFullYear(), occurrenceDate.getUTCMonth(), occurrenceDate.getUTCDate()).getTime();
-      occEnd = occStart;
-    } else {
-      occStart = new Date(occurrenceDate.getUTCFullYear(), occurrenceDate.getUTCMonth(), occurrenceDate.getUTCDate(),
-        occurrenceDate.getUTCHours(), occurrenceDate.getUTCMinutes(), 0, 0).getTime();
-      occEnd = occStart + durationMs;
-    }
-    return { id: `${filePath}::${i}`, title, start: occStart, end: occEnd, filePath, snippet };
-  });
+    .flatMap((occurrenceDate, i) => {
+      // Decode the UTC components rrule produced back into a local wall-clock timestamp.
+      const day = new Date(occurrenceDate.getUTCFullYear(), occurrenceDate.getUTCMonth(), occurrenceDate.getUTCDate());
+      if (excluded.has(day.getTime())) return [];
+      const occ = { id: `${filePath}::${i}`, title, filePath, snippet, recurring: true, occurrence: day.getTime() };
+      const override = overrides.get(day.getTime());
+      if (override) return [applyOverride(occ, override, day, isAllDay ? null : occurrenceDate, durationMs, timeZone)];
+      if (isAllDay) return [{ ...occ, start: day.getTime(), end: day.getTime() }];
+      const start = placeTime(day, occurrenceDate.getUTCHours(), occurrenceDate.getUTCMinutes(), timeZone);
+      return [{ ...occ, start, end: start + durationMs }];
+    });
+}
+
+/**
+ * Place an occurrence the way its override says: on the override's day (or its
+ * own), at the override's time (or the series' time, `seriesTime`, whose UTC
+ * components carry the wall-clock as in expandRRule), for the override's
+ * duration (or the series'). An override giving a time to an all-day series
+ * makes that occurrence timed, for an hour unless it says otherwise. Its time
+ * is on the clocks of the item's `timeZone`, like the series'.
+ */
+function applyOverride(
+  occ: Omit<CalendarEventResult, 'start' | 'end'>,
+  override: RRuleOverride,
+  day: Date,
+  seriesTime: Date | null,
+  durationMs: number,
+  timeZone: string | null,
+): CalendarEventResult {
+  const target = override.due ?? day;
+  const time = override.allDay
+    ? null
+    : override.startTime ?? (seriesTime ? { hours: seriesTime.getUTCHours(), minutes: seriesTime.getUTCMinutes() } : null);
+  const title = override.title ?? occ.title;
+  if (!time) return { ...occ, title, start: target.getTime(), end: target.getTime() };
+  const start = placeTime(target, time.hours, time.minutes, timeZone);
+  const hours = override.durationHours ?? (seriesTime ? durationMs / (60 * 60 * 1000) : 1);
+  return { ...occ, title, start, end: start + hours * 60 * 60 * 1000 };
 }
 
 /**
@@ -252,82 +384,134 @@ function extractSnippet(body: string): string {
   return joined.slice(0, 400) + '...';
 }
 
+/** A calendar file's validated front matter: what {@link loadCalendarEntryForFile} expands into events. */
+export interface CalendarItem {
+  /** The file name without `.md`. */
+  title: string;
+  /** Everything after the front matter. */
+  body: string;
+  /** Local midnight of the `due` day. */
+  dueDate: Date;
+  /** The `start` time of day, or null for an all-day item. */
+  startTime: { hours: number; minutes: number } | null;
+  /** Hours a timed item lasts (`duration`, default 1). */
+  durationHours: number;
+  /** The `rrule:` block, or null for a one-off item. */
+  rrule: RRuleYaml | null;
+  /** The `remind:` lead in minutes, null for "no reminder", or undefined to use the default. */
+  remind?: number | null;
+  /** The `tz:` zone (an IANA name) whose clock `startTime` reads, or null for local time. */
+  timeZone: string | null;
+}
+
+/**
+ * Read the calendar fields out of a markdown file's `content`, or null when it
+ * has no valid `due` (not a calendar file). Invalid optional fields are warned
+ * about and fall back to their defaults. Throws on malformed YAML.
+ */
+export function parseCalendarItem(filePath: string, content: string): CalendarItem | null {
+  const fm = splitFrontMatter(content);
+  if (!fm) return null;
+
+  const parsed = loadYaml(fm.yamlStr) as Record<string, unknown> | null;
+  // No `due` at all means "not a calendar file" — skip quietly. A `due` that is
+  // present but unparseable is a likely user mistake, so make it discoverable.
+  //
+  // ⚠️ Absence has TWO spellings here: a key that is missing entirely reads back
+  // as `undefined`, while an explicitly empty `due:` line parses to YAML `null`.
+  // Both mean "no due date" and both must skip quietly — a check for only one of
+  // them lets the other fall through to coerceDueDate() and log a bogus
+  // "'due' is not a recognized date: undefined"
+  // warning for every non-calendar markdown file that merely has front matter,
+  // once per calendar scan. The same trap applies to `duration`/`start` below.
+  if (!parsed || parsed.due === undefined || parsed.due === null) return null;
+
+  const dueDate = coerceDueDate(parsed.due);
+  if (!dueDate) {
+    logger.warn(`Skipping calendar entry ${filePath}: 'due' is not a recognized date: ${JSON.stringify(parsed.due)}`);
+    return null;
+  }
+
+  // Strip the .md extension case-insensitively — the crawl filter admits
+  // `.MD`/`.Md` too, and `path.basename(f, '.md')` only strips exact lowercase.
+  const title = path.basename(filePath).replace(/\.md$/i, '');
+
+  // Validate duration up front so a bad value (NaN from `.nan`, negative, or a
+  // non-numeric string) is surfaced rather than silently corrupting `end`.
+  // coerceDuration maps *absent* (undefined/null) and *invalid* values to the
+  // same null, so the warning must be gated on presence — and an absent key is
+  // `undefined`, not `null` (see the `due` comment above). Testing only
+  // `!== null` would warn "invalid 'duration' undefined" for every calendar
+  // file that simply omits the optional field.
+  const duration = coerceDuration(parsed.duration);
+  if (parsed.duration !== undefined && parsed.duration !== null && duration === null) {
+    logger.warn(`Calendar entry ${filePath}: ignoring invalid 'duration' ${JSON.stringify(parsed.duration)} (expected a positive number of hours); defaulting to 1`);
+  }
+
+  let startTime: { hours: number; minutes: number } | null = null;
+  const startTimeStr = typeof parsed.start === 'string' ? parsed.start : null;
+  if (startTimeStr) {
+    startTime = parseStartTime(startTimeStr);
+    if (!startTime) {
+      logger.warn(`Calendar entry ${filePath}: unrecognized 'start' time "${startTimeStr}" (use "1:30 PM" or "13:30"); treating event as all-day`);
+    }
+  } else if (parsed.start !== undefined && parsed.start !== null) {
+    // Warn only when `start` is present with a non-string value (e.g. a bare
+    // 13:30 that YAML read as something else). An absent key is `undefined` —
+    // not `null` — and is the normal all-day case, so it must stay silent
+    // (see the `due` comment above for the undefined-vs-null trap).
+    logger.warn(`Calendar entry ${filePath}: 'start' must be a time string like "1:30 PM" or "13:30", got ${JSON.stringify(parsed.start)}; treating event as all-day`);
+  }
+
+  const rrule = parsed.rrule && typeof parsed.rrule === 'object' && !Array.isArray(parsed.rrule)
+    ? normalizeRRule(parsed.rrule as Record<string, unknown>)
+    : null;
+
+  const remind = parseReminderLead(parsed.remind);
+  if (parsed.remind !== undefined && parsed.remind !== null && remind === undefined) {
+    logger.warn(`Calendar entry ${filePath}: ignoring unrecognized 'remind' ${JSON.stringify(parsed.remind)} (use e.g. 15m, 2h, 1d or off)`);
+  }
+
+  let timeZone: string | null = null;
+  if (typeof parsed.tz === 'string' && isValidTimeZone(parsed.tz.trim())) {
+    timeZone = parsed.tz.trim();
+  } else if (parsed.tz !== undefined && parsed.tz !== null) {
+    logger.warn(`Calendar entry ${filePath}: unknown time zone 'tz' ${JSON.stringify(parsed.tz)} (use an IANA name like "America/New_York"); using local time`);
+  }
+
+  return { title, body: fm.body, dueDate, startTime, durationHours: duration ?? 1, rrule, remind, timeZone };
+}
+
 /** Parse a single markdown file and return its calendar entries (>1 for recurring events), or [] if no valid 'due'. */
 export async function loadCalendarEntryForFile(filePath: string): Promise<CalendarEventResult[]> {
   try {
     const content = await fs.promises.readFile(filePath, 'utf-8');
-    const fm = splitFrontMatter(content);
-    if (!fm) return [];
-
-    const parsed = loadYaml(fm.yamlStr) as Record<string, unknown> | null;
-    // No `due` at all means "not a calendar file" — skip quietly. A `due` that is
-    // present but unparseable is a likely user mistake, so make it discoverable.
-    //
-    // ⚠️ Absence has TWO spellings here: a key that is missing entirely reads back
-    // as `undefined`, while an explicitly empty `due:` line parses to YAML `null`.
-    // Both mean "no due date" and both must skip quietly — a check for only one of
-    // them lets the other fall through to coerceDueDate() and log a bogus
-    // "'due' is not a recognized date: undefined"
-    // warning for every non-calendar markdown file that merely has front matter,
-    // once per calendar scan. The same trap applies to `duration`/`start` below.
-    if (!parsed || parsed.due === undefined || parsed.due === null) return [];
-
-    const dueDate = coerceDueDate(parsed.due);
-    if (!dueDate) {
-      logger.warn(`Skipping calendar entry ${filePath}: 'due' is not a recognized date: ${JSON.stringify(parsed.due)}`);
-      return [];
-    }
+    const item = parseCalendarItem(filePath, content);
+    if (!item) return [];
 
-    // Strip the .md extension case-insensitively — the crawl filter admits
-    // `.MD`/`.Md` too, and `path.basename(f, '.md')` only strips exact lowercase.
-    const title = path.basename(filePath).replace(/\.md$/i, '');
-    const snippet = extractSnippet(fm.body);
+    const { title, dueDate, startTime, timeZone } = item;
+    const snippet = extractSnippet(item.body);
 
     let startMs = dueDate.getTime();
     let endMs = dueDate.getTime();
     let durationMs = 0;
-
-    // Validate duration up front so a bad value (NaN from `.nan`, negative, or a
-    // non-numeric string) is surfaced rather than silently corrupting `end`.
-    // coerceDuration maps *absent* (undefined/null) and *invalid* values to the
-    // same null, so the warning must be gated on presence — and an absent key is
-    // `undefined`, not `null` (see the `due` comment above). Testing only
-    // `!== null` would warn "invalid 'duration' undefined" for every calendar
-    // file that simply omits the optional field.
-    const duration = coerceDuration(parsed.duration);
-    if (parsed.duration !== undefined && parsed.duration !== null && duration === null) {
-      logger.warn(`Calendar entry ${filePath}: ignoring invalid 'duration' ${JSON.stringify(parsed.duration)} (expected a positive number of hours); defaulting to 1`);
-    }
-
-    const startTimeStr = typeof parsed.start === 'string' ? parsed.start : null;
-    if (startTimeStr) {
-      const time = parseStartTime(startTimeStr);
-      if (time) {
-        const startDate = new Date(dueDate);
-        startDate.setHours(time.hours, time.minutes, 0, 0);
-        startMs = startDate.getTime();
-        durationMs = (duration ?? 1) * 60 * 60 * 1000;
-        endMs = startMs + durationMs;
-      } else {
-        logger.warn(`Calendar entry ${filePath}: unrecognized 'start' time "${startTimeStr}" (use "1:30 PM" or "13:30"); treating event as all-day`);
-      }
-    } else if (parsed.start !== undefined && parsed.start !== null) {
-      // Warn only when `start` is present with a non-string value (e.g. a bare
-      // 13:30 that YAML read as something else). An absent key is `undefined` —
-      // not `null` — and is the normal all-day case, so it must stay silent
-      // (see the `due` comment above for the undefined-vs-null trap).
-      logger.warn(`Calendar entry ${filePath}: 'start' must be a time string like "1:30 PM" or "13:30", got ${JSON.stringify(parsed.start)}; treating event as all-day`);
+    if (startTime) {
+      startMs = placeTime(dueDate, startTime.hours, startTime.minutes, timeZone);
+      durationMs = item.durationHours * 60 * 60 * 1000;
+      endMs = startMs + durationMs;
     }
 
-    if (parsed.rrule && typeof parsed.rrule === 'object' && !Array.isArray(parsed.rrule)) {
-      return expandRRule(
-        normalizeRRule(parsed.rrule as Record<string, unknown>),
-        dueDate, startMs, endMs, durationMs,
-        filePath, title, snippet,
-      );
+    // Only an item that says so carries `remind` or `timeZone`, so the events of every other item stay as they were.
+    const extra = {
+      ...(item.remind === undefined ? {} : { remind: item.remind }),
+      ...(timeZone ? { timeZone } : {}),
+    };
+    if (item.rrule) {
+      return expandRRule(item.rrule, dueDate, startMs, endMs, durationMs, filePath, title, snippet, timeZone)
+        .map(occ => ({ ...occ, ...extra }));
     }
 
-    return [{ id: filePath, title, start: startMs, end: endMs, filePath, snippet }];
+    return [{ id: filePath, title, start: startMs, end: endMs, filePath, snippet, ...extra }];
   } catch (err) {
     // Returning [] keeps a single bad file from breaking the whole calendar,
     // but the failure must not vanish silently (read errors, malformed YAML).
@@ -42,6 +42,10 @@ export const defaultSettings: AppSettings = {
   bookmarks: [],
   ocrToolsFolder: '',
   calendarItemsFolder: '',
+  defaultReminder: '',
+  fileHistory: false,
+  fileHistoryMaxVersions: 50,
+  fileHistoryMaxDays: 90,
   indexTreeWidth: 'narrow',
   showPropsInEditor: true,
   expandedEditor: false,
@@ -49,6 +53,8 @@ export const defaultSettings: AppSettings = {
   // Off by default: the synonym strip renders nothing at all while it is off, so a fresh
   // install gets the full editor height. It is opted into from the editor's right-click menu.
   enableThesaurus: false,
+  editorKeymap: 'default',
+  livePreview: false,
 };
 
 /** Returns a fresh `AppSettings` with independent copies of all mutable arrays. */
@@ -118,7 +124,7 @@ const SearchDefinitionSchema = z
     searchText: z.string(),
     searchTarget: z.enum(['content', 'filenames']).catch('content'),
     searchMode: z.enum(['literal', 'wildcard', 'advanced']).catch('literal'),
-    sortBy: z.enum(['modified-time', 'created-time', 'file-name']).catch('modified-time'),
+    sortBy: z.enum(['modified-time', 'created-time', 'file-name', 'relevance']).catch('modified-time'),
     sortDirection: z.enum(['asc', 'desc']).catch('desc'),
     searchImageExif: z.boolean().optional(),
     mostRecent: z.boolean().optional(),
@@ -145,6 +151,9 @@ const AIModelConfigSchema = z
     outputPer1M: nonNegNumber.catch(0),
     vision: z.boolean().catch(false),
     readonly: z.boolean().catch(false),
+    baseUrl: z.string().optional().catch(undefined),
+    headers: z.record(z.string(), z.string()).optional().catch(undefined),
+    apiKeyEnv: z.string().optional().catch(undefined),
   })
   .loose();
 
@@ -173,6 +182,10 @@ const AppSettingsSchema = z
     bookmarks: tolerantArray(BookmarkSchema),
     ocrToolsFolder: z.string().catch(defaultSettings.ocrToolsFolder),
     calendarItemsFolder: z.string().catch(defaultSettings.calendarItemsFolder),
+    defaultReminder: z.string().catch(defaultSettings.defaultReminder),
+    fileHistory: z.boolean().catch(defaultSettings.fileHistory),
+    fileHistoryMaxVersions: z.number().int().min(0).catch(defaultSettings.fileHistoryMaxVersions),
+    fileHistoryMaxDays: z.number().int().min(0).catch(defaultSettings.fileHistoryMaxDays),
     indexTreeWidth: z.enum(['hidden', 'narrow', 'medium', 'wide']).catch(defaultSettings.indexTreeWidth),
     showPropsInEditor: z.boolean().catch(defaultSettings.showPropsInEditor),
     expandedEditor: z.boolean().catch(defaultSettings.expandedEditor),
@@ -180,6 +193,8 @@ const AppSettingsSchema = z
     // 'small'/'large' meaning) falls back to the default rather than erroring.
     imageSize: z.enum(['small', 'medium', 'large']).catch(defaultSettings.imageSize),
     enableThesaurus: z.boolean().catch(defaultSettings.enableThesaurus),
+    editorKeymap: z.enum(['default', 'vim', 'emacs']).catch(defaultSettings.editorKeymap),
+    livePreview: z.boolean().catch(defaultSettings.livePreview),
   })
   .loose();
 
@@ -201,6 +216,7 @@ const AppConfigSchema = z
     tagsPanelVisible: z.boolean().optional().catch(undefined),
     aiRewriteMode: z.boolean().optional().catch(undefined),
     calendarViewType: z.enum(['month', 'week', 'work_week', 'day', 'agenda']).optional().catch(undefined),
+    calendarDisplayZone: z.string().optional().catch(undefined),
     recentFolders: tolerantArray(z.string()).optional(),
   })
   .loose();
@@ -0,0 +1,59 @@
+import path from 'node:path';
+import * as chokidar from 'chokidar';
+import { logger } from '../shared/logUtil';
+
+export type EmbedFileChangedCallback = (filePath: string) => void;
+
+/**
+ * Watches the notes embedded in rendered markdown (`![[note]]`, see
+ * NoteEmbed.tsx), so an embed shows its note's current content. The renderer
+ * reports the whole set of embedded files each time it changes, and a single
+ * chokidar watcher follows exactly that set — typically a handful of files,
+ * not the vault the search index and calendar watchers cover.
+ *
+ * One module-level watcher, for the one main window, as in calendarWatcher.ts.
+ */
+let currentWatcher: ReturnType<typeof chokidar.watch> | null = null;
+let watchedFiles = new Set<string>();
+
+/**
+ * Watch exactly `filePaths`, calling `onChanged` when one is written, deleted
+ * or re-created. An empty list stops the watcher.
+ */
+export function setWatchedEmbeds(filePaths: string[], onChanged: EmbedFileChangedCallback): void {
+  const next = new Set(filePaths.map(p => path.resolve(p)));
+  if (next.size === 0) {
+    void stopEmbedWatcher();
+    return;
+  }
+
+  if (!currentWatcher) {
+    const watcher = chokidar.watch([...next], {
+      persistent: true,
+      ignoreInitial: true,
+      ignorePermissionErrors: true,
+    });
+    const notify = (filePath: string) => {
+      if (currentWatcher === watcher) onChanged(filePath);
+    };
+    watcher.on('add', notify);
+    watcher.on('change', notify);
+    watcher.on('unlink', notify);
+    watcher.on('error', (err: unknown) => logger.error('Embed watcher error:', err));
+    currentWatcher = watcher;
+  } else {
+    const added = [...next].filter(p => !watchedFiles.has(p));
+    const removed = [...watchedFiles].filter(p => !next.has(p));
+    if (added.length > 0) currentWatcher.add(added);
+    if (removed.length > 0) currentWatcher.unwatch(removed);
+  }
+  watchedFiles = next;
+}
+
+/** Stop watching embedded files. */
+export async function stopEmbedWatcher(): Promise<void> {
+  const watcher = currentWatcher;
+  currentWatcher = null;
+  watchedFiles = new Set();
+  if (watcher) await watcher.close();
+}
@@ -0,0 +1,128 @@
+/**
+ * Version history for files saved in the app: before `write-file` replaces a
+ * file, the content being replaced is kept as a gzip-compressed snapshot.
+ *
+ * Snapshots live outside the vault, under the store dir main.ts passes in (next
+ * to config.yaml), so they never show up in the browser, in searches or in a
+ * synced folder. Each file gets its own folder there, named after a hash of its
+ * absolute path, holding one `<savedAt>-<hash>.gz` per version: `savedAt` is the
+ * mtime the replaced content had on disk — when that version was saved — and
+ * `hash` is of the content, which keeps two versions saved in the same
+ * millisecond apart. A `path.txt` beside them names the file the folder is for.
+ *
+ * History follows the path, not the file: a renamed or moved file starts a new
+ * history. Retention is applied per file as it is saved, so the old path's
+ * versions are left as they were.
+ *
+ * Everything here is best effort from the save's point of view. A snapshot that
+ * can't be taken is logged by the caller and the save goes ahead.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import type { FileVersion } from '../shared/shared';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/** A snapshot's file name: `<savedAt ms>-<content hash>.gz`. */
+const VERSION_FILE_RE = /^(\d+)-([0-9a-f]{12})\.gz$/;
+
+/** How long versions are kept. A limit of 0 turns that limit off. */
+export interface HistoryRetention {
+  /** Most versions kept per file; the oldest go first. */
+  maxVersions: number;
+  /** Versions replaced more than this many days ago are removed. */
+  maxDays: number;
+}
+
+function sha1(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+/** The folder holding `filePath`'s versions. */
+function historyDirFor(storeDir: string, filePath: string): string {
+  return path.join(storeDir, sha1(path.resolve(filePath)).slice(0, 20));
+}
+
+/**
+ * The versions in `dir`, newest first, with their file names and when each was
+ * replaced (the snapshot's own mtime, which is what retention counts from).
+ */
+async function readVersionEntries(dir: string): Promise<Array<FileVersion & { name: string; replacedAt: number }>> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+  const entries = await Promise.all(names.map(async (name) => {
+    const m = VERSION_FILE_RE.exec(name);
+    if (!m) return [];
+    const stats = await fs.promises.stat(path.join(dir, name)).catch(() => null);
+    return stats ? [{ name, id: name, savedAt: Number(m[1]), compressedSize: stats.size, replacedAt: stats.mtimeMs }] : [];
+  }));
+  return entries.flat().sort((a, b) => b.savedAt - a.savedAt || b.name.localeCompare(a.name));
+}
+
+/**
+ * Keep the content `filePath` has on disk now as a version, unless it is
+ * `newContent` (a save that changes nothing) or is already the newest version.
+ * Then apply `retention`. Does nothing for a file that doesn't exist yet.
+ */
+export async function snapshotBeforeWrite(
+  storeDir: string,
+  filePath: string,
+  newContent: string,
+  retention: HistoryRetention,
+  now = Date.now(),
+): Promise<void> {
+  let current: string;
+  let stats: fs.Stats;
+  try {
+    [current, stats] = await Promise.all([fs.promises.readFile(filePath, 'utf-8'), fs.promises.stat(filePath)]);
+  } catch {
+    return;
+  }
+  if (current === newContent) return;
+
+  const dir = historyDirFor(storeDir, filePath);
+  const hash = sha1(current).slice(0, 12);
+  const existing = await readVersionEntries(dir);
+  if (existing[0]?.name.endsWith(`-${hash}.gz`) !== true) {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(path.join(dir, 'path.txt'), path.resolve(filePath), 'utf-8');
+    const name = `${Math.floor(stats.mtimeMs)}-${hash}.gz`;
+    await fs.promises.writeFile(path.join(dir, name), await gzipAsync(Buffer.from(current, 'utf-8')));
+  }
+  await pruneVersions(dir, retention, now);
+}
+
+/** Remove the versions in `dir` that `retention` no longer keeps. */
+async function pruneVersions(dir: string, retention: HistoryRetention, now: number): Promise<void> {
+  const versions = await readVersionEntries(dir);
+  const cutoff = retention.maxDays > 0 ? now - retention.maxDays * 24 * 60 * 60 * 1000 : -Infinity;
+  const doomed = versions.filter((v, i) =>
+    (retention.maxVersions > 0 && i >= retention.maxVersions) || v.replacedAt < cutoff);
+  await Promise.all(doomed.map(v => fs.promises.rm(path.join(dir, v.name), { force: true })));
+}
+
+/** The kept versions of `filePath`, newest first. */
+export async function listFileVersions(storeDir: string, filePath: string): Promise<FileVersion[]> {
+  const entries = await readVersionEntries(historyDirFor(storeDir, filePath));
+  return entries.map(({ id, savedAt, compressedSize }) => ({ id, savedAt, compressedSize }));
+}
+
+/** The content of version `id` of `filePath`, or null when there is no such version. */
+export async function readFileVersion(storeDir: string, filePath: string, id: string): Promise<string | null> {
+  // `id` comes from the renderer: only a version file name may name a file here.
+  if (!VERSION_FILE_RE.test(id)) return null;
+  try {
+    const compressed = await fs.promises.readFile(path.join(historyDirFor(storeDir, filePath), id));
+    return (await gunzipAsync(compressed)).toString('utf-8');
+  } catch {
+    return null;
+  }
+}
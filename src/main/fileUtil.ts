@@ -1,9 +1,10 @@
 import path from 'node:path';
 import fs from 'node:fs';
 import type { FileEntry } from "../global";
+import type { FileReadResult, FileStamp } from '../shared/shared';
 import { logger } from '../shared/logUtil';
 import { readAiHint } from './ai/aiHint';
-import { readIndexYaml, compareByIndexOrder } from './indexUtil';
+import { readIndexYaml, compareByIndexOrder, renameInIndexYaml } from './indexUtil';
 import { ATTACH_SUFFIX } from '../shared/specialFiles';
 import { compareNames } from '../shared/fileTypes';
 import { mapWithConcurrency } from '../shared/asyncUtil';
@@ -153,3 +154,98 @@ export async function readDirectory(dirPath: string, aiEnabled: boolean): Promis
   return fileEntries;
 }
 
+
+/**
+ * The file's current content and stamp when it no longer matches `expected` —
+ * changed by a sync tool or another editor since the editor loaded it — or null
+ * when it still does. A file that is gone is not a conflict (null): saving
+ * simply writes it again.
+ */
+export async function readIfChangedSince(filePath: string, expected: FileStamp): Promise<FileReadResult | null> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+  } catch {
+    return null;
+  }
+  try {
+    // Stat and read through the same handle, so the stamp describes the content returned.
+    const stats = await handle.stat();
+    const unchanged = stats.mtimeMs === expected.mtime && (expected.size === undefined || stats.size === expected.size);
+    if (unchanged) return null;
+    const content = await handle.readFile({ encoding: 'utf-8' });
+    return { content, mtime: stats.mtimeMs, size: stats.size };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Where {@link renameEntry} takes the `.attach` folder of `oldPath` when it
+ * renames `oldPath` to `newPath`: renamed to match, in the folder it is in.
+ */
+export function attachFolderMove(oldPath: string, newPath: string): { oldPath: string; newPath: string } {
+  const dirPath = path.dirname(oldPath);
+  return {
+    oldPath: path.join(dirPath, `${path.basename(oldPath)}${ATTACH_SUFFIX}`),
+    newPath: path.join(dirPath, `${path.basename(newPath)}${ATTACH_SUFFIX}`),
+  };
+}
+
+/**
+ * Renames (or moves) a file or folder, keeping its .INDEX.yaml entry and its
+ * `.attach` folder in step. Returns false — after logging — on any failure,
+ * including a refused overwrite. Backs the `rename-file` IPC handler and the
+ * undo of a link-rewriting move (linkRewrite.ts), which moves entries back.
+ */
+export async function renameEntry(oldPath: string, newPath: string): Promise<boolean> {
+  try {
+    // Refuse to clobber a *different* existing entry at the destination.
+    // fs.rename silently overwrites the target on POSIX, and on Windows
+    // (libuv uses MoveFileEx with MOVEFILE_REPLACE_EXISTING), so without this
+    // guard a move/paste onto an occupied path would destroy the existing
+    // file. On case-insensitive filesystems (NTFS/APFS) this is also how a
+    // paste of two items differing only in case would silently lose data.
+    //
+    // The "different" qualifier matters: a pure case-only rename of a single
+    // file (Readme.md -> README.md) targets the SAME on-disk entry on a
+    // case-insensitive FS, where stat(newPath) resolves back to the source.
+    // That must still succeed, so we only block when the target is a distinct
+    // entry (different dev/ino).
+    if (oldPath !== newPath) {
+      let targetStat: import('fs').Stats | null = null;
+      try {
+        targetStat = await fs.promises.stat(newPath);
+      } catch {
+        targetStat = null; // nothing at the destination — safe to rename
+      }
+      if (targetStat) {
+        const sourceStat = await fs.promises.stat(oldPath);
+        const sameEntry = targetStat.dev === sourceStat.dev && targetStat.ino === sourceStat.ino;
+        if (!sameEntry) {
+          logger.warn(`Refusing to rename ${oldPath} -> ${newPath}: a different entry already exists at the destination`);
+          return false;
+        }
+      }
+    }
+    await fs.promises.rename(oldPath, newPath);
+    const dirPath = path.dirname(oldPath);
+    const oldName = path.basename(oldPath);
+    const newName = path.basename(newPath);
+    // Update the file's entry in .INDEX.yaml if present
+    await renameInIndexYaml(dirPath, oldName, newName);
+    // Rename the associated attach folder if it exists, and update its index entry
+    const attach = attachFolderMove(oldPath, newPath);
+    try {
+      await fs.promises.access(attach.oldPath);
+      await fs.promises.rename(attach.oldPath, attach.newPath);
+      await renameInIndexYaml(dirPath, path.basename(attach.oldPath), path.basename(attach.newPath));
+    } catch {
+      // No attach folder exists, nothing to do
+    }
+    return true;
+  } catch (error) {
+    logger.error('Error renaming file:', error);
+    return false;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Git integration for a browse root kept in a git repository: per-file status
+ * for the badges in the browser and the Index Tree, the Commit dialog, and the
+ * per-file log and HEAD diff of the Git panel.
+ *
+ * Everything goes through the system `git` binary, spawned directly (no shell)
+ * the way launcherUtil.ts runs scripts, and only local commands are used — no
+ * fetch or push — so it all works offline. Outside a repository, or without git
+ * installed, status is null and the log is empty, and the UI shows nothing.
+ */
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+import type { GitChange, GitFileState, GitLogEntry, GitStatus } from '../shared/shared';
+
+/** A commit hash as the log reports it, or HEAD: the only revisions readGitRevision accepts. */
+const REVISION_RE = /^(?:[0-9a-f]{7,40}|HEAD)$/;
+
+/** Porcelain XY codes of an unmerged path. */
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+/** Most commits the Git panel lists for a file. */
+const LOG_LIMIT = 100;
+
+interface GitOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run `git args` in `cwd` and collect its output. Rejects only when git can't
+ * be started at all; a failing command resolves with its nonzero exit code.
+ *
+ * Credential prompts are turned off (nothing here should ever need the
+ * network), status doesn't take the optional index lock that would collide with
+ * the user's own git commands, and pathspecs are literal, so a file named
+ * `:(glob)*` means that file.
+ */
+function runGit(cwd: string, args: string[]): Promise<GitOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0', GIT_LITERAL_PATHSPECS: '1' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      resolve({
+        code: code ?? 1,
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: Buffer.concat(stderr).toString('utf-8').trim(),
+      });
+    });
+  });
+}
+
+/** Like runGit, but null when git is missing or the command fails (e.g. `cwd` is not in a repository). */
+async function tryGit(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const result = await runGit(cwd, args);
+    return result.code === 0 ? result.stdout : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The state a porcelain XY code shows as. Worktree deletions win over what is staged, as the file is gone. */
+function stateForCode(xy: string): GitFileState {
+  if (xy === '??') return 'untracked';
+  if (CONFLICT_CODES.has(xy)) return 'conflicted';
+  const [x, y] = xy;
+  if (y === 'D') return 'deleted';
+  if (x === 'A') return 'added';
+  if (x === 'R' || x === 'C') return 'renamed';
+  if (x === 'D') return 'deleted';
+  if (y === 'M' || y === 'T') return 'modified';
+  return 'staged';
+}
+
+/**
+ * Parse `git status --porcelain=v1 -z -b` run in `folder`, `prefix` being
+ * `folder`'s path within the repository (`git rev-parse --show-prefix`). Paths
+ * come back repository-relative; they are made absolute against `folder` so
+ * they match how the renderer spells its paths, even where `folder` is reached
+ * through a symlink.
+ */
+export function parseGitStatus(output: string, folder: string, prefix: string): GitStatus {
+  const toAbsolute = (repoPath: string) =>
+    path.join(folder, repoPath.startsWith(prefix) ? repoPath.slice(prefix.length) : path.relative(prefix, repoPath));
+  const records = output.split('\0');
+  let branch = '';
+  const changes: GitChange[] = [];
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]!;
+    if (record.startsWith('## ')) {
+      // "## main...origin/main [ahead 1]", "## No commits yet on main", "## HEAD (no branch)"
+      branch = record.slice(3).replace(/^No commits yet on /, '').replace(/(\.\.\.| \[).*$/, '');
+      continue;
+    }
+    if (record.length < 4) continue;
+    const xy = record.slice(0, 2);
+    const change: GitChange = {
+      path: toAbsolute(record.slice(3)),
+      state: stateForCode(xy),
+      unstaged: xy[1] !== ' ',
+    };
+    // A rename or copy is followed by its source path as a record of its own.
+    if (xy[0] === 'R' || xy[0] === 'C') change.origPath = toAbsolute(records[++i] ?? '');
+    changes.push(change);
+  }
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+
+  const badges: GitStatus['badges'] = {};
+  for (const change of changes) {
+    badges[change.path] = change.state;
+    // Every folder between the file and `folder` gets the "contains changes" badge.
+    for (let dir = path.dirname(change.path); dir.length > folder.length && dir.startsWith(folder); dir = path.dirname(dir)) {
+      if (badges[dir] === 'folder') break;
+      badges[dir] = 'folder';
+    }
+  }
+  return { folder, branch, changes, badges };
+}
+
+/**
+ * The git status of everything under `folder`, including every untracked file
+ * (not just their folders, so each gets its own badge). Null when `folder` is
+ * not in a repository or git is not installed.
+ */
+export async function getGitStatus(folder: string): Promise<GitStatus | null> {
+  const prefix = await tryGit(folder, ['rev-parse', '--show-prefix']);
+  if (prefix === null) return null;
+  const output = await tryGit(folder, ['status', '--porcelain=v1', '-z', '-b', '--untracked-files=all', '--', '.']);
+  if (output === null) return null;
+  return parseGitStatus(output, folder, prefix.trim());
+}
+
+/**
+ * The commits that touched `filePath`, newest first, following it across
+ * renames. Each entry carries the file's repository path in that commit, which
+ * readGitRevision needs to read it back. Empty when the file has no history.
+ */
+export async function getGitLog(filePath: string): Promise<GitLogEntry[]> {
+  const output = await tryGit(path.dirname(filePath), [
+    'log', '--follow', `-n${LOG_LIMIT}`, '--name-only', '--format=%x1e%H%x1f%an%x1f%at%x1f%s',
+    '--', path.basename(filePath),
+  ]);
+  if (!output) return [];
+  return output.split('\x1e').flatMap((record) => {
+    // "<hash>\x1f<author>\x1f<unix time>\x1f<subject>\n\n<path>\n"
+    const [header = '', ...rest] = record.split('\n');
+    const [hash, author, time, subject] = header.split('\x1f');
+    const repoPath = rest.find(line => line.length > 0);
+    if (!hash || !repoPath) return [];
+    return [{ hash, author: author ?? '', date: Number(time) * 1000, subject: subject ?? '', repoPath }];
+  });
+}
+
+/**
+ * The content of `filePath` at revision `rev` (a hash from getGitLog, or HEAD),
+ * or null when the file doesn't exist there. `repoPath` is the file's
+ * repository path in that revision, from the log; without it, the file's
+ * current path is used.
+ */
+export async function readGitRevision(filePath: string, rev: string, repoPath?: string): Promise<string | null> {
+  // `rev` comes from the renderer: never let it reach git as an option.
+  if (!REVISION_RE.test(rev)) return null;
+  const spec = repoPath ? `${rev}:${repoPath}` : `${rev}:./${path.basename(filePath)}`;
+  return tryGit(path.dirname(filePath), ['show', spec]);
+}
+
+/**
+ * Commit the given changes (paths from getGitStatus) with `message`. Only these
+ * paths are committed, whatever else is staged: their working-tree content is
+ * staged first, untracked files and deletions included, and both sides of a
+ * rename go in.
+ */
+export async function gitCommit(
+  folder: string,
+  message: string,
+  changes: GitChange[],
+): Promise<{ success: boolean; error?: string }> {
+  if (!message.trim()) return { success: false, error: 'A commit message is required.' };
+  if (changes.length === 0) return { success: false, error: 'No files selected.' };
+
+  const relative = (p: string) => path.relative(folder, p);
+  const toStage = changes.filter(c => c.unstaged).map(c => relative(c.path));
+  const toCommit = changes.flatMap(c => (c.origPath ? [c.path, c.origPath] : [c.path])).map(relative);
+  try {
+    if (toStage.length > 0) {
+      const added = await runGit(folder, ['add', '-A', '--', ...toStage]);
+      if (added.code !== 0) return { success: false, error: added.stderr || 'git add failed.' };
+    }
+    const committed = await runGit(folder, ['commit', '-q', '-m', message, '--only', '--', ...toCommit]);
+    if (committed.code !== 0) return { success: false, error: committed.stderr || 'git commit failed.' };
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Could not run git.' };
+  }
+}
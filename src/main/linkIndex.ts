@@ -0,0 +1,287 @@
+/**
+ * Resolves parsed links (linkParser.ts) to files and answers "who links here?".
+ *
+ * The live inverse map — target file → linking files — is maintained by the
+ * search index (searchIndex.ts), which already reads every markdown file in the
+ * vault and is kept current by its watcher; it calls {@link resolveLinkTargets},
+ * {@link wikiLinkName} and {@link toLinkRefs} for each file it indexes. A
+ * wikilink that doesn't resolve relative to its file resolves by name anywhere
+ * in the vault, as the editor follows it. This module holds what both
+ * that index and the crawl fallback below share, so a backlink means the same
+ * thing whichever one answers.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import { fdir } from 'fdir';
+import type { Backlink, WikiLinkResolution, WikiLinkTarget } from '../shared/shared';
+import { parseLinks, type ParsedLink } from '../shared/linkParser';
+import { buildExcludePredicate } from '../shared/pathPattern';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger } from '../shared/logUtil';
+import type { SearchIndexSnapshot } from './searchIndex';
+
+/** Files read concurrently by the crawl fallback (see SEARCH_FILE_CONCURRENCY in search.ts). */
+const BACKLINK_SCAN_CONCURRENCY = 32;
+
+/** Longest context line kept per link. */
+const MAX_CONTEXT_CHARS = 200;
+
+/** The part of a link the index keeps per source file: enough to resolve it and
+ * to show it in the Backlinks panel. */
+export interface LinkRef {
+  kind: ParsedLink['kind'];
+  target: string;
+  anchor: string | null;
+  line: number;
+  /** The trimmed source line the link sits on. */
+  context: string;
+}
+
+/** The links of `content` in their stored form, with each link's line as context. */
+export function toLinkRefs(content: string): LinkRef[] {
+  const lines = content.split('\n');
+  return parseLinks(content).map((link) => {
+    const lineText = (lines[link.line - 1] ?? '').trim();
+    return {
+      kind: link.kind,
+      target: link.target,
+      anchor: link.anchor,
+      line: link.line,
+      context: lineText.length > MAX_CONTEXT_CHARS ? `${lineText.slice(0, MAX_CONTEXT_CHARS)}…` : lineText,
+    };
+  });
+}
+
+/**
+ * The absolute paths a link from `sourcePath` may refer to. Relative targets
+ * resolve against the source file's folder and absolute ones are taken as-is,
+ * exactly as CustomAnchor navigates them. A wikilink without an extension also
+ * resolves to the `.md` file of that name, since `[[note]]` conventionally
+ * means note.md. A same-document `#anchor` link resolves to the source itself.
+ */
+export function resolveLinkTargets(sourcePath: string, link: Pick<LinkRef, 'kind' | 'target'>): string[] {
+  if (link.target === '') return [sourcePath];
+  const resolved = path.resolve(path.dirname(sourcePath), link.target);
+  if (link.kind === 'wiki' && path.extname(resolved) === '') return [resolved, `${resolved}.md`];
+  return [resolved];
+}
+
+/**
+ * Files under `rootPath` that a wikilink to `target` names when it doesn't
+ * resolve relative to its own file — Obsidian-style resolution, where
+ * `[[note]]` means note.md anywhere in the vault and `[[projects/note]]` any
+ * note.md inside a `projects` folder. Matching is case-insensitive. A target
+ * that climbs with `../` is an explicit relative path, so it matches nothing.
+ */
+export function findWikiCandidates(rootPath: string, target: string, files: string[]): string[] {
+  let wanted = target.replace(/\\/g, '/').replace(/^(\.\/)+/, '').toLowerCase();
+  if (wanted === '' || wanted.startsWith('../') || wanted.startsWith('/')) return [];
+  if (path.posix.extname(wanted) === '') wanted += '.md';
+  return files.filter((filePath) => {
+    const rel = path.relative(rootPath, filePath).split(path.sep).join('/').toLowerCase();
+    return rel === wanted || rel.endsWith(`/${wanted}`);
+  });
+}
+
+/**
+ * The lowercased file name a wikilink to `target` names wherever it is matched
+ * in the vault (`[[projects/Note]]` → `note.md`), or null for a target that
+ * {@link findWikiCandidates} never matches. Keys the index's wikilink map.
+ */
+export function wikiLinkName(target: string): string | null {
+  const wanted = target.replace(/\\/g, '/').replace(/^(\.\/)+/, '').toLowerCase();
+  if (wanted === '' || wanted.startsWith('../') || wanted.startsWith('/')) return null;
+  const name = path.posix.basename(wanted);
+  return path.posix.extname(name) === '' ? `${name}.md` : name;
+}
+
+/** A vault's files, for resolving many links against them at once. */
+export interface VaultFiles {
+  rootPath: string;
+  has: (filePath: string) => boolean;
+  /** The files whose lowercased name is `name` (see {@link wikiLinkName}). */
+  named: (name: string) => string[];
+}
+
+/** {@link VaultFiles} over the files `files` under `rootPath`. */
+export function toVaultFiles(rootPath: string, files: Iterable<string>): VaultFiles {
+  const all = new Set(files);
+  const byName = new Map<string, string[]>();
+  for (const filePath of all) {
+    const name = path.basename(filePath).toLowerCase();
+    const list = byName.get(name);
+    if (list) list.push(filePath);
+    else byName.set(name, [filePath]);
+  }
+  return { rootPath, has: p => all.has(p), named: name => byName.get(name) ?? [] };
+}
+
+/**
+ * The file the wikilink `target` in `sourcePath` names through the vault — the
+ * closest match of {@link findWikiCandidates}, as {@link resolveWikiLink} picks
+ * it — or null. Only meaningful when the link doesn't resolve relative to its
+ * own file, which callers check first.
+ */
+export function closestWikiMatch(sourcePath: string, target: string, vault: VaultFiles): string | null {
+  const name = wikiLinkName(target);
+  if (name === null) return null;
+  return rankByProximity(sourcePath, findWikiCandidates(vault.rootPath, target, vault.named(name)))[0] ?? null;
+}
+
+/**
+ * `candidates` ordered closest to `sourcePath` first: the most folders shared
+ * with the linking file's folder, then the fewest folders to descend from
+ * there, then by path. This is how an ambiguous wikilink picks its target.
+ */
+export function rankByProximity(sourcePath: string, candidates: string[]): string[] {
+  const sourceDirs = path.dirname(sourcePath).split(path.sep);
+  const distance = (candidate: string) => {
+    const dirs = path.dirname(candidate).split(path.sep);
+    let shared = 0;
+    while (shared < dirs.length && shared < sourceDirs.length && dirs[shared] === sourceDirs[shared]) shared++;
+    return { shared, below: dirs.length - shared };
+  };
+  return candidates
+    .map(candidate => ({ candidate, ...distance(candidate) }))
+    .sort((a, b) => b.shared - a.shared || a.below - b.below || a.candidate.localeCompare(b.candidate))
+    .map(c => c.candidate);
+}
+
+/** How long a crawl of the vault's file names is reused for wikilink resolution. */
+const VAULT_FILES_TTL_MS = 5000;
+
+let vaultFilesCache: { key: string; at: number; files: Promise<string[]> } | null = null;
+
+/**
+ * Every non-ignored file under `rootPath`, for resolving wikilinks when the
+ * search index can't answer. A page renders all of its wikilinks at once, so
+ * one crawl is shared by the requests of the next few seconds.
+ */
+export function listVaultFiles(rootPath: string, ignoredPaths: string[]): Promise<string[]> {
+  const key = `${rootPath}\n${ignoredPaths.join('\n')}`;
+  const now = Date.now();
+  if (vaultFilesCache?.key === key && now - vaultFilesCache.at < VAULT_FILES_TTL_MS) return vaultFilesCache.files;
+  const shouldExcludePath = buildExcludePredicate(ignoredPaths);
+  const files = new fdir()
+    .withFullPaths()
+    .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
+    .filter(filePath => !shouldExcludePath(path.basename(filePath), filePath))
+    .crawl(rootPath)
+    .withPromise();
+  vaultFilesCache = { key, at: now, files };
+  // A failed crawl isn't worth remembering.
+  files.catch(() => { if (vaultFilesCache?.files === files) vaultFilesCache = null; });
+  return files;
+}
+
+/**
+ * Resolves the wikilink `target` in `sourcePath`: the file it names relative
+ * to its own folder when that exists (see {@link resolveLinkTargets}), and
+ * otherwise every matching file in the vault (see {@link findWikiCandidates}),
+ * closest first. `files` lists the vault's files.
+ */
+export async function resolveWikiLink(rootPath: string, sourcePath: string, target: string, files: () => Promise<string[]>): Promise<WikiLinkResolution> {
+  for (const candidate of resolveLinkTargets(sourcePath, { kind: 'wiki', target })) {
+    try {
+      await fs.promises.access(candidate);
+      return { path: candidate, candidates: [candidate] };
+    } catch {
+      // Not there; try the next form, then the vault.
+    }
+  }
+  const candidates = rankByProximity(sourcePath, findWikiCandidates(rootPath, target, await files()));
+  return { path: candidates[0] ?? null, candidates };
+}
+
+/**
+ * Every file under `rootPath` with its modification time, for wikilink
+ * completion. The search index answers both from memory when it is ready;
+ * otherwise the vault is crawled and each file stat'ed.
+ */
+export async function listWikiLinkTargets(
+  rootPath: string,
+  ignoredPaths: string[],
+  snapshot: Pick<SearchIndexSnapshot, 'listFiles' | 'modifiedTime'> | null,
+): Promise<WikiLinkTarget[]> {
+  if (snapshot) {
+    return snapshot.listFiles().map(p => ({ path: p, modifiedTime: snapshot.modifiedTime(p) ?? 0 }));
+  }
+  const files = await listVaultFiles(rootPath, ignoredPaths);
+  return mapWithConcurrency(files, BACKLINK_SCAN_CONCURRENCY, async p => ({
+    path: p,
+    modifiedTime: await fs.promises.stat(p).then(stat => stat.mtimeMs, () => 0),
+  }));
+}
+
+/**
+ * Whether `link` in `sourcePath` leads to `targetPath`: relative to its own
+ * file, or — for a wikilink that resolves nowhere there — through the vault.
+ */
+function linksTo(sourcePath: string, link: LinkRef, targetPath: string, vault: VaultFiles): boolean {
+  const targets = resolveLinkTargets(sourcePath, link);
+  if (targets.includes(targetPath)) return true;
+  if (link.kind !== 'wiki' || link.target === '' || targets.some(vault.has)) return false;
+  return closestWikiMatch(sourcePath, link.target, vault) === targetPath;
+}
+
+/** Backlinks to `targetPath` among `links` of `sourcePath`, resolving wikilinks
+ * against `vault` as the editor does. Links from a file to itself are skipped. */
+export function backlinksFrom(sourcePath: string, links: LinkRef[], targetPath: string, vault: VaultFiles): Backlink[] {
+  if (sourcePath === targetPath) return [];
+  return links
+    .filter(link => linksTo(sourcePath, link, targetPath, vault))
+    .map(link => ({ sourcePath, line: link.line, context: link.context, anchor: link.anchor }));
+}
+
+/** Sort backlinks by source path, then line — the order the panel lists them in —
+ * keeping one entry per source line and anchor (a line that links the same place
+ * twice is one backlink, not two). */
+export function sortBacklinks(backlinks: Backlink[]): Backlink[] {
+  const seen = new Set<string>();
+  return backlinks
+    .filter((b) => {
+      const key = `${b.sourcePath}\n${b.line}\n${b.anchor ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line);
+}
+
+/** Every non-ignored markdown file under `rootPath` — the files that can hold links. */
+export async function crawlMarkdownFiles(rootPath: string, ignoredPaths: string[]): Promise<string[]> {
+  const shouldExcludePath = buildExcludePredicate(ignoredPaths);
+  return new fdir()
+    .withFullPaths()
+    .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
+    .filter(filePath => !shouldExcludePath(path.basename(filePath), filePath)
+      && path.extname(filePath).toLowerCase() === '.md')
+    .crawl(rootPath)
+    .withPromise();
+}
+
+/**
+ * Backlinks to `targetPath` found by crawling and reading every markdown file
+ * under `rootPath` — the fallback for when the search index isn't ready (or
+ * can't vouch for being current), mirroring how searchFolder falls back to its
+ * own crawl.
+ */
+export async function scanBacklinks(rootPath: string, targetPath: string, ignoredPaths: string[]): Promise<Backlink[]> {
+  const [files, vaultFiles] = await Promise.all([
+    crawlMarkdownFiles(rootPath, ignoredPaths),
+    listVaultFiles(rootPath, ignoredPaths),
+  ]);
+  const vault = toVaultFiles(rootPath, vaultFiles);
+  const resolvedTarget = path.resolve(targetPath);
+  const perFile = await mapWithConcurrency(files, BACKLINK_SCAN_CONCURRENCY, async (filePath) => {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (err) {
+      logger.debug('linkIndex: skipping unreadable file', filePath, err);
+      return [];
+    }
+    return backlinksFrom(filePath, toLinkRefs(content), resolvedTarget, vault);
+  });
+  return sortBacklinks(perFile.flat());
+}
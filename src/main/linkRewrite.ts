@@ -0,0 +1,466 @@
+/**
+ * Keeps links working when files and folders move.
+ *
+ * A rename, drag-and-drop move or cut/paste changes where an entry lives, which
+ * silently breaks every relative markdown link and `[[wikilink]]` pointing at it —
+ * and, when the moved entry is itself a markdown file (or a folder of them), every
+ * relative link *in* it. This module works out which link targets need new text,
+ * rewrites them, and can put everything back.
+ *
+ * The flow is split in three so the user can see what will happen first:
+ *
+ * 1. {@link planLinkRewrites} — before the move. Finds the files that link to a
+ *    moving path (from the search index's link map, or a crawl when the index
+ *    can't answer) plus the moving markdown files themselves, and computes every
+ *    edit. A note's `.attach` folder, which renameEntry moves with it, counts as
+ *    moving too. The plan is kept here; the renderer gets a summary to preview.
+ * 2. {@link applyLinkRewrites} — after the move, for the moves that actually
+ *    happened. A file that changed since the plan was made is left alone rather
+ *    than patched at stale offsets.
+ * 3. {@link undoLinkRewrites} — moves the entries back and restores the files that
+ *    were rewritten, as one batch. A file edited since the rewrite is reported as a
+ *    conflict and kept as the user left it.
+ *
+ * Only the path part of a link target is replaced: `#section` anchors, wikilink
+ * aliases, link text and titles are untouched, and each link keeps its style — an
+ * extensionless `[[note]]` stays extensionless, an absolute path stays absolute, a
+ * `<bracketed>` destination stays unencoded.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import type {
+  EntryMove,
+  LinkRewriteApplyResult,
+  LinkRewritePlan,
+  LinkRewriteUndoResult,
+} from '../shared/shared';
+import { parseLinks, type ParsedLink } from '../shared/linkParser';
+import { isMarkdownFile } from '../shared/fileTypes';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger } from '../shared/logUtil';
+import { resolveLinkTargets, crawlMarkdownFiles, closestWikiMatch, listVaultFiles, toVaultFiles, type VaultFiles } from './linkIndex';
+import { getIndexedLinkSources, getSearchIndexSnapshot } from './searchIndex';
+import { writeFileAtomic } from './atomicWrite';
+import { attachFolderMove, renameEntry } from './fileUtil';
+
+/** Files read/written concurrently (see REPLACE_FILE_CONCURRENCY in searchAndReplace.ts). */
+const REWRITE_FILE_CONCURRENCY = 32;
+
+/** One replacement of a link's path text. */
+export interface LinkEdit {
+  /** Offsets of the replaced text in the file's content. */
+  start: number;
+  end: number;
+  /** The new path text. */
+  text: string;
+  /** 1-based line of the link. */
+  line: number;
+  /** The path text being replaced. */
+  before: string;
+  /** Indices (into the move list) of the moves this edit assumes happened: the
+   * move of the linking file, the move of the target, or both. */
+  moves: number[];
+}
+
+interface PlannedFile {
+  filePath: string;
+  newFilePath: string;
+  /** The content the edits were computed against. */
+  content: string;
+  edits: LinkEdit[];
+}
+
+/** A move the plan accounts for. */
+interface PlannedMove extends EntryMove {
+  /** Set on a note's `.attach` folder, which renameEntry moves along with the
+   * note: the index of the note's move. */
+  companionOf?: number;
+}
+
+interface PendingPlan {
+  id: number;
+  moves: PlannedMove[];
+  files: PlannedFile[];
+}
+
+/** What one applied plan changed, for {@link undoLinkRewrites}. */
+interface UndoBatch {
+  /** The moves, each with the `.attach` folder that went along with it (null when none). */
+  moves: { move: EntryMove; attach: EntryMove | null }[];
+  /** Rewritten files at their post-move paths, with their content either side. */
+  files: { path: string; before: string; after: string }[];
+}
+
+// Only the most recent plan can be applied: a preview left open while another move
+// was planned must not apply edits computed for a tree that has since changed.
+let latestPlan: PendingPlan | null = null;
+let nextPlanId = 1;
+let lastBatch: UndoBatch | null = null;
+
+/**
+ * Where `p` ends up after `moves`, and the index of the move that takes it there —
+ * either the moved entry itself or something inside a moved folder. Null when no
+ * move touches `p`.
+ */
+export function movedLocation(p: string, moves: EntryMove[]): { path: string; move: number } | null {
+  for (const [i, move] of moves.entries()) {
+    if (p === move.oldPath) return { path: move.newPath, move: i };
+    if (p.startsWith(move.oldPath + path.sep)) return { path: move.newPath + p.slice(move.oldPath.length), move: i };
+  }
+  return null;
+}
+
+/** Percent-encode what would end an unbracketed markdown link destination early
+ * (whitespace, parentheses, angle brackets) and `%` itself, so the link still
+ * parses and decodes back to the same path. Everything else stays readable. */
+export function encodeLinkPath(p: string): string {
+  return p.replace(/[%\s()<>]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/** The path text a link needs to reach `newTargetPath` from a file at `newSourcePath`,
+ * in the same style as the link's current text `rawPath`. */
+function formatTargetPath(
+  link: ParsedLink,
+  rawPath: string,
+  newSourcePath: string,
+  newTargetPath: string,
+  bracketed: boolean,
+): string {
+  let text: string;
+  if (path.isAbsolute(link.target)) {
+    text = newTargetPath;
+  } else {
+    text = path.relative(path.dirname(newSourcePath), newTargetPath).split(path.sep).join('/');
+    if (rawPath.startsWith('./') && !text.startsWith('.')) text = `./${text}`;
+  }
+  if (link.kind === 'wiki') {
+    // `[[note]]` meant note.md; keep it extensionless.
+    if (path.extname(link.target) === '' && text.toLowerCase().endsWith('.md')) text = text.slice(0, -3);
+    return text;
+  }
+  return bracketed ? text : encodeLinkPath(text);
+}
+
+/** The vault's files before and after the moves, for wikilinks that resolve by
+ * name anywhere in the vault rather than relative to their file. */
+export interface VaultMove {
+  before: VaultFiles;
+  after: VaultFiles;
+}
+
+/** Whether the wikilink text `text` in a file at `sourcePath` leads to `targetPath` among `vault`'s files. */
+function wikiResolvesTo(sourcePath: string, text: string, targetPath: string, vault: VaultFiles): boolean {
+  const relative = resolveLinkTargets(sourcePath, { kind: 'wiki', target: text }).find(vault.has);
+  if (relative !== undefined) return relative === targetPath;
+  return closestWikiMatch(sourcePath, text, vault) === targetPath;
+}
+
+/**
+ * The path text for a wikilink that reached its target by name through the
+ * vault: unchanged while it still does, otherwise the same number of trailing
+ * path segments of the new location (`[[note]]` → `[[renamed]]`), and only when
+ * that is ambiguous a path relative to the linking file.
+ */
+function formatVaultWikiPath(
+  link: ParsedLink,
+  rawPath: string,
+  newSourcePath: string,
+  newTargetPath: string,
+  after: VaultFiles,
+): string {
+  if (wikiResolvesTo(newSourcePath, rawPath, newTargetPath, after)) return rawPath;
+  const depth = rawPath.replace(/\\/g, '/').replace(/^(\.\/)+/, '').split('/').length;
+  let text = path.relative(after.rootPath, newTargetPath).split(path.sep).slice(-depth).join('/');
+  if (path.extname(link.target) === '' && text.toLowerCase().endsWith('.md')) text = text.slice(0, -3);
+  if (wikiResolvesTo(newSourcePath, text, newTargetPath, after)) return text;
+  return formatTargetPath(link, rawPath, newSourcePath, newTargetPath, false);
+}
+
+/**
+ * The edits `content` (the file at `sourcePath`) needs so its links still reach
+ * their targets after `moves`. A link is considered only when it currently
+ * resolves to something — a moved entry, or a path `exists` vouches for — so
+ * links that were already broken are left alone. Links whose text comes out the
+ * same (e.g. between two files moving together in one folder) produce no edit.
+ * With `vault`, a wikilink that resolves nowhere relative to its file is
+ * followed by name through the vault, as the editor follows it.
+ * `moves` must hold resolved absolute paths.
+ */
+export function planFileRewrites(
+  sourcePath: string,
+  content: string,
+  links: ParsedLink[],
+  moves: EntryMove[],
+  exists: (p: string) => boolean,
+  vault?: VaultMove,
+): LinkEdit[] {
+  const sourceMove = movedLocation(sourcePath, moves);
+  const newSourcePath = sourceMove?.path ?? sourcePath;
+  const edits: LinkEdit[] = [];
+  for (const link of links) {
+    if (link.target === '') continue;
+    let target: string | null = null;
+    let targetMove: ReturnType<typeof movedLocation> = null;
+    for (const candidate of resolveLinkTargets(sourcePath, link)) {
+      const moved = movedLocation(candidate, moves);
+      if (moved || exists(candidate)) {
+        target = candidate;
+        targetMove = moved;
+        break;
+      }
+    }
+    const byName = target === null && vault !== undefined && link.kind === 'wiki';
+    if (byName) {
+      target = closestWikiMatch(sourcePath, link.target, vault.before);
+      targetMove = target === null ? null : movedLocation(target, moves);
+    }
+    if (target === null || (!sourceMove && !targetMove)) continue;
+
+    const rawTarget = content.slice(link.targetStart, link.targetEnd);
+    const hash = rawTarget.indexOf('#');
+    const rawPath = (hash === -1 ? rawTarget : rawTarget.slice(0, hash)).trimEnd();
+    const bracketed = link.kind === 'markdown' && content[link.targetStart - 1] === '<';
+    const newTargetPath = targetMove?.path ?? target;
+    const text = byName
+      ? formatVaultWikiPath(link, rawPath, newSourcePath, newTargetPath, vault.after)
+      : formatTargetPath(link, rawPath, newSourcePath, newTargetPath, bracketed);
+    if (text === rawPath) continue;
+
+    edits.push({
+      start: link.targetStart,
+      end: link.targetStart + rawPath.length,
+      text,
+      line: link.line,
+      before: rawPath,
+      moves: [sourceMove?.move, targetMove?.move].filter((m): m is number => m !== undefined),
+    });
+  }
+  return edits;
+}
+
+/** `content` with `edits` applied. Edits must not overlap. */
+export function applyLinkEdits(content: string, edits: LinkEdit[]): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/** Link targets of `links` (from `sourcePath`) that exist on disk. */
+async function existingTargets(sourcePath: string, links: ParsedLink[]): Promise<Set<string>> {
+  const candidates = new Set(links.filter(l => l.target !== '').flatMap(l => resolveLinkTargets(sourcePath, l)));
+  const existing = new Set<string>();
+  await Promise.all([...candidates].map(async (candidate) => {
+    try {
+      await fs.promises.access(candidate);
+      existing.add(candidate);
+    } catch {
+      // Missing: the link is already broken (or points at the entry being moved).
+    }
+  }));
+  return existing;
+}
+
+/**
+ * Markdown files that may need edits: those linking to or into a moving path, and
+ * those being moved (their own relative links). From the search index when it can
+ * answer, otherwise every markdown file under `rootPath`.
+ */
+async function rewriteCandidates(rootPath: string, moves: EntryMove[], ignoredPaths: string[]): Promise<string[]> {
+  const linking = getIndexedLinkSources(moves.map(m => m.oldPath), ignoredPaths);
+  const snapshot = getSearchIndexSnapshot(rootPath, ignoredPaths);
+  if (linking && snapshot) {
+    const moving = snapshot.listFiles().filter(p => isMarkdownFile(p) && movedLocation(p, moves));
+    return [...new Set([...linking, ...moving])];
+  }
+  return crawlMarkdownFiles(rootPath, ignoredPaths);
+}
+
+/**
+ * `moves` followed by the `.attach` folders renameEntry takes along with the
+ * moving notes, so links into those folders are planned too. An attach folder
+ * the user moves explicitly (cut/paste can select it) is already in `moves`.
+ */
+async function withAttachFolders(moves: EntryMove[]): Promise<PlannedMove[]> {
+  const companions = await Promise.all(moves.map(async (move, i): Promise<PlannedMove | null> => {
+    const attach = attachFolderMove(move.oldPath, move.newPath);
+    if (movedLocation(attach.oldPath, moves)) return null;
+    try {
+      return (await fs.promises.stat(attach.oldPath)).isDirectory() ? { ...attach, companionOf: i } : null;
+    } catch {
+      return null;
+    }
+  }));
+  return [...moves, ...companions.filter((m): m is PlannedMove => m !== null)];
+}
+
+/**
+ * Step 1: the link rewrites `moves` need, computed before anything moves. The
+ * plan replaces any earlier unapplied one.
+ */
+export async function planLinkRewrites(rootPath: string, moves: EntryMove[], ignoredPaths: string[]): Promise<LinkRewritePlan> {
+  const resolvedMoves = await withAttachFolders(moves.map(m => ({ oldPath: path.resolve(m.oldPath), newPath: path.resolve(m.newPath) })));
+  const candidates = await rewriteCandidates(rootPath, resolvedMoves, ignoredPaths);
+  const vaultFiles = getSearchIndexSnapshot(rootPath, ignoredPaths)?.listFiles() ?? await listVaultFiles(rootPath, ignoredPaths);
+  const vault: VaultMove = {
+    before: toVaultFiles(rootPath, vaultFiles),
+    after: toVaultFiles(rootPath, vaultFiles.map(p => movedLocation(p, resolvedMoves)?.path ?? p)),
+  };
+
+  const planned = await mapWithConcurrency(candidates, REWRITE_FILE_CONCURRENCY, async (filePath): Promise<PlannedFile | null> => {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (err) {
+      logger.debug('linkRewrite: skipping unreadable file', filePath, err);
+      return null;
+    }
+    const links = parseLinks(content);
+    const existing = await existingTargets(filePath, links);
+    const edits = planFileRewrites(filePath, content, links, resolvedMoves, p => existing.has(p), vault);
+    if (edits.length === 0) return null;
+    return { filePath, newFilePath: movedLocation(filePath, resolvedMoves)?.path ?? filePath, content, edits };
+  });
+
+  const files = planned
+    .filter((f): f is PlannedFile => f !== null)
+    .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  const plan: PendingPlan = { id: nextPlanId++, moves: resolvedMoves, files };
+  latestPlan = plan;
+  return {
+    id: plan.id,
+    files: files.map(f => ({
+      filePath: f.filePath,
+      newFilePath: f.newFilePath,
+      changes: f.edits.map(e => ({
+        line: e.line,
+        column: e.start - f.content.lastIndexOf('\n', e.start - 1),
+        before: e.before,
+        after: e.text,
+      })),
+    })),
+  };
+}
+
+/**
+ * Step 2: apply plan `planId` now that the moves are done. `movedOldPaths` lists
+ * the entries that actually moved (a paste can partially fail); edits that depend
+ * on a move that didn't happen are dropped. Records the batch for undo, replacing
+ * the previous one. `beforeWrite` gets each file's content just before it is
+ * rewritten, for the undo journal.
+ */
+export async function applyLinkRewrites(
+  planId: number,
+  movedOldPaths: string[],
+  beforeWrite?: (filePath: string, content: string) => Promise<void>
+): Promise<LinkRewriteApplyResult> {
+  const plan = latestPlan;
+  if (!plan || plan.id !== planId) {
+    return { success: false, error: 'The link update is out of date; no links were changed.', updatedFiles: [], skippedFiles: [], undoable: false };
+  }
+  latestPlan = null;
+
+  const moved = new Set(movedOldPaths.map(p => path.resolve(p)));
+  const done = new Set<number>();
+  // Attach folders come after the moves they go along with, so those are settled first.
+  plan.moves.forEach((m, i) => {
+    if (m.companionOf === undefined ? moved.has(m.oldPath) : done.has(m.companionOf)) done.add(i);
+  });
+
+  const outcomes = await mapWithConcurrency(plan.files, REWRITE_FILE_CONCURRENCY, async (file) => {
+    const edits = file.edits.filter(e => e.moves.every(i => done.has(i)));
+    if (edits.length === 0) return null;
+    const ownMove = movedLocation(file.filePath, plan.moves);
+    const currentPath = ownMove && done.has(ownMove.move) ? ownMove.path : file.filePath;
+    try {
+      const current = await fs.promises.readFile(currentPath, 'utf-8');
+      if (current !== file.content) return { path: currentPath, written: null };
+      const after = applyLinkEdits(current, edits);
+      await beforeWrite?.(currentPath, current);
+      await writeFileAtomic(currentPath, after);
+      return { path: currentPath, written: { before: current, after } };
+    } catch (err) {
+      logger.error('linkRewrite: failed to rewrite links in', currentPath, err);
+      return { path: currentPath, written: null };
+    }
+  });
+
+  const updated: UndoBatch['files'] = [];
+  const skippedFiles: string[] = [];
+  for (const outcome of outcomes) {
+    if (!outcome) continue;
+    if (outcome.written) updated.push({ path: outcome.path, ...outcome.written });
+    else skippedFiles.push(outcome.path);
+  }
+
+  const doneMoves = plan.moves.flatMap((m, i) => {
+    if (!done.has(i) || m.companionOf !== undefined) return [];
+    const attach = plan.moves.find(c => c.companionOf === i);
+    return [{
+      move: { oldPath: m.oldPath, newPath: m.newPath },
+      attach: attach ? { oldPath: attach.oldPath, newPath: attach.newPath } : null,
+    }];
+  });
+  lastBatch = doneMoves.length > 0 ? { moves: doneMoves, files: updated } : null;
+  return { success: true, updatedFiles: updated.map(f => f.path), skippedFiles, undoable: lastBatch !== null };
+}
+
+/**
+ * Step 3: undo the last applied batch — move its entries back (last move first)
+ * and restore the files it rewrote. Files edited since the rewrite are left as
+ * they are and reported in `conflicts`; a move that can't be reversed (e.g.
+ * something now occupies the old path) is reported in `error`, and the files
+ * under it are restored in place.
+ */
+export async function undoLinkRewrites(): Promise<LinkRewriteUndoResult> {
+  const batch = lastBatch;
+  if (!batch) return { success: false, error: 'There is no move to undo.', moves: [], conflicts: [] };
+  lastBatch = null;
+
+  // Decide what to restore before anything moves, while the paths are still valid.
+  const checked = await mapWithConcurrency(batch.files, REWRITE_FILE_CONCURRENCY, async (file) => {
+    try {
+      return { file, intact: await fs.promises.readFile(file.path, 'utf-8') === file.after };
+    } catch {
+      return { file, intact: false };
+    }
+  });
+  const conflicts = checked.filter(c => !c.intact).map(c => c.file.path);
+
+  const reversed: EntryMove[] = [];
+  // Attach folders renameEntry moved back along with their notes.
+  const attachesBack: EntryMove[] = [];
+  const stuck: string[] = [];
+  for (const { move, attach } of [...batch.moves].reverse()) {
+    if (await renameEntry(move.newPath, move.oldPath)) {
+      reversed.push({ oldPath: move.newPath, newPath: move.oldPath });
+      const back = attachFolderMove(move.newPath, move.oldPath);
+      if (attach && back.oldPath === attach.newPath && back.newPath === attach.oldPath) attachesBack.push(back);
+    } else {
+      stuck.push(move.newPath);
+    }
+  }
+
+  const failedRestores: string[] = [];
+  await mapWithConcurrency(checked.filter(c => c.intact), REWRITE_FILE_CONCURRENCY, async ({ file }) => {
+    const location = movedLocation(file.path, [...reversed, ...attachesBack])?.path ?? file.path;
+    try {
+      await writeFileAtomic(location, file.before);
+    } catch (err) {
+      logger.error('linkRewrite: failed to restore', location, err);
+      failedRestores.push(location);
+    }
+  });
+
+  const problems = [
+    ...(stuck.length > 0 ? [`Could not move back: ${stuck.join(', ')}.`] : []),
+    ...(failedRestores.length > 0 ? [`Could not restore: ${failedRestores.join(', ')}.`] : []),
+  ];
+  return {
+    success: problems.length === 0,
+    error: problems.length > 0 ? problems.join(' ') : undefined,
+    moves: reversed,
+    conflicts,
+  };
+}
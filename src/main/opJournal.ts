@@ -0,0 +1,363 @@
+/**
+ * Undo journal for the bulk file operations: Replace in Files, Split, Join,
+ * paste-moves and multi-delete.
+ *
+ * Each of them runs as one journaled operation. {@link beginOperation} opens it,
+ * and before any path is written, created or deleted the caller records what was
+ * there ({@link recordBeforeChange}); moves are recorded once done
+ * ({@link recordMove}). The prior content is copied into a folder of its own under
+ * the store dir main.ts passes in (next to config.yaml), since a deleted entry
+ * goes to the OS trash, where the app can't get it back. {@link endOperation}
+ * then fingerprints the state every touched path was left in.
+ *
+ * {@link undoOperations} reverts the newest operations as one batch. Every path
+ * is checked first — walking back through the operations newest first, against
+ * the state the ones already walked would leave — and a path that no longer
+ * matches what its operation left (edited, deleted or recreated since) cancels
+ * the whole undo before anything is written. Undo keeps what each path held
+ * before reverting it, so an error part way (a disk error, a copy gone missing)
+ * puts the reverted paths back and the batch is undone whole or not at all.
+ *
+ * The journal itself is kept in memory, so it covers the current session; the
+ * store dir is emptied when it is opened.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import type { EntryMove, JournalOperation, JournalUndoResult } from '../shared/shared';
+import { logger } from '../shared/logUtil';
+import { renameEntry } from './fileUtil';
+
+/** Operations kept; the oldest drop off, copies and all. */
+const MAX_OPERATIONS = 20;
+
+/** Prior content copied per operation. Past this, the operation can't be undone. */
+const MAX_OPERATION_BYTES = 256 * 1024 * 1024;
+
+/** Nothing at the path. */
+const ABSENT = 'absent';
+/** A folder (its contents are not fingerprinted). */
+const FOLDER = 'folder';
+
+/** A path's state: ABSENT, FOLDER, or the sha1 of a file's content. */
+type EntryState = string;
+
+type JournalRecord =
+  /** What `path` held before the operation first changed it, and where a copy is kept. */
+  | { type: 'entry'; path: string; before: EntryState; copy: string | null }
+  | { type: 'move'; from: string; to: string };
+
+interface Operation {
+  id: number;
+  label: string;
+  time: number;
+  /** Where this operation's copies live. */
+  dir: string;
+  records: JournalRecord[];
+  /** Paths with an `entry` record: only the first change to a path is kept. */
+  recorded: Set<string>;
+  bytes: number;
+  /** Set when the operation can't be undone. */
+  unavailable?: string;
+  /** Each touched path's state when the operation ended. */
+  after: Map<string, EntryState>;
+}
+
+let storeDir: string | null = null;
+let nextId = 1;
+const open = new Map<number, Operation>();
+/** Finished operations, oldest first. */
+let done: Operation[] = [];
+
+function sha1(data: Buffer): string {
+  return crypto.createHash('sha1').update(data).digest('hex');
+}
+
+async function stateAt(p: string): Promise<EntryState> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.lstat(p);
+  } catch {
+    return ABSENT;
+  }
+  if (stat.isDirectory()) return FOLDER;
+  return sha1(await fs.promises.readFile(p));
+}
+
+/** Total size of the files under folder `dir`. */
+async function folderSize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const p = path.join(dir, entry.name);
+    if (entry.isDirectory()) total += await folderSize(p);
+    else if (entry.isFile()) total += (await fs.promises.stat(p)).size;
+  }
+  return total;
+}
+
+async function discard(op: Operation): Promise<void> {
+  if (!op.dir) return;
+  await fs.promises.rm(op.dir, { recursive: true, force: true }).catch((err: unknown) => {
+    logger.error('opJournal: failed to remove', op.dir, err);
+  });
+}
+
+/** Empty the journal and keep its copies under `dir` from now on. */
+export async function openOpJournal(dir: string): Promise<void> {
+  storeDir = dir;
+  open.clear();
+  done = [];
+  await fs.promises.rm(dir, { recursive: true, force: true });
+}
+
+/** Start an operation; the id it returns tags everything recorded for it. */
+export function beginOperation(label: string): number {
+  const id = nextId++;
+  const op: Operation = { id, label, time: Date.now(), dir: '', records: [], recorded: new Set(), bytes: 0, after: new Map() };
+  if (storeDir) op.dir = path.join(storeDir, String(id));
+  else op.unavailable = 'The undo journal is not open';
+  open.set(id, op);
+  return id;
+}
+
+/**
+ * Keep what `entryPath` holds (a file, a folder, or nothing) before operation `id`
+ * writes, creates or deletes it. `content` is the file's text when the caller has
+ * just read it. Only the first change to a path within an operation is recorded.
+ */
+export async function recordBeforeChange(id: number, entryPath: string, content?: string): Promise<void> {
+  const op = open.get(id);
+  if (!op) {
+    logger.warn(`opJournal: operation ${id} is not open; ${entryPath} not recorded`);
+    return;
+  }
+  const p = path.resolve(entryPath);
+  if (op.recorded.has(p)) return;
+  op.recorded.add(p);
+  if (op.unavailable) return;
+
+  // Named before any await, so concurrent recordings never share a copy.
+  const copy = path.join(op.dir, String(op.recorded.size));
+  if (content !== undefined) {
+    const data = Buffer.from(content, 'utf-8');
+    await keepCopy(op, p, sha1(data), copy, data.length, () => fs.promises.writeFile(copy, data));
+    return;
+  }
+
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.lstat(p);
+  } catch {
+    op.records.push({ type: 'entry', path: p, before: ABSENT, copy: null });
+    return;
+  }
+  if (stat.isDirectory()) {
+    await keepCopy(op, p, FOLDER, copy, await folderSize(p), () => fs.promises.cp(p, copy, { recursive: true }));
+  } else {
+    const data = await fs.promises.readFile(p);
+    await keepCopy(op, p, sha1(data), copy, data.length, () => fs.promises.writeFile(copy, data));
+  }
+}
+
+async function keepCopy(op: Operation, p: string, before: EntryState, copy: string, size: number, write: () => Promise<void>): Promise<void> {
+  op.bytes += size;
+  if (op.bytes > MAX_OPERATION_BYTES) {
+    op.unavailable = 'Too much was changed to keep a copy';
+    return;
+  }
+  await fs.promises.mkdir(op.dir, { recursive: true });
+  await write();
+  op.records.push({ type: 'entry', path: p, before, copy });
+}
+
+/** Note that operation `id` moved an entry from `from` to `to`. */
+export function recordMove(id: number, from: string, to: string): void {
+  const op = open.get(id);
+  if (!op) {
+    logger.warn(`opJournal: operation ${id} is not open; move of ${from} not recorded`);
+    return;
+  }
+  op.records.push({ type: 'move', from: path.resolve(from), to: path.resolve(to) });
+}
+
+/**
+ * Close operation `id`: fingerprint what it left and add it to the journal. An
+ * operation that recorded nothing (cancelled, or failed before any change) is
+ * dropped.
+ */
+export async function endOperation(id: number): Promise<void> {
+  const op = open.get(id);
+  if (!op) return;
+  open.delete(id);
+  if (op.records.length === 0 && op.recorded.size === 0) {
+    await discard(op);
+    return;
+  }
+  for (const record of op.records) {
+    for (const p of record.type === 'move' ? [record.from, record.to] : [record.path]) {
+      op.after.set(p, await stateAt(p));
+    }
+  }
+  op.time = Date.now();
+  done.push(op);
+  for (const dropped of done.splice(0, Math.max(0, done.length - MAX_OPERATIONS))) await discard(dropped);
+}
+
+/** The journal, newest first. */
+export function listOperations(): JournalOperation[] {
+  return done
+    .map(op => ({
+      id: op.id,
+      label: op.label,
+      time: op.time,
+      pathCount: op.after.size,
+      unavailable: op.unavailable,
+    }))
+    .reverse();
+}
+
+/**
+ * The paths among `ops` (newest first) that changed since their operation left
+ * them. Each operation is checked against the state undoing the newer ones would
+ * produce, so a path two operations touched in turn is not a conflict.
+ */
+async function findConflicts(ops: Operation[]): Promise<string[]> {
+  const virtual = new Map<string, EntryState>();
+  // Folders the walk has moved back (newest last), so paths inside them are looked up where they are now.
+  const movedBack: EntryMove[] = [];
+  const lookup = async (p: string): Promise<EntryState> => {
+    const known = virtual.get(p);
+    if (known !== undefined) return known;
+    let onDisk = p;
+    for (const move of [...movedBack].reverse()) {
+      if (onDisk.startsWith(move.newPath + path.sep)) onDisk = move.oldPath + onDisk.slice(move.newPath.length);
+    }
+    return stateAt(onDisk);
+  };
+
+  const conflicts = new Set<string>();
+  for (const op of ops) {
+    for (const [p, expected] of op.after) {
+      if (await lookup(p) !== expected) conflicts.add(p);
+    }
+    for (const record of [...op.records].reverse()) {
+      if (record.type === 'move') {
+        virtual.set(record.from, await lookup(record.to));
+        virtual.set(record.to, ABSENT);
+        movedBack.push({ oldPath: record.to, newPath: record.from });
+      } else {
+        virtual.set(record.path, record.before);
+      }
+    }
+  }
+  return [...conflicts];
+}
+
+/** What a path held just before undo reverted it: a copy in the undo's scratch folder, or null for nothing. */
+interface Reverted {
+  record: JournalRecord;
+  saved: string | null;
+}
+
+/**
+ * Put back what `record` replaced, first keeping what is there now under
+ * `scratch` so {@link rollBack} can restore it. Throws when that can't be done.
+ */
+async function revert(record: JournalRecord, scratch: string, reverted: Reverted[]): Promise<void> {
+  if (record.type === 'move') {
+    if (!await renameEntry(record.to, record.from)) throw new Error(`Could not move ${record.to} back to ${record.from}.`);
+    reverted.push({ record, saved: null });
+    return;
+  }
+  let saved: string | null = null;
+  if (await stateAt(record.path) !== ABSENT) {
+    saved = path.join(scratch, String(reverted.length));
+    await fs.promises.mkdir(scratch, { recursive: true });
+    await fs.promises.cp(record.path, saved, { recursive: true });
+  }
+  if (!record.copy) {
+    await fs.promises.rm(record.path, { recursive: true, force: true });
+  } else if (record.before === FOLDER) {
+    await fs.promises.rm(record.path, { recursive: true, force: true });
+    await fs.promises.cp(record.copy, record.path, { recursive: true });
+  } else {
+    // A file goes back the way writeFileAtomic writes one: beside it, then renamed over it.
+    const dir = path.dirname(record.path);
+    const tmpPath = path.join(dir, `.${path.basename(record.path)}.${process.pid}-${Date.now()}.tmp`);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.copyFile(record.copy, tmpPath);
+    await fs.promises.rename(tmpPath, record.path);
+  }
+  reverted.push({ record, saved });
+}
+
+/** Redo what an undo that failed part way had reverted, newest first. Throws when that can't be done. */
+async function rollBack(reverted: Reverted[]): Promise<void> {
+  for (const { record, saved } of [...reverted].reverse()) {
+    if (record.type === 'move') {
+      if (!await renameEntry(record.from, record.to)) throw new Error(`Could not move ${record.from} back to ${record.to}.`);
+      continue;
+    }
+    await fs.promises.rm(record.path, { recursive: true, force: true });
+    if (saved) await fs.promises.cp(saved, record.path, { recursive: true });
+  }
+}
+
+async function removeScratch(scratch: string): Promise<void> {
+  await fs.promises.rm(scratch, { recursive: true, force: true }).catch((err: unknown) => {
+    logger.error('opJournal: failed to remove', scratch, err);
+  });
+}
+
+/**
+ * Revert the newest `count` operations, newest first, as one batch. Nothing is
+ * touched when any of them can't be undone or any path they left has changed
+ * since; those paths come back in `conflicts`. An error part way (e.g. a disk
+ * error) puts back everything already reverted, so the operations all stay in
+ * the journal, copies and all. Only when that fails too are paths left half
+ * undone — and their operations are still kept, since their copies are then the
+ * only way back, as is the scratch folder holding what undo replaced.
+ */
+export async function undoOperations(count: number): Promise<JournalUndoResult> {
+  const result: JournalUndoResult = { success: false, undone: 0, conflicts: [], moves: [], paths: [] };
+  const ops = done.slice(-count).reverse();
+  if (count < 1 || ops.length < count) return { ...result, error: 'There are not that many operations to undo.' };
+
+  const unavailable = ops.find(op => op.unavailable);
+  if (unavailable) return { ...result, error: `"${unavailable.label}" can't be undone: ${unavailable.unavailable}.` };
+
+  result.conflicts = await findConflicts(ops);
+  if (result.conflicts.length > 0) {
+    return { ...result, error: 'Files were changed after these operations, so nothing was undone.' };
+  }
+
+  // Every op has a dir here: one without is unavailable.
+  const scratch = path.join(path.dirname(ops[0]!.dir), `undo-${Date.now()}`);
+  const reverted: Reverted[] = [];
+  for (const op of ops) {
+    try {
+      for (const record of [...op.records].reverse()) await revert(record, scratch, reverted);
+    } catch (err) {
+      logger.error(`opJournal: failed to undo "${op.label}":`, err);
+      const reason = err instanceof Error ? err.message : String(err);
+      try {
+        await rollBack(reverted);
+      } catch (rollBackErr) {
+        // The scratch copies hold what the reverted paths held, so they stay for a manual fix.
+        logger.error(`opJournal: failed to put back a partly undone batch; its prior state is in ${scratch}:`, rollBackErr);
+        return { ...result, error: `"${op.label}" was only partly undone, and could not be put back: ${reason}` };
+      }
+      await removeScratch(scratch);
+      return { ...result, error: `"${op.label}" could not be undone, so nothing was undone: ${reason}` };
+    }
+  }
+  await removeScratch(scratch);
+
+  done = done.filter(op => !ops.includes(op));
+  for (const op of ops) await discard(op);
+  for (const { record } of reverted) {
+    if (record.type === 'move') result.moves.push({ oldPath: record.to, newPath: record.from });
+    else result.paths.push(record.path);
+  }
+  return { ...result, undone: ops.length, success: true };
+}
@@ -0,0 +1,287 @@
+/**
+ * reminderScheduler.ts — desktop reminders for calendar items (main process only)
+ *
+ * Keeps the calendar events it is fed — folder scans and the calendar watcher's
+ * per-file updates, the same CalendarEventResult stream the renderer's calendar
+ * receives — and checks them every CHECK_INTERVAL_MS. An event's reminder is
+ * due from its start minus its lead (the item's `remind:`, or the default from
+ * settings) until the event is over, so a reminder missed while the app was
+ * closed is still shown late rather than lost.
+ *
+ * Dismissing or snoozing a reminder is recorded in a JSON file next to
+ * config.yaml (see ReminderState), so a dismissed reminder stays gone and a
+ * snoozed one waits out its snooze across restarts.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { Notification } from 'electron';
+import type { CalendarEventResult } from './calendarLoader';
+import { writeFileAtomic } from './atomicWrite';
+import { logger } from '../shared/logUtil';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the user did with one event's reminder. */
+export interface ReminderRecord {
+  /** The event's end (ms); the record is dropped once it has passed. */
+  until: number;
+  dismissed?: boolean;
+  /** Not shown again before this time (ms). */
+  snoozedUntil?: number;
+}
+
+/** Root shape of the reminders JSON file, keyed by {@link reminderKey}. */
+export type ReminderState = Record<string, ReminderRecord>;
+
+export interface ReminderSchedulerOptions {
+  /** The JSON file the dismiss/snooze state is kept in. */
+  statePath: string;
+  /**
+   * The lead in minutes for events whose item has no `remind:`, as parsed by
+   * parseReminderLead. Read at every check, so a settings change applies at once.
+   */
+  defaultLead: () => number | null | undefined;
+  /** Called with the item's file when its notification is clicked. */
+  onOpen: (filePath: string) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+export const SNOOZE_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Identifies one occurrence: its file and start, so moving an event gives it a fresh reminder. */
+export function reminderKey(event: CalendarEventResult): string {
+  return `${event.filePath}::${event.start}`;
+}
+
+/** When the event's reminder is due (ms), or null when it has none. */
+export function reminderTime(event: CalendarEventResult, defaultLead: number | null | undefined): number | null {
+  const lead = event.remind === undefined ? defaultLead : event.remind;
+  return lead === null || lead === undefined ? null : event.start - lead * 60 * 1000;
+}
+
+/** When the event is over (ms). An all-day event (start equal to end) lasts the whole day. */
+function eventEnd(event: CalendarEventResult): number {
+  return event.start === event.end ? event.start + DAY_MS : event.end;
+}
+
+/**
+ * The events whose reminder should be showing at `now`: due, not yet over, and
+ * neither dismissed nor still snoozed in `state`.
+ */
+export function dueReminders(
+  events: Iterable<CalendarEventResult>,
+  state: ReminderState,
+  defaultLead: number | null | undefined,
+  now: number,
+): CalendarEventResult[] {
+  const due: CalendarEventResult[] = [];
+  for (const event of events) {
+    const at = reminderTime(event, defaultLead);
+    if (at === null || now < at || now >= eventEnd(event)) continue;
+    const record = state[reminderKey(event)];
+    if (record?.dismissed || (record?.snoozedUntil !== undefined && now < record.snoozedUntil)) continue;
+    due.push(event);
+  }
+  return due;
+}
+
+// ---------------------------------------------------------------------------
+// State file
+// ---------------------------------------------------------------------------
+
+/** Read the reminders file, keeping only well-formed records. Missing or corrupt means no state. */
+export async function loadReminderState(statePath: string): Promise<ReminderState> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.promises.readFile(statePath, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const state: ReminderState = {};
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      const r = value as Partial<ReminderRecord> | null;
+      if (!r || typeof r.until !== 'number') continue;
+      state[key] = {
+        until: r.until,
+        ...(r.dismissed === true ? { dismissed: true } : {}),
+        ...(typeof r.snoozedUntil === 'number' ? { snoozedUntil: r.snoozedUntil } : {}),
+      };
+    }
+    return state;
+  } catch {
+    return {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+let options: ReminderSchedulerOptions | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let state: ReminderState = {};
+/** Every event fed in, by source file. */
+const eventsByFile = new Map<string, CalendarEventResult[]>();
+/**
+ * The notifications on screen, by reminder key. Holding them also keeps them
+ * from being garbage-collected, which would silently drop their click handlers.
+ */
+const showing = new Map<string, Notification>();
+
+// Serializes writes of the state file, the same way usageTracker does for its JSON file.
+let stateWriteQueue: Promise<void> = Promise.resolve();
+
+function saveState(): Promise<void> {
+  const statePath = options?.statePath;
+  if (!statePath) return stateWriteQueue;
+  const snapshot = JSON.stringify(state, null, 2);
+  const result = stateWriteQueue.then(async () => {
+    await fs.promises.mkdir(path.dirname(statePath), { recursive: true });
+    await writeFileAtomic(statePath, snapshot);
+  });
+  stateWriteQueue = result.catch((err: unknown) => logger.error('Failed to save reminder state:', err));
+  return stateWriteQueue;
+}
+
+function record(event: CalendarEventResult, change: Omit<ReminderRecord, 'until'>): void {
+  state[reminderKey(event)] = { until: eventEnd(event), ...change };
+  void saveState();
+}
+
+/** "Today, 2:30 PM", "Tomorrow (all day)", "Fri, Mar 6, 9:00 AM" — when the event is, for the notification body. */
+function describeWhen(event: CalendarEventResult, now: number): string {
+  const start = new Date(event.start);
+  const startDay = new Date(start.getFullYear(), start.getMonth(), start.getDate()).getTime();
+  const today = new Date(now);
+  const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+  const day = startDay === todayStart ? 'Today'
+    : startDay === todayStart + DAY_MS ? 'Tomorrow'
+    : start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  if (event.start === event.end) return `${day} (all day)`;
+  return `${day}, ${start.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+function show(event: CalendarEventResult, now: number): void {
+  const key = reminderKey(event);
+  const firstLine = event.snippet.split('\n')[0] ?? '';
+  const notification = new Notification({
+    title: event.title,
+    body: firstLine ? `${describeWhen(event, now)}\n${firstLine}` : describeWhen(event, now),
+    // Buttons show on macOS and Windows; elsewhere clicking opens the item and closing dismisses it.
+    actions: [{ type: 'button', text: 'Snooze 10 min' }, { type: 'button', text: 'Dismiss' }],
+  });
+  // Each outcome is handled once: after a click or button the notification is
+  // gone from `showing`, so the close event that follows it is ignored.
+  const settle = (change: Omit<ReminderRecord, 'until'>): boolean => {
+    if (showing.get(key) !== notification) return false;
+    showing.delete(key);
+    record(event, change);
+    return true;
+  };
+  notification.on('click', () => {
+    if (settle({ dismissed: true })) options?.onOpen(event.filePath);
+  });
+  notification.on('action', (details) => {
+    settle(details.actionIndex === 0 ? { snoozedUntil: Date.now() + SNOOZE_MS } : { dismissed: true });
+  });
+  notification.on('close', () => {
+    settle({ dismissed: true });
+  });
+  showing.set(key, notification);
+  notification.show();
+}
+
+/** Show the reminders due at `now` that aren't on screen yet, and forget records of events that are over. */
+export function checkReminders(now = Date.now()): void {
+  if (!options) return;
+  let pruned = false;
+  for (const [key, r] of Object.entries(state)) {
+    if (r.until <= now) {
+      delete state[key];
+      pruned = true;
+    }
+  }
+  if (pruned) void saveState();
+
+  const events = [...eventsByFile.values()].flat();
+  for (const event of dueReminders(events, state, options.defaultLead(), now)) {
+    if (!showing.has(reminderKey(event))) show(event, now);
+  }
+}
+
+/**
+ * Start checking for due reminders, loading the saved dismiss/snooze state
+ * first. Does nothing where the platform has no desktop notifications.
+ */
+export async function startReminderScheduler(opts: ReminderSchedulerOptions): Promise<void> {
+  await stopReminderScheduler();
+  if (!Notification.isSupported()) {
+    logger.warn('Desktop notifications are not supported here; calendar reminders are off');
+    return;
+  }
+  state = await loadReminderState(opts.statePath);
+  options = opts;
+  timer = setInterval(() => checkReminders(), CHECK_INTERVAL_MS);
+  checkReminders();
+}
+
+/** Stop checking, close any reminders on screen, and wait for pending state writes. */
+export async function stopReminderScheduler(): Promise<void> {
+  if (timer) clearInterval(timer);
+  timer = null;
+  const open = [...showing.values()];
+  // Cleared first, so closing them below doesn't count as the user dismissing them.
+  showing.clear();
+  for (const notification of open) notification.close();
+  await stateWriteQueue;
+  options = null;
+}
+
+// ---------------------------------------------------------------------------
+// Event feed
+// ---------------------------------------------------------------------------
+
+/** Whether `filePath` is `folderPath` itself or inside it. */
+function isWithin(filePath: string, folderPath: string): boolean {
+  const rel = path.relative(folderPath, filePath);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * Replace everything known under `folderPath` with a fresh scan of it, so files
+ * that stopped being calendar items (or were removed) drop out.
+ */
+export function setReminderFolder(folderPath: string, results: CalendarEventResult[]): void {
+  for (const filePath of [...eventsByFile.keys()]) {
+    if (isWithin(filePath, folderPath)) eventsByFile.delete(filePath);
+  }
+  for (const event of results) {
+    const list = eventsByFile.get(event.filePath);
+    if (list) list.push(event);
+    else eventsByFile.set(event.filePath, [event]);
+  }
+  checkReminders();
+}
+
+/** Replace one file's events (an empty list when it is no longer a calendar item). */
+export function setReminderFile(filePath: string, results: CalendarEventResult[]): void {
+  if (results.length > 0) eventsByFile.set(filePath, results);
+  else eventsByFile.delete(filePath);
+  checkReminders();
+}
+
+/** Forget a deleted file, or every file under a deleted folder. */
+export function removeReminderPath(deletedPath: string, isFolder: boolean): void {
+  if (!isFolder) {
+    eventsByFile.delete(deletedPath);
+    return;
+  }
+  for (const filePath of [...eventsByFile.keys()]) {
+    if (isWithin(filePath, deletedPath)) eventsByFile.delete(filePath);
+  }
+}
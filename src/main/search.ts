@@ -11,6 +11,13 @@
  *    name test is pure CPU, so it runs first and short-circuits: a name-matched
  *    file is never read. Folders are never matched in this mode.
  *  - 'filenames' — "File Names": names only, but including folder names.
+ *
+ * When the persistent search index (searchIndex.ts) is ready for the folder being
+ * searched, 'content' mode takes its file list from the index instead of crawling,
+ * and literal/wildcard queries only read the text files the index says could
+ * contain the query. Every read file still goes through the same match predicate,
+ * so results are identical to the crawl path; the index just avoids the walk and
+ * most of the reads.
  */
 import path from 'node:path';
 import fs from 'node:fs';
@@ -25,6 +32,9 @@ import { isCalendarFrontMatter } from '../shared/calendarUtil';
 import { escapeRegexExceptWildcard, buildExcludePredicate } from '../shared/pathPattern';
 import { mapWithConcurrency } from '../shared/asyncUtil';
 import { logger } from '../shared/logUtil';
+import type { SearchSnippet } from '../shared/shared';
+import { getSearchIndexSnapshot } from './searchIndex';
+import { queryTerms, analyzeDocument, bm25Scores, extractSnippets, type DocumentTermStats } from './searchRanking';
 
 /** Max number of files read/stat'd concurrently during a search. Bounded so huge
  * trees don't exhaust file descriptors (EMFILE) while still overlapping I/O. */
@@ -109,6 +119,11 @@ export interface SearchResult {
    * contents were never read — so matchCount counts occurrences within the file
    * name, not within the body. The renderer shows "name match" rather than a count. */
   nameMatch?: boolean;
+  /** BM25 relevance of a content match (see searchRanking.ts); higher is better.
+   * Unset for name matches and for queries with no searchable words. */
+  score?: number;
+  /** The best-matching lines of a content match, best first. */
+  snippets?: SearchSnippet[];
 }
 
 export type SearchType = 'literal' | 'wildcard' | 'advanced';
@@ -436,7 +451,7 @@ async function buildResult(
  *   with a parseable `due:` front-matter property). Applied *before* the mostRecent trim,
  *   and it also makes searchImageExif moot since an image can never be a calendar file.
  *   Ignored in 'filenames' mode (the Search dialog disables the option there).
- * @returns Array of SearchResult sorted by matchCount descending, capped at SEARCH_RESULT_LIMIT
+ * @returns Array of SearchResult, most relevant first (BM25 score, then match count), capped at SEARCH_RESULT_LIMIT
  */
 export async function searchFolder(
   folderPath: string,
@@ -552,20 +567,29 @@ export async function searchFolder(
     // mostRecent path, are therefore untouched).
     const broadCrawl = nameMatchActive && !calendarItemsOnly;
 
-    const api = new fdir()
-      .withFullPaths()
-      .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
-      .filter((filePath) => {
-        const fileName = path.basename(filePath);
-        if (shouldExcludePath(fileName, filePath)) return false;
-        // Every file is a name candidate; the content-side extension filter is
-        // applied when partitioning the crawl results below.
-        if (broadCrawl) return true;
-        return isContentCandidate(filePath, searchImageExif, calendarItemsOnly);
-      })
-      .crawl(folderPath);
-
-    const crawled = await api.withPromise();
+    // The index already holds the crawl (same exclusions), so when it can answer
+    // for this folder the walk is skipped entirely. null means "not ready / not
+    // trustworthy for this folder" — crawl exactly as before.
+    const indexSnapshot = getSearchIndexSnapshot(folderPath, ignoredPaths);
+    let crawled: string[];
+    if (indexSnapshot) {
+      crawled = indexSnapshot.listFiles().filter(fp =>
+        broadCrawl || isContentCandidate(fp, searchImageExif, calendarItemsOnly));
+    } else {
+      const api = new fdir()
+        .withFullPaths()
+        .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
+        .filter((filePath) => {
+          const fileName = path.basename(filePath);
+          if (shouldExcludePath(fileName, filePath)) return false;
+          // Every file is a name candidate; the content-side extension filter is
+          // applied when partitioning the crawl results below.
+          if (broadCrawl) return true;
+          return isContentCandidate(filePath, searchImageExif, calendarItemsOnly);
+        })
+        .crawl(folderPath);
+      crawled = await api.withPromise();
+    }
 
     // Narrow the candidate set before searching, reusing the stats each filter
     // captured (cached by path, fed to buildResult) so no file is stat'd twice:
@@ -640,6 +664,27 @@ export async function searchFolder(
       results.push(r);
     }
 
+    // The BM25 candidate set is every file whose content this search considers —
+    // taken before the index narrows it, so scores don't depend on whether the
+    // index happened to be ready.
+    const rankTerms = matchPredicate ? queryTerms(query, searchType) : [];
+    const rankCandidateCount = filesToSearch.length;
+    const termStats = new Map<string, DocumentTermStats>();
+
+    // Index narrowing, applied last so the calendar and mostRecent trims above
+    // see the same set they would without the index (narrowing first would turn
+    // "matches among the newest 500" into "newest 500 of the possible matches").
+    // Only text files are narrowed; images are matched on EXIF text, which the
+    // index doesn't hold. Advanced queries are arbitrary expressions and can't be
+    // turned into token constraints, so they read every candidate as before.
+    if (indexSnapshot && matchPredicate && searchType !== 'advanced') {
+      const candidates = indexSnapshot.candidates(query, searchType);
+      if (candidates) {
+        filesToSearch = filesToSearch.filter(fp =>
+          EXIF_IMAGE_EXTENSIONS.has(path.extname(fp).toLowerCase()) || candidates.has(fp));
+      }
+    }
+
     // Read + stat files with bounded concurrency. mapWithConcurrency preserves
     // input order, so the pre-sort order is deterministic.
     const fileResults = await mapWithConcurrency(
@@ -692,24 +737,41 @@ export async function searchFolder(
         const { matches, matchCount } = matchPredicate(content, filePath);
         if (!matches) return null;
 
-        return buildResult(folderPath, filePath, matchCount, resultStat);
+        // Ranking data comes from the content already in hand, so it costs no I/O.
+        if (rankTerms.length > 0) termStats.set(filePath, analyzeDocument(content, rankTerms));
+        const result = await buildResult(folderPath, filePath, matchCount, resultStat);
+        const snippets = extractSnippets(content, query, searchType);
+        if (snippets.length > 0) result.snippets = snippets;
+        return result;
       },
     );
-    for (const r of fileResults) {
-      if (r) results.push(r);
-    }
+    const contentResults = fileResults.filter((r): r is SearchResult => r !== null);
+    const scored = contentResults.flatMap((r) => {
+      const stats = termStats.get(r.path);
+      return stats ? [{ result: r, stats }] : [];
+    });
+    const scores = bm25Scores(scored.map(e => e.stats), rankCandidateCount);
+    scored.forEach((e, i) => { e.result.score = scores[i]; });
+    results.push(...contentResults);
   }
 
-  // Sort name matches first, then by match count (descending), then cap to the hard
-  // ceiling. The slice keeps the top SEARCH_RESULT_LIMIT (for an empty query every
-  // entry has matchCount 1, so it's an arbitrary-but-bounded subset).
+  // Rank by BM25 score before capping to the hard ceiling, so the results the
+  // slice keeps are the most relevant ones — not the files with the most raw
+  // occurrences, which favours long files over short notes that are mostly about
+  // the query.
   //
-  // Name matches lead because a filename hit is the most relevant kind of hit and
-  // its matchCount — occurrences within a short file name, usually 1 — would
-  // otherwise sink it below every content match and make it the first thing dropped
-  // by the cap. Only 'content' mode ever sets nameMatch, so this is a no-op for
-  // filenames mode.
+  // Name matches were never read and so carry no score. A filename hit is the
+  // strongest kind of hit, so it ranks level with the best content score and wins
+  // the tie; otherwise its matchCount — occurrences within a short file name,
+  // usually 1 — would make it the first thing dropped by the cap. Unscored results
+  // (filenames mode, an empty query, a query with no searchable words, advanced
+  // queries) fall back to match count (descending); for an empty query every entry
+  // has matchCount 1, so the slice keeps an arbitrary-but-bounded subset.
+  const bestScore = results.reduce((best, r) => Math.max(best, r.score ?? 0), 0);
+  const rankScore = (r: SearchResult) => (r.nameMatch ? bestScore : r.score ?? -1);
   results.sort((a, b) =>
-    (b.nameMatch ? 1 : 0) - (a.nameMatch ? 1 : 0) || b.matchCount - a.matchCount);
+    rankScore(b) - rankScore(a)
+    || (b.nameMatch ? 1 : 0) - (a.nameMatch ? 1 : 0)
+    || b.matchCount - a.matchCount);
   return results.slice(0, SEARCH_RESULT_LIMIT);
 }
@@ -1,9 +1,12 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fdir } from 'fdir';
-import { escapeRegexLiteral, buildExcludePredicate } from '../shared/pathPattern';
+import { buildExcludePredicate } from '../shared/pathPattern';
 import { mapWithConcurrency } from '../shared/asyncUtil';
+import { buildReplaceRegex, expandReplacement } from '../shared/searchHelpers';
+import type { ReplaceFilePreview, ReplaceMatch, ReplaceOptions, ReplacePreview, ReplaceSelection } from '../shared/shared';
 import { writeFileAtomic } from './atomicWrite';
+import { createMatchPredicate } from './search';
 
 /** Max number of files read/written concurrently during a search-and-replace.
  * Bounded so huge trees don't exhaust file descriptors (EMFILE) while still
@@ -20,6 +23,14 @@ const REPLACE_FILE_CONCURRENCY = 32;
  * MAX_SEARCH_FILE_BYTES in search.ts. */
 const MAX_REPLACE_FILE_BYTES = 20 * 1024 * 1024; // 20 MB
 
+/** Most matches a preview returns in all. Bounds the IPC payload and the list the
+ * ReplaceDialog renders; a search matching more says so (`truncated`), and what
+ * it left out can be replaced by running the preview again afterwards. */
+export const REPLACE_PREVIEW_LIMIT = 2000;
+
+/** Characters of the match's line kept on either side of it in a preview. */
+const PREVIEW_CONTEXT_CHARS = 60;
+
 export interface ReplaceResult {
   path: string;
   relativePath: string;
@@ -28,46 +39,34 @@ export interface ReplaceResult {
   error?: string;
 }
 
+/** One occurrence of the search in a file, with the text it becomes. */
+interface FoundMatch {
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+}
+
 /**
- * Performs search and replace across all .md and .txt files in a folder recursively.
- * 
- * @param folderPath - The root folder to search in
- * @param searchText - The literal text to search for
- * @param replaceText - The literal text to replace with
- * @param ignoredPaths - Array of path patterns to exclude (supports wildcards)
- * @returns Array of ReplaceResult with details of each file processed
+ * Every .md and .txt file under `folderPath`, skipping hidden and ignored paths.
+ *
+ * excludeSymlinks: this feeds a DESTRUCTIVE bulk write, so we deliberately do NOT
+ * follow symlinks — every matched path is read and rewritten, and a symlink can
+ * point outside `folderPath`. Confirmed behavior for fdir 6.5.0:
+ *   - DEFAULT (no option): a symlink whose name ends in .md/.txt is emitted as a
+ *     file entry. We would then read its target's bytes (possibly outside the
+ *     tree) and the atomic write would clobber the link with a regular file.
+ *     (Symlinked *directories* are not descended into by default, but symlinked
+ *     files still leak in.)
+ *   - excludeSymlinks: true — all symlinks (to files and to directories) are
+ *     skipped entirely, so the operation only ever touches regular files that
+ *     physically live under `folderPath`. This is the safest least-surprise
+ *     policy for "replace in this folder" and is the explicit, pinned default
+ *     here rather than relying on fdir's behavior for non-symlink entries.
  */
-export async function searchAndReplace(
-  folderPath: string,
-  searchText: string,
-  replaceText: string,
-  ignoredPaths: string[] = []
-): Promise<ReplaceResult[]> {
-  const results: ReplaceResult[] = [];
-
-  // Early return if search text is empty
-  if (!searchText) {
-    return results;
-  }
-
+async function listReplaceableFiles(folderPath: string, ignoredPaths: string[]): Promise<string[]> {
   // Exclude hidden files plus user ignore patterns — shared with searchFolder.
   const shouldExcludePath = buildExcludePredicate(ignoredPaths);
-
-  // Use fdir to crawl for .md and .txt files.
-  //
-  // excludeSymlinks: this is a DESTRUCTIVE bulk write, so we deliberately do NOT
-  // follow symlinks — every matched path is read and rewritten, and a symlink can
-  // point outside `folderPath`. Confirmed behavior for fdir 6.5.0:
-  //   - DEFAULT (no option): a symlink whose name ends in .md/.txt is emitted as a
-  //     file entry. We would then read its target's bytes (possibly outside the
-  //     tree) and the atomic write would clobber the link with a regular file.
-  //     (Symlinked *directories* are not descended into by default, but symlinked
-  //     files still leak in.)
-  //   - excludeSymlinks: true — all symlinks (to files and to directories) are
-  //     skipped entirely, so the operation only ever touches regular files that
-  //     physically live under `folderPath`. This is the safest least-surprise
-  //     policy for "replace in this folder" and is the explicit, pinned default
-  //     here rather than relying on fdir's behavior for non-symlink entries.
   const api = new fdir({ excludeSymlinks: true })
     .withFullPaths()
     .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
@@ -79,12 +78,195 @@ export async function searchAndReplace(
       return ext === '.md' || ext === '.txt';
     })
     .crawl(folderPath);
+  return api.withPromise();
+}
+
+/**
+ * Reads a file for replacement, throwing (with the message the user is shown) for
+ * one that cannot safely be rewritten.
+ */
+async function readReplaceableFile(filePath: string): Promise<string> {
+  // Bound the per-file read: stat first and skip anything larger than
+  // MAX_REPLACE_FILE_BYTES so a pathological file can't memory-spike or
+  // crash the main process. Reported as a failed result (not silently
+  // dropped) so the user sees why it was left untouched.
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_REPLACE_FILE_BYTES) {
+    throw new Error(`File too large to process (${size} bytes exceeds the ${MAX_REPLACE_FILE_BYTES}-byte limit); skipped`);
+  }
+
+  // Read raw bytes, not a decoded string. Decoding with 'utf-8'
+  // eagerly is lossy for a legacy-encoded (e.g. Latin-1/Windows-1252)
+  // .md/.txt file: every non-ASCII byte becomes U+FFFD. If the ASCII
+  // search text then matched anywhere, we'd write the mangled string
+  // back and permanently replace every accented character with `�` —
+  // even in regions far from any match. Guard by requiring the bytes to
+  // round-trip through UTF-8 losslessly; anything that doesn't is not a
+  // UTF-8 text file we can safely rewrite, so report it as failed and
+  // leave it untouched.
+  const buf = await fs.promises.readFile(filePath);
+  const content = buf.toString('utf8');
+  if (!Buffer.from(content, 'utf8').equals(buf)) {
+    throw new Error('File is not valid UTF-8 (possibly a legacy encoding); skipped to avoid corrupting its contents');
+  }
+  return content;
+}
+
+/**
+ * Whether a file is in the replacement's scope (`options.scopeQuery`), judged the
+ * way the Search dialog's "File Contents+Names" target judges a match: literal
+ * and wildcard queries match the file name or its content, advanced queries the
+ * content only. Null when there is no scope, so every file is in it.
+ */
+function createScopePredicate(options: ReplaceOptions): ((content: string, filePath: string) => boolean) | null {
+  if (!options.scopeQuery?.trim()) return null;
+  const scopeType = options.scopeType ?? 'literal';
+  const predicate = createMatchPredicate(options.scopeQuery, scopeType);
+  return (content, filePath) =>
+    (scopeType !== 'advanced' && predicate(path.basename(filePath)).matches) || predicate(content, filePath).matches;
+}
+
+/**
+ * The matches of `regex` in `content` whose replacement would change something.
+ * A match that reproduces itself (e.g. searchText === replaceText) is left out:
+ * writing it would churn the file's mtime for nothing, which is user-visible
+ * here because the search feature sorts by most-recent.
+ */
+function findMatches(content: string, regex: RegExp, options: ReplaceOptions): FoundMatch[] {
+  const found: FoundMatch[] = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    // A literal replacement is inserted verbatim: only a regex search expands
+    // `$1`, `$&`, `$$`… (see expandReplacement).
+    const replacement = options.regex ? expandReplacement(options.replaceText, match) : options.replaceText;
+    if (replacement !== match[0]) {
+      found.push({ start: match.index, end: match.index + match[0].length, text: match[0], replacement });
+    }
+    // A zero-width match (e.g. `^`) never advances lastIndex — step it forward
+    // manually so the loop terminates.
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return found;
+}
+
+/** `matches` as previewed: each with its line number and the text around it on its line(s). */
+function toPreviewMatches(content: string, matches: FoundMatch[]): ReplaceMatch[] {
+  let line = 1;
+  let scanned = 0;
+  return matches.map((m) => {
+    // Matches come in document order, so the line count carries on from the last one.
+    for (let i = content.indexOf('\n', scanned); i !== -1 && i < m.start; i = content.indexOf('\n', i + 1)) line++;
+    scanned = m.start;
+    const lineStart = content.lastIndexOf('\n', m.start - 1) + 1;
+    const lineEnd = content.indexOf('\n', m.end);
+    const before = content.slice(lineStart, m.start);
+    const after = content.slice(m.end, lineEnd === -1 ? content.length : lineEnd);
+    return {
+      line,
+      start: m.start,
+      before: before.length > PREVIEW_CONTEXT_CHARS ? `…${before.slice(-PREVIEW_CONTEXT_CHARS)}` : before,
+      text: m.text,
+      after: after.length > PREVIEW_CONTEXT_CHARS ? `${after.slice(0, PREVIEW_CONTEXT_CHARS)}…` : after,
+      replacement: m.replacement,
+    };
+  });
+}
 
-  const files = await api.withPromise();
+/**
+ * Lists what a replacement would change, without writing anything: every file
+ * under `folderPath` with a match (in scope, see ReplaceOptions.scopeQuery), and
+ * each match in the context of its line. Files that could not be read are listed
+ * with their error. At most REPLACE_PREVIEW_LIMIT matches are returned.
+ *
+ * Throws a SyntaxError when `options.regex` is set and `searchText` is not a
+ * valid regular expression.
+ */
+export async function previewReplace(
+  folderPath: string,
+  options: ReplaceOptions,
+  ignoredPaths: string[] = []
+): Promise<ReplacePreview> {
+  const preview: ReplacePreview = { files: [], totalMatches: 0, truncated: false };
+  if (!options.searchText) {
+    return preview;
+  }
 
-  // Create a regex that matches the literal search text globally
-  const escapedSearch = escapeRegexLiteral(searchText);
-  const searchRegex = new RegExp(escapedSearch, 'g');
+  const regex = buildReplaceRegex(options);
+  const inScope = createScopePredicate(options);
+  const files = await listReplaceableFiles(folderPath, ignoredPaths);
+
+  // Same bounded, per-file-isolated processing as searchAndReplace below.
+  const fileResults = await mapWithConcurrency(
+    files,
+    REPLACE_FILE_CONCURRENCY,
+    async (filePath): Promise<ReplaceFilePreview | null> => {
+      const relativePath = path.relative(folderPath, filePath);
+      try {
+        const content = await readReplaceableFile(filePath);
+        if (inScope && !inScope(content, filePath)) return null;
+        const found = findMatches(content, regex, options);
+        if (found.length === 0) return null;
+        return { path: filePath, relativePath, matches: toPreviewMatches(content, found.slice(0, REPLACE_PREVIEW_LIMIT)) };
+      } catch (err) {
+        return { path: filePath, relativePath, matches: [], error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  );
+
+  const byPath = fileResults
+    .filter((r): r is ReplaceFilePreview => r !== null)
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  for (const file of byPath) {
+    const room = REPLACE_PREVIEW_LIMIT - preview.totalMatches;
+    if (file.matches.length > room) {
+      preview.truncated = true;
+      if (room === 0) break;
+      file.matches = file.matches.slice(0, room);
+    }
+    preview.files.push(file);
+    preview.totalMatches += file.matches.length;
+  }
+  return preview;
+}
+
+/**
+ * Performs search and replace across all .md and .txt files in a folder recursively.
+ *
+ * With `selections` (chosen from a previewReplace of the same options), only the
+ * selected matches of the selected files are replaced. A file that changed since
+ * the preview so that a selected match is no longer where it was is left alone and
+ * reported as failed, rather than having text replaced somewhere the user never saw.
+ *
+ * @param folderPath - The root folder to search in
+ * @param options - What to search for and replace it with (see ReplaceOptions)
+ * @param ignoredPaths - Array of path patterns to exclude (supports wildcards)
+ * @param selections - The matches to replace; omitted to replace every match
+ * @param beforeWrite - Called with each file's current content just before it is rewritten
+ *   (the undo journal records it there)
+ * @returns Array of ReplaceResult with details of each file processed
+ */
+export async function searchAndReplace(
+  folderPath: string,
+  options: ReplaceOptions,
+  ignoredPaths: string[] = [],
+  selections?: ReplaceSelection[],
+  beforeWrite?: (filePath: string, content: string) => Promise<void>
+): Promise<ReplaceResult[]> {
+  const results: ReplaceResult[] = [];
+
+  // Early return if search text is empty
+  if (!options.searchText) {
+    return results;
+  }
+
+  const regex = buildReplaceRegex(options);
+  const chosen = selections && new Map(selections.map(s => [s.path, new Set(s.starts)]));
+  // Selections only ever narrow the crawl: a path that is not a replaceable file
+  // under folderPath (ignored, a symlink, elsewhere) is never touched.
+  const inScope = chosen ? null : createScopePredicate(options);
+  const allFiles = await listReplaceableFiles(folderPath, ignoredPaths);
+  const files = chosen ? allFiles.filter(f => chosen.has(f)) : allFiles;
 
   // Process files with bounded concurrency so independent disk I/O overlaps
   // without exhausting file descriptors (see REPLACE_FILE_CONCURRENCY). The
@@ -98,85 +280,59 @@ export async function searchAndReplace(
     files,
     REPLACE_FILE_CONCURRENCY,
     async (filePath): Promise<ReplaceResult | null> => {
+      const relativePath = path.relative(folderPath, filePath);
       try {
-        // Bound the per-file read: stat first and skip anything larger than
-        // MAX_REPLACE_FILE_BYTES so a pathological file can't memory-spike or
-        // crash the main process. Reported as a failed result (not silently
-        // dropped) so the user sees why it was left untouched.
-        const { size } = await fs.promises.stat(filePath);
-        if (size > MAX_REPLACE_FILE_BYTES) {
-          return {
-            path: filePath,
-            relativePath: path.relative(folderPath, filePath),
-            replacementCount: 0,
-            success: false,
-            error: `File too large to process (${size} bytes exceeds the ${MAX_REPLACE_FILE_BYTES}-byte limit); skipped`,
-          };
-        }
+        const content = await readReplaceableFile(filePath);
+        if (inScope && !inScope(content, filePath)) return null;
 
-        // Read raw bytes, not a decoded string. Decoding with 'utf-8'
-        // eagerly is lossy for a legacy-encoded (e.g. Latin-1/Windows-1252)
-        // .md/.txt file: every non-ASCII byte becomes U+FFFD. If the ASCII
-        // search text then matched anywhere, we'd write the mangled string
-        // back and permanently replace every accented character with `�` —
-        // even in regions far from any match. Guard by requiring the bytes to
-        // round-trip through UTF-8 losslessly; anything that doesn't is not a
-        // UTF-8 text file we can safely rewrite, so report it as failed and
-        // leave it untouched.
-        const buf = await fs.promises.readFile(filePath);
-        const content = buf.toString('utf8');
-        if (!Buffer.from(content, 'utf8').equals(buf)) {
-          return {
-            path: filePath,
-            relativePath: path.relative(folderPath, filePath),
-            replacementCount: 0,
-            success: false,
-            error: 'File is not valid UTF-8 (possibly a legacy encoding); skipped to avoid corrupting its contents',
-          };
+        let found = findMatches(content, regex, options);
+        const starts = chosen?.get(filePath);
+        if (starts) {
+          found = found.filter(m => starts.has(m.start));
+          if (found.length !== starts.size) {
+            return {
+              path: filePath,
+              relativePath,
+              replacementCount: 0,
+              success: false,
+              error: 'File changed since the preview; skipped',
+            };
+          }
         }
 
-        // Replace and count in a SINGLE pass: the replacer function runs once
-        // per match, so incrementing here yields the match count without a
-        // second `content.match(searchRegex)` scan (and its throwaway match
-        // array). Using a replacer FUNCTION (not a string) also inserts
-        // replaceText verbatim: a string second argument would interpret
-        // `$$`, `$&`, `` $` ``, `$'`, and `$1`/`$2`… as special replacement
-        // patterns, breaking the documented "literal text" contract for any
-        // replacement containing `$`.
-        let replacementCount = 0;
-        const newContent = content.replace(searchRegex, () => {
-          replacementCount++;
-          return replaceText;
-        });
-
-        // Skip files whose bytes didn't actually change. This covers the
-        // zero-match case AND the no-op case where the replacement reproduces
-        // the original content (e.g. searchText === replaceText): there the
-        // count is > 0 yet nothing changed. Writing anyway would churn the
-        // file's mtime for nothing, which is user-visible here because the
-        // search feature sorts by most-recent. Such files are reported as
-        // zero effective replacements (omitted from results entirely).
-        if (replacementCount === 0 || newContent === content) {
+        // Skip files with nothing to replace (findMatches already dropped the
+        // matches that would reproduce themselves, so this also covers files
+        // whose bytes would not actually change).
+        if (found.length === 0) {
           return null;
         }
 
+        let newContent = '';
+        let pos = 0;
+        for (const m of found) {
+          newContent += content.slice(pos, m.start) + m.replacement;
+          pos = m.end;
+        }
+        newContent += content.slice(pos);
+
         // Write atomically (temp file + rename) so a crash, power loss, or
         // disk-full mid-write can never leave the user's document truncated or
         // half-written — readers see either the full old file or the full new
         // file. This is a bulk rewrite of the user's own docs, where data
         // integrity matters most.
+        await beforeWrite?.(filePath, content);
         await writeFileAtomic(filePath, newContent);
 
         return {
           path: filePath,
-          relativePath: path.relative(folderPath, filePath),
-          replacementCount,
+          relativePath,
+          replacementCount: found.length,
           success: true,
         };
       } catch (err) {
         return {
           path: filePath,
-          relativePath: path.relative(folderPath, filePath),
+          relativePath,
           replacementCount: 0,
           success: false,
           error: err instanceof Error ? err.message : String(err),
@@ -0,0 +1,701 @@
+/**
+ * Persistent, incrementally-maintained inverted index behind `searchFolder`.
+ *
+ * Without it every content search re-crawls the whole tree with fdir and re-reads
+ * every .md/.txt file. On a large vault (tens of thousands of files) that is many
+ * seconds per query. The index removes both costs:
+ *
+ *  - It keeps the crawl result (every non-ignored file under the root, with the
+ *    mtime/birthtime/size captured when it was last seen), so a search never has
+ *    to walk the tree.
+ *  - For each .md/.txt file it records the set of distinct word tokens, and keeps
+ *    the inverse (token → files) in memory. A literal or wildcard query is turned
+ *    into token constraints (see {@link queryCandidates}) that narrow the files to
+ *    read down to those that *could* contain the query.
+ *
+ * The index only ever narrows. Every candidate is still read and run through the
+ * same match predicate as before, so match counts, case handling and the
+ * 'content'-mode name half are exactly what the crawl produces — a stale posting
+ * can cost one extra read, never a wrong result. The one thing staleness *can*
+ * cause is a missed file (a file edited to newly contain the query before the
+ * watcher reported it), which is why {@link getSearchIndexSnapshot} refuses to
+ * answer unless the index is fully reconciled and its watcher is healthy; any
+ * `null` from it sends `searchFolder` back down the crawl path.
+ *
+ * Freshness comes from two sources, mirroring the calendar's crawl + watcher:
+ *  1. On start, the persisted index is loaded from the config dir and reconciled
+ *     against the tree by mtime/size — only new or changed files are re-read.
+ *  2. A chokidar watcher (same ignore rules as the crawl) applies every later
+ *     add/change/unlink incrementally.
+ *
+ * The same read also feeds the vault's link index: each markdown file's outgoing
+ * links (linkIndex.ts) are recorded next to its tokens, with an inverse map from
+ * each linked-to file to the files linking to it, which is what answers the
+ * Backlinks panel (see {@link getIndexedBacklinks}).
+ *
+ * The persisted file is a cache, not user data: anything unreadable, from another
+ * format version, or built for a different root/ignore list is discarded and the
+ * index rebuilt from scratch.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import type { Stats } from 'node:fs';
+import * as chokidar from 'chokidar';
+import { fdir } from 'fdir';
+import { buildExcludePredicate } from '../shared/pathPattern';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger } from '../shared/logUtil';
+import type { Backlink } from '../shared/shared';
+import { writeFileAtomic } from './atomicWrite';
+import { backlinksFrom, resolveLinkTargets, sortBacklinks, toLinkRefs, toVaultFiles, wikiLinkName, type LinkRef } from './linkIndex';
+
+/** Bump whenever the persisted layout or the tokenizer changes, so an index
+ * written by an older build is rebuilt instead of being trusted. */
+const INDEX_FORMAT_VERSION = 2;
+
+/** Files read/stat'd concurrently while reconciling. Mirrors SEARCH_FILE_CONCURRENCY
+ * in search.ts (bounded to avoid EMFILE on huge trees). */
+const INDEX_FILE_CONCURRENCY = 32;
+
+/** Files larger than this are listed but not tokenized. Mirrors MAX_SEARCH_FILE_BYTES
+ * in search.ts, which skips the same files at read time. */
+const MAX_INDEX_FILE_BYTES = 20 * 1024 * 1024; // 20 MB
+
+/** Quiet period after the last change before the index is written back to disk. */
+const PERSIST_DEBOUNCE_MS = 5000;
+
+/** A word token: a maximal run of letters, digits and underscores. The query side
+ * ({@link queryCandidates}) splits with the same pattern, which is what makes the
+ * boundary reasoning there sound. */
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+/** File extensions whose contents are tokenized (the searchable text files). */
+const INDEXED_EXTENSIONS = new Set(['.md', '.txt']);
+
+/** What the index knows about one file. */
+interface FileRecord {
+  mtimeMs: number;
+  birthtimeMs: number;
+  size: number;
+  /** Distinct lowercased tokens, or null when the contents were not tokenized
+   * (not a text file, oversized, or unreadable when last seen). */
+  tokens: string[] | null;
+  /** Outgoing links of a markdown file; null for other files or when unread. */
+  links: LinkRef[] | null;
+}
+
+/** On-disk shape. `files` entries are `[relativePath, mtimeMs, birthtimeMs, size, tokenIds | null, links | null]`
+ * where each token id indexes into `vocab`, so a token shared by thousands of files
+ * is stored once. Link targets are kept as written (relative), so they resolve the
+ * same way whether the vault is where it was when the index was saved or not. */
+interface PersistedIndex {
+  version: number;
+  root: string;
+  ignoredPaths: string[];
+  vocab: string[];
+  files: [string, number, number, number, number[] | null, LinkRef[] | null][];
+}
+
+/** A read-only view of a ready index, scoped to the folder a search runs in. */
+export interface SearchIndexSnapshot {
+  /** Every indexed file under the search folder — the same set fdir would crawl. */
+  listFiles: () => string[];
+  /** The modification time last seen for `filePath`, or null for a file the index doesn't hold. */
+  modifiedTime: (filePath: string) => number | null;
+  /**
+   * The text files that could contain `query`, or null when the query yields no
+   * usable token constraint (e.g. pure punctuation) and every file must be read.
+   * Files the index could not tokenize are always included.
+   */
+  candidates: (query: string, searchType: 'literal' | 'wildcard') => Set<string> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+// One index at a time, for the one vault root the app browses — the same
+// deliberate choice calendarWatcher.ts makes for its watcher state.
+let currentRoot: string | null = null;
+let currentIgnoredPaths: string[] = [];
+let currentIndexFile: string | null = null;
+let currentWatcher: ReturnType<typeof chokidar.watch> | null = null;
+const files = new Map<string, FileRecord>();
+const postings = new Map<string, Set<string>>();
+/** Link target (absolute path) → the files whose links may resolve to it. */
+const inbound = new Map<string, Set<string>>();
+/** Wikilinked file name (see wikiLinkName) → the files with such a link, which
+ * may resolve to a file of that name anywhere in the vault. */
+const wikiInbound = new Map<string, Set<string>>();
+// Per-path sequence numbers: a refresh only applies its result if no newer
+// refresh/removal for that path started while it was awaiting I/O. Without this a
+// slow reconcile read could land after (and clobber) a watcher update.
+const pathSeq = new Map<string, number>();
+/** True once the startup reconcile finished and while the watcher is healthy. */
+let ready = false;
+let dirty = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Serializes start/stop for the same reason as calendarWatcher.ts: both mutate the
+// module state above across await points and their callers can overlap.
+let operationChain: Promise<void> = Promise.resolve();
+
+function serialized<T>(op: () => Promise<T>): Promise<T> {
+  const run = operationChain.then(op);
+  operationChain = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+function sameIgnoredPaths(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((pattern, i) => pattern === b[i]);
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizing and query narrowing
+// ---------------------------------------------------------------------------
+
+/** Distinct lowercased word tokens of `content`. Exported for unit testing. */
+export function tokenizeForIndex(content: string): string[] {
+  return [...new Set(content.toLowerCase().match(TOKEN_RE) ?? [])];
+}
+
+/** How a query token has to relate to a file token, decided by whether the query
+ * itself pins a word boundary on each side of it. */
+type TokenConstraint = { token: string; mode: 'exact' | 'prefix' | 'suffix' | 'contains' };
+
+/**
+ * Token constraints for one literal fragment of a query. A query token with a
+ * non-word character on both sides *within the fragment* must be a whole file
+ * token; with one only on its left, a file token must start with it (the fragment
+ * may continue mid-word to its right); only on its right, end with it; neither
+ * (the token touches the fragment's edge on both sides), merely contain it.
+ */
+function fragmentConstraints(fragment: string): TokenConstraint[] {
+  const lower = fragment.toLowerCase();
+  const constraints: TokenConstraint[] = [];
+  for (const match of lower.matchAll(TOKEN_RE)) {
+    const token = match[0];
+    const start = match.index;
+    const leftBounded = start > 0;
+    const rightBounded = start + token.length < lower.length;
+    const mode = leftBounded && rightBounded ? 'exact'
+      : leftBounded ? 'prefix'
+      : rightBounded ? 'suffix'
+      : 'contains';
+    constraints.push({ token, mode });
+  }
+  return constraints;
+}
+
+function tokenSatisfies(fileToken: string, c: TokenConstraint): boolean {
+  switch (c.mode) {
+    case 'exact': return fileToken === c.token;
+    case 'prefix': return fileToken.startsWith(c.token);
+    case 'suffix': return fileToken.endsWith(c.token);
+    case 'contains': return fileToken.includes(c.token);
+  }
+}
+
+/** Files having at least one token satisfying `c`. Exact constraints are a single
+ * map lookup; the others scan the vocabulary, which is far smaller than the corpus. */
+function filesMatching(c: TokenConstraint): Set<string> {
+  if (c.mode === 'exact') return postings.get(c.token) ?? new Set();
+  const out = new Set<string>();
+  for (const [token, paths] of postings) {
+    if (!tokenSatisfies(token, c)) continue;
+    for (const p of paths) out.add(p);
+  }
+  return out;
+}
+
+/**
+ * The files whose token sets satisfy every constraint derived from `query`, or
+ * null when the query produces no constraint at all. A wildcard query is split on
+ * `*` and each literal piece contributes its own constraints — every piece must
+ * occur in a matching file, so this is a superset of the real matches. Reached
+ * through {@link SearchIndexSnapshot.candidates}.
+ */
+function queryCandidates(query: string, searchType: 'literal' | 'wildcard'): Set<string> | null {
+  const fragments = searchType === 'wildcard' ? query.split('*') : [query];
+  const constraints = fragments.flatMap(fragmentConstraints);
+  // Narrow the most selective constraint first: exact lookups are cheap and
+  // usually small, so intersecting from there keeps the working set tiny.
+  constraints.sort((a, b) => (a.mode === 'exact' ? 0 : 1) - (b.mode === 'exact' ? 0 : 1));
+  const [first, ...rest] = constraints;
+  if (!first) return null;
+  const result = new Set(filesMatching(first));
+  for (const c of rest) {
+    if (result.size === 0) break;
+    const matching = filesMatching(c);
+    for (const p of result) {
+      if (!matching.has(p)) result.delete(p);
+    }
+  }
+  // Text files the index could not tokenize may still match; the search reads
+  // (and, if still oversized, skips) them exactly as the crawl path would.
+  for (const [p, record] of files) {
+    if (record.tokens === null && isIndexedText(p)) result.add(p);
+  }
+  return result;
+}
+
+function isIndexedText(filePath: string): boolean {
+  return INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+// ---------------------------------------------------------------------------
+// Record maintenance
+// ---------------------------------------------------------------------------
+
+function setRecord(filePath: string, record: FileRecord): void {
+  removeRecord(filePath);
+  files.set(filePath, record);
+  for (const token of record.tokens ?? []) {
+    let set = postings.get(token);
+    if (!set) {
+      set = new Set();
+      postings.set(token, set);
+    }
+    set.add(filePath);
+  }
+  for (const link of record.links ?? []) {
+    for (const target of resolveLinkTargets(filePath, link)) {
+      let sources = inbound.get(target);
+      if (!sources) {
+        sources = new Set();
+        inbound.set(target, sources);
+      }
+      sources.add(filePath);
+    }
+    const name = link.kind === 'wiki' ? wikiLinkName(link.target) : null;
+    if (name !== null) {
+      let sources = wikiInbound.get(name);
+      if (!sources) {
+        sources = new Set();
+        wikiInbound.set(name, sources);
+      }
+      sources.add(filePath);
+    }
+  }
+  markDirty();
+}
+
+function removeRecord(filePath: string): void {
+  const existing = files.get(filePath);
+  if (!existing) return;
+  files.delete(filePath);
+  for (const token of existing.tokens ?? []) {
+    const set = postings.get(token);
+    if (!set) continue;
+    set.delete(filePath);
+    if (set.size === 0) postings.delete(token);
+  }
+  for (const link of existing.links ?? []) {
+    for (const target of resolveLinkTargets(filePath, link)) {
+      const sources = inbound.get(target);
+      if (!sources) continue;
+      sources.delete(filePath);
+      if (sources.size === 0) inbound.delete(target);
+    }
+    const name = link.kind === 'wiki' ? wikiLinkName(link.target) : null;
+    const sources = name === null ? undefined : wikiInbound.get(name);
+    if (name !== null && sources) {
+      sources.delete(filePath);
+      if (sources.size === 0) wikiInbound.delete(name);
+    }
+  }
+  markDirty();
+}
+
+function nextSeq(filePath: string): number {
+  const seq = (pathSeq.get(filePath) ?? 0) + 1;
+  pathSeq.set(filePath, seq);
+  return seq;
+}
+
+/**
+ * Stat and (for text files) read + tokenize one file, then store the result —
+ * unless a newer refresh or removal of the same path started meanwhile. A file
+ * that vanished is removed; one that can't be read is kept with `tokens: null`
+ * so searches still consider it.
+ */
+async function refreshFile(filePath: string, knownStat?: Stats): Promise<void> {
+  const seq = nextSeq(filePath);
+  let stat: Stats;
+  try {
+    stat = knownStat ?? await fs.promises.stat(filePath);
+  } catch (err) {
+    logger.debug('searchIndex: file vanished before it could be indexed', filePath, err);
+    if (pathSeq.get(filePath) === seq) removeRecord(filePath);
+    return;
+  }
+  let tokens: string[] | null = null;
+  let links: LinkRef[] | null = null;
+  if (isIndexedText(filePath) && stat.size <= MAX_INDEX_FILE_BYTES) {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      tokens = tokenizeForIndex(content);
+      if (path.extname(filePath).toLowerCase() === '.md') links = toLinkRefs(content);
+    } catch (err) {
+      logger.debug('searchIndex: failed to read file for indexing', filePath, err);
+    }
+  }
+  if (pathSeq.get(filePath) !== seq) return;
+  setRecord(filePath, { mtimeMs: stat.mtimeMs, birthtimeMs: stat.birthtimeMs, size: stat.size, tokens, links });
+}
+
+function forgetFile(filePath: string): void {
+  nextSeq(filePath);
+  removeRecord(filePath);
+}
+
+function forgetFolder(dirPath: string): void {
+  const prefix = dirPath.endsWith(path.sep) ? dirPath : dirPath + path.sep;
+  for (const p of [...files.keys()]) {
+    if (p.startsWith(prefix)) forgetFile(p);
+  }
+}
+
+function clearState(): void {
+  files.clear();
+  postings.clear();
+  inbound.clear();
+  wikiInbound.clear();
+  pathSeq.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Stable per-root file name, so switching vaults back and forth keeps each
+ * vault's index instead of rebuilding it every time. */
+function indexFileFor(indexDir: string, rootPath: string): string {
+  const hash = crypto.createHash('sha1').update(path.resolve(rootPath)).digest('hex').slice(0, 16);
+  return path.join(indexDir, `search-index-${hash}.json`);
+}
+
+function isPersistedIndex(value: unknown): value is PersistedIndex {
+  if (value === null || typeof value !== 'object') return false;
+  const v = value as Partial<PersistedIndex>;
+  return v.version === INDEX_FORMAT_VERSION
+    && typeof v.root === 'string'
+    && Array.isArray(v.ignoredPaths)
+    && Array.isArray(v.vocab)
+    && Array.isArray(v.files);
+}
+
+/**
+ * Load the persisted index into the module state. Returns false (leaving the
+ * state empty) when there is nothing usable: missing file, parse failure, other
+ * format version, or an index built for another root or ignore list.
+ */
+async function loadPersisted(indexFile: string, rootPath: string, ignoredPaths: string[]): Promise<boolean> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.promises.readFile(indexFile, 'utf-8'));
+  } catch (err) {
+    logger.debug('searchIndex: no usable persisted index', indexFile, err);
+    return false;
+  }
+  if (!isPersistedIndex(parsed)) return false;
+  if (parsed.root !== rootPath || !sameIgnoredPaths(parsed.ignoredPaths, ignoredPaths)) return false;
+
+  for (const [rel, mtimeMs, birthtimeMs, size, tokenIds, links] of parsed.files) {
+    const tokens = tokenIds === null
+      ? null
+      : tokenIds.map(id => parsed.vocab[id]).filter((t): t is string => typeof t === 'string');
+    setRecord(path.join(rootPath, rel), { mtimeMs, birthtimeMs, size, tokens, links: Array.isArray(links) ? links : null });
+  }
+  dirty = false;
+  return true;
+}
+
+function serialize(rootPath: string, ignoredPaths: string[]): PersistedIndex {
+  const vocabIds = new Map<string, number>();
+  const vocab: string[] = [];
+  const entries: PersistedIndex['files'] = [];
+  for (const [filePath, record] of files) {
+    const ids = record.tokens?.map((token) => {
+      let id = vocabIds.get(token);
+      if (id === undefined) {
+        id = vocab.length;
+        vocab.push(token);
+        vocabIds.set(token, id);
+      }
+      return id;
+    }) ?? null;
+    entries.push([path.relative(rootPath, filePath), record.mtimeMs, record.birthtimeMs, record.size, ids, record.links]);
+  }
+  return { version: INDEX_FORMAT_VERSION, root: rootPath, ignoredPaths, vocab, files: entries };
+}
+
+/** Write the index to disk now if anything changed since the last write. */
+async function persistNow(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (!dirty || !currentRoot || !currentIndexFile) return;
+  dirty = false;
+  const data = JSON.stringify(serialize(currentRoot, currentIgnoredPaths));
+  try {
+    await fs.promises.mkdir(path.dirname(currentIndexFile), { recursive: true });
+    await writeFileAtomic(currentIndexFile, data);
+  } catch (err) {
+    // A cache that failed to persist is rebuilt on the next start; not worth
+    // surfacing beyond the log.
+    logger.error('searchIndex: failed to persist index', currentIndexFile, err);
+  }
+}
+
+function markDirty(): void {
+  dirty = true;
+  // Only schedule writes for a live index; loading/reconciling calls persistNow itself.
+  if (!ready || persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    void persistNow();
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Crawl + watcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Bring the loaded state in line with the tree: crawl with the same exclusions
+ * searchFolder uses, re-index only files whose mtime or size changed (or that
+ * are new), and drop records for files that are gone.
+ */
+async function reconcile(rootPath: string, ignoredPaths: string[]): Promise<void> {
+  const shouldExcludePath = buildExcludePredicate(ignoredPaths);
+  const crawled = await new fdir()
+    .withFullPaths()
+    .exclude((dirName, dirPath) => shouldExcludePath(dirName, dirPath))
+    .filter((filePath) => !shouldExcludePath(path.basename(filePath), filePath))
+    .crawl(rootPath)
+    .withPromise();
+
+  const present = new Set(crawled);
+  for (const p of [...files.keys()]) {
+    if (!present.has(p)) forgetFile(p);
+  }
+
+  let reread = 0;
+  await mapWithConcurrency(crawled, INDEX_FILE_CONCURRENCY, async (filePath) => {
+    let stat: Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch (err) {
+      logger.debug('searchIndex: failed to stat file during reconcile', filePath, err);
+      forgetFile(filePath);
+      return;
+    }
+    const existing = files.get(filePath);
+    if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) return;
+    reread++;
+    await refreshFile(filePath, stat);
+  });
+  logger.info(`[searchIndex] reconciled ${crawled.length} files under ${rootPath} (${reread} re-indexed)`);
+}
+
+/**
+ * chokidar `ignored` predicate built from the same exclusions as the crawl. The
+ * root itself is never ignored, for the reason given on buildIgnoredFn in
+ * calendarWatcher.ts (a hidden or pattern-matched root would otherwise never
+ * report changes even though the crawl descends into it).
+ */
+function buildIgnoredFn(rootPath: string, ignoredPaths: string[]): (filePath: string) => boolean {
+  const exclude = buildExcludePredicate(ignoredPaths);
+  const resolvedRoot = path.resolve(rootPath);
+  return (filePath: string) => {
+    if (path.resolve(filePath) === resolvedRoot) return false;
+    return exclude(path.basename(filePath), filePath);
+  };
+}
+
+function startWatcher(rootPath: string, ignoredPaths: string[]): ReturnType<typeof chokidar.watch> {
+  const watcher = chokidar.watch(rootPath, {
+    persistent: true,
+    ignoreInitial: true,
+    ignored: buildIgnoredFn(rootPath, ignoredPaths),
+    ignorePermissionErrors: true,
+  });
+  // Any watcher error (inotify exhaustion being the usual one) means changes may
+  // go unseen, so the index stops answering searches — they quietly fall back to
+  // the crawl instead of missing files. The watcher is dropped, which also keeps
+  // a reconcile still running from marking the index ready, and lets the next
+  // startSearchIndex rebuild it.
+  watcher.on('error', (err: unknown) => {
+    logger.error('searchIndex: watcher error, falling back to crawling for searches:', err);
+    if (currentWatcher !== watcher) return;
+    ready = false;
+    currentWatcher = null;
+    watcher.close().catch((closeErr: unknown) => logger.error('searchIndex: failed to close watcher:', closeErr));
+  });
+  const handleUpsert = (filePath: string) => {
+    if (currentWatcher !== watcher) return;
+    refreshFile(filePath).catch((err: unknown) => logger.error('searchIndex: failed to refresh', filePath, err));
+  };
+  watcher.on('add', handleUpsert);
+  watcher.on('change', handleUpsert);
+  watcher.on('unlink', (filePath: string) => {
+    if (currentWatcher === watcher) forgetFile(filePath);
+  });
+  watcher.on('unlinkDir', (dirPath: string) => {
+    if (currentWatcher === watcher) forgetFolder(dirPath);
+  });
+  return watcher;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Start (or keep) the index for `rootPath`, persisting it under `indexDir`.
+ *
+ * A no-op when the same root is already indexed with the same `ignoredPaths`; a
+ * different root or ignore list tears the old index down (flushing it to disk)
+ * and builds the new one. Resolves once the index is reconciled and ready to
+ * answer searches — callers that only want it warmed up don't need to await it.
+ */
+export function startSearchIndex(rootPath: string, ignoredPaths: string[], indexDir: string): Promise<void> {
+  return serialized(() => doStartSearchIndex(path.resolve(rootPath), ignoredPaths, indexDir));
+}
+
+async function doStartSearchIndex(rootPath: string, ignoredPaths: string[], indexDir: string): Promise<void> {
+  if (currentRoot === rootPath && currentWatcher !== null && sameIgnoredPaths(currentIgnoredPaths, ignoredPaths)) {
+    return;
+  }
+  await doStopSearchIndex();
+
+  currentRoot = rootPath;
+  currentIgnoredPaths = ignoredPaths;
+  currentIndexFile = indexFileFor(indexDir, rootPath);
+  await loadPersisted(currentIndexFile, rootPath, ignoredPaths);
+
+  // Watch before reconciling so a change landing mid-reconcile is not lost; the
+  // per-path sequence numbers keep the two from overwriting each other.
+  const watcher = startWatcher(rootPath, ignoredPaths);
+  currentWatcher = watcher;
+  await reconcile(rootPath, ignoredPaths);
+  // The watcher may have been replaced, or dropped after an error, during the reconcile.
+  if (currentRoot !== rootPath || currentWatcher !== watcher) return;
+  ready = true;
+  await persistNow();
+}
+
+/** Flush the index to disk and close its watcher. A no-op when none is running. */
+export function stopSearchIndex(): Promise<void> {
+  return serialized(doStopSearchIndex);
+}
+
+async function doStopSearchIndex(): Promise<void> {
+  if (!currentRoot) return;
+  ready = false;
+  const watcher = currentWatcher;
+  currentWatcher = null;
+  await persistNow();
+  if (watcher) {
+    try {
+      await watcher.close();
+    } catch (err) {
+      logger.error('searchIndex: failed to close watcher:', err);
+    }
+  }
+  currentRoot = null;
+  currentIgnoredPaths = [];
+  currentIndexFile = null;
+  dirty = false;
+  clearState();
+}
+
+/**
+ * A snapshot of the index for a search in `folderPath`, or null when the index
+ * can't be trusted to answer it: not built yet, still reconciling, watcher in an
+ * error state, built with a different ignore list, or `folderPath` outside the
+ * indexed root (or inside a part of it the index excludes). Null means "crawl".
+ */
+export function getSearchIndexSnapshot(folderPath: string, ignoredPaths: string[]): SearchIndexSnapshot | null {
+  if (!ready || !currentRoot || !sameIgnoredPaths(currentIgnoredPaths, ignoredPaths)) return null;
+  const folder = path.resolve(folderPath);
+  const rel = path.relative(currentRoot, folder);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) return null;
+
+  // A search rooted inside an excluded folder crawls that folder anyway (fdir never
+  // excludes its own root), but the index skipped it entirely.
+  const exclude = buildExcludePredicate(ignoredPaths);
+  let walked = currentRoot;
+  for (const segment of rel ? rel.split(path.sep) : []) {
+    walked = path.join(walked, segment);
+    if (exclude(segment, walked)) return null;
+  }
+
+  const prefix = rel ? folder + path.sep : '';
+  const inFolder = (p: string) => prefix === '' || p.startsWith(prefix);
+  return {
+    listFiles: () => [...files.keys()].filter(inFolder),
+    modifiedTime: filePath => files.get(filePath)?.mtimeMs ?? null,
+    candidates: (query, searchType) => {
+      const all = queryCandidates(query, searchType);
+      return all === null ? null : new Set([...all].filter(inFolder));
+    },
+  };
+}
+
+/**
+ * Every link to `targetPath` from the indexed markdown files, sorted by source
+ * path then line, or null when the index can't answer — the same readiness and
+ * ignore-list conditions as {@link getSearchIndexSnapshot}, plus a target outside
+ * the indexed root (links from elsewhere aren't indexed). Null means "scan".
+ */
+export function getIndexedBacklinks(targetPath: string, ignoredPaths: string[]): Backlink[] | null {
+  if (!ready || !currentRoot || !sameIgnoredPaths(currentIgnoredPaths, ignoredPaths)) return null;
+  const target = path.resolve(targetPath);
+  const rel = path.relative(currentRoot, target);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) return null;
+
+  const sources = new Set([
+    ...inbound.get(target) ?? [],
+    ...wikiInbound.get(path.basename(target).toLowerCase()) ?? [],
+  ]);
+  const vault = toVaultFiles(currentRoot, files.keys());
+  const backlinks: Backlink[] = [];
+  for (const source of sources) {
+    backlinks.push(...backlinksFrom(source, files.get(source)?.links ?? [], target, vault));
+  }
+  return sortBacklinks(backlinks);
+}
+
+/**
+ * The indexed markdown files with at least one link to a path in `targetPaths`
+ * or to anything beneath one of them (a link into a folder counts for that
+ * folder), or null when the index can't answer — the same conditions as
+ * {@link getIndexedBacklinks}, for every target. Null means "scan".
+ */
+export function getIndexedLinkSources(targetPaths: string[], ignoredPaths: string[]): string[] | null {
+  if (!ready || !currentRoot || !sameIgnoredPaths(currentIgnoredPaths, ignoredPaths)) return null;
+  const root = currentRoot;
+  const targets = targetPaths.map(p => path.resolve(p));
+  if (targets.some((t) => {
+    const rel = path.relative(root, t);
+    return rel.startsWith('..') || path.isAbsolute(rel);
+  })) return null;
+
+  const sources = new Set<string>();
+  const isTarget = (p: string) => targets.some(t => p === t || p.startsWith(t + path.sep));
+  for (const [target, linking] of inbound) {
+    if (isTarget(target)) {
+      for (const source of linking) sources.add(source);
+    }
+  }
+  // Wikilinks that may reach a moving file by its name from anywhere in the vault.
+  for (const filePath of files.keys()) {
+    if (!isTarget(filePath)) continue;
+    for (const source of wikiInbound.get(path.basename(filePath).toLowerCase()) ?? []) sources.add(source);
+  }
+  return [...sources].sort();
+}
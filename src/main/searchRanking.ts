@@ -0,0 +1,236 @@
+/**
+ * Relevance ranking and snippet extraction for content search results.
+ *
+ * `searchFolder` decides *whether* a file matches; this module decides how well.
+ * Raw match counts reward sheer size — a 10k-line log with 40 hits beats a short
+ * note whose title is the query — so each matched file is instead scored with
+ * BM25, which saturates repeated hits (k1) and normalizes for document length (b).
+ * Hits in places that describe what a note is *about* count extra: markdown
+ * headings, and the front-matter `title` and `tags`.
+ *
+ * Alongside the score, each matched file gets a few snippets: the lines with the
+ * most hits, trimmed to a window around the first hit, with the hit ranges marked
+ * so the results view can highlight them.
+ *
+ * Everything here is pure CPU over content the search has already read; nothing
+ * touches the file system.
+ */
+import type { SearchSnippet } from '../shared/shared';
+import { parseFrontMatter } from '../shared/frontMatterUtil';
+import { escapeRegexExceptWildcard } from '../shared/pathPattern';
+
+/** BM25 term-frequency saturation. The conventional 1.2: the second hit of a term
+ * is worth a lot, the twentieth almost nothing. */
+const BM25_K1 = 1.2;
+
+/** BM25 length normalization. The conventional 0.75. */
+const BM25_B = 0.75;
+
+/** A hit in a markdown heading counts as this many body hits. */
+const HEADING_WEIGHT = 3;
+
+/** A hit in the front-matter `title` or `tags` counts as this many body hits. */
+const TITLE_WEIGHT = 5;
+
+/** Snippets returned per result. */
+const MAX_SNIPPETS = 3;
+
+/** Longest snippet text; longer lines are cut to a window around the first hit. */
+const MAX_SNIPPET_CHARS = 200;
+
+/** Same tokenizer as the search index, so "term" means the same thing everywhere. */
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+/** `$("text")` / `$('text')` calls in an advanced query — the only part of an
+ * arbitrary expression that names content the user is looking for. */
+const ADVANCED_NEEDLE_RE = /\$\(\s*(['"])((?:\\.|(?!\1).)*)\1\s*\)/g;
+
+const ATX_HEADING_RE = /^ {0,3}#{1,6}(?:[ \t]|$)/;
+const FENCE_RE = /^ {0,3}(```|~~~)/;
+
+/** Per-document statistics BM25 needs, from {@link analyzeDocument}. */
+export interface DocumentTermStats {
+  /** Field-weighted frequency of each query term, parallel to the terms array. */
+  termFreqs: number[];
+  /** Document length in tokens. */
+  length: number;
+}
+
+/**
+ * The literal strings a query is looking for: the query itself for 'literal',
+ * the `*`-separated pieces for 'wildcard', and the `$()` arguments for 'advanced'.
+ * Empty pieces are dropped.
+ */
+function queryNeedles(query: string, searchType: 'literal' | 'wildcard' | 'advanced'): string[] {
+  switch (searchType) {
+    case 'literal':
+      return query ? [query] : [];
+    case 'wildcard':
+      return query.split('*').filter(Boolean);
+    case 'advanced':
+      return [...query.matchAll(ADVANCED_NEEDLE_RE)]
+        .map(m => (m[2] ?? '').replace(/\\(.)/g, '$1'))
+        .filter(Boolean);
+  }
+}
+
+/**
+ * Distinct lowercased word tokens of the query's needles — the BM25 terms. Empty
+ * for a query with no words (pure punctuation, or an advanced query without any
+ * `$()` call), in which case results are left unscored.
+ */
+export function queryTerms(query: string, searchType: 'literal' | 'wildcard' | 'advanced'): string[] {
+  const tokens = queryNeedles(query, searchType).flatMap(n => n.toLowerCase().match(TOKEN_RE) ?? []);
+  return [...new Set(tokens)];
+}
+
+/**
+ * Count query-term hits in `content`, weighting headings and front-matter
+ * `title`/`tags`. A document token counts as a hit for a term when it *starts
+ * with* the term, so "plan" also credits "planning" — close to what a substring
+ * search already matched, without needing a stemmer.
+ */
+export function analyzeDocument(content: string, terms: string[]): DocumentTermStats {
+  const termFreqs = terms.map(() => 0);
+  let length = 0;
+  const count = (text: string, weight: number) => {
+    for (const token of text.toLowerCase().match(TOKEN_RE) ?? []) {
+      length++;
+      terms.forEach((term, i) => {
+        if (token.startsWith(term)) termFreqs[i] = (termFreqs[i] ?? 0) + weight;
+      });
+    }
+  };
+
+  const { yaml, content: body } = parseFrontMatter(content);
+  if (yaml) {
+    for (const key of ['title', 'tags']) {
+      const value = yaml[key];
+      const values = Array.isArray(value) ? value : [value];
+      for (const v of values) {
+        if (typeof v === 'string' || typeof v === 'number') count(String(v), TITLE_WEIGHT);
+      }
+    }
+  }
+
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    count(line, !inFence && ATX_HEADING_RE.test(line) ? HEADING_WEIGHT : 1);
+  }
+  return { termFreqs, length };
+}
+
+/**
+ * BM25 score for each document in `docs`, in order. `totalDocs` is the size of
+ * the candidate set the documents were drawn from (every file whose content the
+ * search considered, matched or not), which is what the IDF is computed against.
+ * Document frequency only counts the matched documents passed in — the files
+ * that did not match were never analyzed — so a term that also occurs in
+ * non-matching files gets a somewhat higher IDF than a corpus-wide count would
+ * give it. For a single-term query that scales every score by the same factor
+ * and the ranking is unaffected.
+ */
+export function bm25Scores(docs: DocumentTermStats[], totalDocs: number): number[] {
+  if (docs.length === 0) return [];
+  const termCount = docs[0]?.termFreqs.length ?? 0;
+  const n = Math.max(totalDocs, docs.length);
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const idf: number[] = [];
+  for (let t = 0; t < termCount; t++) {
+    const df = docs.filter(d => (d.termFreqs[t] ?? 0) > 0).length;
+    idf.push(Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+  }
+  return docs.map((doc) => {
+    const norm = BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+    return doc.termFreqs.reduce((score, tf, t) =>
+      score + (idf[t] ?? 0) * (tf * (BM25_K1 + 1)) / (tf + norm), 0);
+  });
+}
+
+/**
+ * A function returning the `[start, end)` ranges of every hit in one line, or
+ * null when the query has nothing to highlight. Literal and advanced needles
+ * match case-insensitively as substrings, wildcard queries with the same
+ * `.{0,25}` expansion the search itself uses.
+ */
+function createLineMatcher(
+  query: string,
+  searchType: 'literal' | 'wildcard' | 'advanced',
+): ((line: string) => [number, number][]) | null {
+  if (searchType === 'wildcard') {
+    if (!query.replace(/\*/g, '')) return null;
+    const regex = new RegExp(escapeRegexExceptWildcard(query).replace(/\*/g, '.{0,25}'), 'gi');
+    return (line) => {
+      const ranges: [number, number][] = [];
+      for (const m of line.matchAll(regex)) {
+        if (m[0].length > 0) ranges.push([m.index, m.index + m[0].length]);
+      }
+      return ranges;
+    };
+  }
+  const needles = queryNeedles(query, searchType).map(n => n.toLowerCase());
+  if (needles.length === 0) return null;
+  return (line) => {
+    const lower = line.toLowerCase();
+    const ranges: [number, number][] = [];
+    for (const needle of needles) {
+      let idx = 0;
+      while ((idx = lower.indexOf(needle, idx)) !== -1) {
+        ranges.push([idx, idx + needle.length]);
+        idx += needle.length;
+      }
+    }
+    // Merge overlaps between different needles so highlights never nest.
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const r of ranges) {
+      const last = merged.at(-1);
+      if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+      else merged.push(r);
+    }
+    return merged;
+  };
+}
+
+/**
+ * Up to {@link MAX_SNIPPETS} lines of `content` with the most hits, best first
+ * (earlier lines win ties). Lines longer than {@link MAX_SNIPPET_CHARS} are cut
+ * to a window starting a little before the first hit, and the highlight ranges
+ * are shifted to match the cut text.
+ */
+export function extractSnippets(
+  content: string,
+  query: string,
+  searchType: 'literal' | 'wildcard' | 'advanced',
+): SearchSnippet[] {
+  const matchLine = createLineMatcher(query, searchType);
+  if (!matchLine) return [];
+
+  const hits: { line: number; text: string; ranges: [number, number][] }[] = [];
+  content.split('\n').forEach((raw, i) => {
+    const text = raw.replace(/\r$/, '');
+    const ranges = matchLine(text);
+    if (ranges.length > 0) hits.push({ line: i + 1, text, ranges });
+  });
+  hits.sort((a, b) => b.ranges.length - a.ranges.length || a.line - b.line);
+
+  return hits.slice(0, MAX_SNIPPETS).map(({ line, text, ranges }) => {
+    const leading = text.length - text.trimStart().length;
+    let start = leading;
+    if (text.length - leading > MAX_SNIPPET_CHARS) {
+      start = Math.max(leading, (ranges[0]?.[0] ?? 0) - 40);
+    }
+    const end = Math.min(text.length, start + MAX_SNIPPET_CHARS);
+    return {
+      line,
+      text: (start > leading ? '…' : '') + text.slice(start, end) + (end < text.length ? '…' : ''),
+      highlights: ranges
+        .filter(([s, e]) => s >= start && e <= end)
+        .map(([s, e]) => {
+          const offset = start > leading ? 1 : 0;
+          return [s - start + offset, e - start + offset] as [number, number];
+        }),
+    };
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Tasks view (Tools > Find Tasks): collects the task-list items of every
+ * markdown file under a folder, and ticks one in place. Parsing lives in
+ * shared/taskUtil.ts.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import type { TaskItem, TaskReport } from '../shared/shared';
+import { parseTasks, toggleTaskLine } from '../shared/taskUtil';
+import { mapWithConcurrency } from '../shared/asyncUtil';
+import { logger, toErrorMessage } from '../shared/logUtil';
+import { writeFileAtomic } from './atomicWrite';
+import { withIndexLock } from './indexUtil';
+import { crawlMarkdownFiles } from './linkIndex';
+
+/** Files read concurrently (see SEARCH_FILE_CONCURRENCY in search.ts). */
+const TASK_SCAN_CONCURRENCY = 32;
+
+/** Every task under `folderPath`, sorted by file and then line. Ignored paths are skipped. */
+export async function findTasks(folderPath: string, ignoredPaths: string[]): Promise<TaskReport> {
+  const files = await crawlMarkdownFiles(folderPath, ignoredPaths);
+  const perFile = await mapWithConcurrency(files, TASK_SCAN_CONCURRENCY, async (filePath): Promise<TaskItem[]> => {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return parseTasks(content).map(task => ({ filePath, ...task }));
+    } catch (err) {
+      logger.warn(`Skipping ${filePath} in task scan:`, err);
+      return [];
+    }
+  });
+  const tasks = perFile.flat().sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+  return { tasks, totalFiles: files.length };
+}
+
+/**
+ * Tick (`done`) or clear the task on 1-based `line` of `filePath`. The read,
+ * the check that the line still reads `source`, and the atomic write all run
+ * under the folder's index lock, the one a save takes (see write-file in
+ * main.ts), so the toggle can't interleave with a save of the same file.
+ */
+export async function toggleTask(filePath: string, line: number, source: string, done: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    return await withIndexLock(path.dirname(filePath), async () => {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      const updated = toggleTaskLine(content, line, source, done);
+      if (updated === null) {
+        return { success: false, error: 'The task has changed since the list was made. Refresh the Tasks view and try again.' };
+      }
+      await writeFileAtomic(filePath, updated);
+      return { success: true };
+    });
+  } catch (err) {
+    logger.error(`Failed to toggle task in ${filePath}:`, err);
+    return { success: false, error: toErrorMessage(err) };
+  }
+}
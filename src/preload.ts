@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { AppConfig, ElectronAPI, CalendarEventResult, OcrTarget } from './shared/shared';
+import type { AppConfig, ElectronAPI, CalendarEventResult, EntryMove, FileStamp, GitChange, OcrTarget, ReplaceOptions, ReplaceSelection, ToolApprovalDecision, ToolApprovalRequest } from './shared/shared';
 
 // Expose protected methods to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -8,8 +8,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getConfig: () => ipcRenderer.invoke('get-config'),
   updateConfig: (updates: Partial<AppConfig>) => ipcRenderer.invoke('update-config', updates),
   selectFolder: () => ipcRenderer.invoke('select-folder'),
-  searchAndReplace: (folderPath: string, searchText: string, replaceText: string) =>
-    ipcRenderer.invoke('search-and-replace', folderPath, searchText, replaceText),
+  previewReplace: (folderPath: string, options: ReplaceOptions) =>
+    ipcRenderer.invoke('preview-replace', folderPath, options),
+  searchAndReplace: (folderPath: string, options: ReplaceOptions, selections?: ReplaceSelection[]) =>
+    ipcRenderer.invoke('search-and-replace', folderPath, options, selections),
+  getBacklinks: (filePath: string) => ipcRenderer.invoke('get-backlinks', filePath),
+  listFileVersions: (filePath: string) => ipcRenderer.invoke('list-file-versions', filePath),
+  readFileVersion: (filePath: string, versionId: string) => ipcRenderer.invoke('read-file-version', filePath, versionId),
+  getGitStatus: (folder: string) => ipcRenderer.invoke('get-git-status', folder),
+  getGitLog: (filePath: string) => ipcRenderer.invoke('get-git-log', filePath),
+  readGitRevision: (filePath: string, rev: string, repoPath?: string) => ipcRenderer.invoke('read-git-revision', filePath, rev, repoPath),
+  gitCommit: (folder: string, message: string, changes: GitChange[]) => ipcRenderer.invoke('git-commit', folder, message, changes),
+  resolveWikiLink: (sourcePath: string, target: string) => ipcRenderer.invoke('resolve-wikilink', sourcePath, target),
+  listWikiLinkTargets: () => ipcRenderer.invoke('list-wikilink-targets'),
+  planLinkRewrites: (moves: EntryMove[]) => ipcRenderer.invoke('plan-link-rewrites', moves),
+  applyLinkRewrites: (planId: number, movedOldPaths: string[], journalId?: number) => ipcRenderer.invoke('apply-link-rewrites', planId, movedOldPaths, journalId),
+  undoLinkRewrites: () => ipcRenderer.invoke('undo-link-rewrites'),
+  beginJournalOperation: (label: string) => ipcRenderer.invoke('begin-journal-operation', label),
+  endJournalOperation: (journalId: number) => ipcRenderer.invoke('end-journal-operation', journalId),
+  listJournalOperations: () => ipcRenderer.invoke('list-journal-operations'),
+  undoJournalOperations: (count: number) => ipcRenderer.invoke('undo-journal-operations', count),
   loadDictionary: () => ipcRenderer.invoke('load-dictionary'),
   lookupThesaurus: (word: string) => ipcRenderer.invoke('lookup-thesaurus', word),
   readDirectory: (dirPath: string) => ipcRenderer.invoke('read-directory', dirPath),
@@ -19,20 +37,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
   writeExif: (filePath: string, data: Record<string, Record<string, string>>) => ipcRenderer.invoke('write-exif', filePath, data),
   getImageDimensions: (filePath: string) => ipcRenderer.invoke('get-image-dimensions', filePath),
   pathExists: (checkPath: string) => ipcRenderer.invoke('path-exists', checkPath),
-  writeFile: (filePath: string, content: string) => ipcRenderer.invoke('write-file', filePath, content),
+  writeFile: (filePath: string, content: string, expected?: FileStamp, journalId?: number) => ipcRenderer.invoke('write-file', filePath, content, expected, journalId),
   getFileSize: (filePath: string) => ipcRenderer.invoke('get-file-size', filePath),
   getFileMtime: (filePath: string) => ipcRenderer.invoke('get-file-mtime', filePath),
   writeFileBinary: (filePath: string, base64Data: string) => ipcRenderer.invoke('write-file-binary', filePath, base64Data),
-  createFile: (filePath: string, content: string) => ipcRenderer.invoke('create-file', filePath, content),
-  renameFile: (oldPath: string, newPath: string) => ipcRenderer.invoke('rename-file', oldPath, newPath),
-  deleteFile: (filePath: string) => ipcRenderer.invoke('delete-file', filePath),
+  createFile: (filePath: string, content: string, journalId?: number) => ipcRenderer.invoke('create-file', filePath, content, journalId),
+  renameFile: (oldPath: string, newPath: string, journalId?: number) => ipcRenderer.invoke('rename-file', oldPath, newPath, journalId),
+  deleteFile: (filePath: string, journalId?: number) => ipcRenderer.invoke('delete-file', filePath, journalId),
   openExternal: (filePath: string) => ipcRenderer.invoke('open-external', filePath),
   openExternalUrl: (url: string) => ipcRenderer.invoke('open-external-url', url),
   createFolder: (folderPath: string) => ipcRenderer.invoke('create-folder', folderPath),
   searchFolder: (folderPath: string, query: string, searchType?: 'literal' | 'wildcard' | 'advanced', searchMode?: 'content' | 'filenames', searchImageExif?: boolean, mostRecent?: boolean, calendarItemsOnly?: boolean) => ipcRenderer.invoke('search-folder', folderPath, query, searchType, searchMode, searchImageExif, mostRecent, calendarItemsOnly),
   analyzeFolderHashtags: (folderPath: string) => ipcRenderer.invoke('analyze-folder-hashtags', folderPath),
+  findBrokenLinks: (folderPath: string) => ipcRenderer.invoke('find-broken-links', folderPath),
+  findTasks: (folderPath: string) => ipcRenderer.invoke('find-tasks', folderPath),
+  toggleTask: (filePath: string, line: number, source: string, done: boolean) =>
+    ipcRenderer.invoke('toggle-task', filePath, line, source, done),
   loadCalendarEvents: (folderPath: string) => ipcRenderer.invoke('load-calendar-events', folderPath),
   loadCalendarEventsForFiles: (filePaths: string[]) => ipcRenderer.invoke('load-calendar-events-for-files', filePaths),
+  exportCalendarIcs: (filePaths: string[], defaultFileName: string) => ipcRenderer.invoke('export-calendar-ics', filePaths, defaultFileName),
+  importCalendarIcs: (folder: string) => ipcRenderer.invoke('import-calendar-ics', folder),
   scanFolderTree: (folderPath: string) => ipcRenderer.invoke('scan-folder-tree', folderPath),
   loadTags: () => ipcRenderer.invoke('load-tags'),
   saveTags: (yamlContent: string) => ipcRenderer.invoke('save-tags', yamlContent),
@@ -50,6 +74,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('reply-to-ai', parentFolderPath, createSubFolder),
   getAiUsage: () => ipcRenderer.invoke('get-ai-usage'),
   resetAiUsage: () => ipcRenderer.invoke('reset-ai-usage'),
+  listOllamaModels: (baseUrl: string) => ipcRenderer.invoke('list-ollama-models', baseUrl),
   queueScriptedAnswer: (answer: string) => ipcRenderer.invoke('queue-scripted-answer', answer),
   gatherThreadEntries: (folderPath: string) => ipcRenderer.invoke('gather-thread-entries', folderPath),
   rewriteContent: (content: string, filePath: string, hasIndexFile: boolean) => ipcRenderer.invoke('rewrite-content', content, filePath, hasIndexFile),
@@ -87,6 +112,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => { ipcRenderer.removeListener('ai-stream-error', listener); };
   },
   cancelAiStream: () => ipcRenderer.send('ai-stream-cancel'),
+  onAiToolApproval: (callback: (request: ToolApprovalRequest) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, request: ToolApprovalRequest) => callback(request);
+    ipcRenderer.on('ai-tool-approval', listener);
+    return () => { ipcRenderer.removeListener('ai-tool-approval', listener); };
+  },
+  onAiToolApprovalDismissed: (callback: (ids: number[]) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, ids: number[]) => callback(ids);
+    ipcRenderer.on('ai-tool-approval-dismissed', listener);
+    return () => { ipcRenderer.removeListener('ai-tool-approval-dismissed', listener); };
+  },
+  resolveAiToolApproval: (id: number, decision: ToolApprovalDecision) => ipcRenderer.send('ai-tool-approval-resolve', id, decision),
+  listAiAlwaysAllowedFolders: () => ipcRenderer.invoke('list-ai-always-allowed-folders'),
+  clearAiAlwaysAllowedFolders: () => ipcRenderer.invoke('clear-ai-always-allowed-folders'),
 
   // Calendar file-change events (chokidar → renderer)
   onCalendarFileChanged: (callback: (results: CalendarEventResult[], filePath: string) => void) => {
@@ -110,6 +148,21 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => { ipcRenderer.removeListener('calendar-watcher-error', listener); };
   },
 
+  // A calendar reminder notification was clicked (main → renderer)
+  onReminderOpenFile: (callback: (filePath: string) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, filePath: string) => callback(filePath);
+    ipcRenderer.on('reminder-open-file', listener);
+    return () => { ipcRenderer.removeListener('reminder-open-file', listener); };
+  },
+
+  // Embedded-note change events (chokidar → renderer), for the files set by setWatchedEmbeds
+  setWatchedEmbeds: (filePaths: string[]) => ipcRenderer.invoke('set-watched-embeds', filePaths),
+  onEmbedFileChanged: (callback: (filePath: string) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, filePath: string) => callback(filePath);
+    ipcRenderer.on('embed-file-changed', listener);
+    return () => { ipcRenderer.removeListener('embed-file-changed', listener); };
+  },
+
   runOcrInTerminal: (ocrToolsFolder: string, targets: OcrTarget[]) => ipcRenderer.invoke('run-ocr-in-terminal', ocrToolsFolder, targets),
   insertIntoIndexYaml: (dirPath: string, newName: string, insertAfterName: string | null) =>
     ipcRenderer.invoke('insert-into-index-yaml', dirPath, newName, insertAfterName),
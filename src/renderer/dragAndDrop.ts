@@ -3,6 +3,7 @@ import { api } from './api';
 import type { FileNode } from '../shared/types';
 import { pasteCutItems } from './edit';
 import { ensureAttachFolder } from './fileOpsUtil';
+import { createLinkRewriteSession } from './linkRewrite';
 import {
   getIndexTreeRoot,
   expandIndexTreeNode,
@@ -32,6 +33,8 @@ export interface DragPayload {
 export interface MoveResult {
   success: boolean;
   error?: string;
+  /** True when the user cancelled the move from the link-rewrite preview. */
+  cancelled?: boolean;
   sourceFolder: string;
 }
 
@@ -103,12 +106,15 @@ export async function moveEntryIntoFolder(payload: DragPayload, destFolder: stri
 
   // pasteCutItems only reads .path, .name and .isDirectory; the DragPayload already
   // provides exactly those fields, so it satisfies the narrowed parameter type directly.
+  const links = createLinkRewriteSession(`Move ${payload.name}`);
   const result = await pasteCutItems(
     [payload],
     destFolder,
     api.pathExists,
-    api.renameFile
+    api.renameFile,
+    links.confirmMoves
   );
+  await links.finish(result.movedPaths);
 
   // Only reconcile when the item actually moved on disk (movedPaths is empty on
   // a failed rename), keeping the indexes in step with the filesystem. A reconcile
@@ -123,7 +129,7 @@ export async function moveEntryIntoFolder(payload: DragPayload, destFolder: stri
   }
 
   if (!result.success) {
-    return { success: false, error: result.error, sourceFolder };
+    return { success: false, error: result.error, cancelled: result.cancelled, sourceFolder };
   }
 
   return { success: true, sourceFolder };
@@ -181,6 +187,7 @@ export async function completeEntryDrop(
   onRefreshDirectory?: () => void
 ): Promise<void> {
   const result = await moveEntryIntoFolder(payload, destFolder);
+  if (result.cancelled) return;
   if (!result.success) {
     // Nothing moved, so no refresh follows to clear this. Reporting it matters most
     // for the common name-collision case, which otherwise looks like a dead drop.
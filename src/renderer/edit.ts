@@ -1,7 +1,7 @@
 import type { ItemData } from '../shared/types';
 import { joinFiles as joinFilesUtil } from './joinUtil';
 import { splitFile as splitFileUtil } from './splitUtil';
-import type { FileOps } from '../shared/shared';
+import type { EntryMove, FileOps } from '../shared/shared';
 import { getParentPath, joinPath, isPathInside, isSamePath } from './pathUtil';
 import { toErrorMessage } from '../shared/logUtil';
 import { isTextFile, isMarkdownFile } from '../shared/fileTypes';
@@ -148,6 +148,8 @@ export interface PasteResult {
   error?: string;
   /** Name of the single pasted item (for scroll-to functionality) */
   pastedItemName?: string;
+  /** True when `confirmMoves` declined the move; nothing moved and there is no error to show. */
+  cancelled?: boolean;
   /**
    * Old paths of items that were actually renamed on disk. Populated even on
    * partial failure so callers can reconcile the store and .INDEX.yaml with
@@ -157,13 +159,17 @@ export interface PasteResult {
 }
 
 /**
- * Paste cut items to the destination folder
+ * Paste cut items to the destination folder. `confirmMoves`, when given, is
+ * called with the planned moves once every check has passed and just before
+ * anything is renamed (the link-rewrite preview hooks in here); resolving false
+ * cancels the paste.
  */
 export async function pasteCutItems(
   cutItems: CutItem[],
   destinationPath: string,
   pathExists: (path: string) => Promise<boolean>,
-  renameFile: (oldPath: string, newPath: string) => Promise<boolean>
+  renameFile: (oldPath: string, newPath: string) => Promise<boolean>,
+  confirmMoves?: (moves: EntryMove[]) => Promise<boolean>
 ): Promise<PasteResult> {
   if (cutItems.length === 0) {
     return { success: true, movedPaths: [] };
@@ -223,6 +229,11 @@ export async function pasteCutItems(
     };
   }
 
+  if (confirmMoves) {
+    const moves = cutItems.map(item => ({ oldPath: item.path, newPath: joinPath(destinationPath, item.name) }));
+    if (!await confirmMoves(moves)) return { success: false, cancelled: true, movedPaths: [] };
+  }
+
   // Move items with bounded concurrency rather than one-at-a-time: the renames
   // are mutually independent (duplicates were pre-checked above), so serializing
   // hundreds of IPC round-trips would needlessly stall a large multi-select.
@@ -0,0 +1,67 @@
+import { EditorView, runScopeHandlers } from '@codemirror/view';
+import { Facet, Prec, type Extension } from '@codemirror/state';
+import { vim, Vim } from '@replit/codemirror-vim';
+import { emacs } from '@replit/codemirror-emacs';
+import type { EditorKeymap } from '../../shared/shared';
+
+/**
+ * Vim and Emacs key bindings for `CodeMirrorEditor` (`settings.editorKeymap`).
+ *
+ * Both emulations read every keydown ahead of the editor's keymaps, so the app's own
+ * bindings (Ctrl-S save, Ctrl-Q abandon, Ctrl-T timestamp, Ctrl-D date) would otherwise
+ * become `C-s` isearch, `C-q` quoted-insert and so on. Those bindings are declared in
+ * {@link APP_KEY_SCOPE} as well as the editor scope, and a handler at the highest
+ * precedence runs that scope first — the same keys do the same thing in every mode.
+ * In the default mode nothing changes: they stay ordinary editor-scope bindings.
+ */
+
+/** Extra scope of the app's key bindings; use {@link APP_KEY_BINDING_SCOPE} on them. */
+export const APP_KEY_SCOPE = 'mkbrowser';
+
+/** `KeyBinding.scope` for the app's bindings: the editor's scope plus {@link APP_KEY_SCOPE}. */
+export const APP_KEY_BINDING_SCOPE = `editor ${APP_KEY_SCOPE}`;
+
+/** What Vim's ex commands do in this editor. */
+export interface EditorExCommands {
+  /** `:w` — save and keep editing. */
+  write: () => void;
+  /** `:wq` / `:x` — save and stop editing. */
+  writeQuit: () => void;
+  /** `:q` — abandon the edit, unsaved changes included. */
+  quit: () => void;
+}
+
+// Vim's ex commands are registered globally, once; each looks up the commands of the
+// editor it ran in through this facet.
+const exCommandsFacet = Facet.define<EditorExCommands, EditorExCommands | undefined>({
+  combine: values => values[0],
+});
+
+let exCommandsDefined = false;
+
+function defineExCommands(): void {
+  if (exCommandsDefined) return;
+  exCommandsDefined = true;
+  const run = (command: keyof EditorExCommands) => (cm: { cm6: unknown }) => {
+    (cm.cm6 as EditorView).state.facet(exCommandsFacet)?.[command]();
+  };
+  Vim.defineEx('write', 'w', run('write'));
+  Vim.defineEx('wq', 'wq', run('writeQuit'));
+  Vim.defineEx('xit', 'x', run('writeQuit'));
+  Vim.defineEx('quit', 'q', run('quit'));
+}
+
+/**
+ * The extensions for `mode`, to be placed first in the editor's extension list (the
+ * emulations must see keys before the standard keymaps do). Empty for the default mode.
+ * Vim mode shows its status line (mode, pending keys, the `:` prompt) below the editor.
+ */
+export function editorKeymapExtension(mode: EditorKeymap, commands: EditorExCommands): Extension {
+  if (mode === 'default') return [];
+  const appKeysFirst = Prec.highest(EditorView.domEventHandlers({
+    keydown: (event, view) => runScopeHandlers(view, event, APP_KEY_SCOPE),
+  }));
+  if (mode === 'emacs') return [appKeysFirst, emacs()];
+  defineExCommands();
+  return [appKeysFirst, vim({ status: true }), exCommandsFacet.of(commands)];
+}
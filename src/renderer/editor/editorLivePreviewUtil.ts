@@ -0,0 +1,435 @@
+import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { StateField, type EditorState, type Extension, type Range } from '@codemirror/state';
+import { syntaxTree } from '@codemirror/language';
+import type { Tree } from '@lezer/common';
+import katex from 'katex';
+import { frontMatterEndLine } from './editorFrontMatterUtil';
+import { EDITOR_COLORS } from './editorColors';
+import { logger } from '../../shared/logUtil';
+
+/**
+ * Live preview ("what you see is what you mean") for the Markdown editor: on every line
+ * the cursor is not on, the markup is hidden and the content shown rendered — bold,
+ * italic and struck-through text without their markers, headings without `#`, links as
+ * their text, images and KaTeX math as what they render to, task checkboxes that can be
+ * clicked, and GFM tables as a table. Moving the cursor onto a line (or into a table or
+ * math block) shows its source again, so everything stays editable as plain text.
+ *
+ * Built like the heading, hashtag and front-matter decorations: a `ViewPlugin` decorates
+ * the visible lines, reading the Markdown syntax tree rather than regexes where the
+ * language already parses the construct. Tables and `$$` math blocks replace whole lines,
+ * which CodeMirror only allows from a `StateField`, so they live in one of their own.
+ */
+
+/** Turns an image `src` as written in the document into a URL the editor can load, or null. */
+export type LivePreviewImageResolver = (src: string) => Promise<string | null>;
+
+interface TextRange {
+  from: number;
+  to: number;
+}
+
+const hiddenMark = Decoration.replace({});
+const linkMark = (url: string) => Decoration.mark({ class: 'cm-lp-link', attributes: { title: url } });
+
+// Code, raw HTML and tables never have their content decorated inline.
+const OPAQUE_NODES = new Set(['FencedCode', 'CodeBlock', 'HTMLBlock', 'CommentBlock', 'Table']);
+// Inline math is not looked for inside these (a `$` in code or a URL is just a `$`).
+const NO_MATH_NODES = new Set(['FencedCode', 'CodeBlock', 'InlineCode', 'URL', 'Link', 'Image', 'Table', 'HTMLBlock']);
+
+// `$…$` as remark-math reads it with singleDollarTextMath: no space just inside either
+// dollar, no digit right after the closing one (so "$5 and $6" stays text).
+const INLINE_MATH_RE = /(?<![\\$])\$(?=\S)((?:[^$\\\n]|\\.)+?)(?<=\S)\$(?!\d)/g;
+// `$$…$$` on one line, shown as display math.
+const LINE_MATH_RE = /^\s*\$\$(.+?)\$\$\s*$/;
+const MATH_FENCE_RE = /^\s*\$\$\s*$/;
+
+/** Line-aligned ranges holding a cursor or selection: those lines are shown as source. */
+function activeLines(state: EditorState): TextRange[] {
+  return state.selection.ranges.map(r => ({ from: state.doc.lineAt(r.from).from, to: state.doc.lineAt(r.to).to }));
+}
+
+function touches(active: TextRange[], from: number, to: number): boolean {
+  return active.some(r => r.from <= to && r.to >= from);
+}
+
+/** Whether `pos` is inside a node named in `names`. */
+function insideAny(tree: Tree, pos: number, names: Set<string>): boolean {
+  for (let node: ReturnType<Tree['resolveInner']> | null = tree.resolveInner(pos, 1); node; node = node.parent) {
+    if (names.has(node.name)) return true;
+  }
+  return false;
+}
+
+/** Moves the cursor to the widget's place in the document, which shows its source. */
+function revealOnMouseDown(dom: HTMLElement, view: EditorView): void {
+  dom.addEventListener('mousedown', (event) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    view.dispatch({ selection: { anchor: view.posAtDOM(dom) } });
+    view.focus();
+  });
+}
+
+class CheckboxWidget extends WidgetType {
+  constructor(readonly checked: boolean) { super(); }
+
+  eq(other: CheckboxWidget) { return other.checked === this.checked; }
+
+  toDOM(view: EditorView) {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.className = 'cm-lp-checkbox';
+    input.checked = this.checked;
+    // Keep focus (and the cursor) where it is, so the line stays rendered.
+    input.addEventListener('mousedown', (event) => event.preventDefault());
+    input.addEventListener('click', (event) => {
+      event.preventDefault();
+      // The widget replaces `[ ]` / `[x]`; the state character is the one after `[`.
+      const pos = view.posAtDOM(input) + 1;
+      const done = view.state.sliceDoc(pos, pos + 1) !== ' ';
+      view.dispatch({ changes: { from: pos, to: pos + 1, insert: done ? ' ' : 'x' } });
+    });
+    return input;
+  }
+}
+
+class ImageWidget extends WidgetType {
+  constructor(readonly src: string, readonly alt: string, readonly resolve: LivePreviewImageResolver | undefined) { super(); }
+
+  eq(other: ImageWidget) { return other.src === this.src && other.alt === this.alt; }
+
+  toDOM(view: EditorView) {
+    const wrap = document.createElement('span');
+    wrap.className = 'cm-lp-image-wrap';
+    const showMissing = () => {
+      wrap.className = 'cm-lp-image-missing';
+      wrap.textContent = `⚠ ${this.alt || this.src}`;
+    };
+    const show = (url: string) => {
+      const img = document.createElement('img');
+      img.className = 'cm-lp-image';
+      img.src = url;
+      img.alt = this.alt;
+      img.title = this.alt || this.src;
+      // The line's height changes once the image has a size.
+      img.addEventListener('load', () => view.requestMeasure());
+      img.addEventListener('error', showMissing);
+      wrap.replaceChildren(img);
+    };
+    if (/^(?:https?:|data:)/i.test(this.src)) {
+      show(this.src);
+    } else if (this.resolve) {
+      this.resolve(this.src)
+        .then(url => { if (url) show(url); else showMissing(); })
+        .catch((err: unknown) => {
+          logger.error('Error resolving image path:', err);
+          showMissing();
+        });
+    } else {
+      showMissing();
+    }
+    revealOnMouseDown(wrap, view);
+    return wrap;
+  }
+}
+
+class MathWidget extends WidgetType {
+  constructor(readonly tex: string, readonly display: boolean) { super(); }
+
+  eq(other: MathWidget) { return other.tex === this.tex && other.display === this.display; }
+
+  toDOM(view: EditorView) {
+    const el = document.createElement(this.display ? 'div' : 'span');
+    el.className = this.display ? 'cm-lp-math-block' : 'cm-lp-math';
+    katex.render(this.tex, el, { throwOnError: false, displayMode: this.display });
+    revealOnMouseDown(el, view);
+    return el;
+  }
+}
+
+type Align = 'left' | 'center' | 'right' | null;
+
+/** A GFM table's cell texts, header row first, and each column's alignment. */
+export interface ParsedTable {
+  rows: string[][];
+  aligns: Align[];
+}
+
+/** Cells of one table row: split on unescaped `|`, outer pipes optional. */
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (ch === '\\' && line[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '|') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  const trimmed = line.trim();
+  if (trimmed.startsWith('|')) cells.shift();
+  if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) cells.pop();
+  return cells.map(c => c.trim());
+}
+
+/** Reads a GFM table's source: header row, delimiter row, then body rows. */
+export function parseTable(text: string): ParsedTable {
+  const lines = text.split('\n').filter(l => l.trim() !== '');
+  const aligns = splitRow(lines[1] ?? '').map((d): Align => {
+    const left = d.startsWith(':');
+    const right = d.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+  return { rows: [lines[0] ?? '', ...lines.slice(2)].map(splitRow), aligns };
+}
+
+class TableWidget extends WidgetType {
+  constructor(readonly source: string) { super(); }
+
+  eq(other: TableWidget) { return other.source === this.source; }
+
+  toDOM(view: EditorView) {
+    const { rows, aligns } = parseTable(this.source);
+    const table = document.createElement('table');
+    table.className = 'cm-lp-table';
+    rows.forEach((row, r) => {
+      const tr = table.insertRow();
+      row.forEach((text, c) => {
+        const cell = document.createElement(r === 0 ? 'th' : 'td');
+        // Cell markdown is shown as its text; moving into the table shows the source.
+        cell.textContent = text;
+        const align = aligns[c];
+        if (align) cell.style.textAlign = align;
+        tr.appendChild(cell);
+      });
+    });
+    revealOnMouseDown(table, view);
+    return table;
+  }
+}
+
+/**
+ * The inline live-preview decorations for the parts of the document in `ranges`
+ * (normally the visible ranges), skipping front matter and every line holding a
+ * cursor or selection. Exported for tests; takes the state, not the view.
+ */
+export function buildLivePreviewDecorations(state: EditorState, ranges: readonly TextRange[], resolveImage?: LivePreviewImageResolver): DecorationSet {
+  const decos: Range<Decoration>[] = [];
+  const doc = state.doc;
+  const tree = syntaxTree(state);
+  const active = activeLines(state);
+  const fmEnd = frontMatterEndLine(doc);
+  const bodyStart = fmEnd > 0 ? Math.min(doc.length, doc.line(fmEnd).to + 1) : 0;
+  const hide = (from: number, to: number) => {
+    if (to > from) decos.push(hiddenMark.range(from, to));
+  };
+
+  for (const { from, to } of ranges) {
+    if (to < bodyStart) continue;
+    tree.iterate({
+      from: Math.max(from, bodyStart),
+      to,
+      enter: (node) => {
+        if (OPAQUE_NODES.has(node.name)) return false;
+        if (touches(active, node.from, node.to)) return true;
+        switch (node.name) {
+          case 'HeaderMark':
+            // ATX markers only (a setext underline is its own line), with the space after an opening one.
+            if (node.node.parent?.name.startsWith('ATXHeading')) {
+              const opening = node.from === doc.lineAt(node.from).from;
+              hide(node.from, opening && doc.sliceString(node.to, node.to + 1) === ' ' ? node.to + 1 : node.to);
+            }
+            break;
+          case 'EmphasisMark':
+          case 'StrikethroughMark':
+            hide(node.from, node.to);
+            break;
+          case 'CodeMark':
+            if (node.node.parent?.name === 'InlineCode') hide(node.from, node.to);
+            break;
+          case 'Autolink':
+            for (const mark of node.node.getChildren('LinkMark')) hide(mark.from, mark.to);
+            return false;
+          case 'Link': {
+            // `[text](url "title")` / `[text][ref]`: keep only the text, with the target as its tooltip.
+            const marks = node.node.getChildren('LinkMark');
+            if (marks.length < 2) break;
+            const url = node.node.getChild('URL');
+            hide(node.from, marks[0]!.to);
+            hide(marks[1]!.from, node.to);
+            if (marks[1]!.from > marks[0]!.to) {
+              decos.push(linkMark(url ? doc.sliceString(url.from, url.to) : '').range(marks[0]!.to, marks[1]!.from));
+            }
+            break;
+          }
+          case 'Image': {
+            const marks = node.node.getChildren('LinkMark');
+            const url = node.node.getChild('URL');
+            if (marks.length < 2 || !url) return false;
+            const alt = doc.sliceString(marks[0]!.to, marks[1]!.from);
+            const widget = new ImageWidget(doc.sliceString(url.from, url.to), alt, resolveImage);
+            decos.push(Decoration.replace({ widget }).range(node.from, node.to));
+            return false;
+          }
+          case 'TaskMarker': {
+            const checked = doc.sliceString(node.from + 1, node.from + 2) !== ' ';
+            decos.push(Decoration.replace({ widget: new CheckboxWidget(checked) }).range(node.from, node.to));
+            break;
+          }
+        }
+        return true;
+      },
+    });
+
+    // Math is not part of the Markdown grammar; find it line by line.
+    for (let pos = Math.max(from, bodyStart); pos <= to;) {
+      const line = doc.lineAt(pos);
+      pos = line.to + 1;
+      if (touches(active, line.from, line.to)) continue;
+      const display = LINE_MATH_RE.exec(line.text);
+      if (display) {
+        if (!insideAny(tree, line.from, NO_MATH_NODES)) {
+          decos.push(Decoration.replace({ widget: new MathWidget(display[1]!.trim(), true) }).range(line.from, line.to));
+        }
+        continue;
+      }
+      if (!line.text.includes('$')) continue;
+      for (const m of line.text.matchAll(INLINE_MATH_RE)) {
+        const start = line.from + m.index;
+        if (insideAny(tree, start, NO_MATH_NODES)) continue;
+        decos.push(Decoration.replace({ widget: new MathWidget(m[1]!, false) }).range(start, start + m[0].length));
+      }
+    }
+  }
+  return Decoration.set(decos, true);
+}
+
+/** A table or `$$` math block, as whole lines. */
+interface PreviewBlock {
+  from: number;
+  to: number;
+  widget: WidgetType;
+}
+
+/** Every top-level table and `$$` math block in the document. */
+function findPreviewBlocks(state: EditorState): PreviewBlock[] {
+  const doc = state.doc;
+  const tree = syntaxTree(state);
+  const fmEnd = frontMatterEndLine(doc);
+  const blocks: PreviewBlock[] = [];
+
+  tree.iterate({
+    enter: (node) => {
+      if (node.name === 'Document') return true;
+      // Only tables directly in the document: one inside a list or quote shares its lines' prefix.
+      if (node.name === 'Table' && node.node.parent?.name === 'Document') {
+        const from = doc.lineAt(node.from).from;
+        const to = doc.lineAt(node.to).to;
+        blocks.push({ from, to, widget: new TableWidget(doc.sliceString(from, to)) });
+      }
+      return false;
+    },
+  });
+
+  for (let n = fmEnd + 1; n <= doc.lines; n++) {
+    const open = doc.line(n);
+    if (!MATH_FENCE_RE.test(open.text) || insideAny(tree, open.from, NO_MATH_NODES)) continue;
+    let close = n + 1;
+    while (close <= doc.lines && !MATH_FENCE_RE.test(doc.line(close).text)) close++;
+    if (close > doc.lines) break;
+    const tex = doc.sliceString(doc.line(n + 1).from, doc.line(close - 1).to);
+    if (close > n + 1) blocks.push({ from: open.from, to: doc.line(close).to, widget: new MathWidget(tex, true) });
+    n = close;
+  }
+  return blocks.sort((a, b) => a.from - b.from);
+}
+
+/** The block decorations: each block not holding a cursor or selection, rendered. */
+function blockDecorations(state: EditorState, blocks: PreviewBlock[]): DecorationSet {
+  const active = activeLines(state);
+  return Decoration.set(blocks
+    .filter(b => !touches(active, b.from, b.to))
+    .map(b => Decoration.replace({ widget: b.widget, block: true }).range(b.from, b.to)));
+}
+
+/**
+ * Tables and `$$` math blocks. The blocks are found again only when the document (or
+ * its parse) changes; a cursor move just re-checks which of them to render.
+ */
+const livePreviewBlockField = StateField.define<{ tree: Tree; blocks: PreviewBlock[]; decorations: DecorationSet }>({
+  create(state) {
+    const blocks = findPreviewBlocks(state);
+    return { tree: syntaxTree(state), blocks, decorations: blockDecorations(state, blocks) };
+  },
+  update(value, tr) {
+    const tree = syntaxTree(tr.state);
+    if (tr.docChanged || tree !== value.tree) {
+      const blocks = findPreviewBlocks(tr.state);
+      return { tree, blocks, decorations: blockDecorations(tr.state, blocks) };
+    }
+    return tr.selection ? { ...value, decorations: blockDecorations(tr.state, value.blocks) } : value;
+  },
+  provide: field => EditorView.decorations.from(field, value => value.decorations),
+});
+
+const livePreviewTheme = EditorView.baseTheme({
+  '.cm-lp-link': {
+    textDecoration: 'underline',
+  },
+  '.cm-lp-checkbox': {
+    verticalAlign: 'middle',
+    margin: '0 2px',
+    cursor: 'pointer',
+  },
+  '.cm-lp-image': {
+    display: 'inline-block',
+    maxWidth: '100%',
+    maxHeight: '20em',
+    verticalAlign: 'bottom',
+  },
+  '.cm-lp-image-missing': {
+    color: EDITOR_COLORS.orange400,
+  },
+  '.cm-lp-math-block': {
+    textAlign: 'center',
+    padding: '4px 0',
+  },
+  '.cm-lp-table': {
+    borderCollapse: 'collapse',
+    margin: '4px 0',
+  },
+  '.cm-lp-table th, .cm-lp-table td': {
+    border: `1px solid ${EDITOR_COLORS.gray400}`,
+    padding: '2px 8px',
+  },
+});
+
+/**
+ * The live-preview extension for a Markdown editor. `resolveImage` turns relative image
+ * paths into loadable URLs (images it can't resolve show their alt text).
+ */
+export function livePreview(resolveImage?: LivePreviewImageResolver): Extension {
+  const plugin = ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      constructor(view: EditorView) {
+        this.decorations = buildLivePreviewDecorations(view.state, view.visibleRanges, resolveImage);
+      }
+      update(update: ViewUpdate) {
+        if (update.docChanged || update.viewportChanged || update.selectionSet
+          || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+          this.decorations = buildLivePreviewDecorations(update.state, update.view.visibleRanges, resolveImage);
+        }
+      }
+    },
+    { decorations: (v) => v.decorations }
+  );
+  return [plugin, livePreviewBlockField, livePreviewTheme];
+}
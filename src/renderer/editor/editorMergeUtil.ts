@@ -0,0 +1,169 @@
+/**
+ * Line-based three-way merge for a save that finds the file changed on disk
+ * (see renderer/saveConflict.ts): `base` is the file as the editor loaded it,
+ * `mine` the edit buffer, `theirs` what is on disk now.
+ *
+ * Both sides are diffed against the base with @codemirror/merge's `diff`, run
+ * over one character per distinct line so it compares whole lines. A region
+ * changed on only one side takes that side's lines; a region both changed the
+ * same way is taken once; anything else — including changes to adjacent lines,
+ * as git treats them — is a conflict, written out between diff3-style markers
+ * unless `prefer` picks a side for every conflict.
+ */
+import { diff, Change } from '@codemirror/merge';
+
+export const CONFLICT_MINE = '<<<<<<< Mine (unsaved edits)';
+export const CONFLICT_BASE = '||||||| Base (when editing started)';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_THEIRS = '>>>>>>> Theirs (on disk)';
+
+/**
+ * A conflict's opening, base or closing marker line left in the text. A bare
+ * `=======` line is not one: it is also a setext heading's underline, and a
+ * separator only counts between a `<<<<<<< ` and a `>>>>>>> ` line, which are
+ * matched here anyway.
+ */
+const MARKER_RE = /^(?:<<<<<<< |\|\|\|\|\|\|\| |>>>>>>> )/m;
+
+export interface MergeResult {
+  /** The merged text, with conflicts marked (or resolved, with `prefer`). */
+  text: string;
+  /** Regions both sides changed differently. */
+  conflicts: number;
+}
+
+/** Lines of `text`, each keeping its line break, so joining them gives `text` back. */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Encode each side as one character per line, the same line always getting the
+ * same character. Code points start above ASCII and skip the surrogate range;
+ * null when there are more distinct lines than that leaves room for.
+ */
+function encodeLines(sides: string[][]): string[] | null {
+  const codes = new Map<string, string>();
+  let next = 0x100;
+  const encoded: string[] = [];
+  for (const lines of sides) {
+    let chars = '';
+    for (const line of lines) {
+      let code = codes.get(line);
+      if (code === undefined) {
+        if (next === 0xd800) next = 0xe000;
+        if (next > 0xffff) return null;
+        code = String.fromCharCode(next++);
+        codes.set(line, code);
+      }
+      chars += code;
+    }
+    encoded.push(chars);
+  }
+  return encoded;
+}
+
+/** A line with a line break after it, so a marker can always follow it. */
+function terminated(lines: string[]): string {
+  const text = lines.join('');
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/**
+ * Merge `mine` and `theirs`, both edited from `base`. With `prefer`, each
+ * conflict is resolved to that side instead of being marked (the count still
+ * reports how many there were).
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string, prefer?: 'mine' | 'theirs'): MergeResult {
+  if (mine === theirs || theirs === base) return { text: mine, conflicts: 0 };
+  if (mine === base) return { text: theirs, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const mineLines = splitLines(mine);
+  const theirsLines = splitLines(theirs);
+  const encoded = encodeLines([baseLines, mineLines, theirsLines]);
+  // Too many distinct lines to merge line by line: the whole file is one conflict.
+  const mineChanges: readonly Change[] = encoded
+    ? diff(encoded[0]!, encoded[1]!)
+    : [new Change(0, baseLines.length, 0, mineLines.length)];
+  const theirChanges: readonly Change[] = encoded
+    ? diff(encoded[0]!, encoded[2]!)
+    : [new Change(0, baseLines.length, 0, theirsLines.length)];
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0; // next base line not yet written
+  let mi = 0;
+  let ti = 0;
+  // How far each side's line numbers have drifted from the base's so far.
+  let mineOffset = 0;
+  let theirOffset = 0;
+
+  while (mi < mineChanges.length || ti < theirChanges.length) {
+    // Start a region at the earlier change, then pull in every change from
+    // either side that overlaps or touches it.
+    const startsWithMine = ti >= theirChanges.length
+      || (mi < mineChanges.length && mineChanges[mi]!.fromA <= theirChanges[ti]!.fromA);
+    const first = startsWithMine ? mineChanges[mi]! : theirChanges[ti]!;
+    const lo = first.fromA;
+    let hi = first.toA;
+    const mineFrom = mi;
+    const theirFrom = ti;
+    for (;;) {
+      if (mi < mineChanges.length && mineChanges[mi]!.fromA <= hi) {
+        hi = Math.max(hi, mineChanges[mi++]!.toA);
+      } else if (ti < theirChanges.length && theirChanges[ti]!.fromA <= hi) {
+        hi = Math.max(hi, theirChanges[ti++]!.toA);
+      } else {
+        break;
+      }
+    }
+
+    // Each side's lines for base lines [lo, hi).
+    const sideSlice = (changes: readonly Change[], from: number, to: number, offset: number, lines: string[]) => {
+      if (from === to) return { lines: lines.slice(lo + offset, hi + offset), offset };
+      const firstChange = changes[from]!;
+      const lastChange = changes[to - 1]!;
+      const start = firstChange.fromB - (firstChange.fromA - lo);
+      const end = lastChange.toB + (hi - lastChange.toA);
+      return { lines: lines.slice(start, end), offset: end - hi };
+    };
+    const mineSide = sideSlice(mineChanges, mineFrom, mi, mineOffset, mineLines);
+    const theirSide = sideSlice(theirChanges, theirFrom, ti, theirOffset, theirsLines);
+    mineOffset = mineSide.offset;
+    theirOffset = theirSide.offset;
+
+    out.push(...baseLines.slice(pos, lo));
+    const mineText = mineSide.lines.join('');
+    const theirText = theirSide.lines.join('');
+    if (mineFrom === mi) {
+      out.push(theirText);
+    } else if (theirFrom === ti || mineText === theirText) {
+      out.push(mineText);
+    } else {
+      conflicts++;
+      if (prefer === 'mine') {
+        out.push(mineText);
+      } else if (prefer === 'theirs') {
+        out.push(theirText);
+      } else {
+        // Markers go on lines of their own, even after a last line without a line break.
+        if (out.length > 0 && !out[out.length - 1]!.endsWith('\n') && out[out.length - 1] !== '') out.push('\n');
+        out.push(
+          `${CONFLICT_MINE}\n`, terminated(mineSide.lines),
+          `${CONFLICT_BASE}\n`, terminated(baseLines.slice(lo, hi)),
+          `${CONFLICT_SEPARATOR}\n`, terminated(theirSide.lines),
+          `${CONFLICT_THEIRS}\n`,
+        );
+      }
+    }
+    pos = hi;
+  }
+  out.push(...baseLines.slice(pos));
+  return { text: out.join(''), conflicts };
+}
+
+/** Whether `text` still has a conflict marker line in it. */
+export function hasConflictMarkers(text: string): boolean {
+  return MARKER_RE.test(text);
+}
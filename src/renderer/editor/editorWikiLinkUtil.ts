@@ -0,0 +1,302 @@
+import type { EditorView } from '@codemirror/view';
+import { EditorState, type Extension } from '@codemirror/state';
+import { pickedCompletion, type Completion, type CompletionContext, type CompletionResult, type CompletionSource } from '@codemirror/autocomplete';
+import type { WikiLinkTarget } from '../../shared/shared';
+import type { MarkdownHeadingNode } from '../../shared/types';
+import { subsequenceScore } from '../../shared/fuzzyMatch';
+import { extractBlock, extractHeadingTree, listBlockIds } from '../../shared/tocUtil';
+import { parseFrontMatter } from '../../shared/frontMatterUtil';
+import { logger } from '../../shared/logUtil';
+import { api } from '../api';
+
+/**
+ * Wikilink completion for the markdown editor. Typing `[[` offers the vault's
+ * files, ranked by how well their names match what has been typed and by how
+ * recently they were modified; after `[[note#` it offers the headings of that
+ * note, after `[[note#^` its block ids, and after `[[note|` the names the note goes by (its front-matter
+ * aliases and title, first heading and file name). Picking an option fills in
+ * that part of the link and closes it with `]]`.
+ */
+
+/** How long the vault's file list is reused between completions (see VAULT_FILES_TTL_MS in main/linkIndex.ts). */
+const TARGETS_TTL_MS = 5000;
+
+/** File options shown at once; typing more narrows the rest in. */
+const MAX_FILE_OPTIONS = 50;
+
+/** Block text shown beside a block id option. */
+const MAX_BLOCK_PREVIEW_CHARS = 60;
+
+/** Score added for a file modified just now, halving every RECENCY_HALF_LIFE_DAYS. */
+const RECENCY_WEIGHT = 6;
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Characters that would end or split a link if they were inserted into one. */
+const LINK_BREAKING_CHARS = /[[\]|#^]/g;
+
+/** Which part of a `[[wikilink]]` the cursor is typing, and where that part starts. */
+export type WikiLinkContext =
+  | { kind: 'file'; from: number; query: string }
+  | { kind: 'heading'; from: number; target: string; query: string }
+  | { kind: 'alias'; from: number; target: string; anchor: string | null; query: string };
+
+/**
+ * The unclosed wikilink the cursor at `pos` is inside, or null when it isn't
+ * in one. Only the cursor's own line is considered, as wikilinks don't span
+ * lines.
+ */
+export function wikiLinkContextAt(state: EditorState, pos: number): WikiLinkContext | null {
+  const line = state.doc.lineAt(pos);
+  const before = line.text.slice(0, pos - line.from);
+  const open = before.lastIndexOf('[[');
+  if (open < 0) return null;
+  const inner = before.slice(open + 2);
+  if (inner.includes(']')) return null;
+  const start = line.from + open + 2;
+
+  const pipe = inner.indexOf('|');
+  if (pipe >= 0) {
+    const head = inner.slice(0, pipe);
+    const hash = head.indexOf('#');
+    return {
+      kind: 'alias',
+      from: start + pipe + 1,
+      target: hash < 0 ? head : head.slice(0, hash),
+      anchor: hash < 0 ? null : head.slice(hash + 1),
+      query: inner.slice(pipe + 1),
+    };
+  }
+  const hash = inner.indexOf('#');
+  if (hash >= 0) {
+    return { kind: 'heading', from: start + hash + 1, target: inner.slice(0, hash), query: inner.slice(hash + 1) };
+  }
+  return { kind: 'file', from: start, query: inner };
+}
+
+function splitSegments(filePath: string): string[] {
+  return filePath.split(/[\\/]/).filter(Boolean);
+}
+
+function stripMd(name: string): string {
+  return name.toLowerCase().endsWith('.md') ? name.slice(0, -3) : name;
+}
+
+/**
+ * The text to write in a wikilink to each of `paths` (files under `rootPath`):
+ * the file name (without `.md` for markdown), with as many parent folders in
+ * front as it takes to tell files of the same name apart — the shortest link
+ * that finds exactly that file by name. Folders are only ever taken from inside
+ * `rootPath`, as links are resolved relative to it, so a file at the root is
+ * always linked by its bare name.
+ */
+export function wikiLinkTexts(paths: string[], rootPath: string): Map<string, string> {
+  const rootSegments = splitSegments(rootPath).length;
+  const byName = new Map<string, string[][]>();
+  const segmentsOf = new Map<string, string[]>();
+  for (const p of paths) {
+    const segments = splitSegments(p).slice(rootSegments);
+    segments[segments.length - 1] = stripMd(segments[segments.length - 1] ?? '');
+    segmentsOf.set(p, segments);
+    const key = (segments[segments.length - 1] ?? '').toLowerCase();
+    const group = byName.get(key);
+    if (group) group.push(segments);
+    else byName.set(key, [segments]);
+  }
+
+  const texts = new Map<string, string>();
+  for (const p of paths) {
+    const segments = segmentsOf.get(p)!;
+    const group = byName.get((segments[segments.length - 1] ?? '').toLowerCase())!;
+    let count = 1;
+    const suffix = (s: string[], n: number) => s.slice(-n).join('/').toLowerCase();
+    while (count < segments.length && group.some(other => other !== segments && suffix(other, count) === suffix(segments, count))) {
+      count++;
+    }
+    texts.set(p, segments.slice(-count).join('/'));
+  }
+  return texts;
+}
+
+export interface RankedWikiLinkTarget {
+  path: string;
+  /** What to write between the brackets (see {@link wikiLinkTexts}). */
+  linkText: string;
+  /** The file's path under the root folder, shown beside the option. */
+  displayPath: string;
+}
+
+/**
+ * `targets` ordered for the completion popup: files whose link text (or, at
+ * half weight, whose path under `rootPath`) matches `query` as an
+ * abbreviation, best first, with recently modified files lifted up. An empty
+ * query lists the most recently modified files.
+ */
+export function rankWikiLinkTargets(
+  query: string,
+  targets: WikiLinkTarget[],
+  rootPath: string,
+  now: number = Date.now(),
+  limit: number = MAX_FILE_OPTIONS,
+): RankedWikiLinkTarget[] {
+  const texts = wikiLinkTexts(targets.map(t => t.path), rootPath);
+  const rootSegments = splitSegments(rootPath).length;
+  const ranked: Array<RankedWikiLinkTarget & { score: number }> = [];
+  for (const target of targets) {
+    const linkText = texts.get(target.path)!;
+    const displayPath = splitSegments(target.path).slice(rootSegments).join('/');
+    const nameScore = subsequenceScore(query, linkText);
+    const pathScore = subsequenceScore(query, displayPath);
+    if (nameScore === null && pathScore === null) continue;
+    const fuzzy = Math.max((nameScore ?? 0) * 2, pathScore ?? 0);
+    const ageDays = Math.max(0, now - target.modifiedTime) / DAY_MS;
+    const recency = RECENCY_WEIGHT * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+    ranked.push({ path: target.path, linkText, displayPath, score: fuzzy + recency });
+  }
+  return ranked
+    .sort((a, b) => b.score - a.score || a.linkText.localeCompare(b.linkText))
+    .slice(0, limit)
+    .map(({ score: _score, ...rest }) => rest);
+}
+
+let targetsCache: { at: number; targets: Promise<WikiLinkTarget[]> } | null = null;
+
+/** The vault's files, fetched once per burst of typing rather than per keystroke. */
+function loadTargets(): Promise<WikiLinkTarget[]> {
+  const now = Date.now();
+  if (targetsCache && now - targetsCache.at < TARGETS_TTL_MS) return targetsCache.targets;
+  const targets = api.listWikiLinkTargets();
+  targetsCache = { at: now, targets };
+  targets.catch(() => { if (targetsCache?.targets === targets) targetsCache = null; });
+  return targets;
+}
+
+/** The file `target` names from `filePath` and its content; an empty target is the file itself. */
+async function readLinkedNote(filePath: string, state: EditorState, target: string): Promise<{ path: string; content: string } | null> {
+  if (target === '') return { path: filePath, content: state.doc.toString() };
+  const resolution = await api.resolveWikiLink(filePath, target);
+  if (!resolution.path || !resolution.path.toLowerCase().endsWith('.md')) return null;
+  const result = await api.readFile(resolution.path);
+  return result.ok ? { path: resolution.path, content: result.content } : null;
+}
+
+function flattenHeadings(nodes: MarkdownHeadingNode[], out: MarkdownHeadingNode[] = []): MarkdownHeadingNode[] {
+  for (const node of nodes) {
+    out.push(node);
+    if (node.children) flattenHeadings(node.children, out);
+  }
+  return out;
+}
+
+/**
+ * Completion `apply` that writes `text` over the typed part and closes the
+ * link: the cursor lands after the `]]`, which is added unless it is already
+ * there (closeBrackets puts it there as `[[` is typed).
+ */
+function closeLinkWith(text: string) {
+  return (view: EditorView, completion: Completion, from: number, to: number) => {
+    const closed = view.state.sliceDoc(to, to + 2) === ']]';
+    view.dispatch({
+      changes: { from, to, insert: closed ? text : `${text}]]` },
+      selection: { anchor: from + text.length + 2 },
+      annotations: pickedCompletion.of(completion),
+      userEvent: 'input.complete',
+    });
+  };
+}
+
+function uniqueOptions(labels: Array<{ label: string; detail?: string }>, type: string): Completion[] {
+  const seen = new Set<string>();
+  const options: Completion[] = [];
+  for (const { label, detail } of labels) {
+    const text = label.replace(LINK_BREAKING_CHARS, '').trim();
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    options.push({ label: text, detail, type, apply: closeLinkWith(text) });
+  }
+  return options;
+}
+
+function headingOptions(note: { path: string; content: string }): Completion[] {
+  const headings = flattenHeadings(extractHeadingTree(note.path, note.content));
+  return uniqueOptions(headings.map(h => ({ label: h.heading, detail: '#'.repeat(h.depth) })), 'heading');
+}
+
+function blockOptions(note: { path: string; content: string }): Completion[] {
+  return listBlockIds(note.content).map((id): Completion => {
+    const text = (extractBlock(note.content, id)?.text ?? '').replace(/\s+/g, ' ').trim();
+    const label = `^${id}`;
+    return {
+      label,
+      detail: text.length > MAX_BLOCK_PREVIEW_CHARS ? `${text.slice(0, MAX_BLOCK_PREVIEW_CHARS)}…` : text,
+      type: 'constant',
+      apply: closeLinkWith(label),
+    };
+  });
+}
+
+function aliasOptions(note: { path: string; content: string }, anchor: string | null): Completion[] {
+  const { yaml } = parseFrontMatter(note.content);
+  const names: Array<{ label: string; detail?: string }> = [];
+  const addProp = (key: string) => {
+    const value = yaml?.[key];
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (typeof v === 'string' || typeof v === 'number') names.push({ label: String(v), detail: key });
+    }
+  };
+  addProp('aliases');
+  addProp('alias');
+  addProp('title');
+  if (anchor) names.push({ label: anchor, detail: 'section' });
+  const firstHeading = flattenHeadings(extractHeadingTree(note.path, note.content))[0];
+  if (firstHeading) names.push({ label: firstHeading.heading, detail: 'heading' });
+  names.push({ label: stripMd(splitSegments(note.path).pop() ?? ''), detail: 'file name' });
+  return uniqueOptions(names, 'alias');
+}
+
+/**
+ * The completion source behind {@link wikiLinkCompletion}, for the editor of
+ * `filePath`. `getRootPath` reads the browse root when completing, so the
+ * option paths follow it.
+ */
+export function createWikiLinkCompletionSource(filePath: string, getRootPath: () => string): CompletionSource {
+  return async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const link = wikiLinkContextAt(context.state, context.pos);
+    if (!link) return null;
+    try {
+      if (link.kind === 'file') {
+        const targets = (await loadTargets()).filter(t => t.path !== filePath);
+        if (context.aborted) return null;
+        const options = rankWikiLinkTargets(link.query, targets, getRootPath()).map((t): Completion => ({
+          label: t.linkText,
+          detail: t.displayPath,
+          type: 'file',
+          apply: closeLinkWith(t.linkText),
+        }));
+        // Ranked here (name match plus recency), so the popup must keep this order.
+        return { from: link.from, options, filter: false };
+      }
+
+      const note = await readLinkedNote(filePath, context.state, link.target);
+      if (!note || context.aborted) return null;
+      const options = link.kind === 'alias'
+        ? aliasOptions(note, link.anchor)
+        : link.query.startsWith('^') ? blockOptions(note) : headingOptions(note);
+      // Typing the `^` switches from headings to block ids, so the result can't be reused across it.
+      return { from: link.from, options, validFor: link.query.startsWith('^') ? /^\^[^\]|#]*$/ : /^[^\]|#^]*$/ };
+    } catch (err) {
+      logger.error('Wikilink completion failed:', err);
+      return null;
+    }
+  };
+}
+
+/**
+ * Wikilink completion for the markdown editor of `filePath`. Needs the
+ * `autocompletion()` extension, which drives the popup.
+ */
+export function wikiLinkCompletion(filePath: string, getRootPath: () => string): Extension {
+  const source = createWikiLinkCompletionSource(filePath, getRootPath);
+  return EditorState.languageData.of(() => [{ autocomplete: source }]);
+}
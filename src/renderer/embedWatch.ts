@@ -0,0 +1,56 @@
+import { api } from './api';
+import { logger } from '../shared/logUtil';
+
+/**
+ * Change notifications for embedded notes (see NoteEmbed.tsx). Each embed on
+ * screen subscribes to its file; the main process watches the union of those
+ * files (main/embedWatcher.ts) and reports each change, which is fanned out
+ * here to the embeds showing that file.
+ *
+ * Module-level rather than store state, like the thesaurus editor reference in
+ * editorThesaurusUtil: nothing renders off the subscription list itself.
+ */
+const listeners = new Map<string, Set<() => void>>();
+let unsubscribeIpc: (() => void) | null = null;
+let syncQueued = false;
+
+/** Send the watched set to the main process once per batch of (un)subscribes, e.g. one render. */
+function queueSync(): void {
+  if (syncQueued) return;
+  syncQueued = true;
+  queueMicrotask(() => {
+    syncQueued = false;
+    api.setWatchedEmbeds([...listeners.keys()]).catch((err: unknown) => {
+      logger.error('Failed to update watched embeds:', err);
+    });
+    if (listeners.size === 0 && unsubscribeIpc) {
+      unsubscribeIpc();
+      unsubscribeIpc = null;
+    }
+  });
+}
+
+/** Call `onChange` whenever `filePath` changes on disk. Returns an unsubscribe function. */
+export function watchEmbeddedFile(filePath: string, onChange: () => void): () => void {
+  unsubscribeIpc ??= api.onEmbedFileChanged((changedPath) => {
+    for (const listener of listeners.get(changedPath) ?? []) listener();
+  });
+
+  let set = listeners.get(filePath);
+  if (!set) {
+    set = new Set();
+    listeners.set(filePath, set);
+    queueSync();
+  }
+  set.add(onChange);
+
+  return () => {
+    const current = listeners.get(filePath);
+    if (!current) return;
+    current.delete(onChange);
+    if (current.size === 0) {
+      listeners.delete(filePath);
+      queueSync();
+    }
+  };
+}
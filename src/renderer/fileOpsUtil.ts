@@ -17,6 +17,8 @@ import {
 } from '../store';
 import { pasteCutItems, deleteSelectedItems, performSplitFile, performJoinFiles } from './edit';
 import { pasteFromClipboard } from './clipboard';
+import { createLinkRewriteSession } from './linkRewrite';
+import { withJournal } from './opJournal';
 import { getFileName, getParentPath, joinPath, isSamePath } from './pathUtil';
 import { toErrorMessage } from '../shared/logUtil';
 import { ATTACH_SUFFIX } from '../shared/specialFiles';
@@ -62,7 +64,8 @@ export async function ensureAttachFolder(filePath: string): Promise<string | nul
 
 /**
  * Moves all cut items in the store into the given folder, then reconciles the index
- * for both the source and destination folders.
+ * for both the source and destination folders. The moves and the link rewrites
+ * they lead to are one undo journal operation.
  *
  * @param folderPath - Absolute path of the destination folder.
  * @param items - The current item map from the store (used to find cut items).
@@ -85,12 +88,20 @@ export async function pasteIntoFolder(
   // re-validate that here. We only need the shared source folder for the
   // post-move index reconcile below, and it's derived there — where the move
   // having happened already guarantees the folder was unique.
-  const result = await pasteCutItems(
-    cutItems,
-    folderPath,
-    api.pathExists,
-    api.renameFile
-  );
+  const description = cutItems.length === 1 ? `Move ${cutItems[0]!.name}` : `Move ${cutItems.length} items`;
+  const result = await withJournal(description, async (ops, journalId) => {
+    const links = createLinkRewriteSession(description, journalId);
+    const pasted = await pasteCutItems(
+      cutItems,
+      folderPath,
+      ops.pathExists,
+      ops.renameFile,
+      links.confirmMoves
+    );
+    if (!pasted.cancelled) await links.finish(pasted.movedPaths);
+    return pasted;
+  });
+  if (result.cancelled) return;
 
   // The move is not atomic: some items may have moved even when the overall
   // result is a failure. Reconcile the store and indexes with whatever actually
@@ -125,7 +136,8 @@ export async function pasteIntoFolder(
 
 /**
  * Deletes all currently selected items, updates the store, and reconciles the index
- * if an index file is present in the current folder.
+ * if an index file is present in the current folder. The deletes are one undo
+ * journal operation.
  *
  * @param selectedItems - The list of items to delete.
  * @param currentPath - Absolute path of the folder being viewed, used for index reconciliation.
@@ -146,7 +158,8 @@ export async function deleteSelected(
 
   onDismissConfirm();
 
-  const result = await deleteSelectedItems(selectedItems, api.deleteFile);
+  const label = selectedItems.length === 1 ? `Delete ${selectedItems[0]!.name}` : `Delete ${selectedItems.length} items`;
+  const result = await withJournal(label, (ops) => deleteSelectedItems(selectedItems, ops.deleteFile));
 
   if (!result.success) {
     const failed = result.failedItems;
@@ -226,7 +239,7 @@ async function insertSplitPartsIntoIndex(
  * `-02`, …) and the original file is deleted once they all exist. See `splitUtil.ts` for the
  * transactional details. In a Document Mode folder, the parts are spliced into .INDEX.yaml at
  * the original file's position so the document order is preserved. Clears all selections and
- * refreshes the directory view on success.
+ * refreshes the directory view on success. The split is one undo journal operation.
  *
  * @param currentPath - Absolute path of the folder containing the file.
  * @param selectedItems - The selected items; exactly one text or Markdown file is expected.
@@ -242,7 +255,7 @@ export async function splitSelectedFile(
   onSetError: SetError,
   onRefreshDirectory: () => void
 ): Promise<void> {
-  const result = await performSplitFile(selectedItems, api);
+  const result = await withJournal(`Split ${selectedItems[0]?.name ?? 'file'}`, (ops) => performSplitFile(selectedItems, ops));
 
   if (!result.success) {
     onSetError(result.error || 'Failed to split file.');
@@ -273,7 +286,7 @@ export async function splitSelectedFile(
  * and those source files are deleted only after the write is verified. See `joinUtil.ts` for the
  * details. In a Document Mode folder, .INDEX.yaml is reconciled afterwards so the deleted
  * sources' entries are dropped (the surviving target keeps its entry and position). Clears all
- * selections and refreshes the directory view on success.
+ * selections and refreshes the directory view on success. The join is one undo journal operation.
  *
  * @param currentPath - Absolute path of the folder containing the files.
  * @param selectedItems - The selected items; two or more text or Markdown files are expected.
@@ -289,7 +302,7 @@ export async function joinSelectedFiles(
   onSetError: SetError,
   onRefreshDirectory: () => void
 ): Promise<void> {
-  const result = await performJoinFiles(selectedItems, api);
+  const result = await withJournal(`Join ${selectedItems.length} files`, (ops) => performJoinFiles(selectedItems, ops));
 
   if (!result.success) {
     onSetError(result.error || 'Failed to join files.');
@@ -0,0 +1,25 @@
+/**
+ * Keeps the store's `gitStatus` (the browse root's git status, see
+ * main/gitUtil.ts) current. Refreshed whenever the browser reloads a folder, a
+ * file is saved, a commit is made, and the window regains focus — the last one
+ * picking up whatever the user did with git outside the app.
+ */
+import { api } from './api';
+import { getRootPath, setGitStatus } from '../store';
+import { logger } from '../shared/logUtil';
+
+// Refreshes can overlap (a save right after a navigation); only the latest one
+// may write its result, so an older, slower status never replaces a newer one.
+let latestRequest = 0;
+
+/** Re-read the browse root's git status into the store. */
+export async function refreshGitStatus(): Promise<void> {
+  const request = ++latestRequest;
+  const rootPath = getRootPath();
+  try {
+    const status = rootPath ? await api.getGitStatus(rootPath) : null;
+    if (request === latestRequest) setGitStatus(status);
+  } catch (err) {
+    logger.error('Failed to read git status:', err);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Renderer side of keeping links working across renames and moves (see
+ * main/linkRewrite.ts for the main-process half).
+ *
+ * Every move path — inline rename, the Index Tree's rename, drag-and-drop, and
+ * cut/paste — wraps its renames in a {@link LinkRewriteSession}: before anything
+ * moves, `confirmMoves` asks the main process which links would change and, when
+ * any would, shows the LinkRewriteDialog preview and waits for the user's answer;
+ * after the move, `finish` applies the rewrites for whatever actually moved. The
+ * result can be undone as one batch with {@link undoLastMove}.
+ */
+import { api } from './api';
+import { getParentPath, getFileName } from './pathUtil';
+import { reloadExpandedTreeFolder } from './dragAndDrop';
+import type { EntryMove, LinkRewritePlan } from '../shared/shared';
+import {
+  setLinkRewritePreview,
+  setUndoableMove,
+  setAppError,
+  renameItem,
+  getSettings,
+  requestDirectoryRefresh,
+} from '../store';
+import { logger, toErrorMessage } from '../shared/logUtil';
+
+/** The user's answer in the LinkRewriteDialog. */
+export type LinkRewriteChoice = 'update' | 'skip' | 'cancel';
+
+// Resolver for the preview currently on screen. Module-level rather than in the
+// store because it is a callback, not state; the store holds only the plan.
+let pendingChoice: ((choice: LinkRewriteChoice) => void) | null = null;
+
+/** Called by the LinkRewriteDialog with the user's answer; closes the preview. */
+export function resolveLinkRewritePreview(choice: LinkRewriteChoice): void {
+  const resolve = pendingChoice;
+  pendingChoice = null;
+  setLinkRewritePreview(null);
+  resolve?.(choice);
+}
+
+function askLinkRewriteChoice(plan: LinkRewritePlan): Promise<LinkRewriteChoice> {
+  // The dialog is modal, so a second preview shouldn't open over the first; if
+  // one does, the move still waiting on the first is cancelled, not left hanging.
+  pendingChoice?.('cancel');
+  return new Promise((resolve) => {
+    pendingChoice = resolve;
+    setLinkRewritePreview(plan);
+  });
+}
+
+export interface LinkRewriteSession {
+  /**
+   * Previews the link rewrites `moves` would need and returns false when the user
+   * cancels the move. Returns true straight away when no link is affected (or the
+   * plan couldn't be computed — links are then simply left as they are).
+   */
+  confirmMoves: (moves: EntryMove[]) => Promise<boolean>;
+  /**
+   * Applies the confirmed rewrites for the entries that actually moved (old
+   * paths). Never rejects; failures are reported through the app error dialog.
+   */
+  finish: (movedOldPaths: string[]) => Promise<void>;
+}
+
+/**
+ * Starts the link-rewrite bookkeeping for one rename/move. `description` labels
+ * the move in the "Undo Move" button's tooltip. With `journalId`, the files whose
+ * links are rewritten are recorded under that undo journal operation.
+ */
+export function createLinkRewriteSession(description: string, journalId?: number): LinkRewriteSession {
+  let plan: LinkRewritePlan | null = null;
+  return {
+    confirmMoves: async (moves) => {
+      let planned: LinkRewritePlan;
+      try {
+        planned = await api.planLinkRewrites(moves);
+      } catch (err) {
+        logger.error('Failed to plan link rewrites:', err);
+        return true;
+      }
+      if (planned.files.length === 0) return true;
+      const choice = await askLinkRewriteChoice(planned);
+      if (choice === 'cancel') return false;
+      if (choice === 'update') plan = planned;
+      return true;
+    },
+
+    finish: async (movedOldPaths) => {
+      if (movedOldPaths.length === 0) return;
+      // A newer move replaces whatever the header offered to undo.
+      setUndoableMove(null);
+      if (!plan) return;
+      try {
+        const result = await api.applyLinkRewrites(plan.id, movedOldPaths, journalId);
+        if (!result.success) {
+          setAppError(result.error || 'Failed to update links');
+          return;
+        }
+        if (result.undoable) setUndoableMove(description);
+        if (result.skippedFiles.length > 0) {
+          setAppError(`Links were not updated in these files because they changed after the preview: ${result.skippedFiles.join(', ')}.`);
+        }
+      } catch (err) {
+        setAppError('Failed to update links: ' + toErrorMessage(err));
+      }
+    },
+  };
+}
+
+/**
+ * Reverses the last move whose links were rewritten: moves the entries back,
+ * restores the rewritten files, and brings the store, .INDEX.yaml files and Index
+ * Tree back in step. Files edited since the rewrite are kept and reported.
+ */
+export async function undoLastMove(): Promise<void> {
+  setUndoableMove(null);
+  const result = await api.undoLinkRewrites();
+
+  const folders = new Set<string>();
+  let bookmarksChanged = false;
+  for (const move of result.moves) {
+    if (renameItem(move.oldPath, move.newPath, getFileName(move.newPath))) bookmarksChanged = true;
+    folders.add(getParentPath(move.oldPath));
+    folders.add(getParentPath(move.newPath));
+  }
+  if (bookmarksChanged) await api.updateConfig({ settings: getSettings() });
+  await Promise.all([...folders].map(folder => api.reconcileIndexedFiles(folder, false)));
+  for (const folder of folders) await reloadExpandedTreeFolder(folder);
+  requestDirectoryRefresh();
+
+  const problems: string[] = [];
+  if (result.error) problems.push(result.error);
+  if (result.conflicts.length > 0) {
+    problems.push(`These files were edited after the move, so their links were left as they are: ${result.conflicts.join(', ')}.`);
+  }
+  if (problems.length > 0) setAppError(problems.join(' '));
+}
@@ -0,0 +1,86 @@
+/**
+ * Renderer side of the undo journal for bulk file operations (see
+ * main/opJournal.ts for the main-process half).
+ *
+ * Split, Join, paste-moves and multi-delete run inside {@link withJournal}, which
+ * opens a journal operation and hands the operation `FileOps` that record every
+ * change under it. Replace in Files is journaled in the main process. The Undo
+ * Operations dialog reverts the newest of them through {@link undoOperations}.
+ */
+import { api } from './api';
+import { getParentPath, getFileName } from './pathUtil';
+import { reloadExpandedTreeFolder } from './dragAndDrop';
+import type { FileOps } from '../shared/shared';
+import {
+  setAppError,
+  setUndoableMove,
+  renameItem,
+  deleteItems,
+  getSettings,
+  requestDirectoryRefresh,
+} from '../store';
+import { logger } from '../shared/logUtil';
+
+/** `FileOps` whose writes, creates, renames and deletes are recorded under journal operation `journalId`. */
+function journaledFileOps(journalId: number): FileOps {
+  return {
+    readFile: api.readFile,
+    pathExists: api.pathExists,
+    writeFile: (path, content) => api.writeFile(path, content, undefined, journalId),
+    createFile: (path, content) => api.createFile(path, content, journalId),
+    renameFile: (oldPath, newPath) => api.renameFile(oldPath, newPath, journalId),
+    deleteFile: (path) => api.deleteFile(path, journalId),
+  };
+}
+
+/**
+ * Runs `run` as one undo journal operation labelled `label`, passing it the
+ * `FileOps` to make its changes with and the operation's id. The operation is
+ * ended however `run` finishes; one that changed nothing leaves no entry.
+ */
+export async function withJournal<T>(label: string, run: (ops: FileOps, journalId: number) => Promise<T>): Promise<T> {
+  const journalId = await api.beginJournalOperation(label);
+  try {
+    return await run(journaledFileOps(journalId), journalId);
+  } finally {
+    await api.endJournalOperation(journalId).catch((err: unknown) => {
+      logger.error('Failed to end journal operation:', err);
+    });
+  }
+}
+
+/**
+ * Reverts the newest `count` journal operations and brings the store, .INDEX.yaml
+ * files and Index Tree back in step. When files were changed after the
+ * operations, nothing is undone and the changed files are reported.
+ */
+export async function undoOperations(count: number): Promise<void> {
+  const result = await api.undoJournalOperations(count);
+
+  const folders = new Set<string>();
+  let bookmarksChanged = false;
+  for (const move of result.moves) {
+    if (renameItem(move.oldPath, move.newPath, getFileName(move.newPath))) bookmarksChanged = true;
+    folders.add(getParentPath(move.oldPath));
+    folders.add(getParentPath(move.newPath));
+  }
+  const removed: string[] = [];
+  for (const p of result.paths) {
+    folders.add(getParentPath(p));
+    if (!await api.pathExists(p)) removed.push(p);
+  }
+  if (removed.length > 0) deleteItems(removed);
+  // The Undo Move button's batch names entries that may have just moved back.
+  if (result.moves.length > 0) setUndoableMove(null);
+  if (bookmarksChanged) await api.updateConfig({ settings: getSettings() });
+  await Promise.all([...folders].map(folder => api.reconcileIndexedFiles(folder, false)));
+  for (const folder of folders) await reloadExpandedTreeFolder(folder);
+  if (folders.size > 0) requestDirectoryRefresh();
+
+  const problems: string[] = [];
+  if (result.error) problems.push(result.error);
+  if (result.conflicts.length > 0) {
+    problems.push(`Changed since: ${result.conflicts.join(', ')}.`);
+  }
+  if (problems.length > 0) setAppError(problems.join(' '));
+}
@@ -0,0 +1,74 @@
+/**
+ * Saving an edited file without overwriting changes made to it on disk while it
+ * was being edited (by another program, a sync tool, or the same file open
+ * twice).
+ *
+ * The editor records the file's content and mtime/size when editing starts
+ * (ItemData.editBase). Saves pass that stamp to `writeFile`, which refuses the
+ * write when the file no longer matches it and returns what is on disk instead.
+ * The edits are then merged three ways (see editor/editorMergeUtil.ts): when
+ * the two sides changed different lines the merge is saved straight away;
+ * otherwise the SaveConflictDialog shows it for the user to resolve.
+ */
+import { api } from './api';
+import { threeWayMerge } from './editor/editorMergeUtil';
+import { getItem, setSaveConflict } from '../store';
+import { removeTOC } from '../shared/tocUtil';
+import type { FileWriteResult } from '../shared/shared';
+import type { EditBase } from '../shared/types';
+
+// Resolver for the conflict currently on screen. Module-level rather than in the
+// store because it is a callback, not state; the store holds only the texts.
+let pendingResolution: ((merged: string | null) => void) | null = null;
+
+/**
+ * Called by the SaveConflictDialog with the text to save, or null when the user
+ * cancels the save; closes the dialog.
+ */
+export function resolveSaveConflict(merged: string | null): void {
+  const resolve = pendingResolution;
+  pendingResolution = null;
+  setSaveConflict(null);
+  resolve?.(merged);
+}
+
+function askMerge(path: string, base: string, mine: string, theirs: string): Promise<string | null> {
+  // A second conflict (another file saved meanwhile) cancels the first one's
+  // save rather than leaving it waiting on a dialog that is gone.
+  pendingResolution?.(null);
+  return new Promise((resolve) => {
+    pendingResolution = resolve;
+    setSaveConflict({ path, base, mine, theirs });
+  });
+}
+
+/**
+ * Writes the edit buffer `content` over the file at `path` unless the file has
+ * changed since editing started, in which case the changes are merged first.
+ * Returns the write result, or null when the user cancelled the merge and
+ * nothing was saved. A file with no edit base (not opened through the editor)
+ * is written unconditionally.
+ */
+export async function writeEditedFile(path: string, content: string): Promise<FileWriteResult | null> {
+  let base: EditBase | undefined = getItem(path)?.editBase;
+  let toWrite = content;
+  for (;;) {
+    const result = await api.writeFile(path, toWrite, base && { mtime: base.mtime, size: base.size });
+    if (!result.conflict || !base) return result;
+
+    // The buffer has no generated TOC; compare the file's content without it too.
+    const theirs = result.conflict;
+    const baseText = removeTOC(base.content);
+    const theirText = removeTOC(theirs.content);
+    const merge = threeWayMerge(baseText, toWrite, theirText);
+    if (merge.conflicts === 0) {
+      toWrite = merge.text;
+    } else {
+      const merged = await askMerge(path, baseText, toWrite, theirText);
+      if (merged === null) return null;
+      toWrite = merged;
+    }
+    // Saved over the version just merged with — unless it changed yet again, which goes round once more.
+    base = { content: theirs.content, mtime: theirs.mtime, size: theirs.size };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * The Tasks view's filters: which of the scanned tasks (see main/taskScanner.ts)
+ * are listed, by status, hashtag, due date and folder.
+ */
+import type { TaskItem } from '../shared/shared';
+import { getDaysFromToday } from '../shared/timeUtil';
+import { getParentPath, isPathInside } from './pathUtil';
+
+export type TaskStatusFilter = 'open' | 'done' | 'all';
+
+/** Due-date filters; `week` is today through seven days from now. */
+export type TaskDueFilter = 'any' | 'overdue' | 'today' | 'week' | 'dated' | 'undated';
+
+export interface TaskFilter {
+  status: TaskStatusFilter;
+  /** A hashtag the task must carry, with its `#`; empty for any. */
+  tag: string;
+  due: TaskDueFilter;
+  /** A folder the task's file must be in, at any depth; empty for any. */
+  folder: string;
+}
+
+export const DEFAULT_TASK_FILTER: TaskFilter = { status: 'open', tag: '', due: 'any', folder: '' };
+
+function matchesDue(task: TaskItem, due: TaskDueFilter): boolean {
+  if (due === 'any') return true;
+  if (due === 'undated') return task.due === null;
+  if (task.due === null) return false;
+  if (due === 'dated') return true;
+  const days = getDaysFromToday(task.due);
+  if (due === 'overdue') return days < 0;
+  if (due === 'today') return days === 0;
+  return days >= 0 && days <= 7;
+}
+
+/** The tasks `filter` lets through, in their original order. Hashtags match case-insensitively. */
+export function filterTasks(tasks: TaskItem[], filter: TaskFilter): TaskItem[] {
+  const tag = filter.tag.toLowerCase();
+  return tasks.filter(task =>
+    (filter.status === 'all' || task.done === (filter.status === 'done'))
+    && (!tag || task.tags.some(t => t.toLowerCase() === tag))
+    && matchesDue(task, filter.due)
+    && (!filter.folder || isPathInside(filter.folder, task.filePath)));
+}
+
+/** The hashtags used across `tasks`, once each (first spelling wins), sorted. */
+export function taskTags(tasks: TaskItem[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const task of tasks) {
+    for (const tag of task.tags) {
+      if (!byKey.has(tag.toLowerCase())) byKey.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
+
+/** The folders holding files with tasks, sorted — the choices for the folder filter. */
+export function taskFolders(tasks: TaskItem[]): string[] {
+  return [...new Set(tasks.map(task => getParentPath(task.filePath)))].sort((a, b) => a.localeCompare(b));
+}
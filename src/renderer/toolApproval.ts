@@ -0,0 +1,28 @@
+/**
+ * Renderer side of the approval gate for Agentic Mode writes and deletes (see
+ * main/ai/toolApproval.ts for the main-process half).
+ *
+ * Tool calls waiting for approval arrive over IPC and queue in the store's
+ * `toolApprovals`; the ToolApprovalDialog shows the oldest and answers it
+ * through {@link answerToolApproval}. Calls the main process withdraws (their AI
+ * request was cancelled or ended) leave the queue unanswered.
+ */
+import { api } from './api';
+import { addToolApproval, removeToolApprovals } from '../store';
+import type { ToolApprovalDecision } from '../shared/shared';
+
+/** Start queueing approval requests from the main process. Returns the unsubscribe function. */
+export function watchToolApprovals(): () => void {
+  const offRequest = api.onAiToolApproval(addToolApproval);
+  const offDismissed = api.onAiToolApprovalDismissed(removeToolApprovals);
+  return () => {
+    offRequest();
+    offDismissed();
+  };
+}
+
+/** Send the user's answer to tool call `id` and take it off the queue. */
+export function answerToolApproval(id: number, decision: ToolApprovalDecision): void {
+  removeToolApprovals([id]);
+  api.resolveAiToolApproval(id, decision);
+}
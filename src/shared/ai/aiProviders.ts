@@ -0,0 +1,41 @@
+/**
+ * Provider-specific settings of an AI model entry (server URL, headers and the
+ * API key's environment variable), as the model editor (EditAIModelDialog)
+ * shows and parses them.
+ *
+ * NOTE: This file must NOT import Node.js modules (e.g. 'node:fs') because
+ * it is also bundled into the renderer (browser) process.
+ */
+import type { AIProvider } from '../shared';
+
+/** Whether models of `provider` carry their own server URL (`AIModelConfig.baseUrl`). */
+export function providerHasBaseUrl(provider: AIProvider): boolean {
+  return provider === 'OPENAI_COMPATIBLE' || provider === 'OLLAMA';
+}
+
+/**
+ * Parse the model editor's headers text, one `Name: value` per line, into a
+ * header map. Blank lines are skipped. Returns null when a line has no name
+ * before its colon, so the form can refuse to save it.
+ */
+export function parseHeaderLines(text: string): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue;
+    const colon = line.indexOf(':');
+    const name = colon === -1 ? '' : line.slice(0, colon).trim();
+    if (!name || /\s/.test(name)) return null;
+    headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/** The inverse of {@link parseHeaderLines}: one `Name: value` line per header. */
+export function formatHeaderLines(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+/** Whether `name` can name an environment variable (`OPENROUTER_API_KEY`), as `AIModelConfig.apiKeyEnv` must. */
+export function isEnvVarName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
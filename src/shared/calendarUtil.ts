@@ -3,7 +3,7 @@
  */
 
 import { dump } from 'js-yaml';
-import { splitFrontMatter, setFrontMatterProperty, assembleFrontMatter } from '../shared/frontMatterUtil';
+import { splitFrontMatter, setFrontMatterProperty, removeFrontMatterProperty, assembleFrontMatter } from '../shared/frontMatterUtil';
 import { loadYaml } from '../shared/yamlUtil';
 import type { CalendarEventResult } from '../shared/shared';
 import type { CalendarEvent } from '../shared/types';
@@ -27,13 +27,15 @@ function getCurrentDateStr(): string {
   return `${month}/${day}/${year}`;
 }
 
+/** Format a 24-hour time of day as the `start:` value, e.g. `1:30 PM`. */
+export function formatStartTime(hours: number, minutes: number): string {
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${ampm}`;
+}
+
 function getCurrentTimeStr(): string {
   const now = new Date();
-  let hours = now.getHours();
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12 || 12;
-  return `${hours}:${minutes} ${ampm}`;
+  return formatStartTime(now.getHours(), now.getMinutes());
 }
 
 function getUntilDateStr(): string {
@@ -233,6 +235,27 @@ export function isCalendarFrontMatter(parsed: Record<string, unknown> | null | u
   return !!parsed && parsed.due !== null && coerceDueDate(parsed.due) !== null;
 }
 
+const REMINDER_UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+/**
+ * Parse a reminder lead time — a front-matter `remind:` value or the default
+ * from settings — into minutes before the item starts: `15m`, `2h`, `1d`, `1w`,
+ * or a bare number of minutes. `0`, `off`, `none` and `false` turn the reminder
+ * off and give null. Anything else, absence included, gives undefined, so the
+ * caller falls back to the default.
+ */
+export function parseReminderLead(value: unknown): number | null | undefined {
+  if (value === false) return null;
+  if (typeof value === 'number') return value === 0 ? null : value > 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().toLowerCase();
+  if (text === 'off' || text === 'none') return null;
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdw]?)$/.exec(text);
+  if (!match) return undefined;
+  const minutes = Number(match[1]) * REMINDER_UNIT_MINUTES[match[2] || 'm']!;
+  return minutes === 0 ? null : minutes;
+}
+
 /** Format a Date as `M/D/YYYY` (the on-disk due string format). */
 export function formatDueDate(date: Date): string {
   const m = date.getMonth() + 1;
@@ -244,9 +267,36 @@ export function formatDueDate(date: Date): string {
 export interface RRuleProps {
   freq?: string;
   interval?: string;
+  /** Weekday codes, optionally numbered within the month or year (`2TU`, `-1FR`). */
   byday?: string;
   until?: string;
   count?: string;
+  /** Days of the month, comma-separated; negative counts from the end (`-1` is the last day). */
+  bymonthday?: string;
+  /** Which of the days the rule picks in each period to keep (`-1` with `byday: FR` is the last Friday). */
+  bysetpos?: string;
+  /** The day weeks start on, which decides which weeks `interval` skips. */
+  wkst?: string;
+  /** Occurrence days (`M/D/YYYY`) skipped by the rule. */
+  exdate?: string[];
+  /** Occurrences with their own day, time, duration or title. */
+  overrides?: OccurrenceOverride[];
+}
+
+/**
+ * One changed occurrence of a recurring item, an entry of `rrule.overrides`.
+ * Fields left out keep the series' values.
+ */
+export interface OccurrenceOverride {
+  /** The day (`M/D/YYYY`) the rule puts the occurrence on; identifies it. */
+  date: string;
+  /** The day it moved to. */
+  due?: string;
+  start?: string;
+  duration?: string;
+  title?: string;
+  /** The occurrence is all-day, though the series has a start time. */
+  allday?: boolean;
 }
 
 /**
@@ -288,9 +338,41 @@ export function getRRuleProperty(content: string): RRuleProps | null {
     byday: scalarFieldToString(r.byday),
     until: scalarFieldToString(r.until),
     count: scalarFieldToString(r.count),
+    bymonthday: scalarFieldToString(r.bymonthday),
+    bysetpos: scalarFieldToString(r.bysetpos),
+    wkst: scalarFieldToString(r.wkst),
+    exdate: exdateList(r.exdate),
+    overrides: overrideList(r.overrides),
   };
 }
 
+/** The `overrides:` entries that name the occurrence they change (`date`); others are ignored. */
+function overrideList(value: unknown): OccurrenceOverride[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const overrides: OccurrenceOverride[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const e = entry as Record<string, unknown>;
+    const date = scalarFieldToString(e.date);
+    if (!date) continue;
+    const override: OccurrenceOverride = { date };
+    for (const key of ['due', 'start', 'duration', 'title'] as const) {
+      const v = scalarFieldToString(e[key]);
+      if (v) override[key] = v;
+    }
+    if (e.allday === true) override.allday = true;
+    overrides.push(override);
+  }
+  return overrides.length > 0 ? overrides : undefined;
+}
+
+/** The `exdate:` entries as strings: a YAML list, or a single comma-separated value. */
+function exdateList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const dates = items.map(scalarFieldToString).filter((d): d is string => !!d);
+  return dates.length > 0 ? dates : undefined;
+}
+
 /** Coerce a numeric-looking string to a YAML number, else leave it a string. */
 function numericOrString(value: string): number | string {
   const n = Number(value);
@@ -304,6 +386,14 @@ function buildRRuleBlock(rrule: RRuleProps): string {
   if (rrule.byday) lines.push(`  byday: ${rrule.byday}`);
   if (rrule.until) lines.push(`  until: ${rrule.until}`);
   if (rrule.count) lines.push(`  count: ${rrule.count}`);
+  if (rrule.bymonthday) lines.push(`  bymonthday: ${rrule.bymonthday}`);
+  if (rrule.bysetpos) lines.push(`  bysetpos: ${rrule.bysetpos}`);
+  if (rrule.wkst) lines.push(`  wkst: ${rrule.wkst}`);
+  if (rrule.exdate?.length) lines.push('  exdate:', ...rrule.exdate.map(d => `    - ${d}`));
+  if (rrule.overrides?.length) {
+    const list = dump(rrule.overrides.map(overrideObject), { lineWidth: -1 }).trimEnd();
+    lines.push('  overrides:', ...list.split('\n').map(l => `    ${l}`));
+  }
   return lines.join('\n');
 }
 
@@ -317,6 +407,22 @@ function buildRRuleObject(rrule: RRuleProps): Record<string, unknown> {
   if (rrule.byday) obj.byday = rrule.byday;
   if (rrule.until) obj.until = rrule.until;
   if (rrule.count) obj.count = numericOrString(rrule.count);
+  if (rrule.bymonthday) obj.bymonthday = numericOrString(rrule.bymonthday);
+  if (rrule.bysetpos) obj.bysetpos = numericOrString(rrule.bysetpos);
+  if (rrule.wkst) obj.wkst = rrule.wkst;
+  if (rrule.exdate?.length) obj.exdate = rrule.exdate;
+  if (rrule.overrides?.length) obj.overrides = rrule.overrides.map(overrideObject);
+  return obj;
+}
+
+/** An override as written under `overrides:`, with `duration` a YAML number and `start` quoted by dump(). */
+function overrideObject(override: OccurrenceOverride): Record<string, unknown> {
+  const obj: Record<string, unknown> = { date: override.date };
+  if (override.due) obj.due = override.due;
+  if (override.allday) obj.allday = true;
+  if (override.start) obj.start = override.start;
+  if (override.duration) obj.duration = numericOrString(override.duration);
+  if (override.title) obj.title = override.title;
   return obj;
 }
 
@@ -358,6 +464,140 @@ export function setRRuleProperty(content: string, rrule: RRuleProps | null): str
   return assembleFrontMatter(dumped, parsed.body);
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days from `from`'s local date to `to`'s (DST-safe: a 23- or 25-hour day still counts as one). */
+function daysBetween(from: Date, to: Date): number {
+  const a = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const b = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((b.getTime() - a.getTime()) / DAY_MS);
+}
+
+/** The length of a slot as a `duration:` value: hours to two decimals, or the default hour for an empty slot. */
+function slotDuration(start: Date, end: Date): string {
+  const hours = Math.round((end.getTime() - start.getTime()) / (60 * 60 * 1000) * 100) / 100;
+  return String(hours > 0 ? hours : 1);
+}
+
+/**
+ * Writes a new time slot into a calendar item's front matter: `due` from `start`,
+ * and for a timed slot `start` and `duration` (hours, to two decimals). An all-day
+ * slot drops `start` and `duration`. A slot with no length — an all-day item
+ * dragged into the time grid — lasts the default hour.
+ */
+export function rescheduleCalendarItem(content: string, start: Date, end: Date, allDay: boolean): string {
+  let newContent = setDueProperty(content, formatDueDate(start));
+  if (allDay) {
+    newContent = removeFrontMatterProperty(newContent, 'start');
+    return removeFrontMatterProperty(newContent, 'duration');
+  }
+  newContent = setStartProperty(newContent, formatStartTime(start.getHours(), start.getMinutes()));
+  return setDurationProperty(newContent, slotDuration(start, end));
+}
+
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/** Moves an `M/D/YYYY` day string by `days`; anything unparseable is kept as written. */
+function shiftDayStr(day: string, days: number): string {
+  const date = parseDueStr(day);
+  return date ? formatDueDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)) : day;
+}
+
+/**
+ * Moves a `bymonthday` day by `days`, a day at a time, wrapping within the month:
+ * 31 a day later is the 1st, the 1st a day earlier is the last day (-1), and the
+ * last day a day later is the 1st.
+ */
+function shiftMonthDay(day: number, days: number): number {
+  const step = Math.sign(days);
+  let moved = day;
+  for (let i = 0; i < Math.abs(days); i++) {
+    moved += step;
+    if (moved === 0) moved = step;
+    else if (moved === 32) moved = 1;
+    else if (moved === -32) moved = -1;
+  }
+  return moved;
+}
+
+/**
+ * Moves a whole recurring series so that its `occurrence` (the day the rule puts
+ * it on) lands on `start`–`end`: `due` shifts by the same number of days, the
+ * time and length become the new slot's, weekly `byday` codes turn with it (a
+ * MO/WE series moved a day later becomes TU/TH), as do `bymonthday` days (a
+ * monthly series on the 15th becomes one on the 16th), and excluded and changed
+ * occurrences move along. `until` and `count` are left as they are.
+ */
+export function shiftCalendarSeries(content: string, occurrence: Date, start: Date, end: Date, allDay: boolean): string {
+  const due = parseDueStr(getDueProperty(content) ?? '');
+  if (!due) return content;
+  const shift = daysBetween(occurrence, start);
+  const newDue = new Date(due.getFullYear(), due.getMonth(), due.getDate() + shift);
+  const newStart = new Date(newDue.getFullYear(), newDue.getMonth(), newDue.getDate(), start.getHours(), start.getMinutes());
+  const newEnd = new Date(newStart.getTime() + (end.getTime() - start.getTime()));
+  const newContent = rescheduleCalendarItem(content, newStart, newEnd, allDay);
+
+  const rrule = getRRuleProperty(newContent);
+  if (!rrule?.freq || shift === 0) return newContent;
+  const turned = { ...rrule };
+  if (rrule.byday && shift % 7 !== 0) {
+    turned.byday = rrule.byday.split(',').map((code) => {
+      const m = /^([+-]?\d{1,2})?([A-Za-z]{2})$/.exec(code.trim());
+      const i = WEEKDAY_CODES.indexOf(m?.[2]?.toUpperCase() ?? '');
+      return i < 0 ? code.trim() : `${m?.[1] ?? ''}${WEEKDAY_CODES[(((i + shift) % 7) + 7) % 7]}`;
+    }).join(',');
+  }
+  if (rrule.bymonthday) {
+    turned.bymonthday = rrule.bymonthday.split(',').map((entry) => {
+      const day = Number(entry.trim());
+      return Number.isInteger(day) && day !== 0 && Math.abs(day) <= 31 ? String(shiftMonthDay(day, shift)) : entry.trim();
+    }).join(',');
+  }
+  turned.exdate = rrule.exdate?.map(d => shiftDayStr(d, shift));
+  turned.overrides = rrule.overrides?.map(o => ({ ...o, date: shiftDayStr(o.date, shift), due: o.due && shiftDayStr(o.due, shift) }));
+  return setRRuleProperty(newContent, turned);
+}
+
+/** Same day test for `M/D/YYYY` strings written differently (`3/9/2026` and `03/09/2026`). */
+function isSameDayStr(a: string, b: string): boolean {
+  const da = parseDueStr(a);
+  return da !== null && da.getTime() === parseDueStr(b)?.getTime();
+}
+
+/** Adds the day of `occurrence` to the item's `rrule.exdate` list, so the series skips it. */
+export function excludeOccurrence(content: string, occurrence: Date): string {
+  const rrule = getRRuleProperty(content);
+  if (!rrule?.freq) return content;
+  const day = formatDueDate(occurrence);
+  const exdate = rrule.exdate ?? [];
+  if (exdate.some(d => isSameDayStr(d, day))) return content;
+  const overrides = rrule.overrides?.filter(o => !isSameDayStr(o.date, day));
+  return setRRuleProperty(content, { ...rrule, exdate: [...exdate, day], overrides });
+}
+
+/**
+ * Moves the single `occurrence` (the day the rule puts it on) of a recurring
+ * item to `start`–`end`, as an entry of `rrule.overrides`. A title the
+ * occurrence already had is kept; its day, time and length are replaced.
+ */
+export function rescheduleOccurrence(content: string, occurrence: Date, start: Date, end: Date, allDay: boolean): string {
+  const rrule = getRRuleProperty(content);
+  if (!rrule?.freq) return content;
+  const date = formatDueDate(occurrence);
+  const previous = rrule.overrides?.find(o => isSameDayStr(o.date, date));
+  const override: OccurrenceOverride = { date };
+  if (daysBetween(occurrence, start) !== 0) override.due = formatDueDate(start);
+  if (allDay) {
+    override.allday = true;
+  } else {
+    override.start = formatStartTime(start.getHours(), start.getMinutes());
+    override.duration = slotDuration(start, end);
+  }
+  if (previous?.title) override.title = previous.title;
+  const others = (rrule.overrides ?? []).filter(o => o !== previous);
+  return setRRuleProperty(content, { ...rrule, overrides: [...others, override] });
+}
+
 /**
  * Injects calendar front matter into the given markdown content.
  * Pass repeating=true to include the rrule block.
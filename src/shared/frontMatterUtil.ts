@@ -117,6 +117,27 @@ export function setFrontMatterProperty(content: string, key: string, value: unkn
   return assembleFrontMatter(dump(yaml, { lineWidth: -1 }), parts.body);
 }
 
+/**
+ * Removes a single top-level property from a document's front matter, with the same
+ * parse/dump round trip and refusal rules as {@link setFrontMatterProperty}. Content
+ * without the property is returned unchanged; front matter left empty is dropped.
+ */
+export function removeFrontMatterProperty(content: string, key: string): string {
+  const parts = splitFrontMatter(content);
+  if (!parts) return content;
+  let parsed: unknown;
+  try {
+    parsed = loadYaml(parts.yamlStr) ?? {};
+  } catch {
+    return content;
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) return content;
+  const yaml = parsed as Record<string, unknown>;
+  if (!Object.prototype.hasOwnProperty.call(yaml, key)) return content;
+  delete yaml[key];
+  return assembleFrontMatter(Object.keys(yaml).length ? dump(yaml, { lineWidth: -1 }) : '', parts.body);
+}
+
 /** Returns all front matter properties except 'tags', preserving their parsed types. */
 export function getPropsFromYaml(yamlStr: string): Record<string, unknown> {
   try {
@@ -0,0 +1,84 @@
+/**
+ * Small fuzzy string matching helpers for "did you mean" style suggestions
+ * and completion ranking. All matching is case-insensitive. Similarity scores
+ * are normalized to 0..1, so callers can apply a single threshold regardless
+ * of string length; subsequence scores only order candidates for one query.
+ */
+
+/** Levenshtein edit distance between `a` and `b` (insert, delete, substitute). */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  // Single-row dynamic programming: prev[j] is the distance between the first
+  // i-1 chars of a and the first j chars of b.
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/** Case-insensitive similarity of `a` and `b`: 1 for equal strings, 0 for nothing in common. */
+export function similarity(a: string, b: string): number {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(x, y) / longest;
+}
+
+/**
+ * The candidates most similar to `query`, best first, keeping only those
+ * scoring at least `minScore`. Ties keep the candidates' input order.
+ */
+export function closestMatches<T>(
+  query: string,
+  candidates: readonly T[],
+  keyOf: (candidate: T) => string,
+  { limit = 3, minScore = 0.6 }: { limit?: number; minScore?: number } = {},
+): T[] {
+  return candidates
+    .map(candidate => ({ candidate, score: similarity(query, keyOf(candidate)) }))
+    .filter(m => m.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(m => m.candidate);
+}
+
+/** Characters after which a match counts as the start of a word. */
+const WORD_SEPARATORS = new Set(['/', '\\', '-', '_', ' ', '.']);
+
+/**
+ * How well `text` matches `query` typed as an abbreviation, as completion
+ * popups match: every query character must appear in `text` in order
+ * (case-insensitively), or the result is null. Matches at the start of a word
+ * and runs of consecutive matches score higher, so `mnot` prefers
+ * `meeting-notes` to `maintenance-protocol`. An empty query scores 0.
+ */
+export function subsequenceScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (q.length === 0) return 0;
+  const charScore = (j: number) => (j === 0 || WORD_SEPARATORS.has(t[j - 1]!) ? 3 : 1);
+  // prev[j] is the best score for the query so far with its last character
+  // matched at t[j], or -Infinity when it can't end there.
+  let prev = Array.from({ length: t.length }, (_, j) => (t[j] === q[0] ? charScore(j) : -Infinity));
+  for (let i = 1; i < q.length; i++) {
+    const row = new Array<number>(t.length).fill(-Infinity);
+    let bestBefore = -Infinity;
+    for (let j = 1; j < t.length; j++) {
+      if (j >= 2) bestBefore = Math.max(bestBefore, prev[j - 2]!);
+      if (t[j] !== q[i]) continue;
+      row[j] = charScore(j) + Math.max(prev[j - 1]! + 2, bestBefore);
+    }
+    prev = row;
+  }
+  const best = prev.reduce((a, b) => Math.max(a, b), -Infinity);
+  return best === -Infinity ? null : best;
+}
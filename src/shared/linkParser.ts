@@ -0,0 +1,133 @@
+/**
+ * Extracts the links a markdown document makes to other files: wikilinks
+ * (`[[target]]`, `[[target#section|alias]]`, embeds `![[target]]`) and inline
+ * markdown links/images with a relative or absolute path (`[text](../a.md#x)`,
+ * `![alt](img.png)`).
+ *
+ * Pure string processing with no Node or DOM dependency, so the main process
+ * (link index, rename rewriting) and the renderer can share one notion of "what
+ * is a link" — the same role tocUtil.ts plays for headings. Links inside fenced
+ * code blocks and inline code spans are not links, matching what react-markdown
+ * renders; external URLs (anything with a scheme) are skipped since they never
+ * point at a file in the vault.
+ */
+
+export interface ParsedLink {
+  /** 'wiki' for `[[...]]`, 'markdown' for `[...](...)`. */
+  kind: 'wiki' | 'markdown';
+  /** True for the `!` forms: `![[...]]` transclusions and `![...](...)` images. */
+  embed: boolean;
+  /** The path part, percent-decoded for markdown links. '' for a same-document
+   * `#anchor` link. */
+  target: string;
+  /** The part after `#` (without it), or null when there is none. */
+  anchor: string | null;
+  /** Wikilink alias (after `|`) or markdown link text; null for a bare wikilink. */
+  alias: string | null;
+  /** 1-based line number of the link. */
+  line: number;
+  /** Offsets of the whole link syntax (`start` inclusive, `end` exclusive). */
+  start: number;
+  end: number;
+  /** Offsets of the raw target text — path and `#anchor`, undecoded, without a
+   * wikilink alias or markdown `<>`/title — i.e. the span to replace to retarget
+   * the link. */
+  targetStart: number;
+  targetEnd: number;
+}
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const WIKI_LINK_RE = /(!?)\[\[([^[\]\n]+)\]\]/g;
+// [text](dest "title") — dest either <bracketed> or a run without spaces/parens.
+const MARKDOWN_LINK_RE = /(!?)\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^)\s]+)(?:\s+(?:"[^"\n]*"|'[^'\n]*'))?\s*\)/g;
+const SCHEME_RE = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Replace inline code spans with spaces so their contents can't match, while
+ * keeping every other character at its original offset. */
+function maskInlineCode(line: string): string {
+  return line.replace(/(`+)(?:(?!\1)[\s\S])+?\1/g, m => ' '.repeat(m.length));
+}
+
+function decodeTarget(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** Split `path#anchor` at the first `#`. */
+function splitAnchor(raw: string): { path: string; anchor: string | null } {
+  const hash = raw.indexOf('#');
+  if (hash === -1) return { path: raw, anchor: null };
+  return { path: raw.slice(0, hash), anchor: raw.slice(hash + 1) };
+}
+
+/**
+ * Every file link in `content`, in document order. Front matter is treated as
+ * ordinary text (a `[[link]]` there is still a link, as Obsidian treats it).
+ */
+export function parseLinks(content: string): ParsedLink[] {
+  const links: ParsedLink[] = [];
+  let offset = 0;
+  let fence: string | null = null;
+  content.split('\n').forEach((rawLine, i) => {
+    const lineStart = offset;
+    offset += rawLine.length + 1;
+
+    const fenceMatch = FENCE_RE.exec(rawLine);
+    if (fence !== null) {
+      // A fence closes on a line of the same character at least as long.
+      if (fenceMatch?.[1] && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      return;
+    }
+    if (fenceMatch?.[1]) {
+      fence = fenceMatch[1];
+      return;
+    }
+
+    const line = maskInlineCode(rawLine);
+    for (const m of line.matchAll(WIKI_LINK_RE)) {
+      const inner = m[2] ?? '';
+      const pipe = inner.indexOf('|');
+      const rawTarget = pipe === -1 ? inner : inner.slice(0, pipe);
+      const { path, anchor } = splitAnchor(rawTarget.trim());
+      const innerStart = lineStart + m.index + (m[1] ?? '').length + 2;
+      const leading = rawTarget.length - rawTarget.trimStart().length;
+      links.push({
+        kind: 'wiki',
+        embed: m[1] === '!',
+        target: path.trim(),
+        anchor,
+        alias: pipe === -1 ? null : inner.slice(pipe + 1).trim(),
+        line: i + 1,
+        start: lineStart + m.index,
+        end: lineStart + m.index + m[0].length,
+        targetStart: innerStart + leading,
+        targetEnd: innerStart + rawTarget.trimEnd().length,
+      });
+    }
+    for (const m of line.matchAll(MARKDOWN_LINK_RE)) {
+      const dest = m[3] ?? '';
+      const bracketed = dest.startsWith('<');
+      const rawTarget = bracketed ? dest.slice(1, -1) : dest;
+      if (SCHEME_RE.test(rawTarget)) continue;
+      const { path, anchor } = splitAnchor(rawTarget);
+      const destStart = lineStart + m.index + m[0].indexOf(dest, (m[1] ?? '').length + (m[2] ?? '').length + 2);
+      const targetStart = destStart + (bracketed ? 1 : 0);
+      links.push({
+        kind: 'markdown',
+        embed: m[1] === '!',
+        target: decodeTarget(path),
+        anchor: anchor === null ? null : decodeTarget(anchor),
+        alias: m[2] ?? '',
+        line: i + 1,
+        start: lineStart + m.index,
+        end: lineStart + m.index + m[0].length,
+        targetStart,
+        targetEnd: targetStart + rawTarget.length,
+      });
+    }
+  });
+  return links.sort((a, b) => a.start - b.start);
+}
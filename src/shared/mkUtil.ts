@@ -5,8 +5,15 @@ export function preprocessMathEscapes(content: string): string {
 }
 
 /** URL schemes we allow markdown links to use. `file`/`local-file` are needed
- *  for this app's local-file links, which react-markdown would otherwise strip. */
-const ALLOWED_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'file', 'local-file']);
+ *  for this app's local-file links, which react-markdown would otherwise strip;
+ *  `wikilink` and `wikiembed` mark the links and embeds preprocessWikiLinks produces. */
+const ALLOWED_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'file', 'local-file', 'wikilink', 'wikiembed']);
+
+/** Href prefix of a rendered wikilink; see {@link preprocessWikiLinks}. */
+export const WIKILINK_HREF_PREFIX = 'wikilink:';
+
+/** Image src prefix of an embedded note; see {@link preprocessWikiLinks}. */
+export const WIKIEMBED_SRC_PREFIX = 'wikiembed:';
 
 /**
  * Sanitizer for react-markdown's `urlTransform`. react-markdown's built-in
@@ -35,28 +42,83 @@ export function stripHtmlComments(content: string): string {
   return content.replace(/<!--[\s\S]*?-->/g, '');
 }
 
+/** `target#section` URI-encoded part by part, as wikilink hrefs and embed srcs carry it. */
+function encodeWikiTarget(target: string): string {
+  const hash = target.indexOf('#');
+  return hash === -1
+    ? encodeURIComponent(target)
+    : `${encodeURIComponent(target.slice(0, hash))}#${encodeURIComponent(target.slice(hash + 1))}`;
+}
+
+/** Whether the embed `target` (with any `#section`) names a note rather than an image or other file. */
+function isNoteTarget(target: string): boolean {
+  const file = target.split('#')[0] ?? '';
+  const ext = /\.([^./\\]+)$/.exec(file)?.[1]?.toLowerCase();
+  return ext === undefined || ext === 'md';
+}
+
 /**
  * Preprocess wikilinks: convert [[target]] and [[target|alias]] syntax
- * into standard markdown links before rendering.
+ * into standard markdown links before rendering. The href carries the target
+ * and section URI-encoded behind {@link WIKILINK_HREF_PREFIX}, so CustomAnchor
+ * can tell a wikilink apart and resolve it by name (see WikiLink.tsx) rather
+ * than as a path relative to the file.
  *
  * Supports:
- *   [[file]]              → [file](file)
- *   [[file|description]]  → [description](file)
- *   [[file#section]]      → [file#section](file#section)
- *   [[file#section|desc]] → [desc](file#section)
+ *   [[file]]              → [file](wikilink:file)
+ *   [[file|description]]  → [description](wikilink:file)
+ *   [[file#section]]      → [file#section](wikilink:file#section)
+ *   [[file#section|desc]] → [desc](wikilink:file#section)
+ *
+ * Embeds of a note (`![[note]]`, `![[note#section]]`) become images whose src
+ * is behind {@link WIKIEMBED_SRC_PREFIX}, which MarkdownView renders as the
+ * note's content (see NoteEmbed.tsx). Other embeds (`![[image.png]]`) become
+ * plain images, `![image.png](image.png)`, resolved like any other markdown image.
  */
 export function preprocessWikiLinks(content: string): string {
-  return content.replace(/\[\[([^\]]+)\]\]/g, (_match, inner: string) => {
+  return content.replace(/(!?)\[\[([^\]]+)\]\]/g, (_match, bang: string, inner: string) => {
     const pipeIndex = inner.indexOf('|');
-    if (pipeIndex !== -1) {
-      const target = inner.slice(0, pipeIndex).trim();
-      const alias = inner.slice(pipeIndex + 1).trim();
-      return `[${alias}](${target})`;
+    const target = (pipeIndex === -1 ? inner : inner.slice(0, pipeIndex)).trim();
+    const text = pipeIndex === -1 ? inner : inner.slice(pipeIndex + 1).trim();
+    if (bang) {
+      return isNoteTarget(target) ? `![${text}](${WIKIEMBED_SRC_PREFIX}${encodeWikiTarget(target)})` : `![${text}](${target})`;
     }
-    return `[${inner}](${inner})`;
+    return `[${text}](${WIKILINK_HREF_PREFIX}${encodeWikiTarget(target)})`;
   });
 }
 
+/** The target and section behind `prefix` in `href`, or null when `href` doesn't start with it. */
+function parseWikiTarget(prefix: string, href: string): { target: string; anchor: string | null } | null {
+  if (!href.startsWith(prefix)) return null;
+  const rest = href.slice(prefix.length);
+  const hash = rest.indexOf('#');
+  const decode = (part: string) => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return part;
+    }
+  };
+  if (hash === -1) return { target: decode(rest), anchor: null };
+  return { target: decode(rest.slice(0, hash)), anchor: decode(rest.slice(hash + 1)) };
+}
+
+/**
+ * The target and section of a wikilink href produced by
+ * {@link preprocessWikiLinks}, or null for any other href.
+ */
+export function parseWikiLinkHref(href: string): { target: string; anchor: string | null } | null {
+  return parseWikiTarget(WIKILINK_HREF_PREFIX, href);
+}
+
+/**
+ * The note and section of an embed src produced by
+ * {@link preprocessWikiLinks}, or null for any other image src.
+ */
+export function parseWikiEmbedSrc(src: string): { target: string; anchor: string | null } | null {
+  return parseWikiTarget(WIKIEMBED_SRC_PREFIX, src);
+}
+
 /**
  * A single column's text after splitting on `|||` delimiters.
  * `lineOffset` is the 0-based line index in the original content where this
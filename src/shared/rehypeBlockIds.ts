@@ -0,0 +1,75 @@
+import type { Nodes, Element, ElementContent } from 'hast';
+
+/**
+ * Local rehype plugin: block references (`^block-id`).
+ *
+ * A paragraph or list item ending in ` ^my-id` is the target of
+ * `[[note#^my-id]]`: the marker is removed from the rendered text and becomes
+ * the element's `id` (`^my-id`, the anchor as written), so the link can scroll
+ * to it the way heading links scroll to rehype-slug's ids. A paragraph holding
+ * nothing but `^my-id` — written on its own line after a list, table or quote
+ * — is dropped and gives its id to the block just before it.
+ *
+ * The line-level counterpart, used to read a block's text out of a file, is
+ * extractBlock in tocUtil.ts. Same manual tree walk as rehypeCallouts.
+ */
+
+// `^` and the id at the very end of the text, after whitespace or nothing at all.
+const MARKER_RE = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+export function rehypeBlockIds() {
+  return (tree: Nodes) => {
+    walk(tree);
+  };
+}
+
+function walk(node: Nodes): void {
+  if (!('children' in node) || !Array.isArray(node.children)) return;
+  const kept: ElementContent[] = [];
+  for (const child of node.children as ElementContent[]) {
+    if (child.type === 'element') {
+      walk(child);
+      const standalone = child.tagName === 'p' ? loneMarker(child) : null;
+      if (standalone !== null) {
+        const previous = [...kept].reverse().find((c): c is Element => c.type === 'element');
+        if (previous) {
+          previous.properties = { ...previous.properties, id: `^${standalone}` };
+          continue;
+        }
+      }
+      if (child.tagName === 'p' || child.tagName === 'li') {
+        const id = takeTrailingMarker(child);
+        if (id !== null) child.properties = { ...child.properties, id: `^${id}` };
+      }
+    }
+    kept.push(child);
+  }
+  node.children = kept as typeof node.children;
+}
+
+/** The id of a paragraph whose only content is `^id`, or null. */
+function loneMarker(paragraph: Element): string | null {
+  const content = paragraph.children.filter(c => !(c.type === 'text' && c.value.trim() === ''));
+  const only = content.length === 1 ? content[0] : undefined;
+  if (only?.type !== 'text') return null;
+  return /^\s*\^([A-Za-z0-9-]+)\s*$/.exec(only.value)?.[1] ?? null;
+}
+
+/**
+ * Removes a trailing ` ^id` from the element's own text — the last text before
+ * any nested list, for a list item — and returns the id, or null if there is none.
+ */
+function takeTrailingMarker(element: Element): string | null {
+  for (let i = element.children.length - 1; i >= 0; i--) {
+    const child = element.children[i]!;
+    if (child.type === 'element' && (child.tagName === 'ul' || child.tagName === 'ol')) continue;
+    if (child.type === 'text' && child.value.trim() === '') continue;
+    if (child.type !== 'text') return null;
+    const match = MARKER_RE.exec(child.value);
+    if (!match) return null;
+    child.value = child.value.slice(0, match.index);
+    if (child.value === '') element.children.splice(i, 1);
+    return match[1] ?? null;
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import type { Nodes, Element } from 'hast';
+import { WIKIEMBED_SRC_PREFIX } from './mkUtil';
+
+/**
+ * Local rehype plugin: lets note embeds (`![[note]]`) render as blocks.
+ *
+ * preprocessWikiLinks turns a note embed into an image with a `wikiembed:` src,
+ * and markdown puts an image inside a paragraph. The embedded note is block
+ * content (headings, lists, more paragraphs), which can't sit inside a `<p>`,
+ * so a paragraph holding nothing but one embed is replaced by the embed itself,
+ * marked `data-note-embed="block"` for the image renderer. An embed written
+ * inside running text stays inline, unmarked, and is rendered as a link.
+ *
+ * Same manual tree walk as rehypeCallouts.
+ */
+export function rehypeNoteEmbeds() {
+  return (tree: Nodes) => {
+    walk(tree);
+  };
+}
+
+function walk(node: Nodes): void {
+  if (!('children' in node) || !Array.isArray(node.children)) return;
+  node.children = node.children.map((child) => {
+    const embed = child.type === 'element' ? loneEmbed(child) : null;
+    if (embed) {
+      embed.properties = { ...embed.properties, dataNoteEmbed: 'block' };
+      return embed;
+    }
+    walk(child as Nodes);
+    return child;
+  }) as typeof node.children;
+}
+
+/** The embed image a paragraph consists of, ignoring whitespace around it, or null. */
+function loneEmbed(element: Element): Element | null {
+  if (element.tagName !== 'p') return null;
+  const content = element.children.filter(c => !(c.type === 'text' && c.value.trim() === ''));
+  const only = content.length === 1 ? content[0] : undefined;
+  if (only?.type !== 'element' || only.tagName !== 'img') return null;
+  const src = only.properties.src;
+  return typeof src === 'string' && src.startsWith(WIKIEMBED_SRC_PREFIX) ? only : null;
+}
@@ -3,6 +3,8 @@
  * process or the renderer. The renderer-only helpers that touch the store / IPC
  * live in `searchUtil.ts`.
  */
+import { escapeRegexLiteral } from './pathPattern';
+import type { ReplaceOptions } from './shared';
 
 /**
  * Parse a newline-delimited ignored-paths string into a trimmed, non-empty array.
@@ -75,3 +77,37 @@ export function buildReplaceResultMessage(results: Array<{ success: boolean; rep
 
   return message;
 }
+
+/**
+ * The global regex Replace in Files searches with. Literal text is escaped; a
+ * regex search is multiline, so `^` and `$` match at line ends as they would in
+ * an editor. Whole-word mode requires no word character (`\w`) on either side.
+ * Throws a SyntaxError for an invalid regular expression.
+ */
+export function buildReplaceRegex(options: Pick<ReplaceOptions, 'searchText' | 'regex' | 'ignoreCase' | 'wholeWord'>): RegExp {
+  let source = options.regex ? options.searchText : escapeRegexLiteral(options.searchText);
+  if (options.wholeWord) source = `(?<!\\w)(?:${source})(?!\\w)`;
+  return new RegExp(source, `g${options.regex ? 'm' : ''}${options.ignoreCase ? 'i' : ''}`);
+}
+
+/**
+ * The text a regex match is replaced with: `template` with `$1`…`$99`, `$<name>`,
+ * `$&`, `` $` ``, `$'` and `$$` expanded as `String.prototype.replace` would. Done
+ * per match rather than by `replace` itself so a match can be left unreplaced.
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+  const groupCount = match.length - 1;
+  return template.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token: string, spec: string, name: string | undefined) => {
+    if (spec === '$') return '$';
+    if (spec === '&') return match[0];
+    if (spec === '`') return match.input.slice(0, match.index);
+    if (spec === "'") return match.input.slice(match.index + match[0].length);
+    if (name !== undefined) return match.groups ? (match.groups[name] ?? '') : token;
+    // `$12` is group 12 when there is one, else group 1 followed by "2".
+    const two = Number(spec);
+    if (spec.length === 2 && two >= 1 && two <= groupCount) return match[two] ?? '';
+    const one = Number(spec[0]);
+    if (one >= 1 && one <= groupCount) return (match[one] ?? '') + spec.slice(1);
+    return token;
+  });
+}
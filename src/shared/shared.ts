@@ -8,11 +8,13 @@ export type ImageSize = 'small' | 'medium' | 'large';
 export const DEFAULT_IMAGE_SIZE: ImageSize = 'medium';
 export type SortOrder = 'alphabetical' | 'created-chron' | 'created-reverse' | 'modified-chron' | 'modified-reverse';
 export type ContentWidth = 'narrow' | 'medium' | 'wide' | 'full';
+/** Key bindings of the CodeMirror editor: its own, or a Vim or Emacs emulation. */
+export type EditorKeymap = 'default' | 'vim' | 'emacs';
 /** Folder tree sidebar visibility and width options. */
 export type IndexTreeWidth = 'hidden' | 'narrow' | 'medium' | 'wide';
 export type SearchMode = 'content' | 'filenames';
 export type SearchType = 'literal' | 'wildcard' | 'advanced';
-export type SearchSortBy = 'modified-time' | 'created-time' | 'file-name';
+export type SearchSortBy = 'modified-time' | 'created-time' | 'file-name' | 'relevance';
 export type SearchSortDirection = 'asc' | 'desc';
 
 /**
@@ -116,6 +118,20 @@ export interface AppSettings {
   ocrToolsFolder: string;
   /** Folder path where new calendar item files are created. */
   calendarItemsFolder: string;
+  /**
+   * How long before a calendar item a desktop reminder is shown when the item
+   * has no `remind:` of its own (`15m`, `1d`, …). Empty for no default reminder.
+   */
+  defaultReminder: string;
+  /**
+   * Keep a compressed copy of a file's previous content each time it is saved
+   * in the app, for the History panel (see main/fileHistory.ts).
+   */
+  fileHistory: boolean;
+  /** Most versions kept per file; 0 for no limit. */
+  fileHistoryMaxVersions: number;
+  /** Days a version is kept after it was replaced; 0 for no limit. */
+  fileHistoryMaxDays: number;
   /** Folder tree sidebar visibility and width. */
   indexTreeWidth: IndexTreeWidth;
   /** Whether to show front matter (Properties) in the editor. */
@@ -138,13 +154,27 @@ export interface AppSettings {
    * happens while the user types.
    */
   enableThesaurus: boolean;
+  /**
+   * Key bindings of the editor (see renderer/editor/editorKeymapUtil.ts). The
+   * app's own Ctrl-S/Ctrl-Q/Ctrl-T/Ctrl-D bindings take precedence in every mode.
+   */
+  editorKeymap: EditorKeymap;
+  /**
+   * Live preview in the Markdown editor (see renderer/editor/editorLivePreviewUtil.ts):
+   * markup is hidden and rendered on every line but the cursor's. Toggled from the
+   * editor's right-click menu; off by default.
+   */
+  livePreview: boolean;
 }
 
 /** Supported AI providers. Single source of truth for both the {@link AIProvider}
  *  union type and any UI that lists providers (e.g. the model editor dropdown). */
-export const AI_PROVIDERS = ['ANTHROPIC', 'OPENAI', 'GOOGLE', 'LLAMACPP'] as const;
+export const AI_PROVIDERS = ['ANTHROPIC', 'OPENAI', 'GOOGLE', 'LLAMACPP', 'OPENAI_COMPATIBLE', 'OLLAMA'] as const;
 export type AIProvider = typeof AI_PROVIDERS[number];
 
+/** Where the Ollama daemon listens unless a model says otherwise. */
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
 export interface AIModelConfig {
   name: string;
   provider: AIProvider;
@@ -157,6 +187,12 @@ export interface AIModelConfig {
   vision: boolean;
   /** Built-in model that cannot be edited or deleted in the UI. */
   readonly: boolean;
+  /** Server URL for OPENAI_COMPATIBLE (its `/v1` API root) and OLLAMA (the daemon's root) models. */
+  baseUrl?: string;
+  /** Extra HTTP headers sent with every request to an OPENAI_COMPATIBLE server. Saved unencrypted, so not for keys. */
+  headers?: Record<string, string>;
+  /** The environment variable holding an OPENAI_COMPATIBLE server's API key, sent as `Authorization: Bearer`. */
+  apiKeyEnv?: string;
 }
 
 export interface AIRewritePromptDef {
@@ -164,6 +200,36 @@ export interface AIRewritePromptDef {
   prompt: string;
 }
 
+/**
+ * A mutating Agentic Mode tool call waiting for the user to approve it (see
+ * main/ai/toolApproval.ts).
+ */
+export interface ToolApprovalRequest {
+  id: number;
+  /** The tool called, e.g. `mk_write_file`. */
+  tool: string;
+  kind: 'write' | 'create' | 'delete-file' | 'delete-folder';
+  /** The file written or created, the folder deleted, or the (possibly wildcard) path of the files deleted. */
+  path: string;
+  /** write: the file's current content. */
+  before?: string;
+  /** write / create: the content the model proposes. */
+  content?: string;
+  /** delete-file: the files the path matches. */
+  targets?: string[];
+  /** delete-folder: how many files and folders are inside it. */
+  entryCount?: number;
+  /** The folder an "always allow in this folder" answer covers. */
+  folder: string;
+}
+
+/** The user's answer to a {@link ToolApprovalRequest}. */
+export type ToolApprovalDecision =
+  | { action: 'approve'; alwaysAllowFolder?: boolean }
+  /** Approve a write or create with the user's version of the content. */
+  | { action: 'edit'; content: string }
+  | { action: 'reject'; reason?: string };
+
 export interface AppConfig {
   browseFolder: string;
   curSubFolder?: string;
@@ -187,6 +253,8 @@ export interface AppConfig {
   aiRewriteMode?: boolean;
   /** Last selected calendar view type (month/week/day/agenda). */
   calendarViewType?: 'month' | 'week' | 'work_week' | 'day' | 'agenda';
+  /** Time zone the calendar is shown in (IANA name); absent or empty for the system's. */
+  calendarDisplayZone?: string;
   /** Recently browsed folders, most recent first, max 10. */
   recentFolders?: string[];
 }
@@ -242,6 +310,16 @@ export interface FileReadResult {
   size: number;
 }
 
+/**
+ * The state a file was in when the editor loaded (or last saved) it. A save
+ * passing one is refused when the file on disk no longer matches it.
+ */
+export interface FileStamp {
+  mtime: number;
+  /** Compared too when known: catches a change that kept the same mtime. */
+  size?: number;
+}
+
 /** Result of writeFile: the content actually written plus its on-disk mtime/size. */
 export interface FileWriteResult {
   ok: boolean;
@@ -260,6 +338,11 @@ export interface FileWriteResult {
    * (isReplacedFile), and wipes the item's cached content and volatile flags.
    */
   createdTime?: number;
+  /**
+   * Set (with ok false) when the save was refused because the file changed on
+   * disk since the `expected` stamp: the file's content and stamp as they are now.
+   */
+  conflict?: FileReadResult;
 }
 
 export interface SearchResult {
@@ -272,6 +355,231 @@ export interface SearchResult {
    * contents were never read — matchCount counts occurrences within the file name
    * rather than the body. The results view shows "name match" instead of a count. */
   nameMatch?: boolean;
+  /** BM25 relevance of a content match (see searchRanking.ts); higher is better.
+   * Unset for name matches and for queries with no searchable words. */
+  score?: number;
+  /** The best-matching lines of a content match, best first. */
+  snippets?: SearchSnippet[];
+}
+
+/** One line of a content search hit, with the matched ranges to highlight. */
+export interface SearchSnippet {
+  /** 1-based line number within the file. */
+  line: number;
+  /** The line's text, possibly cut to a window around the hits (cuts marked with '…'). */
+  text: string;
+  /** `[start, end)` offsets into `text` of each hit, ascending and non-overlapping. */
+  highlights: [number, number][];
+}
+
+/** One link to a file from elsewhere in the vault (the Backlinks panel). */
+export interface Backlink {
+  /** The file containing the link. */
+  sourcePath: string;
+  /** 1-based line of the link within the source file. */
+  line: number;
+  /** The source line, trimmed, for context. */
+  context: string;
+  /** The `#section` the link points at, if any (without the `#`). */
+  anchor: string | null;
+}
+
+/** One kept version of a file (the History panel; see main/fileHistory.ts). */
+export interface FileVersion {
+  /** Names the version to readFileVersion. */
+  id: string;
+  /** When this content was saved: the file's mtime before it was replaced. */
+  savedAt: number;
+  /** Bytes the compressed snapshot takes up. */
+  compressedSize: number;
+}
+
+/**
+ * What git says about a file under the browse root (see main/gitUtil.ts).
+ * `staged` is a modification that is staged and has no further unstaged edits.
+ */
+export type GitFileState = 'modified' | 'staged' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+/** One changed file in the git status, as listed in the Commit dialog. */
+export interface GitChange {
+  /** Absolute path of the file. */
+  path: string;
+  state: GitFileState;
+  /** True when the working tree has changes that aren't staged yet (always true for untracked files). */
+  unstaged: boolean;
+  /** For a rename, the absolute path the file was renamed from. */
+  origPath?: string;
+}
+
+/** The git status of the browse root, for the status badges and the Commit dialog. */
+export interface GitStatus {
+  /** The folder the status was taken for. */
+  folder: string;
+  /** The checked-out branch, or "HEAD (no branch)" when detached. */
+  branch: string;
+  /** Every changed file under `folder`, sorted by path. */
+  changes: GitChange[];
+  /**
+   * The badge to show by absolute path: each changed file's state, and 'folder'
+   * for each folder under `folder` that contains a change.
+   */
+  badges: Record<string, GitFileState | 'folder'>;
+}
+
+/** One commit in a file's git log (the Git panel). */
+export interface GitLogEntry {
+  hash: string;
+  author: string;
+  /** Commit time, in ms since the epoch. */
+  date: number;
+  /** First line of the commit message. */
+  subject: string;
+  /** The file's path within the repository in this commit (it may since have been renamed). */
+  repoPath: string;
+}
+
+/** Where a wikilink leads (see resolveWikiLink in main/linkIndex.ts). */
+export interface WikiLinkResolution {
+  /** The file the link opens, or null when nothing matches. */
+  path: string | null;
+  /** Every matching file, closest first; more than one means the link is ambiguous. */
+  candidates: string[];
+}
+
+/** A vault file offered by wikilink completion (see listWikiLinkTargets in main/linkIndex.ts). */
+export interface WikiLinkTarget {
+  path: string;
+  /** Last modification time (ms), which ranks recently touched notes first. */
+  modifiedTime: number;
+}
+
+/** A file or folder about to move (rename, drag-and-drop, cut/paste). */
+export interface EntryMove {
+  oldPath: string;
+  newPath: string;
+}
+
+/** One link whose target text a move would change. */
+export interface LinkRewriteChange {
+  /** 1-based line and column of the link target text. */
+  line: number;
+  column: number;
+  /** Link target text before and after (path part only; any `#section` is kept). */
+  before: string;
+  after: string;
+}
+
+/** A file whose links a move would rewrite. */
+export interface LinkRewriteFile {
+  /** Where the file is now. */
+  filePath: string;
+  /** Where it will be after the move (the same path unless the file itself moves). */
+  newFilePath: string;
+  changes: LinkRewriteChange[];
+}
+
+/** The link rewrites a set of moves needs, shown to the user before the move. */
+export interface LinkRewritePlan {
+  /** Identifies the plan to applyLinkRewrites; only the latest plan can be applied. */
+  id: number;
+  files: LinkRewriteFile[];
+}
+
+export interface LinkRewriteApplyResult {
+  success: boolean;
+  error?: string;
+  /** Files whose links were rewritten (at their post-move paths). */
+  updatedFiles: string[];
+  /** Files left alone because they changed after the plan was made. */
+  skippedFiles: string[];
+  /** True when the move and its rewrites were recorded and can be undone. */
+  undoable: boolean;
+}
+
+export interface LinkRewriteUndoResult {
+  success: boolean;
+  error?: string;
+  /** The moves that were reversed, as they happened (oldPath = where the entry is now). */
+  moves: EntryMove[];
+  /** Files not restored because they were edited after the rewrite. */
+  conflicts: string[];
+}
+
+/** A bulk file operation in the undo journal (see main/opJournal.ts). */
+export interface JournalOperation {
+  id: number;
+  /** What the operation was, e.g. `Split notes.md`. */
+  label: string;
+  /** When it finished (ms since epoch). */
+  time: number;
+  /** Files and folders it changed. */
+  pathCount: number;
+  /** Why it can't be undone, when it can't. */
+  unavailable?: string;
+}
+
+/** Result of undoJournalOperations. */
+export interface JournalUndoResult {
+  success: boolean;
+  error?: string;
+  /** How many operations were reverted. */
+  undone: number;
+  /** Paths changed since the operations ran. When there are any, nothing was undone. */
+  conflicts: string[];
+  /** The moves that were reversed, as they happened (oldPath = where the entry was). */
+  moves: EntryMove[];
+  /** Files and folders restored or removed in place. */
+  paths: string[];
+}
+
+/** Why a link in the Broken Links report doesn't work. */
+export type BrokenLinkReason = 'missing-file' | 'missing-image' | 'missing-heading' | 'missing-block';
+
+/** A link that points at a file, image, heading or block that doesn't exist. */
+export interface BrokenLink {
+  /** The file containing the link. */
+  sourcePath: string;
+  /** 1-based line of the link within the source file. */
+  line: number;
+  /** The link target as written, with any `#section`. */
+  link: string;
+  reason: BrokenLinkReason;
+  /** The source line, trimmed, for context. */
+  context: string;
+  /** Likely intended targets, written the way the link would need them, best first. */
+  suggestions: string[];
+}
+
+export interface BrokenLinkReport {
+  brokenLinks: BrokenLink[];
+  /** Markdown files scanned. */
+  totalFiles: number;
+  /** Links checked across those files. */
+  totalLinks: number;
+}
+
+/** A GFM task-list item (`- [ ] …` or `- [x] …`) found by the Tasks scan. */
+export interface TaskItem {
+  filePath: string;
+  /** 1-based line of the task within its file. */
+  line: number;
+  /** The line as it was read, so a toggle can tell when the file has changed since. */
+  source: string;
+  /** The task's text after the checkbox. */
+  text: string;
+  done: boolean;
+  /** The nearest heading above the task, or null when there is none. */
+  heading: string | null;
+  /** Hashtags in the task's text, with their `#`. */
+  tags: string[];
+  /** The first date in the task's text, ms since epoch, or null when it has none. */
+  due: number | null;
+}
+
+export interface TaskReport {
+  tasks: TaskItem[];
+  /** Markdown files scanned. */
+  totalFiles: number;
 }
 
 export interface ReplaceResult {
@@ -282,6 +590,56 @@ export interface ReplaceResult {
   error?: string;
 }
 
+/** What Replace in Files looks for and what it writes (see main/searchAndReplace.ts). */
+export interface ReplaceOptions {
+  searchText: string;
+  /** Written verbatim, unless `regex` is set: then `$1`, `$<name>`, `$&` and `$$` are expanded. */
+  replaceText: string;
+  /** `searchText` is a regular expression (`^` and `$` match at line ends). */
+  regex?: boolean;
+  ignoreCase?: boolean;
+  /** Only matches not preceded or followed by a letter, digit or `_`. */
+  wholeWord?: boolean;
+  /** Only files this search matches, as in the Search dialog ("File Contents+Names"); empty for every file. */
+  scopeQuery?: string;
+  scopeType?: 'literal' | 'wildcard' | 'advanced';
+}
+
+/** One match found by a Replace in Files preview, shown in the context of its line. */
+export interface ReplaceMatch {
+  /** 1-based line of the match's start. */
+  line: number;
+  /** Offset of the match in the file; what a {@link ReplaceSelection} names it by. */
+  start: number;
+  /** The text of the line before the match, shortened from the left. */
+  before: string;
+  text: string;
+  /** The rest of the match's last line, shortened from the right. */
+  after: string;
+  replacement: string;
+}
+
+export interface ReplaceFilePreview {
+  path: string;
+  relativePath: string;
+  matches: ReplaceMatch[];
+  /** Set when the file could not be read; `matches` is then empty. */
+  error?: string;
+}
+
+export interface ReplacePreview {
+  files: ReplaceFilePreview[];
+  totalMatches: number;
+  /** True when matches past the preview limit were left out. */
+  truncated: boolean;
+}
+
+/** The matches of one file to replace, by {@link ReplaceMatch.start}. */
+export interface ReplaceSelection {
+  path: string;
+  starts: number[];
+}
+
 export interface ExportResult {
   success: boolean;
   outputPath?: string;
@@ -303,6 +661,35 @@ export interface CalendarEventResult {
   filePath: string;
   /** First 5 lines (up to 400 chars) of body content after front matter */
   snippet: string;
+  /** True for an occurrence of a recurring (`rrule:`) item */
+  recurring?: boolean;
+  /** Milliseconds since epoch: local midnight of the day the rule put an occurrence on, before any override */
+  occurrence?: number;
+  /** Minutes before `start` to remind at, from the item's `remind:`; null when it turns reminders off */
+  remind?: number | null;
+  /** The item's `tz:` zone (IANA name), whose clock its start time reads; absent for local time */
+  timeZone?: string;
+}
+
+/** Outcome of exporting calendar items to an `.ics` file (see main/calendarIcs.ts). */
+export interface CalendarExportResult {
+  success: boolean;
+  outputPath?: string;
+  /** Calendar items written, one VEVENT each. */
+  eventCount: number;
+  error?: string;
+}
+
+/** Outcome of importing an `.ics` file as calendar markdown files. */
+export interface CalendarImportResult {
+  success: boolean;
+  /** The markdown files created, one per event. */
+  created: string[];
+  /** Events left out: no start date, or an edit to one occurrence of a recurring event. */
+  skipped: number;
+  /** Per-file notes on event details the front matter can't hold. */
+  warnings: string[];
+  error?: string;
 }
 
 export interface FolderGraphScanResult {
@@ -366,22 +753,74 @@ export interface ElectronAPI {
   writeExif: (filePath: string, data: ExifData) => Promise<ExifWriteResult>;
   getImageDimensions: (filePath: string) => Promise<ImageDimensions | null>;
   pathExists: (checkPath: string) => Promise<boolean>;
-  writeFile: (filePath: string, content: string) => Promise<FileWriteResult>;
+  /**
+   * Write `content`; with `expected`, only if the file on disk still matches that stamp (else `conflict` is set).
+   * With `journalId`, the file's prior content is recorded under that journal operation first; the same goes
+   * for createFile, renameFile and deleteFile.
+   */
+  writeFile: (filePath: string, content: string, expected?: FileStamp, journalId?: number) => Promise<FileWriteResult>;
   getFileSize: (filePath: string) => Promise<number>;
   getFileMtime: (filePath: string) => Promise<number>;
   writeFileBinary: (filePath: string, base64Data: string) => Promise<boolean>;
-  createFile: (filePath: string, content: string) => Promise<{ success: boolean; error?: string }>;
-  renameFile: (oldPath: string, newPath: string) => Promise<boolean>;
-  deleteFile: (filePath: string) => Promise<boolean>;
+  createFile: (filePath: string, content: string, journalId?: number) => Promise<{ success: boolean; error?: string }>;
+  renameFile: (oldPath: string, newPath: string, journalId?: number) => Promise<boolean>;
+  deleteFile: (filePath: string, journalId?: number) => Promise<boolean>;
   openExternal: (filePath: string) => Promise<boolean>;
   openExternalUrl: (url: string) => Promise<boolean>;
   createFolder: (folderPath: string) => Promise<{ success: boolean; error?: string }>;
   searchFolder: (folderPath: string, query: string, searchType?: 'literal' | 'wildcard' | 'advanced', searchMode?: 'content' | 'filenames', searchImageExif?: boolean, mostRecent?: boolean, calendarItemsOnly?: boolean) => Promise<SearchResult[]>;
-  searchAndReplace: (folderPath: string, searchText: string, replaceText: string) => Promise<ReplaceResult[]>;
+  /** Every match `options` would replace under `folderPath`, without writing anything. */
+  previewReplace: (folderPath: string, options: ReplaceOptions) => Promise<ReplacePreview>;
+  /** Replace the matches of `options` under `folderPath`: all of them, or with `selections` only those. */
+  searchAndReplace: (folderPath: string, options: ReplaceOptions, selections?: ReplaceSelection[]) => Promise<ReplaceResult[]>;
+  /** Every link to `filePath` from markdown files under the browse root (wikilinks and relative markdown links). */
+  getBacklinks: (filePath: string) => Promise<Backlink[]>;
+  /** The kept versions of `filePath`, newest first. */
+  listFileVersions: (filePath: string) => Promise<FileVersion[]>;
+  /** The content of one kept version of `filePath`, or null when it is gone. */
+  readFileVersion: (filePath: string, versionId: string) => Promise<string | null>;
+  /** The git status of everything under `folder`, or null when it isn't in a git repository. */
+  getGitStatus: (folder: string) => Promise<GitStatus | null>;
+  /** The commits that touched `filePath`, newest first. */
+  getGitLog: (filePath: string) => Promise<GitLogEntry[]>;
+  /** `filePath`'s content at commit `rev` (or HEAD), or null when it isn't in that commit. */
+  readGitRevision: (filePath: string, rev: string, repoPath?: string) => Promise<string | null>;
+  /** Commit only `changes` (from getGitStatus) in the repository holding `folder`. */
+  gitCommit: (folder: string, message: string, changes: GitChange[]) => Promise<{ success: boolean; error?: string }>;
+  /** Resolve the wikilink `target` written in `sourcePath`, Obsidian-style. */
+  resolveWikiLink: (sourcePath: string, target: string) => Promise<WikiLinkResolution>;
+  /** Every file under the browse root that a wikilink can point at, for editor completion. */
+  listWikiLinkTargets: () => Promise<WikiLinkTarget[]>;
+  /** The link rewrites `moves` would need, computed before the move so the user can preview them. */
+  planLinkRewrites: (moves: EntryMove[]) => Promise<LinkRewritePlan>;
+  /** Apply plan `planId` after the move, for the moves that actually happened (by old path). */
+  applyLinkRewrites: (planId: number, movedOldPaths: string[], journalId?: number) => Promise<LinkRewriteApplyResult>;
+  /** Move the entries of the last applied plan back and restore the files it rewrote. */
+  undoLinkRewrites: () => Promise<LinkRewriteUndoResult>;
+  /** Open an undo journal operation; pass its id to the file calls it makes, then end it. */
+  beginJournalOperation: (label: string) => Promise<number>;
+  endJournalOperation: (journalId: number) => Promise<void>;
+  /** The undo journal, newest first. */
+  listJournalOperations: () => Promise<JournalOperation[]>;
+  /** Revert the newest `count` journal operations, or nothing if any path they left has changed since. */
+  undoJournalOperations: (count: number) => Promise<JournalUndoResult>;
   analyzeFolderHashtags: (folderPath: string) => Promise<FolderAnalysisResult>;
+  /** Check every link in the markdown files under `folderPath`. */
+  findBrokenLinks: (folderPath: string) => Promise<BrokenLinkReport>;
+  /** Every task-list item in the markdown files under `folderPath`. */
+  findTasks: (folderPath: string) => Promise<TaskReport>;
+  /**
+   * Tick or clear the task on `line` of `filePath`, provided the line still
+   * reads `source`; otherwise nothing is written and `success` is false.
+   */
+  toggleTask: (filePath: string, line: number, source: string, done: boolean) => Promise<{ success: boolean; error?: string }>;
   loadCalendarEvents: (folderPath: string) => Promise<CalendarEventResult[]>;
   /** Calendar events for an explicit file list (search results). Stops the folder watcher. */
   loadCalendarEventsForFiles: (filePaths: string[]) => Promise<CalendarEventResult[]>;
+  /** Ask where to save, then export the calendar items among `filePaths` as iCalendar. Null if cancelled. */
+  exportCalendarIcs: (filePaths: string[], defaultFileName: string) => Promise<CalendarExportResult | null>;
+  /** Ask for an `.ics` file and import its events as calendar files in `folder`. Null if cancelled. */
+  importCalendarIcs: (folder: string) => Promise<CalendarImportResult | null>;
   scanFolderTree: (folderPath: string) => Promise<FolderGraphScanResult>;
   loadTags: () => Promise<TagCategory[]>;
   saveTags: (yamlContent: string) => Promise<void>;
@@ -394,6 +833,8 @@ export interface ElectronAPI {
   replyToAi: (parentFolderPath: string, createSubFolder: boolean) => Promise<{ folderPath: string; filePath: string } | { error: string }>;
   getAiUsage: () => Promise<AIUsageWithCosts>;
   resetAiUsage: () => Promise<void>;
+  /** The models installed on the Ollama daemon at `baseUrl`, by name. */
+  listOllamaModels: (baseUrl: string) => Promise<{ models: string[]; error?: string }>;
   queueScriptedAnswer: (answer: string) => Promise<void>;
   gatherThreadEntries: (folderPath: string) => Promise<{ isThread: boolean; entries: Array<{ role: 'human' | 'ai'; folderPath: string; filePath: string; fileName: string; modifiedTime: number; createdTime: number }>; childFolders: Array<{ role: 'human' | 'ai'; name: string; path: string; aiHint?: string }> }>;
   rewriteContent: (content: string, filePath: string, hasIndexFile: boolean) => Promise<{ rewrittenContent: string; usage?: { input_tokens: number; output_tokens: number; total_tokens: number } } | { error: string }>;
@@ -407,11 +848,25 @@ export interface ElectronAPI {
   onAiStreamDone: (callback: () => void) => () => void;
   onAiStreamError: (callback: (message: string) => void) => () => void;
   cancelAiStream: () => void;
+  /** Subscribe to Agentic Mode tool calls waiting for approval. Returns an unsubscribe function. */
+  onAiToolApproval: (callback: (request: ToolApprovalRequest) => void) => () => void;
+  /** Subscribe to approval requests withdrawn unanswered (their AI request ended). Returns an unsubscribe function. */
+  onAiToolApprovalDismissed: (callback: (ids: number[]) => void) => () => void;
+  resolveAiToolApproval: (id: number, decision: ToolApprovalDecision) => void;
+  /** Folders whose tool calls are approved without asking, this session. */
+  listAiAlwaysAllowedFolders: () => Promise<string[]>;
+  clearAiAlwaysAllowedFolders: () => Promise<void>;
 
   // Calendar file-change and delete events
   onCalendarFileChanged: (callback: (results: CalendarEventResult[], filePath: string) => void) => () => void;
   onCalendarFileDeleted: (callback: (deletedPath: string, isFolder: boolean) => void) => () => void;
   onCalendarWatcherError: (callback: (message: string) => void) => () => void;
+  /** Subscribe to clicks on calendar reminder notifications, each with the item's file. Returns an unsubscribe function. */
+  onReminderOpenFile: (callback: (filePath: string) => void) => () => void;
+  /** Watch exactly these embedded notes (see NoteEmbed.tsx); an empty list stops watching. */
+  setWatchedEmbeds: (filePaths: string[]) => Promise<void>;
+  /** Subscribe to changes of the watched embedded notes. Returns an unsubscribe function. */
+  onEmbedFileChanged: (callback: (filePath: string) => void) => () => void;
 
   runOcrInTerminal: (ocrToolsFolder: string, targets: OcrTarget[]) => Promise<{ success: boolean; error?: string }>;
   insertIntoIndexYaml: (dirPath: string, newName: string, insertAfterName: string | null) => Promise<{ success: boolean; error?: string }>;
@@ -0,0 +1,74 @@
+/**
+ * GFM task-list items (`- [ ] open`, `- [x] done`): reading them out of a
+ * markdown file for the Tasks view, and ticking one in place.
+ *
+ * Only real markdown counts: lines in front matter or fenced code blocks are
+ * skipped, using the same line scan as the TOC (scanLines in tocUtil.ts).
+ * A task's due date is the first date in its text, recognized by DATE_REGEX —
+ * the dates the editor highlights (editorDateUtil.ts) are exactly these.
+ *
+ * This module is process-neutral: the scan runs in the main process, over
+ * every file under a folder (see main/taskScanner.ts).
+ */
+import { scanLines } from './tocUtil';
+import { HASHTAG_REGEX } from './regexPatterns';
+import { extractTimestamp } from './timeUtil';
+import type { TaskItem } from './shared';
+
+/** A task's fields as read from its file, before the file is known. */
+export type ParsedTask = Omit<TaskItem, 'filePath'>;
+
+// A bullet or ordered-list marker, the checkbox, and the text after it. The
+// checkbox sits in group 2 so toggling can swap that one character.
+const TASK_RE = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\](?:\s+(.*))?$/;
+
+// An ATX heading: up to 3 spaces, 1–6 `#`s, the text, and any closing `#`s.
+const HEADING_RE = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+
+/** Every task in `content`, in file order, each under the nearest heading above it. */
+export function parseTasks(content: string): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+  let heading: string | null = null;
+  scanLines(content).forEach((info, index) => {
+    if (info.frontMatter || info.code) return;
+    const text = info.text.replace(/\r$/, '');
+    const headingMatch = HEADING_RE.exec(text);
+    if (headingMatch) {
+      heading = headingMatch[1] || null;
+      return;
+    }
+    const match = TASK_RE.exec(text);
+    if (!match) return;
+    const taskText = (match[3] ?? '').trim();
+    const due = extractTimestamp(taskText);
+    tasks.push({
+      line: index + 1,
+      source: text,
+      text: taskText,
+      done: match[2] !== ' ',
+      heading,
+      tags: [...new Set(taskText.match(new RegExp(HASHTAG_REGEX.source, 'g')) ?? [])],
+      due: Number.isNaN(due) ? null : due,
+    });
+  });
+  return tasks;
+}
+
+/**
+ * `content` with the task on 1-based `line` ticked (`done`) or cleared. Returns
+ * null when that line no longer reads `source` — the file changed since it was
+ * scanned — so a stale view can't tick the wrong line.
+ */
+export function toggleTaskLine(content: string, line: number, source: string, done: boolean): string | null {
+  const lines = content.split('\n');
+  const current = lines[line - 1];
+  if (current === undefined) return null;
+  const cr = current.endsWith('\r') ? '\r' : '';
+  const text = cr ? current.slice(0, -1) : current;
+  if (text !== source) return null;
+  const match = TASK_RE.exec(text);
+  if (!match) return null;
+  const prefix = match[1]!;
+  lines[line - 1] = `${prefix}${done ? 'x' : ' '}${text.slice(prefix.length + 1)}${cr}`;
+  return lines.join('\n');
+}
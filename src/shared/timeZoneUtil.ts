@@ -0,0 +1,163 @@
+/**
+ * IANA time zones for calendar items (`tz:`) and the calendar's display zone.
+ *
+ * Everything here is built on `Intl.DateTimeFormat`, which carries the zone
+ * database in both Node and Chromium, so the module is process-neutral: the
+ * loader places a zoned item's occurrences in the main process, and the
+ * Calendar view shows them in another zone in the renderer.
+ *
+ * A zone of `null` means the system's own zone throughout.
+ */
+
+/** A wall-clock reading: what a clock in some zone shows. `month` is 1–12. */
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds?: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    // h23, not hour12: false — the latter reads midnight as "24" in some runtimes.
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+}
+
+/** True when `zone` is a time zone name the runtime knows (`America/New_York`, `UTC`). */
+export function isValidTimeZone(zone: string): boolean {
+  if (!zone.trim()) return false;
+  try {
+    formatterFor(zone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The system's zone, e.g. `Europe/Berlin`. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Every zone name the runtime can list, sorted, for a picker; [] where it can't. */
+export function listTimeZones(): string[] {
+  try {
+    return [...Intl.supportedValuesOf('timeZone')].sort();
+  } catch {
+    return [];
+  }
+}
+
+/** What a clock in `zone` shows at `ms`. */
+export function wallClockIn(ms: number, zone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(zone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year!, month: parts.month!, day: parts.day!,
+    hours: parts.hour!, minutes: parts.minute!, seconds: parts.second!,
+  };
+}
+
+/** `zone`'s offset from UTC at `ms`, in milliseconds (east positive). */
+export function offsetAt(ms: number, zone: string): number {
+  const w = wallClockIn(ms, zone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hours, w.minutes, w.seconds ?? 0);
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/** One change of a zone's clocks, e.g. the spring-forward of daylight saving time. */
+export interface ZoneTransition {
+  /** What the clocks show at the change, just before they jump (read at `offsetFrom`). */
+  at: WallClock;
+  /** The offsets before and after the change, in milliseconds (east positive). */
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The changes of `zone`'s clocks during `year` (UTC), in order; [] for a zone
+ * whose offset is fixed that year. Intl exposes offsets, not rules, so each day
+ * is sampled and a day whose offset differs from the next is bisected to the
+ * minute.
+ */
+export function zoneTransitionsIn(year: number, zone: string): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let day = Date.UTC(year, 0, 1);
+  let offset = offsetAt(day, zone);
+  for (; day < end; day += DAY_MS) {
+    const nextOffset = offsetAt(day + DAY_MS, zone);
+    if (nextOffset === offset) continue;
+    let lo = day;
+    let hi = day + DAY_MS;
+    while (hi - lo > MINUTE_MS) {
+      const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(mid, zone) === offset) lo = mid;
+      else hi = mid;
+    }
+    const wall = new Date(hi + offset);
+    transitions.push({
+      at: {
+        year: wall.getUTCFullYear(), month: wall.getUTCMonth() + 1, day: wall.getUTCDate(),
+        hours: wall.getUTCHours(), minutes: wall.getUTCMinutes(), seconds: wall.getUTCSeconds(),
+      },
+      offsetFrom: offset,
+      offsetTo: nextOffset,
+    });
+    offset = nextOffset;
+  }
+  return transitions;
+}
+
+/**
+ * The instant a clock in `zone` shows `wall`. Around a DST change the offset
+ * at the guess can differ from the offset at the answer, so the guess is
+ * corrected once. A time the clocks skip (2:30 on a spring-forward night) is
+ * moved forward by the gap, to 3:30; a time they show twice (1:30 on a
+ * fall-back night) is the first of the two.
+ */
+export function zonedTimeToEpoch(wall: WallClock, zone: string): number {
+  const utc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds ?? 0);
+  const first = utc - offsetAt(utc, zone);
+  const firstOffset = offsetAt(first, zone);
+  const second = utc - firstOffset;
+  return offsetAt(second, zone) === firstOffset ? second : Math.max(first, second);
+}
+
+/**
+ * A Date whose local fields read what a clock in `zone` shows at `ms`. The
+ * calendar component lays events out by local fields, so this is how an event
+ * is drawn in a zone other than the system's. With no zone, `ms` as it is.
+ */
+export function toZonedDate(ms: number, zone: string | null): Date {
+  if (!zone) return new Date(ms);
+  const w = wallClockIn(ms, zone);
+  return new Date(w.year, w.month - 1, w.day, w.hours, w.minutes, w.seconds ?? 0, ms - Math.floor(ms / 1000) * 1000);
+}
+
+/** The inverse of {@link toZonedDate}: the instant `date`'s local fields name in `zone`. */
+export function fromZonedDate(date: Date, zone: string | null): number {
+  if (!zone) return date.getTime();
+  return zonedTimeToEpoch({
+    year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(),
+    hours: date.getHours(), minutes: date.getMinutes(), seconds: date.getSeconds(),
+  }, zone) + date.getMilliseconds();
+}
@@ -3,7 +3,7 @@ import remarkParse from 'remark-parse';
 import remarkStringify from 'remark-stringify';
 import { toc } from 'mdast-util-toc';
 import type { Root, Heading } from 'mdast';
-import GithubSlugger from 'github-slugger';
+import GithubSlugger, { slug } from 'github-slugger';
 import type { MarkdownHeadingNode } from './types';
 
 const START_TAG = '<!-- TOC -->';
@@ -15,7 +15,7 @@ const END_TAG = '<!-- /TOC -->';
 const START_LINE_RE = /^ {0,3}<!--\s*TOC\s*-->\s*$/;
 const END_LINE_RE = /^ {0,3}<!--\s*\/TOC\s*-->\s*$/;
 
-interface LineInfo {
+export interface LineInfo {
   text: string;
   /** Char offset of the line's first character within the source content. */
   start: number;
@@ -32,9 +32,10 @@ interface LineInfo {
  * a fenced code block (backtick or tilde fences of any length, e.g. ```, ~~~~).
  *
  * This is the single source of truth for "is this line real markdown?", shared by TOC
- * tag lookup and TOC generation so the two can never disagree about what is a fence.
+ * tag lookup and TOC generation so the two can never disagree about what is a fence,
+ * and by the task scan (taskUtil.ts), so a checkbox shown in a code sample isn't a task.
  */
-function scanLines(content: string): LineInfo[] {
+export function scanLines(content: string): LineInfo[] {
   let offset = 0;
   const lines: LineInfo[] = content.split('\n').map(text => {
     const info: LineInfo = { text, start: offset, end: offset + text.length, frontMatter: false, code: false };
@@ -223,8 +224,8 @@ function headingText(node: Heading): string {
  * The synthetic `path` for each node is `filePath + '#' + flatIndex`.
  */
 export function extractHeadingTree(filePath: string, content: string): MarkdownHeadingNode[] {
-  content = sanitizeForTOC(content);
-  const ast = unified().use(remarkParse).parse(content) as Root;
+  const frontMatterLines = scanLines(content).filter(l => l.frontMatter).length;
+  const ast = unified().use(remarkParse).parse(sanitizeForTOC(content)) as Root;
   const headings = ast.children.filter((n): n is Heading => n.type === 'heading');
 
   const slugger = new GithubSlugger();
@@ -237,6 +238,7 @@ export function extractHeadingTree(filePath: string, content: string): MarkdownH
       heading: text,
       slug: slugger.slug(text),
       depth: h.depth,
+      line: (h.position?.start.line ?? 1) + frontMatterLines,
       isExpanded: false,
       isLoading: false,
       children: null,
@@ -267,3 +269,142 @@ export function extractHeadingTree(filePath: string, content: string): MarkdownH
 
   return roots;
 }
+
+/**
+ * The section of `content` under the heading `anchor` names — by slug, as
+ * extractHeadingTree assigns them, or by heading text as a wikilink writes it:
+ * the heading line and everything up to the next heading of the same or a
+ * higher level. `startLine` is the 1-based line of the heading in `content`.
+ * Null when no heading matches.
+ */
+export function extractHeadingSection(content: string, anchor: string): { text: string; startLine: number } | null {
+  const frontMatterLines = scanLines(content).filter(l => l.frontMatter).length;
+  const ast = unified().use(remarkParse).parse(sanitizeForTOC(content)) as Root;
+  const headings = ast.children.filter((n): n is Heading => n.type === 'heading');
+
+  const slugger = new GithubSlugger();
+  const anchorSlug = slug(anchor);
+  const index = headings.findIndex((h) => {
+    const headingSlug = slugger.slug(headingText(h));
+    return headingSlug === anchor || headingSlug === anchorSlug;
+  });
+  const heading = headings[index];
+  if (!heading?.position) return null;
+
+  const next = headings.slice(index + 1).find(h => h.depth <= heading.depth);
+  const lines = content.split('\n');
+  const startLine = heading.position.start.line + frontMatterLines;
+  const endLine = next?.position ? next.position.start.line + frontMatterLines : lines.length + 1;
+  return { text: lines.slice(startLine - 1, endLine - 1).join('\n').trimEnd(), startLine };
+}
+
+/**
+ * A block id written at the end of a paragraph or list item (`Some text ^my-id`),
+ * or alone on the line after the block it names. Obsidian's `[[note#^my-id]]`
+ * block references point at these.
+ */
+const BLOCK_ID_RE = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+const LIST_ITEM_RE = /^\s*(?:[-*+]|\d+[.)])\s/;
+const HEADING_LINE_RE = /^ {0,3}#{1,6}(?:\s|$)/;
+
+/** The block id at the end of `line`, or null. */
+function blockIdOf(line: LineInfo): string | null {
+  if (line.frontMatter || line.code) return null;
+  return BLOCK_ID_RE.exec(line.text)?.[1] ?? null;
+}
+
+/** Whether `line` is ordinary markdown text that can belong to a paragraph or list item. */
+function isTextLine(line: LineInfo | undefined): line is LineInfo {
+  return !!line && !line.frontMatter && !line.code && line.text.trim() !== '';
+}
+
+/**
+ * The 0-based range of lines making up the block (paragraph, list item or
+ * heading) that line `index` belongs to: a list item runs from its marker line
+ * through its continuation lines, a paragraph between blank lines, and a
+ * heading is its own line. Null for blank, code and front-matter lines.
+ */
+function blockRangeAt(lines: LineInfo[], index: number): { start: number; end: number } | null {
+  if (!isTextLine(lines[index])) return null;
+  if (HEADING_LINE_RE.test(lines[index].text)) return { start: index, end: index };
+
+  let start = index;
+  while (!LIST_ITEM_RE.test(lines[start]!.text) && isTextLine(lines[start - 1]) && !HEADING_LINE_RE.test(lines[start - 1]!.text)) {
+    start--;
+  }
+  let end = index;
+  while (isTextLine(lines[end + 1]) && !LIST_ITEM_RE.test(lines[end + 1]!.text) && !HEADING_LINE_RE.test(lines[end + 1]!.text)) {
+    end++;
+  }
+  return { start, end };
+}
+
+/** Every block id in `content`, in document order. */
+export function listBlockIds(content: string): string[] {
+  return scanLines(content).map(blockIdOf).filter((id): id is string => id !== null);
+}
+
+/**
+ * The block `^id` names in `content`, with the id itself left out. An id at
+ * the end of a line names the paragraph or list item that line ends; an id
+ * alone on its line names the block just above it, a whole list or table
+ * included. `startLine` is the 1-based line the block starts on. Null when no
+ * block has that id.
+ */
+export function extractBlock(content: string, id: string): { text: string; startLine: number } | null {
+  const lines = scanLines(content);
+  const index = lines.findIndex(l => blockIdOf(l) === id);
+  const marker = lines[index];
+  if (!marker) return null;
+
+  let start: number;
+  let end: number;
+  if (marker.text.trim() === `^${id}`) {
+    end = index - 1;
+    while (end >= 0 && lines[end]!.text.trim() === '' && !lines[end]!.code) end--;
+    if (end < 0) return null;
+    start = end;
+    while (start > 0 && lines[start - 1]!.text.trim() !== '' && !lines[start - 1]!.frontMatter) start--;
+  } else {
+    start = blockRangeAt(lines, index)?.start ?? index;
+    end = index;
+  }
+
+  const text = lines.slice(start, end + 1).map(l => l.text);
+  if (end === index) text[text.length - 1] = marker.text.replace(BLOCK_ID_RE, '').trimEnd();
+  return { text: text.join('\n').trimEnd(), startLine: start + 1 };
+}
+
+/**
+ * What a link to the block under the cursor (1-based `line`) should point at:
+ * a heading by its text, or a paragraph or list item by its block id —
+ * `id: null` when it has none yet, with `endLine` the 1-based line a new
+ * ` ^id` goes at the end of. A cursor on a standalone `^id` line means the
+ * block it names. Null on a blank, code or front-matter line.
+ */
+export function blockAtLine(
+  content: string,
+  line: number,
+): { kind: 'heading'; heading: string } | { kind: 'block'; id: string | null; endLine: number } | null {
+  const lines = scanLines(content);
+  const current = lines[line - 1];
+  const ownId = current ? blockIdOf(current) : null;
+  if (ownId && current!.text.trim() === `^${ownId}`) return { kind: 'block', id: ownId, endLine: line };
+
+  const range = blockRangeAt(lines, line - 1);
+  if (!range) return null;
+  const endLine = lines[range.end]!;
+  if (HEADING_LINE_RE.test(endLine.text)) {
+    return { kind: 'heading', heading: endLine.text.replace(/^ {0,3}#{1,6}\s*/, '').replace(/\s+#+\s*$/, '').trim() };
+  }
+  return { kind: 'block', id: blockIdOf(endLine), endLine: range.end + 1 };
+}
+
+/** A new block id not yet used in `content`: six random lowercase letters and digits. */
+export function newBlockId(content: string): string {
+  const taken = new Set(listBlockIds(content));
+  for (;;) {
+    const id = Math.random().toString(36).slice(2, 8);
+    if (id.length === 6 && !taken.has(id)) return id;
+  }
+}
@@ -8,8 +8,15 @@ import type {
   SearchSortBy,
   SearchSortDirection,
   SearchDefinition,
+  SearchSnippet,
+  LinkRewritePlan,
+  GitStatus,
+  BrokenLinkReport,
+  TaskReport,
   Bookmark,
   AppSettings,
+  FileStamp,
+  ToolApprovalRequest,
 } from './shared';
 
 /**
@@ -75,6 +82,14 @@ export interface ItemData {
    */
   editContent?: string;
 
+  /**
+   * The file as the editor loaded it, or as last saved while editing: saves are
+   * refused when the file on disk no longer matches this stamp, and the content
+   * is the base of the three-way merge that follows (see
+   * renderer/saveConflict.ts). Only set while in edit mode.
+   */
+  editBase?: EditBase;
+
   /**
    * Whether the file/folder is currently being renamed.
    */
@@ -96,6 +111,12 @@ export interface ItemData {
    */
   rewrittenContent?: string;
 
+  /**
+   * What is being reviewed: an AI rewrite, or a kept version of the file opened
+   * from its History panel to restore from (only set while reviewing).
+   */
+  reviewSource?: 'rewrite' | 'history';
+
   /**
    * Preview text from HUMAN.md or AI.md for AI conversation folders.
    * Only populated when aiEnabled is true in AppConfig.
@@ -116,10 +137,31 @@ export interface ItemData {
   props?: Record<string, unknown>;
 }
 
+/** A file's content together with the stamp it was read or written at. */
+export interface EditBase extends FileStamp {
+  content: string;
+}
+
+/**
+ * A save refused because the file changed on disk while it was being edited,
+ * and whose changes overlap the edits: waiting in the SaveConflictDialog for the
+ * user to merge them (see renderer/saveConflict.ts). Contents are as the editor
+ * shows them (without the generated TOC).
+ */
+export interface SaveConflict {
+  path: string;
+  /** The file when editing started. */
+  base: string;
+  /** The edit buffer being saved. */
+  mine: string;
+  /** The file on disk now. */
+  theirs: string;
+}
+
 /**
  * Represents which application page (aka view or panel) is currently displayed
  */
-export type AppView = 'browser' | 'search-results' | 'settings' | 'folder-analysis' | 'ai-settings' | 'thread' | 'folder-graph' | 'calendar';
+export type AppView = 'browser' | 'search-results' | 'settings' | 'folder-analysis' | 'broken-links' | 'ai-settings' | 'thread' | 'folder-graph' | 'calendar' | 'tasks';
 
 /**
  * Why the browser view is showing a single file instead of the folder listing.
@@ -147,6 +189,22 @@ export interface FolderAnalysisState {
   totalFiles: number;
 }
 
+/**
+ * State for the broken-link report (Tools > Check Links)
+ */
+export interface BrokenLinkReportState extends BrokenLinkReport {
+  /** The folder path that was checked */
+  folderPath: string;
+}
+
+/**
+ * State for the Tasks view (Tools > Find Tasks)
+ */
+export interface TaskReportState extends TaskReport {
+  /** The folder path that was scanned */
+  folderPath: string;
+}
+
 /**
  * A node in the folder graph (a file or folder).
  */
@@ -205,6 +263,10 @@ export interface SearchResultItem {
    * contents were never read — matchCount counts occurrences within the file name
    * rather than the body. The results view shows "name match" instead of a count. */
   nameMatch?: boolean;
+  /** BM25 relevance of a content match; drives the 'relevance' sort. */
+  score?: number;
+  /** The best-matching lines of a content match, shown under the result. */
+  snippets?: SearchSnippet[];
 }
 
 /**
@@ -226,6 +288,7 @@ export type {
   SearchSortBy,
   SearchSortDirection,
   SearchDefinition,
+  SearchSnippet,
   Bookmark,
   AppSettings,
 };
@@ -282,6 +345,8 @@ export interface MarkdownHeadingNode extends TreeNode {
   heading: string;
   slug: string;
   depth: number;
+  /** 1-based line of the heading in the file (the text line of a setext heading). */
+  line: number;
   children: MarkdownHeadingNode[] | null;
 }
 
@@ -341,7 +406,9 @@ export interface AppState {
   /**
    * Heading slug to scroll to after the file entry finishes rendering.
    * Set alongside pendingScrollToFile when navigating from a heading node
-   * in the IndexTree; cleared after the heading scroll completes.
+   * in the IndexTree or a `[[note#section]]` link; cleared after the heading
+   * scroll completes. A `[[note#^block-id]]` link sets the block's element id
+   * (`^block-id`, see rehypeBlockIds) here instead, which scrolls the same way.
    */
   pendingScrollToHeadingSlug: string | null;
 
@@ -421,6 +488,12 @@ export interface AppState {
    */
   pendingEditView: AppView | null;
 
+  /**
+   * 1-based line the pending edit should open at (e.g. a broken link picked in
+   * the Broken Links report), or null to open at the top.
+   */
+  pendingEditLine: number | null;
+
   /**
    * Full file path to expand once the directory refresh that creates it has
    * finished rendering (e.g. a file pasted from the clipboard). Consumed and
@@ -439,6 +512,16 @@ export interface AppState {
    */
   folderAnalysis: FolderAnalysisState | null;
 
+  /**
+   * Broken-link report for a folder (null until a check is run)
+   */
+  brokenLinkReport: BrokenLinkReportState | null;
+
+  /**
+   * Task-list items found under a folder (null until a scan is run)
+   */
+  taskReport: TaskReportState | null;
+
   /**
    * Folder graph data (null until a graph scan is run).
    * Includes frozen node positions once the simulation has cooled, so
@@ -495,6 +578,36 @@ export interface AppState {
    */
   selectedLinkItems: string[];
 
+  /**
+   * Link rewrites awaiting the user's decision in the LinkRewriteDialog before a
+   * rename/move goes ahead (see renderer/linkRewrite.ts), or null.
+   */
+  linkRewritePreview: LinkRewritePlan | null;
+
+  /**
+   * Description of the last rename/move whose link rewrites can be undone as one
+   * batch ("Undo Move" in the browse header), or null when there is none.
+   */
+  undoableMove: string | null;
+
+  /**
+   * Git status of the browse root, for the status badges and the Commit dialog
+   * (see renderer/gitStatus.ts), or null when it isn't in a git repository.
+   */
+  gitStatus: GitStatus | null;
+
+  /**
+   * A save waiting for the user to merge it with the file's changes on disk in
+   * the SaveConflictDialog (see renderer/saveConflict.ts), or null.
+   */
+  saveConflict: SaveConflict | null;
+
+  /**
+   * Agentic Mode tool calls waiting for the user in the ToolApprovalDialog
+   * (see renderer/toolApproval.ts), oldest first; the dialog shows the first.
+   */
+  toolApprovals: ToolApprovalRequest[];
+
   /**
    * Where the currently loaded calendarEvents came from (null = never loaded).
    * Tracked independently of the current browse path and the live search results
@@ -518,6 +631,12 @@ export interface AppState {
    */
   calendarViewType: CalendarViewType;
 
+  /**
+   * The time zone timed events are shown in (an IANA name), or '' for the
+   * system's. Persisted to AppConfig like the view type.
+   */
+  calendarDisplayZone: string;
+
   /**
    * The date currently displayed in the calendar (the navigated-to date).
    * Not persisted to config — resets to today on app restart, but survives
@@ -608,6 +727,12 @@ export interface CalendarEvent {
   filePath?: string;
   /** First 5 lines (up to 400 chars) of body content after front matter */
   snippet?: string;
+  /** True for one occurrence of a recurring item */
+  recurring?: boolean;
+  /** Milliseconds since epoch: the day the item's rule puts this occurrence on, which identifies it in `exdate`/`overrides` */
+  occurrence?: number;
+  /** The item's `tz:` zone, whose clock its start time is written in; absent for local time */
+  timeZone?: string;
 }
 
 /**
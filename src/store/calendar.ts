@@ -18,6 +18,7 @@ export interface CalendarSlice {
   setCalendarEvents: (events: CalendarEvent[]) => void;
   setCalendarLoading: (loading: boolean) => void;
   setCalendarViewType: (viewType: CalendarViewType) => void;
+  setCalendarDisplayZone: (zone: string) => void;
   setCalendarViewTime: (date: Date) => void;
   setCalendarWatcherWarning: (message: string | null) => void;
 }
@@ -66,6 +67,9 @@ export function createCalendarSlice(set: StoreSet, get: StoreGet): CalendarSlice
     /** Set the active calendar view type (month/week/day). */
     setCalendarViewType: (viewType) => set({ calendarViewType: viewType }),
 
+    /** Set the zone timed events are shown in ('' for the system's). */
+    setCalendarDisplayZone: (zone) => set({ calendarDisplayZone: zone }),
+
     /** Set the date the calendar is centered on. */
     setCalendarViewTime: (date) => set({ calendarViewTime: date }),
 
@@ -101,6 +105,10 @@ export function setCalendarViewType(viewType: CalendarViewType): void {
   getState().setCalendarViewType(viewType);
 }
 
+export function setCalendarDisplayZone(zone: string): void {
+  getState().setCalendarDisplayZone(zone);
+}
+
 export function setCalendarViewTime(date: Date): void {
   getState().setCalendarViewTime(date);
 }
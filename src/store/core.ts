@@ -50,12 +50,18 @@ export const defaultSettings: AppSettings = {
   bookmarks: [],
   ocrToolsFolder: '',
   calendarItemsFolder: '',
+  defaultReminder: '',
+  fileHistory: false,
+  fileHistoryMaxVersions: 50,
+  fileHistoryMaxDays: 90,
   indexTreeWidth: 'narrow',
   showPropsInEditor: true,
   expandedEditor: false,
   imageSize: DEFAULT_IMAGE_SIZE,
   // Off by default — see the note on the same field in `configSchema.ts`.
   enableThesaurus: false,
+  editorKeymap: 'default',
+  livePreview: false,
 };
 
 /**
@@ -99,11 +105,14 @@ const initialState: AppState = {
   highlightItem: null,
   pendingEditFile: null,
   pendingEditView: null,
+  pendingEditLine: null,
   pendingExpandFile: null,
   directoryRefreshNonce: 0,
   appError: null,
   highlightedSearchResult: null,
   folderAnalysis: null,
+  brokenLinkReport: null,
+  taskReport: null,
   folderGraph: null,
   pendingThreadScrollToBottom: false,
   rootPath: '',
@@ -113,10 +122,16 @@ const initialState: AppState = {
   hasIndexFile: false,
   indexYaml: null,
   selectedLinkItems: [],
+  linkRewritePreview: null,
+  undoableMove: null,
+  gitStatus: null,
+  saveConflict: null,
+  toolApprovals: [],
   calendarSource: null,
   calendarEvents: null,
   calendarLoading: false,
   calendarViewType: 'month',
+  calendarDisplayZone: '',
   calendarViewTime: new Date(),
   calendarWatcherWarning: null,
   aiConfig: defaultAiConfig,
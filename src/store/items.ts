@@ -1,5 +1,5 @@
 import { useShallow } from 'zustand/react/shallow';
-import type { AppState, Bookmark, ItemData } from '../shared/types';
+import type { AppState, Bookmark, EditBase, ItemData } from '../shared/types';
 import { createItemData } from '../shared/types';
 import { getTagsFromYaml } from '../shared/tagUtil';
 import { splitFrontMatter, getPropsFromYaml } from '../shared/frontMatterUtil';
@@ -131,8 +131,9 @@ export interface ItemsSlice {
   deleteItems: (paths: string[]) => void;
   clearCache: () => void;
   setItemEditing: (path: string, editing: boolean, goToLine?: number) => void;
-  setItemReviewing: (path: string, reviewing: boolean, rewrittenContent?: string) => void;
+  setItemReviewing: (path: string, reviewing: boolean, rewrittenContent?: string, reviewSource?: 'rewrite' | 'history') => void;
   setItemEditContent: (path: string, editContent: string) => void;
+  setItemEditBase: (path: string, editBase: EditBase | undefined) => void;
   clearItemGoToLine: (path: string) => void;
   setItemRenaming: (path: string, renaming: boolean) => void;
   setHighlightItem: (path: string | null) => void;
@@ -612,7 +613,7 @@ export function createItemsSlice(set: StoreSet, get: StoreGet): ItemsSlice {
         editing,
         goToLine: editing ? goToLine : undefined,
         // Clear editContent and reviewing state when exiting edit mode
-        ...(editing ? {} : { editContent: undefined, reviewing: undefined, rewrittenContent: undefined }),
+        ...(editing ? {} : { editContent: undefined, editBase: undefined, reviewing: undefined, rewrittenContent: undefined, reviewSource: undefined }),
       });
 
       // Cancel and save-and-close both land here with editing=false, so both
@@ -638,7 +639,7 @@ export function createItemsSlice(set: StoreSet, get: StoreGet): ItemsSlice {
     },
 
     /** Set the reviewing (diff review) state for a file. */
-    setItemReviewing: (path, reviewing, rewrittenContent) => {
+    setItemReviewing: (path, reviewing, rewrittenContent, reviewSource = 'rewrite') => {
       const state = get();
       const existing = state.items.get(path);
       if (!existing) return;
@@ -648,6 +649,7 @@ export function createItemsSlice(set: StoreSet, get: StoreGet): ItemsSlice {
         ...existing,
         reviewing,
         rewrittenContent: reviewing ? rewrittenContent : undefined,
+        reviewSource: reviewing ? reviewSource : undefined,
       });
 
       set({ items: newItems });
@@ -665,6 +667,17 @@ export function createItemsSlice(set: StoreSet, get: StoreGet): ItemsSlice {
       set({ items: newItems });
     },
 
+    /** Record what the file was when editing started, or when last saved while editing. */
+    setItemEditBase: (path, editBase) => {
+      const state = get();
+      const existing = state.items.get(path);
+      if (!existing) return;
+
+      const newItems = new Map(state.items);
+      newItems.set(path, { ...existing, editBase });
+      set({ items: newItems });
+    },
+
     /** Clear the goToLine property for an item (call after scrolling to the line). */
     clearItemGoToLine: (path) => {
       const state = get();
@@ -796,14 +809,18 @@ export function setItemEditing(path: string, editing: boolean, goToLine?: number
   getState().setItemEditing(path, editing, goToLine);
 }
 
-export function setItemReviewing(path: string, reviewing: boolean, rewrittenContent?: string): void {
-  getState().setItemReviewing(path, reviewing, rewrittenContent);
+export function setItemReviewing(path: string, reviewing: boolean, rewrittenContent?: string, reviewSource?: 'rewrite' | 'history'): void {
+  getState().setItemReviewing(path, reviewing, rewrittenContent, reviewSource);
 }
 
 export function setItemEditContent(path: string, editContent: string): void {
   getState().setItemEditContent(path, editContent);
 }
 
+export function setItemEditBase(path: string, editBase: EditBase | undefined): void {
+  getState().setItemEditBase(path, editBase);
+}
+
 export function clearItemGoToLine(path: string): void {
   getState().clearItemGoToLine(path);
 }
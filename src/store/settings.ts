@@ -1,5 +1,5 @@
 import type { AppSettings, FontSize, SortOrder, ContentWidth, IndexTreeWidth } from '../shared/types';
-import type { ImageSize } from '../shared/shared';
+import type { EditorKeymap, ImageSize } from '../shared/shared';
 import { getState, defaultSettings } from './core';
 import type { StoreSet, StoreGet } from './core';
 
@@ -24,9 +24,15 @@ export interface SettingsSlice {
   setContentWidth: (contentWidth: ContentWidth) => void;
   setOcrToolsFolder: (ocrToolsFolder: string) => void;
   setCalendarItemsFolder: (calendarItemsFolder: string) => void;
+  setDefaultReminder: (defaultReminder: string) => void;
+  setFileHistory: (fileHistory: boolean) => void;
+  setFileHistoryMaxVersions: (fileHistoryMaxVersions: number) => void;
+  setFileHistoryMaxDays: (fileHistoryMaxDays: number) => void;
   setIndexTreeWidth: (indexTreeWidth: IndexTreeWidth) => void;
   setImageSize: (imageSize: ImageSize) => void;
   setEnableThesaurus: (enableThesaurus: boolean) => void;
+  setEditorKeymap: (editorKeymap: EditorKeymap) => void;
+  setLivePreview: (livePreview: boolean) => void;
   toggleBookmark: (filePath: string) => boolean;
   addBookmark: (filePath: string, name: string) => void;
   updateBookmarkName: (filePath: string, name: string) => void;
@@ -75,6 +81,22 @@ export function createSettingsSlice(set: StoreSet, get: StoreGet): SettingsSlice
     setCalendarItemsFolder: (calendarItemsFolder) =>
       set({ settings: { ...get().settings, calendarItemsFolder } }),
 
+    /** Update the default reminder lead time for calendar items without `remind:`. */
+    setDefaultReminder: (defaultReminder) =>
+      set({ settings: { ...get().settings, defaultReminder } }),
+
+    /** Turn keeping previous versions of saved files on or off. */
+    setFileHistory: (fileHistory) =>
+      set({ settings: { ...get().settings, fileHistory } }),
+
+    /** Update how many versions of each file are kept. */
+    setFileHistoryMaxVersions: (fileHistoryMaxVersions) =>
+      set({ settings: { ...get().settings, fileHistoryMaxVersions } }),
+
+    /** Update how many days a replaced version is kept. */
+    setFileHistoryMaxDays: (fileHistoryMaxDays) =>
+      set({ settings: { ...get().settings, fileHistoryMaxDays } }),
+
     /** Update the index tree width setting. */
     setIndexTreeWidth: (indexTreeWidth) =>
       set({ settings: { ...get().settings, indexTreeWidth } }),
@@ -93,6 +115,12 @@ export function createSettingsSlice(set: StoreSet, get: StoreGet): SettingsSlice
         ...(enableThesaurus ? null : { thesaurusWord: null }),
       }),
 
+    /** Switch the editor between its own, Vim and Emacs key bindings; open editors follow at once. */
+    setEditorKeymap: (editorKeymap) => set({ settings: { ...get().settings, editorKeymap } }),
+
+    /** Turn the Markdown editor's live preview on or off; open editors follow at once. */
+    setLivePreview: (livePreview) => set({ settings: { ...get().settings, livePreview } }),
+
     /**
      * Toggle bookmark for a file path.
      * If the path is bookmarked, removes it. If not, adds it.
@@ -190,6 +218,22 @@ export function setCalendarItemsFolder(calendarItemsFolder: string): void {
   getState().setCalendarItemsFolder(calendarItemsFolder);
 }
 
+export function setDefaultReminder(defaultReminder: string): void {
+  getState().setDefaultReminder(defaultReminder);
+}
+
+export function setFileHistory(fileHistory: boolean): void {
+  getState().setFileHistory(fileHistory);
+}
+
+export function setFileHistoryMaxVersions(fileHistoryMaxVersions: number): void {
+  getState().setFileHistoryMaxVersions(fileHistoryMaxVersions);
+}
+
+export function setFileHistoryMaxDays(fileHistoryMaxDays: number): void {
+  getState().setFileHistoryMaxDays(fileHistoryMaxDays);
+}
+
 export function setIndexTreeWidth(indexTreeWidth: IndexTreeWidth): void {
   getState().setIndexTreeWidth(indexTreeWidth);
 }
@@ -202,6 +246,14 @@ export function setEnableThesaurus(enableThesaurus: boolean): void {
   getState().setEnableThesaurus(enableThesaurus);
 }
 
+export function setEditorKeymap(editorKeymap: EditorKeymap): void {
+  getState().setEditorKeymap(editorKeymap);
+}
+
+export function setLivePreview(livePreview: boolean): void {
+  getState().setLivePreview(livePreview);
+}
+
 export function toggleBookmark(filePath: string): boolean {
   return getState().toggleBookmark(filePath);
 }
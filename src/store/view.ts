@@ -1,4 +1,5 @@
-import type { AppState, AppView, BrowseFileMode, FolderAnalysisState, FolderGraphState } from '../shared/types';
+import type { AppState, AppView, BrowseFileMode, BrokenLinkReportState, FolderAnalysisState, FolderGraphState, SaveConflict, TaskReportState } from '../shared/types';
+import type { GitStatus, LinkRewritePlan, ToolApprovalRequest } from '../shared/shared';
 import { getState } from './core';
 import type { StoreSet, StoreGet } from './core';
 import { withSelectionsCleared } from './items';
@@ -24,7 +25,7 @@ export interface ViewSlice {
   setPendingScrollToFile: (fileName: string) => void;
   setPendingScrollToHeadingSlug: (slug: string) => void;
   clearPendingScrollToHeadingSlug: () => void;
-  setPendingEditFile: (filePath: string, view?: AppView) => void;
+  setPendingEditFile: (filePath: string, view?: AppView, line?: number) => void;
   clearPendingEditFile: () => void;
   setPendingExpandFile: (filePath: string) => void;
   clearPendingExpandFile: () => void;
@@ -33,11 +34,19 @@ export interface ViewSlice {
   setPendingThreadScrollToBottom: () => void;
   clearPendingThreadScrollToBottom: () => void;
   setFolderAnalysis: (data: FolderAnalysisState | null) => void;
+  setBrokenLinkReport: (report: BrokenLinkReportState | null) => void;
+  setTaskReport: (report: TaskReportState | null) => void;
   setFolderGraph: (data: FolderGraphState | null) => void;
   setRootPath: (path: string) => void;
   showTab: (tab: AppView) => void;
   hideTab: (tab: AppView) => void;
   setSelectedLinkItems: (paths: string[]) => void;
+  setLinkRewritePreview: (plan: LinkRewritePlan | null) => void;
+  setUndoableMove: (description: string | null) => void;
+  setGitStatus: (status: GitStatus | null) => void;
+  setSaveConflict: (conflict: SaveConflict | null) => void;
+  addToolApproval: (request: ToolApprovalRequest) => void;
+  removeToolApprovals: (ids: number[]) => void;
 }
 
 /**
@@ -184,15 +193,16 @@ export function createViewSlice(set: StoreSet, get: StoreGet): ViewSlice {
      * Set a file to start editing after navigation completes.
      * @param filePath - The full path of the file to edit
      * @param view - Which view should consume the pending edit (defaults to 'browser')
+     * @param line - Optional 1-based line to open the editor at
      */
-    setPendingEditFile: (filePath, view) =>
-      set({ pendingEditFile: filePath, pendingEditView: view ?? 'browser' }),
+    setPendingEditFile: (filePath, view, line) =>
+      set({ pendingEditFile: filePath, pendingEditView: view ?? 'browser', pendingEditLine: line ?? null }),
 
     /** Clear the pending edit file (call after editing starts). */
     clearPendingEditFile: () => {
       const state = get();
-      if (state.pendingEditFile === null && state.pendingEditView === null) return;
-      set({ pendingEditFile: null, pendingEditView: null });
+      if (state.pendingEditFile === null && state.pendingEditView === null && state.pendingEditLine === null) return;
+      set({ pendingEditFile: null, pendingEditView: null, pendingEditLine: null });
     },
 
     /**
@@ -235,6 +245,12 @@ export function createViewSlice(set: StoreSet, get: StoreGet): ViewSlice {
     /** Set folder analysis results. */
     setFolderAnalysis: (data) => set({ folderAnalysis: data }),
 
+    /** Set the broken-link report. Pass null to clear it. */
+    setBrokenLinkReport: (report) => set({ brokenLinkReport: report }),
+
+    /** Set the Tasks view's scan results. Pass null to clear them. */
+    setTaskReport: (report) => set({ taskReport: report }),
+
     /**
      * Set the folder graph data. Pass null to clear it.
      * Used both for the initial scan result and to overwrite when the user
@@ -270,6 +286,30 @@ export function createViewSlice(set: StoreSet, get: StoreGet): ViewSlice {
 
     /** Store the full paths captured by "Copy Link" for later "Paste Link". */
     setSelectedLinkItems: (paths) => set({ selectedLinkItems: paths }),
+
+    /** Show (or, with null, close) the link-rewrite preview. */
+    setLinkRewritePreview: (plan) => set({ linkRewritePreview: plan }),
+
+    /** Record (or clear) the move the browse header offers to undo. */
+    setUndoableMove: (description) => {
+      if (get().undoableMove === description) return;
+      set({ undoableMove: description });
+    },
+
+    /** Replace the browse root's git status (null outside a repository). */
+    setGitStatus: (status) => set({ gitStatus: status }),
+
+    /** Show (or, with null, close) the save-conflict merge dialog. */
+    setSaveConflict: (conflict) => set({ saveConflict: conflict }),
+
+    /** Queue a tool call for the approval dialog. */
+    addToolApproval: (request) => set({ toolApprovals: [...get().toolApprovals, request] }),
+
+    /** Take answered or withdrawn tool calls off the approval queue. */
+    removeToolApprovals: (ids) => {
+      const remaining = get().toolApprovals.filter(r => !ids.includes(r.id));
+      if (remaining.length !== get().toolApprovals.length) set({ toolApprovals: remaining });
+    },
   };
 }
 
@@ -316,8 +356,8 @@ export function clearPendingScrollToHeadingSlug(): void {
   getState().clearPendingScrollToHeadingSlug();
 }
 
-export function setPendingEditFile(filePath: string, view?: AppView): void {
-  getState().setPendingEditFile(filePath, view);
+export function setPendingEditFile(filePath: string, view?: AppView, line?: number): void {
+  getState().setPendingEditFile(filePath, view, line);
 }
 
 export function clearPendingEditFile(): void {
@@ -348,6 +388,11 @@ export function getCurrentPath(): string {
   return getState().currentPath;
 }
 
+/** Get the browse root without subscribing (for async refreshes keyed to it). */
+export function getRootPath(): string {
+  return getState().rootPath;
+}
+
 export function setPendingThreadScrollToBottom(): void {
   getState().setPendingThreadScrollToBottom();
 }
@@ -360,6 +405,14 @@ export function setFolderAnalysis(data: FolderAnalysisState | null): void {
   getState().setFolderAnalysis(data);
 }
 
+export function setBrokenLinkReport(report: BrokenLinkReportState | null): void {
+  getState().setBrokenLinkReport(report);
+}
+
+export function setTaskReport(report: TaskReportState | null): void {
+  getState().setTaskReport(report);
+}
+
 export function setFolderGraph(data: FolderGraphState | null): void {
   getState().setFolderGraph(data);
 }
@@ -386,3 +439,27 @@ export function hideTab(tab: AppView): void {
 export function setSelectedLinkItems(paths: string[]): void {
   getState().setSelectedLinkItems(paths);
 }
+
+export function setLinkRewritePreview(plan: LinkRewritePlan | null): void {
+  getState().setLinkRewritePreview(plan);
+}
+
+export function setUndoableMove(description: string | null): void {
+  getState().setUndoableMove(description);
+}
+
+export function setGitStatus(status: GitStatus | null): void {
+  getState().setGitStatus(status);
+}
+
+export function setSaveConflict(conflict: SaveConflict | null): void {
+  getState().setSaveConflict(conflict);
+}
+
+export function addToolApproval(request: ToolApprovalRequest): void {
+  getState().addToolApproval(request);
+}
+
+export function removeToolApprovals(ids: number[]): void {
+  getState().removeToolApprovals(ids);
+}
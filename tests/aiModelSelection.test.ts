@@ -1,12 +1,14 @@
 /**
  * Unit tests for the active-model helpers in src/main/ai/aiModel.ts:
- * getActiveModel and getActiveProvider.
+ * getActiveModel, getActiveProvider, and the API key createChatModel gives an
+ * OPENAI_COMPATIBLE server.
  *
  * These resolve the user's selected model from config — pure selection/fallback
  * logic, no LLM call. We mock configMgr (to control the config) so nothing
  * touches disk or a network.
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChatOpenAI } from '@langchain/openai';
 import type { AIModelConfig } from '../src/shared/shared';
 
 // ---------------------------------------------------------------------------
@@ -18,7 +20,7 @@ vi.mock('../src/main/configMgr', () => ({
   getConfig: (...args: unknown[]) => mockGetConfig(...args),
 }));
 
-import { getActiveModel, getActiveProvider } from '../src/main/ai/aiModel';
+import { getActiveModel, getActiveProvider, createChatModel } from '../src/main/ai/aiModel';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -90,3 +92,25 @@ describe('getActiveProvider', () => {
     expect(getActiveProvider()).toBe('ANTHROPIC');
   });
 });
+
+// ---------------------------------------------------------------------------
+// createChatModel — OPENAI_COMPATIBLE API key
+// ---------------------------------------------------------------------------
+
+describe('createChatModel for an OPENAI_COMPATIBLE server', () => {
+  const server: AIModelConfig = { ...model('vLLM', 'OPENAI_COMPATIBLE'), baseUrl: 'http://gpu:8000/v1' };
+
+  it('reads the key from the environment variable apiKeyEnv names', () => {
+    vi.stubEnv('MKB_TEST_VLLM_KEY', 'key-from-env');
+    mockGetConfig.mockReturnValue({ aiModel: 'vLLM', aiModels: [{ ...server, apiKeyEnv: 'MKB_TEST_VLLM_KEY' }] });
+    const chat = createChatModel();
+    vi.unstubAllEnvs();
+    expect(chat).toBeInstanceOf(ChatOpenAI);
+    expect((chat as ChatOpenAI).apiKey).toBe('key-from-env');
+  });
+
+  it('sends a placeholder key when none is configured', () => {
+    mockGetConfig.mockReturnValue({ aiModel: 'vLLM', aiModels: [server] });
+    expect((createChatModel() as ChatOpenAI).apiKey).toBe('not-needed');
+  });
+});
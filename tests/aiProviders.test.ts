@@ -0,0 +1,56 @@
+/**
+ * Unit tests for src/shared/ai/aiProviders.ts — the server settings the model
+ * editor shows for OPENAI_COMPATIBLE and OLLAMA models.
+ */
+import { describe, it, expect } from 'vitest';
+import { providerHasBaseUrl, parseHeaderLines, formatHeaderLines, isEnvVarName } from '../src/shared/ai/aiProviders';
+
+describe('providerHasBaseUrl', () => {
+  it('is true only for the providers whose models name their own server', () => {
+    expect(providerHasBaseUrl('OPENAI_COMPATIBLE')).toBe(true);
+    expect(providerHasBaseUrl('OLLAMA')).toBe(true);
+    expect(providerHasBaseUrl('LLAMACPP')).toBe(false);
+    expect(providerHasBaseUrl('OPENAI')).toBe(false);
+  });
+});
+
+describe('parseHeaderLines', () => {
+  it('parses one Name: value per line, skipping blank lines', () => {
+    expect(parseHeaderLines('Authorization: Bearer abc:def\n\n  X-Org:  team-1  \n')).toEqual({
+      Authorization: 'Bearer abc:def',
+      'X-Org': 'team-1',
+    });
+  });
+
+  it('is empty for empty text', () => {
+    expect(parseHeaderLines('')).toEqual({});
+  });
+
+  it('rejects a line without a header name', () => {
+    expect(parseHeaderLines('Authorization')).toBeNull();
+    expect(parseHeaderLines(': value')).toBeNull();
+    expect(parseHeaderLines('Bad Name: value')).toBeNull();
+  });
+});
+
+describe('formatHeaderLines', () => {
+  it('round-trips through parseHeaderLines', () => {
+    const headers = { Authorization: 'Bearer abc', 'X-Org': 'team-1' };
+    expect(formatHeaderLines(headers)).toBe('Authorization: Bearer abc\nX-Org: team-1');
+    expect(parseHeaderLines(formatHeaderLines(headers))).toEqual(headers);
+  });
+
+  it('is empty without headers', () => {
+    expect(formatHeaderLines(undefined)).toBe('');
+  });
+});
+
+describe('isEnvVarName', () => {
+  it('accepts environment variable names and nothing else', () => {
+    expect(isEnvVarName('OPENROUTER_API_KEY')).toBe(true);
+    expect(isEnvVarName('_key2')).toBe(true);
+    expect(isEnvVarName('2KEY')).toBe(false);
+    expect(isEnvVarName('MY-KEY')).toBe(false);
+    expect(isEnvVarName('sk-abc123')).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for src/main/brokenLinks.ts (the Tools > Check Links report) and
+ * the fuzzy matching behind its "did you mean" suggestions (src/shared/fuzzyMatch.ts).
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { findBrokenLinks, imageCandidates, matchesHeading } from '../src/main/brokenLinks';
+import { closestMatches, editDistance, similarity, subsequenceScore } from '../src/shared/fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  it('computes edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  it('scores case-insensitively on a 0..1 scale', () => {
+    expect(similarity('Plan.md', 'plan.md')).toBe(1);
+    expect(similarity('abc', 'xyz')).toBe(0);
+  });
+
+  it('returns the closest candidates above the threshold, best first', () => {
+    expect(closestMatches('roadmap', ['readme', 'roadmaps', 'road-map', 'zzz'], s => s))
+      .toEqual(['roadmaps', 'road-map']);
+  });
+
+  it('scores abbreviations, preferring word starts and runs', () => {
+    expect(subsequenceScore('xyz', 'meeting-notes')).toBeNull();
+    expect(subsequenceScore('', 'anything')).toBe(0);
+    expect(subsequenceScore('mnot', 'meeting-notes')!).toBeGreaterThan(subsequenceScore('mnot', 'maintenance-protocol')!);
+    expect(subsequenceScore('PLAN', 'plan')).toBe(subsequenceScore('plan', 'plan'));
+  });
+});
+
+describe('imageCandidates', () => {
+  it('tries the file folder first, then each parent', () => {
+    const source = path.resolve('/vault/a/b/note.md');
+    expect(imageCandidates(source, 'img/x.png').slice(0, 3)).toEqual([
+      path.resolve('/vault/a/b/img/x.png'),
+      path.resolve('/vault/a/img/x.png'),
+      path.resolve('/vault/img/x.png'),
+    ]);
+  });
+});
+
+describe('matchesHeading', () => {
+  const headings = [{ text: 'Next Steps', slug: 'next-steps' }];
+
+  it('accepts the slug or the heading text', () => {
+    expect(matchesHeading('next-steps', headings)).toBe(true);
+    expect(matchesHeading('Next Steps', headings)).toBe(true);
+    expect(matchesHeading('later', headings)).toBe(false);
+  });
+});
+
+describe('findBrokenLinks', () => {
+  let vault: string;
+  const file = (...parts: string[]) => path.join(vault, ...parts);
+  const write = (content: string, ...parts: string[]) => fs.promises.writeFile(file(...parts), content, 'utf8');
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'broken-links-'));
+    await fs.promises.mkdir(file('notes'));
+    await fs.promises.mkdir(file('archive'));
+    await fs.promises.mkdir(file('img'));
+    await write('# Plan\n\n## Next Steps\n', 'archive', 'plan.md');
+    await write('png', 'img', 'diagram.png');
+    await write('# Other\n', 'notes', 'other.md');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+  });
+
+  it('reports nothing when every link works', async () => {
+    await write([
+      '[other](other.md) [[other]] [[../archive/plan#Next Steps]]',
+      '[steps](../archive/plan.md#next-steps) [top](#intro)',
+      '![d](img/diagram.png) [folder](../archive)',
+      '# Intro',
+    ].join('\n'), 'notes', 'index.md');
+    const report = await findBrokenLinks(file('notes'), vault, []);
+    expect(report).toEqual({ brokenLinks: [], totalFiles: 2, totalLinks: 7 });
+  });
+
+  it('reports missing files, images and headings with suggestions', async () => {
+    await write([
+      'See [plan](plan.md) and [[plann]].',
+      '![d](img/diagrm.png)',
+      '[[other#Othr]] [x](other.md#nope)',
+    ].join('\n'), 'notes', 'index.md');
+    const { brokenLinks } = await findBrokenLinks(file('notes'), vault, []);
+    expect(brokenLinks.map(b => [b.line, b.link, b.reason, b.suggestions])).toEqual([
+      [1, 'plan.md', 'missing-file', ['../archive/plan.md']],
+      [1, 'plann', 'missing-file', ['../archive/plan']],
+      [2, 'img/diagrm.png', 'missing-image', ['../img/diagram.png']],
+      [3, 'other#Othr', 'missing-heading', ['other#Other']],
+      [3, 'other.md#nope', 'missing-heading', []],
+    ]);
+    expect(brokenLinks[0]).toMatchObject({ sourcePath: file('notes', 'index.md'), context: 'See [plan](plan.md) and [[plann]].' });
+  });
+
+  it('resolves wikilinks by name anywhere in the vault', async () => {
+    await write('[[plan#Next Steps]] [[archive/plan]] [[plan#Later]]', 'notes', 'index.md');
+    const { brokenLinks } = await findBrokenLinks(file('notes'), vault, []);
+    expect(brokenLinks.map(b => [b.link, b.reason])).toEqual([['plan#Later', 'missing-heading']]);
+  });
+
+  it('checks block ids', async () => {
+    await write('# Other\n\nA key point. ^key-point\n', 'notes', 'other.md');
+    await write('[[other#^key-point]] [[other#^key-pont]] [[other#^gone]]', 'notes', 'index.md');
+    const { brokenLinks } = await findBrokenLinks(file('notes'), vault, []);
+    expect(brokenLinks.map(b => [b.link, b.reason, b.suggestions])).toEqual([
+      ['other#^key-pont', 'missing-block', ['other#^key-point']],
+      ['other#^gone', 'missing-block', []],
+    ]);
+  });
+
+  it('skips ignored folders', async () => {
+    await fs.promises.mkdir(file('notes', 'drafts'));
+    await write('[[missing]]', 'notes', 'drafts', 'draft.md');
+    const report = await findBrokenLinks(file('notes'), vault, ['drafts']);
+    expect(report.brokenLinks).toEqual([]);
+    expect(report.totalFiles).toBe(1);
+  });
+});
@@ -19,6 +19,11 @@ import {
   coerceDueDate,
   formatDueDate,
   isCalendarFrontMatter,
+  rescheduleCalendarItem,
+  rescheduleOccurrence,
+  shiftCalendarSeries,
+  excludeOccurrence,
+  parseReminderLead,
 } from '../src/shared/calendarUtil';
 import { parseFrontMatter } from '../src/shared/frontMatterUtil';
 
@@ -334,6 +339,112 @@ describe('loadCalendarEntryForFile — byday recurring (MO/WE/FR, count: 6)', ()
   });
 });
 
+describe('loadCalendarEntryForFile — excluded dates', () => {
+  it('skips occurrences on exdate days, keeping the other ids', async () => {
+    write('excluded.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\nrrule:\n  freq: weekly\n  count: 3\n  exdate:\n    - 6/8/2026\n---\n');
+    const results = await loadCalendarEntryForFile(f('excluded.md'));
+    expect(results.map(r => new Date(r.start).getDate())).toEqual([1, 15]);
+    expect(results.map(r => r.id)).toEqual([`${f('excluded.md')}::0`, `${f('excluded.md')}::2`]);
+    expect(results.every(r => r.recurring)).toBe(true);
+  });
+});
+
+describe('loadCalendarEntryForFile — reminders', () => {
+  it('carries the remind: lead onto every occurrence', async () => {
+    write('remind.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\nremind: 2h\nrrule:\n  freq: daily\n  count: 2\n---\n');
+    const results = await loadCalendarEntryForFile(f('remind.md'));
+    expect(results.map(r => r.remind)).toEqual([120, 120]);
+  });
+
+  it('marks a reminder turned off, and leaves items without remind: to the default', async () => {
+    write('remind-off.md', '---\ndue: 6/1/2026\nremind: off\n---\n');
+    expect((await loadCalendarEntryForFile(f('remind-off.md')))[0]!.remind).toBeNull();
+    expect((await loadCalendarEntryForFile(f('simple-event.md')))[0]).not.toHaveProperty('remind');
+  });
+
+  it('warns about an unrecognized remind: and uses the default', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    write('remind-bad.md', '---\ndue: 6/1/2026\nremind: soon\n---\n');
+    expect((await loadCalendarEntryForFile(f('remind-bad.md')))[0]).not.toHaveProperty('remind');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("unrecognized 'remind'"));
+    warn.mockRestore();
+  });
+});
+
+describe('parseReminderLead', () => {
+  it('reads minutes, hours, days and weeks, and bare numbers as minutes', () => {
+    expect(parseReminderLead('15m')).toBe(15);
+    expect(parseReminderLead(' 1.5H ')).toBe(90);
+    expect(parseReminderLead('1d')).toBe(1440);
+    expect(parseReminderLead('1w')).toBe(10080);
+    expect(parseReminderLead('30')).toBe(30);
+    expect(parseReminderLead(45)).toBe(45);
+  });
+
+  it('gives null for off and undefined for absent or unreadable values', () => {
+    for (const off of ['off', 'none', '0', '0m', 0, false]) expect(parseReminderLead(off)).toBeNull();
+    for (const other of [undefined, null, '', 'soon', '-5m', -5, true]) expect(parseReminderLead(other)).toBeUndefined();
+  });
+});
+
+describe('loadCalendarEntryForFile — occurrence overrides', () => {
+  it('moves, retimes and renames the named occurrence only', async () => {
+    write('overridden.md', [
+      '---', 'due: 6/1/2026', 'start: "9:00 AM"', 'duration: 1', 'rrule:', '  freq: weekly', '  count: 3',
+      '  overrides:', '    - date: 6/8/2026', '      due: 6/9/2026', '      start: "2:30 PM"', '      title: Planning',
+      '---', '',
+    ].join('\n'));
+    const results = await loadCalendarEntryForFile(f('overridden.md'));
+    expect(results).toHaveLength(3);
+    const moved = results[1]!;
+    expect(moved.title).toBe('Planning');
+    expect(new Date(moved.start)).toEqual(new Date(2026, 5, 9, 14, 30));
+    expect(moved.end - moved.start).toBe(60 * 60 * 1000);
+    expect(moved.occurrence).toBe(new Date(2026, 5, 8).getTime());
+    expect(results[2]!.title).toBe('overridden');
+  });
+
+  it('makes an occurrence all-day', async () => {
+    write('allday-override.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\nrrule:\n  freq: daily\n  count: 2\n  overrides:\n    - date: 6/2/2026\n      allday: true\n---\n');
+    const [, second] = await loadCalendarEntryForFile(f('allday-override.md'));
+    expect(second!.start).toBe(new Date(2026, 5, 2).getTime());
+    expect(second!.end).toBe(second!.start);
+  });
+});
+
+describe('loadCalendarEntryForFile — richer rules', () => {
+  it('expands the last Friday of each month (byday + bysetpos)', async () => {
+    write('last-friday.md', '---\ndue: 6/1/2026\nrrule:\n  freq: monthly\n  byday: FR\n  bysetpos: -1\n  count: 3\n---\n');
+    const results = await loadCalendarEntryForFile(f('last-friday.md'));
+    expect(results.map(r => new Date(r.start).toDateString())).toEqual([
+      new Date(2026, 5, 26).toDateString(), new Date(2026, 6, 31).toDateString(), new Date(2026, 7, 28).toDateString(),
+    ]);
+  });
+
+  it('accepts a numbered byday code', async () => {
+    write('second-tuesday.md', '---\ndue: 6/1/2026\nrrule:\n  freq: monthly\n  byday: 2TU\n  count: 2\n---\n');
+    const results = await loadCalendarEntryForFile(f('second-tuesday.md'));
+    expect(results.map(r => new Date(r.start).getDate())).toEqual([9, 14]);
+  });
+
+  it('expands days of the month, counting back from the end for negatives', async () => {
+    write('monthday.md', '---\ndue: 6/1/2026\nrrule:\n  freq: monthly\n  bymonthday: 15,-1\n  count: 4\n---\n');
+    const results = await loadCalendarEntryForFile(f('monthday.md'));
+    expect(results.map(r => new Date(r.start).getDate())).toEqual([15, 30, 15, 31]);
+  });
+
+  it('uses wkst to decide which weeks an interval skips', async () => {
+    // Every other week on Monday and Sunday from Monday 6/1: with weeks starting on
+    // Monday, 6/7 (Sunday) ends the first week; starting on Sunday, it begins the skipped one.
+    const content = (wkst: string) => `---\ndue: 6/1/2026\nrrule:\n  freq: weekly\n  interval: 2\n  byday: MO,SU\n  wkst: ${wkst}\n  count: 3\n---\n`;
+    write('wkst-mo.md', content('MO'));
+    write('wkst-su.md', content('SU'));
+    const days = async (name: string) => (await loadCalendarEntryForFile(f(name))).map(r => new Date(r.start).getDate());
+    expect(await days('wkst-mo.md')).toEqual([1, 7, 15]);
+    expect(await days('wkst-su.md')).toEqual([1, 14, 15]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // loadCalendarEntryForFile — timezone / DST behavior
 //
@@ -414,6 +525,50 @@ describe('loadCalendarEntryForFile — timezone / DST', () => {
   });
 });
 
+describe('loadCalendarEntryForFile — tz: zoned items', () => {
+  it('places a timed item on the clocks of its zone', async () => {
+    write('tz-zoned.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\ntz: America/New_York\n---\n');
+    const [ev] = await loadCalendarEntryForFile(f('tz-zoned.md'));
+    expect(ev!.start).toBe(Date.UTC(2026, 5, 1, 13, 0));
+    expect(ev!.end).toBe(Date.UTC(2026, 5, 1, 14, 0));
+    expect(ev!.timeZone).toBe('America/New_York');
+  });
+
+  it('keeps a weekly occurrence at the zone\'s wall-clock across its DST change', async () => {
+    // New York springs forward on Sun Mar 8 2026: 9:00 is 14:00 UTC before, 13:00 after.
+    write('tz-zoned-dst.md', '---\ndue: 3/2/2026\nstart: "9:00 AM"\ntz: America/New_York\nrrule:\n  freq: weekly\n  count: 3\n---\n');
+    const results = await loadCalendarEntryForFile(f('tz-zoned-dst.md'));
+    expect(results.map(r => r.start)).toEqual([
+      Date.UTC(2026, 2, 2, 14, 0),
+      Date.UTC(2026, 2, 9, 13, 0),
+      Date.UTC(2026, 2, 16, 13, 0),
+    ]);
+    for (const ev of results) expect(ev.timeZone).toBe('America/New_York');
+  });
+
+  it('places an override\'s time on the item\'s zone too', async () => {
+    write('tz-zoned-override.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\ntz: Asia/Tokyo\nrrule:\n  freq: daily\n  count: 2\n  overrides:\n    - date: 6/2/2026\n      start: "3:00 PM"\n---\n');
+    const results = await loadCalendarEntryForFile(f('tz-zoned-override.md'));
+    expect(results.map(r => r.start)).toEqual([Date.UTC(2026, 5, 1, 0, 0), Date.UTC(2026, 5, 2, 6, 0)]);
+  });
+
+  it('leaves an all-day item on its day', async () => {
+    write('tz-zoned-allday.md', '---\ndue: 6/1/2026\ntz: Asia/Tokyo\n---\n');
+    const [ev] = await loadCalendarEntryForFile(f('tz-zoned-allday.md'));
+    expect(ev!.start).toBe(new Date(2026, 5, 1).getTime());
+  });
+
+  it('warns about an unknown zone and uses local time', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    write('tz-bad.md', '---\ndue: 6/1/2026\nstart: "9:00 AM"\ntz: Mars/Olympus_Mons\n---\n');
+    const [ev] = await loadCalendarEntryForFile(f('tz-bad.md'));
+    expect(ev!.start).toBe(new Date(2026, 5, 1, 9, 0).getTime());
+    expect(ev).not.toHaveProperty('timeZone');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("unknown time zone 'tz'"));
+    warn.mockRestore();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // loadCalendarEntryForFile — malformed rrule fields (untyped YAML coercion)
 // ---------------------------------------------------------------------------
@@ -1238,3 +1393,120 @@ describe('isCalendarFrontMatter — the boolean form of the loader admission rul
     expect(isCalendarFrontMatter({})).toBe(false);
   });
 });
+
+describe('rescheduleCalendarItem', () => {
+  const TIMED = '---\ndue: 6/1/2026\nstart: "9:00 AM"\nduration: 1\n---\nBody\n';
+
+  it('writes the new day, time and length', () => {
+    const result = rescheduleCalendarItem(TIMED, new Date(2026, 5, 3, 14, 30), new Date(2026, 5, 3, 16, 0), false);
+    expect(parseFrontMatter(result).yaml).toEqual({ due: '6/3/2026', start: '2:30 PM', duration: 1.5 });
+    expect(parseFrontMatter(result).content).toBe('Body\n');
+  });
+
+  it('drops start and duration for an all-day slot', () => {
+    const result = rescheduleCalendarItem(TIMED, new Date(2026, 5, 4), new Date(2026, 5, 4), true);
+    expect(parseFrontMatter(result).yaml).toEqual({ due: '6/4/2026' });
+  });
+
+  it('gives an all-day item dragged into the time grid the default hour', () => {
+    const at = new Date(2026, 5, 4, 10, 0);
+    const result = rescheduleCalendarItem('---\ndue: 6/1/2026\n---\n', at, at, false);
+    expect(parseFrontMatter(result).yaml).toEqual({ due: '6/4/2026', start: '10:00 AM', duration: 1 });
+  });
+});
+
+describe('shiftCalendarSeries', () => {
+  const SERIES = '---\ndue: 6/1/2026\nstart: "9:00 AM"\nduration: 1\nrrule:\n  freq: weekly\n  byday: MO,WE\n  until: 12/31/2026\n---\n';
+
+  it('moves due by the occurrence shift and turns byday with it', () => {
+    // The 6/10 (Wed) occurrence moved to Thursday at 11.
+    const result = shiftCalendarSeries(SERIES, new Date(2026, 5, 10, 9, 0), new Date(2026, 5, 11, 11, 0), new Date(2026, 5, 11, 12, 0), false);
+    expect(parseFrontMatter(result).yaml).toEqual({
+      due: '6/2/2026',
+      start: '11:00 AM',
+      duration: 1,
+      rrule: { freq: 'weekly', byday: 'TU,TH', until: '12/31/2026' },
+    });
+  });
+
+  it('moves excluded and changed occurrences along with the series', () => {
+    const content = '---\ndue: 6/1/2026\nrrule:\n  freq: daily\n  exdate:\n    - 6/3/2026\n  overrides:\n    - date: 6/4/2026\n      due: 6/5/2026\n---\n';
+    const result = shiftCalendarSeries(content, new Date(2026, 5, 1), new Date(2026, 5, 2), new Date(2026, 5, 2), true);
+    const rrule = getRRuleProperty(result);
+    expect(rrule?.exdate).toEqual(['6/4/2026']);
+    expect(rrule?.overrides).toEqual([{ date: '6/5/2026', due: '6/6/2026' }]);
+  });
+
+  it('keeps byday when the series moves by whole weeks', () => {
+    const result = shiftCalendarSeries(SERIES, new Date(2026, 5, 8, 9, 0), new Date(2026, 5, 15, 9, 0), new Date(2026, 5, 15, 10, 0), false);
+    expect(getDueProperty(result)).toBe('6/8/2026');
+    expect(getRRuleProperty(result)?.byday).toBe('MO,WE');
+  });
+
+  it('moves bymonthday days with the series, wrapping within the month', () => {
+    const monthly = '---\ndue: 6/15/2026\nrrule:\n  freq: monthly\n  bymonthday: 15\n---\n';
+    const later = shiftCalendarSeries(monthly, new Date(2026, 6, 15), new Date(2026, 6, 16), new Date(2026, 6, 16), true);
+    expect(getDueProperty(later)).toBe('6/16/2026');
+    expect(getRRuleProperty(later)?.bymonthday).toBe('16');
+
+    const ends = '---\ndue: 6/1/2026\nrrule:\n  freq: monthly\n  bymonthday: 1,31,-1\n---\n';
+    const earlier = shiftCalendarSeries(ends, new Date(2026, 6, 1), new Date(2026, 5, 30), new Date(2026, 5, 30), true);
+    expect(getRRuleProperty(earlier)?.bymonthday).toBe('-1,30,-2');
+    const after = shiftCalendarSeries(ends, new Date(2026, 6, 1), new Date(2026, 6, 2), new Date(2026, 6, 2), true);
+    expect(getRRuleProperty(after)?.bymonthday).toBe('2,1,1');
+  });
+});
+
+describe('excludeOccurrence', () => {
+  it('adds the occurrence day to rrule.exdate once', () => {
+    const content = '---\ndue: 6/1/2026\nrrule:\n  freq: daily\n---\n';
+    const once = excludeOccurrence(content, new Date(2026, 5, 3, 9, 0));
+    expect(getRRuleProperty(once)?.exdate).toEqual(['6/3/2026']);
+    expect(excludeOccurrence(once, new Date(2026, 5, 3))).toBe(once);
+    expect(getRRuleProperty(excludeOccurrence(once, new Date(2026, 5, 5)))?.exdate).toEqual(['6/3/2026', '6/5/2026']);
+  });
+
+  it('survives setRRuleProperty round trips', () => {
+    const content = excludeOccurrence('---\ndue: 6/1/2026\nrrule:\n  freq: daily\n---\n', new Date(2026, 5, 3));
+    const rrule = getRRuleProperty(content)!;
+    expect(getRRuleProperty(setRRuleProperty(content, { ...rrule, interval: '2' }))?.exdate).toEqual(['6/3/2026']);
+  });
+});
+
+describe('rescheduleOccurrence', () => {
+  const SERIES = '---\ndue: 6/1/2026\nstart: "9:00 AM"\nrrule:\n  freq: weekly\n  overrides:\n    - date: 6/8/2026\n      title: Planning\n---\n';
+
+  it('writes the move as an override, keeping its title', () => {
+    const result = rescheduleOccurrence(SERIES, new Date(2026, 5, 8), new Date(2026, 5, 9, 13, 0), new Date(2026, 5, 9, 15, 0), false);
+    expect(getDueProperty(result)).toBe('6/1/2026');
+    expect(getRRuleProperty(result)?.overrides).toEqual([
+      { date: '6/8/2026', due: '6/9/2026', start: '1:00 PM', duration: '2', title: 'Planning' },
+    ]);
+  });
+
+  it('adds an all-day override for a new occurrence', () => {
+    const result = rescheduleOccurrence(SERIES, new Date(2026, 5, 15), new Date(2026, 5, 15), new Date(2026, 5, 15), true);
+    expect(getRRuleProperty(result)?.overrides).toEqual([
+      { date: '6/8/2026', title: 'Planning' },
+      { date: '6/15/2026', allday: true },
+    ]);
+  });
+});
+
+describe('rrule fields — richer rules and exceptions', () => {
+  it('round-trips bymonthday, bysetpos, wkst and overrides with no prior front matter', () => {
+    const rrule = {
+      freq: 'monthly', byday: 'FR', bysetpos: '-1', bymonthday: '1,15', wkst: 'SU',
+      exdate: ['7/31/2026'], overrides: [{ date: '8/28/2026', start: '3:00 PM', title: 'Late review' }],
+    };
+    const fromNothing = setRRuleProperty('Body\n', rrule);
+    const fromFrontMatter = setRRuleProperty('---\ndue: 6/1/2026\n---\nBody\n', rrule);
+    expect(getRRuleProperty(fromNothing)).toEqual({ ...rrule, interval: undefined, until: undefined, count: undefined });
+    expect(getRRuleProperty(fromFrontMatter)).toEqual(getRRuleProperty(fromNothing));
+  });
+
+  it('ignores overrides without a date', () => {
+    const content = '---\ndue: 6/1/2026\nrrule:\n  freq: daily\n  overrides:\n    - start: "9:00 AM"\n---\n';
+    expect(getRRuleProperty(content)?.overrides).toBeUndefined();
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Unit tests for src/main/calendarIcs.ts: iCalendar export of calendar items
+ * (RRULEs kept, not expanded) and import of `.ics` events as calendar files.
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { buildIcs, exportCalendarToIcs, icsEventToMarkdown, importIcsFile, parseIcs } from '../src/main/calendarIcs';
+import { parseCalendarItem, type CalendarItem } from '../src/main/calendarLoader';
+import { parseFrontMatter } from '../src/shared/frontMatterUtil';
+
+const NOW = new Date(Date.UTC(2026, 0, 2, 3, 4, 5));
+
+function item(content: string, name = 'Standup.md'): { filePath: string; item: CalendarItem } {
+  const filePath = path.join('/vault', name);
+  return { filePath, item: parseCalendarItem(filePath, content)! };
+}
+
+/** The lines of an .ics document, unfolded. */
+function icsLines(ics: string): string[] {
+  return ics.replace(/\r\n[ \t]/g, '').split('\r\n').filter(Boolean);
+}
+
+describe('buildIcs', () => {
+  it('exports a timed recurring item with its rule, not its occurrences', () => {
+    const ics = buildIcs([item([
+      '---',
+      'due: 3/2/2026',
+      'start: "9:30 AM"',
+      'duration: 1.5',
+      'rrule:',
+      '  freq: weekly',
+      '  interval: 2',
+      '  byday: MO,WE',
+      '  until: 12/31/2027',
+      '---',
+      'Daily sync; bring notes, please.',
+    ].join('\n'))], NOW);
+    const lines = icsLines(ics);
+    expect(lines).toEqual(expect.arrayContaining([
+      'SUMMARY:Standup',
+      'DTSTART:20260302T093000',
+      'DURATION:PT1H30M',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20271231T235959',
+      'DESCRIPTION:Daily sync\\; bring notes\\, please.',
+      'DTSTAMP:20260102T030405Z',
+    ]));
+    expect(lines.filter(l => l === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+  });
+
+  it('exports an all-day item as a date with a date UNTIL', () => {
+    const lines = icsLines(buildIcs([item('---\ndue: 2026-03-05\nrrule:\n  freq: yearly\n  count: 3\n---\n')], NOW));
+    expect(lines).toEqual(expect.arrayContaining([
+      'DTSTART;VALUE=DATE:20260305',
+      'DTEND;VALUE=DATE:20260306',
+      'RRULE:FREQ=YEARLY;COUNT=3',
+    ]));
+    expect(lines.some(l => l.startsWith('DESCRIPTION'))).toBe(false);
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const ics = buildIcs([item(`---\ndue: 3/5/2026\n---\n${'é'.repeat(100)}\n`)], NOW);
+    for (const line of ics.split('\r\n')) expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    expect(icsLines(ics)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+});
+
+describe('parseIcs', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'SUMMARY:Team review',
+    'DTSTART:20260310T140000',
+    'DTEND:20260310T153000',
+    'RRULE:FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2;WKST=MO',
+    'DESCRIPTION:Agenda:\\nslides\\, demos',
+    'BEGIN:VALARM',
+    'DESCRIPTION:Reminder',
+    'END:VALARM',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'SUMMARY:Holi',
+    ' day',
+    'DTSTART;VALUE=DATE:20261225',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'SUMMARY:Moved review',
+    'RECURRENCE-ID:20260414T140000',
+    'DTSTART:20260415T140000',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  it('reads events, unfolding lines and ignoring alarms and occurrence edits without a series', () => {
+    const { events, skipped } = parseIcs(ics);
+    expect(skipped).toBe(1);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      summary: 'Team review',
+      description: 'Agenda:\nslides, demos',
+      startTime: { hours: 14, minutes: 0 },
+      durationHours: 1.5,
+      rrule: { freq: 'monthly', byday: 'TU', bysetpos: '2', wkst: 'MO' },
+      dropped: [],
+    });
+    expect(events[0]!.due).toEqual(new Date(2026, 2, 10));
+    expect(events[1]).toMatchObject({ summary: 'Holiday', startTime: null, durationHours: null, rrule: null });
+  });
+
+  it('turns occurrence edits of a series into overrides and excluded dates', () => {
+    const { events, skipped } = parseIcs([
+      'BEGIN:VEVENT', 'UID:s1', 'SUMMARY:Sync', 'DTSTART:20260302T090000', 'DURATION:PT1H',
+      'RRULE:FREQ=WEEKLY;BYDAY=-1MO', 'EXDATE:20260309T090000,20260316T090000', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:s1', 'RECURRENCE-ID:20260323T090000', 'SUMMARY:Sync (remote)',
+      'DTSTART:20260324T100000', 'DTEND:20260324T113000', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:s1', 'RECURRENCE-ID:20260330T090000', 'STATUS:CANCELLED', 'DTSTART:20260330T090000', 'END:VEVENT',
+    ].join('\r\n'));
+    expect(skipped).toBe(0);
+    expect(events).toHaveLength(1);
+    expect(events[0]!.rrule).toEqual({
+      freq: 'weekly',
+      byday: '-1MO',
+      exdate: ['3/9/2026', '3/16/2026', '3/30/2026'],
+      overrides: [{ date: '3/23/2026', due: '3/24/2026', start: '10:00 AM', duration: '1.5', title: 'Sync (remote)' }],
+    });
+  });
+
+  it('round-trips an exported item', () => {
+    const exported = buildIcs([item('---\ndue: 3/2/2026\nstart: "9:30 AM"\nduration: 2\nrrule:\n  freq: daily\n  until: 3/9/2026\n---\nBody\n')], NOW);
+    const [event] = parseIcs(exported).events;
+    const { yaml, content } = parseFrontMatter(icsEventToMarkdown(event!));
+    expect(yaml).toEqual({ due: '3/2/2026', start: '9:30 AM', duration: 2, rrule: { freq: 'daily', until: '3/9/2026' } });
+    expect(content).toBe('Body\n');
+  });
+
+  it('round-trips exceptions, overrides and the richer rule parts', () => {
+    const exported = buildIcs([item([
+      '---', 'due: 3/6/2026', 'start: "9:00 AM"', 'rrule:', '  freq: monthly', '  byday: FR', '  bysetpos: -1',
+      '  exdate:', '    - 4/24/2026', '  overrides:', '    - date: 5/29/2026', '      start: "2:00 PM"', '      title: Review',
+      '---', '',
+    ].join('\n'))], NOW);
+    expect(icsLines(exported)).toEqual(expect.arrayContaining([
+      'RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1',
+      'EXDATE:20260424T090000',
+      'RECURRENCE-ID:20260529T090000',
+      'DTSTART:20260529T140000',
+      'SUMMARY:Review',
+    ]));
+    const { events } = parseIcs(exported);
+    expect(events).toHaveLength(1);
+    expect(parseFrontMatter(icsEventToMarkdown(events[0]!)).yaml).toEqual({
+      due: '3/6/2026',
+      start: '9:00 AM',
+      duration: 1,
+      rrule: {
+        freq: 'monthly', byday: 'FR', bysetpos: -1, exdate: ['4/24/2026'],
+        overrides: [{ date: '5/29/2026', start: '2:00 PM', duration: 1, title: 'Review' }],
+      },
+    });
+  });
+});
+
+describe('tz: items', () => {
+  const zoned = '---\ndue: 3/2/2026\nstart: "9:00 AM"\ntz: America/New_York\nrrule:\n  freq: weekly\n  until: 3/30/2026\n  exdate:\n    - 3/9/2026\n---\n';
+
+  it('exports the zone as TZID, with the UNTIL in UTC', () => {
+    expect(icsLines(buildIcs([item(zoned)], NOW))).toEqual(expect.arrayContaining([
+      'DTSTART;TZID=America/New_York:20260302T090000',
+      'RRULE:FREQ=WEEKLY;UNTIL=20260331T035959Z',
+      'EXDATE;TZID=America/New_York:20260309T090000',
+    ]));
+  });
+
+  it('describes each zone used in a VTIMEZONE, with rules from the year before its first item', () => {
+    const lines = icsLines(buildIcs([item(zoned)], NOW));
+    const zone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+    expect(zone).toEqual([
+      'BEGIN:VTIMEZONE', 'TZID:America/New_York',
+      'BEGIN:DAYLIGHT', 'DTSTART:20250309T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20251102T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(lines.indexOf('END:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('ends each rule where the zone changed its rules, up to this year', () => {
+    const since2005 = '---\ndue: 6/6/2005\nstart: "9:00 AM"\ntz: America/New_York\nrrule:\n  freq: yearly\n---\n';
+    const lines = icsLines(buildIcs([item(since2005)], NOW));
+    expect(lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1)).toEqual([
+      'BEGIN:VTIMEZONE', 'TZID:America/New_York',
+      'BEGIN:DAYLIGHT', 'DTSTART:20040404T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400',
+      'RRULE:FREQ=YEARLY;BYMONTH=4;BYDAY=1SU;UNTIL=20060402T070000Z', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20041031T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU;UNTIL=20061029T060000Z', 'END:STANDARD',
+      'BEGIN:DAYLIGHT', 'DTSTART:20070311T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20071104T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('writes "last weekday" rules, and a fixed offset for a zone without daylight saving', () => {
+    const berlin = icsLines(buildIcs([item(zoned.replace('America/New_York', 'Europe/Berlin'))], NOW));
+    expect(berlin).toEqual(expect.arrayContaining([
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    ]));
+    const tokyo = icsLines(buildIcs([item(zoned.replace('America/New_York', 'Asia/Tokyo'))], NOW));
+    expect(tokyo.slice(tokyo.indexOf('BEGIN:VTIMEZONE'), tokyo.indexOf('END:VTIMEZONE') + 1)).toEqual([
+      'BEGIN:VTIMEZONE', 'TZID:Asia/Tokyo',
+      'BEGIN:STANDARD', 'DTSTART:19700101T000000', 'TZOFFSETFROM:+0900', 'TZOFFSETTO:+0900', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('writes no VTIMEZONE for floating times', () => {
+    expect(icsLines(buildIcs([item(zoned.replace('tz: America/New_York\n', ''))], NOW))).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('round-trips the zone through tz:', () => {
+    const [event] = parseIcs(buildIcs([item(zoned)], NOW)).events;
+    expect(event!.timeZone).toBe('America/New_York');
+    expect(parseFrontMatter(icsEventToMarkdown(event!)).yaml).toEqual({
+      due: '3/2/2026', start: '9:00 AM', duration: 1, tz: 'America/New_York',
+      rrule: { freq: 'weekly', until: '3/30/2026', exdate: ['3/9/2026'] },
+    });
+  });
+
+  it('takes a TZID that is no IANA zone as local time', () => {
+    const [event] = parseIcs('BEGIN:VEVENT\r\nSUMMARY:Call\r\nDTSTART;TZID=Eastern Standard Time:20260302T090000\r\nEND:VEVENT\r\n').events;
+    expect(event).toMatchObject({ startTime: { hours: 9, minutes: 0 }, timeZone: null });
+  });
+});
+
+describe('icsEventToMarkdown', () => {
+  it('writes an all-day event without start or duration', () => {
+    const [event] = parseIcs('BEGIN:VEVENT\r\nSUMMARY:Trip\r\nDTSTART;VALUE=DATE:20260801\r\nEND:VEVENT\r\n').events;
+    expect(icsEventToMarkdown(event!)).toBe('---\ndue: 8/1/2026\n---\n');
+  });
+});
+
+describe('export and import files', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'calendar-ics-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('exports only calendar items', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'a.md'), '---\ndue: 3/5/2026\n---\n');
+    fs.writeFileSync(path.join(tmpDir, 'b.md'), 'no front matter\n');
+    const outputPath = path.join(tmpDir, 'out.ics');
+    const result = await exportCalendarToIcs([path.join(tmpDir, 'a.md'), path.join(tmpDir, 'b.md')], outputPath);
+    expect(result).toEqual({ success: true, outputPath, eventCount: 1 });
+    expect(fs.readFileSync(outputPath, 'utf-8')).toContain('SUMMARY:a');
+  });
+
+  it('imports events into the folder without overwriting existing files', async () => {
+    const icsPath = path.join(tmpDir, 'in.ics');
+    fs.writeFileSync(icsPath, [
+      'BEGIN:VEVENT', 'SUMMARY:Dentist: check-up', 'DTSTART:20260310T090000', 'EXDATE:20260317T090000', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:Dentist: check-up', 'DTSTART:20260410T090000', 'END:VEVENT',
+    ].join('\r\n'));
+    const folder = path.join(tmpDir, 'calendar');
+    const result = await importIcsFile(icsPath, folder);
+    expect(result.created).toEqual([path.join(folder, 'Dentist- check-up.md'), path.join(folder, 'Dentist- check-up (2).md')]);
+    expect(result.warnings).toEqual([]);
+    expect(parseFrontMatter(fs.readFileSync(result.created[1]!, 'utf-8')).yaml).toEqual({ due: '4/10/2026', start: '9:00 AM', duration: 1 });
+  });
+});
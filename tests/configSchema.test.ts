@@ -101,6 +101,11 @@ describe('parseConfigYaml — settings tolerance', () => {
     expect(cfg?.settings?.sortOrder).toBe(defaultSettings.sortOrder);
   });
 
+  it('keeps a known editorKeymap and reverts an unknown one to the default bindings', () => {
+    expect(parseConfigYaml({ browseFolder: '/x', settings: { editorKeymap: 'vim' } })?.settings?.editorKeymap).toBe('vim');
+    expect(parseConfigYaml({ browseFolder: '/x', settings: { editorKeymap: 'nano' } })?.settings?.editorKeymap).toBe('default');
+  });
+
   it('reverts a non-array searchDefinitions to an empty list', () => {
     const cfg = parseConfigYaml({ browseFolder: '/x', settings: { searchDefinitions: 'oops' } });
     expect(cfg?.settings?.searchDefinitions).toEqual([]);
@@ -250,6 +255,19 @@ describe('parseConfigYaml — aiModels tolerance', () => {
     const cfg = parseConfigYaml({ browseFolder: '/x', aiModels: {} });
     expect(cfg?.aiModels).toEqual([]);
   });
+
+  it('keeps a server model\'s base URL, headers and key variable, dropping malformed ones', () => {
+    const server = { name: 'vLLM', provider: 'OPENAI_COMPATIBLE', model: 'qwen', inputPer1M: 0, outputPer1M: 0, vision: false, readonly: false };
+    const cfg = parseConfigYaml({
+      browseFolder: '/x',
+      aiModels: [
+        { ...server, baseUrl: 'http://gpu:8000/v1', headers: { 'X-Org': 'team-1' }, apiKeyEnv: 'VLLM_KEY' },
+        { ...server, name: 'Bad', baseUrl: 42, headers: ['not', 'a', 'map'], apiKeyEnv: 7 },
+      ],
+    });
+    expect(cfg?.aiModels?.[0]).toMatchObject({ baseUrl: 'http://gpu:8000/v1', headers: { 'X-Org': 'team-1' }, apiKeyEnv: 'VLLM_KEY' });
+    expect(cfg?.aiModels?.[1]).toMatchObject({ name: 'Bad', provider: 'OPENAI_COMPATIBLE', baseUrl: undefined, headers: undefined, apiKeyEnv: undefined });
+  });
 });
 
 describe('cloneDefaultSettings — immutability', () => {
@@ -149,17 +149,30 @@ We'll click it to open the find-and-replace dialog.`
 This scans the current folder and all of its subfolders, and the match is case-sensitive — so a lowercase "widget" will be left exactly as it is.`
     );
 
-    // Execute the replace.
+    // Preview the matches before anything is written.
     const submitButton = mainWindow.getByTestId('replace-dialog-submit-button');
-    await takeScreenshot(mainWindow, submitButton, screenshotDir, step++, 'about-to-submit');
+    await takeScreenshot(mainWindow, submitButton, screenshotDir, step++, 'about-to-preview');
     writeNarration(
       screenshotDir,
       step++,
-      `We click Replace to run the operation across all the files at once.`
+      `We click Preview to see every match before anything is changed.`
     );
 
     await demoClick(submitButton);
 
+    // The preview lists all 4 matches, each checked; replace them all.
+    await expect(mainWindow.getByTestId('replace-preview-summary')).toContainText('4 matches in 3 files');
+    const applyButton = mainWindow.getByTestId('replace-dialog-apply-button');
+    await takeScreenshot(mainWindow, applyButton, screenshotDir, step++, 'preview');
+    writeNarration(
+      screenshotDir,
+      step++,
+      `The preview lists each match in its line, with the replacement next to it.
+Every match is checked; unchecking a file or a single match would leave it alone. We click Replace to apply them all.`
+    );
+
+    await demoClick(applyButton);
+
     // A summary alert reports how many replacements were made across how many
     // files: 4 occurrences (two in file A, one each in files B and C) in 3 files.
     const okButton = mainWindow.getByTestId('alert-dialog-ok-button');
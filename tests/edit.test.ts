@@ -185,6 +185,40 @@ describe('pasteCutItems', () => {
     }
   });
 
+  it('asks confirmMoves with the planned moves before renaming, and stops when it declines', async () => {
+    const items = [makeItem('/docs/a.md', 'a.md'), makeItem('/docs/b.md', 'b.md')];
+    const renamed: string[] = [];
+    const renameFile = async (oldPath: string) => {
+      renamed.push(oldPath);
+      return true;
+    };
+    const seen: unknown[] = [];
+    const declined = await pasteCutItems(items, '/dest', async () => false, renameFile, async (moves) => {
+      seen.push(moves);
+      return false;
+    });
+    expect(seen).toEqual([[
+      { oldPath: '/docs/a.md', newPath: '/dest/a.md' },
+      { oldPath: '/docs/b.md', newPath: '/dest/b.md' },
+    ]]);
+    expect(declined).toEqual({ success: false, cancelled: true, movedPaths: [] });
+    expect(renamed).toEqual([]);
+
+    const accepted = await pasteCutItems(items, '/dest', async () => false, renameFile, async () => true);
+    expect(accepted.success).toBe(true);
+    expect(renamed).toEqual(['/docs/a.md', '/docs/b.md']);
+  });
+
+  it('does not ask confirmMoves when a check fails first', async () => {
+    let asked = false;
+    const items = [makeItem('/docs/a.md', 'a.md')];
+    await pasteCutItems(items, '/docs', async () => false, async () => true, async () => {
+      asked = true;
+      return true;
+    });
+    expect(asked).toBe(false);
+  });
+
   it('rejects moving a folder into itself', async () => {
     const items = [makeItem('/notes/projects', 'projects', true)];
     let renameCalled = false;
@@ -0,0 +1,84 @@
+/**
+ * Tests for the Markdown editor's live preview
+ * (src/renderer/editor/editorLivePreviewUtil.ts): which markup is hidden or
+ * replaced on lines without the cursor, and how table source is read.
+ *
+ * Documents are built as bare EditorStates with a fully parsed syntax tree,
+ * which need no DOM; widgets are only constructed, never drawn.
+ */
+import { describe, it, expect } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { ensureSyntaxTree } from '@codemirror/language';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { buildLivePreviewDecorations, parseTable } from '../src/renderer/editor/editorLivePreviewUtil';
+
+/** A Markdown state for `doc` with the cursor at `cursor` (default: end of document). */
+function stateOf(doc: string, cursor = doc.length): EditorState {
+  const state = EditorState.create({ doc, selection: { anchor: cursor }, extensions: markdown({ base: markdownLanguage }) });
+  ensureSyntaxTree(state, state.doc.length, 5000);
+  return state;
+}
+
+/** Each decoration as `kind:text`, where kind is `hide`, `link` or the widget's class name. */
+function describeDecorations(state: EditorState): string[] {
+  const out: string[] = [];
+  const set = buildLivePreviewDecorations(state, [{ from: 0, to: state.doc.length }]);
+  set.between(0, state.doc.length, (from, to, deco) => {
+    const spec = deco.spec as { widget?: object; class?: string };
+    const kind = spec.widget ? spec.widget.constructor.name : spec.class === 'cm-lp-link' ? 'link' : 'hide';
+    out.push(`${kind}:${state.sliceDoc(from, to)}`);
+  });
+  return out;
+}
+
+describe('buildLivePreviewDecorations', () => {
+  it('hides emphasis, heading and inline code marks', () => {
+    expect(describeDecorations(stateOf('# Title\n\nSome **bold**, _it_ and `code`.\n'))).toEqual([
+      'hide:# ', 'hide:**', 'hide:**', 'hide:_', 'hide:_', 'hide:`', 'hide:`',
+    ]);
+  });
+
+  it('leaves the lines holding the cursor as source', () => {
+    const doc = '**one**\n__two__';
+    expect(describeDecorations(stateOf(doc, 2))).toEqual(['hide:__', 'hide:__']);
+    expect(describeDecorations(stateOf(doc))).toEqual(['hide:**', 'hide:**']);
+  });
+
+  it('shows a link as its text with the target hidden', () => {
+    expect(describeDecorations(stateOf('see [docs](http://x.org/a) now\n'))).toEqual([
+      'hide:[', 'link:docs', 'hide:](http://x.org/a)',
+    ]);
+  });
+
+  it('replaces images, task markers and math with widgets', () => {
+    const doc = '![cat](cat.png)\n\n- [x] done\n- [ ] todo\n\nEnergy $E=mc^2$ costs $5 and $6.\n\n$$x^2$$\n\n';
+    expect(describeDecorations(stateOf(doc))).toEqual([
+      'ImageWidget:![cat](cat.png)',
+      'CheckboxWidget:[x]',
+      'CheckboxWidget:[ ]',
+      'MathWidget:$E=mc^2$',
+      'MathWidget:$$x^2$$',
+    ]);
+  });
+
+  it('leaves code, front matter and dollar signs in code alone', () => {
+    const doc = '---\ntitle: **x**\n---\n\n```\n**not bold** $x$\n```\n\n`$y$` text\n\n';
+    expect(describeDecorations(stateOf(doc))).toEqual(['hide:`', 'hide:`']);
+  });
+});
+
+describe('parseTable', () => {
+  it('reads header, alignments and rows, with escaped pipes kept in cells', () => {
+    expect(parseTable('| Name | Qty |\n| :--- | ---: |\n| a \\| b | 1 |\n| c | 2 |')).toEqual({
+      rows: [['Name', 'Qty'], ['a | b', '1'], ['c', '2']],
+      aligns: ['left', 'right'],
+    });
+  });
+
+  it('accepts tables without outer pipes', () => {
+    expect(parseTable('A | B\n:-: | -\n1 | 2')).toEqual({
+      rows: [['A', 'B'], ['1', '2']],
+      aligns: ['center', null],
+    });
+  });
+});
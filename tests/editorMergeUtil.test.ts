@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, hasConflictMarkers } from '../src/renderer/editor/editorMergeUtil';
+
+const BASE = 'one\ntwo\nthree\nfour\nfive\n';
+
+describe('threeWayMerge', () => {
+  it('takes whichever side changed when only one did', () => {
+    expect(threeWayMerge(BASE, BASE, 'x\n')).toEqual({ text: 'x\n', conflicts: 0 });
+    expect(threeWayMerge(BASE, 'x\n', BASE)).toEqual({ text: 'x\n', conflicts: 0 });
+  });
+
+  it('merges changes to separate lines from both sides', () => {
+    const mine = 'ONE\ntwo\nthree\nfour\nfive\nsix\n';
+    const theirs = 'one\ntwo\nthree\nFOUR\nfive\n';
+    expect(threeWayMerge(BASE, mine, theirs)).toEqual({ text: 'ONE\ntwo\nthree\nFOUR\nfive\nsix\n', conflicts: 0 });
+  });
+
+  it('takes the same change made on both sides once', () => {
+    const both = 'one\nTWO\nthree\nfour\nfive\n';
+    const theirs = 'one\nTWO\nthree\nfour\nFIVE\n';
+    expect(threeWayMerge(BASE, both, theirs)).toEqual({ text: 'one\nTWO\nthree\nfour\nFIVE\n', conflicts: 0 });
+  });
+
+  it('marks a line both sides changed differently, with the base between them', () => {
+    const mine = 'one\nmine\nthree\nfour\nfive\n';
+    const theirs = 'one\ntheirs\nthree\nfour\nFIVE\n';
+    const result = threeWayMerge(BASE, mine, theirs);
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe([
+      'one',
+      '<<<<<<< Mine (unsaved edits)', 'mine',
+      '||||||| Base (when editing started)', 'two',
+      '=======', 'theirs',
+      '>>>>>>> Theirs (on disk)',
+      'three', 'four', 'FIVE', '',
+    ].join('\n'));
+    expect(hasConflictMarkers(result.text)).toBe(true);
+  });
+
+  it('treats changes to adjacent lines as a conflict', () => {
+    const mine = 'one\nTWO\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nTHREE\nfour\nfive\n';
+    expect(threeWayMerge(BASE, mine, theirs).conflicts).toBe(1);
+  });
+
+  it('resolves every conflict to the preferred side', () => {
+    const mine = 'one\nmine\nthree\nfour\nfive\n';
+    const theirs = 'one\ntheirs\nthree\nfour\nFIVE\n';
+    expect(threeWayMerge(BASE, mine, theirs, 'mine')).toEqual({ text: 'one\nmine\nthree\nfour\nFIVE\n', conflicts: 1 });
+    expect(threeWayMerge(BASE, mine, theirs, 'theirs')).toEqual({ text: 'one\ntheirs\nthree\nfour\nFIVE\n', conflicts: 1 });
+  });
+
+  it('keeps markers on their own lines when the file has no final line break', () => {
+    const result = threeWayMerge('a\nb', 'a\nmine', 'a\ntheirs');
+    expect(result.text.split('\n')).toEqual([
+      'a', '<<<<<<< Mine (unsaved edits)', 'mine', '||||||| Base (when editing started)', 'b',
+      '=======', 'theirs', '>>>>>>> Theirs (on disk)', '',
+    ]);
+  });
+
+  it('merges insertions at different places in an empty-based file', () => {
+    expect(threeWayMerge('', 'mine\n', 'theirs\n').conflicts).toBe(1);
+    expect(threeWayMerge('x\n', 'top\nx\n', 'x\nbottom\n')).toEqual({ text: 'top\nx\nbottom\n', conflicts: 0 });
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('finds marker lines only at the start of a line', () => {
+    expect(hasConflictMarkers('text\n<<<<<<< Mine\nmore')).toBe(true);
+    expect(hasConflictMarkers('text\n>>>>>>> Theirs\nmore')).toBe(true);
+    expect(hasConflictMarkers('a ======= b\nc <<<<<<< d')).toBe(false);
+  });
+
+  it('takes a bare ======= line for a setext heading underline, not a separator', () => {
+    expect(hasConflictMarkers('Title\n=======\n\nText.')).toBe(false);
+    expect(hasConflictMarkers('<<<<<<< Mine\na\n=======\nb\n>>>>>>> Theirs\n')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for wikilink completion in the markdown editor
+ * (src/renderer/editor/editorWikiLinkUtil.ts): which part of a link the cursor
+ * is typing, the text an option writes, and the order files are offered in.
+ *
+ * Documents are built as bare EditorStates, which need no DOM.
+ */
+import { describe, it, expect } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { rankWikiLinkTargets, wikiLinkContextAt, wikiLinkTexts } from '../src/renderer/editor/editorWikiLinkUtil';
+
+/** The completion context with the cursor at the `¦` marker in `doc` (the marker is removed). */
+function contextAt(doc: string) {
+  const pos = doc.indexOf('¦');
+  const text = doc.replace('¦', '');
+  return wikiLinkContextAt(EditorState.create({ doc: text }), pos);
+}
+
+describe('wikiLinkContextAt', () => {
+  it('completes the file name right after [[', () => {
+    expect(contextAt('see [[¦')).toEqual({ kind: 'file', from: 6, query: '' });
+    expect(contextAt('see [[pla¦]]')).toEqual({ kind: 'file', from: 6, query: 'pla' });
+  });
+
+  it('completes headings after # and aliases after |', () => {
+    expect(contextAt('[[plan#Ne¦')).toEqual({ kind: 'heading', from: 7, target: 'plan', query: 'Ne' });
+    expect(contextAt('[[#¦')).toEqual({ kind: 'heading', from: 3, target: '', query: '' });
+    expect(contextAt('[[plan#Next|Pl¦')).toEqual({ kind: 'alias', from: 12, target: 'plan', anchor: 'Next', query: 'Pl' });
+    expect(contextAt('[[plan|¦')).toEqual({ kind: 'alias', from: 7, target: 'plan', anchor: null, query: '' });
+  });
+
+  it('ignores closed links and text outside links', () => {
+    expect(contextAt('[[plan]] and ¦')).toBeNull();
+    expect(contextAt('plain text¦')).toBeNull();
+    expect(contextAt('[[plan\nnext line¦')).toBeNull();
+  });
+});
+
+describe('wikiLinkTexts', () => {
+  it('uses the bare name, adding folders only to tell same-named files apart', () => {
+    const texts = wikiLinkTexts(['/v/plan.md', '/v/work/notes.md', '/v/home/Notes.md', '/v/img/a.png'], '/v');
+    expect([...texts.values()]).toEqual(['plan', 'work/notes', 'home/Notes', 'a.png']);
+  });
+
+  it('never takes folders from outside the root, so a root-level file keeps its bare name', () => {
+    const texts = wikiLinkTexts(['/home/me/v/note.md', '/home/me/v/sub/note.md'], '/home/me/v');
+    expect([...texts.values()]).toEqual(['note', 'sub/note']);
+  });
+});
+
+describe('rankWikiLinkTargets', () => {
+  const now = Date.UTC(2026, 0, 31);
+  const day = 24 * 60 * 60 * 1000;
+  const targets = [
+    { path: '/v/meeting-notes.md', modifiedTime: now - 300 * day },
+    { path: '/v/maintenance-protocol.md', modifiedTime: now - 300 * day },
+    { path: '/v/journal/monday.md', modifiedTime: now - day },
+  ];
+
+  it('ranks by name match, dropping files that do not match', () => {
+    expect(rankWikiLinkTargets('mnot', targets, '/v', now).map(t => t.linkText)).toEqual(['meeting-notes', 'maintenance-protocol']);
+  });
+
+  it('lists the most recently modified files for an empty query', () => {
+    expect(rankWikiLinkTargets('', targets, '/v', now)[0]).toEqual({
+      path: '/v/journal/monday.md',
+      linkText: 'monday',
+      displayPath: 'journal/monday.md',
+    });
+  });
+
+  it('matches folder names through the path', () => {
+    expect(rankWikiLinkTargets('journ', targets, '/v', now).map(t => t.linkText)).toEqual(['monday']);
+  });
+});
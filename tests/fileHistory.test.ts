@@ -0,0 +1,112 @@
+/**
+ * fileHistory tests — snapshots of a file's previous content taken before a
+ * save, listing and reading them back, and the retention limits. Each test
+ * runs against a fresh temp folder holding both the file and the store.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { listFileVersions, readFileVersion, snapshotBeforeWrite } from '../src/main/fileHistory';
+
+const NO_LIMITS = { maxVersions: 0, maxDays: 0 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let tmpDir: string;
+let storeDir: string;
+let file: string;
+
+beforeEach(async () => {
+  tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'history-test-'));
+  storeDir = path.join(tmpDir, 'store');
+  file = path.join(tmpDir, 'note.md');
+});
+
+afterEach(async () => {
+  await fs.promises.rm(tmpDir, { recursive: true, force: true });
+});
+
+/** Save `content` the way write-file does: snapshot, then write. `mtime` dates the saved version. */
+async function save(content: string, retention = NO_LIMITS, mtime?: Date): Promise<void> {
+  await snapshotBeforeWrite(storeDir, file, content, retention);
+  await fs.promises.writeFile(file, content, 'utf8');
+  if (mtime) await fs.promises.utimes(file, mtime, mtime);
+}
+
+describe('snapshotBeforeWrite', () => {
+  it('keeps the replaced content, newest first, dated by when it was saved', async () => {
+    await save('one', NO_LIMITS, new Date(2026, 0, 1));
+    await save('two', NO_LIMITS, new Date(2026, 0, 2));
+    await save('three');
+
+    const versions = await listFileVersions(storeDir, file);
+    expect(versions.map(v => v.savedAt)).toEqual([new Date(2026, 0, 2).getTime(), new Date(2026, 0, 1).getTime()]);
+    expect(await readFileVersion(storeDir, file, versions[0]!.id)).toBe('two');
+    expect(await readFileVersion(storeDir, file, versions[1]!.id)).toBe('one');
+  });
+
+  it('keeps nothing for a new file or a save that changes nothing', async () => {
+    await save('one');
+    await save('one');
+    expect(await listFileVersions(storeDir, file)).toEqual([]);
+  });
+
+  it('does not keep the same content twice in a row', async () => {
+    await save('one');
+    await save('two');
+    // Written back outside the app, then saved again: the newest version is already 'one'.
+    await fs.promises.writeFile(file, 'one', 'utf8');
+    await save('three');
+    expect(await listFileVersions(storeDir, file)).toHaveLength(1);
+  });
+
+  it('stores the versions compressed, outside the file\'s folder', async () => {
+    const big = 'the same line over and over\n'.repeat(1000);
+    await save(big);
+    await save('short');
+    const [version] = await listFileVersions(storeDir, file);
+    expect(version!.compressedSize).toBeLessThan(big.length / 10);
+    expect(await fs.promises.readdir(tmpDir)).toEqual(['note.md', 'store']);
+  });
+
+  it('keeps only the newest maxVersions', async () => {
+    const retention = { maxVersions: 2, maxDays: 0 };
+    for (const [i, text] of ['a', 'b', 'c', 'd'].entries()) await save(text, retention, new Date(2026, 0, i + 1));
+    await save('e', retention);
+    const versions = await listFileVersions(storeDir, file);
+    expect(await Promise.all(versions.map(v => readFileVersion(storeDir, file, v.id)))).toEqual(['d', 'c']);
+  });
+
+  it('removes versions replaced more than maxDays ago, but not an old file\'s first version', async () => {
+    // Saved long ago: its version is only replaced now, so it is kept.
+    await save('old', NO_LIMITS, new Date(2020, 0, 1));
+    await save('new', { maxVersions: 0, maxDays: 30 });
+    const [kept] = await listFileVersions(storeDir, file);
+    expect(await readFileVersion(storeDir, file, kept!.id)).toBe('old');
+
+    // Pretend that snapshot was taken 40 days ago; the next save's pruning drops it.
+    const snapshotDir = (await fs.promises.readdir(storeDir))[0]!;
+    const aged = new Date(Date.now() - 40 * DAY_MS);
+    await fs.promises.utimes(path.join(storeDir, snapshotDir, kept!.id), aged, aged);
+    await save('newer', { maxVersions: 0, maxDays: 30 });
+    const versions = await listFileVersions(storeDir, file);
+    expect(await Promise.all(versions.map(v => readFileVersion(storeDir, file, v.id)))).toEqual(['new']);
+  });
+
+  it('keeps each file\'s history apart', async () => {
+    const other = path.join(tmpDir, 'other.md');
+    await save('one');
+    await save('two');
+    await fs.promises.writeFile(other, 'x', 'utf8');
+    expect(await listFileVersions(storeDir, other)).toEqual([]);
+  });
+});
+
+describe('readFileVersion', () => {
+  it('returns null for an unknown version or a path-like id', async () => {
+    await save('one');
+    await save('two');
+    expect(await readFileVersion(storeDir, file, '1-000000000000.gz')).toBeNull();
+    expect(await readFileVersion(storeDir, file, '../path.txt')).toBeNull();
+  });
+});
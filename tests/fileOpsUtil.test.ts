@@ -36,6 +36,8 @@ vi.mock('../src/renderer/api', () => ({
     readIndexYaml: vi.fn(),
     insertIntoIndexYaml: vi.fn(),
     reconcileIndexedFiles: vi.fn(),
+    beginJournalOperation: vi.fn(async () => 1),
+    endJournalOperation: vi.fn(async () => undefined),
   },
 }));
 
@@ -2,7 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { readDirectory } from '../src/main/fileUtil';
+import { readDirectory, readIfChangedSince } from '../src/main/fileUtil';
 import { ATTACH_SUFFIX } from '../src/shared/specialFiles';
 
 let tmpDir: string;
@@ -86,3 +86,26 @@ describe('readDirectory I/O fan-out', () => {
     expect(peak).toBeLessThanOrEqual(32);
   }, 15000);
 });
+
+describe('readIfChangedSince', () => {
+  it('returns null while the file still matches the stamp, and its content once it does not', async () => {
+    const file = path.join(tmpDir, 'a.md');
+    fs.writeFileSync(file, 'one', 'utf8');
+    const stats = fs.statSync(file);
+    expect(await readIfChangedSince(file, { mtime: stats.mtimeMs, size: stats.size })).toBeNull();
+
+    fs.writeFileSync(file, 'two!', 'utf8');
+    // Same mtime, different size: still a change (coarse-mtime filesystems).
+    fs.utimesSync(file, stats.atime, stats.mtime);
+    const changed = await readIfChangedSince(file, { mtime: stats.mtimeMs, size: stats.size });
+    expect(changed).toMatchObject({ content: 'two!', size: 4 });
+  });
+
+  it('treats a changed mtime as a change, and a missing file as none', async () => {
+    const file = path.join(tmpDir, 'a.md');
+    fs.writeFileSync(file, 'one', 'utf8');
+    const stats = fs.statSync(file);
+    expect(await readIfChangedSince(file, { mtime: stats.mtimeMs - 1000 })).toMatchObject({ content: 'one', mtime: stats.mtimeMs });
+    expect(await readIfChangedSince(path.join(tmpDir, 'gone.md'), { mtime: 1 })).toBeNull();
+  });
+});
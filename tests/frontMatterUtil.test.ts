@@ -5,6 +5,7 @@ import {
   assembleFrontMatter,
   getPropsFromYaml,
   setFrontMatterProperty,
+  removeFrontMatterProperty,
 } from '../src/shared/frontMatterUtil';
 
 describe('splitFrontMatter', () => {
@@ -317,3 +318,19 @@ describe('setFrontMatterProperty', () => {
     expect(result).toContain(`note: ${long}\n`);
   });
 });
+
+describe('removeFrontMatterProperty', () => {
+  it('removes a property and keeps the rest', () => {
+    expect(removeFrontMatterProperty('---\nstart: 9:00 AM\ntitle: hi\n---\nBody.', 'start')).toBe('---\ntitle: hi\n---\nBody.');
+  });
+
+  it('drops the block when nothing is left', () => {
+    expect(removeFrontMatterProperty('---\nstart: 9:00 AM\n---\nBody.', 'start')).toBe('Body.');
+  });
+
+  it('leaves content without the property untouched', () => {
+    const content = '---\ntitle:   hi   # comment\n---\nBody.';
+    expect(removeFrontMatterProperty(content, 'start')).toBe(content);
+    expect(removeFrontMatterProperty('Body.', 'start')).toBe('Body.');
+  });
+});
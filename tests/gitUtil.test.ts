@@ -0,0 +1,172 @@
+/**
+ * gitUtil tests — status, log, revisions and commits, run with the real git
+ * binary against a fresh repository in a temp folder. The browse root is a
+ * subfolder of the repository, as it often is in practice.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { getGitStatus, getGitLog, readGitRevision, gitCommit, parseGitStatus } from '../src/main/gitUtil';
+
+let repo: string;
+let root: string;
+
+beforeAll(() => {
+  // A known identity, and none of the machine's own git config (signing, hooks paths…).
+  Object.assign(process.env, {
+    GIT_AUTHOR_NAME: 'Test', GIT_AUTHOR_EMAIL: 'test@example.com',
+    GIT_COMMITTER_NAME: 'Test', GIT_COMMITTER_EMAIL: 'test@example.com',
+    GIT_CONFIG_NOSYSTEM: '1', GIT_CONFIG_GLOBAL: path.join(os.tmpdir(), 'no-such-gitconfig'),
+  });
+});
+
+beforeEach(async () => {
+  repo = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-test-'));
+  root = path.join(repo, 'notes');
+  await fs.promises.mkdir(path.join(root, 'sub'), { recursive: true });
+  git('init', '-q', '-b', 'main');
+});
+
+afterEach(async () => {
+  await fs.promises.rm(repo, { recursive: true, force: true });
+});
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+}
+
+async function write(relPath: string, content: string): Promise<string> {
+  const file = path.join(root, relPath);
+  await fs.promises.writeFile(file, content, 'utf-8');
+  return file;
+}
+
+function commitAll(message: string): void {
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+describe('getGitStatus', () => {
+  it('returns null outside a repository', async () => {
+    const outside = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'no-git-'));
+    try {
+      expect(await getGitStatus(outside)).toBeNull();
+    } finally {
+      await fs.promises.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('reports each changed file by absolute path, and badges the folders holding them', async () => {
+    const a = await write('a.md', 'a');
+    const b = await write('sub/b.md', 'b');
+    commitAll('init');
+    await write('a.md', 'a2');
+    const c = await write('sub/c.md', 'c');
+    await fs.promises.rm(b);
+
+    const status = (await getGitStatus(root))!;
+    expect(status.branch).toBe('main');
+    expect(status.changes).toEqual([
+      { path: a, state: 'modified', unstaged: true },
+      { path: b, state: 'deleted', unstaged: true },
+      { path: c, state: 'untracked', unstaged: true },
+    ]);
+    expect(status.badges[path.join(root, 'sub')]).toBe('folder');
+    expect(status.badges[root]).toBeUndefined();
+  });
+
+  it('tells staged changes from unstaged ones, and ignores files outside the folder', async () => {
+    const a = await write('a.md', 'a');
+    await fs.promises.writeFile(path.join(repo, 'outside.md'), 'x');
+    commitAll('init');
+    await write('a.md', 'a2');
+    const n = await write('new.md', 'n');
+    await fs.promises.writeFile(path.join(repo, 'outside.md'), 'y');
+    git('add', '-A');
+
+    const status = (await getGitStatus(root))!;
+    expect(status.changes).toEqual([
+      { path: a, state: 'staged', unstaged: false },
+      { path: n, state: 'added', unstaged: false },
+    ]);
+  });
+});
+
+describe('parseGitStatus', () => {
+  it('reads renames, conflicts and the branch of a repository with no commits', () => {
+    const output = ['## No commits yet on dev', 'R  notes/new.md', 'notes/old.md', 'UU notes/x.md', ''].join('\0');
+    const status = parseGitStatus(output, '/vault', 'notes/');
+    expect(status.branch).toBe('dev');
+    expect(status.changes).toEqual([
+      { path: path.join('/vault', 'new.md'), state: 'renamed', unstaged: false, origPath: path.join('/vault', 'old.md') },
+      { path: path.join('/vault', 'x.md'), state: 'conflicted', unstaged: true },
+    ]);
+  });
+});
+
+describe('getGitLog / readGitRevision', () => {
+  it('lists a file\'s commits newest first and reads it back from each, across a rename', async () => {
+    await write('old.md', 'one');
+    commitAll('first');
+    await write('old.md', 'two');
+    commitAll('second');
+    git('mv', 'notes/old.md', 'notes/new.md');
+    commitAll('rename');
+    const file = await write('new.md', 'three');
+
+    const log = await getGitLog(file);
+    expect(log.map(e => e.subject)).toEqual(['rename', 'second', 'first']);
+    expect(log[0]).toMatchObject({ author: 'Test', repoPath: 'notes/new.md' });
+    expect(log[2]!.repoPath).toBe('notes/old.md');
+    expect(await readGitRevision(file, log[2]!.hash, log[2]!.repoPath)).toBe('one');
+    expect(await readGitRevision(file, 'HEAD')).toBe('two');
+  });
+
+  it('has no log for an untracked file, and reads no revision for an option-like rev', async () => {
+    const file = await write('a.md', 'a');
+    expect(await getGitLog(file)).toEqual([]);
+    expect(await readGitRevision(file, '--output=x')).toBeNull();
+  });
+});
+
+describe('gitCommit', () => {
+  it('commits only the chosen files, untracked and deleted ones included', async () => {
+    await write('a.md', 'a');
+    const gone = await write('gone.md', 'g');
+    commitAll('init');
+    await write('a.md', 'a2');
+    const n = await write('new.md', 'n');
+    await fs.promises.rm(gone);
+
+    const status = (await getGitStatus(root))!;
+    const chosen = status.changes.filter(c => c.path !== path.join(root, 'a.md'));
+    expect(await gitCommit(root, 'add new, drop gone', chosen)).toEqual({ success: true });
+
+    const after = (await getGitStatus(root))!;
+    expect(after.changes.map(c => c.path)).toEqual([path.join(root, 'a.md')]);
+    expect(git('log', '-1', '--format=%s').trim()).toBe('add new, drop gone');
+    expect(git('show', '--name-status', '--format=', 'HEAD').trim().split('\n').sort()).toEqual(['A\tnotes/new.md', 'D\tnotes/gone.md']);
+    expect(fs.existsSync(n)).toBe(true);
+  });
+
+  it('commits both sides of a staged rename', async () => {
+    await write('old.md', 'x');
+    commitAll('init');
+    git('mv', 'notes/old.md', 'notes/new.md');
+
+    const status = (await getGitStatus(root))!;
+    expect(await gitCommit(root, 'rename', status.changes)).toEqual({ success: true });
+    expect((await getGitStatus(root))!.changes).toEqual([]);
+  });
+
+  it('refuses an empty message, and reports what git says when the commit fails', async () => {
+    const file = await write('a.md', 'a');
+    const change = { path: file, state: 'untracked' as const, unstaged: true };
+    expect(await gitCommit(root, '  ', [change])).toMatchObject({ success: false });
+    const result = await gitCommit(root, 'msg', [{ ...change, path: path.join(root, 'missing.md') }]);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/missing\.md/);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for src/shared/linkParser.ts (what counts as a link, and where it
+ * sits) and src/main/linkIndex.ts (resolving links to files, wikilinks by name,
+ * the files offered for wikilink completion, and the crawl fallback for backlinks).
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseLinks } from '../src/shared/linkParser';
+import { findWikiCandidates, listWikiLinkTargets, rankByProximity, resolveLinkTargets, resolveWikiLink, scanBacklinks, sortBacklinks, toLinkRefs } from '../src/main/linkIndex';
+
+describe('parseLinks', () => {
+  it('parses wikilinks with anchors, aliases and embeds', () => {
+    const links = parseLinks('See [[notes/plan#Goals|the plan]] and ![[diagram.png]].');
+    expect(links).toHaveLength(2);
+    expect(links[0]).toMatchObject({ kind: 'wiki', embed: false, target: 'notes/plan', anchor: 'Goals', alias: 'the plan', line: 1 });
+    expect(links[1]).toMatchObject({ kind: 'wiki', embed: true, target: 'diagram.png', anchor: null, alias: null });
+  });
+
+  it('parses relative markdown links and images, decoding the target', () => {
+    const links = parseLinks('[Doc](../my%20doc.md#intro "Title")\n![alt](<img/a b.png>)');
+    expect(links[0]).toMatchObject({ kind: 'markdown', embed: false, target: '../my doc.md', anchor: 'intro', alias: 'Doc', line: 1 });
+    expect(links[1]).toMatchObject({ kind: 'markdown', embed: true, target: 'img/a b.png', line: 2 });
+  });
+
+  it('treats a bare #anchor as a link to the same document', () => {
+    expect(parseLinks('[up](#top)')[0]).toMatchObject({ target: '', anchor: 'top' });
+  });
+
+  it('skips external URLs, fenced code and inline code', () => {
+    const content = [
+      '[site](https://example.com) [mail](mailto:a@b.c)',
+      '````',
+      '[[not-a-link]]',
+      '```',
+      'still code [x](y.md)',
+      '````',
+      '`[[inline]]` but [[real]]',
+    ].join('\n');
+    expect(parseLinks(content).map(l => l.target)).toEqual(['real']);
+  });
+
+  it('reports the raw target span so it can be replaced in place', () => {
+    const content = 'x [[ a b#h | alias ]] [t](c%20d.md#s)';
+    const [wiki, md] = parseLinks(content);
+    expect(content.slice(wiki?.targetStart, wiki?.targetEnd)).toBe('a b#h');
+    expect(content.slice(wiki?.start, wiki?.end)).toBe('[[ a b#h | alias ]]');
+    expect(content.slice(md?.targetStart, md?.targetEnd)).toBe('c%20d.md#s');
+  });
+});
+
+describe('resolveLinkTargets', () => {
+  const source = path.resolve('/vault/notes/a.md');
+
+  it('resolves relative targets against the source folder', () => {
+    expect(resolveLinkTargets(source, { kind: 'markdown', target: '../b.md' })).toEqual([path.resolve('/vault/b.md')]);
+  });
+
+  it('also tries the .md file for an extensionless wikilink', () => {
+    expect(resolveLinkTargets(source, { kind: 'wiki', target: 'c' }))
+      .toEqual([path.resolve('/vault/notes/c'), path.resolve('/vault/notes/c.md')]);
+  });
+
+  it('resolves a same-document link to the source', () => {
+    expect(resolveLinkTargets(source, { kind: 'markdown', target: '' })).toEqual([source]);
+  });
+});
+
+describe('findWikiCandidates', () => {
+  const root = path.resolve('/vault');
+  const files = ['a/Note.md', 'b/projects/note.md', 'notes.md', 'img/x.png'].map(f => path.join(root, f));
+
+  it('matches by name anywhere, case-insensitively, adding .md', () => {
+    expect(findWikiCandidates(root, 'note', files)).toEqual([files[0], files[1]]);
+    expect(findWikiCandidates(root, 'x.png', files)).toEqual([files[3]]);
+  });
+
+  it('matches a partial path as a path suffix', () => {
+    expect(findWikiCandidates(root, 'projects/note', files)).toEqual([files[1]]);
+  });
+
+  it('does not search for explicit relative paths', () => {
+    expect(findWikiCandidates(root, '../note', files)).toEqual([]);
+  });
+});
+
+describe('rankByProximity', () => {
+  it('prefers the candidate sharing the most folders, then the shallowest', () => {
+    const source = path.resolve('/vault/b/notes/today.md');
+    const [a, deep, near] = ['/vault/a/note.md', '/vault/b/x/y/note.md', '/vault/b/note.md'].map(p => path.resolve(p));
+    expect(rankByProximity(source, [a!, deep!, near!])).toEqual([near, deep, a]);
+  });
+});
+
+describe('resolveWikiLink', () => {
+  let vault: string;
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'wikilink-'));
+    await fs.promises.mkdir(path.join(vault, 'a'));
+    await fs.promises.writeFile(path.join(vault, 'a', 'plan.md'), '', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'plan.md'), '', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+  });
+
+  it('uses the file next to the link when there is one', async () => {
+    const files = async () => [path.join(vault, 'plan.md'), path.join(vault, 'a', 'plan.md')];
+    expect(await resolveWikiLink(vault, path.join(vault, 'a', 'x.md'), 'plan', files))
+      .toEqual({ path: path.join(vault, 'a', 'plan.md'), candidates: [path.join(vault, 'a', 'plan.md')] });
+  });
+
+  it('falls back to every match in the vault, closest first', async () => {
+    await fs.promises.mkdir(path.join(vault, 'a', 'deeper'));
+    const files = async () => [path.join(vault, 'plan.md'), path.join(vault, 'a', 'plan.md')];
+    const result = await resolveWikiLink(vault, path.join(vault, 'a', 'deeper', 'x.md'), 'Plan', files);
+    expect(result).toEqual({ path: path.join(vault, 'a', 'plan.md'), candidates: [path.join(vault, 'a', 'plan.md'), path.join(vault, 'plan.md')] });
+  });
+
+  it('reports no path when nothing matches', async () => {
+    expect(await resolveWikiLink(vault, path.join(vault, 'x.md'), 'missing', async () => [])).toEqual({ path: null, candidates: [] });
+  });
+});
+
+describe('listWikiLinkTargets', () => {
+  let vault: string;
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'wikilink-targets-'));
+    await fs.promises.mkdir(path.join(vault, 'drafts'));
+    await fs.promises.writeFile(path.join(vault, 'plan.md'), '', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'drafts', 'idea.md'), '', 'utf8');
+    await fs.promises.utimes(path.join(vault, 'plan.md'), 1000, 1000);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+  });
+
+  it('crawls and stats the vault, skipping ignored folders', async () => {
+    expect(await listWikiLinkTargets(vault, ['drafts'], null)).toEqual([{ path: path.join(vault, 'plan.md'), modifiedTime: 1_000_000 }]);
+  });
+
+  it('answers from the search index when it is ready', async () => {
+    const snapshot = { listFiles: () => ['/v/a.md', '/v/b.md'], modifiedTime: (p: string) => (p === '/v/a.md' ? 5 : null) };
+    expect(await listWikiLinkTargets(vault, [], snapshot)).toEqual([
+      { path: '/v/a.md', modifiedTime: 5 },
+      { path: '/v/b.md', modifiedTime: 0 },
+    ]);
+  });
+});
+
+describe('sortBacklinks', () => {
+  it('orders by source and line and drops duplicates on one line', () => {
+    const sorted = sortBacklinks([
+      { sourcePath: '/b.md', line: 1, context: '', anchor: null },
+      { sourcePath: '/a.md', line: 3, context: '', anchor: null },
+      { sourcePath: '/a.md', line: 3, context: '', anchor: null },
+      { sourcePath: '/a.md', line: 3, context: '', anchor: 'x' },
+    ]);
+    expect(sorted.map(b => `${b.sourcePath}:${b.line}:${b.anchor}`)).toEqual(['/a.md:3:null', '/a.md:3:x', '/b.md:1:null']);
+  });
+});
+
+describe('toLinkRefs', () => {
+  it('keeps the trimmed line as context', () => {
+    expect(toLinkRefs('intro\n   see [[x]] here  ')).toEqual([
+      { kind: 'wiki', target: 'x', anchor: null, line: 2, context: 'see [[x]] here' },
+    ]);
+  });
+});
+
+describe('scanBacklinks', () => {
+  let vault: string;
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'link-index-'));
+    await fs.promises.mkdir(path.join(vault, 'sub'));
+    await fs.promises.mkdir(path.join(vault, 'skip'));
+    await fs.promises.writeFile(path.join(vault, 'target.md'), 'Self [[target]] link', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'sub', 'one.md'), 'x\nSee [t](../target.md#part)', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'two.md'), '[[target]]\n[[other]]', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'skip', 'three.md'), '[[../target]]', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'plain.txt'), '[[target]]', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'sub', 'target.md'), 'A closer target of the same name', 'utf8');
+    await fs.promises.writeFile(path.join(vault, 'sub', 'deep.md'), '[[target]]', 'utf8');
+    await fs.promises.mkdir(path.join(vault, 'other'));
+    await fs.promises.writeFile(path.join(vault, 'other', 'far.md'), 'Far [[target]]', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+  });
+
+  it('finds markdown files linking to the target, from any folder, skipping self-links and ignored folders', async () => {
+    const backlinks = await scanBacklinks(vault, path.join(vault, 'target.md'), ['skip']);
+    expect(backlinks).toEqual([
+      { sourcePath: path.join(vault, 'other', 'far.md'), line: 1, context: 'Far [[target]]', anchor: null },
+      { sourcePath: path.join(vault, 'sub', 'one.md'), line: 2, context: 'See [t](../target.md#part)', anchor: 'part' },
+      { sourcePath: path.join(vault, 'two.md'), line: 1, context: '[[target]]', anchor: null },
+    ]);
+  });
+
+  it('credits a wikilink only to the file it resolves to, not every file of that name', async () => {
+    const backlinks = await scanBacklinks(vault, path.join(vault, 'sub', 'target.md'), ['skip']);
+    expect(backlinks.map(b => b.sourcePath)).toEqual([path.join(vault, 'sub', 'deep.md')]);
+  });
+});
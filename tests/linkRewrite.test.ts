@@ -0,0 +1,223 @@
+/**
+ * Unit tests for src/main/linkRewrite.ts — computing the link edits a move
+ * needs, and the plan → apply → undo flow against a real temp vault (the search
+ * index isn't started, so planning takes the crawl path).
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseLinks } from '../src/shared/linkParser';
+import {
+  planFileRewrites,
+  applyLinkEdits,
+  movedLocation,
+  planLinkRewrites,
+  applyLinkRewrites,
+  undoLinkRewrites,
+} from '../src/main/linkRewrite';
+import { renameEntry } from '../src/main/fileUtil';
+
+const ROOT = path.resolve('/vault');
+const p = (...parts: string[]) => path.join(ROOT, ...parts);
+
+/** Rewrite `content` (the file at `source`) for `moves`, treating `existing` as the files on disk. */
+function rewrite(source: string, content: string, moves: { oldPath: string; newPath: string }[], existing: string[] = []): string {
+  const edits = planFileRewrites(source, content, parseLinks(content), moves, x => existing.includes(x));
+  return applyLinkEdits(content, edits);
+}
+
+describe('movedLocation', () => {
+  const moves = [{ oldPath: p('a'), newPath: p('b', 'a') }];
+
+  it('maps the moved entry and anything inside it', () => {
+    expect(movedLocation(p('a'), moves)).toEqual({ path: p('b', 'a'), move: 0 });
+    expect(movedLocation(p('a', 'x.md'), moves)).toEqual({ path: p('b', 'a', 'x.md'), move: 0 });
+  });
+
+  it('ignores siblings that merely share a prefix', () => {
+    expect(movedLocation(p('ab.md'), moves)).toBeNull();
+  });
+});
+
+describe('planFileRewrites', () => {
+  const renamePlan = [{ oldPath: p('notes', 'plan.md'), newPath: p('notes', 'roadmap.md') }];
+
+  it('rewrites inbound links, keeping anchors, aliases and link text', () => {
+    const content = 'See [the plan](notes/plan.md#goals "t") and [[notes/plan#goals|Plan]].';
+    expect(rewrite(p('index.md'), content, renamePlan))
+      .toBe('See [the plan](notes/roadmap.md#goals "t") and [[notes/roadmap#goals|Plan]].');
+  });
+
+  it('keeps wikilinks extensionless and absolute links absolute', () => {
+    const absolute = p('notes', 'plan.md');
+    const content = `[[plan]] [[plan.md]] [abs](<${absolute}>)`;
+    expect(rewrite(p('notes', 'other.md'), content, renamePlan))
+      .toBe(`[[roadmap]] [[roadmap.md]] [abs](<${p('notes', 'roadmap.md')}>)`);
+  });
+
+  it('encodes spaces and parentheses in unbracketed markdown destinations', () => {
+    const moves = [{ oldPath: p('a.md'), newPath: p('My Notes (old).md') }];
+    expect(rewrite(p('index.md'), '[a](a.md) [b](<a.md>)', moves))
+      .toBe('[a](My%20Notes%20%28old%29.md) [b](<My Notes (old).md>)');
+  });
+
+  it('rewrites links into a moved folder', () => {
+    const moves = [{ oldPath: p('projects'), newPath: p('archive', 'projects') }];
+    expect(rewrite(p('index.md'), '![img](projects/x/diagram.png)', moves))
+      .toBe('![img](archive/projects/x/diagram.png)');
+  });
+
+  it('rewrites the relative links of a moved file to files that stay put', () => {
+    const moves = [{ oldPath: p('notes', 'a.md'), newPath: p('archive', '2024', 'a.md') }];
+    const content = '[b](b.md) [[../index]] [same](#top) [gone](missing.md)';
+    expect(rewrite(p('notes', 'a.md'), content, moves, [p('notes', 'b.md'), p('index.md')]))
+      .toBe('[b](../../notes/b.md) [[../../index]] [same](#top) [gone](missing.md)');
+  });
+
+  it('leaves links between files that move together unchanged', () => {
+    const moves = [{ oldPath: p('notes'), newPath: p('archive', 'notes') }];
+    const content = '[b](b.md) [up](../index.md)';
+    expect(rewrite(p('notes', 'a.md'), content, moves, [p('notes', 'b.md'), p('index.md')]))
+      .toBe('[b](b.md) [up](../../index.md)');
+  });
+
+  it('ignores links that do not touch a moved path, and links in code', () => {
+    const content = '[x](other.md)\n```\n[p](notes/plan.md)\n```';
+    expect(planFileRewrites(p('index.md'), content, parseLinks(content), renamePlan, () => true)).toEqual([]);
+  });
+
+  it('records which moves each edit depends on', () => {
+    const moves = [
+      { oldPath: p('a.md'), newPath: p('sub', 'a.md') },
+      { oldPath: p('b.md'), newPath: p('sub', 'b2.md') },
+    ];
+    const content = '[b](b.md) [c](c.md)';
+    const edits = planFileRewrites(p('a.md'), content, parseLinks(content), moves, x => x === p('c.md'));
+    expect(edits.map(e => [e.before, e.text, e.moves])).toEqual([
+      ['b.md', 'b2.md', [0, 1]],
+      ['c.md', '../c.md', [0]],
+    ]);
+  });
+});
+
+describe('plan, apply and undo', () => {
+  let vault: string;
+  const file = (...parts: string[]) => path.join(vault, ...parts);
+  const read = (...parts: string[]) => fs.promises.readFile(file(...parts), 'utf8');
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'link-rewrite-'));
+    await fs.promises.mkdir(file('notes'));
+    await fs.promises.mkdir(file('archive'));
+    await fs.promises.writeFile(file('index.md'), '- [Plan](notes/plan.md)\n- [[notes/plan]]\n', 'utf8');
+    await fs.promises.writeFile(file('notes', 'plan.md'), 'Back to [index](../index.md).', 'utf8');
+    await fs.promises.writeFile(file('notes', 'unrelated.md'), 'No links.', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+  });
+
+  /** Plan moving notes/plan.md into archive/, perform the move, and apply the plan. */
+  async function moveAndRewrite() {
+    const moves = [{ oldPath: file('notes', 'plan.md'), newPath: file('archive', 'plan.md') }];
+    const plan = await planLinkRewrites(vault, moves, []);
+    expect(await renameEntry(moves[0]!.oldPath, moves[0]!.newPath)).toBe(true);
+    return { plan, result: await applyLinkRewrites(plan.id, [moves[0]!.oldPath]) };
+  }
+
+  it('previews every affected file with its changes', async () => {
+    // notes/plan.md's own ../index.md link still works from archive/, so only index.md is listed.
+    const plan = await planLinkRewrites(vault, [{ oldPath: file('notes', 'plan.md'), newPath: file('archive', 'plan.md') }], []);
+    expect(plan.files).toEqual([{
+      filePath: file('index.md'),
+      newFilePath: file('index.md'),
+      changes: [
+        { line: 1, column: 10, before: 'notes/plan.md', after: 'archive/plan.md' },
+        { line: 2, column: 5, before: 'notes/plan', after: 'archive/plan' },
+      ],
+    }]);
+  });
+
+  it('rewrites the files after the move and undoes move and rewrites together', async () => {
+    const { result } = await moveAndRewrite();
+    expect(result).toMatchObject({ success: true, skippedFiles: [], undoable: true });
+    expect(await read('index.md')).toBe('- [Plan](archive/plan.md)\n- [[archive/plan]]\n');
+
+    const undo = await undoLinkRewrites();
+    expect(undo).toMatchObject({ success: true, conflicts: [] });
+    expect(undo.moves).toEqual([{ oldPath: file('archive', 'plan.md'), newPath: file('notes', 'plan.md') }]);
+    expect(await read('index.md')).toBe('- [Plan](notes/plan.md)\n- [[notes/plan]]\n');
+    expect(await read('notes', 'plan.md')).toBe('Back to [index](../index.md).');
+    expect((await undoLinkRewrites()).success).toBe(false);
+  });
+
+  it('keeps files edited after the rewrite and reports them as conflicts', async () => {
+    await moveAndRewrite();
+    await fs.promises.writeFile(file('index.md'), 'edited by hand', 'utf8');
+
+    const undo = await undoLinkRewrites();
+    expect(undo.conflicts).toEqual([file('index.md')]);
+    expect(await read('index.md')).toBe('edited by hand');
+    expect(fs.existsSync(file('notes', 'plan.md'))).toBe(true);
+  });
+
+  it('skips a file that changed between preview and apply', async () => {
+    const moves = [{ oldPath: file('notes', 'plan.md'), newPath: file('archive', 'plan.md') }];
+    const plan = await planLinkRewrites(vault, moves, []);
+    await fs.promises.writeFile(file('index.md'), '[Plan](notes/plan.md) changed', 'utf8');
+    await renameEntry(moves[0]!.oldPath, moves[0]!.newPath);
+
+    const result = await applyLinkRewrites(plan.id, [moves[0]!.oldPath]);
+    expect(result.skippedFiles).toEqual([file('index.md')]);
+    expect(await read('index.md')).toBe('[Plan](notes/plan.md) changed');
+  });
+
+  it('rewrites wikilinks from other folders that reach a renamed note by name', async () => {
+    await fs.promises.writeFile(file('archive', 'log.md'), 'See [[plan#Goals|the plan]] and [[notes/plan]].', 'utf8');
+    const moves = [{ oldPath: file('notes', 'plan.md'), newPath: file('notes', 'roadmap.md') }];
+    const plan = await planLinkRewrites(vault, moves, []);
+    expect(plan.files.map(f => f.filePath)).toEqual([file('archive', 'log.md'), file('index.md')]);
+    expect(await renameEntry(moves[0]!.oldPath, moves[0]!.newPath)).toBe(true);
+    await applyLinkRewrites(plan.id, [moves[0]!.oldPath]);
+
+    expect(await read('archive', 'log.md')).toBe('See [[roadmap#Goals|the plan]] and [[notes/roadmap]].');
+    expect(await read('index.md')).toBe('- [Plan](notes/roadmap.md)\n- [[notes/roadmap]]\n');
+  });
+
+  it('leaves a wikilink resolved by name alone when the note moves but keeps its name', async () => {
+    await fs.promises.writeFile(file('archive', 'log.md'), 'See [[plan]].', 'utf8');
+    const plan = await planLinkRewrites(vault, [{ oldPath: file('notes', 'plan.md'), newPath: file('plan.md') }], []);
+    expect(plan.files.map(f => f.filePath)).not.toContain(file('archive', 'log.md'));
+  });
+
+  it("rewrites links into a renamed note's attach folder, and undoes them", async () => {
+    await fs.promises.mkdir(file('notes', 'plan.md.attach'));
+    await fs.promises.writeFile(file('notes', 'plan.md.attach', 'chart.png'), 'png', 'utf8');
+    await fs.promises.writeFile(file('index.md'), '![chart](notes/plan.md.attach/chart.png)\n', 'utf8');
+    const moves = [{ oldPath: file('notes', 'plan.md'), newPath: file('notes', 'roadmap.md') }];
+    const plan = await planLinkRewrites(vault, moves, []);
+    expect(await renameEntry(moves[0]!.oldPath, moves[0]!.newPath)).toBe(true);
+    expect(fs.existsSync(file('notes', 'roadmap.md.attach', 'chart.png'))).toBe(true);
+    await applyLinkRewrites(plan.id, [moves[0]!.oldPath]);
+    expect(await read('index.md')).toBe('![chart](notes/roadmap.md.attach/chart.png)\n');
+
+    const undo = await undoLinkRewrites();
+    expect(undo).toMatchObject({ success: true, conflicts: [] });
+    expect(undo.moves).toEqual([{ oldPath: file('notes', 'roadmap.md'), newPath: file('notes', 'plan.md') }]);
+    expect(await read('index.md')).toBe('![chart](notes/plan.md.attach/chart.png)\n');
+    expect(fs.existsSync(file('notes', 'plan.md.attach', 'chart.png'))).toBe(true);
+  });
+
+  it('applies only the latest plan, and nothing for moves that did not happen', async () => {
+    const moves = [{ oldPath: file('notes', 'plan.md'), newPath: file('archive', 'plan.md') }];
+    const stale = await planLinkRewrites(vault, moves, []);
+    const latest = await planLinkRewrites(vault, moves, []);
+    expect((await applyLinkRewrites(stale.id, [moves[0]!.oldPath])).success).toBe(false);
+
+    const result = await applyLinkRewrites(latest.id, []);
+    expect(result).toMatchObject({ success: true, updatedFiles: [], undoable: false });
+    expect(await read('index.md')).toBe('- [Plan](notes/plan.md)\n- [[notes/plan]]\n');
+  });
+});
@@ -3,6 +3,8 @@ import {
   preprocessMathEscapes,
   stripHtmlComments,
   preprocessWikiLinks,
+  parseWikiLinkHref,
+  parseWikiEmbedSrc,
   splitOnColumnBreaks,
 } from '../src/shared/mkUtil';
 
@@ -60,29 +62,38 @@ describe('stripHtmlComments', () => {
 // ---------------------------------------------------------------------------
 
 describe('preprocessWikiLinks', () => {
-  it('converts [[file]] to [file](file)', () => {
-    expect(preprocessWikiLinks('[[readme]]')).toBe('[readme](readme)');
+  it('converts [[file]] to a wikilink href', () => {
+    expect(preprocessWikiLinks('[[readme]]')).toBe('[readme](wikilink:readme)');
   });
 
-  it('converts [[file|alias]] to [alias](file)', () => {
-    expect(preprocessWikiLinks('[[notes/index|Home]]')).toBe('[Home](notes/index)');
+  it('converts [[file|alias]] to [alias](wikilink:file), encoding the target', () => {
+    expect(preprocessWikiLinks('[[notes/index|Home]]')).toBe('[Home](wikilink:notes%2Findex)');
   });
 
-  it('converts [[file#section]] to [file#section](file#section)', () => {
-    expect(preprocessWikiLinks('[[guide#intro]]')).toBe('[guide#intro](guide#intro)');
+  it('converts [[file#section]] to [file#section](wikilink:file#section)', () => {
+    expect(preprocessWikiLinks('[[guide#intro]]')).toBe('[guide#intro](wikilink:guide#intro)');
   });
 
-  it('converts [[file#section|desc]] to [desc](file#section)', () => {
-    expect(preprocessWikiLinks('[[guide#intro|Introduction]]')).toBe('[Introduction](guide#intro)');
+  it('converts [[file#section|desc]] to [desc](wikilink:file#section)', () => {
+    expect(preprocessWikiLinks('[[guide#Next Steps|Introduction]]')).toBe('[Introduction](wikilink:guide#Next%20Steps)');
   });
 
   it('converts multiple wikilinks in one pass', () => {
     const input = '[[a]] and [[b|B]]';
-    expect(preprocessWikiLinks(input)).toBe('[a](a) and [B](b)');
+    expect(preprocessWikiLinks(input)).toBe('[a](wikilink:a) and [B](wikilink:b)');
   });
 
   it('trims whitespace around target and alias', () => {
-    expect(preprocessWikiLinks('[[ file | label ]]')).toBe('[label](file)');
+    expect(preprocessWikiLinks('[[ file | label ]]')).toBe('[label](wikilink:file)');
+  });
+
+  it('turns image embeds into plain images', () => {
+    expect(preprocessWikiLinks('![[img/diagram.png]]')).toBe('![img/diagram.png](img/diagram.png)');
+  });
+
+  it('turns note embeds into wikiembed images', () => {
+    expect(preprocessWikiLinks('![[glossary#Big Word]]')).toBe('![glossary#Big Word](wikiembed:glossary#Big%20Word)');
+    expect(preprocessWikiLinks('![[notes/plan.md|Plan]]')).toBe('![Plan](wikiembed:notes%2Fplan.md)');
   });
 
   it('leaves regular markdown links untouched', () => {
@@ -94,6 +105,24 @@ describe('preprocessWikiLinks', () => {
   });
 });
 
+describe('parseWikiEmbedSrc', () => {
+  it('decodes what preprocessWikiLinks writes for note embeds', () => {
+    expect(parseWikiEmbedSrc('wikiembed:glossary#Big%20Word')).toEqual({ target: 'glossary', anchor: 'Big Word' });
+    expect(parseWikiEmbedSrc('wikilink:glossary')).toBeNull();
+  });
+});
+
+describe('parseWikiLinkHref', () => {
+  it('decodes what preprocessWikiLinks writes', () => {
+    expect(parseWikiLinkHref('wikilink:my%20notes%2Fplan#Next%20Steps')).toEqual({ target: 'my notes/plan', anchor: 'Next Steps' });
+    expect(parseWikiLinkHref('wikilink:plan')).toEqual({ target: 'plan', anchor: null });
+  });
+
+  it('returns null for other hrefs', () => {
+    expect(parseWikiLinkHref('plan.md')).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // splitOnColumnBreaks
 // ---------------------------------------------------------------------------
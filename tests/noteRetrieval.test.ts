@@ -0,0 +1,170 @@
+/**
+ * Tests for "Ask my notes" retrieval (src/main/ai/noteRetrieval.ts): the #notes:
+ * directive, chunking notes at their headings, ranking chunks against a question,
+ * and the Sources list appended to the answer. No AI API key or network needed.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  extractNotesDirective,
+  resolveNotesFolder,
+  chunkNote,
+  questionTerms,
+  rankChunks,
+  retrieveNotes,
+  formatRetrievedNotes,
+  formatSources,
+  type NoteChunk,
+} from '../src/main/ai/noteRetrieval';
+import { extractHeadingTree } from '../src/shared/tocUtil';
+
+// NOTE: Must NOT live under test-data/ — that directory is wiped by search.test.ts's beforeAll.
+const FIXTURE_DIR = path.resolve(__dirname, 'fixtures', 'note-retrieval-data');
+
+function chunk(filePath: string, heading: string | null, text: string): NoteChunk {
+  return { filePath, heading, slug: heading?.toLowerCase().replace(/ /g, '-') ?? null, line: 1, text };
+}
+
+describe('extractNotesDirective', () => {
+  it('takes the folder and strips the directive line', () => {
+    expect(extractNotesDirective('#notes: projects/garden\nWhen do I plant tomatoes?'))
+      .toEqual({ text: 'When do I plant tomatoes?', folder: 'projects/garden' });
+  });
+
+  it('treats a bare #notes: as the whole browse root', () => {
+    expect(extractNotesDirective('Question?\n#notes:').folder).toBe('');
+  });
+
+  it('leaves a prompt without the directive untouched', () => {
+    const text = 'Explain #notes: inline\n#file:a.md';
+    expect(extractNotesDirective(text)).toEqual({ text, folder: null });
+  });
+
+  it('resolves relative folders against the browse root', () => {
+    expect(resolveNotesFolder('garden', '/vault')).toBe(path.resolve('/vault', 'garden'));
+    expect(resolveNotesFolder('', '/vault')).toBe(path.resolve('/vault'));
+    expect(resolveNotesFolder('/elsewhere', '/vault')).toBe('/elsewhere');
+  });
+});
+
+describe('chunkNote', () => {
+  it('splits at headings, skipping front matter and code, with GitHub-style slugs', () => {
+    const content = [
+      '---', 'title: Garden', '---',
+      'Intro text.',
+      '# Tomatoes',
+      'Plant in May.',
+      '```',
+      '# not a heading',
+      '```',
+      '## Tomatoes',
+      'Water daily.',
+    ].join('\n');
+    const chunks = chunkNote('/v/garden.md', content);
+    expect(chunks.map(c => [c.heading, c.slug, c.line])).toEqual([
+      [null, null, 4],
+      ['Tomatoes', 'tomatoes', 5],
+      ['Tomatoes', 'tomatoes-1', 10],
+    ]);
+    expect(chunks[1]!.text).toContain('# not a heading');
+  });
+
+  it('counts setext headings and slugs headings the way the outline does', () => {
+    const content = [
+      'Tomatoes',
+      '========',
+      'Overview.',
+      '# See [the guide](guide.md)',
+      'Linked.',
+      '## Tomatoes',
+      'Water daily.',
+    ].join('\n');
+    const chunks = chunkNote('/v/garden.md', content);
+    const outline = extractHeadingTree('/v/garden.md', content);
+    expect(chunks.map(c => [c.heading, c.slug, c.line])).toEqual([
+      ['Tomatoes', 'tomatoes', 1],
+      [outline[1]!.heading, outline[1]!.slug, 4],
+      ['Tomatoes', 'tomatoes-1', 6],
+    ]);
+    expect(chunks[0]!.text).toBe('Tomatoes\n========\nOverview.');
+  });
+
+  it('splits a long section at blank lines', () => {
+    const paragraph = 'word '.repeat(500).trim();
+    const chunks = chunkNote('/v/long.md', `# Long\n${paragraph}\n\n${paragraph}\n\n${paragraph}`);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.heading === 'Long')).toBe(true);
+    expect(chunks[1]!.line).toBeGreaterThan(1);
+  });
+});
+
+describe('rankChunks', () => {
+  it('drops stop words from the question', () => {
+    expect(questionTerms('What is the best time to plant tomatoes?')).toEqual(['best', 'time', 'plant', 'tomatoes']);
+  });
+
+  it('orders chunks by relevance and drops ones sharing no word with the question', () => {
+    const chunks = [
+      chunk('/v/a.md', 'Cooking', 'Roast the vegetables.'),
+      chunk('/v/b.md', 'Tomatoes', 'Plant tomatoes in May, after the frost.'),
+      chunk('/v/c.md', 'Frost', 'The frost ends in April.'),
+    ];
+    const ranked = rankChunks('When should I plant tomatoes?', chunks);
+    expect(ranked.map(c => c.filePath)).toEqual(['/v/b.md']);
+  });
+
+  it('takes at most three chunks from one file', () => {
+    const chunks = Array.from({ length: 5 }, (_, i) => chunk('/v/a.md', `Part ${i}`, 'tomatoes'));
+    chunks.push(chunk('/v/b.md', null, 'tomatoes'));
+    const ranked = rankChunks('tomatoes', chunks);
+    expect(ranked.filter(c => c.filePath === '/v/a.md')).toHaveLength(3);
+    expect(ranked.some(c => c.filePath === '/v/b.md')).toBe(true);
+  });
+});
+
+describe('retrieveNotes', () => {
+  beforeAll(() => {
+    fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+    fs.mkdirSync(path.join(FIXTURE_DIR, 'chat', 'H'), { recursive: true });
+    fs.writeFileSync(path.join(FIXTURE_DIR, 'garden.md'), '# Tomatoes\nPlant tomatoes in May.\n# Roses\nPrune in March.');
+    fs.writeFileSync(path.join(FIXTURE_DIR, 'recipes.txt'), 'Tomatoes soup: simmer for an hour.');
+    fs.writeFileSync(path.join(FIXTURE_DIR, 'chat', 'H', 'HUMAN.md'), 'When do I plant tomatoes?');
+  });
+
+  afterAll(() => {
+    fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  });
+
+  it('finds the matching chunks and never the chat turn files', async () => {
+    const chunks = await retrieveNotes('When do I plant tomatoes?', FIXTURE_DIR, []);
+    expect(chunks[0]).toMatchObject({ filePath: path.join(FIXTURE_DIR, 'garden.md'), heading: 'Tomatoes' });
+    expect(chunks.map(c => path.basename(c.filePath))).not.toContain('HUMAN.md');
+    expect(chunks.some(c => c.heading === 'Roses')).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  const chunks = [
+    chunk('/v/garden plan.md', 'Tomatoes', 'Plant in May.'),
+    chunk('/v/sub/roses.md', null, 'Prune in March.'),
+  ];
+
+  it('numbers the retrieved notes with their sources', () => {
+    const block = formatRetrievedNotes(chunks, '/v');
+    expect(block).toContain('<note id="1" source="garden plan.md › Tomatoes">');
+    expect(block).toContain('<note id="2" source="sub/roses.md">');
+  });
+
+  it('links the cited sources relative to the AI.md folder', () => {
+    const sources = formatSources(chunks, 'Plant in May [1].', '/v/chat/A', '/v');
+    expect(sources).toContain('1. [garden plan.md › Tomatoes](../../garden%20plan.md#tomatoes)');
+    expect(sources).not.toContain('roses');
+  });
+
+  it('lists every source when the answer cites none', () => {
+    const sources = formatSources(chunks, 'No citations here.', '/v', '/v');
+    expect(sources).toContain('(garden%20plan.md#tomatoes)');
+    expect(sources).toContain('2. [sub/roses.md](sub/roses.md)');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for src/main/opJournal.ts — recording bulk file operations and
+ * undoing the newest of them, against a real temp vault, with the journal's
+ * copies kept in a temp store dir of their own.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  openOpJournal,
+  beginOperation,
+  endOperation,
+  recordBeforeChange,
+  recordMove,
+  listOperations,
+  undoOperations,
+} from '../src/main/opJournal';
+import { renameEntry } from '../src/main/fileUtil';
+
+describe('opJournal', () => {
+  let vault: string;
+  let store: string;
+  const file = (...parts: string[]) => path.join(vault, ...parts);
+  const read = (...parts: string[]) => fs.promises.readFile(file(...parts), 'utf8');
+  const exists = (...parts: string[]) => fs.existsSync(file(...parts));
+
+  /** Write `content` to `name`, recorded under operation `id` first. */
+  async function write(id: number, name: string, content: string) {
+    await recordBeforeChange(id, file(name));
+    await fs.promises.writeFile(file(name), content, 'utf8');
+  }
+
+  /** Delete `name` (a file or folder), recorded under operation `id` first. */
+  async function remove(id: number, name: string) {
+    await recordBeforeChange(id, file(name));
+    await fs.promises.rm(file(name), { recursive: true });
+  }
+
+  beforeEach(async () => {
+    vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'op-journal-'));
+    store = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'op-journal-store-'));
+    await openOpJournal(store);
+    await fs.promises.writeFile(file('a.md'), 'alpha', 'utf8');
+    await fs.promises.writeFile(file('b.md'), 'beta', 'utf8');
+    await fs.promises.mkdir(file('folder'));
+    await fs.promises.writeFile(file('folder', 'c.md'), 'gamma', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(vault, { recursive: true, force: true });
+    await fs.promises.rm(store, { recursive: true, force: true });
+  });
+
+  it('undoes a join: restores the target and brings back the deleted source', async () => {
+    const id = beginOperation('Join 2 files');
+    await write(id, 'a.md', 'alpha\n\n\nbeta');
+    await remove(id, 'b.md');
+    await endOperation(id);
+
+    expect(listOperations()).toEqual([expect.objectContaining({ label: 'Join 2 files', pathCount: 2 })]);
+    const result = await undoOperations(1);
+    expect(result).toMatchObject({ success: true, undone: 1, conflicts: [] });
+    expect(await read('a.md')).toBe('alpha');
+    expect(await read('b.md')).toBe('beta');
+    expect(listOperations()).toEqual([]);
+  });
+
+  it('undoes a split: removes the created parts', async () => {
+    const id = beginOperation('Split a.md');
+    await write(id, 'a-00.md', 'al');
+    await write(id, 'a-01.md', 'pha');
+    await remove(id, 'a.md');
+    await endOperation(id);
+
+    await undoOperations(1);
+    expect(exists('a-00.md')).toBe(false);
+    expect(exists('a-01.md')).toBe(false);
+    expect(await read('a.md')).toBe('alpha');
+  });
+
+  it('brings back a deleted folder with its contents', async () => {
+    const id = beginOperation('Delete folder');
+    await remove(id, 'folder');
+    await endOperation(id);
+
+    expect((await undoOperations(1)).success).toBe(true);
+    expect(await read('folder', 'c.md')).toBe('gamma');
+  });
+
+  it('moves entries back', async () => {
+    await fs.promises.mkdir(file('dest'));
+    const id = beginOperation('Move 2 items');
+    for (const name of ['a.md', 'folder']) {
+      expect(await renameEntry(file(name), file('dest', name))).toBe(true);
+      recordMove(id, file(name), file('dest', name));
+    }
+    await endOperation(id);
+
+    const result = await undoOperations(1);
+    expect(result.moves).toEqual([
+      { oldPath: file('dest', 'folder'), newPath: file('folder') },
+      { oldPath: file('dest', 'a.md'), newPath: file('a.md') },
+    ]);
+    expect(await read('a.md')).toBe('alpha');
+    expect(await read('folder', 'c.md')).toBe('gamma');
+  });
+
+  it('undoes the newest operations in turn, across operations touching the same file', async () => {
+    const first = beginOperation('Replace 1');
+    await write(first, 'a.md', 'ALPHA');
+    await endOperation(first);
+    const second = beginOperation('Replace 2');
+    await write(second, 'a.md', 'ALPHA!');
+    await endOperation(second);
+
+    expect(listOperations().map(op => op.label)).toEqual(['Replace 2', 'Replace 1']);
+    expect(await undoOperations(2)).toMatchObject({ success: true, undone: 2 });
+    expect(await read('a.md')).toBe('alpha');
+  });
+
+  it('finds files inside a folder that a newer operation moved', async () => {
+    const replace = beginOperation('Replace');
+    await write(replace, path.join('folder', 'c.md'), 'GAMMA');
+    await endOperation(replace);
+    const move = beginOperation('Move folder');
+    await renameEntry(file('folder'), file('moved'));
+    recordMove(move, file('folder'), file('moved'));
+    await endOperation(move);
+
+    expect(await undoOperations(2)).toMatchObject({ success: true, conflicts: [] });
+    expect(await read('folder', 'c.md')).toBe('gamma');
+  });
+
+  it('refuses the whole undo when a file was edited afterwards', async () => {
+    const first = beginOperation('Replace 1');
+    await write(first, 'a.md', 'ALPHA');
+    await endOperation(first);
+    const second = beginOperation('Replace 2');
+    await write(second, 'b.md', 'BETA');
+    await endOperation(second);
+    await fs.promises.writeFile(file('a.md'), 'edited by hand', 'utf8');
+
+    const result = await undoOperations(2);
+    expect(result).toMatchObject({ success: false, undone: 0, conflicts: [file('a.md')] });
+    expect(await read('a.md')).toBe('edited by hand');
+    expect(await read('b.md')).toBe('BETA');
+    expect(listOperations()).toHaveLength(2);
+  });
+
+  it('treats a file recreated where one was deleted as a conflict', async () => {
+    const id = beginOperation('Delete b.md');
+    await remove(id, 'b.md');
+    await endOperation(id);
+    await fs.promises.writeFile(file('b.md'), 'new', 'utf8');
+
+    expect((await undoOperations(1)).conflicts).toEqual([file('b.md')]);
+    expect(await read('b.md')).toBe('new');
+  });
+
+  it('records only the first change to a path, and drops operations that changed nothing', async () => {
+    const id = beginOperation('Twice');
+    await write(id, 'a.md', 'one');
+    await write(id, 'a.md', 'two');
+    await endOperation(id);
+    const empty = beginOperation('Cancelled');
+    await endOperation(empty);
+
+    expect(listOperations().map(op => op.label)).toEqual(['Twice']);
+    await undoOperations(1);
+    expect(await read('a.md')).toBe('alpha');
+  });
+
+  it('uses content the caller passes instead of reading the file', async () => {
+    const id = beginOperation('Replace');
+    await recordBeforeChange(id, file('a.md'), 'alpha');
+    await fs.promises.writeFile(file('a.md'), 'ALPHA', 'utf8');
+    await endOperation(id);
+
+    await undoOperations(1);
+    expect(await read('a.md')).toBe('alpha');
+  });
+
+  it('puts back what it reverted when an undo fails part way, keeping the operations', async () => {
+    const older = beginOperation('Replace in a.md');
+    await write(older, 'a.md', 'ALPHA');
+    await endOperation(older);
+    const id = beginOperation('Join 2 files');
+    await write(id, 'a.md', 'ALPHA\n\n\nbeta');
+    await remove(id, 'folder');
+    await write(id, 'folder', 'now a file');
+    await remove(id, 'b.md');
+    await endOperation(id);
+    // The copy of a.md, reverted last, goes missing: b.md and the folder are back by then.
+    await fs.promises.rm(path.join(store, String(id), '1'));
+
+    const result = await undoOperations(2);
+    expect(result).toMatchObject({ success: false, undone: 0, moves: [], paths: [] });
+    expect(result.error).toContain('nothing was undone');
+    expect(await read('a.md')).toBe('ALPHA\n\n\nbeta');
+    expect(await read('folder')).toBe('now a file');
+    expect(exists('b.md')).toBe(false);
+    expect(listOperations().map(op => op.label)).toEqual(['Join 2 files', 'Replace in a.md']);
+    expect(fs.readdirSync(store).sort()).toEqual([String(older), String(id)].sort());
+  });
+
+  it('rejects a count larger than the journal', async () => {
+    expect(await undoOperations(1)).toMatchObject({ success: false, undone: 0 });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for src/main/reminderScheduler.ts.
+ *
+ * Electron's Notification is replaced by a fake that records every
+ * notification shown, so the tests can click, close or press its buttons by
+ * hand and check what the scheduler opened and persisted.
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CalendarEventResult } from '../src/main/calendarLoader';
+
+const mocks = vi.hoisted(() => {
+  class FakeNotification {
+    static shown: FakeNotification[] = [];
+    static isSupported(): boolean {
+      return true;
+    }
+    options: { title: string; body: string };
+    closed = false;
+    private handlers = new Map<string, (...args: unknown[]) => void>();
+
+    constructor(options: { title: string; body: string }) {
+      this.options = options;
+    }
+    on(event: string, cb: (...args: unknown[]) => void): this {
+      this.handlers.set(event, cb);
+      return this;
+    }
+    show(): void {
+      FakeNotification.shown.push(this);
+    }
+    close(): void {
+      this.closed = true;
+      this.emit('close');
+    }
+    emit(event: string, ...args: unknown[]): void {
+      this.handlers.get(event)?.(...args);
+    }
+  }
+  return { FakeNotification };
+});
+
+vi.mock('electron', () => ({ Notification: mocks.FakeNotification }));
+
+import {
+  checkReminders,
+  dueReminders,
+  loadReminderState,
+  reminderTime,
+  removeReminderPath,
+  setReminderFile,
+  setReminderFolder,
+  startReminderScheduler,
+  stopReminderScheduler,
+  SNOOZE_MS,
+} from '../src/main/reminderScheduler';
+
+const { FakeNotification } = mocks;
+const MIN = 60 * 1000;
+const START = new Date(2026, 5, 1, 9, 0).getTime();
+
+function event(filePath: string, overrides: Partial<CalendarEventResult> = {}): CalendarEventResult {
+  return { id: filePath, title: path.basename(filePath, '.md'), start: START, end: START + 60 * MIN, filePath, snippet: 'Agenda', ...overrides };
+}
+
+describe('reminderTime', () => {
+  it("uses the item's lead, then the default, and none when either is off", () => {
+    expect(reminderTime(event('/v/a.md', { remind: 15 }), 60)).toBe(START - 15 * MIN);
+    expect(reminderTime(event('/v/a.md'), 60)).toBe(START - 60 * MIN);
+    expect(reminderTime(event('/v/a.md', { remind: null }), 60)).toBeNull();
+    expect(reminderTime(event('/v/a.md'), undefined)).toBeNull();
+  });
+});
+
+describe('dueReminders', () => {
+  const a = event('/v/a.md', { remind: 15 });
+
+  it('is due from the reminder time until the event is over', () => {
+    expect(dueReminders([a], {}, null, START - 16 * MIN)).toEqual([]);
+    expect(dueReminders([a], {}, null, START - 15 * MIN)).toEqual([a]);
+    expect(dueReminders([a], {}, null, START + 30 * MIN)).toEqual([a]);
+    expect(dueReminders([a], {}, null, START + 60 * MIN)).toEqual([]);
+  });
+
+  it('lets an all-day event remind all day long', () => {
+    const allDay = event('/v/b.md', { end: START, remind: 0.5 });
+    expect(dueReminders([allDay], {}, null, START + 12 * 60 * MIN)).toEqual([allDay]);
+  });
+
+  it('skips dismissed reminders and snoozed ones until the snooze ends', () => {
+    const key = `/v/a.md::${START}`;
+    expect(dueReminders([a], { [key]: { until: START + 60 * MIN, dismissed: true } }, null, START)).toEqual([]);
+    const snoozed = { [key]: { until: START + 60 * MIN, snoozedUntil: START + 10 * MIN } };
+    expect(dueReminders([a], snoozed, null, START)).toEqual([]);
+    expect(dueReminders([a], snoozed, null, START + 10 * MIN)).toEqual([a]);
+  });
+});
+
+describe('scheduler', () => {
+  let tmpDir: string;
+  let statePath: string;
+  let defaultLead: number | null | undefined;
+  const opened: string[] = [];
+
+  async function start(): Promise<void> {
+    await startReminderScheduler({ statePath, defaultLead: () => defaultLead, onOpen: (filePath) => opened.push(filePath) });
+  }
+
+  /** The saved state, once the queued write has landed. */
+  async function savedState(): Promise<unknown> {
+    await stopReminderScheduler();
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  }
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reminder-test-'));
+    statePath = path.join(tmpDir, 'reminders.json');
+    defaultLead = 30;
+    opened.length = 0;
+    FakeNotification.shown = [];
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    vi.setSystemTime(START - 20 * MIN);
+    await start();
+  });
+
+  afterEach(async () => {
+    await stopReminderScheduler();
+    setReminderFolder('/v', []);
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('shows a due reminder once and opens the file when it is clicked', async () => {
+    setReminderFile('/v/a.md', [event('/v/a.md')]);
+    checkReminders();
+    expect(FakeNotification.shown).toHaveLength(1);
+    expect(FakeNotification.shown[0]!.options.title).toBe('a');
+    FakeNotification.shown[0]!.emit('click');
+    expect(opened).toEqual(['/v/a.md']);
+    checkReminders();
+    expect(FakeNotification.shown).toHaveLength(1);
+    expect(await savedState()).toEqual({ [`/v/a.md::${START}`]: { until: START + 60 * MIN, dismissed: true } });
+  });
+
+  it('waits for the lead set on the item rather than the default', () => {
+    setReminderFile('/v/a.md', [event('/v/a.md', { remind: 10 })]);
+    expect(FakeNotification.shown).toHaveLength(0);
+    vi.advanceTimersByTime(10 * MIN);
+    expect(FakeNotification.shown).toHaveLength(1);
+  });
+
+  it('shows a snoozed reminder again after the snooze, across a restart', async () => {
+    setReminderFile('/v/a.md', [event('/v/a.md')]);
+    FakeNotification.shown[0]!.emit('action', { actionIndex: 0 });
+    await stopReminderScheduler();
+    await start();
+    checkReminders();
+    expect(FakeNotification.shown).toHaveLength(1);
+    vi.advanceTimersByTime(SNOOZE_MS);
+    expect(FakeNotification.shown).toHaveLength(2);
+  });
+
+  it('keeps a dismissed reminder dismissed across a restart', async () => {
+    setReminderFile('/v/a.md', [event('/v/a.md')]);
+    FakeNotification.shown[0]!.emit('action', { actionIndex: 1 });
+    await stopReminderScheduler();
+    await start();
+    checkReminders();
+    expect(FakeNotification.shown).toHaveLength(1);
+    expect(opened).toEqual([]);
+  });
+
+  it('closes reminders on screen when stopped without dismissing them', async () => {
+    setReminderFile('/v/a.md', [event('/v/a.md')]);
+    await stopReminderScheduler();
+    expect(FakeNotification.shown[0]!.closed).toBe(true);
+    await start();
+    expect(FakeNotification.shown).toHaveLength(2);
+  });
+
+  it('forgets removed files and folders, and those a folder scan no longer finds', () => {
+    defaultLead = null;
+    setReminderFolder('/v', [event('/v/a.md'), event('/v/sub/b.md'), event('/v/sub/c.md')]);
+    removeReminderPath('/v/a.md', false);
+    removeReminderPath('/v/sub', true);
+    setReminderFolder('/v/other', [event('/v/other/d.md')]);
+    defaultLead = 30;
+    checkReminders();
+    expect(FakeNotification.shown.map(n => n.options.title)).toEqual(['d']);
+  });
+
+  it('drops saved records once their event is over', async () => {
+    setReminderFile('/v/a.md', [event('/v/a.md')]);
+    FakeNotification.shown[0]!.emit('close');
+    vi.setSystemTime(START + 60 * MIN);
+    checkReminders();
+    expect(await savedState()).toEqual({});
+  });
+});
+
+describe('loadReminderState', () => {
+  it('keeps well-formed records and treats a corrupt file as empty', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reminder-state-test-'));
+    const file = path.join(tmpDir, 'reminders.json');
+    fs.writeFileSync(file, JSON.stringify({ a: { until: 5, dismissed: true, extra: 1 }, b: { dismissed: true }, c: 'x' }));
+    expect(await loadReminderState(file)).toEqual({ a: { until: 5, dismissed: true } });
+    fs.writeFileSync(file, '{not json');
+    expect(await loadReminderState(file)).toEqual({});
+    expect(await loadReminderState(path.join(tmpDir, 'missing.json'))).toEqual({});
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+});
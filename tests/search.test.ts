@@ -796,13 +796,14 @@ describe('result metadata', () => {
   it('results expose only the documented fields (no never-populated line-context fields)', async () => {
     // searchFolder is whole-file: it never computes per-line context. The
     // SearchResult contract was trimmed to match (issue 007), so results must
-    // not carry lineNumber / lineText / extraLine keys for any search mode.
+    // not carry lineNumber / lineText / extraLine keys for any search mode. (The
+    // relevance data — score and snippets — is the one per-line addition since.)
     const literal = await searchFolder(TEST_DATA_DIR, 'ALPHA-DUPLICATE-MARKER', 'literal');
     const filenames = await searchFolder(TEST_DATA_DIR, 'readme', 'literal', 'filenames');
     expect(literal.length).toBeGreaterThan(0);
     expect(filenames.length).toBeGreaterThan(0);
 
-    const allowedKeys = new Set(['path', 'relativePath', 'matchCount', 'modifiedTime', 'createdTime', 'nameMatch']);
+    const allowedKeys = new Set(['path', 'relativePath', 'matchCount', 'modifiedTime', 'createdTime', 'nameMatch', 'score', 'snippets']);
     for (const r of [...literal, ...filenames]) {
       expect(Object.keys(r).every(k => allowedKeys.has(k))).toBe(true);
       expect('lineNumber' in r).toBe(false);
@@ -822,25 +823,28 @@ describe('result metadata', () => {
     }
   });
 
-  it('results sorted by name matches first, then matchCount descending (all modes)', async () => {
+  it('results sorted by name matches first, then score, then matchCount descending (all modes)', async () => {
     // The ordering contract: in 'content' mode name matches lead (a filename hit is
-    // the most relevant kind, and its name-scoped matchCount would otherwise sink it
-    // below every content hit and make it the first casualty of the result cap);
-    // within each group, matchCount descending.
-    const assertOrdered = (results: { matchCount: number; nameMatch?: boolean }[]) => {
+    // the most relevant kind, and ranks level with the best content score); content
+    // matches follow by BM25 score, and unscored results by matchCount descending.
+    const assertOrdered = (results: { matchCount: number; nameMatch?: boolean; score?: number }[]) => {
       for (let i = 1; i < results.length; i++) {
         const prev = results[i - 1];
         const cur = results[i];
         // A name match must never follow a content match.
         expect(!!prev.nameMatch || !cur.nameMatch).toBe(true);
         if (!!prev.nameMatch === !!cur.nameMatch) {
-          expect(prev.matchCount).toBeGreaterThanOrEqual(cur.matchCount);
+          if (prev.score !== undefined && cur.score !== undefined && prev.score !== cur.score) {
+            expect(prev.score).toBeGreaterThan(cur.score);
+          } else {
+            expect(prev.matchCount).toBeGreaterThanOrEqual(cur.matchCount);
+          }
         }
       }
     };
 
     // Content search (literal) — 'apple' matches no file name, so this is a pure
-    // matchCount ordering check.
+    // score ordering check.
     assertOrdered(await searchFolder(TEST_DATA_DIR, 'apple', 'literal'));
 
     // Content search (wildcard) — 'hel*' matches both names (hello-world.md,
@@ -1515,6 +1519,23 @@ describe('result cap', () => {
     expect(results).toHaveLength(SEARCH_RESULT_LIMIT);
   });
 
+  it('ranks by relevance before capping, so a short note beats long files with more raw matches', async () => {
+    const rankedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mkb-result-rank-'));
+    try {
+      const filler = 'lorem ipsum dolor sit amet '.repeat(200);
+      for (let i = 0; i < TOTAL; i++) {
+        fs.writeFileSync(path.join(rankedDir, `long-${String(i).padStart(5, '0')}.md`), `${filler}RANKWORD RANKWORD RANKWORD ${filler}`, 'utf-8');
+      }
+      fs.writeFileSync(path.join(rankedDir, 'zz-short.md'), 'RANKWORD notes\n', 'utf-8');
+
+      const results = await searchFolder(rankedDir, 'RANKWORD', 'literal', 'content');
+      expect(results).toHaveLength(SEARCH_RESULT_LIMIT);
+      expect(path.basename(results[0].path)).toBe('zz-short.md');
+    } finally {
+      fs.rmSync(rankedDir, { recursive: true, force: true });
+    }
+  });
+
   it('bounds an empty query (mostRecent=false) at SEARCH_RESULT_LIMIT', async () => {
     // Empty query matches every searchable entry; without mostRecent the result
     // set would otherwise be the whole tree. It must still be capped.
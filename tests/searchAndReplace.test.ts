@@ -8,7 +8,7 @@ import path from 'node:path';
 import os from 'node:os';
 import fs from 'node:fs';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { searchAndReplace } from '../src/main/searchAndReplace';
+import { searchAndReplace, previewReplace } from '../src/main/searchAndReplace';
 
 let tmpDir: string;
 
@@ -31,7 +31,7 @@ async function writeFile(rel: string, content: string): Promise<string> {
 describe('searchAndReplace', () => {
   it('returns empty results for an empty search string', async () => {
     await writeFile('a.md', 'hello world');
-    const results = await searchAndReplace(tmpDir, '', 'x', []);
+    const results = await searchAndReplace(tmpDir, { searchText: '', replaceText: 'x' }, []);
     expect(results).toEqual([]);
   });
 
@@ -40,7 +40,7 @@ describe('searchAndReplace', () => {
     await writeFile('b.txt', 'foo here');
     await writeFile('c.md', 'nothing to see');
 
-    const results = await searchAndReplace(tmpDir, 'foo', 'bar', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, []);
 
     // Only files with at least one replacement appear
     expect(results).toHaveLength(2);
@@ -66,7 +66,7 @@ describe('searchAndReplace', () => {
     // Ensure any rewrite would produce a detectably different mtime.
     await new Promise((resolve) => { setTimeout(resolve, 10); });
 
-    const results = await searchAndReplace(tmpDir, 'foo', 'foo', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'foo', replaceText: 'foo' }, []);
 
     expect(results).toEqual([]);
     const after = await fs.promises.stat(file);
@@ -79,7 +79,7 @@ describe('searchAndReplace', () => {
     await writeFile('skip.json', 'token');
     await writeFile('skip.log', 'token');
 
-    const results = await searchAndReplace(tmpDir, 'token', 'X', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'token', replaceText: 'X' }, []);
 
     expect(results.map(r => r.relativePath)).toEqual(['keep.md']);
     expect(await fs.promises.readFile(path.join(tmpDir, 'skip.json'), 'utf-8')).toBe('token');
@@ -87,7 +87,7 @@ describe('searchAndReplace', () => {
 
   it('treats search text as a literal (regex metacharacters are escaped)', async () => {
     await writeFile('a.md', 'a.b a.b axb');
-    const results = await searchAndReplace(tmpDir, 'a.b', 'Z', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'a.b', replaceText: 'Z' }, []);
     expect(results[0].replacementCount).toBe(2); // only the two literal "a.b", not "axb"
     expect(await fs.promises.readFile(path.join(tmpDir, 'a.md'), 'utf-8')).toBe('Z Z axb');
   });
@@ -102,7 +102,7 @@ describe('searchAndReplace', () => {
     const cases = ['$&', '$$', '$1', '$5', '$`', "$'"];
     for (const replacement of cases) {
       await writeFile('p.md', 'price tag');
-      await searchAndReplace(tmpDir, 'price', replacement, []);
+      await searchAndReplace(tmpDir, { searchText: 'price', replaceText: replacement }, []);
       expect(await fs.promises.readFile(path.join(tmpDir, 'p.md'), 'utf-8')).toBe(`${replacement} tag`);
     }
   });
@@ -125,7 +125,7 @@ describe('searchAndReplace', () => {
 
     let results;
     try {
-      results = await searchAndReplace(tmpDir, 'needle', 'pin', []);
+      results = await searchAndReplace(tmpDir, { searchText: 'needle', replaceText: 'pin' }, []);
     } finally {
       // Restore perms so afterEach can remove the temp tree.
       await fs.promises.chmod(badPath, 0o644);
@@ -165,7 +165,7 @@ describe('searchAndReplace', () => {
       await fs.promises.symlink(outsideFile, path.join(tmpDir, 'linkfile.md'));
       await fs.promises.symlink(outsideDir, path.join(tmpDir, 'linkdir'));
 
-      const results = await searchAndReplace(tmpDir, 'needle', 'pin', []);
+      const results = await searchAndReplace(tmpDir, { searchText: 'needle', replaceText: 'pin' }, []);
 
       // Only the genuine in-tree file is touched.
       expect(results.map(r => r.relativePath)).toEqual(['real.md']);
@@ -186,7 +186,7 @@ describe('searchAndReplace', () => {
     await writeFile('a.md', 'foo foo');
     await writeFile('sub/b.txt', 'foo');
 
-    const results = await searchAndReplace(tmpDir, 'foo', 'bar', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, []);
 
     expect(results).toHaveLength(2);
     // Content was replaced...
@@ -213,7 +213,7 @@ describe('searchAndReplace', () => {
     await fs.promises.truncate(bigPath, overLimit);
     const bigSizeBefore = (await fs.promises.stat(bigPath)).size;
 
-    const results = await searchAndReplace(tmpDir, 'needle', 'pin', []);
+    const results = await searchAndReplace(tmpDir, { searchText: 'needle', replaceText: 'pin' }, []);
 
     const byRel = new Map(results.map(r => [r.relativePath, r]));
 
@@ -236,7 +236,7 @@ describe('searchAndReplace', () => {
     await writeFile('node_modules/dep.md', 'mark');
     await writeFile('.hidden.md', 'mark');
 
-    const results = await searchAndReplace(tmpDir, 'mark', 'M', ['node_modules']);
+    const results = await searchAndReplace(tmpDir, { searchText: 'mark', replaceText: 'M' }, ['node_modules']);
 
     expect(results.map(r => r.relativePath)).toEqual(['keep.md']);
     // Ignored/hidden files left untouched
@@ -251,9 +251,81 @@ describe('searchAndReplace', () => {
     await writeFile('keep.md', 'mark');
     await writeFile('my-draft-notes.md', 'mark');
 
-    const results = await searchAndReplace(tmpDir, 'mark', 'M', ['*draft*']);
+    const results = await searchAndReplace(tmpDir, { searchText: 'mark', replaceText: 'M' }, ['*draft*']);
 
     expect(results.map(r => r.relativePath)).toEqual(['keep.md']);
     expect(await fs.promises.readFile(path.join(tmpDir, 'my-draft-notes.md'), 'utf-8')).toBe('mark');
   });
 });
+
+describe('searchAndReplace options', () => {
+  it('expands capture groups in regex mode, with ^ and $ matching at line ends', async () => {
+    await writeFile('a.md', 'ann@example.com\nbob@example.com costs $5');
+    const results = await searchAndReplace(tmpDir, { searchText: '^(\\w+)@(?<host>[\\w.]+)', replaceText: '$<host>: $1 ($$)', regex: true }, []);
+    expect(results[0]).toMatchObject({ replacementCount: 2, success: true });
+    expect(await fs.promises.readFile(path.join(tmpDir, 'a.md'), 'utf-8')).toBe('example.com: ann ($)\nexample.com: bob ($) costs $5');
+  });
+
+  it('is case-sensitive unless told otherwise, and can match whole words only', async () => {
+    await writeFile('a.md', 'Cat cat catalog');
+    await searchAndReplace(tmpDir, { searchText: 'cat', replaceText: 'dog', ignoreCase: true, wholeWord: true }, []);
+    expect(await fs.promises.readFile(path.join(tmpDir, 'a.md'), 'utf-8')).toBe('dog dog catalog');
+    await writeFile('b.md', 'Dog dog');
+    await searchAndReplace(tmpDir, { searchText: 'dog', replaceText: 'x' }, []);
+    expect(await fs.promises.readFile(path.join(tmpDir, 'b.md'), 'utf-8')).toBe('Dog x');
+  });
+
+  it('only touches files the scope query matches, by name or content', async () => {
+    await writeFile('draft-one.md', 'old');
+    await writeFile('tagged.md', '#review\nold');
+    await writeFile('other.md', 'old');
+    const results = await searchAndReplace(tmpDir, { searchText: 'old', replaceText: 'new', scopeQuery: 'draft*', scopeType: 'wildcard' }, []);
+    expect(results.map(r => r.relativePath)).toEqual(['draft-one.md']);
+
+    const advanced = await searchAndReplace(tmpDir, { searchText: 'old', replaceText: 'new', scopeQuery: '$("#review")', scopeType: 'advanced' }, []);
+    expect(advanced.map(r => r.relativePath)).toEqual(['tagged.md']);
+    expect(await fs.promises.readFile(path.join(tmpDir, 'other.md'), 'utf-8')).toBe('old');
+  });
+});
+
+describe('previewReplace', () => {
+  it('lists each match in its line without writing anything', async () => {
+    await writeFile('b.md', 'intro\nsay foo twice: foo');
+    await writeFile('a.md', 'foo');
+    await writeFile('c.md', 'nothing');
+    const preview = await previewReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, []);
+
+    expect(preview).toMatchObject({ totalMatches: 3, truncated: false });
+    expect(preview.files.map(f => f.relativePath)).toEqual(['a.md', 'b.md']);
+    expect(preview.files[1]!.matches).toEqual([
+      { line: 2, start: 10, before: 'say ', text: 'foo', after: ' twice: foo', replacement: 'bar' },
+      { line: 2, start: 21, before: 'say foo twice: ', text: 'foo', after: '', replacement: 'bar' },
+    ]);
+    expect(await fs.promises.readFile(path.join(tmpDir, 'b.md'), 'utf-8')).toBe('intro\nsay foo twice: foo');
+  });
+
+  it('replaces only the selected matches', async () => {
+    const a = await writeFile('a.md', 'foo foo foo');
+    const b = await writeFile('b.md', 'foo');
+    const preview = await previewReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, []);
+    const second = preview.files[0]!.matches[1]!.start;
+
+    const results = await searchAndReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, [], [{ path: a, starts: [second] }]);
+
+    expect(results).toEqual([{ path: a, relativePath: 'a.md', replacementCount: 1, success: true }]);
+    expect(await fs.promises.readFile(a, 'utf-8')).toBe('foo bar foo');
+    expect(await fs.promises.readFile(b, 'utf-8')).toBe('foo');
+  });
+
+  it('skips a file whose selected match moved after the preview', async () => {
+    const a = await writeFile('a.md', 'foo foo');
+    const preview = await previewReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, []);
+    await fs.promises.writeFile(a, 'xx foo foo', 'utf-8');
+
+    const starts = preview.files[0]!.matches.map(m => m.start);
+    const results = await searchAndReplace(tmpDir, { searchText: 'foo', replaceText: 'bar' }, [], [{ path: a, starts }]);
+
+    expect(results[0]).toMatchObject({ success: false, replacementCount: 0 });
+    expect(await fs.promises.readFile(a, 'utf-8')).toBe('xx foo foo');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Unit tests for src/main/searchIndex.ts and its integration into searchFolder.
+ *
+ * chokidar is mocked (as in calendarWatcher.test.ts) so watcher events can be
+ * driven by hand; everything else runs against a real temp vault. The core
+ * property under test is that an indexed search returns exactly what the crawl
+ * returns — the index may only ever narrow which files get read.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  /** Fake chokidar watcher: records handlers and lets tests emit events. */
+  class FakeWatcher {
+    closed = false;
+    private handlers = new Map<string, (...args: unknown[]) => void>();
+
+    on(event: string, cb: (...args: unknown[]) => void): this {
+      this.handlers.set(event, cb);
+      return this;
+    }
+    async close(): Promise<void> {
+      this.closed = true;
+    }
+    emit(event: string, ...args: unknown[]): void {
+      this.handlers.get(event)?.(...args);
+    }
+  }
+  const watchers: FakeWatcher[] = [];
+  const state = {
+    watchers,
+    /** Called with each new watcher, before the code under test has attached its handlers. */
+    onWatch: null as ((w: FakeWatcher) => void) | null,
+    watch: () => {
+      const w = new FakeWatcher();
+      watchers.push(w);
+      state.onWatch?.(w);
+      return w;
+    },
+  };
+  return state;
+});
+
+vi.mock('chokidar', () => ({ watch: mocks.watch }));
+
+import { startSearchIndex, stopSearchIndex, getSearchIndexSnapshot, getIndexedBacklinks, tokenizeForIndex } from '../src/main/searchIndex';
+import { searchFolder } from '../src/main/search';
+
+let vault: string;
+let indexDir: string;
+
+async function write(rel: string, content: string): Promise<string> {
+  const full = path.join(vault, rel);
+  await fs.promises.mkdir(path.dirname(full), { recursive: true });
+  await fs.promises.writeFile(full, content, 'utf8');
+  return full;
+}
+
+/** Relative paths of a search's results, sorted, for order-insensitive comparison. */
+async function searchPaths(...args: Parameters<typeof searchFolder>): Promise<string[]> {
+  return (await searchFolder(...args)).map(r => `${r.relativePath}:${r.matchCount}`).sort();
+}
+
+function lastWatcher() {
+  const w = mocks.watchers.at(-1);
+  if (!w) throw new Error('no watcher started');
+  return w;
+}
+
+beforeEach(async () => {
+  mocks.watchers.length = 0;
+  mocks.onWatch = null;
+  vault = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'search-index-vault-'));
+  indexDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'search-index-store-'));
+  await write('alpha.md', '# Alpha\nThe quick brown fox jumps.');
+  await write('notes/beta.md', 'Foxglove grows in the garden. fox-trot');
+  await write('notes/gamma.txt', 'Nothing to see here, just a quickstep.');
+  await write('archive/old.md', 'an old fox');
+  await write('image.png', 'not really a png');
+});
+
+afterEach(async () => {
+  await stopSearchIndex();
+  await fs.promises.rm(vault, { recursive: true, force: true });
+  await fs.promises.rm(indexDir, { recursive: true, force: true });
+});
+
+describe('tokenizeForIndex', () => {
+  it('returns distinct lowercased word tokens', () => {
+    expect(tokenizeForIndex('Fox fox, FOX_trot! café 42').sort()).toEqual(['42', 'café', 'fox', 'fox_trot']);
+  });
+});
+
+describe('getSearchIndexSnapshot', () => {
+  it('is null until the index has been started', () => {
+    expect(getSearchIndexSnapshot(vault, [])).toBeNull();
+  });
+
+  it('lists every non-ignored file under the search folder', async () => {
+    await startSearchIndex(vault, ['archive'], indexDir);
+    const snapshot = getSearchIndexSnapshot(vault, ['archive']);
+    expect(snapshot?.listFiles().map(p => path.relative(vault, p)).sort())
+      .toEqual(['alpha.md', 'image.png', path.join('notes', 'beta.md'), path.join('notes', 'gamma.txt')]);
+    const sub = getSearchIndexSnapshot(path.join(vault, 'notes'), ['archive']);
+    expect(sub?.listFiles().map(p => path.basename(p)).sort()).toEqual(['beta.md', 'gamma.txt']);
+  });
+
+  it('refuses to answer for a different ignore list, an excluded folder, or a folder outside the root', async () => {
+    await startSearchIndex(vault, ['archive'], indexDir);
+    expect(getSearchIndexSnapshot(vault, [])).toBeNull();
+    expect(getSearchIndexSnapshot(path.join(vault, 'archive'), ['archive'])).toBeNull();
+    expect(getSearchIndexSnapshot(os.tmpdir(), ['archive'])).toBeNull();
+  });
+
+  it('stops answering after a watcher error', async () => {
+    await startSearchIndex(vault, [], indexDir);
+    lastWatcher().emit('error', new Error('ENOSPC'));
+    expect(getSearchIndexSnapshot(vault, [])).toBeNull();
+    expect(lastWatcher().closed).toBe(true);
+  });
+
+  it('stays not ready after a watcher error during the initial reconcile, until restarted', async () => {
+    // The error lands once the handlers are attached, while the reconcile is still reading files.
+    mocks.onWatch = (w) => { void Promise.resolve().then(() => w.emit('error', new Error('ENOSPC'))); };
+    await startSearchIndex(vault, [], indexDir);
+    expect(getSearchIndexSnapshot(vault, [])).toBeNull();
+    expect(lastWatcher().closed).toBe(true);
+
+    mocks.onWatch = null;
+    await startSearchIndex(vault, [], indexDir);
+    expect(mocks.watchers).toHaveLength(2);
+    expect(getSearchIndexSnapshot(vault, [])).not.toBeNull();
+  });
+});
+
+describe('candidates', () => {
+  beforeEach(async () => {
+    await startSearchIndex(vault, [], indexDir);
+  });
+
+  function candidateNames(query: string, type: 'literal' | 'wildcard'): string[] | null {
+    const set = getSearchIndexSnapshot(vault, [])?.candidates(query, type);
+    return set ? [...set].map(p => path.basename(p)).sort() : null;
+  }
+
+  it('treats a bare word as a substring of any token', () => {
+    expect(candidateNames('fox', 'literal')).toEqual(['alpha.md', 'beta.md', 'old.md']);
+    expect(candidateNames('quick', 'literal')).toEqual(['alpha.md', 'gamma.txt']);
+  });
+
+  it('pins token boundaries the query itself contains', () => {
+    // "glove" occurs only inside the token "foxglove": fine as a bare substring,
+    // but " glove" needs a token that *starts* with it and "glove " a token that
+    // *ends* with it.
+    expect(candidateNames('glove', 'literal')).toEqual(['beta.md']);
+    expect(candidateNames(' glove', 'literal')).toEqual([]);
+    expect(candidateNames('glove ', 'literal')).toEqual(['beta.md']);
+    expect(candidateNames(' quick ', 'literal')).toEqual(['alpha.md']);
+  });
+
+  it('requires every wildcard fragment', () => {
+    expect(candidateNames('quick*fox', 'wildcard')).toEqual(['alpha.md']);
+    expect(candidateNames('garden*', 'wildcard')).toEqual(['beta.md']);
+  });
+
+  it('returns null when the query has no word tokens', () => {
+    expect(candidateNames('!!', 'literal')).toBeNull();
+    expect(candidateNames('*', 'wildcard')).toBeNull();
+  });
+});
+
+describe('searchFolder with the index', () => {
+  const queries: [string, 'literal' | 'wildcard'][] = [
+    ['fox', 'literal'],
+    [' fox', 'literal'],
+    ['quick', 'literal'],
+    ['nothing here', 'literal'],
+    ['grows*garden', 'wildcard'],
+    ['missing', 'literal'],
+  ];
+
+  it.each(queries)('returns the same results as the crawl for %j (%s)', async (query, type) => {
+    const crawled = await searchPaths(vault, query, type, 'content', []);
+    await startSearchIndex(vault, [], indexDir);
+    expect(getSearchIndexSnapshot(vault, [])).not.toBeNull();
+    expect(await searchPaths(vault, query, type, 'content', [])).toEqual(crawled);
+  });
+
+  it('sees watcher-reported changes', async () => {
+    await startSearchIndex(vault, [], indexDir);
+    expect(await searchPaths(vault, 'zebra', 'literal', 'content', [])).toEqual([]);
+
+    const added = await write('notes/new.md', 'a zebra appears');
+    lastWatcher().emit('add', added);
+    await vi.waitFor(async () => {
+      expect(await searchPaths(vault, 'zebra', 'literal', 'content', [])).toEqual([`${path.join('notes', 'new.md')}:1`]);
+    });
+
+    await fs.promises.rm(added);
+    lastWatcher().emit('unlink', added);
+    expect(await searchPaths(vault, 'zebra', 'literal', 'content', [])).toEqual([]);
+  });
+});
+
+describe('getIndexedBacklinks', () => {
+  it('answers from the link map and follows watcher changes', async () => {
+    const linker = await write('notes/linker.md', 'intro\nsee [[../alpha]] and [a](../alpha.md#alpha)');
+    expect(getIndexedBacklinks(path.join(vault, 'alpha.md'), [])).toBeNull();
+    await startSearchIndex(vault, [], indexDir);
+    expect(getIndexedBacklinks(path.join(vault, 'alpha.md'), [])).toEqual([
+      { sourcePath: linker, line: 2, context: 'see [[../alpha]] and [a](../alpha.md#alpha)', anchor: null },
+      { sourcePath: linker, line: 2, context: 'see [[../alpha]] and [a](../alpha.md#alpha)', anchor: 'alpha' },
+    ]);
+
+    await write('notes/linker.md', 'no links now');
+    lastWatcher().emit('change', linker);
+    await vi.waitFor(() => {
+      expect(getIndexedBacklinks(path.join(vault, 'alpha.md'), [])).toEqual([]);
+    });
+  });
+
+  it('keeps links across a persisted restart', async () => {
+    const linker = await write('linker.md', '[[notes/beta]]');
+    await startSearchIndex(vault, [], indexDir);
+    await stopSearchIndex();
+    await startSearchIndex(vault, [], indexDir);
+    expect(getIndexedBacklinks(path.join(vault, 'notes', 'beta.md'), [])?.map(b => b.sourcePath)).toEqual([linker]);
+  });
+
+  it('finds wikilinks from other folders that resolve by name', async () => {
+    const linker = await write('archive/linker.md', 'see [[Beta]] and [[gamma]]');
+    await startSearchIndex(vault, [], indexDir);
+    expect(getIndexedBacklinks(path.join(vault, 'notes', 'beta.md'), [])).toEqual([
+      { sourcePath: linker, line: 1, context: 'see [[Beta]] and [[gamma]]', anchor: null },
+    ]);
+  });
+});
+
+describe('persistence', () => {
+  it('reuses the persisted index and re-reads only what changed on disk', async () => {
+    await startSearchIndex(vault, [], indexDir);
+    await stopSearchIndex();
+    const files = await fs.promises.readdir(indexDir);
+    expect(files).toHaveLength(1);
+
+    // Modify the vault while no watcher is running; the restart must reconcile.
+    await write('alpha.md', 'Now about a walrus.');
+    await fs.promises.rm(path.join(vault, 'archive', 'old.md'));
+    await startSearchIndex(vault, [], indexDir);
+
+    expect(await searchPaths(vault, 'walrus', 'literal', 'content', [])).toEqual(['alpha.md:1']);
+    expect(await searchPaths(vault, 'fox', 'literal', 'content', [])).toEqual([`${path.join('notes', 'beta.md')}:2`]);
+  });
+
+  it('discards a persisted index that is corrupt', async () => {
+    await startSearchIndex(vault, [], indexDir);
+    await stopSearchIndex();
+    const [file] = await fs.promises.readdir(indexDir);
+    await fs.promises.writeFile(path.join(indexDir, file ?? ''), '{not json', 'utf8');
+
+    await startSearchIndex(vault, [], indexDir);
+    expect(await searchPaths(vault, 'quick', 'literal', 'content', []))
+      .toEqual(['alpha.md:1', `${path.join('notes', 'gamma.txt')}:1`]);
+  });
+});
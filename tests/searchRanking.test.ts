@@ -0,0 +1,135 @@
+/**
+ * Unit tests for src/main/searchRanking.ts — BM25 scoring with field weights,
+ * and snippet extraction — plus the score/snippets searchFolder attaches to
+ * content matches.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { queryTerms, analyzeDocument, bm25Scores, extractSnippets } from '../src/main/searchRanking';
+import { searchFolder } from '../src/main/search';
+
+describe('queryTerms', () => {
+  it('tokenizes literal and wildcard queries', () => {
+    expect(queryTerms('Project Plan', 'literal')).toEqual(['project', 'plan']);
+    expect(queryTerms('road*map*', 'wildcard')).toEqual(['road', 'map']);
+  });
+
+  it('takes advanced-query terms from $() arguments only', () => {
+    expect(queryTerms(`$("alpha beta") && !$('gamma') && prop("title") === "x"`, 'advanced'))
+      .toEqual(['alpha', 'beta', 'gamma']);
+    expect(queryTerms('past(prop("due", "ts"))', 'advanced')).toEqual([]);
+  });
+});
+
+describe('analyzeDocument', () => {
+  it('weights headings and front-matter title/tags above body text', () => {
+    const body = analyzeDocument('a budget note', ['budget']);
+    const heading = analyzeDocument('# Budget\ntext', ['budget']);
+    const title = analyzeDocument('---\ntitle: Budget\ntags: [finance]\n---\ntext', ['budget', 'finance']);
+    expect(body.termFreqs).toEqual([1]);
+    expect(heading.termFreqs[0]).toBeGreaterThan(body.termFreqs[0] ?? 0);
+    expect(title.termFreqs[0]).toBeGreaterThan(heading.termFreqs[0] ?? 0);
+    expect(title.termFreqs[1]).toBe(title.termFreqs[0]);
+  });
+
+  it('does not treat # lines inside code fences as headings', () => {
+    const stats = analyzeDocument('```\n# budget\n```', ['budget']);
+    expect(stats.termFreqs).toEqual([1]);
+  });
+
+  it('credits tokens that start with a term', () => {
+    expect(analyzeDocument('planning planned plan replan', ['plan']).termFreqs).toEqual([3]);
+  });
+});
+
+describe('bm25Scores', () => {
+  it('ranks a short note titled with the query above a long log with many hits', () => {
+    const note = analyzeDocument('---\ntitle: Deploy checklist\n---\n# Deploy\nSteps to deploy.', ['deploy']);
+    const logLines = Array.from({ length: 2000 }, (_, i) => (i % 50 === 0 ? `line ${i} deploy ok` : `line ${i} heartbeat`));
+    const log = analyzeDocument(logLines.join('\n'), ['deploy']);
+    const [noteScore, logScore] = bm25Scores([note, log], 10);
+    expect(noteScore).toBeGreaterThan(logScore ?? Infinity);
+  });
+
+  it('gives rarer terms more weight', () => {
+    const docs = [
+      analyzeDocument('common rare', ['common', 'rare']),
+      analyzeDocument('common', ['common', 'rare']),
+      analyzeDocument('common', ['common', 'rare']),
+    ];
+    const [withRare, without] = bm25Scores(docs, 3);
+    expect(withRare).toBeGreaterThan(without ?? Infinity);
+  });
+
+  it('returns an empty array for no documents', () => {
+    expect(bm25Scores([], 5)).toEqual([]);
+  });
+});
+
+describe('extractSnippets', () => {
+  it('returns the lines with the most hits first, with highlight ranges', () => {
+    const content = 'intro\nOne fox here\nfox and FOX again\nnothing';
+    const snippets = extractSnippets(content, 'fox', 'literal');
+    expect(snippets.map(s => s.line)).toEqual([3, 2]);
+    expect(snippets[0]).toEqual({ line: 3, text: 'fox and FOX again', highlights: [[0, 3], [8, 11]] });
+  });
+
+  it('caps the number of snippets', () => {
+    const content = Array.from({ length: 10 }, () => 'fox').join('\n');
+    expect(extractSnippets(content, 'fox', 'literal')).toHaveLength(3);
+  });
+
+  it('cuts long lines to a window around the first hit and shifts the ranges', () => {
+    const line = `${'x'.repeat(300)} target ${'y'.repeat(300)}`;
+    const [snippet] = extractSnippets(line, 'target', 'literal');
+    expect(snippet?.text.startsWith('…')).toBe(true);
+    expect(snippet?.text.endsWith('…')).toBe(true);
+    const [start, end] = snippet?.highlights[0] ?? [0, 0];
+    expect(snippet?.text.slice(start, end)).toBe('target');
+  });
+
+  it('highlights wildcard matches and advanced $() needles', () => {
+    expect(extractSnippets('the road to the map', 'road*map', 'wildcard')[0]?.highlights).toEqual([[4, 19]]);
+    expect(extractSnippets('alpha and beta', '$("alpha") && $("beta")', 'advanced')[0]?.highlights)
+      .toEqual([[0, 5], [10, 14]]);
+  });
+
+  it('returns nothing for a query without needles', () => {
+    expect(extractSnippets('anything', '', 'literal')).toEqual([]);
+    expect(extractSnippets('anything', 'prop("x") === 1', 'advanced')).toEqual([]);
+  });
+});
+
+describe('searchFolder relevance data', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'search-ranking-'));
+    await fs.promises.writeFile(path.join(tmpDir, 'note.md'), '---\ntitle: Deploy\n---\nHow to deploy.', 'utf8');
+    const logLines = Array.from({ length: 1000 }, (_, i) => (i % 25 === 0 ? `${i} deploy started` : `${i} heartbeat ok`));
+    await fs.promises.writeFile(path.join(tmpDir, 'log.txt'), logLines.join('\n'), 'utf8');
+    await fs.promises.writeFile(path.join(tmpDir, 'deploy-notes.txt'), 'unrelated', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('scores content matches and attaches snippets, leaving name matches unscored', async () => {
+    const results = await searchFolder(tmpDir, 'deploy', 'literal', 'content');
+    const byName = new Map(results.map(r => [r.relativePath, r]));
+
+    const nameHit = byName.get('deploy-notes.txt');
+    expect(nameHit?.nameMatch).toBe(true);
+    expect(nameHit?.score).toBeUndefined();
+    expect(nameHit?.snippets).toBeUndefined();
+
+    const note = byName.get('note.md');
+    const log = byName.get('log.txt');
+    expect(log?.matchCount).toBeGreaterThan(note?.matchCount ?? Infinity);
+    expect(note?.score).toBeGreaterThan(log?.score ?? Infinity);
+    expect(note?.snippets?.[0]?.line).toBe(2);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the Tasks view's pieces: task parsing and toggling
+ * (src/shared/taskUtil.ts), the folder scan and write-back
+ * (src/main/taskScanner.ts), and the view's filters (src/renderer/taskFilter.ts).
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseTasks, toggleTaskLine } from '../src/shared/taskUtil';
+import { findTasks, toggleTask } from '../src/main/taskScanner';
+import { DEFAULT_TASK_FILTER, filterTasks, taskFolders, taskTags } from '../src/renderer/taskFilter';
+import type { TaskItem } from '../src/shared/shared';
+
+const NOTE = [
+  '---',
+  'title: "- [ ] not a task"',
+  '---',
+  '- [ ] Loose task #home',
+  '# Project ##',
+  '## Next steps',
+  '* [x] Shipped the draft',
+  '1. [ ] Call Ann on 3/9/2026 #phone #Phone',
+  '```',
+  '- [ ] sample in a code block',
+  '```',
+  '  - [X] nested done',
+  '- [ ]',
+  '- [] not a checkbox',
+].join('\n');
+
+describe('parseTasks', () => {
+  it('reads tasks with their heading, tags and due date, skipping front matter and code', () => {
+    const tasks = parseTasks(NOTE);
+    expect(tasks.map(t => [t.line, t.text, t.done, t.heading])).toEqual([
+      [4, 'Loose task #home', false, null],
+      [7, 'Shipped the draft', true, 'Next steps'],
+      [8, 'Call Ann on 3/9/2026 #phone #Phone', false, 'Next steps'],
+      [12, 'nested done', true, 'Next steps'],
+      [13, '', false, 'Next steps'],
+    ]);
+    expect(tasks[0]!.tags).toEqual(['#home']);
+    expect(tasks[2]!.tags).toEqual(['#phone', '#Phone']);
+    expect(tasks[2]!.due).toBe(new Date(2026, 2, 9).getTime());
+    expect(tasks[0]!.due).toBeNull();
+    expect(tasks[3]!.source).toBe('  - [X] nested done');
+  });
+
+  it('reads CRLF files', () => {
+    expect(parseTasks('# H\r\n- [ ] one\r\n').map(t => [t.text, t.heading, t.source])).toEqual([['one', 'H', '- [ ] one']]);
+  });
+});
+
+describe('toggleTaskLine', () => {
+  it('ticks and clears only the checkbox, keeping line endings', () => {
+    const content = 'a\r\n- [ ] task [ ] text\r\nb';
+    const ticked = toggleTaskLine(content, 2, '- [ ] task [ ] text', true);
+    expect(ticked).toBe('a\r\n- [x] task [ ] text\r\nb');
+    expect(toggleTaskLine(ticked!, 2, '- [x] task [ ] text', false)).toBe(content);
+  });
+
+  it('refuses when the line no longer reads as it did', () => {
+    expect(toggleTaskLine('- [ ] edited', 1, '- [ ] original', true)).toBeNull();
+    expect(toggleTaskLine('- [ ] task', 2, '- [ ] task', true)).toBeNull();
+  });
+});
+
+describe('findTasks and toggleTask', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tasks-test-'));
+    fs.mkdirSync(path.join(tmpDir, 'sub'));
+    fs.mkdirSync(path.join(tmpDir, 'skip'));
+    fs.writeFileSync(path.join(tmpDir, 'b.md'), '- [ ] b1\n- [x] b2\n');
+    fs.writeFileSync(path.join(tmpDir, 'sub', 'a.md'), '- [ ] a1\n');
+    fs.writeFileSync(path.join(tmpDir, 'skip', 'c.md'), '- [ ] c1\n');
+    fs.writeFileSync(path.join(tmpDir, 'notes.txt'), '- [ ] not markdown\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('lists the tasks of every markdown file, by file and line, honoring ignored paths', async () => {
+    const report = await findTasks(tmpDir, ['skip']);
+    expect(report.totalFiles).toBe(2);
+    expect(report.tasks.map(t => [path.relative(tmpDir, t.filePath), t.line, t.text])).toEqual([
+      ['b.md', 1, 'b1'],
+      ['b.md', 2, 'b2'],
+      [path.join('sub', 'a.md'), 1, 'a1'],
+    ]);
+  });
+
+  it('writes a toggle back to the file, and refuses a stale one', async () => {
+    const file = path.join(tmpDir, 'b.md');
+    expect(await toggleTask(file, 1, '- [ ] b1', true)).toEqual({ success: true });
+    expect(fs.readFileSync(file, 'utf-8')).toBe('- [x] b1\n- [x] b2\n');
+    const stale = await toggleTask(file, 1, '- [ ] b1', true);
+    expect(stale.success).toBe(false);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('- [x] b1\n- [x] b2\n');
+  });
+
+  it('reports a file that cannot be read', async () => {
+    const result = await toggleTask(path.join(tmpDir, 'missing.md'), 1, '- [ ] x', true);
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
+
+describe('filterTasks', () => {
+  const day = (offset: number) => new Date(2026, 2, 9 + offset, 12).getTime();
+  const task = (filePath: string, fields: Partial<TaskItem>): TaskItem => ({
+    filePath, line: 1, source: '', text: '', done: false, heading: null, tags: [], due: null, ...fields,
+  });
+  const tasks = [
+    task('/v/a.md', { text: 'late', due: day(-2), tags: ['#Work'] }),
+    task('/v/a.md', { text: 'today', due: day(0) }),
+    task('/v/sub/b.md', { text: 'soon', due: day(5), tags: ['#work', '#home'] }),
+    task('/v/sub/b.md', { text: 'later', due: day(30) }),
+    task('/v/sub-x/c.md', { text: 'done', done: true }),
+  ];
+  const texts = (list: TaskItem[]) => list.map(t => t.text);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 2, 9, 8));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows open tasks by default and filters by status', () => {
+    expect(texts(filterTasks(tasks, DEFAULT_TASK_FILTER))).toEqual(['late', 'today', 'soon', 'later']);
+    expect(texts(filterTasks(tasks, { ...DEFAULT_TASK_FILTER, status: 'done' }))).toEqual(['done']);
+  });
+
+  it('filters by due date', () => {
+    const due = (d: typeof DEFAULT_TASK_FILTER.due) => texts(filterTasks(tasks, { ...DEFAULT_TASK_FILTER, status: 'all', due: d }));
+    expect(due('overdue')).toEqual(['late']);
+    expect(due('today')).toEqual(['today']);
+    expect(due('week')).toEqual(['today', 'soon']);
+    expect(due('undated')).toEqual(['done']);
+    expect(due('dated')).toEqual(['late', 'today', 'soon', 'later']);
+  });
+
+  it('filters by tag, case-insensitively, and by folder including subfolders only', () => {
+    expect(texts(filterTasks(tasks, { ...DEFAULT_TASK_FILTER, tag: '#WORK' }))).toEqual(['late', 'soon']);
+    expect(texts(filterTasks(tasks, { ...DEFAULT_TASK_FILTER, status: 'all', folder: '/v/sub' }))).toEqual(['soon', 'later']);
+  });
+
+  it('offers each tag and folder once', () => {
+    expect(taskTags(tasks)).toEqual(['#home', '#Work']);
+    expect(taskFolders(tasks)).toEqual(['/v', '/v/sub', '/v/sub-x']);
+  });
+});
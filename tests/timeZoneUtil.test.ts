@@ -0,0 +1,70 @@
+/**
+ * Unit tests for src/shared/timeZoneUtil.ts: placing wall-clock times in IANA
+ * zones, and reading instants on another zone's clocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { fromZonedDate, isValidTimeZone, toZonedDate, wallClockIn, zonedTimeToEpoch, zoneTransitionsIn } from '../src/shared/timeZoneUtil';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects anything else', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('wallClockIn', () => {
+  it('reads the clock of the zone, midnight as hour 0', () => {
+    expect(wallClockIn(Date.UTC(2026, 0, 1, 15, 0), 'Asia/Tokyo')).toEqual({ year: 2026, month: 1, day: 2, hours: 0, minutes: 0, seconds: 0 });
+  });
+});
+
+describe('zonedTimeToEpoch', () => {
+  const ny = 'America/New_York';
+
+  it('places a time on either side of DST', () => {
+    expect(zonedTimeToEpoch({ year: 2026, month: 1, day: 15, hours: 9, minutes: 0 }, ny)).toBe(Date.UTC(2026, 0, 15, 14, 0));
+    expect(zonedTimeToEpoch({ year: 2026, month: 7, day: 1, hours: 9, minutes: 0 }, ny)).toBe(Date.UTC(2026, 6, 1, 13, 0));
+  });
+
+  it('moves a skipped time forward by the gap', () => {
+    // 2:30 AM on Mar 8 2026 does not happen in New York; 3:30 AM EDT does.
+    expect(zonedTimeToEpoch({ year: 2026, month: 3, day: 8, hours: 2, minutes: 30 }, ny)).toBe(Date.UTC(2026, 2, 8, 7, 30));
+  });
+
+  it('takes the first of a repeated time', () => {
+    // 1:30 AM on Nov 1 2026 happens twice in New York; the first is EDT.
+    expect(zonedTimeToEpoch({ year: 2026, month: 11, day: 1, hours: 1, minutes: 30 }, ny)).toBe(Date.UTC(2026, 10, 1, 5, 30));
+  });
+});
+
+describe('zoneTransitionsIn', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it("finds a year's clock changes to the minute, read on the clocks before each", () => {
+    expect(zoneTransitionsIn(2025, 'America/New_York')).toEqual([
+      { at: { year: 2025, month: 3, day: 9, hours: 2, minutes: 0, seconds: 0 }, offsetFrom: -5 * HOUR, offsetTo: -4 * HOUR },
+      { at: { year: 2025, month: 11, day: 2, hours: 2, minutes: 0, seconds: 0 }, offsetFrom: -4 * HOUR, offsetTo: -5 * HOUR },
+    ]);
+  });
+
+  it('is empty for a zone without daylight saving time', () => {
+    expect(zoneTransitionsIn(2025, 'Asia/Tokyo')).toEqual([]);
+  });
+});
+
+describe('toZonedDate / fromZonedDate', () => {
+  it('shows an instant on the zone\'s clocks and converts back', () => {
+    const ms = Date.UTC(2026, 5, 1, 12, 0);
+    const shown = toZonedDate(ms, 'Asia/Kolkata');
+    expect([shown.getDate(), shown.getHours(), shown.getMinutes()]).toEqual([1, 17, 30]);
+    expect(fromZonedDate(shown, 'Asia/Kolkata')).toBe(ms);
+  });
+
+  it('leaves the instant alone without a zone', () => {
+    const ms = Date.UTC(2026, 5, 1, 12, 0);
+    expect(toZonedDate(ms, null).getTime()).toBe(ms);
+    expect(fromZonedDate(new Date(ms), null)).toBe(ms);
+  });
+});
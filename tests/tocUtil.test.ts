@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { removeTOC, processTOC, extractHeadingTree } from '../src/shared/tocUtil';
+import { removeTOC, processTOC, extractHeadingTree, extractHeadingSection, listBlockIds, extractBlock, blockAtLine, newBlockId } from '../src/shared/tocUtil';
 
 describe('removeTOC', () => {
   it('strips TOC body leaving only the opening tag', () => {
@@ -311,3 +311,84 @@ describe('extractHeadingTree', () => {
     expect(a?.children?.[0].depth).toBe(4);
   });
 });
+
+describe('extractHeadingSection', () => {
+  const content = [
+    '---',
+    'title: Glossary',
+    '---',
+    '# Glossary',
+    '## Apple',
+    'A fruit.',
+    '### Varieties',
+    'Many.',
+    '## Banana',
+    'Yellow.',
+  ].join('\n');
+
+  it('returns the heading and its subsections, up to the next heading at its level', () => {
+    expect(extractHeadingSection(content, 'Apple')).toEqual({
+      text: '## Apple\nA fruit.\n### Varieties\nMany.',
+      startLine: 5,
+    });
+  });
+
+  it('matches by slug and runs to the end of the document for the last section', () => {
+    expect(extractHeadingSection(content, 'banana')).toEqual({ text: '## Banana\nYellow.', startLine: 9 });
+  });
+
+  it('returns null when no heading matches', () => {
+    expect(extractHeadingSection(content, 'Cherry')).toBeNull();
+  });
+});
+
+describe('block references', () => {
+  const content = [
+    '---',
+    'title: Notes',
+    '---',
+    '# Notes',
+    'First line of a paragraph',
+    'that ends with an id. ^para',
+    '',
+    '- one',
+    '- two ^item',
+    '- three',
+    '',
+    '^list',
+    '',
+    '```',
+    'not a block ^code',
+    '```',
+  ].join('\n');
+
+  it('lists block ids outside front matter and code', () => {
+    expect(listBlockIds(content)).toEqual(['para', 'item', 'list']);
+  });
+
+  it('extracts a paragraph or list item without its id', () => {
+    expect(extractBlock(content, 'para')).toEqual({
+      text: 'First line of a paragraph\nthat ends with an id.',
+      startLine: 5,
+    });
+    expect(extractBlock(content, 'item')).toEqual({ text: '- two', startLine: 9 });
+  });
+
+  it('gives a standalone id to the whole block above it', () => {
+    expect(extractBlock(content, 'list')).toEqual({ text: '- one\n- two ^item\n- three', startLine: 8 });
+    expect(extractBlock(content, 'code')).toBeNull();
+  });
+
+  it('finds the block under a line, and where a new id would go', () => {
+    expect(blockAtLine(content, 4)).toEqual({ kind: 'heading', heading: 'Notes' });
+    expect(blockAtLine(content, 5)).toEqual({ kind: 'block', id: 'para', endLine: 6 });
+    expect(blockAtLine(content, 10)).toEqual({ kind: 'block', id: null, endLine: 10 });
+    expect(blockAtLine(content, 12)).toEqual({ kind: 'block', id: 'list', endLine: 12 });
+    expect(blockAtLine(content, 7)).toBeNull();
+    expect(blockAtLine(content, 15)).toBeNull();
+  });
+
+  it('makes up ids not already in use', () => {
+    expect(newBlockId(content)).toMatch(/^[a-z0-9]{6}$/);
+  });
+});
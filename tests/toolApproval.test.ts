@@ -0,0 +1,262 @@
+/**
+ * Unit tests for src/main/ai/toolApproval.ts — the approval gate the mutating
+ * Agentic Mode tools wait on before writing or deleting — and for those tools
+ * (src/main/ai/tools.ts) going through it against a real temp folder.
+ *
+ * configMgr is mocked so the tools' allowed folder is the temp folder.
+ */
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const mockGetConfig = vi.fn<(...args: unknown[]) => unknown>();
+
+vi.mock('../src/main/configMgr', () => ({
+  getConfig: (...args: unknown[]) => mockGetConfig(...args),
+}));
+
+import {
+  setToolApprovalPrompter,
+  requestToolApproval,
+  resolveToolApproval,
+  cancelToolApprovals,
+  listAlwaysAllowedFolders,
+  clearAlwaysAllowedFolders,
+  rejectionResult,
+} from '../src/main/ai/toolApproval';
+import { writeFileTool, createFileTool, deleteFileTool, deleteFolderTool } from '../src/main/ai/tools';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../src/shared/shared';
+
+const folder = path.resolve('/notes/projects');
+
+function proposal(file = 'plan.md', dir = folder): Omit<ToolApprovalRequest, 'id'> {
+  return { tool: 'mk_write_file', kind: 'write', path: path.join(dir, file), before: 'old', content: 'new', folder: dir };
+}
+
+/** A prompter that records what it is shown and what it is told to dismiss. */
+function fakePrompter() {
+  const asked: ToolApprovalRequest[] = [];
+  const dismissed: number[][] = [];
+  setToolApprovalPrompter({
+    ask: (request) => { asked.push(request); return true; },
+    dismiss: (ids) => { dismissed.push(ids); },
+  });
+  return { asked, dismissed };
+}
+
+beforeEach(() => {
+  cancelToolApprovals();
+  clearAlwaysAllowedFolders();
+  setToolApprovalPrompter(null);
+});
+
+describe('requestToolApproval', () => {
+  it('waits for the user and returns their decision', async () => {
+    const { asked } = fakePrompter();
+    const answer = requestToolApproval(proposal());
+    expect(asked).toHaveLength(1);
+    expect(asked[0].path).toBe(path.join(folder, 'plan.md'));
+    resolveToolApproval(asked[0].id, { action: 'edit', content: 'edited' });
+    await expect(answer).resolves.toEqual({ action: 'edit', content: 'edited' });
+  });
+
+  it('gives each request its own id', () => {
+    const { asked } = fakePrompter();
+    void requestToolApproval(proposal('a.md'));
+    void requestToolApproval(proposal('b.md'));
+    expect(asked[0].id).not.toBe(asked[1].id);
+  });
+
+  it('rejects when there is no prompter', async () => {
+    await expect(requestToolApproval(proposal())).resolves.toMatchObject({ action: 'reject' });
+  });
+
+  it('rejects when the prompter has no window to ask in', async () => {
+    setToolApprovalPrompter({ ask: () => false, dismiss: () => {} });
+    await expect(requestToolApproval(proposal())).resolves.toMatchObject({ action: 'reject' });
+  });
+
+  it('ignores answers to requests that are not waiting', () => {
+    fakePrompter();
+    expect(() => resolveToolApproval(9999, { action: 'approve' })).not.toThrow();
+  });
+});
+
+describe('always allow', () => {
+  it('approves later calls in the folder and below without asking', async () => {
+    const { asked } = fakePrompter();
+    const first = requestToolApproval(proposal());
+    resolveToolApproval(asked[0].id, { action: 'approve', alwaysAllowFolder: true });
+    await first;
+    expect(listAlwaysAllowedFolders()).toEqual([folder]);
+
+    await expect(requestToolApproval(proposal('other.md'))).resolves.toEqual({ action: 'approve' });
+    await expect(requestToolApproval(proposal('x.md', path.join(folder, 'sub')))).resolves.toEqual({ action: 'approve' });
+    expect(asked).toHaveLength(1);
+  });
+
+  it('still asks about sibling folders that share a name prefix', () => {
+    const { asked } = fakePrompter();
+    void requestToolApproval(proposal());
+    resolveToolApproval(asked[0].id, { action: 'approve', alwaysAllowFolder: true });
+    void requestToolApproval(proposal('a.md', folder + '-old'));
+    expect(asked).toHaveLength(2);
+  });
+
+  it('is not added by a plain approval', () => {
+    const { asked } = fakePrompter();
+    void requestToolApproval(proposal());
+    resolveToolApproval(asked[0].id, { action: 'approve' });
+    expect(listAlwaysAllowedFolders()).toEqual([]);
+  });
+
+  it('is forgotten by clearAlwaysAllowedFolders', () => {
+    const { asked } = fakePrompter();
+    void requestToolApproval(proposal());
+    resolveToolApproval(asked[0].id, { action: 'approve', alwaysAllowFolder: true });
+    clearAlwaysAllowedFolders();
+    void requestToolApproval(proposal());
+    expect(asked).toHaveLength(2);
+  });
+});
+
+describe('cancelToolApprovals', () => {
+  it('rejects every waiting request and dismisses them', async () => {
+    const { asked, dismissed } = fakePrompter();
+    const a = requestToolApproval(proposal('a.md'));
+    const b = requestToolApproval(proposal('b.md'));
+    cancelToolApprovals();
+    await expect(a).resolves.toMatchObject({ action: 'reject' });
+    await expect(b).resolves.toMatchObject({ action: 'reject' });
+    expect(dismissed).toEqual([[asked[0].id, asked[1].id]]);
+  });
+
+  it('does nothing when no request is waiting', () => {
+    const { dismissed } = fakePrompter();
+    cancelToolApprovals();
+    expect(dismissed).toEqual([]);
+  });
+});
+
+describe('rejectionResult', () => {
+  it('tells the model nothing was changed', () => {
+    expect(rejectionResult({ action: 'reject' }, 'writing plan.md'))
+      .toBe('The user rejected writing plan.md, so nothing was changed.');
+  });
+
+  it('passes on the reason when one was given', () => {
+    expect(rejectionResult({ action: 'reject', reason: '  keep the old title ' }, 'writing plan.md'))
+      .toBe('The user rejected writing plan.md, so nothing was changed. Their reason: keep the old title');
+  });
+});
+
+describe('the mutating tools', () => {
+  let dir: string;
+  const file = (...parts: string[]) => path.join(dir, ...parts);
+  const read = (...parts: string[]) => fs.readFileSync(file(...parts), 'utf8');
+
+  /**
+   * Answer every approval request with `answer`, which runs while the request is
+   * on screen — so it also sees the disk as it is before the tool acts.
+   */
+  function answerWith(answer: (request: ToolApprovalRequest) => ToolApprovalDecision): ToolApprovalRequest[] {
+    const asked: ToolApprovalRequest[] = [];
+    setToolApprovalPrompter({
+      ask: (request) => {
+        asked.push(request);
+        const decision = answer(request);
+        setTimeout(() => resolveToolApproval(request.id, decision), 0);
+        return true;
+      },
+      dismiss: () => {},
+    });
+    return asked;
+  }
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tool-approval-')));
+    mockGetConfig.mockReturnValue({ agenticAllowedFolders: dir });
+    fs.mkdirSync(file('folder'));
+    fs.writeFileSync(file('note.md'), 'old text', 'utf8');
+    fs.writeFileSync(file('folder', 'a.md'), 'a', 'utf8');
+    fs.writeFileSync(file('folder', 'b.md'), 'b', 'utf8');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('show the write as a diff and write only after approval', async () => {
+    const asked = answerWith(() => {
+      expect(read('note.md')).toBe('old text');
+      return { action: 'approve' };
+    });
+    await writeFileTool.invoke({ filePath: file('note.md'), content: 'new text' });
+    expect(asked[0]).toMatchObject({ tool: 'mk_write_file', kind: 'write', before: 'old text', content: 'new text', folder: dir });
+    expect(read('note.md')).toBe('new text');
+  });
+
+  it('write the edited content when the user edits it, and say so', async () => {
+    answerWith(() => ({ action: 'edit', content: 'edited text' }));
+    const result = await writeFileTool.invoke({ filePath: file('note.md'), content: 'new text' });
+    expect(read('note.md')).toBe('edited text');
+    expect(result).toContain('edited');
+  });
+
+  it('change nothing when a write is rejected, and pass the reason on', async () => {
+    answerWith(() => ({ action: 'reject', reason: 'wrong file' }));
+    const result = await writeFileTool.invoke({ filePath: file('note.md'), content: 'new text' });
+    expect(read('note.md')).toBe('old text');
+    expect(result).toContain('wrong file');
+  });
+
+  it('refuse an approved write when the file changed during review', async () => {
+    answerWith(() => {
+      fs.writeFileSync(file('note.md'), 'saved meanwhile', 'utf8');
+      return { action: 'approve' };
+    });
+    const result = await writeFileTool.invoke({ filePath: file('note.md'), content: 'new text' });
+    expect(read('note.md')).toBe('saved meanwhile');
+    expect(result).toMatch(/^Error: .*changed while the user was reviewing/);
+  });
+
+  it('create a file only after approval, and not on rejection', async () => {
+    answerWith((request) => {
+      expect(fs.existsSync(request.path)).toBe(false);
+      return request.path.endsWith('yes.md') ? { action: 'approve' } : { action: 'reject' };
+    });
+    await createFileTool.invoke({ filePath: file('yes.md'), content: 'hello' });
+    await createFileTool.invoke({ filePath: file('no.md'), content: 'hello' });
+    expect(read('yes.md')).toBe('hello');
+    expect(fs.existsSync(file('no.md'))).toBe(false);
+  });
+
+  it('list every file a wildcard delete would remove, and delete them only after approval', async () => {
+    const asked = answerWith(() => {
+      expect(fs.existsSync(file('folder', 'a.md'))).toBe(true);
+      return { action: 'approve' };
+    });
+    await deleteFileTool.invoke({ filePath: file('folder', '*.md') });
+    expect(asked[0]!.targets).toEqual([file('folder', 'a.md'), file('folder', 'b.md')]);
+    expect(fs.readdirSync(file('folder'))).toEqual([]);
+  });
+
+  it('change nothing when a delete is rejected', async () => {
+    answerWith(() => ({ action: 'reject' }));
+    await deleteFileTool.invoke({ filePath: file('note.md') });
+    await deleteFolderTool.invoke({ folderPath: file('folder') });
+    expect(fs.existsSync(file('note.md'))).toBe(true);
+    expect(fs.readdirSync(file('folder')).sort()).toEqual(['a.md', 'b.md']);
+  });
+
+  it('delete a folder only after approval, counting what is inside it', async () => {
+    const asked = answerWith(() => {
+      expect(fs.existsSync(file('folder'))).toBe(true);
+      return { action: 'approve' };
+    });
+    await deleteFolderTool.invoke({ folderPath: file('folder') });
+    expect(asked[0]).toMatchObject({ kind: 'delete-folder', entryCount: 2 });
+    expect(fs.existsSync(file('folder'))).toBe(false);
+  });
+});